@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseAcpAgentConfigs, toAcpAgentInfo } from './acpAgents';
+
+describe('parseAcpAgentConfigs', () => {
+    it('fills in defaults for a minimal agent', () => {
+        const { agents, errors } = parseAcpAgentConfigs([{ name: 'goose', command: 'goose', args: ['acp'] }]);
+
+        expect(errors).toEqual([]);
+        expect(agents).toEqual([{
+            name: 'goose',
+            displayName: undefined,
+            command: 'goose',
+            args: ['acp'],
+            env: {},
+            permissionModes: ['default', 'read-only', 'safe-yolo', 'yolo']
+        }]);
+    });
+
+    it('skips invalid and duplicate entries but keeps the rest', () => {
+        const { agents, errors } = parseAcpAgentConfigs([
+            { name: 'Bad Name', command: 'x' },
+            { name: 'kimi', command: 'kimi', permissionModes: ['default', 'plan'] },
+            { name: 'kimi', command: 'kimi', permissionModes: ['yolo', 'default', 'yolo'] },
+            { name: 'kimi', command: 'kimi-2' }
+        ]);
+
+        expect(agents.map((agent) => agent.name)).toEqual(['kimi']);
+        expect(agents[0].permissionModes).toEqual(['yolo', 'default']);
+        expect(errors).toHaveLength(3);
+        expect(errors[0]).toMatch(/^acpAgents\[0\]: name /);
+        expect(errors[1]).toMatch(/^acpAgents\[1\]: permissionModes/);
+        expect(errors[2]).toBe('acpAgents[3]: duplicate name kimi');
+    });
+
+    it('rejects a non-array setting', () => {
+        expect(parseAcpAgentConfigs({ name: 'goose' }).errors).toEqual(['acpAgents must be an array']);
+        expect(parseAcpAgentConfigs(undefined)).toEqual({ agents: [], errors: [] });
+    });
+
+    it('advertises only what the web app needs', () => {
+        const { agents } = parseAcpAgentConfigs([{
+            name: 'goose',
+            displayName: 'Goose',
+            command: 'goose',
+            env: { GOOSE_TOKEN: 'secret' },
+            permissionModes: ['default']
+        }]);
+
+        expect(toAcpAgentInfo(agents[0])).toEqual({ name: 'goose', displayName: 'Goose', permissionModes: ['default'] });
+    });
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { ACP_PERMISSION_MODES, toAcpAgentFlavor, type AcpPermissionMode } from '@hapi/protocol';
+import { ACP_AGENT_NAME_PATTERN, type AcpAgentInfo } from '@hapi/protocol/schemas';
+import { AgentRegistry } from '@/agent/AgentRegistry';
+import { AcpSdkBackend } from '@/agent/backends/acp';
+import { readSettings } from '@/persistence';
+
+const AcpAgentConfigSchema = z.object({
+    name: z.string().regex(ACP_AGENT_NAME_PATTERN, 'name must be lowercase letters, digits, - or _'),
+    displayName: z.string().min(1).max(255).optional(),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    permissionModes: z.array(z.enum(ACP_PERMISSION_MODES)).min(1).optional()
+});
+
+export type AcpAgentConfig = {
+    name: string;
+    displayName?: string;
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+    permissionModes: AcpPermissionMode[];
+};
+
+/**
+ * Validates the `acpAgents` entry of settings.json. Invalid or duplicate
+ * entries are reported and skipped so one typo does not hide every agent.
+ */
+export function parseAcpAgentConfigs(value: unknown): { agents: AcpAgentConfig[]; errors: string[] } {
+    const agents: AcpAgentConfig[] = [];
+    const errors: string[] = [];
+    if (value === undefined) {
+        return { agents, errors };
+    }
+    if (!Array.isArray(value)) {
+        return { agents, errors: ['acpAgents must be an array'] };
+    }
+
+    value.forEach((entry, index) => {
+        const parsed = AcpAgentConfigSchema.safeParse(entry);
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            const field = issue?.path.join('.') || 'entry';
+            errors.push(`acpAgents[${index}]: ${field} ${issue?.message ?? 'is invalid'}`);
+            return;
+        }
+        if (agents.some((agent) => agent.name === parsed.data.name)) {
+            errors.push(`acpAgents[${index}]: duplicate name ${parsed.data.name}`);
+            return;
+        }
+        agents.push({
+            name: parsed.data.name,
+            displayName: parsed.data.displayName,
+            command: parsed.data.command,
+            args: parsed.data.args ?? [],
+            env: parsed.data.env ?? {},
+            permissionModes: [...new Set(parsed.data.permissionModes ?? ACP_PERMISSION_MODES)]
+        });
+    });
+
+    return { agents, errors };
+}
+
+export async function readAcpAgentConfigs(): Promise<{ agents: AcpAgentConfig[]; errors: string[] }> {
+    const settings = await readSettings();
+    return parseAcpAgentConfigs(settings.acpAgents);
+}
+
+export function toAcpAgentInfo(agent: AcpAgentConfig): AcpAgentInfo {
+    return {
+        name: agent.name,
+        ...(agent.displayName ? { displayName: agent.displayName } : {}),
+        permissionModes: agent.permissionModes
+    };
+}
+
+function buildEnv(extra: Record<string, string>): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(process.env)) {
+        if (typeof value === 'string') {
+            env[key] = value;
+        }
+    }
+    return { ...env, ...extra };
+}
+
+/**
+ * Registers each declared agent with the AgentRegistry under its `acp:<name>` flavor
+ */
+export function registerAcpAgents(agents: AcpAgentConfig[]): void {
+    for (const agent of agents) {
+        AgentRegistry.register(toAcpAgentFlavor(agent.name), () => new AcpSdkBackend({
+            command: agent.command,
+            args: agent.args,
+            env: buildEnv(agent.env)
+        }));
+    }
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AcpFileSystem } from './AcpFileSystem';
+
+describe('AcpFileSystem', () => {
+    let workingDirectory: string;
+    let fileSystem: AcpFileSystem;
+
+    beforeEach(async () => {
+        workingDirectory = await mkdtemp(join(tmpdir(), 'hapi-acp-fs-'));
+        fileSystem = new AcpFileSystem(() => workingDirectory);
+    });
+
+    afterEach(async () => {
+        await rm(workingDirectory, { recursive: true, force: true });
+    });
+
+    it('reads a whole file or a 1-based line range', async () => {
+        const path = join(workingDirectory, 'notes.txt');
+        await writeFile(path, 'one\ntwo\nthree\nfour');
+
+        expect(await fileSystem.readTextFile({ sessionId: 's', path })).toEqual({ content: 'one\ntwo\nthree\nfour' });
+        expect(await fileSystem.readTextFile({ sessionId: 's', path, line: 2, limit: 2 })).toEqual({ content: 'two\nthree' });
+    });
+
+    it('reports the previous content of an overwritten file', async () => {
+        const path = join(workingDirectory, 'a.txt');
+        await writeFile(path, 'old');
+
+        const write = await fileSystem.writeTextFile({ sessionId: 's', path, content: 'new' });
+
+        expect(write).toEqual({ path, previousContent: 'old', content: 'new' });
+        expect(await readFile(path, 'utf8')).toBe('new');
+    });
+
+    it('creates missing files and directories', async () => {
+        const path = join(workingDirectory, 'src', 'b.txt');
+
+        const write = await fileSystem.writeTextFile({ sessionId: 's', path, content: 'hello' });
+
+        expect(write.previousContent).toBeNull();
+        expect(await readFile(path, 'utf8')).toBe('hello');
+    });
+
+    it('refuses paths outside the working directory', async () => {
+        await expect(fileSystem.readTextFile({ sessionId: 's', path: join(workingDirectory, '..', 'secret') }))
+            .rejects.toThrow('outside the working directory');
+        await expect(fileSystem.writeTextFile({ sessionId: 's', path: '/etc/passwd', content: '' }))
+            .rejects.toThrow('outside the working directory');
+    });
+
+    it('fails before a session is started', async () => {
+        const idle = new AcpFileSystem(() => null);
+        await expect(idle.readTextFile({ path: '/tmp/x' })).rejects.toThrow('No ACP session is active');
+    });
+});
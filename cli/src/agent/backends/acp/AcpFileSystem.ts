@@ -0,0 +1,78 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { asNumber, asString, isObject } from '@hapi/protocol';
+import { validatePath } from '@/modules/common/pathSecurity';
+
+export type AcpFileWrite = {
+    path: string;
+    /** Content before the write, or null when the file was created */
+    previousContent: string | null;
+    content: string;
+};
+
+function isMissingFileError(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+/**
+ * Serves the ACP `fs/read_text_file` and `fs/write_text_file` client methods,
+ * confined to the session's working directory.
+ */
+export class AcpFileSystem {
+    constructor(private readonly getWorkingDirectory: () => string | null) {}
+
+    async readTextFile(params: unknown): Promise<{ content: string }> {
+        const path = this.resolvePath(params);
+        const content = await readFile(path, 'utf8');
+
+        const line = isObject(params) ? asNumber(params.line) : null;
+        const limit = isObject(params) ? asNumber(params.limit) : null;
+        if (line === null && limit === null) {
+            return { content };
+        }
+
+        // `line` is 1-based
+        const start = Math.max((line ?? 1) - 1, 0);
+        const lines = content.split('\n');
+        const end = limit === null ? lines.length : start + Math.max(limit, 0);
+        return { content: lines.slice(start, end).join('\n') };
+    }
+
+    async writeTextFile(params: unknown): Promise<AcpFileWrite> {
+        const path = this.resolvePath(params);
+        const content = isObject(params) && typeof params.content === 'string' ? params.content : null;
+        if (content === null) {
+            throw new Error('fs/write_text_file requires string content');
+        }
+
+        let previousContent: string | null = null;
+        try {
+            previousContent = await readFile(path, 'utf8');
+        } catch (error) {
+            if (!isMissingFileError(error)) {
+                throw error;
+            }
+            await mkdir(dirname(path), { recursive: true });
+        }
+
+        await writeFile(path, content, 'utf8');
+        return { path, previousContent, content };
+    }
+
+    private resolvePath(params: unknown): string {
+        const workingDirectory = this.getWorkingDirectory();
+        if (!workingDirectory) {
+            throw new Error('No ACP session is active');
+        }
+        const path = isObject(params) ? asString(params.path) : null;
+        if (!path) {
+            throw new Error('A file path is required');
+        }
+
+        const validation = validatePath(path, workingDirectory);
+        if (!validation.valid) {
+            throw new Error(validation.error ?? 'Invalid file path');
+        }
+        return resolve(workingDirectory, path);
+    }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentMessage } from '@/agent/types';
+import { AcpMessageHandler, extractPromptUsage, extractSessionModels } from './AcpMessageHandler';
+
+describe('extractPromptUsage', () => {
+    it('reads the usage field of a prompt response', () => {
+        expect(extractPromptUsage({
+            stopReason: 'end_turn',
+            usage: { inputTokens: 120, outputTokens: 40, cachedReadTokens: 800, totalTokens: 960 }
+        })).toEqual({
+            model: null,
+            inputTokens: 120,
+            outputTokens: 40,
+            cacheReadTokens: 800,
+            cacheCreationTokens: 0,
+            costUsd: null
+        });
+    });
+
+    it('falls back to quota metadata with the model name', () => {
+        expect(extractPromptUsage({
+            stopReason: 'end_turn',
+            _meta: {
+                quota: {
+                    token_count: { input_tokens: 10, output_tokens: 5 },
+                    model_usage: [{ model: 'gemini-2.5-pro', token_count: { input_tokens: 10, output_tokens: 5 } }]
+                }
+            }
+        })).toMatchObject({ model: 'gemini-2.5-pro', inputTokens: 10, outputTokens: 5 });
+    });
+
+    it('returns null without token counts', () => {
+        expect(extractPromptUsage({ stopReason: 'end_turn' })).toBeNull();
+        expect(extractPromptUsage(null)).toBeNull();
+    });
+});
+
+describe('extractSessionModels', () => {
+    it('reads the models of a session response', () => {
+        expect(extractSessionModels({
+            sessionId: 's1',
+            models: {
+                currentModelId: 'gemini-2.5-pro',
+                availableModels: [
+                    { modelId: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Most capable' },
+                    { modelId: 'gemini-2.5-flash' },
+                    { name: 'no id' }
+                ]
+            }
+        })).toEqual({
+            currentModelId: 'gemini-2.5-pro',
+            available: [
+                { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Most capable' },
+                { id: 'gemini-2.5-flash', name: undefined, description: undefined }
+            ]
+        });
+    });
+
+    it('returns null when the agent reports no models', () => {
+        expect(extractSessionModels({ sessionId: 's1' })).toBeNull();
+        expect(extractSessionModels({ sessionId: 's1', models: { availableModels: [] } })).toBeNull();
+    });
+});
+
+describe('AcpMessageHandler', () => {
+    it('emits usage for prompt responses that report it', () => {
+        const messages: AgentMessage[] = [];
+        const handler = new AcpMessageHandler((message) => messages.push(message));
+
+        handler.handlePromptResponse({ stopReason: 'end_turn' });
+        handler.handlePromptResponse({ stopReason: 'end_turn', usage: { inputTokens: 1, outputTokens: 2 } });
+
+        expect(messages).toEqual([{
+            type: 'usage',
+            usage: { model: null, inputTokens: 1, outputTokens: 2, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: null }
+        }]);
+    });
+});
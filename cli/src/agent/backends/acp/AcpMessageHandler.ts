@@ -1,5 +1,6 @@
-import type { AgentMessage, PlanItem } from '@/agent/types';
-import { asString, isObject } from '@hapi/protocol';
+import type { AgentMessage, AgentModel, AgentSessionModels, PlanItem } from '@/agent/types';
+import { asNumber, asString, isObject } from '@hapi/protocol';
+import type { UsageReport } from '@hapi/protocol/types';
 import { deriveToolName } from '@/agent/utils';
 import { ACP_SESSION_UPDATE_TYPES } from './constants';
 
@@ -45,6 +46,68 @@ function normalizePlanEntries(entries: unknown): PlanItem[] {
     return items;
 }
 
+function readTokenCounts(value: unknown): { input: number; output: number; cacheRead: number; cacheWrite: number } | null {
+    if (!isObject(value)) return null;
+    const input = asNumber(value.inputTokens ?? value.input_tokens);
+    const output = asNumber(value.outputTokens ?? value.output_tokens);
+    if (input === null && output === null) return null;
+    return {
+        input: input ?? 0,
+        output: output ?? 0,
+        cacheRead: asNumber(value.cachedReadTokens ?? value.cached_read_tokens) ?? 0,
+        cacheWrite: asNumber(value.cachedWriteTokens ?? value.cached_write_tokens) ?? 0
+    };
+}
+
+/**
+ * Token usage of a finished prompt turn. Reads the `usage` field of the
+ * session/prompt response, falling back to the `_meta.quota` block some
+ * agents (Gemini CLI) attach instead.
+ */
+export function extractPromptUsage(response: unknown): UsageReport | null {
+    if (!isObject(response)) return null;
+
+    const quota = isObject(response._meta) && isObject(response._meta.quota) ? response._meta.quota : null;
+    const modelUsage = Array.isArray(quota?.model_usage) ? quota.model_usage.find(isObject) : undefined;
+    const counts = readTokenCounts(response.usage) ?? readTokenCounts(quota?.token_count);
+    if (!counts) return null;
+
+    return {
+        model: asString(modelUsage?.model),
+        inputTokens: counts.input,
+        outputTokens: counts.output,
+        cacheReadTokens: counts.cacheRead,
+        cacheCreationTokens: counts.cacheWrite,
+        costUsd: null
+    };
+}
+
+/**
+ * Models offered in a session/new or session/load response (the unstable
+ * `models` field of ACP), or null when the agent does not let clients pick.
+ */
+export function extractSessionModels(response: unknown): AgentSessionModels | null {
+    if (!isObject(response) || !isObject(response.models) || !Array.isArray(response.models.availableModels)) {
+        return null;
+    }
+
+    const available = response.models.availableModels.flatMap((model): AgentModel[] => {
+        const id = isObject(model) ? asString(model.modelId) : null;
+        if (!isObject(model) || !id) return [];
+        return [{
+            id,
+            name: asString(model.name) ?? undefined,
+            description: asString(model.description) ?? undefined
+        }];
+    });
+    if (available.length === 0) return null;
+
+    return {
+        available,
+        currentModelId: asString(response.models.currentModelId)
+    };
+}
+
 export class AcpMessageHandler {
     private readonly toolCalls = new Map<string, { name: string; input: unknown }>();
     private bufferedText = '';
@@ -80,6 +143,13 @@ export class AcpMessageHandler {
         this.bufferedText += text;
     }
 
+    handlePromptResponse(response: unknown): void {
+        const usage = extractPromptUsage(response);
+        if (usage) {
+            this.onMessage({ type: 'usage', usage });
+        }
+    }
+
     handleUpdate(update: unknown): void {
         if (!isObject(update)) return;
         const updateType = asString(update.sessionUpdate);
@@ -1,7 +1,10 @@
-import type { AgentBackend, AgentMessage, AgentSessionConfig, PermissionRequest, PermissionResponse, PromptContent } from '@/agent/types';
+import type { AgentBackend, AgentMessage, AgentSessionConfig, AgentSessionModels, PermissionRequest, PermissionResponse, PromptContent } from '@/agent/types';
+import { randomUUID } from 'node:crypto';
 import { asString, isObject } from '@hapi/protocol';
 import { AcpStdioTransport, type AcpStderrError } from './AcpStdioTransport';
-import { AcpMessageHandler } from './AcpMessageHandler';
+import { AcpMessageHandler, extractSessionModels } from './AcpMessageHandler';
+import { AcpFileSystem, type AcpFileWrite } from './AcpFileSystem';
+import { AcpTerminalPool } from './AcpTerminalPool';
 import { logger } from '@/ui/logger';
 import { withRetry } from '@/utils/time';
 import packageJson from '../../../../package.json';
@@ -16,7 +19,19 @@ export class AcpSdkBackend implements AgentBackend {
     private stderrErrorHandler: ((error: AcpStderrError) => void) | null = null;
     private readonly pendingPermissions = new Map<string, PendingPermission>();
     private messageHandler: AcpMessageHandler | null = null;
+    private updateHandler: ((msg: AgentMessage) => void) | null = null;
     private activeSessionId: string | null = null;
+    private workingDirectory: string | null = null;
+    private sessionModels: AgentSessionModels | null = null;
+    private readonly fileSystem = new AcpFileSystem(() => this.workingDirectory);
+    private readonly terminals = new AcpTerminalPool({
+        getWorkingDirectory: () => this.workingDirectory,
+        onOutput: (chunk) => {
+            if (!this.updateHandler) return;
+            this.messageHandler?.flushText();
+            this.updateHandler({ type: 'terminal_output', ...chunk });
+        }
+    });
     private isProcessingMessage = false;
     private responseCompleteResolvers: Array<() => void> = [];
 
@@ -52,12 +67,30 @@ export class AcpSdkBackend implements AgentBackend {
             return await this.handlePermissionRequest(params, requestId);
         });
 
+        this.transport.registerRequestHandler('fs/read_text_file', async (params) => {
+            return await this.fileSystem.readTextFile(params);
+        });
+        this.transport.registerRequestHandler('fs/write_text_file', async (params) => {
+            const write = await this.fileSystem.writeTextFile(params);
+            this.reportFileWrite(write);
+            return null;
+        });
+
+        const terminalSupported = AcpTerminalPool.isSupported();
+        if (terminalSupported) {
+            this.transport.registerRequestHandler('terminal/create', async (params) => this.terminals.create(params));
+            this.transport.registerRequestHandler('terminal/output', async (params) => this.terminals.output(params));
+            this.transport.registerRequestHandler('terminal/wait_for_exit', async (params) => await this.terminals.waitForExit(params));
+            this.transport.registerRequestHandler('terminal/kill', async (params) => this.terminals.kill(params));
+            this.transport.registerRequestHandler('terminal/release', async (params) => this.terminals.release(params));
+        }
+
         const response = await withRetry(
             () => this.transport!.sendRequest('initialize', {
                 protocolVersion: 1,
                 clientCapabilities: {
-                    fs: { readTextFile: false, writeTextFile: false },
-                    terminal: false
+                    fs: { readTextFile: true, writeTextFile: true },
+                    terminal: terminalSupported
                 },
                 clientInfo: {
                     name: 'hapi',
@@ -103,6 +136,8 @@ export class AcpSdkBackend implements AgentBackend {
         }
 
         this.activeSessionId = sessionId;
+        this.workingDirectory = config.cwd;
+        this.sessionModels = extractSessionModels(response);
         return sessionId;
     }
 
@@ -128,9 +163,27 @@ export class AcpSdkBackend implements AgentBackend {
         const loadedSessionId = isObject(response) ? asString(response.sessionId) : null;
         const sessionId = loadedSessionId ?? config.sessionId;
         this.activeSessionId = sessionId;
+        this.workingDirectory = config.cwd;
+        this.sessionModels = extractSessionModels(response);
         return sessionId;
     }
 
+    getSessionModels(): AgentSessionModels | null {
+        return this.sessionModels;
+    }
+
+    async setSessionModel(sessionId: string, modelId: string): Promise<void> {
+        if (!this.transport) {
+            throw new Error('ACP transport not initialized');
+        }
+        if (!this.sessionModels) {
+            throw new Error('This agent does not support switching models');
+        }
+
+        await this.transport.sendRequest('session/set_model', { sessionId, modelId });
+        this.sessionModels = { ...this.sessionModels, currentModelId: modelId };
+    }
+
     async prompt(
         sessionId: string,
         content: PromptContent[],
@@ -142,6 +195,7 @@ export class AcpSdkBackend implements AgentBackend {
 
         this.activeSessionId = sessionId;
         this.messageHandler = new AcpMessageHandler(onUpdate);
+        this.updateHandler = onUpdate;
         this.isProcessingMessage = true;
 
         try {
@@ -155,11 +209,13 @@ export class AcpSdkBackend implements AgentBackend {
             const stopReason = isObject(response) ? asString(response.stopReason) : null;
             if (stopReason) {
                 this.messageHandler?.flushText();
+                this.messageHandler?.handlePromptResponse(response);
                 onUpdate({ type: 'turn_complete', stopReason });
             }
         } finally {
             this.messageHandler?.flushText();
             this.messageHandler = null;
+            this.updateHandler = null;
             this.isProcessingMessage = false;
             this.notifyResponseComplete();
         }
@@ -231,6 +287,7 @@ export class AcpSdkBackend implements AgentBackend {
     }
 
     async disconnect(): Promise<void> {
+        this.terminals.releaseAll();
         if (!this.transport) return;
         await this.transport.close();
         this.transport = null;
@@ -292,6 +349,28 @@ export class AcpSdkBackend implements AgentBackend {
         });
     }
 
+    /**
+     * Shows a file the agent wrote through HAPI as an Edit (or, for a new
+     * file, Write) tool call so the web app renders it as a diff.
+     */
+    private reportFileWrite(write: AcpFileWrite): void {
+        if (!this.updateHandler) return;
+        this.messageHandler?.flushText();
+
+        const id = `fs-write-${randomUUID()}`;
+        const isNew = write.previousContent === null;
+        this.updateHandler({
+            type: 'tool_call',
+            id,
+            name: isNew ? 'Write' : 'Edit',
+            input: isNew
+                ? { file_path: write.path, content: write.content }
+                : { file_path: write.path, old_string: write.previousContent, new_string: write.content },
+            status: 'completed'
+        });
+        this.updateHandler({ type: 'tool_result', id, output: { path: write.path }, status: 'completed' });
+    }
+
     private notifyResponseComplete(): void {
         const resolvers = this.responseCompleteResolvers;
         this.responseCompleteResolvers = [];
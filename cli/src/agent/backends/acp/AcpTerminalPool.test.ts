@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { truncateOutput } from './AcpTerminalPool';
+
+describe('truncateOutput', () => {
+    it('keeps output within the limit untouched', () => {
+        expect(truncateOutput('hello', 5)).toEqual({ output: 'hello', truncated: false });
+    });
+
+    it('drops bytes from the start', () => {
+        expect(truncateOutput('hello world', 5)).toEqual({ output: 'world', truncated: true });
+    });
+
+    it('cuts on a character boundary', () => {
+        // 'é' is two bytes; keeping 4 bytes would split it
+        expect(truncateOutput('aébc', 4)).toEqual({ output: 'ébc', truncated: true });
+        expect(truncateOutput('aébc', 3)).toEqual({ output: 'bc', truncated: true });
+    });
+});
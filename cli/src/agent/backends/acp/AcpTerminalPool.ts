@@ -0,0 +1,271 @@
+import { randomUUID } from 'node:crypto';
+import { resolve } from 'node:path';
+import { asNumber, asString, isObject } from '@hapi/protocol';
+import { validatePath } from '@/modules/common/pathSecurity';
+import { buildFilteredEnv, resolveShell } from '@/terminal/TerminalManager';
+import { logger } from '@/ui/logger';
+
+export type AcpTerminalExitStatus = {
+    exitCode: number | null;
+    signal: string | null;
+};
+
+export type AcpTerminalOutputChunk = {
+    terminalId: string;
+    command: string;
+    output: string;
+    /** True for the first chunk of a command */
+    first: boolean;
+};
+
+type AcpTerminal = {
+    terminalId: string;
+    command: string;
+    proc: Bun.Subprocess;
+    output: string;
+    truncated: boolean;
+    outputByteLimit: number;
+    exitStatus: AcpTerminalExitStatus | null;
+    exited: Promise<AcpTerminalExitStatus>;
+    pendingChunk: string;
+    streamed: boolean;
+    streamTimer: ReturnType<typeof setTimeout> | null;
+};
+
+type AcpTerminalPoolOptions = {
+    getWorkingDirectory: () => string | null;
+    onOutput: (chunk: AcpTerminalOutputChunk) => void;
+    maxTerminals?: number;
+};
+
+const DEFAULT_MAX_TERMINALS = 8;
+// Agents that set no outputByteLimit still should not grow our memory without bound
+const DEFAULT_OUTPUT_BYTE_LIMIT = 1024 * 1024;
+const STREAM_FLUSH_MS = 500;
+const PTY_COLS = 120;
+const PTY_ROWS = 40;
+
+/**
+ * Keeps at most `limit` bytes from the end of `output`, cutting on a
+ * character boundary as the ACP spec requires.
+ */
+export function truncateOutput(output: string, limit: number): { output: string; truncated: boolean } {
+    const bytes = Buffer.from(output, 'utf8');
+    if (bytes.length <= limit) {
+        return { output, truncated: false };
+    }
+    let start = bytes.length - limit;
+    while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) {
+        start++;
+    }
+    return { output: bytes.subarray(start).toString('utf8'), truncated: true };
+}
+
+function readEnv(value: unknown): Record<string, string> {
+    const env: Record<string, string> = {};
+    if (!Array.isArray(value)) {
+        return env;
+    }
+    for (const entry of value) {
+        if (isObject(entry) && typeof entry.name === 'string' && typeof entry.value === 'string') {
+            env[entry.name] = entry.value;
+        }
+    }
+    return env;
+}
+
+/**
+ * Serves the ACP `terminal/*` client methods: each agent command runs in its
+ * own PTY, and its output is kept for `terminal/output` and streamed to the
+ * session in batches.
+ */
+export class AcpTerminalPool {
+    private readonly terminals = new Map<string, AcpTerminal>();
+    private readonly maxTerminals: number;
+
+    constructor(private readonly options: AcpTerminalPoolOptions) {
+        this.maxTerminals = options.maxTerminals ?? DEFAULT_MAX_TERMINALS;
+    }
+
+    static isSupported(): boolean {
+        return process.platform !== 'win32' && typeof Bun !== 'undefined' && typeof Bun.spawn === 'function';
+    }
+
+    create(params: unknown): { terminalId: string } {
+        if (!AcpTerminalPool.isSupported()) {
+            throw new Error('Terminals are not supported on this platform');
+        }
+        if (!isObject(params)) {
+            throw new Error('Invalid terminal/create request');
+        }
+        const command = asString(params.command);
+        if (!command) {
+            throw new Error('terminal/create requires a command');
+        }
+        if (this.terminals.size >= this.maxTerminals) {
+            throw new Error(`Too many terminals open (max ${this.maxTerminals})`);
+        }
+
+        const workingDirectory = this.options.getWorkingDirectory();
+        if (!workingDirectory) {
+            throw new Error('No ACP session is active');
+        }
+        const requestedCwd = asString(params.cwd);
+        if (requestedCwd) {
+            const validation = validatePath(requestedCwd, workingDirectory);
+            if (!validation.valid) {
+                throw new Error(validation.error ?? 'Invalid working directory');
+            }
+        }
+        const cwd = requestedCwd ? resolve(workingDirectory, requestedCwd) : workingDirectory;
+
+        const args = Array.isArray(params.args) ? params.args.filter((arg): arg is string => typeof arg === 'string') : [];
+        // Without args the command is a shell line, e.g. `npm test | tail`
+        const argv = args.length > 0 ? [command, ...args] : [resolveShell(), '-c', command];
+        const limit = asNumber(params.outputByteLimit);
+
+        const terminalId = `term-${randomUUID()}`;
+        const decoder = new TextDecoder();
+        let resolveExited: (status: AcpTerminalExitStatus) => void = () => {};
+        const exited = new Promise<AcpTerminalExitStatus>((resolveExit) => {
+            resolveExited = resolveExit;
+        });
+
+        const proc = Bun.spawn(argv, {
+            cwd,
+            env: { ...buildFilteredEnv(), ...readEnv(params.env) },
+            terminal: {
+                cols: PTY_COLS,
+                rows: PTY_ROWS,
+                data: (_terminal, data) => {
+                    const text = decoder.decode(data, { stream: true });
+                    if (text) {
+                        this.appendOutput(terminalId, text);
+                    }
+                }
+            },
+            onExit: (subprocess, exitCode) => {
+                const status: AcpTerminalExitStatus = {
+                    exitCode: exitCode ?? null,
+                    signal: subprocess.signalCode ?? null
+                };
+                const terminal = this.terminals.get(terminalId);
+                if (terminal) {
+                    terminal.exitStatus = status;
+                    this.flushStream(terminal);
+                }
+                resolveExited(status);
+            }
+        });
+
+        this.terminals.set(terminalId, {
+            terminalId,
+            command: args.length > 0 ? argv.join(' ') : command,
+            proc,
+            output: '',
+            truncated: false,
+            outputByteLimit: limit !== null && limit >= 0 ? limit : DEFAULT_OUTPUT_BYTE_LIMIT,
+            exitStatus: null,
+            exited,
+            pendingChunk: '',
+            streamed: false,
+            streamTimer: null
+        });
+        logger.debug(`[ACP] Started terminal ${terminalId}: ${command}`);
+        return { terminalId };
+    }
+
+    output(params: unknown): { output: string; truncated: boolean; exitStatus?: AcpTerminalExitStatus } {
+        const terminal = this.getTerminal(params);
+        return {
+            output: terminal.output,
+            truncated: terminal.truncated,
+            ...(terminal.exitStatus ? { exitStatus: terminal.exitStatus } : {})
+        };
+    }
+
+    async waitForExit(params: unknown): Promise<AcpTerminalExitStatus> {
+        return await this.getTerminal(params).exited;
+    }
+
+    kill(params: unknown): Record<string, never> {
+        this.killProcess(this.getTerminal(params));
+        return {};
+    }
+
+    release(params: unknown): Record<string, never> {
+        this.releaseTerminal(this.getTerminal(params));
+        return {};
+    }
+
+    releaseAll(): void {
+        for (const terminal of [...this.terminals.values()]) {
+            this.releaseTerminal(terminal);
+        }
+    }
+
+    private getTerminal(params: unknown): AcpTerminal {
+        const terminalId = isObject(params) ? asString(params.terminalId) : null;
+        const terminal = terminalId ? this.terminals.get(terminalId) : undefined;
+        if (!terminal) {
+            throw new Error(`Unknown terminal: ${terminalId ?? '(missing)'}`);
+        }
+        return terminal;
+    }
+
+    private appendOutput(terminalId: string, text: string): void {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return;
+        }
+        const next = truncateOutput(terminal.output + text, terminal.outputByteLimit);
+        terminal.output = next.output;
+        terminal.truncated = terminal.truncated || next.truncated;
+
+        terminal.pendingChunk += text;
+        if (!terminal.streamTimer) {
+            terminal.streamTimer = setTimeout(() => this.flushStream(terminal), STREAM_FLUSH_MS);
+        }
+    }
+
+    private flushStream(terminal: AcpTerminal): void {
+        if (terminal.streamTimer) {
+            clearTimeout(terminal.streamTimer);
+            terminal.streamTimer = null;
+        }
+        if (!terminal.pendingChunk && terminal.streamed) {
+            return;
+        }
+        const output = terminal.pendingChunk;
+        terminal.pendingChunk = '';
+        this.options.onOutput({
+            terminalId: terminal.terminalId,
+            command: terminal.command,
+            output,
+            first: !terminal.streamed
+        });
+        terminal.streamed = true;
+    }
+
+    private killProcess(terminal: AcpTerminal): void {
+        if (terminal.exitStatus || terminal.proc.killed) {
+            return;
+        }
+        try {
+            terminal.proc.kill();
+        } catch (error) {
+            logger.debug('[ACP] Failed to kill terminal process', { error });
+        }
+    }
+
+    private releaseTerminal(terminal: AcpTerminal): void {
+        this.killProcess(terminal);
+        this.flushStream(terminal);
+        this.terminals.delete(terminal.terminalId);
+        try {
+            terminal.proc.terminal?.close();
+        } catch (error) {
+            logger.debug('[ACP] Failed to close terminal', { error });
+        }
+    }
+}
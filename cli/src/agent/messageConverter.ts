@@ -7,6 +7,23 @@ export type CodexMessage =
     | { type: 'plan'; entries: PlanItem[] }
     | { type: 'error'; message: string };
 
+function escapeCliTagContent(text: string): string {
+    return text.replace(/<\/(command-name|local-command-stdout)>/gi, '<\\/$1>');
+}
+
+/**
+ * Renders a chunk of an agent-run command in the CLI tag format the web app
+ * shows as a command output block. Later chunks carry only stdout and are
+ * appended to the block of their command.
+ */
+export function formatTerminalOutput(message: Extract<AgentMessage, { type: 'terminal_output' }>): string {
+    const stdout = `<local-command-stdout>${escapeCliTagContent(message.output)}</local-command-stdout>`;
+    if (!message.first) {
+        return stdout;
+    }
+    return `<command-name>${escapeCliTagContent(message.command)}</command-name>\n${stdout}`;
+}
+
 export function convertAgentMessage(message: AgentMessage): CodexMessage | null {
     switch (message.type) {
         case 'text':
@@ -29,9 +46,12 @@ export function convertAgentMessage(message: AgentMessage): CodexMessage | null
                 type: 'plan',
                 entries: message.items
             };
+        case 'terminal_output':
+            return { type: 'message', message: formatTerminalOutput(message) };
         case 'error':
             return { type: 'error', message: message.message };
         case 'turn_complete':
+        case 'usage':
             return null;
         default: {
             const _exhaustive: never = message;
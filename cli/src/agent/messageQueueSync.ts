@@ -0,0 +1,86 @@
+import type { ApiSessionClient } from '@/api/apiSession'
+import type { MessageQueue2 } from '@/utils/MessageQueue2'
+import { rpcError } from '@/modules/common/rpcResponses'
+import { logger } from '@/ui/logger'
+
+type QueueEditRequest = { id: string; text: string }
+type QueueDeleteRequest = { id: string }
+type QueueReorderRequest = { ids: string[] }
+type QueuePrioritizeRequest = { id: string }
+type QueueMergeRequest = { merge: boolean }
+
+type QueueResponse = { success: boolean; error?: string }
+
+const QUEUED_PROMPT_GONE = 'Prompt is no longer queued'
+
+/**
+ * Reports the pending prompts of a session's message queue in its agent
+ * state and lets the hub edit them over RPC.
+ */
+export function attachMessageQueue<T>(session: ApiSessionClient, queue: MessageQueue2<T>): void {
+    // Updates run one at a time and read the queue when sent, so a burst of
+    // changes only needs one pending update
+    let updatePending = false
+    const syncQueueState = () => {
+        if (updatePending) {
+            return
+        }
+        updatePending = true
+        session.updateAgentState((currentState) => {
+            updatePending = false
+            return {
+                ...currentState,
+                queue: {
+                    prompts: queue.list().map((item) => ({
+                        id: item.id,
+                        text: item.message,
+                        createdAt: item.createdAt
+                    })),
+                    merge: queue.isMerging()
+                }
+            }
+        })
+    }
+
+    queue.setOnChange(syncQueueState)
+    // Clears prompts left over from a previous process
+    syncQueueState()
+
+    session.rpcHandlerManager.registerHandler<QueueEditRequest, QueueResponse>('queue-edit', async (data) => {
+        if (typeof data?.id !== 'string' || typeof data.text !== 'string' || data.text.trim().length === 0) {
+            return rpcError('Invalid queue edit request')
+        }
+        return queue.update(data.id, data.text) ? { success: true } : rpcError(QUEUED_PROMPT_GONE)
+    })
+
+    session.rpcHandlerManager.registerHandler<QueueDeleteRequest, QueueResponse>('queue-delete', async (data) => {
+        if (typeof data?.id !== 'string') {
+            return rpcError('Invalid queue delete request')
+        }
+        return queue.remove(data.id) ? { success: true } : rpcError(QUEUED_PROMPT_GONE)
+    })
+
+    session.rpcHandlerManager.registerHandler<QueueReorderRequest, QueueResponse>('queue-reorder', async (data) => {
+        if (!Array.isArray(data?.ids) || !data.ids.every((id) => typeof id === 'string')) {
+            return rpcError('Invalid queue reorder request')
+        }
+        queue.reorder(data.ids)
+        return { success: true }
+    })
+
+    session.rpcHandlerManager.registerHandler<QueuePrioritizeRequest, QueueResponse>('queue-prioritize', async (data) => {
+        if (typeof data?.id !== 'string') {
+            return rpcError('Invalid queue prioritize request')
+        }
+        logger.debug(`[messageQueue] Prioritizing queued prompt ${data.id}`)
+        return queue.prioritize(data.id) ? { success: true } : rpcError(QUEUED_PROMPT_GONE)
+    })
+
+    session.rpcHandlerManager.registerHandler<QueueMergeRequest, QueueResponse>('queue-merge', async (data) => {
+        if (typeof data?.merge !== 'boolean') {
+            return rpcError('Invalid queue merge request')
+        }
+        queue.setMerge(data.merge)
+        return { success: true }
+    })
+}
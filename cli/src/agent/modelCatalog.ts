@@ -0,0 +1,34 @@
+import { toModelCatalogEntry } from '@hapi/protocol';
+import type { ModelCatalog } from '@hapi/protocol/types';
+import type { ApiSessionClient } from '@/api/apiSession';
+import type { AgentBackend, AgentSessionModels } from '@/agent/types';
+import { logger } from '@/ui/logger';
+
+/** Writes the models the agent can run into session metadata for the hub and web app */
+export function publishModelCatalog(client: ApiSessionClient, catalog: ModelCatalog): void {
+    client.updateMetadata((metadata) => ({ ...metadata, modelCatalog: catalog }));
+}
+
+/** ACP agents that report their models also accept session/set_model */
+export function toModelCatalog(models: AgentSessionModels): ModelCatalog {
+    return {
+        models: models.available.map((model) => toModelCatalogEntry(model.id, model.name, model.description)),
+        switchable: true
+    };
+}
+
+/**
+ * Switches an ACP session to `modelId` unless it already runs it. Agents
+ * without model selection, and ids they did not offer, are left alone.
+ */
+export async function switchSessionModel(backend: AgentBackend, sessionId: string, modelId: string | null): Promise<void> {
+    const models = backend.getSessionModels?.();
+    if (!modelId || !models || !backend.setSessionModel || models.currentModelId === modelId) {
+        return;
+    }
+    if (!models.available.some((model) => model.id === modelId)) {
+        logger.debug(`[ACP] Model ${modelId} is not offered by the agent`);
+        return;
+    }
+    await backend.setSessionModel(sessionId, modelId);
+}
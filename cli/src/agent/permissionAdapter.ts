@@ -3,11 +3,14 @@ import type { AgentState } from '@/api/types';
 import type { ApiSessionClient } from '@/api/apiSession';
 import { logger } from '@/ui/logger';
 import { deriveToolName } from '@/agent/utils';
+import { resolveAutoApprovalDecision } from '@/modules/common/permission/BasePermissionHandler';
+import type { PermissionMode } from '@hapi/protocol/types';
 
 interface PermissionResponseMessage {
     id: string;
     approved: boolean;
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    reason?: string;
 }
 
 function deriveToolInput(request: PermissionRequest): unknown {
@@ -30,7 +33,8 @@ export class PermissionAdapter {
 
     constructor(
         private readonly session: ApiSessionClient,
-        private readonly backend: AgentBackend
+        private readonly backend: AgentBackend,
+        private readonly getPermissionMode: () => PermissionMode | undefined = () => undefined
     ) {
         this.backend.onPermissionRequest((request) => this.handlePermissionRequest(request));
         this.session.rpcHandlerManager.registerHandler<PermissionResponseMessage, void>(
@@ -42,8 +46,6 @@ export class PermissionAdapter {
     }
 
     private handlePermissionRequest(request: PermissionRequest): void {
-        this.pendingRequests.set(request.id, request);
-
         const toolName = deriveToolName({
             title: request.title,
             kind: request.kind,
@@ -51,6 +53,14 @@ export class PermissionAdapter {
         });
         const input = deriveToolInput(request);
 
+        const autoDecision = resolveAutoApprovalDecision(this.getPermissionMode(), toolName, request.toolCallId);
+        if (autoDecision) {
+            void this.autoApprove(request, toolName, input, autoDecision);
+            return;
+        }
+
+        this.pendingRequests.set(request.id, request);
+
         this.session.updateAgentState((currentState) => ({
             ...currentState,
             requests: {
@@ -66,6 +76,35 @@ export class PermissionAdapter {
         logger.debug(`[ACP] Permission request queued: ${toolName} (${request.id})`);
     }
 
+    private async autoApprove(
+        request: PermissionRequest,
+        toolName: string,
+        input: unknown,
+        decision: 'approved' | 'approved_for_session'
+    ): Promise<void> {
+        const outcome = this.mapDecisionToOutcome(request, decision);
+        if (outcome) {
+            await this.backend.respondToPermission(request.sessionId, request, outcome);
+        }
+
+        this.session.updateAgentState((currentState) => ({
+            ...currentState,
+            completedRequests: {
+                ...currentState.completedRequests,
+                [request.id]: {
+                    tool: toolName,
+                    arguments: input,
+                    createdAt: Date.now(),
+                    completedAt: Date.now(),
+                    status: 'approved',
+                    decision
+                }
+            }
+        }));
+
+        logger.debug(`[ACP] Auto-approved ${toolName} (${request.id}) decision=${decision}`);
+    }
+
     private async handlePermissionResponse(response: PermissionResponseMessage): Promise<void> {
         const pending = this.pendingRequests.get(response.id);
         if (!pending) {
@@ -109,7 +148,8 @@ export class PermissionAdapter {
                         createdAt: requestEntry?.createdAt ?? Date.now(),
                         completedAt: Date.now(),
                         status,
-                        decision
+                        decision,
+                        ...(response.reason ? { reason: response.reason } : {})
                     }
                 }
             } satisfies AgentState;
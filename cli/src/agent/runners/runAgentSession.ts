@@ -1,6 +1,7 @@
 import type { AgentState } from '@/api/types';
 import { logger } from '@/ui/logger';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
+import { attachMessageQueue } from '@/agent/messageQueueSync';
 import { hashObject } from '@/utils/deterministicJson';
 import { AgentRegistry } from '@/agent/AgentRegistry';
 import { convertAgentMessage } from '@/agent/messageConverter';
@@ -11,6 +12,10 @@ import { getHappyCliCommand } from '@/utils/spawnHappyCLI';
 import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
 import { bootstrapSession } from '@/agent/sessionFactory';
 import { formatMessageWithAttachments } from '@/utils/attachmentFormatter';
+import { isPermissionModeAllowedForFlavor } from '@hapi/protocol';
+import { ModelModeSchema, PermissionModeSchema } from '@hapi/protocol/schemas';
+import { publishModelCatalog, switchSessionModel, toModelCatalog } from '@/agent/modelCatalog';
+import type { PermissionMode } from '@hapi/protocol/types';
 
 function emitReadyIfIdle(props: {
     queueSize: () => number;
@@ -27,6 +32,9 @@ function emitReadyIfIdle(props: {
 export async function runAgentSession(opts: {
     agentType: string;
     startedBy?: 'runner' | 'terminal';
+    // Modes the web app may switch to; defaults to every mode of the agent's flavor
+    permissionModes?: readonly PermissionMode[];
+    permissionMode?: PermissionMode;
 }): Promise<void> {
     const initialState: AgentState = {
         controlledByUser: false
@@ -44,16 +52,33 @@ export async function runAgentSession(opts: {
     }));
 
     const messageQueue = new MessageQueue2<Record<string, never>>(() => hashObject({}));
+    attachMessageQueue(session, messageQueue);
 
     session.onUserMessage((message) => {
         const formattedText = formatMessageWithAttachments(message.content.text, message.content.attachments);
         messageQueue.push(formattedText, {});
     });
 
+    let currentPermissionMode: PermissionMode | undefined = opts.permissionMode ?? opts.permissionModes?.[0];
+
+    const resolvePermissionMode = (value: unknown): PermissionMode => {
+        const parsed = PermissionModeSchema.safeParse(value);
+        if (!parsed.success) {
+            throw new Error('Invalid permission mode');
+        }
+        const allowed = opts.permissionModes
+            ? opts.permissionModes.includes(parsed.data)
+            : isPermissionModeAllowedForFlavor(parsed.data, opts.agentType);
+        if (!allowed) {
+            throw new Error('Invalid permission mode');
+        }
+        return parsed.data;
+    };
+
     const backend: AgentBackend = AgentRegistry.create(opts.agentType);
     await backend.initialize();
 
-    const permissionAdapter = new PermissionAdapter(session, backend);
+    const permissionAdapter = new PermissionAdapter(session, backend, () => currentPermissionMode);
 
     const happyServer = await startHappyServer(session);
     const bridgeCommand = getHappyCliCommand(['mcp', '--url', happyServer.url]);
@@ -71,14 +96,27 @@ export async function runAgentSession(opts: {
         mcpServers
     });
 
+    const sessionModels = backend.getSessionModels?.() ?? null;
+    // 'default' returns to the model the agent picked for the session
+    const defaultModelId = sessionModels?.currentModelId ?? null;
+    let currentModelMode = 'default';
+    if (sessionModels) {
+        publishModelCatalog(session, toModelCatalog(sessionModels));
+    }
+
     let thinking = false;
     let shouldExit = false;
     let waitAbortController: AbortController | null = null;
 
-    session.keepAlive(thinking, 'remote');
-    const keepAliveInterval = setInterval(() => {
-        session.keepAlive(thinking, 'remote');
-    }, 2000);
+    const sendKeepAlive = () => {
+        session.keepAlive(thinking, 'remote', {
+            permissionMode: currentPermissionMode,
+            ...(sessionModels ? { modelMode: currentModelMode } : {})
+        });
+    };
+
+    sendKeepAlive();
+    const keepAliveInterval = setInterval(sendKeepAlive, 2000);
 
     const sendReady = () => {
         session.sendSessionEvent({ type: 'ready' });
@@ -89,7 +127,7 @@ export async function runAgentSession(opts: {
         await backend.cancelPrompt(agentSessionId);
         await permissionAdapter.cancelAll('User aborted');
         thinking = false;
-        session.keepAlive(thinking, 'remote');
+        sendKeepAlive();
         sendReady();
         if (waitAbortController) {
             waitAbortController.abort();
@@ -111,6 +149,34 @@ export async function runAgentSession(opts: {
 
     registerKillSessionHandler(session.rpcHandlerManager, handleKillSession);
 
+    session.rpcHandlerManager.registerHandler('set-session-config', async (payload: unknown) => {
+        if (!payload || typeof payload !== 'object') {
+            throw new Error('Invalid session config payload');
+        }
+        const config = payload as { permissionMode?: unknown; modelMode?: unknown };
+
+        if (config.permissionMode !== undefined) {
+            currentPermissionMode = resolvePermissionMode(config.permissionMode);
+        }
+
+        if (config.modelMode !== undefined) {
+            const parsed = ModelModeSchema.safeParse(config.modelMode);
+            if (!parsed.success || !sessionModels) {
+                throw new Error('Invalid model mode');
+            }
+            await switchSessionModel(backend, agentSessionId, parsed.data === 'default' ? defaultModelId : parsed.data);
+            currentModelMode = parsed.data;
+        }
+
+        sendKeepAlive();
+        return {
+            applied: {
+                permissionMode: currentPermissionMode,
+                ...(sessionModels ? { modelMode: currentModelMode } : {})
+            }
+        };
+    });
+
     try {
         while (!shouldExit) {
             waitAbortController = new AbortController();
@@ -129,7 +195,7 @@ export async function runAgentSession(opts: {
             }];
 
             thinking = true;
-            session.keepAlive(thinking, 'remote');
+            sendKeepAlive();
 
             try {
                 await backend.prompt(agentSessionId, promptContent, (message) => {
@@ -146,7 +212,7 @@ export async function runAgentSession(opts: {
                 });
             } finally {
                 thinking = false;
-                session.keepAlive(thinking, 'remote');
+                sendKeepAlive();
                 await permissionAdapter.cancelAll('Prompt finished');
                 emitReadyIfIdle({
                     queueSize: () => messageQueue.size(),
@@ -1,6 +1,6 @@
 import { ApiClient, ApiSessionClient } from '@/lib';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
-import type { Metadata, SessionModelMode, SessionPermissionMode } from '@/api/types';
+import type { Metadata, SessionModelMode, SessionPermissionMode, SessionRuntimeModes } from '@/api/types';
 import { logger } from '@/ui/logger';
 
 export type AgentSessionBaseOptions<Mode> = {
@@ -38,6 +38,7 @@ export class AgentSessionBase<Mode> {
     private keepAliveInterval: NodeJS.Timeout | null = null;
     protected permissionMode?: SessionPermissionMode;
     protected modelMode?: SessionModelMode;
+    protected reasoningEffort?: string;
 
     constructor(opts: AgentSessionBaseOptions<Mode>) {
         this.path = opts.path;
@@ -103,16 +104,22 @@ export class AgentSessionBase<Mode> {
         }
     };
 
-    protected getKeepAliveRuntime(): { permissionMode?: SessionPermissionMode; modelMode?: SessionModelMode } | undefined {
+    protected getKeepAliveRuntime(): SessionRuntimeModes | undefined {
         if (this.permissionMode === undefined && this.modelMode === undefined) {
             return undefined;
         }
         return {
             permissionMode: this.permissionMode,
-            modelMode: this.modelMode
+            modelMode: this.modelMode,
+            reasoningEffort: this.reasoningEffort
         };
     }
 
+    setModelMode = (mode: SessionModelMode, reasoningEffort?: string): void => {
+        this.modelMode = mode;
+        this.reasoningEffort = reasoningEffort;
+    };
+
     getPermissionMode(): SessionPermissionMode | undefined {
         return this.permissionMode;
     }
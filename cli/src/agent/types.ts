@@ -1,3 +1,5 @@
+import type { UsageReport } from '@hapi/protocol/types';
+
 export type McpEnvVar = {
     name: string;
     value: string;
@@ -31,7 +33,9 @@ export type AgentMessage =
     | { type: 'tool_call'; id: string; name: string; input: unknown; status: 'pending' | 'in_progress' | 'completed' | 'failed' }
     | { type: 'tool_result'; id: string; output: unknown; status: 'completed' | 'failed' }
     | { type: 'plan'; items: PlanItem[] }
+    | { type: 'terminal_output'; terminalId: string; command: string; output: string; first: boolean }
     | { type: 'turn_complete'; stopReason: string }
+    | { type: 'usage'; usage: UsageReport }
     | { type: 'error'; message: string };
 
 export type PermissionOption = {
@@ -55,6 +59,17 @@ export type PermissionResponse =
     | { outcome: 'selected'; optionId: string }
     | { outcome: 'cancelled' };
 
+export type AgentModel = {
+    id: string;
+    name?: string;
+    description?: string;
+};
+
+export type AgentSessionModels = {
+    available: AgentModel[];
+    currentModelId: string | null;
+};
+
 export interface AgentBackend {
     initialize(): Promise<void>;
     newSession(config: AgentSessionConfig): Promise<string>;
@@ -63,6 +78,9 @@ export interface AgentBackend {
     respondToPermission(sessionId: string, request: PermissionRequest, response: PermissionResponse): Promise<void>;
     onPermissionRequest(handler: (request: PermissionRequest) => void): void;
     disconnect(): Promise<void>;
+    /** Models the agent reported for the current session, or null if it offers no choice */
+    getSessionModels?(): AgentSessionModels | null;
+    setSessionModel?(sessionId: string, modelId: string): Promise<void>;
 }
 
 export type AgentBackendFactory = () => AgentBackend;
@@ -1,5 +1,5 @@
 import axios from 'axios'
-import type { AgentState, CreateMachineResponse, CreateSessionResponse, RunnerState, Machine, MachineMetadata, Metadata, Session } from '@/api/types'
+import type { AgentState, CreateMachineResponse, CreateSessionResponse, RunnerState, Machine, MachineMetadata, Metadata, Session, SessionTemplate } from '@/api/types'
 import { AgentStateSchema, CreateMachineResponseSchema, CreateSessionResponseSchema, RunnerStateSchema, MachineMetadataSchema, MetadataSchema } from '@/api/types'
 import { configuration } from '@/configuration'
 import { getAuthToken } from '@/api/auth'
@@ -7,6 +7,10 @@ import { apiValidationError } from '@/utils/errorUtils'
 import { ApiMachineClient } from './apiMachine'
 import { ApiSessionClient } from './apiSession'
 
+export type SpawnSessionResult =
+    | { type: 'success'; sessionId: string; warning?: string }
+    | { type: 'error'; message: string }
+
 export class ApiClient {
     static async create(): Promise<ApiClient> {
         return new ApiClient(getAuthToken())
@@ -128,6 +132,63 @@ export class ApiClient {
         }
     }
 
+    async exportSession(sessionId: string, format: 'md' | 'json' | 'html'): Promise<string> {
+        const response = await axios.get<string>(
+            `${configuration.apiUrl}/cli/sessions/${encodeURIComponent(sessionId)}/export`,
+            {
+                params: { format },
+                headers: {
+                    Authorization: `Bearer ${this.token}`
+                },
+                responseType: 'text',
+                timeout: 60_000
+            }
+        )
+        return response.data
+    }
+
+    /**
+     * The web API (/api/*) takes a short-lived JWT, which the hub issues for
+     * the CLI access token
+     */
+    private async getWebToken(): Promise<string> {
+        const response = await axios.post<{ token: string }>(
+            `${configuration.apiUrl}/api/auth`,
+            { accessToken: this.token },
+            { timeout: 15_000 }
+        )
+        return response.data.token
+    }
+
+    async listSessionTemplates(): Promise<SessionTemplate[]> {
+        const webToken = await this.getWebToken()
+        const response = await axios.get<{ templates: SessionTemplate[] }>(
+            `${configuration.apiUrl}/api/templates`,
+            {
+                headers: { Authorization: `Bearer ${webToken}` },
+                timeout: 15_000
+            }
+        )
+        return response.data.templates
+    }
+
+    async spawnSessionFromTemplate(machineId: string, templateId: string): Promise<SpawnSessionResult> {
+        const webToken = await this.getWebToken()
+        const response = await axios.post<SpawnSessionResult>(
+            `${configuration.apiUrl}/api/machines/${encodeURIComponent(machineId)}/spawn`,
+            { templateId },
+            {
+                headers: {
+                    Authorization: `Bearer ${webToken}`,
+                    'Content-Type': 'application/json'
+                },
+                // Template setup waits for the session to come online
+                timeout: 120_000
+            }
+        )
+        return response.data
+    }
+
     sessionSyncClient(session: Session): ApiSessionClient {
         return new ApiSessionClient(this.token, session)
     }
@@ -8,11 +8,15 @@ import { backoff } from '@/utils/time'
 import { apiValidationError } from '@/utils/errorUtils'
 import { AsyncLock } from '@/utils/lock'
 import type { RawJSONLines } from '@/claude/types'
+import type { ClaudeHookEvent } from '@/claude/utils/claudeHookEvents'
 import { configuration } from '@/configuration'
-import type { ClientToServerEvents, ServerToClientEvents, Update } from '@hapi/protocol'
+import type { ClientToServerEvents, ServerToClientEvents, TerminalAttachResponse, Update } from '@hapi/protocol'
+import type { UsageReport } from '@hapi/protocol/types'
 import {
+    TerminalAttachPayloadSchema,
     TerminalClosePayloadSchema,
     TerminalOpenPayloadSchema,
+    TerminalRecordPayloadSchema,
     TerminalResizePayloadSchema,
     TerminalWritePayloadSchema
 } from '@hapi/protocol'
@@ -22,8 +26,8 @@ import type {
     MessageMeta,
     Metadata,
     Session,
-    SessionModelMode,
     SessionPermissionMode,
+    SessionRuntimeModes,
     UserMessage
 } from './types'
 import { AgentStateSchema, CliMessagesResponseSchema, MetadataSchema, UserMessageSchema } from './types'
@@ -31,7 +35,14 @@ import { RpcHandlerManager } from './rpc/RpcHandlerManager'
 import { registerCommonHandlers } from '../modules/common/registerCommonHandlers'
 import { cleanupUploadDir } from '../modules/common/handlers/uploads'
 import { TerminalManager } from '@/terminal/TerminalManager'
+import { registerSessionRecordingHandlers } from '@/terminal/recordingHandlers'
+import { getOutboxJournalPath, getTerminalRecordingsDir } from '@/constants/sessionPaths'
 import { applyVersionedAck } from './versionedUpdate'
+import { OUTBOX_PERSIST_ENABLED, SocketOutbox, type OutboxItem } from './socketOutbox'
+
+type MessagePayload = Parameters<ClientToServerEvents['message']>[0]
+
+const MESSAGE_ACK_TIMEOUT_MS = 30_000
 
 export class ApiSessionClient extends EventEmitter {
     private readonly token: string
@@ -51,6 +62,7 @@ export class ApiSessionClient extends EventEmitter {
     private readonly terminalManager: TerminalManager
     private agentStateLock = new AsyncLock()
     private metadataLock = new AsyncLock()
+    private readonly outbox: SocketOutbox
 
     constructor(token: string, session: Session) {
         super()
@@ -70,6 +82,10 @@ export class ApiSessionClient extends EventEmitter {
             registerCommonHandlers(this.rpcHandlerManager, this.metadata.path)
         }
 
+        this.outbox = new SocketOutbox(
+            OUTBOX_PERSIST_ENABLED ? { journalPath: getOutboxJournalPath(this.sessionId) } : undefined
+        )
+
         this.socket = io(`${configuration.apiUrl}/cli`, {
             auth: {
                 token: this.token,
@@ -91,8 +107,15 @@ export class ApiSessionClient extends EventEmitter {
             onReady: (payload) => this.socket.emit('terminal:ready', payload),
             onOutput: (payload) => this.socket.emit('terminal:output', payload),
             onExit: (payload) => this.socket.emit('terminal:exit', payload),
-            onError: (payload) => this.socket.emit('terminal:error', payload)
+            onError: (payload) => this.socket.emit('terminal:error', payload),
+            onRecording: (payload) => this.socket.emit('terminal:recording', payload),
+            getRecordingsDir: () => getTerminalRecordingsDir(this.sessionId)
         })
+        this.rpcHandlerManager.registerHandler('terminal-list', async () => ({
+            success: true,
+            terminals: this.terminalManager.list()
+        }))
+        registerSessionRecordingHandlers(this.rpcHandlerManager, this.sessionId, () => this.terminalManager.getActiveRecordingIds())
 
         this.socket.on('connect', () => {
             logger.debug('Socket connected successfully')
@@ -107,6 +130,7 @@ export class ApiSessionClient extends EventEmitter {
                 time: Date.now(),
                 thinking: false
             })
+            this.flushOutbox()
         })
 
         this.socket.on('rpc-request', async (data: { method: string; params: string }, callback: (response: string) => void) => {
@@ -116,7 +140,8 @@ export class ApiSessionClient extends EventEmitter {
         this.socket.on('disconnect', (reason) => {
             logger.debug('[API] Socket disconnected:', reason)
             this.rpcHandlerManager.onSocketDisconnect()
-            this.terminalManager.closeAll()
+            this.outbox.requeue()
+            // Terminals survive hub reconnects; viewers reattach and get the scrollback
             if (this.hasConnectedOnce) {
                 this.needsBackfill = true
             }
@@ -149,6 +174,19 @@ export class ApiSessionClient extends EventEmitter {
             this.terminalManager.create(payload.terminalId, payload.cols, payload.rows)
         }))
 
+        this.socket.on('terminal:attach', (data: unknown, callback: (response: TerminalAttachResponse) => void) => {
+            const parsed = TerminalAttachPayloadSchema.safeParse(data)
+            if (!parsed.success || parsed.data.sessionId !== this.sessionId) {
+                callback({ ok: false, error: 'Invalid attach request.' })
+                return
+            }
+            callback(this.terminalManager.attach(parsed.data.terminalId, parsed.data.cols, parsed.data.rows))
+        })
+
+        this.socket.on('terminal:record', handleTerminalEvent(TerminalRecordPayloadSchema, (payload) => {
+            this.terminalManager.setRecording(payload.terminalId, payload.recording)
+        }))
+
         this.socket.on('terminal:write', handleTerminalEvent(TerminalWritePayloadSchema, (payload) => {
             this.terminalManager.write(payload.terminalId, payload.data)
         }))
@@ -352,10 +390,7 @@ export class ApiSessionClient extends EventEmitter {
             }
         }
 
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: content
-        })
+        this.sendMessagePayload(content)
 
         if (body.type === 'summary' && 'summary' in body && 'leafUuid' in body) {
             this.updateMetadata((metadata) => ({
@@ -385,10 +420,7 @@ export class ApiSessionClient extends EventEmitter {
             }
         }
 
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: content
-        })
+        this.sendMessagePayload(content)
     }
 
     sendCodexMessage(body: unknown): void {
@@ -402,10 +434,7 @@ export class ApiSessionClient extends EventEmitter {
                 sentFrom: 'cli'
             }
         }
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: content
-        })
+        this.sendMessagePayload(content)
     }
 
     sendSessionEvent(event: {
@@ -419,7 +448,14 @@ export class ApiSessionClient extends EventEmitter {
         mode: SessionPermissionMode
     } | {
         type: 'ready'
-    }, id?: string): void {
+    } | {
+        // Agent failures the user should hear about; surfaced to webhooks by the hub
+        type: 'error'
+        message: string
+    } | ({
+        // Token accounting for one turn; aggregated by the hub, not shown in chat
+        type: 'usage'
+    } & UsageReport) | ClaudeHookEvent, id?: string): void {
         const content = {
             role: 'agent',
             content: {
@@ -429,16 +465,44 @@ export class ApiSessionClient extends EventEmitter {
             }
         }
 
-        this.socket.emit('message', {
-            sid: this.sessionId,
-            message: content
+        this.sendMessagePayload(content)
+    }
+
+    private sendMessagePayload(message: unknown): void {
+        const localId = randomUUID()
+        const payload: MessagePayload = { sid: this.sessionId, message, localId }
+        if (this.outbox.enqueue(localId, 'message', [payload])) {
+            this.flushOutbox()
+        }
+    }
+
+    private flushOutbox(): void {
+        if (!this.socket.connected) {
+            return
+        }
+        this.outbox.flush((item) => this.emitOutboxItem(item))
+    }
+
+    private emitOutboxItem(item: OutboxItem): void {
+        const payload = item.args[0] as MessagePayload
+        // Without an ack in time the item stays sent and goes out again after the next reconnect
+        this.socket.timeout(MESSAGE_ACK_TIMEOUT_MS).emit('message', payload, (error, answer) => {
+            if (error) {
+                logger.debug('[API] Message ack timed out', { localId: item.id })
+                return
+            }
+            if (answer.result === 'success') {
+                this.outbox.ack(item.id)
+            } else {
+                this.outbox.reject(item.id, answer.reason ?? 'rejected')
+            }
         })
     }
 
     keepAlive(
         thinking: boolean,
         mode: 'local' | 'remote',
-        runtime?: { permissionMode?: SessionPermissionMode; modelMode?: SessionModelMode }
+        runtime?: SessionRuntimeModes
     ): void {
         this.socket.volatile.emit('session-alive', {
             sid: this.sessionId,
@@ -612,11 +676,22 @@ export class ApiSessionClient extends EventEmitter {
         } catch {
             // best effort
         }
+
+        await this.waitForOutboxDrain(remainingMs())
+    }
+
+    private async waitForOutboxDrain(timeoutMs: number): Promise<void> {
+        const deadlineMs = Date.now() + timeoutMs
+        while (this.outbox.getStats().pendingItems > 0 && Date.now() < deadlineMs) {
+            await new Promise((resolve) => setTimeout(resolve, 50))
+        }
     }
 
     close(): void {
         this.rpcHandlerManager.onSocketDisconnect()
         this.terminalManager.closeAll()
         this.socket.disconnect()
+        // A persistent outbox keeps what the hub never acked for `hapi doctor` and the next run
+        this.outbox.close()
     }
 }
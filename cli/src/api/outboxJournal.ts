@@ -0,0 +1,196 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { logger } from '@/ui/logger'
+
+export const OUTBOX_JOURNAL_FILE = 'outbox.jsonl'
+
+export type JournalItem = {
+    id: string
+    event: string
+    args: readonly unknown[]
+    enqueuedAt: number
+}
+
+type JournalRecord =
+    | ({ t: 'enqueue' } & JournalItem)
+    | { t: 'ack'; id: string }
+    // Without an id the items never made it into the journal, or were folded in by compaction
+    | { t: 'drop'; id?: string; reason: string; count: number; bytes: number }
+
+export type JournalDrops = Record<string, { count: number; bytes: number }>
+
+export type JournalState = {
+    items: JournalItem[]
+    drops: JournalDrops
+}
+
+function parseRecord(line: string): JournalRecord | null {
+    try {
+        const record = JSON.parse(line) as JournalRecord
+        return record && typeof record === 'object' && typeof record.t === 'string' ? record : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Replays a journal into the items still waiting for a hub ack, in enqueue
+ * order. A torn last line from a crash is skipped.
+ */
+export function readJournal(path: string): JournalState {
+    const items = new Map<string, JournalItem>()
+    const drops: JournalDrops = {}
+    if (!existsSync(path)) {
+        return { items: [], drops }
+    }
+
+    for (const line of readFileSync(path, 'utf8').split('\n')) {
+        if (!line) {
+            continue
+        }
+        const record = parseRecord(line)
+        if (!record) {
+            continue
+        }
+        switch (record.t) {
+            case 'enqueue':
+                items.set(record.id, { id: record.id, event: record.event, args: record.args, enqueuedAt: record.enqueuedAt })
+                break
+            case 'ack':
+                items.delete(record.id)
+                break
+            case 'drop': {
+                if (record.id) {
+                    items.delete(record.id)
+                }
+                const total = drops[record.reason] ?? { count: 0, bytes: 0 }
+                total.count += record.count
+                total.bytes += record.bytes
+                drops[record.reason] = total
+                break
+            }
+        }
+    }
+    return { items: [...items.values()], drops }
+}
+
+/**
+ * Append-only file behind a persistent SocketOutbox. Every enqueue, ack and
+ * drop is one JSON line; the file is rewritten with only the pending items
+ * once it outgrows its budget.
+ */
+export class OutboxJournal {
+    private sizeBytes = 0
+
+    constructor(
+        readonly path: string,
+        private readonly maxBytes: number
+    ) {
+        mkdirSync(dirname(path), { recursive: true })
+        this.sizeBytes = existsSync(path) ? statSync(path).size : 0
+    }
+
+    load(): JournalState {
+        return readJournal(this.path)
+    }
+
+    recordEnqueue(item: JournalItem): void {
+        this.append({ t: 'enqueue', ...item })
+    }
+
+    recordAck(id: string): void {
+        this.append({ t: 'ack', id })
+    }
+
+    recordDrop(reason: string, bytes: number, id?: string): void {
+        this.append({ t: 'drop', ...(id ? { id } : {}), reason, count: 1, bytes })
+    }
+
+    needsCompaction(): boolean {
+        return this.sizeBytes > this.maxBytes
+    }
+
+    compact(items: readonly JournalItem[]): void {
+        const { drops } = this.load()
+        const lines = [
+            ...Object.entries(drops).map(([reason, total]) => JSON.stringify({ t: 'drop', reason, ...total })),
+            ...items.map((item) => JSON.stringify({ t: 'enqueue', ...item }))
+        ]
+        const content = lines.length > 0 ? `${lines.join('\n')}\n` : ''
+        const tmpPath = `${this.path}.tmp`
+        try {
+            writeFileSync(tmpPath, content)
+            renameSync(tmpPath, this.path)
+            this.sizeBytes = Buffer.byteLength(content)
+        } catch (error) {
+            logger.warn('[OUTBOX] Failed to compact journal', error)
+        }
+    }
+
+    /** Compacts on close, and removes the file when nothing is left to report */
+    close(items: readonly JournalItem[]): void {
+        const { drops } = this.load()
+        if (items.length === 0 && Object.keys(drops).length === 0) {
+            rmSync(this.path, { force: true })
+            this.sizeBytes = 0
+            return
+        }
+        this.compact(items)
+    }
+
+    private append(record: JournalRecord): void {
+        const line = `${JSON.stringify(record)}\n`
+        try {
+            appendFileSync(this.path, line)
+            this.sizeBytes += Buffer.byteLength(line)
+        } catch (error) {
+            logger.warn('[OUTBOX] Failed to append to journal', error)
+        }
+    }
+}
+
+export type OutboxJournalSummary = {
+    sessionId: string
+    path: string
+    pendingItems: number
+    pendingBytes: number
+    droppedItems: number
+    droppedBytes: number
+    drops: JournalDrops
+    modified: Date
+}
+
+/** Journals of all sessions under the sessions data directory, for `hapi doctor` */
+export function listOutboxJournals(sessionsDir: string): OutboxJournalSummary[] {
+    if (!existsSync(sessionsDir)) {
+        return []
+    }
+
+    const summaries: OutboxJournalSummary[] = []
+    for (const sessionId of readdirSync(sessionsDir)) {
+        const path = join(sessionsDir, sessionId, OUTBOX_JOURNAL_FILE)
+        if (!existsSync(path)) {
+            continue
+        }
+        try {
+            const { items, drops } = readJournal(path)
+            const totals = Object.values(drops)
+            summaries.push({
+                sessionId,
+                path,
+                pendingItems: items.length,
+                pendingBytes: items.reduce(
+                    (sum, item) => sum + Buffer.byteLength(JSON.stringify({ event: item.event, args: item.args })),
+                    0
+                ),
+                droppedItems: totals.reduce((sum, total) => sum + total.count, 0),
+                droppedBytes: totals.reduce((sum, total) => sum + total.bytes, 0),
+                drops,
+                modified: statSync(path).mtime
+            })
+        } catch (error) {
+            logger.debug('[OUTBOX] Failed to read journal', { path, error })
+        }
+    }
+    return summaries.sort((a, b) => b.modified.getTime() - a.modified.getTime())
+}
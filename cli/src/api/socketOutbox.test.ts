@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { existsSync, mkdtempSync, rmSync, statSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SocketOutbox, type OutboxItem } from './socketOutbox'
+import { listOutboxJournals, readJournal } from './outboxJournal'
+
+function collect(outbox: SocketOutbox): string[] {
+    const ids: string[] = []
+    outbox.flush((item: OutboxItem) => ids.push(item.id))
+    return ids
+}
+
+describe('SocketOutbox', () => {
+    let dir: string
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'hapi-outbox-'))
+    })
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('keeps items until they are acked and resends them after a reconnect', () => {
+        const outbox = new SocketOutbox()
+        outbox.enqueue('a', 'message', [{ n: 1 }])
+        outbox.enqueue('b', 'message', [{ n: 2 }])
+
+        expect(collect(outbox)).toEqual(['a', 'b'])
+        expect(collect(outbox)).toEqual([])
+
+        outbox.ack('a')
+        outbox.requeue()
+        expect(collect(outbox)).toEqual(['b'])
+        expect(outbox.getStats().pendingItems).toBe(1)
+    })
+
+    it('replays unacked items from the journal in order', () => {
+        const journalPath = join(dir, 'session-1', 'outbox.jsonl')
+        const first = new SocketOutbox({ journalPath })
+        first.enqueue('a', 'message', [{ n: 1 }])
+        first.enqueue('b', 'message', [{ n: 2 }])
+        first.enqueue('c', 'message', [{ n: 3 }])
+        first.ack('b')
+        first.close()
+
+        const second = new SocketOutbox({ journalPath })
+        const replayed: OutboxItem[] = []
+        second.flush((item) => replayed.push(item))
+        expect(replayed.map((item) => [item.id, item.args])).toEqual([
+            ['a', [{ n: 1 }]],
+            ['c', [{ n: 3 }]]
+        ])
+    })
+
+    it('removes the journal once everything is acked', () => {
+        const journalPath = join(dir, 'session-1', 'outbox.jsonl')
+        const outbox = new SocketOutbox({ journalPath })
+        outbox.enqueue('a', 'message', [{ n: 1 }])
+        outbox.ack('a')
+        outbox.close()
+
+        expect(existsSync(journalPath)).toBe(false)
+    })
+
+    it('journals drops beyond the budget and reports them per session', () => {
+        const journalPath = join(dir, 'session-1', 'outbox.jsonl')
+        const outbox = new SocketOutbox({ journalPath, maxItems: 2, dropLogIntervalMs: 60_000 })
+        outbox.enqueue('a', 'message', [{ n: 1 }])
+        outbox.enqueue('b', 'message', [{ n: 2 }])
+        outbox.enqueue('c', 'message', [{ n: 3 }])
+        outbox.enqueue('d', 'message', [{ n: 4 }])
+        outbox.reject('d', 'not-found')
+
+        expect(collect(outbox)).toEqual(['c'])
+        expect(outbox.getStats()).toMatchObject({ pendingItems: 1, droppedItems: 3 })
+
+        outbox.close()
+        const [summary] = listOutboxJournals(dir)
+        expect(summary).toMatchObject({ sessionId: 'session-1', pendingItems: 1, droppedItems: 3 })
+        expect(Object.keys(summary.drops).sort()).toEqual(['not-found', 'outbox-full'])
+        expect(summary.drops['outbox-full'].count).toBe(2)
+    })
+
+    it('compacts the journal when it outgrows the disk budget', () => {
+        const journalPath = join(dir, 'session-1', 'outbox.jsonl')
+        const outbox = new SocketOutbox({ journalPath, maxBytes: 2_000 })
+        for (let i = 0; i < 50; i++) {
+            outbox.enqueue(`m${i}`, 'message', [{ n: i }])
+            outbox.ack(`m${i}`)
+        }
+        outbox.enqueue('last', 'message', [{ n: 50 }])
+
+        const { items } = readJournal(journalPath)
+        expect(items.map((item) => item.id)).toEqual(['last'])
+        expect(statSync(journalPath).size).toBeLessThan(2_000)
+        expect(outbox.getStats().droppedItems).toBe(0)
+    })
+})
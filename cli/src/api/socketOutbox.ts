@@ -1,4 +1,5 @@
 import { logger } from '@/ui/logger'
+import { OutboxJournal, type JournalItem } from './outboxJournal'
 
 const DEFAULT_OUTBOX_MAX_BYTES = resolveEnvNumber('HAPI_OUTBOX_MAX_BYTES', 16_000_000)
 const DEFAULT_OUTBOX_MAX_ITEMS = resolveEnvNumber('HAPI_OUTBOX_MAX_ITEMS', 500)
@@ -6,11 +7,23 @@ const DEFAULT_OUTBOX_MAX_ITEM_BYTES = resolveEnvNumber('HAPI_OUTBOX_MAX_ITEM_BYT
 const DEFAULT_OUTBOX_MAX_AGE_MS = resolveEnvNumber('HAPI_OUTBOX_MAX_AGE_MS', 15 * 60_000, true)
 const DEFAULT_DROP_LOG_INTERVAL_MS = resolveEnvNumber('HAPI_OUTBOX_DROP_LOG_INTERVAL_MS', 5_000)
 
-type OutboxItem = {
-    event: string
-    args: readonly unknown[]
+// A journaled outbox rides out long disconnects, so only the disk budget bounds it by default
+export const OUTBOX_PERSIST_ENABLED = ['true', '1', 'yes'].includes(process.env.HAPI_OUTBOX_PERSIST?.toLowerCase() || '')
+const PERSISTENT_OUTBOX_MAX_DISK_BYTES = resolveEnvNumber('HAPI_OUTBOX_MAX_DISK_BYTES', 64_000_000)
+const PERSISTENT_OUTBOX_MAX_ITEMS = resolveEnvNumber('HAPI_OUTBOX_MAX_ITEMS', 100_000)
+const PERSISTENT_OUTBOX_MAX_AGE_MS = resolveEnvNumber('HAPI_OUTBOX_MAX_AGE_MS', 0, true)
+
+export type OutboxItem = JournalItem & {
     sizeBytes: number
-    enqueuedAt: number
+    // Emitted on the current connection and waiting for the hub's ack
+    sent: boolean
+}
+
+export type SocketOutboxStats = {
+    pendingItems: number
+    pendingBytes: number
+    droppedItems: number
+    droppedBytes: number
 }
 
 type SocketOutboxOptions = {
@@ -19,6 +32,8 @@ type SocketOutboxOptions = {
     maxItemBytes?: number
     maxAgeMs?: number
     dropLogIntervalMs?: number
+    // Append-only journal that survives restarts; see outboxJournal.ts
+    journalPath?: string
 }
 
 function resolveEnvNumber(name: string, fallback: number, allowZero: boolean = false): number {
@@ -47,28 +62,39 @@ function estimateSizeBytes(payload: unknown): number {
     }
 }
 
+/**
+ * Holds outgoing events until the hub acks them. Items are emitted in order
+ * on each connection and re-emitted after a reconnect; the hub drops repeats
+ * by their id (sent as `localId`).
+ */
 export class SocketOutbox {
     private readonly maxBytes: number
     private readonly maxItems: number
     private readonly maxItemBytes: number
     private readonly maxAgeMs: number
     private readonly dropLogIntervalMs: number
+    private readonly journal: OutboxJournal | null
     private items: OutboxItem[] = []
     private queuedBytes = 0
     private droppedCount = 0
     private droppedBytes = 0
+    private totalDroppedCount = 0
+    private totalDroppedBytes = 0
     private lastDropLogAt = 0
     private lastDropReason = 'unknown'
 
     constructor(options?: SocketOutboxOptions) {
-        this.maxBytes = options?.maxBytes ?? DEFAULT_OUTBOX_MAX_BYTES
-        this.maxItems = options?.maxItems ?? DEFAULT_OUTBOX_MAX_ITEMS
+        const persistent = Boolean(options?.journalPath)
+        this.maxBytes = options?.maxBytes ?? (persistent ? PERSISTENT_OUTBOX_MAX_DISK_BYTES : DEFAULT_OUTBOX_MAX_BYTES)
+        this.maxItems = options?.maxItems ?? (persistent ? PERSISTENT_OUTBOX_MAX_ITEMS : DEFAULT_OUTBOX_MAX_ITEMS)
         this.maxItemBytes = options?.maxItemBytes ?? DEFAULT_OUTBOX_MAX_ITEM_BYTES
-        this.maxAgeMs = options?.maxAgeMs ?? DEFAULT_OUTBOX_MAX_AGE_MS
+        this.maxAgeMs = options?.maxAgeMs ?? (persistent ? PERSISTENT_OUTBOX_MAX_AGE_MS : DEFAULT_OUTBOX_MAX_AGE_MS)
         this.dropLogIntervalMs = options?.dropLogIntervalMs ?? DEFAULT_DROP_LOG_INTERVAL_MS
+        this.journal = options?.journalPath ? new OutboxJournal(options.journalPath, this.maxBytes) : null
+        this.restore()
     }
 
-    enqueue(event: string, args: readonly unknown[]): boolean {
+    enqueue(id: string, event: string, args: readonly unknown[]): boolean {
         if (this.maxBytes <= 0 || this.maxItems <= 0) {
             this.recordDrop('outbox-disabled', 0)
             return false
@@ -88,7 +114,7 @@ export class SocketOutbox {
                 break
             }
             this.queuedBytes -= removed.sizeBytes
-            this.recordDrop('outbox-full', removed.sizeBytes)
+            this.recordDrop('outbox-full', removed.sizeBytes, removed.id)
         }
 
         if (this.items.length >= this.maxItems || this.queuedBytes + sizeBytes > this.maxBytes) {
@@ -96,30 +122,104 @@ export class SocketOutbox {
             return false
         }
 
-        this.items.push({
+        const item: OutboxItem = {
+            id,
             event,
             args,
             sizeBytes,
-            enqueuedAt: Date.now()
-        })
+            enqueuedAt: Date.now(),
+            sent: false
+        }
+        this.items.push(item)
         this.queuedBytes += sizeBytes
+        this.journal?.recordEnqueue(this.toJournalItem(item))
+        this.compactIfNeeded()
         return true
     }
 
-    flush(emit: (event: string, args: readonly unknown[]) => void): void {
+    /** Emits the items not yet sent on this connection, oldest first */
+    flush(emit: (item: OutboxItem) => void): void {
         this.dropExpired()
 
-        if (this.items.length === 0) {
+        for (const item of this.items) {
+            if (item.sent) {
+                continue
+            }
+            item.sent = true
+            emit(item)
+        }
+    }
+
+    ack(id: string): void {
+        const index = this.items.findIndex((item) => item.id === id)
+        if (index === -1) {
             return
         }
+        const [removed] = this.items.splice(index, 1)
+        this.queuedBytes -= removed.sizeBytes
+        this.journal?.recordAck(id)
+        this.compactIfNeeded()
+    }
+
+    /** The hub refused the item for good (e.g. the session is gone) */
+    reject(id: string, reason: string): void {
+        const index = this.items.findIndex((item) => item.id === id)
+        if (index === -1) {
+            return
+        }
+        const [removed] = this.items.splice(index, 1)
+        this.queuedBytes -= removed.sizeBytes
+        this.recordDrop(reason, removed.sizeBytes, removed.id)
+    }
+
+    /** Unacked items go out again on the next connection */
+    requeue(): void {
+        for (const item of this.items) {
+            item.sent = false
+        }
+    }
+
+    getStats(): SocketOutboxStats {
+        return {
+            pendingItems: this.items.length,
+            pendingBytes: this.queuedBytes,
+            droppedItems: this.totalDroppedCount,
+            droppedBytes: this.totalDroppedBytes
+        }
+    }
 
-        const items = this.items
-        this.items = []
-        this.queuedBytes = 0
+    close(): void {
+        this.journal?.close(this.items.map((item) => this.toJournalItem(item)))
+    }
 
+    private restore(): void {
+        if (!this.journal) {
+            return
+        }
+        const { items, drops } = this.journal.load()
         for (const item of items) {
-            emit(item.event, item.args)
+            const sizeBytes = estimateSizeBytes({ event: item.event, args: item.args })
+            this.items.push({ ...item, sizeBytes, sent: false })
+            this.queuedBytes += sizeBytes
+        }
+        for (const total of Object.values(drops)) {
+            this.totalDroppedCount += total.count
+            this.totalDroppedBytes += total.bytes
         }
+        if (items.length > 0) {
+            logger.debug(`[OUTBOX] Restored ${items.length} unsent items from ${this.journal.path}`)
+        }
+        this.dropExpired()
+    }
+
+    private compactIfNeeded(): void {
+        if (this.journal?.needsCompaction()) {
+            this.journal.compact(this.items.map((item) => this.toJournalItem(item)))
+        }
+    }
+
+    private toJournalItem(item: OutboxItem): JournalItem {
+        return { id: item.id, event: item.event, args: item.args, enqueuedAt: item.enqueuedAt }
     }
 
     private dropExpired(): void {
@@ -134,14 +234,17 @@ export class SocketOutbox {
                 break
             }
             this.queuedBytes -= removed.sizeBytes
-            this.recordDrop('expired', removed.sizeBytes)
+            this.recordDrop('expired', removed.sizeBytes, removed.id)
         }
     }
 
-    private recordDrop(reason: string, bytes: number): void {
+    private recordDrop(reason: string, bytes: number, id?: string): void {
         this.droppedCount += 1
         this.droppedBytes += bytes
+        this.totalDroppedCount += 1
+        this.totalDroppedBytes += bytes
         this.lastDropReason = reason
+        this.journal?.recordDrop(reason, bytes, id)
 
         const now = Date.now()
         if (now - this.lastDropLogAt < this.dropLogIntervalMs) {
@@ -1,4 +1,5 @@
 import {
+    AcpAgentInfoSchema,
     AgentStateSchema,
     AttachmentMetadataSchema,
     MetadataSchema,
@@ -18,11 +19,19 @@ export type {
     ClaudePermissionMode,
     CodexPermissionMode,
     Metadata,
-    Session
+    Session,
+    SessionTemplate
 } from '@hapi/protocol/types'
 export type SessionPermissionMode = PermissionMode
 export type SessionModelMode = ModelMode
 
+// Modes the CLI reports with each keepalive
+export type SessionRuntimeModes = {
+    permissionMode?: SessionPermissionMode
+    modelMode?: SessionModelMode
+    reasoningEffort?: string
+}
+
 export { AgentStateSchema, AttachmentMetadataSchema, MetadataSchema }
 
 export const MachineMetadataSchema = z.object({
@@ -32,7 +41,8 @@ export const MachineMetadataSchema = z.object({
     displayName: z.string().optional(),
     homeDir: z.string(),
     happyHomeDir: z.string(),
-    happyLibDir: z.string()
+    happyLibDir: z.string(),
+    acpAgents: z.array(AcpAgentInfoSchema).optional()
 })
 
 export type MachineMetadata = z.infer<typeof MachineMetadataSchema>
@@ -187,6 +187,11 @@ class ClaudeRemoteLauncher extends RemoteLauncherBase {
                 }
             }
 
+            const usage = sdkToLogConverter.extractUsage(msg);
+            if (usage) {
+                session.client.sendSessionEvent({ type: 'usage', ...usage });
+            }
+
             const logMessage = sdkToLogConverter.convert(msg);
             if (logMessage) {
                 if (logMessage.type === 'user' && logMessage.message?.content) {
@@ -289,6 +294,8 @@ class ClaudeRemoteLauncher extends RemoteLauncherBase {
                 }
 
                 previousSessionId = session.sessionId;
+                // Each launch starts a new Claude process with its own running cost total
+                sdkToLogConverter.resetUsage();
                 const controller = new AbortController();
                 this.abortController = controller;
                 this.abortFuture = new Future<void>();
@@ -363,7 +370,7 @@ class ClaudeRemoteLauncher extends RemoteLauncherBase {
                 } catch (e) {
                     logger.debug('[remote]: launch error', e);
                     if (!this.exitReason) {
-                        session.client.sendSessionEvent({ type: 'message', message: 'Process exited unexpectedly' });
+                        session.client.sendSessionEvent({ type: 'error', message: 'Process exited unexpectedly' });
                         continue;
                     }
                 } finally {
@@ -3,18 +3,23 @@ import { loop } from '@/claude/loop';
 import { AgentState, SessionModelMode } from '@/api/types';
 import { EnhancedMode, PermissionMode } from './loop';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
+import { attachMessageQueue } from '@/agent/messageQueueSync';
 import { hashObject } from '@/utils/deterministicJson';
 import { extractSDKMetadataAsync } from '@/claude/sdk/metadataExtractor';
 import { parseSpecialCommand } from '@/parsers/specialCommands';
 import { getEnvironmentInfo } from '@/ui/doctor';
 import { startHappyServer } from '@/claude/utils/startHappyServer';
 import { startHookServer } from '@/claude/utils/startHookServer';
+import { CLAUDE_FORWARDED_HOOK_EVENTS, toClaudeHookEvent } from '@/claude/utils/claudeHookEvents';
 import { generateHookSettingsFile, cleanupHookSettingsFile } from '@/modules/common/hooks/generateHookSettings';
 import { registerKillSessionHandler } from './registerKillSessionHandler';
 import type { Session } from './session';
 import { bootstrapSession } from '@/agent/sessionFactory';
 import { createModeChangeHandler, createRunnerLifecycle, setControlledByUser } from '@/agent/runnerLifecycle';
-import { isModelModeAllowedForFlavor, isPermissionModeAllowedForFlavor } from '@hapi/protocol';
+import { isModelModeAllowed, isPermissionModeAllowedForFlavor } from '@hapi/protocol';
+import type { ModelCatalog } from '@hapi/protocol/types';
+import { publishModelCatalog } from '@/agent/modelCatalog';
+import { buildClaudeModelCatalog, fetchClaudeModels } from './utils/claudeModelCatalog';
 import { ModelModeSchema, PermissionModeSchema } from '@hapi/protocol/schemas';
 import { formatMessageWithAttachments } from '@/utils/attachmentFormatter';
 
@@ -53,6 +58,17 @@ export async function runClaude(options: StartOptions = {}): Promise<void> {
     });
     logger.debug(`Session created: ${sessionInfo.id}`);
 
+    // Aliases are usable right away; full model ids follow once the API answers
+    let modelCatalog: ModelCatalog = buildClaudeModelCatalog([], options.model);
+    publishModelCatalog(session, modelCatalog);
+    void fetchClaudeModels().then((models) => {
+        if (models.length === 0) {
+            return;
+        }
+        modelCatalog = buildClaudeModelCatalog(models, options.model);
+        publishModelCatalog(session, modelCatalog);
+    });
+
     // Extract SDK metadata in background and update session when ready
     extractSDKMetadataAsync(async (sdkMetadata) => {
         logger.debug('[start] SDK metadata extracted, updating session:', sdkMetadata);
@@ -97,6 +113,16 @@ export async function runClaude(options: StartOptions = {}): Promise<void> {
                     currentSession.onSessionFound(sessionId);
                 }
             }
+        },
+        onHookEvent: (_sessionId, data) => {
+            // Remote mode streams the same activity from the SDK
+            if (currentSessionRef.current?.mode !== 'local') {
+                return;
+            }
+            const event = toClaudeHookEvent(data);
+            if (event) {
+                session.sendSessionEvent(event);
+            }
         }
     });
     logger.debug(`[START] Hook server started on port ${hookServer.port}`);
@@ -104,7 +130,8 @@ export async function runClaude(options: StartOptions = {}): Promise<void> {
     const hookSettingsPath = generateHookSettingsFile(hookServer.port, hookServer.token, {
         filenamePrefix: 'session-hook',
         logLabel: 'generateHookSettings',
-        hooksEnabled: true
+        hooksEnabled: true,
+        forwardedEvents: CLAUDE_FORWARDED_HOOK_EVENTS
     });
     logger.debug(`[START] Generated hook settings file: ${hookSettingsPath}`);
 
@@ -141,10 +168,11 @@ export async function runClaude(options: StartOptions = {}): Promise<void> {
         allowedTools: mode.allowedTools,
         disallowedTools: mode.disallowedTools
     }));
+    attachMessageQueue(session, messageQueue);
 
     // Forward messages to the queue
     let currentPermissionMode: PermissionMode = options.permissionMode ?? 'bypassPermissions';
-    let currentModelMode: SessionModelMode = options.model === 'sonnet' || options.model === 'opus' ? options.model : 'opus';
+    let currentModelMode: SessionModelMode = options.model || 'opus';
     let currentFallbackModel: string | undefined = undefined; // Track current fallback model
     let currentCustomSystemPrompt: string | undefined = undefined; // Track current custom system prompt
     let currentAppendSystemPrompt: string | undefined = undefined; // Track current append system prompt
@@ -285,7 +313,7 @@ export async function runClaude(options: StartOptions = {}): Promise<void> {
 
     const resolveModelMode = (value: unknown): SessionModelMode => {
         const parsed = ModelModeSchema.safeParse(value);
-        if (!parsed.success || !isModelModeAllowedForFlavor(parsed.data, 'claude')) {
+        if (!parsed.success || !isModelModeAllowed(parsed.data, 'claude', modelCatalog)) {
             throw new Error('Invalid model mode');
         }
         return parsed.data;
@@ -75,10 +75,6 @@ export class Session extends AgentSessionBase<EnhancedMode> {
         this.permissionMode = mode;
     };
 
-    setModelMode = (mode: SessionModelMode): void => {
-        this.modelMode = mode;
-    };
-
     recordLocalLaunchFailure = (message: string, exitReason: LocalLaunchExitReason): void => {
         this.localLaunchFailure = { message, exitReason };
     };
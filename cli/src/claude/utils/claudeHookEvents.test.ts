@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { toClaudeHookEvent } from './claudeHookEvents';
+
+describe('toClaudeHookEvent', () => {
+    it('keeps the tool call and drops the tool output', () => {
+        expect(toClaudeHookEvent({
+            session_id: 's1',
+            hook_event_name: 'PreToolUse',
+            tool_name: 'Bash',
+            tool_use_id: 'toolu_1',
+            tool_input: { command: 'ls' }
+        })).toEqual({
+            type: 'hook',
+            hook: 'PreToolUse',
+            toolName: 'Bash',
+            toolUseId: 'toolu_1',
+            toolInput: { command: 'ls' }
+        });
+
+        expect(toClaudeHookEvent({
+            session_id: 's1',
+            hook_event_name: 'PostToolUse',
+            tool_name: 'Bash',
+            tool_use_id: 'toolu_1',
+            tool_response: { stdout: 'a'.repeat(1000), is_error: true }
+        })).toEqual({
+            type: 'hook',
+            hook: 'PostToolUse',
+            toolName: 'Bash',
+            toolUseId: 'toolu_1',
+            isError: true
+        });
+    });
+
+    it('forwards a bounded summary of the tool input', () => {
+        const event = toClaudeHookEvent({
+            hook_event_name: 'PreToolUse',
+            tool_name: 'Write',
+            tool_use_id: 'toolu_2',
+            tool_input: { file_path: '/repo/big.txt', content: 'x'.repeat(100_000) }
+        });
+        expect(event).toEqual({
+            type: 'hook',
+            hook: 'PreToolUse',
+            toolName: 'Write',
+            toolUseId: 'toolu_2',
+            toolInput: { file_path: '/repo/big.txt' }
+        });
+
+        const bash = toClaudeHookEvent({
+            hook_event_name: 'PreToolUse',
+            tool_name: 'Bash',
+            tool_input: { command: 'echo '.repeat(1000) }
+        });
+        expect(bash?.hook === 'PreToolUse' && bash.toolInput.command.length).toBe(301);
+    });
+
+    it('leaves the prompt text to the transcript', () => {
+        expect(toClaudeHookEvent({ hook_event_name: 'UserPromptSubmit', prompt: 'secret plan' }))
+            .toEqual({ type: 'hook', hook: 'UserPromptSubmit' });
+    });
+
+    it('reads notifications and compaction triggers', () => {
+        expect(toClaudeHookEvent({ hook_event_name: 'Notification', message: 'Claude is waiting for your input' }))
+            .toEqual({ type: 'hook', hook: 'Notification', message: 'Claude is waiting for your input' });
+        expect(toClaudeHookEvent({ hook_event_name: 'PreCompact', trigger: 'manual' }))
+            .toEqual({ type: 'hook', hook: 'PreCompact', trigger: 'manual' });
+    });
+
+    it('ignores hooks it does not forward', () => {
+        expect(toClaudeHookEvent({ hook_event_name: 'SubagentStop' })).toBeNull();
+        expect(toClaudeHookEvent({})).toBeNull();
+    });
+});
@@ -0,0 +1,105 @@
+import { isObject } from '@hapi/protocol';
+import type { SessionHookData } from './startHookServer';
+
+/**
+ * Hooks installed next to SessionStart and forwarded to the hub while Claude
+ * runs in local mode, so remote viewers follow along before the transcript
+ * scanner catches up.
+ */
+export const CLAUDE_FORWARDED_HOOK_EVENTS = [
+    'PreToolUse',
+    'PostToolUse',
+    'Notification',
+    'UserPromptSubmit',
+    'Stop',
+    'PreCompact'
+] as const;
+
+export type ClaudeForwardedHookName = typeof CLAUDE_FORWARDED_HOOK_EVENTS[number];
+
+export type ClaudeHookEvent =
+    | { type: 'hook'; hook: 'PreToolUse'; toolName: string; toolUseId: string | null; toolInput: Record<string, string> }
+    | { type: 'hook'; hook: 'PostToolUse'; toolName: string; toolUseId: string | null; isError: boolean }
+    | { type: 'hook'; hook: 'Notification'; message: string }
+    | { type: 'hook'; hook: 'UserPromptSubmit' }
+    | { type: 'hook'; hook: 'Stop' }
+    | { type: 'hook'; hook: 'PreCompact'; trigger: string };
+
+function readString(value: unknown): string | null {
+    return typeof value === 'string' && value ? value : null;
+}
+
+// What the live tool card shows; file contents and edits wait for the transcript
+const TOOL_INPUT_SUMMARY_KEYS = [
+    'file_path',
+    'notebook_path',
+    'path',
+    'command',
+    'pattern',
+    'url',
+    'query',
+    'description',
+    'prompt',
+    'title'
+] as const;
+const MAX_TOOL_INPUT_STRING_LENGTH = 300;
+
+function summarizeToolInput(input: unknown): Record<string, string> {
+    const summary: Record<string, string> = {};
+    if (!isObject(input)) {
+        return summary;
+    }
+    for (const key of TOOL_INPUT_SUMMARY_KEYS) {
+        const value = input[key];
+        if (typeof value === 'string') {
+            summary[key] = value.length > MAX_TOOL_INPUT_STRING_LENGTH
+                ? `${value.slice(0, MAX_TOOL_INPUT_STRING_LENGTH)}…`
+                : value;
+        }
+    }
+    return summary;
+}
+
+// Claude reports failed tool calls in tool_response for some tools only
+function isErrorResponse(response: unknown): boolean {
+    if (!isObject(response)) {
+        return false;
+    }
+    return response.is_error === true || response.success === false || typeof response.error === 'string';
+}
+
+/**
+ * Converts a hook payload into the session event sent to the hub. Prompts,
+ * tool output and all but a short summary of the tool input are left out; the
+ * transcript carries them.
+ */
+export function toClaudeHookEvent(data: SessionHookData): ClaudeHookEvent | null {
+    switch (data.hook_event_name) {
+        case 'PreToolUse':
+            return {
+                type: 'hook',
+                hook: 'PreToolUse',
+                toolName: readString(data.tool_name) ?? 'unknown',
+                toolUseId: readString(data.tool_use_id),
+                toolInput: summarizeToolInput(data.tool_input)
+            };
+        case 'PostToolUse':
+            return {
+                type: 'hook',
+                hook: 'PostToolUse',
+                toolName: readString(data.tool_name) ?? 'unknown',
+                toolUseId: readString(data.tool_use_id),
+                isError: isErrorResponse(data.tool_response)
+            };
+        case 'Notification':
+            return { type: 'hook', hook: 'Notification', message: readString(data.message) ?? 'Claude needs your attention' };
+        case 'UserPromptSubmit':
+            return { type: 'hook', hook: 'UserPromptSubmit' };
+        case 'Stop':
+            return { type: 'hook', hook: 'Stop' };
+        case 'PreCompact':
+            return { type: 'hook', hook: 'PreCompact', trigger: readString(data.trigger) ?? 'auto' };
+        default:
+            return null;
+    }
+}
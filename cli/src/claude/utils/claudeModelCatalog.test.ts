@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildClaudeModelCatalog, fetchClaudeModels } from './claudeModelCatalog';
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('fetchClaudeModels', () => {
+    it('skips the request without an API key', async () => {
+        const fetchModels = vi.fn();
+        expect(await fetchClaudeModels({}, fetchModels)).toEqual([]);
+        expect(fetchModels).not.toHaveBeenCalled();
+    });
+
+    it('maps the model list to catalog entries', async () => {
+        const fetchModels = vi.fn(async () => jsonResponse({
+            data: [
+                { id: 'claude-opus-4-1-20250805', display_name: 'Claude Opus 4.1' },
+                { id: 'claude-sonnet-4-5-20250929', display_name: 'claude-sonnet-4-5-20250929' },
+                { display_name: 'no id' }
+            ]
+        }));
+
+        const models = await fetchClaudeModels(
+            { ANTHROPIC_API_KEY: 'key', ANTHROPIC_BASE_URL: 'https://proxy.example/' },
+            fetchModels
+        );
+
+        expect(models).toEqual([
+            { id: 'claude-opus-4-1-20250805', label: 'Claude Opus 4.1' },
+            { id: 'claude-sonnet-4-5-20250929' }
+        ]);
+        const [url, init] = fetchModels.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('https://proxy.example/v1/models?limit=100');
+        expect(init.headers).toMatchObject({ 'x-api-key': 'key' });
+    });
+
+    it('returns nothing when the request fails', async () => {
+        const failed = vi.fn(async () => jsonResponse({ error: 'nope' }, 401));
+        expect(await fetchClaudeModels({ ANTHROPIC_API_KEY: 'key' }, failed)).toEqual([]);
+
+        const thrown = vi.fn(async () => {
+            throw new Error('offline');
+        });
+        expect(await fetchClaudeModels({ ANTHROPIC_API_KEY: 'key' }, thrown)).toEqual([]);
+    });
+});
+
+describe('buildClaudeModelCatalog', () => {
+    it('lists the aliases before the full ids and adds the start model', () => {
+        const catalog = buildClaudeModelCatalog(
+            [{ id: 'claude-opus-4-1-20250805' }, { id: 'opus' }],
+            'claude-3-5-haiku-latest'
+        );
+
+        expect(catalog.switchable).toBe(true);
+        expect(catalog.models.map((model) => model.id)).toEqual([
+            'sonnet',
+            'opus',
+            'claude-opus-4-1-20250805',
+            'claude-3-5-haiku-latest'
+        ]);
+    });
+});
@@ -0,0 +1,68 @@
+import { getModelModesForFlavor, isObject, MODEL_MODE_LABELS, toModelCatalogEntry } from '@hapi/protocol';
+import type { ModelCatalog, ModelCatalogEntry } from '@hapi/protocol/types';
+import { logger } from '@/ui/logger';
+
+const DEFAULT_API_URL = 'https://api.anthropic.com';
+const MODELS_TIMEOUT_MS = 5_000;
+
+type FetchModels = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Lists the full model ids of the Anthropic API. Only possible with an API
+ * key; subscription logins leave Claude Code with the aliases.
+ */
+export async function fetchClaudeModels(
+    env: NodeJS.ProcessEnv = process.env,
+    fetchModels: FetchModels = fetch
+): Promise<ModelCatalogEntry[]> {
+    const apiKey = env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+        return [];
+    }
+
+    const baseUrl = (env.ANTHROPIC_BASE_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+    try {
+        const response = await fetchModels(`${baseUrl}/v1/models?limit=100`, {
+            headers: {
+                'x-api-key': apiKey,
+                'anthropic-version': '2023-06-01'
+            },
+            signal: AbortSignal.timeout(MODELS_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+            logger.debug(`[claudeModelCatalog] Model list request failed: ${response.status}`);
+            return [];
+        }
+        const body = await response.json() as unknown;
+        const data = isObject(body) && Array.isArray(body.data) ? body.data : [];
+        return data.flatMap((model): ModelCatalogEntry[] => {
+            if (!isObject(model) || typeof model.id !== 'string' || !model.id) {
+                return [];
+            }
+            const label = typeof model.display_name === 'string' ? model.display_name : null;
+            return [toModelCatalogEntry(model.id, label)];
+        });
+    } catch (error) {
+        logger.debug('[claudeModelCatalog] Failed to list models', error);
+        return [];
+    }
+}
+
+/**
+ * The aliases Claude Code always accepts, followed by the full model ids the
+ * API reported and the model the session was started with.
+ */
+export function buildClaudeModelCatalog(models: ModelCatalogEntry[], startModel?: string): ModelCatalog {
+    const entries: ModelCatalogEntry[] = getModelModesForFlavor('claude')
+        .filter((mode) => mode !== 'default')
+        .map((mode) => ({ id: mode, label: MODEL_MODE_LABELS[mode] }));
+    for (const model of models) {
+        if (!entries.some((entry) => entry.id === model.id)) {
+            entries.push(model);
+        }
+    }
+    if (startModel && startModel !== 'default' && !entries.some((entry) => entry.id === startModel)) {
+        entries.push({ id: startModel });
+    }
+    return { models: entries, switchable: true };
+}
@@ -200,6 +200,59 @@ describe('SDKToLogConverter', () => {
         })
     })
 
+    describe('Usage extraction', () => {
+        function result(totalCostUsd: number, usage?: SDKResultMessage['usage']): SDKResultMessage {
+            return {
+                type: 'result',
+                subtype: 'success',
+                num_turns: 1,
+                usage,
+                total_cost_usd: totalCostUsd,
+                duration_ms: 1000,
+                duration_api_ms: 900,
+                is_error: false,
+                session_id: 'usage-session'
+            }
+        }
+
+        it('should report turn tokens with the model from init', () => {
+            const init: SDKSystemMessage = { type: 'system', subtype: 'init', model: 'claude-sonnet-4-5' }
+            expect(converter.extractUsage(init)).toBeNull()
+
+            const usage = converter.extractUsage(result(0.02, {
+                input_tokens: 10,
+                output_tokens: 20,
+                cache_read_input_tokens: 300,
+                cache_creation_input_tokens: 40
+            }))
+
+            expect(usage).toEqual({
+                model: 'claude-sonnet-4-5',
+                inputTokens: 10,
+                outputTokens: 20,
+                cacheReadTokens: 300,
+                cacheCreationTokens: 40,
+                costUsd: 0.02
+            })
+        })
+
+        it('should turn the running cost total into per-turn cost', () => {
+            converter.extractUsage(result(0.02, { input_tokens: 1, output_tokens: 1 }))
+            expect(converter.extractUsage(result(0.05, { input_tokens: 1, output_tokens: 1 }))?.costUsd).toBeCloseTo(0.03)
+
+            converter.resetUsage()
+            expect(converter.extractUsage(result(0.01, { input_tokens: 1, output_tokens: 1 }))?.costUsd).toBeCloseTo(0.01)
+        })
+
+        it('should ignore other messages', () => {
+            const assistant: SDKAssistantMessage = {
+                type: 'assistant',
+                message: { role: 'assistant', content: [{ type: 'text', text: 'Hi' }] }
+            }
+            expect(converter.extractUsage(assistant)).toBeNull()
+        })
+    })
+
     describe('Parent-child relationships', () => {
         it('should track parent UUIDs across messages', () => {
             const msg1: SDKUserMessage = {
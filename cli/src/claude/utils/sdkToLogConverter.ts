@@ -13,7 +13,7 @@ import type {
     SDKResultMessage
 } from '@/claude/sdk'
 import type { RawJSONLines } from '@/claude/types'
-import type { ClaudePermissionMode } from '@hapi/protocol/types'
+import type { ClaudePermissionMode, UsageReport } from '@hapi/protocol/types'
 
 /**
  * Context for converting SDK messages to log format
@@ -57,6 +57,8 @@ export class SDKToLogConverter {
     private context: ConversionContext
     private responses?: Map<string, PermissionResponse>
     private sidechainLastUUID = new Map<string, string>();
+    private usageModel: string | null = null
+    private lastTotalCostUsd = 0
 
     constructor(
         context: Omit<ConversionContext, 'parentUuid'>,
@@ -86,6 +88,53 @@ export class SDKToLogConverter {
         this.context.parentUuid = null
     }
 
+    /**
+     * Start cost tracking over for a new Claude process
+     */
+    resetUsage(): void {
+        this.lastTotalCostUsd = 0
+    }
+
+    /**
+     * Extract the usage of a finished turn from a result message.
+     * The SDK reports tokens per turn but cost as a running total for the
+     * process, so the cost is the difference to the previous result.
+     */
+    extractUsage(sdkMessage: SDKMessage): UsageReport | null {
+        if (sdkMessage.type === 'system') {
+            const systemMsg = sdkMessage as SDKSystemMessage
+            if (systemMsg.subtype === 'init' && systemMsg.model) {
+                this.usageModel = systemMsg.model
+            }
+            return null
+        }
+        if (sdkMessage.type !== 'result') {
+            return null
+        }
+
+        const resultMsg = sdkMessage as SDKResultMessage
+        let costUsd: number | null = null
+        if (typeof resultMsg.total_cost_usd === 'number') {
+            costUsd = resultMsg.total_cost_usd >= this.lastTotalCostUsd
+                ? resultMsg.total_cost_usd - this.lastTotalCostUsd
+                : resultMsg.total_cost_usd
+            this.lastTotalCostUsd = resultMsg.total_cost_usd
+        }
+
+        const usage = resultMsg.usage
+        if (!usage && !costUsd) {
+            return null
+        }
+        return {
+            model: this.usageModel,
+            inputTokens: usage?.input_tokens ?? 0,
+            outputTokens: usage?.output_tokens ?? 0,
+            cacheReadTokens: usage?.cache_read_input_tokens ?? 0,
+            cacheCreationTokens: usage?.cache_creation_input_tokens ?? 0,
+            costUsd
+        }
+    }
+
     /**
      * Convert SDK message to log format
      */
@@ -56,6 +56,33 @@ describe('startHookServer', () => {
         expect(received.data?.session_id).toBe('session-123')
     })
 
+    it('routes hooks other than SessionStart to onHookEvent', async () => {
+        const sessionHooks: string[] = []
+        const hookEvents: Array<{ sessionId: string; data: SessionHookData }> = []
+        const server = await startHookServer({
+            onSessionHook: (sessionId) => {
+                sessionHooks.push(sessionId)
+            },
+            onHookEvent: (sessionId, data) => {
+                hookEvents.push({ sessionId, data })
+            }
+        })
+
+        try {
+            const start = JSON.stringify({ session_id: 'session-123', hook_event_name: 'SessionStart' })
+            expect((await sendHookRequest(server.port, start, server.token)).statusCode).toBe(200)
+            const toolUse = JSON.stringify({ session_id: 'session-123', hook_event_name: 'PreToolUse', tool_name: 'Bash' })
+            expect((await sendHookRequest(server.port, toolUse, server.token)).statusCode).toBe(200)
+        } finally {
+            server.stop()
+        }
+
+        expect(sessionHooks).toEqual(['session-123'])
+        expect(hookEvents).toHaveLength(1)
+        expect(hookEvents[0]?.sessionId).toBe('session-123')
+        expect(hookEvents[0]?.data.tool_name).toBe('Bash')
+    })
+
     it('returns 400 for invalid JSON payloads', async () => {
         let hookCalled = false
         const server = await startHookServer({
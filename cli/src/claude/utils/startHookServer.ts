@@ -3,6 +3,8 @@
  *
  * This server receives notifications from Claude when sessions change
  * (new session, resume, compact, fork, etc.) via the SessionStart hook.
+ * Other hooks (tool use, notifications, stop, ...) arrive on the same
+ * endpoint and are told apart by `hook_event_name`.
  */
 
 import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'node:http';
@@ -10,7 +12,7 @@ import { randomBytes } from 'node:crypto';
 import { logger } from '@/ui/logger';
 
 /**
- * Data received from Claude's SessionStart hook.
+ * Data received from a Claude hook.
  */
 export interface SessionHookData {
     session_id?: string;
@@ -25,6 +27,8 @@ export interface SessionHookData {
 export interface HookServerOptions {
     /** Called when a session hook is received with a valid session ID. */
     onSessionHook: (sessionId: string, data: SessionHookData) => void;
+    /** Called for hooks other than SessionStart; without it they are acknowledged and ignored. */
+    onHookEvent?: (sessionId: string, data: SessionHookData) => void;
     /** Optional token to require for hook requests. */
     token?: string;
 }
@@ -50,7 +54,7 @@ function readHookToken(req: IncomingMessage): string | null {
  * Start a dedicated HTTP server for receiving Claude session hooks.
  */
 export async function startHookServer(options: HookServerOptions): Promise<HookServer> {
-    const { onSessionHook } = options;
+    const { onSessionHook, onHookEvent } = options;
     const hookToken = options.token || randomBytes(16).toString('hex');
 
     return new Promise((resolve, reject) => {
@@ -105,7 +109,11 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
                     }
 
                     const sessionId = data.session_id || data.sessionId;
-                    if (sessionId) {
+                    const eventName = data.hook_event_name;
+                    if (sessionId && eventName && eventName !== 'SessionStart') {
+                        logger.debug(`[hookServer] ${eventName} hook received for session ${sessionId}`);
+                        onHookEvent?.(sessionId, data);
+                    } else if (sessionId) {
                         logger.debug(`[hookServer] Session hook received session ID: ${sessionId}`);
                         onSessionHook(sessionId, data);
                     } else {
@@ -94,7 +94,7 @@ export type SandboxPolicy =
         excludeSlashTmp?: boolean;
     };
 
-export type ReasoningEffort = 'low' | 'medium' | 'high' | 'auto';
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high' | (string & {});
 export type ReasoningSummary = 'auto' | 'none' | 'brief' | 'detailed';
 
 export type CollaborationMode = {
@@ -133,3 +133,22 @@ export interface TurnInterruptResponse {
     ok: boolean;
     [key: string]: unknown;
 }
+
+export interface ModelListParams {
+    cursor?: string | null;
+    limit?: number;
+}
+
+export interface ModelListResponse {
+    data: Array<{
+        id: string;
+        model?: string;
+        displayName?: string;
+        description?: string;
+        supportedReasoningEfforts?: Array<{ reasoningEffort: ReasoningEffort; description?: string }>;
+        defaultReasoningEffort?: ReasoningEffort;
+        isDefault?: boolean;
+    }>;
+    nextCursor?: string | null;
+    [key: string]: unknown;
+}
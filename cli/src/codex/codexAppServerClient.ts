@@ -11,7 +11,9 @@ import type {
     TurnStartParams,
     TurnStartResponse,
     TurnInterruptParams,
-    TurnInterruptResponse
+    TurnInterruptResponse,
+    ModelListParams,
+    ModelListResponse
 } from './appServerTypes';
 
 type JsonRpcLiteRequest = {
@@ -164,6 +166,13 @@ export class CodexAppServerClient {
         return response as TurnInterruptResponse;
     }
 
+    async listModels(params: ModelListParams = {}): Promise<ModelListResponse> {
+        const response = await this.sendRequest('model/list', params, {
+            timeoutMs: 30_000
+        });
+        return response as ModelListResponse;
+    }
+
     async disconnect(): Promise<void> {
         if (!this.connected) {
             return;
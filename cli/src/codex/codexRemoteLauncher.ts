@@ -15,11 +15,19 @@ import type { CodexSession } from './session';
 import type { EnhancedMode } from './loop';
 import { hasCodexCliOverrides } from './utils/codexCliOverrides';
 import { buildCodexStartConfig } from './utils/codexStartConfig';
-import { AppServerEventConverter } from './utils/appServerEventConverter';
+import {
+    AppServerEventConverter,
+    diffTokenUsage,
+    extractTokenUsageTotals,
+    type CodexTokenTotals
+} from './utils/appServerEventConverter';
 import { registerAppServerPermissionHandlers } from './utils/appServerPermissionAdapter';
 import { buildThreadStartParams, buildTurnStartParams } from './utils/appServerConfig';
+import { parseCodexModelList } from './utils/codexModelCatalog';
+import { publishModelCatalog } from '@/agent/modelCatalog';
 import {
     RemoteLauncherBase,
+    type RemoteLauncherAbortOptions,
     type RemoteLauncherDisplayContext,
     type RemoteLauncherExitReason
 } from '@/modules/common/remote/RemoteLauncherBase';
@@ -56,7 +64,7 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
         return React.createElement(CodexDisplay, context);
     }
 
-    private async handleAbort(): Promise<void> {
+    private async handleAbort(options: RemoteLauncherAbortOptions = {}): Promise<void> {
         logger.debug('[Codex] Abort requested - stopping current task');
         try {
             if (this.useAppServer && this.appServerClient) {
@@ -75,7 +83,9 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
             }
 
             this.abortController.abort();
-            this.session.queue.reset();
+            if (!options.preserveQueue) {
+                this.session.queue.reset();
+            }
             this.permissionHandler?.reset();
             this.reasoningProcessor?.abort();
             this.diffProcessor?.reset();
@@ -215,6 +225,10 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
         this.reasoningProcessor = reasoningProcessor;
         this.diffProcessor = diffProcessor;
 
+        // token_count events carry running thread totals; usage is reported as the difference
+        let lastTokenTotals: CodexTokenTotals | null = null;
+        let usageModel: string | null = null;
+
         const handleCodexEvent = (msg: Record<string, unknown>) => {
             const msgType = asString(msg.type);
             if (!msgType) return;
@@ -222,6 +236,9 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
             if (msgType === 'thread_started') {
                 const threadId = asString(msg.thread_id ?? msg.threadId);
                 if (threadId) {
+                    if (threadId !== this.currentThreadId) {
+                        lastTokenTotals = null;
+                    }
                     this.currentThreadId = threadId;
                     session.onSessionFound(threadId);
                 }
@@ -367,6 +384,14 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
                     ...msg,
                     id: randomUUID()
                 });
+                const totals = extractTokenUsageTotals(msg);
+                if (totals) {
+                    const usage = diffTokenUsage(totals, lastTokenTotals, usageModel);
+                    lastTokenTotals = totals;
+                    if (usage) {
+                        session.sendSessionEvent({ type: 'usage', ...usage });
+                    }
+                }
             }
             if (msgType === 'patch_apply_begin') {
                 const callId = asString(msg.call_id ?? msg.callId);
@@ -448,7 +473,7 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
         this.happyServer = happyServer;
 
         this.setupAbortHandlers(session.client.rpcHandlerManager, {
-            onAbort: () => this.handleAbort(),
+            onAbort: (options) => this.handleAbort(options),
             onSwitch: () => this.handleSwitchRequest()
         });
 
@@ -484,6 +509,11 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
                     version: '1.0.0'
                 }
             });
+            try {
+                publishModelCatalog(session.client, parseCodexModelList(await appServerClient.listModels()));
+            } catch (error) {
+                logger.debug('[Codex] Failed to list models', error);
+            }
         } else if (mcpClient) {
             await mcpClient.connect();
         }
@@ -533,6 +563,7 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
 
             messageBuffer.addMessage(message.message, 'user');
             currentModeHash = message.hash;
+            usageModel = message.mode.model ?? null;
 
             try {
                 if (!wasCreated) {
@@ -658,7 +689,7 @@ class CodexRemoteLauncher extends RemoteLauncherBase {
                     }
                 } else {
                     messageBuffer.addMessage('Process exited unexpectedly', 'status');
-                    session.sendSessionEvent({ type: 'message', message: 'Process exited unexpectedly' });
+                    session.sendSessionEvent({ type: 'error', message: 'Process exited unexpectedly' });
                     if (useAppServer) {
                         this.currentTurnId = null;
                         this.currentThreadId = null;
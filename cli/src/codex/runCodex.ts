@@ -1,6 +1,7 @@
 import { logger } from '@/ui/logger';
 import { loop, type EnhancedMode, type PermissionMode } from './loop';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
+import { attachMessageQueue } from '@/agent/messageQueueSync';
 import { hashObject } from '@/utils/deterministicJson';
 import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
 import type { AgentState } from '@/api/types';
@@ -9,7 +10,7 @@ import { parseCodexCliOverrides } from './utils/codexCliOverrides';
 import { bootstrapSession } from '@/agent/sessionFactory';
 import { createModeChangeHandler, createRunnerLifecycle, setControlledByUser } from '@/agent/runnerLifecycle';
 import { isPermissionModeAllowedForFlavor } from '@hapi/protocol';
-import { PermissionModeSchema } from '@hapi/protocol/schemas';
+import { ModelModeSchema, PermissionModeSchema, ReasoningEffortSchema } from '@hapi/protocol/schemas';
 import { formatMessageWithAttachments } from '@/utils/attachmentFormatter';
 
 export { emitReadyIfIdle } from './utils/emitReadyIfIdle';
@@ -43,14 +44,17 @@ export async function runCodex(opts: {
     const messageQueue = new MessageQueue2<EnhancedMode>((mode) => hashObject({
         permissionMode: mode.permissionMode,
         model: mode.model,
+        reasoningEffort: mode.reasoningEffort,
         collaborationMode: mode.collaborationMode
     }));
+    attachMessageQueue(session, messageQueue);
 
     const codexCliOverrides = parseCodexCliOverrides(opts.codexArgs);
     const sessionWrapperRef: { current: CodexSession | null } = { current: null };
 
     let currentPermissionMode: PermissionMode = opts.permissionMode ?? 'yolo';
-    const currentModel = opts.model;
+    let currentModel = opts.model;
+    let currentReasoningEffort: string | undefined;
     let currentCollaborationMode: EnhancedMode['collaborationMode'];
 
     const lifecycle = createRunnerLifecycle({
@@ -68,7 +72,8 @@ export async function runCodex(opts: {
             return;
         }
         sessionInstance.setPermissionMode(currentPermissionMode);
-        logger.debug(`[Codex] Synced session permission mode for keepalive: ${currentPermissionMode}`);
+        sessionInstance.setModelMode(currentModel ?? 'default', currentReasoningEffort);
+        logger.debug(`[Codex] Synced session modes for keepalive: permissionMode=${currentPermissionMode}, model=${currentModel ?? 'default'}`);
     };
 
     session.onUserMessage((message) => {
@@ -78,6 +83,7 @@ export async function runCodex(opts: {
         const enhancedMode: EnhancedMode = {
             permissionMode: messagePermissionMode ?? 'yolo',
             model: currentModel,
+            reasoningEffort: currentReasoningEffort,
             collaborationMode: currentCollaborationMode
         };
         const formattedText = formatMessageWithAttachments(message.content.text, message.content.attachments);
@@ -114,22 +120,63 @@ export async function runCodex(opts: {
         return trimmed as EnhancedMode['collaborationMode'];
     };
 
+    const resolveModel = (value: unknown): string | undefined => {
+        const parsed = ModelModeSchema.safeParse(value);
+        if (!parsed.success) {
+            throw new Error('Invalid model mode');
+        }
+        return parsed.data === 'default' ? undefined : parsed.data;
+    };
+
+    const resolveReasoningEffort = (value: unknown): string | undefined => {
+        if (value === null) {
+            return undefined;
+        }
+        const parsed = ReasoningEffortSchema.safeParse(value);
+        if (!parsed.success) {
+            throw new Error('Invalid reasoning effort');
+        }
+        return parsed.data;
+    };
+
     session.rpcHandlerManager.registerHandler('set-session-config', async (payload: unknown) => {
         if (!payload || typeof payload !== 'object') {
             throw new Error('Invalid session config payload');
         }
-        const config = payload as { permissionMode?: unknown; collaborationMode?: unknown };
+        const config = payload as {
+            permissionMode?: unknown;
+            modelMode?: unknown;
+            reasoningEffort?: unknown;
+            collaborationMode?: unknown;
+        };
 
         if (config.permissionMode !== undefined) {
             currentPermissionMode = resolvePermissionMode(config.permissionMode);
         }
 
+        if (config.modelMode !== undefined) {
+            currentModel = resolveModel(config.modelMode);
+            // An effort only applies to the model it was picked for
+            currentReasoningEffort = undefined;
+        }
+
+        if (config.reasoningEffort !== undefined) {
+            currentReasoningEffort = resolveReasoningEffort(config.reasoningEffort);
+        }
+
         if (config.collaborationMode !== undefined) {
             currentCollaborationMode = resolveCollaborationMode(config.collaborationMode);
         }
 
         syncSessionMode();
-        return { applied: { permissionMode: currentPermissionMode, collaborationMode: currentCollaborationMode } };
+        return {
+            applied: {
+                permissionMode: currentPermissionMode,
+                modelMode: currentModel ?? 'default',
+                reasoningEffort: currentReasoningEffort ?? null,
+                collaborationMode: currentCollaborationMode
+            }
+        };
     });
 
     try {
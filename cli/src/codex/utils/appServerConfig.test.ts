@@ -48,6 +48,17 @@ describe('appServerConfig', () => {
         expect(params.model).toBe('o3');
     });
 
+    it('passes the reasoning effort to turn params', () => {
+        const params = buildTurnStartParams({
+            threadId: 'thread-1',
+            message: 'hello',
+            mode: { permissionMode: 'yolo', model: 'gpt-5-codex', reasoningEffort: 'high' }
+        });
+
+        expect(params.model).toBe('gpt-5-codex');
+        expect(params.effort).toBe('high');
+    });
+
     it('puts collaboration mode in turn params with model settings', () => {
         const params = buildTurnStartParams({
             threadId: 'thread-1',
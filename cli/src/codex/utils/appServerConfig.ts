@@ -147,5 +147,9 @@ export function buildTurnStartParams(args: {
         params.model = model;
     }
 
+    if (args.mode?.reasoningEffort) {
+        params.effort = args.mode.reasoningEffort;
+    }
+
     return params;
 }
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { AppServerEventConverter } from './appServerEventConverter';
+import { AppServerEventConverter, diffTokenUsage, extractTokenUsageTotals } from './appServerEventConverter';
 
 describe('AppServerEventConverter', () => {
     it('maps thread/started', () => {
@@ -83,4 +83,51 @@ describe('AppServerEventConverter', () => {
         const events = converter.handleNotification('turn/diff/updated', { diff: 'diff --git a b' });
         expect(events).toEqual([{ type: 'turn_diff', unified_diff: 'diff --git a b' }]);
     });
+
+    it('maps thread/tokenUsage/updated to the token_count shape', () => {
+        const converter = new AppServerEventConverter();
+        const events = converter.handleNotification('thread/tokenUsage/updated', {
+            threadId: 'thread-1',
+            tokenUsage: {
+                total: { inputTokens: 1200, cachedInputTokens: 200, outputTokens: 300, reasoningOutputTokens: 50, totalTokens: 1500 },
+                last: { inputTokens: 1200, cachedInputTokens: 200, outputTokens: 300, reasoningOutputTokens: 50, totalTokens: 1500 },
+                modelContextWindow: 200000
+            }
+        });
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({
+            type: 'token_count',
+            info: {
+                total_token_usage: { input_tokens: 1200, cached_input_tokens: 200, output_tokens: 300 },
+                model_context_window: 200000
+            }
+        });
+        expect(extractTokenUsageTotals(events[0])).toEqual({ inputTokens: 1200, cachedInputTokens: 200, outputTokens: 300 });
+    });
+});
+
+describe('diffTokenUsage', () => {
+    it('reports the difference between running totals', () => {
+        const first = { inputTokens: 1000, cachedInputTokens: 200, outputTokens: 100 };
+        const second = { inputTokens: 2500, cachedInputTokens: 1200, outputTokens: 160 };
+
+        expect(diffTokenUsage(first, null, 'gpt-5-codex')).toEqual({
+            model: 'gpt-5-codex',
+            inputTokens: 800,
+            outputTokens: 100,
+            cacheReadTokens: 200,
+            cacheCreationTokens: 0,
+            costUsd: null
+        });
+        expect(diffTokenUsage(second, first, null)).toMatchObject({ inputTokens: 500, outputTokens: 60, cacheReadTokens: 1000 });
+        expect(diffTokenUsage(second, second, null)).toBeNull();
+    });
+
+    it('counts totals that went down as a new thread', () => {
+        const previous = { inputTokens: 5000, cachedInputTokens: 0, outputTokens: 500 };
+        const current = { inputTokens: 300, cachedInputTokens: 0, outputTokens: 20 };
+
+        expect(diffTokenUsage(current, previous, null)).toMatchObject({ inputTokens: 300, outputTokens: 20 });
+    });
 });
@@ -1,4 +1,5 @@
 import { logger } from '@/ui/logger';
+import type { UsageReport } from '@hapi/protocol/types';
 
 type ConvertedEvent = {
     type: string;
@@ -76,6 +77,78 @@ function extractChanges(value: unknown): Record<string, unknown> | null {
     return null;
 }
 
+export type CodexTokenTotals = {
+    inputTokens: number;
+    cachedInputTokens: number;
+    outputTokens: number;
+};
+
+function readTokenTotals(value: unknown): CodexTokenTotals | null {
+    const record = asRecord(value);
+    if (!record) return null;
+    const input = asNumber(record.input_tokens ?? record.inputTokens);
+    const output = asNumber(record.output_tokens ?? record.outputTokens);
+    if (input === null && output === null) return null;
+    return {
+        inputTokens: input ?? 0,
+        cachedInputTokens: asNumber(record.cached_input_tokens ?? record.cachedInputTokens) ?? 0,
+        outputTokens: output ?? 0
+    };
+}
+
+function toTokenUsageRecord(value: unknown): Record<string, unknown> | null {
+    const record = asRecord(value);
+    if (!record) return null;
+    return {
+        input_tokens: asNumber(record.input_tokens ?? record.inputTokens) ?? 0,
+        cached_input_tokens: asNumber(record.cached_input_tokens ?? record.cachedInputTokens) ?? 0,
+        output_tokens: asNumber(record.output_tokens ?? record.outputTokens) ?? 0,
+        reasoning_output_tokens: asNumber(record.reasoning_output_tokens ?? record.reasoningOutputTokens) ?? 0,
+        total_tokens: asNumber(record.total_tokens ?? record.totalTokens) ?? 0
+    };
+}
+
+/**
+ * Cumulative thread token usage carried by a token_count event.
+ */
+export function extractTokenUsageTotals(event: Record<string, unknown>): CodexTokenTotals | null {
+    const info = asRecord(event.info);
+    if (!info) return null;
+    return readTokenTotals(info.total_token_usage ?? info.totalTokenUsage ?? info.total);
+}
+
+/**
+ * Usage since the previous totals of the thread. Codex counts cached input
+ * as part of input and reasoning as part of output. Totals that went down
+ * belong to a new thread and count in full; null when nothing changed.
+ */
+export function diffTokenUsage(
+    current: CodexTokenTotals,
+    previous: CodexTokenTotals | null,
+    model: string | null
+): UsageReport | null {
+    const restarted = !previous
+        || current.inputTokens < previous.inputTokens
+        || current.cachedInputTokens < previous.cachedInputTokens
+        || current.outputTokens < previous.outputTokens;
+    const base = restarted ? { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0 } : previous;
+
+    const input = current.inputTokens - base.inputTokens;
+    const cached = current.cachedInputTokens - base.cachedInputTokens;
+    const output = current.outputTokens - base.outputTokens;
+    if (input === 0 && output === 0) {
+        return null;
+    }
+    return {
+        model,
+        inputTokens: Math.max(0, input - cached),
+        outputTokens: output,
+        cacheReadTokens: cached,
+        cacheCreationTokens: 0,
+        costUsd: null
+    };
+}
+
 export class AppServerEventConverter {
     private readonly agentMessageBuffers = new Map<string, string>();
     private readonly reasoningBuffers = new Map<string, string>();
@@ -350,8 +423,17 @@ export class AppServerEventConverter {
         }
 
         if (method === 'thread/tokenUsage/updated') {
-            const info = asRecord(paramsRecord.tokenUsage ?? paramsRecord.token_usage ?? paramsRecord) ?? {};
-            events.push({ type: 'token_count', info });
+            // Same shape as codex/event/token_count so consumers handle one format
+            const usage = asRecord(paramsRecord.tokenUsage ?? paramsRecord.token_usage ?? paramsRecord) ?? {};
+            const contextWindow = asNumber(usage.modelContextWindow ?? usage.model_context_window);
+            events.push({
+                type: 'token_count',
+                info: {
+                    total_token_usage: toTokenUsageRecord(usage.total ?? usage.total_token_usage),
+                    last_token_usage: toTokenUsageRecord(usage.last ?? usage.last_token_usage),
+                    ...(contextWindow ? { model_context_window: contextWindow } : {})
+                }
+            });
             return events;
         }
 
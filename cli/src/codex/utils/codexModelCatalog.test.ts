@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseCodexModelList } from './codexModelCatalog';
+
+describe('parseCodexModelList', () => {
+    it('reads models with their reasoning efforts', () => {
+        const catalog = parseCodexModelList({
+            data: [
+                {
+                    id: 'gpt-5-codex',
+                    model: 'gpt-5-codex',
+                    displayName: 'GPT-5 Codex',
+                    description: 'Optimized for coding',
+                    supportedReasoningEfforts: [
+                        { reasoningEffort: 'low', description: 'Fast' },
+                        { reasoningEffort: 'medium' },
+                        { reasoningEffort: 'high' }
+                    ],
+                    defaultReasoningEffort: 'medium',
+                    isDefault: true
+                },
+                { id: 'gpt-5', displayName: 'gpt-5', supportedReasoningEfforts: ['minimal', 'low'] }
+            ],
+            nextCursor: null
+        });
+
+        expect(catalog).toEqual({
+            switchable: true,
+            models: [
+                {
+                    id: 'gpt-5-codex',
+                    label: 'GPT-5 Codex',
+                    description: 'Optimized for coding',
+                    reasoningEfforts: ['low', 'medium', 'high'],
+                    defaultReasoningEffort: 'medium'
+                },
+                { id: 'gpt-5', reasoningEfforts: ['minimal', 'low'] }
+            ]
+        });
+    });
+
+    it('skips malformed and duplicate entries', () => {
+        const catalog = parseCodexModelList({
+            data: [null, { displayName: 'no id' }, { id: 'o3' }, { model: 'o3' }]
+        });
+
+        expect(catalog.models).toEqual([{ id: 'o3' }]);
+    });
+
+    it('returns an empty catalog for unexpected responses', () => {
+        expect(parseCodexModelList('nope')).toEqual({ models: [], switchable: true });
+    });
+});
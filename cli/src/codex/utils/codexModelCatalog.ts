@@ -0,0 +1,57 @@
+import { isObject, toModelCatalogEntry } from '@hapi/protocol';
+import type { ModelCatalog, ModelCatalogEntry } from '@hapi/protocol/types';
+
+function readEffort(value: unknown): string | null {
+    if (typeof value === 'string' && value) {
+        return value;
+    }
+    if (isObject(value) && typeof value.reasoningEffort === 'string' && value.reasoningEffort) {
+        return value.reasoningEffort;
+    }
+    return null;
+}
+
+function parseModel(value: unknown): ModelCatalogEntry | null {
+    if (!isObject(value)) {
+        return null;
+    }
+    const id = typeof value.model === 'string' && value.model
+        ? value.model
+        : typeof value.id === 'string' && value.id ? value.id : null;
+    if (!id) {
+        return null;
+    }
+
+    const entry = toModelCatalogEntry(
+        id,
+        typeof value.displayName === 'string' ? value.displayName : null,
+        typeof value.description === 'string' ? value.description : null
+    );
+    const efforts = Array.isArray(value.supportedReasoningEfforts)
+        ? value.supportedReasoningEfforts.map(readEffort).filter((effort): effort is string => effort !== null)
+        : [];
+    if (efforts.length > 0) {
+        entry.reasoningEfforts = efforts;
+    }
+    const defaultEffort = readEffort(value.defaultReasoningEffort);
+    if (defaultEffort) {
+        entry.defaultReasoningEffort = defaultEffort;
+    }
+    return entry;
+}
+
+/**
+ * Converts a `model/list` response of the Codex app-server. The model is
+ * picked per turn, so sessions can switch between any of them.
+ */
+export function parseCodexModelList(response: unknown): ModelCatalog {
+    const data = isObject(response) && Array.isArray(response.data) ? response.data : [];
+    const models: ModelCatalogEntry[] = [];
+    for (const item of data) {
+        const entry = parseModel(item);
+        if (entry && !models.some((model) => model.id === entry.id)) {
+            models.push(entry);
+        }
+    }
+    return { models, switchable: true };
+}
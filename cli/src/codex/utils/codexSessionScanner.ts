@@ -82,8 +82,7 @@ class CodexSessionScannerImpl extends BaseSessionScanner<CodexSessionEvent> {
 
     constructor(opts: CodexSessionScannerOptions, targetCwd: string | null) {
         super({ intervalMs: 2000 });
-        const codexHomeDir = process.env.CODEX_HOME || join(homedir(), '.codex');
-        this.sessionsRoot = join(codexHomeDir, 'sessions');
+        this.sessionsRoot = resolveCodexSessionsRoot();
         this.onEvent = opts.onEvent;
         this.onSessionFound = opts.onSessionFound;
         this.onSessionMatchFailed = opts.onSessionMatchFailed;
@@ -420,6 +419,14 @@ class CodexSessionScannerImpl extends BaseSessionScanner<CodexSessionEvent> {
     }
 }
 
+/**
+ * Root of Codex rollout files (`$CODEX_HOME/sessions/YYYY/MM/DD/rollout-*.jsonl`).
+ */
+export function resolveCodexSessionsRoot(): string {
+    const codexHomeDir = process.env.CODEX_HOME || join(homedir(), '.codex');
+    return join(codexHomeDir, 'sessions');
+}
+
 async function sortFilesByMtime(files: string[]): Promise<string[]> {
     const entries = await Promise.all(files.map(async (file) => {
         try {
@@ -50,6 +50,9 @@ export function buildCodexStartConfig(args: {
             ? `${baseInstructions}\n\n${args.developerInstructions}`
             : baseInstructions
     };
+    if (args.mode.reasoningEffort) {
+        config.model_reasoning_effort = args.mode.reasoningEffort;
+    }
     const startConfig: CodexSessionConfig = {
         prompt,
         sandbox: resolvedSandbox,
@@ -0,0 +1,87 @@
+import chalk from 'chalk'
+import { toAcpAgentFlavor } from '@hapi/protocol'
+import type { AcpPermissionMode } from '@hapi/protocol/types'
+import { authAndSetupMachineIfNeeded } from '@/ui/auth'
+import { initializeToken } from '@/ui/tokenInit'
+import { maybeAutoStartServer } from '@/utils/autoStartServer'
+import { configuration } from '@/configuration'
+import type { CommandDefinition } from './types'
+
+export const acpCommand: CommandDefinition = {
+    name: 'acp',
+    requiresRuntimeAssets: true,
+    run: async ({ commandArgs }) => {
+        try {
+            const { readAcpAgentConfigs, registerAcpAgents } = await import('@/agent/acpAgents')
+            const { agents, errors } = await readAcpAgentConfigs()
+            for (const error of errors) {
+                console.error(chalk.yellow('Warning:'), `${error} (${configuration.settingsFile})`)
+            }
+
+            const name = commandArgs[0]
+            if (!name || name.startsWith('-')) {
+                if (agents.length === 0) {
+                    console.log(`No ACP agents configured. Add an "acpAgents" entry to ${configuration.settingsFile}.`)
+                    return
+                }
+                console.log(chalk.bold('ACP agents:'))
+                for (const agent of agents) {
+                    const label = agent.displayName ? ` (${agent.displayName})` : ''
+                    console.log(`  ${agent.name}${label}  ${chalk.gray([agent.command, ...agent.args].join(' '))}`)
+                }
+                console.log(`\nStart one with ${chalk.cyan('hapi acp <name>')}`)
+                return
+            }
+
+            const agent = agents.find((candidate) => candidate.name === name)
+            if (!agent) {
+                throw new Error(`Unknown ACP agent "${name}". Run "hapi acp" to list configured agents.`)
+            }
+
+            const flavor = toAcpAgentFlavor(agent.name)
+            const options: {
+                startedBy?: 'runner' | 'terminal'
+                permissionMode?: AcpPermissionMode
+            } = {}
+
+            for (let i = 1; i < commandArgs.length; i++) {
+                const arg = commandArgs[i]
+                if (arg === '--started-by') {
+                    options.startedBy = commandArgs[++i] as 'runner' | 'terminal'
+                } else if (arg === '--yolo') {
+                    options.permissionMode = 'yolo'
+                } else if (arg === '--permission-mode') {
+                    const value = commandArgs[++i]
+                    const mode = agent.permissionModes.find((candidate) => candidate === value)
+                    if (!mode) {
+                        throw new Error(`Invalid --permission-mode (expected ${agent.permissionModes.join(', ')})`)
+                    }
+                    options.permissionMode = mode
+                }
+            }
+
+            if (options.permissionMode && !agent.permissionModes.includes(options.permissionMode)) {
+                throw new Error(`Agent ${agent.name} does not allow the ${options.permissionMode} permission mode`)
+            }
+
+            await initializeToken()
+            await maybeAutoStartServer()
+            await authAndSetupMachineIfNeeded()
+
+            registerAcpAgents([agent])
+            const { runAgentSession } = await import('@/agent/runners/runAgentSession')
+            await runAgentSession({
+                agentType: flavor,
+                startedBy: options.startedBy,
+                permissionModes: agent.permissionModes,
+                permissionMode: options.permissionMode
+            })
+        } catch (error) {
+            console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+            if (process.env.DEBUG) {
+                console.error(error)
+            }
+            process.exit(1)
+        }
+    }
+}
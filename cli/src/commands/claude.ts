@@ -73,6 +73,7 @@ ${chalk.bold('Usage:')}
   hapi codex             Start Codex mode
   hapi gemini            Start Gemini ACP mode
   hapi opencode          Start OpenCode ACP mode
+  hapi acp [name]        List or start an ACP agent from settings.json
   hapi mcp               Start MCP stdio bridge
   hapi connect           (not available in direct-connect mode)
   hapi notify            (not available in direct-connect mode)
@@ -82,6 +83,8 @@ ${chalk.bold('Usage:')}
   hapi runner            Manage background service that allows
                             to spawn new sessions away from your computer
   hapi doctor            System diagnostics & troubleshooting
+  hapi export <id>       Export a session transcript (md, json, html)
+  hapi spawn -t <name>   Start a session from a session template
 
 ${chalk.bold('Examples:')}
   hapi                    Start session (will prompt for token if not set)
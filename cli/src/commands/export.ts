@@ -0,0 +1,112 @@
+import chalk from 'chalk'
+import axios from 'axios'
+import { extname } from 'node:path'
+import { writeFile } from 'node:fs/promises'
+import { ApiClient } from '@/api/api'
+import { initializeToken } from '@/ui/tokenInit'
+import type { CommandDefinition } from './types'
+
+const EXPORT_FORMATS = ['md', 'json', 'html'] as const
+type ExportFormat = typeof EXPORT_FORMATS[number]
+
+function isExportFormat(value: string): value is ExportFormat {
+    return (EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
+function showHelp(): void {
+    console.log(`
+${chalk.bold('hapi export')} - Export a session transcript
+
+${chalk.bold('Usage:')}
+  hapi export <sessionId> [--format md|json|html] [--output <file>]
+
+${chalk.bold('Options:')}
+  -f, --format <format>   Output format (default: md, or inferred from --output)
+  -o, --output <file>     Write to a file instead of stdout
+
+${chalk.bold('Examples:')}
+  hapi export 3f2a9c1e > transcript.md
+  hapi export 3f2a9c1e -o review.html
+`)
+}
+
+function describeRequestError(error: unknown): string {
+    if (axios.isAxiosError(error) && error.response) {
+        const data = error.response.data
+        try {
+            const parsed = typeof data === 'string' ? JSON.parse(data) : data
+            if (parsed && typeof parsed.error === 'string') {
+                return parsed.error
+            }
+        } catch {
+        }
+        return `Request failed with status ${error.response.status}`
+    }
+    return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export async function handleExportCommand(args: string[]): Promise<void> {
+    let sessionId: string | undefined
+    let format: string | undefined
+    let output: string | undefined
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        if (arg === '--help' || arg === '-h') {
+            showHelp()
+            return
+        }
+        if (arg === '--format' || arg === '-f') {
+            format = args[++i]
+        } else if (arg === '--output' || arg === '-o') {
+            output = args[++i]
+        } else if (!sessionId && !arg.startsWith('-')) {
+            sessionId = arg
+        } else {
+            throw new Error(`Unknown argument: ${arg}`)
+        }
+    }
+
+    if (!sessionId) {
+        showHelp()
+        process.exit(1)
+    }
+
+    const resolvedFormat = format ?? (output ? extname(output).slice(1).replace('markdown', 'md') : 'md')
+    if (!isExportFormat(resolvedFormat)) {
+        throw new Error(`Unsupported format: ${resolvedFormat} (expected md, json or html)`)
+    }
+
+    await initializeToken()
+    const api = await ApiClient.create()
+
+    let transcript: string
+    try {
+        transcript = await api.exportSession(sessionId, resolvedFormat)
+    } catch (error) {
+        throw new Error(`Failed to export session: ${describeRequestError(error)}`)
+    }
+
+    if (output) {
+        await writeFile(output, transcript, 'utf8')
+        console.error(chalk.green(`Transcript written to ${output}`))
+        return
+    }
+    process.stdout.write(transcript)
+}
+
+export const exportCommand: CommandDefinition = {
+    name: 'export',
+    requiresRuntimeAssets: false,
+    run: async ({ commandArgs }) => {
+        try {
+            await handleExportCommand(commandArgs)
+        } catch (error) {
+            console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+            if (process.env.DEBUG) {
+                console.error(error)
+            }
+            process.exit(1)
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import chalk from 'chalk'
 import type { CommandDefinition, CommandContext } from './types'
+import { handleHubMaintenanceCommand, isHubMaintenanceCommand } from './hubMaintenance'
 
 function parseHubArgs(args: string[]): { host?: string; port?: string } {
     const result: { host?: string; port?: string } = {}
@@ -25,6 +26,12 @@ export const hubCommand: CommandDefinition = {
     requiresRuntimeAssets: true,
     run: async (context: CommandContext) => {
         try {
+            const [maybeCommand, ...maintenanceArgs] = context.commandArgs
+            if (isHubMaintenanceCommand(maybeCommand)) {
+                await handleHubMaintenanceCommand(maybeCommand, maintenanceArgs)
+                return
+            }
+
             const { host, port } = parseHubArgs(context.commandArgs)
 
             if (host) {
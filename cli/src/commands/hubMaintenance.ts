@@ -0,0 +1,142 @@
+import chalk from 'chalk'
+import { resolve } from 'node:path'
+
+export const HUB_MAINTENANCE_COMMANDS = ['backup', 'restore', 'compact'] as const
+export type HubMaintenanceCommand = typeof HUB_MAINTENANCE_COMMANDS[number]
+
+export function isHubMaintenanceCommand(value: string | undefined): value is HubMaintenanceCommand {
+    return value !== undefined && (HUB_MAINTENANCE_COMMANDS as readonly string[]).includes(value)
+}
+
+function showHelp(): void {
+    console.log(`
+${chalk.bold('hapi hub')} - Database maintenance
+
+${chalk.bold('Usage:')}
+  hapi hub backup [file]                  Write an online backup of the hub database
+  hapi hub restore <file> [--force]       Replace the hub database with a backup
+  hapi hub compact [--days N] [--dry-run] Prune messages of inactive sessions and VACUUM
+
+${chalk.bold('Options:')}
+  --force      Restore even though a hub answers on the configured port
+  --days N     Prune sessions idle for more than N days (default: HAPI_MESSAGE_RETENTION_DAYS)
+  --dry-run    Report what compact would delete without changing anything
+
+Without a file, backup writes a timestamped copy to {HAPI_HOME}/backups and
+rotates it like the automatic backups (HAPI_BACKUP_KEEP).
+
+${chalk.bold('Examples:')}
+  hapi hub backup ~/hapi-before-upgrade.db
+  hapi hub restore ~/.hapi/backups/hapi-20260101-120000.db
+  hapi hub compact --days 30 --dry-run
+`)
+}
+
+function formatBytes(bytes: number | null): string {
+    if (bytes === null) {
+        return '?'
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// A hub holding the database open would keep writing to the replaced file
+async function isHubRunning(host: string, port: number): Promise<boolean> {
+    const probeHost = host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host
+    try {
+        const response = await fetch(`http://${probeHost}:${port}/health`, { signal: AbortSignal.timeout(1_000) })
+        return response.ok
+    } catch {
+        return false
+    }
+}
+
+export async function handleHubMaintenanceCommand(command: HubMaintenanceCommand, args: string[]): Promise<void> {
+    let file: string | undefined
+    let force = false
+    let dryRun = false
+    let days: number | undefined
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        if (arg === '--help' || arg === '-h') {
+            showHelp()
+            return
+        }
+        if (arg === '--force') {
+            force = true
+        } else if (arg === '--dry-run') {
+            dryRun = true
+        } else if (arg === '--days' || arg.startsWith('--days=')) {
+            const value = arg === '--days' ? args[++i] : arg.slice('--days='.length)
+            days = Number(value)
+            if (!Number.isInteger(days) || days < 1) {
+                throw new Error(`--days must be a positive whole number, got: ${value}`)
+            }
+        } else if (!file && !arg.startsWith('-')) {
+            file = resolve(arg)
+        } else {
+            throw new Error(`Unknown argument: ${arg}`)
+        }
+    }
+
+    const { createConfiguration } = await import('../../../hub/src/configuration')
+    const config = await createConfiguration()
+
+    if (command === 'backup') {
+        const { Store } = await import('../../../hub/src/store')
+        const store = new Store(config.dbPath)
+        try {
+            if (file) {
+                store.maintenance.backup(file)
+                console.log(chalk.green('✓'), `Backed up ${config.dbPath} to ${file}`)
+            } else {
+                const { createBackup } = await import('../../../hub/src/maintenance/backups')
+                const backup = createBackup(store, config.backupDir, config.backupKeep)
+                console.log(chalk.green('✓'), `Backed up ${config.dbPath} to ${backup.path} (${formatBytes(backup.size)})`)
+            }
+        } finally {
+            store.close()
+        }
+        return
+    }
+
+    if (command === 'restore') {
+        if (!file) {
+            showHelp()
+            process.exit(1)
+        }
+        if (!force && await isHubRunning(config.listenHost, config.listenPort)) {
+            throw new Error(`A hub is running on port ${config.listenPort}. Stop it before restoring, or pass --force.`)
+        }
+        const { restoreDatabase } = await import('../../../hub/src/maintenance/backups')
+        const result = restoreDatabase(file, config.dbPath)
+        console.log(chalk.green('✓'), `Restored ${file} (schema v${result.schemaVersion}) to ${config.dbPath}`)
+        if (result.previousPath) {
+            console.log(chalk.gray(`  Previous database kept at ${result.previousPath}`))
+        }
+        return
+    }
+
+    const retentionDays = days ?? config.messageRetentionDays
+    if (retentionDays <= 0) {
+        throw new Error('Pass --days N or set HAPI_MESSAGE_RETENTION_DAYS to choose which sessions to prune')
+    }
+    const { Store } = await import('../../../hub/src/store')
+    const { compactDatabase } = await import('../../../hub/src/maintenance/compaction')
+    const store = new Store(config.dbPath)
+    try {
+        const result = compactDatabase(store, config.dbPath, retentionDays, { dryRun })
+        const summary = `${result.messages} messages from ${result.sessions} sessions inactive for more than ${retentionDays} days`
+        if (dryRun) {
+            console.log(`Would delete ${summary}`)
+            return
+        }
+        console.log(chalk.green('✓'), `Deleted ${summary}`)
+        console.log(chalk.gray(`  Database size: ${formatBytes(result.sizeBefore)} → ${formatBytes(result.sizeAfter)}`))
+    } finally {
+        store.close()
+    }
+}
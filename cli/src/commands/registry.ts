@@ -1,15 +1,18 @@
+import { acpCommand } from './acp'
 import { authCommand } from './auth'
 import { claudeCommand } from './claude'
 import { codexCommand } from './codex'
 import { connectCommand } from './connect'
 import { runnerCommand } from './runner'
 import { doctorCommand } from './doctor'
+import { exportCommand } from './export'
 import { geminiCommand } from './gemini'
 import { opencodeCommand } from './opencode'
 import { hookForwarderCommand } from './hookForwarder'
 import { mcpCommand } from './mcp'
 import { notifyCommand } from './notify'
 import { hubCommand } from './hub'
+import { spawnCommand } from './spawn'
 import type { CommandContext, CommandDefinition } from './types'
 
 const COMMANDS: CommandDefinition[] = [
@@ -18,11 +21,14 @@ const COMMANDS: CommandDefinition[] = [
     codexCommand,
     geminiCommand,
     opencodeCommand,
+    acpCommand,
     mcpCommand,
     hubCommand,
     { ...hubCommand, name: 'server' },
     hookForwarderCommand,
     doctorCommand,
+    exportCommand,
+    spawnCommand,
     runnerCommand,
     notifyCommand
 ]
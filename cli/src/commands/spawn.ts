@@ -0,0 +1,124 @@
+import chalk from 'chalk'
+import axios from 'axios'
+import { ApiClient } from '@/api/api'
+import { initializeToken } from '@/ui/tokenInit'
+import type { CommandDefinition } from './types'
+
+function showHelp(): void {
+    console.log(`
+${chalk.bold('hapi spawn')} - Start a session from a session template
+
+${chalk.bold('Usage:')}
+  hapi spawn --template <name> [--machine <id>]
+  hapi spawn --list
+
+${chalk.bold('Options:')}
+  -t, --template <name>   Template name (case-insensitive) or id
+  -m, --machine <id>      Spawn on this machine instead of the template's
+  -l, --list              List the templates of your namespace
+
+Templates are created in the web app under Settings. Spawning requires the admin role.
+
+${chalk.bold('Examples:')}
+  hapi spawn --template "Fix bugs"
+  hapi spawn -t review -m 5c1d0a7e
+`)
+}
+
+function describeRequestError(error: unknown): string {
+    if (axios.isAxiosError(error) && error.response) {
+        const data = error.response.data
+        if (data && typeof data.error === 'string') {
+            return data.error
+        }
+        return `Request failed with status ${error.response.status}`
+    }
+    return error instanceof Error ? error.message : 'Unknown error'
+}
+
+export async function handleSpawnCommand(args: string[]): Promise<void> {
+    let templateQuery: string | undefined
+    let machineId: string | undefined
+    let list = false
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]
+        if (arg === '--help' || arg === '-h') {
+            showHelp()
+            return
+        }
+        if (arg === '--template' || arg === '-t') {
+            templateQuery = args[++i]
+        } else if (arg === '--machine' || arg === '-m') {
+            machineId = args[++i]
+        } else if (arg === '--list' || arg === '-l') {
+            list = true
+        } else {
+            throw new Error(`Unknown argument: ${arg}`)
+        }
+    }
+
+    if (!list && !templateQuery) {
+        showHelp()
+        process.exit(1)
+    }
+
+    await initializeToken()
+    const api = await ApiClient.create()
+
+    let templates
+    try {
+        templates = await api.listSessionTemplates()
+    } catch (error) {
+        throw new Error(`Failed to load templates: ${describeRequestError(error)}`)
+    }
+
+    if (list) {
+        if (templates.length === 0) {
+            console.log('No session templates. Create them in the web app under Settings.')
+            return
+        }
+        for (const template of templates) {
+            console.log(`${chalk.bold(template.name)}  ${chalk.gray(`[${template.agent}] ${template.directory}`)}`)
+        }
+        return
+    }
+
+    const query = templateQuery!.toLowerCase()
+    const template = templates.find((t) => t.id === templateQuery)
+        ?? templates.find((t) => t.name.toLowerCase() === query)
+    if (!template) {
+        throw new Error(`No template named "${templateQuery}". Run hapi spawn --list to see them.`)
+    }
+
+    let result
+    try {
+        result = await api.spawnSessionFromTemplate(machineId ?? template.machineId, template.id)
+    } catch (error) {
+        throw new Error(`Failed to spawn session: ${describeRequestError(error)}`)
+    }
+
+    if (result.type === 'error') {
+        throw new Error(`Failed to spawn session: ${result.message}`)
+    }
+    console.log(chalk.green(`Spawned session ${result.sessionId} from ${template.name}`))
+    if (result.warning) {
+        console.error(chalk.yellow(`Warning: ${result.warning}`))
+    }
+}
+
+export const spawnCommand: CommandDefinition = {
+    name: 'spawn',
+    requiresRuntimeAssets: false,
+    run: async ({ commandArgs }) => {
+        try {
+            await handleSpawnCommand(commandArgs)
+        } catch (error) {
+            console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+            if (process.env.DEBUG) {
+                console.error(error)
+            }
+            process.exit(1)
+        }
+    }
+}
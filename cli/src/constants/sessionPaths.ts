@@ -0,0 +1,18 @@
+import { join } from 'path'
+import { configuration } from '@/configuration'
+import { OUTBOX_JOURNAL_FILE } from '@/api/outboxJournal'
+
+/**
+ * Per-session files the CLI keeps after the session ends, under HAPI_HOME
+ */
+export function getSessionDataDir(sessionId: string): string {
+    return join(configuration.happyHomeDir, 'sessions', sessionId)
+}
+
+export function getTerminalRecordingsDir(sessionId: string): string {
+    return join(getSessionDataDir(sessionId), 'recordings')
+}
+
+export function getOutboxJournalPath(sessionId: string): string {
+    return join(getSessionDataDir(sessionId), OUTBOX_JOURNAL_FILE)
+}
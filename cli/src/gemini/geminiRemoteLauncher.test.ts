@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MessageQueue2 } from '@/utils/MessageQueue2';
+import type { GeminiSession } from './session';
+import type { GeminiMode } from './types';
+
+const backendState = vi.hoisted(() => ({
+    prompts: [] as Array<{ text: string; queued: string[] }>,
+    queue: null as { list: () => Array<{ message: string }> } | null,
+    releaseBusyTurn: null as (() => void) | null
+}));
+
+vi.mock('@/codex/utils/buildHapiMcpBridge', () => ({
+    buildHapiMcpBridge: async () => ({ server: { stop: () => {} }, mcpServers: {} })
+}));
+
+vi.mock('./utils/geminiBackend', () => ({
+    createGeminiBackend: () => ({
+        onStderrError: () => {},
+        onPermissionRequest: () => {},
+        initialize: async () => {},
+        newSession: async () => 'acp-session',
+        getSessionModels: () => null,
+        disconnect: async () => {},
+        cancelPrompt: async () => {
+            backendState.releaseBusyTurn?.();
+        },
+        prompt: async (_sessionId: string, content: Array<{ text: string }>) => {
+            const text = content[0]?.text ?? '';
+            backendState.prompts.push({
+                text,
+                queued: backendState.queue?.list().map((item) => item.message) ?? []
+            });
+            // The first turn keeps the agent busy until it is interrupted
+            if (text === 'first') {
+                await new Promise<void>((resolve) => {
+                    backendState.releaseBusyTurn = resolve;
+                });
+            }
+        }
+    })
+}));
+
+vi.mock('./utils/config', () => ({
+    resolveGeminiRuntimeConfig: () => ({ model: 'gemini-test' })
+}));
+
+import { geminiRemoteLauncher } from './geminiRemoteLauncher';
+
+function createSession(queue: MessageQueue2<GeminiMode>) {
+    const handlers = new Map<string, (params: unknown) => Promise<unknown>>();
+    const session = {
+        sessionId: null as string | null,
+        path: '/tmp',
+        logPath: '/tmp/gemini-test.log',
+        queue,
+        client: {
+            rpcHandlerManager: {
+                registerHandler: (method: string, handler: (params: unknown) => Promise<unknown>) => {
+                    handlers.set(method, handler);
+                }
+            },
+            updateMetadata: () => {},
+            updateAgentState: () => {}
+        },
+        onSessionFound(id: string) {
+            session.sessionId = id;
+        },
+        getPermissionMode: () => 'default',
+        sendSessionEvent: () => {},
+        sendCodexMessage: () => {},
+        onThinkingChange: () => {}
+    };
+    return { session: session as unknown as GeminiSession, handlers };
+}
+
+function waitForTurns(count: number): Promise<void> {
+    return vi.waitFor(() => {
+        expect(backendState.prompts.length).toBeGreaterThanOrEqual(count);
+    });
+}
+
+describe('geminiRemoteLauncher', () => {
+    it('keeps the queue when a queued prompt is sent now', async () => {
+        const queue = new MessageQueue2<GeminiMode>((mode) => mode.permissionMode);
+        backendState.queue = queue;
+        const { session, handlers } = createSession(queue);
+        const mode: GeminiMode = { permissionMode: 'default' };
+
+        const launched = geminiRemoteLauncher(session, {});
+        queue.push('first', mode);
+        await waitForTurns(1);
+
+        queue.push('second', mode);
+        queue.push('third', mode);
+        const third = queue.list().find((item) => item.message === 'third');
+        expect(queue.prioritize(third!.id)).toBe(true);
+        await handlers.get('abort')!({ reason: 'send now', preserveQueue: true });
+
+        await waitForTurns(3);
+        queue.close();
+        expect(await launched).toBe('exit');
+
+        expect(backendState.prompts).toEqual([
+            { text: 'first', queued: [] },
+            { text: 'third', queued: ['second'] },
+            { text: 'second', queued: [] }
+        ]);
+    });
+});
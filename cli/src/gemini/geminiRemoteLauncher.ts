@@ -3,13 +3,19 @@ import { logger } from '@/ui/logger';
 import { buildHapiMcpBridge } from '@/codex/utils/buildHapiMcpBridge';
 import { convertAgentMessage } from '@/agent/messageConverter';
 import type { AgentMessage, McpServerStdio, PromptContent } from '@/agent/types';
-import { RemoteLauncherBase, type RemoteLauncherDisplayContext, type RemoteLauncherExitReason } from '@/modules/common/remote/RemoteLauncherBase';
+import {
+    RemoteLauncherBase,
+    type RemoteLauncherAbortOptions,
+    type RemoteLauncherDisplayContext,
+    type RemoteLauncherExitReason
+} from '@/modules/common/remote/RemoteLauncherBase';
 import { GeminiDisplay } from '@/ui/ink/GeminiDisplay';
 import type { GeminiSession } from './session';
 import type { PermissionMode } from './types';
 import { createGeminiBackend } from './utils/geminiBackend';
 import { GeminiPermissionHandler } from './utils/permissionHandler';
 import { resolveGeminiRuntimeConfig } from './utils/config';
+import { publishModelCatalog, switchSessionModel, toModelCatalog } from '@/agent/modelCatalog';
 
 class GeminiRemoteLauncher extends RemoteLauncherBase {
     private readonly session: GeminiSession;
@@ -62,7 +68,7 @@ class GeminiRemoteLauncher extends RemoteLauncherBase {
 
         backend.onStderrError((error) => {
             logger.debug('[gemini-remote] stderr error', error);
-            session.sendSessionEvent({ type: 'message', message: error.message });
+            session.sendSessionEvent({ type: 'error', message: error.message });
             messageBuffer.addMessage(error.message, 'status');
         });
 
@@ -74,6 +80,12 @@ class GeminiRemoteLauncher extends RemoteLauncherBase {
         });
         session.onSessionFound(acpSessionId);
 
+        const sessionModels = backend.getSessionModels();
+        // Without ACP model selection the model is fixed for the process
+        publishModelCatalog(session.client, sessionModels
+            ? toModelCatalog(sessionModels)
+            : { models: [{ id: runtimeConfig.model }], switchable: false });
+
         this.permissionHandler = new GeminiPermissionHandler(
             session.client,
             backend,
@@ -82,7 +94,7 @@ class GeminiRemoteLauncher extends RemoteLauncherBase {
         this.applyDisplayMode(session.getPermissionMode() as PermissionMode, runtimeConfig.model);
 
         this.setupAbortHandlers(session.client.rpcHandlerManager, {
-            onAbort: () => this.handleAbort(),
+            onAbort: (options) => this.handleAbort(options),
             onSwitch: () => this.handleSwitchRequest()
         });
 
@@ -99,6 +111,12 @@ class GeminiRemoteLauncher extends RemoteLauncherBase {
                 break;
             }
 
+            try {
+                await switchSessionModel(backend, acpSessionId, batch.mode.model ?? null);
+            } catch (error) {
+                logger.warn('[gemini-remote] model switch failed', error);
+                session.sendSessionEvent({ type: 'message', message: 'Switching the Gemini model failed.' });
+            }
             this.applyDisplayMode(batch.mode.permissionMode, batch.mode.model);
             messageBuffer.addMessage(batch.message, 'user');
 
@@ -168,12 +186,24 @@ class GeminiRemoteLauncher extends RemoteLauncherBase {
             case 'plan':
                 this.messageBuffer.addMessage('Plan updated', 'status');
                 break;
+            case 'terminal_output':
+                if (message.output) {
+                    this.messageBuffer.addMessage(message.output, 'tool');
+                }
+                break;
             case 'error':
                 this.messageBuffer.addMessage(message.message, 'status');
                 break;
             case 'turn_complete':
                 this.messageBuffer.addMessage('Turn complete', 'status');
                 break;
+            case 'usage':
+                this.session.sendSessionEvent({
+                    type: 'usage',
+                    ...message.usage,
+                    model: message.usage.model ?? this.displayModel ?? null
+                });
+                break;
             default: {
                 const _exhaustive: never = message;
                 return _exhaustive;
@@ -192,13 +222,15 @@ class GeminiRemoteLauncher extends RemoteLauncherBase {
         }
     }
 
-    private async handleAbort(): Promise<void> {
+    private async handleAbort(options: RemoteLauncherAbortOptions = {}): Promise<void> {
         const backend = this.backend;
         if (backend && this.session.sessionId) {
             await backend.cancelPrompt(this.session.sessionId);
         }
         await this.permissionHandler?.cancelAll('User aborted');
-        this.session.queue.reset();
+        if (!options.preserveQueue) {
+            this.session.queue.reset();
+        }
         this.session.onThinkingChange(false);
         this.abortController.abort();
         this.abortController = new AbortController();
@@ -1,6 +1,7 @@
 import { logger } from '@/ui/logger';
 import { geminiLoop } from './loop';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
+import { attachMessageQueue } from '@/agent/messageQueueSync';
 import { hashObject } from '@/utils/deterministicJson';
 import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
 import type { AgentState } from '@/api/types';
@@ -12,7 +13,7 @@ import { startHookServer } from '@/claude/utils/startHookServer';
 import { cleanupHookSettingsFile, generateHookSettingsFile } from '@/modules/common/hooks/generateHookSettings';
 import { resolveGeminiRuntimeConfig } from './utils/config';
 import { isPermissionModeAllowedForFlavor } from '@hapi/protocol';
-import { PermissionModeSchema } from '@hapi/protocol/schemas';
+import { ModelModeSchema, PermissionModeSchema } from '@hapi/protocol/schemas';
 import { formatMessageWithAttachments } from '@/utils/attachmentFormatter';
 
 export async function runGemini(opts: {
@@ -51,10 +52,13 @@ export async function runGemini(opts: {
         permissionMode: mode.permissionMode,
         model: mode.model
     }));
+    attachMessageQueue(session, messageQueue);
 
     const sessionWrapperRef: { current: GeminiSession | null } = { current: null };
     let currentPermissionMode: PermissionMode = opts.permissionMode ?? 'yolo';
     const resolvedModel = resolveGeminiRuntimeConfig({ model: opts.model }).model;
+    // undefined keeps the model the session started with
+    let currentModel: string | undefined;
 
     const hookServer = await startHookServer({
         onSessionHook: (sessionId, data) => {
@@ -97,14 +101,15 @@ export async function runGemini(opts: {
             return;
         }
         sessionInstance.setPermissionMode(currentPermissionMode);
-        logger.debug(`[gemini] Synced session permission mode for keepalive: ${currentPermissionMode}`);
+        sessionInstance.setModelMode(currentModel ?? 'default');
+        logger.debug(`[gemini] Synced session modes for keepalive: permissionMode=${currentPermissionMode}, model=${currentModel ?? 'default'}`);
     };
 
     session.onUserMessage((message) => {
         const formattedText = formatMessageWithAttachments(message.content.text, message.content.attachments);
         const mode: GeminiMode = {
             permissionMode: currentPermissionMode,
-            model: resolvedModel
+            model: currentModel ?? resolvedModel
         };
         messageQueue.push(formattedText, mode);
     });
@@ -121,14 +126,22 @@ export async function runGemini(opts: {
         if (!payload || typeof payload !== 'object') {
             throw new Error('Invalid session config payload');
         }
-        const config = payload as { permissionMode?: unknown };
+        const config = payload as { permissionMode?: unknown; modelMode?: unknown };
 
         if (config.permissionMode !== undefined) {
             currentPermissionMode = resolvePermissionMode(config.permissionMode);
         }
 
+        if (config.modelMode !== undefined) {
+            const parsed = ModelModeSchema.safeParse(config.modelMode);
+            if (!parsed.success) {
+                throw new Error('Invalid model mode');
+            }
+            currentModel = parsed.data === 'default' ? undefined : parsed.data;
+        }
+
         syncSessionMode();
-        return { applied: { permissionMode: currentPermissionMode } };
+        return { applied: { permissionMode: currentPermissionMode, modelMode: currentModel ?? 'default' } };
     });
 
     try {
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { randomUUID } from 'crypto'
+import {
+    listAgentSessionFiles,
+    readAgentSessionChunk,
+    resolveBundlePath,
+    restoreAgentSession,
+    rewriteSessionPaths,
+    stageAgentSessionChunk
+} from './agentSessionFiles'
+
+async function createTempDir(prefix: string): Promise<string> {
+    const path = join(tmpdir(), `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`)
+    await mkdir(path, { recursive: true })
+    return path
+}
+
+describe('agent session files', () => {
+    let rootDir: string
+    const savedEnv = { ...process.env }
+
+    beforeEach(async () => {
+        rootDir = await createTempDir('hapi-handoff')
+        process.env.CLAUDE_CONFIG_DIR = join(rootDir, 'source-claude')
+        process.env.CODEX_HOME = join(rootDir, 'source-codex')
+        process.env.XDG_DATA_HOME = join(rootDir, 'source-data')
+    })
+
+    afterEach(async () => {
+        process.env = { ...savedEnv }
+        await rm(rootDir, { recursive: true, force: true })
+    })
+
+    it('lists a Claude transcript with its subagent files', async () => {
+        const projectDir = join(rootDir, 'source-claude', 'projects', '-work-repo')
+        await mkdir(join(projectDir, 'abc-123', 'subagents'), { recursive: true })
+        await writeFile(join(projectDir, 'abc-123.jsonl'), '{"cwd":"/work/repo"}\n')
+        await writeFile(join(projectDir, 'abc-123', 'subagents', 'agent-1.jsonl'), '{}\n')
+        await writeFile(join(projectDir, 'other.jsonl'), '{}\n')
+
+        const files = await listAgentSessionFiles('claude', 'abc-123', '/work/repo')
+
+        expect(files.map((file) => file.path).sort()).toEqual(['abc-123.jsonl', 'abc-123/subagents/agent-1.jsonl'])
+    })
+
+    it('finds the Codex rollout by session id', async () => {
+        const dayDir = join(rootDir, 'source-codex', 'sessions', '2026', '03', '05')
+        await mkdir(dayDir, { recursive: true })
+        await writeFile(join(dayDir, 'rollout-2026-03-05T09-00-00-sess-1.jsonl'), '{}\n')
+
+        const files = await listAgentSessionFiles('codex', 'sess-1', '/work/repo')
+
+        expect(files).toEqual([{ path: '2026/03/05/rollout-2026-03-05T09-00-00-sess-1.jsonl', size: 3 }])
+    })
+
+    it('collects the OpenCode session, message and part files', async () => {
+        const storage = join(rootDir, 'source-data', 'opencode', 'storage')
+        await mkdir(join(storage, 'session', 'proj'), { recursive: true })
+        await mkdir(join(storage, 'message', 'ses_1'), { recursive: true })
+        await mkdir(join(storage, 'part', 'msg_1'), { recursive: true })
+        await writeFile(join(storage, 'session', 'proj', 'ses_1.json'), '{}')
+        await writeFile(join(storage, 'message', 'ses_1', 'msg_1.json'), '{}')
+        await writeFile(join(storage, 'part', 'msg_1', 'prt_1.json'), '{}')
+
+        const files = await listAgentSessionFiles('opencode', 'ses_1', '/work/repo')
+
+        expect(files.map((file) => file.path).sort()).toEqual([
+            'message/ses_1/msg_1.json',
+            'part/msg_1/prt_1.json',
+            'session/proj/ses_1.json'
+        ])
+    })
+
+    it('fails when the session has no files', async () => {
+        await expect(listAgentSessionFiles('claude', 'missing', '/work/repo')).rejects.toThrow('No claude session files found')
+        await expect(listAgentSessionFiles('claude', '../escape', '/work/repo')).rejects.toThrow('Invalid agent session id')
+    })
+
+    it('copies a Claude session into the target project directory with rewritten paths', async () => {
+        const projectDir = join(rootDir, 'source-claude', 'projects', '-work-repo')
+        await mkdir(projectDir, { recursive: true })
+        const transcript = '{"cwd":"/work/repo","file":"/work/repo/src/a.ts","other":"/work/repo-old"}\n'
+        await writeFile(join(projectDir, 'abc.jsonl'), transcript)
+
+        const stagingRoot = join(rootDir, 'staging')
+        const transferId = randomUUID()
+        for (const file of await listAgentSessionFiles('claude', 'abc', '/work/repo')) {
+            let offset = 0
+            for (;;) {
+                const chunk = await readAgentSessionChunk('claude', '/work/repo', file.path, offset)
+                await stageAgentSessionChunk(transferId, file.path, offset, chunk.content, stagingRoot)
+                offset += chunk.content.length
+                if (chunk.eof) break
+            }
+        }
+
+        process.env.CLAUDE_CONFIG_DIR = join(rootDir, 'target-claude')
+        const restored = await restoreAgentSession(transferId, 'claude', '/work/repo', '/home/me/repo', stagingRoot)
+
+        expect(restored).toBe(1)
+        const copied = await readFile(join(rootDir, 'target-claude', 'projects', '-home-me-repo', 'abc.jsonl'), 'utf8')
+        expect(copied).toBe('{"cwd":"/home/me/repo","file":"/home/me/repo/src/a.ts","other":"/work/repo-old"}\n')
+        expect(existsSync(join(stagingRoot, transferId))).toBe(false)
+    })
+
+    it('rejects out-of-order chunks and escaping paths', async () => {
+        const stagingRoot = join(rootDir, 'staging')
+        const transferId = randomUUID()
+        await expect(stageAgentSessionChunk(transferId, 'a.jsonl', 10, Buffer.from('x'), stagingRoot)).rejects.toThrow('expected at offset 0')
+        await expect(stageAgentSessionChunk(transferId, '../a.jsonl', 0, Buffer.from('x'), stagingRoot)).rejects.toThrow('Invalid session file path')
+        await expect(stageAgentSessionChunk('not-a-uuid', 'a.jsonl', 0, Buffer.from('x'), stagingRoot)).rejects.toThrow('Invalid transfer id')
+    })
+})
+
+describe('resolveBundlePath', () => {
+    it('keeps paths inside the root', () => {
+        expect(resolveBundlePath('/root', 'a/b.json')).toBe(join('/root', 'a', 'b.json'))
+        expect(resolveBundlePath('/root', '../b.json')).toBeNull()
+        expect(resolveBundlePath('/root', '/etc/passwd')).toBeNull()
+        expect(resolveBundlePath('/root', 'a//b')).toBeNull()
+    })
+})
+
+describe('rewriteSessionPaths', () => {
+    it('rewrites JSON-escaped Windows paths', () => {
+        const text = JSON.stringify({ cwd: 'C:\\work\\repo', file: 'C:\\work\\repo\\a.ts' })
+        const rewritten = rewriteSessionPaths(text, 'C:\\work\\repo', 'D:\\repo')
+        expect(JSON.parse(rewritten)).toEqual({ cwd: 'D:\\repo', file: 'D:\\repo\\a.ts' })
+    })
+
+    it('leaves the text alone when the directory is unchanged', () => {
+        expect(rewriteSessionPaths('/work/repo', '/work/repo', '/work/repo')).toBe('/work/repo')
+    })
+})
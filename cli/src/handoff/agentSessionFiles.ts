@@ -0,0 +1,295 @@
+/**
+ * Agent-native session files for cross-machine handoff.
+ *
+ * A session's transcript lives where its agent keeps it: the Claude project
+ * directory, the Codex rollout tree or the OpenCode storage directory. The
+ * source machine lists and reads those files in chunks; the target machine
+ * stages the chunks and restores them under its own roots, rewriting the
+ * session's working directory to the target directory on the way.
+ */
+
+import { appendFile, mkdir, open, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises'
+import { dirname, isAbsolute, join, relative, sep } from 'node:path'
+import { configuration } from '@/configuration'
+import { getProjectPath } from '@/claude/utils/path'
+import { resolveCodexSessionsRoot } from '@/codex/utils/codexSessionScanner'
+import { resolveOpencodeStorageDir } from '@/opencode/utils/opencodeStorageScanner'
+
+export const HANDOFF_FLAVORS = ['claude', 'codex', 'opencode'] as const
+export type HandoffFlavor = typeof HANDOFF_FLAVORS[number]
+
+/** A file of a session bundle; `path` is relative to the flavor's root and uses `/` */
+export type AgentSessionFile = {
+    path: string
+    size: number
+}
+
+export const MAX_HANDOFF_CHUNK_BYTES = 512 * 1024
+export const MAX_HANDOFF_BYTES = 200 * 1024 * 1024
+
+const RESUME_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+const TRANSFER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export function isHandoffFlavor(value: unknown): value is HandoffFlavor {
+    return typeof value === 'string' && (HANDOFF_FLAVORS as readonly string[]).includes(value)
+}
+
+export function getHandoffStagingRoot(): string {
+    return join(configuration.happyHomeDir, 'handoff')
+}
+
+/**
+ * The directory a flavor's session files are relative to. Only Claude's
+ * depends on the session directory.
+ */
+export function getAgentSessionRoot(flavor: HandoffFlavor, directory: string): string {
+    switch (flavor) {
+        case 'claude':
+            return getProjectPath(directory)
+        case 'codex':
+            return resolveCodexSessionsRoot()
+        case 'opencode':
+            return resolveOpencodeStorageDir()
+    }
+}
+
+/**
+ * Resolves a bundle path under a root, refusing paths that would escape it
+ */
+export function resolveBundlePath(root: string, path: string): string | null {
+    if (!path || isAbsolute(path) || path.includes('\\')) {
+        return null
+    }
+    const segments = path.split('/')
+    if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+        return null
+    }
+    return join(root, ...segments)
+}
+
+async function safeReadDirNames(dir: string, kind: 'file' | 'directory'): Promise<string[]> {
+    try {
+        const entries = await readdir(dir, { withFileTypes: true })
+        return entries
+            .filter((entry) => kind === 'file' ? entry.isFile() : entry.isDirectory())
+            .map((entry) => entry.name)
+    } catch {
+        return []
+    }
+}
+
+async function listFilesRecursive(dir: string): Promise<string[]> {
+    const files = (await safeReadDirNames(dir, 'file')).map((name) => join(dir, name))
+    for (const name of await safeReadDirNames(dir, 'directory')) {
+        files.push(...await listFilesRecursive(join(dir, name)))
+    }
+    return files
+}
+
+async function isFile(path: string): Promise<boolean> {
+    try {
+        return (await stat(path)).isFile()
+    } catch {
+        return false
+    }
+}
+
+async function findCodexRollout(dir: string, suffix: string): Promise<string | null> {
+    for (const name of await safeReadDirNames(dir, 'file')) {
+        if (name.endsWith(suffix)) {
+            return join(dir, name)
+        }
+    }
+    for (const name of await safeReadDirNames(dir, 'directory')) {
+        const found = await findCodexRollout(join(dir, name), suffix)
+        if (found) {
+            return found
+        }
+    }
+    return null
+}
+
+async function findSessionFiles(flavor: HandoffFlavor, root: string, resumeId: string): Promise<string[]> {
+    switch (flavor) {
+        case 'claude': {
+            // <projectDir>/<id>.jsonl plus the <id>/ directory for subagent transcripts
+            const transcript = join(root, `${resumeId}.jsonl`)
+            if (!await isFile(transcript)) {
+                return []
+            }
+            return [transcript, ...await listFilesRecursive(join(root, resumeId))]
+        }
+        case 'codex': {
+            const rollout = await findCodexRollout(root, `-${resumeId}.jsonl`)
+            return rollout ? [rollout] : []
+        }
+        case 'opencode': {
+            // session/<project>/<id>.json, message/<id>/<msg>.json, part/<msg>/<part>.json
+            const files: string[] = []
+            for (const project of await safeReadDirNames(join(root, 'session'), 'directory')) {
+                const info = join(root, 'session', project, `${resumeId}.json`)
+                if (await isFile(info)) {
+                    files.push(info)
+                }
+            }
+            if (files.length === 0) {
+                return []
+            }
+            const messageDir = join(root, 'message', resumeId)
+            for (const name of await safeReadDirNames(messageDir, 'file')) {
+                files.push(join(messageDir, name))
+                if (name.endsWith('.json')) {
+                    files.push(...await listFilesRecursive(join(root, 'part', name.slice(0, -5))))
+                }
+            }
+            return files
+        }
+    }
+}
+
+/**
+ * Lists the files that make up an agent session on this machine
+ */
+export async function listAgentSessionFiles(
+    flavor: HandoffFlavor,
+    resumeId: string,
+    directory: string
+): Promise<AgentSessionFile[]> {
+    if (!RESUME_ID_PATTERN.test(resumeId)) {
+        throw new Error('Invalid agent session id')
+    }
+    const root = getAgentSessionRoot(flavor, directory)
+    const paths = await findSessionFiles(flavor, root, resumeId)
+    if (paths.length === 0) {
+        throw new Error(`No ${flavor} session files found for ${resumeId}`)
+    }
+
+    return await Promise.all(paths.map(async (path) => ({
+        path: relative(root, path).split(sep).join('/'),
+        size: (await stat(path)).size
+    })))
+}
+
+export async function readAgentSessionChunk(
+    flavor: HandoffFlavor,
+    directory: string,
+    path: string,
+    offset: number
+): Promise<{ content: Buffer; size: number; eof: boolean }> {
+    const filePath = resolveBundlePath(getAgentSessionRoot(flavor, directory), path)
+    if (!filePath) {
+        throw new Error('Invalid session file path')
+    }
+
+    const handle = await open(filePath, 'r')
+    try {
+        const { size } = await handle.stat()
+        const start = Math.min(Math.max(0, offset), size)
+        const buffer = Buffer.alloc(Math.min(MAX_HANDOFF_CHUNK_BYTES, size - start))
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start)
+        return { content: buffer.subarray(0, bytesRead), size, eof: start + bytesRead >= size }
+    } finally {
+        await handle.close()
+    }
+}
+
+function getStagingDir(stagingRoot: string, transferId: string): string {
+    if (!TRANSFER_ID_PATTERN.test(transferId)) {
+        throw new Error('Invalid transfer id')
+    }
+    return join(stagingRoot, transferId)
+}
+
+/**
+ * Appends a chunk to a staged file. Chunks must arrive in order; offset 0
+ * starts the file over.
+ */
+export async function stageAgentSessionChunk(
+    transferId: string,
+    path: string,
+    offset: number,
+    content: Buffer,
+    stagingRoot: string = getHandoffStagingRoot()
+): Promise<void> {
+    const filePath = resolveBundlePath(getStagingDir(stagingRoot, transferId), path)
+    if (!filePath) {
+        throw new Error('Invalid session file path')
+    }
+
+    await mkdir(dirname(filePath), { recursive: true })
+    if (offset === 0) {
+        await writeFile(filePath, content)
+        return
+    }
+
+    const staged = await stat(filePath).then((stats) => stats.size, () => 0)
+    if (staged !== offset) {
+        throw new Error(`Chunk for ${path} expected at offset ${staged}, got ${offset}`)
+    }
+    await appendFile(filePath, content)
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Replaces a directory with another wherever it appears as a whole path
+ * prefix, both raw and JSON-escaped (Windows paths double their backslashes
+ * inside JSON strings).
+ */
+export function rewriteSessionPaths(text: string, fromDirectory: string, toDirectory: string): string {
+    if (fromDirectory === toDirectory) {
+        return text
+    }
+
+    const pairs = new Map<string, string>([[fromDirectory, toDirectory]])
+    pairs.set(JSON.stringify(fromDirectory).slice(1, -1), JSON.stringify(toDirectory).slice(1, -1))
+
+    let result = text
+    for (const [from, to] of pairs) {
+        const pattern = new RegExp(`${escapeRegExp(from)}(?![A-Za-z0-9_.-])`, 'g')
+        result = result.replace(pattern, () => to)
+    }
+    return result
+}
+
+/**
+ * Moves a staged transfer into this machine's agent storage and removes the
+ * staging directory. Returns the number of restored files.
+ */
+export async function restoreAgentSession(
+    transferId: string,
+    flavor: HandoffFlavor,
+    sourceDirectory: string,
+    targetDirectory: string,
+    stagingRoot: string = getHandoffStagingRoot()
+): Promise<number> {
+    const stagingDir = getStagingDir(stagingRoot, transferId)
+    const stagedFiles = await listFilesRecursive(stagingDir)
+    if (stagedFiles.length === 0) {
+        throw new Error('Nothing was staged for this transfer')
+    }
+
+    const root = getAgentSessionRoot(flavor, targetDirectory)
+    for (const stagedFile of stagedFiles) {
+        const path = relative(stagingDir, stagedFile).split(sep).join('/')
+        const destination = resolveBundlePath(root, path)
+        if (!destination) {
+            throw new Error(`Invalid session file path: ${path}`)
+        }
+        const content = await readFile(stagedFile, 'utf8')
+        await mkdir(dirname(destination), { recursive: true })
+        await writeFile(destination, rewriteSessionPaths(content, sourceDirectory, targetDirectory))
+    }
+
+    await rm(stagingDir, { recursive: true, force: true })
+    return stagedFiles.length
+}
+
+export async function discardAgentSessionTransfer(
+    transferId: string,
+    stagingRoot: string = getHandoffStagingRoot()
+): Promise<void> {
+    await rm(getStagingDir(stagingRoot, transferId), { recursive: true, force: true })
+}
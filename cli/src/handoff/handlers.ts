@@ -0,0 +1,135 @@
+import type { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager'
+import { getErrorMessage, rpcError } from '@/modules/common/rpcResponses'
+import { logger } from '@/ui/logger'
+import {
+    MAX_HANDOFF_BYTES,
+    discardAgentSessionTransfer,
+    isHandoffFlavor,
+    listAgentSessionFiles,
+    readAgentSessionChunk,
+    restoreAgentSession,
+    stageAgentSessionChunk,
+    type AgentSessionFile
+} from './agentSessionFiles'
+
+interface HandoffExportRequest {
+    flavor: string
+    resumeId: string
+    directory: string
+}
+
+interface HandoffExportResponse {
+    success: boolean
+    files?: AgentSessionFile[]
+    error?: string
+}
+
+interface HandoffReadRequest {
+    flavor: string
+    directory: string
+    path: string
+    offset: number
+}
+
+interface HandoffReadResponse {
+    success: boolean
+    content?: string
+    size?: number
+    eof?: boolean
+    error?: string
+}
+
+interface HandoffStageRequest {
+    transferId: string
+    path: string
+    offset: number
+    content: string
+}
+
+interface HandoffRestoreRequest {
+    transferId: string
+    flavor: string
+    sourceDirectory: string
+    targetDirectory: string
+}
+
+interface HandoffResponse {
+    success: boolean
+    files?: number
+    error?: string
+}
+
+/**
+ * Machine-scoped handlers the hub uses to move an inactive session's agent
+ * files from its machine to another one
+ */
+export function registerHandoffHandlers(rpcHandlerManager: RpcHandlerManager): void {
+    rpcHandlerManager.registerHandler<HandoffExportRequest, HandoffExportResponse>('handoff-export', async (data) => {
+        if (!isHandoffFlavor(data?.flavor)) {
+            return rpcError('Handoff is not supported for this agent')
+        }
+        try {
+            const files = await listAgentSessionFiles(data.flavor, String(data.resumeId ?? ''), String(data.directory ?? ''))
+            const total = files.reduce((sum, file) => sum + file.size, 0)
+            if (total > MAX_HANDOFF_BYTES) {
+                return rpcError(`Session files are too large to hand off (${Math.round(total / (1024 * 1024))} MB)`)
+            }
+            return { success: true, files }
+        } catch (error) {
+            return rpcError(getErrorMessage(error, 'Failed to list session files'))
+        }
+    })
+
+    rpcHandlerManager.registerHandler<HandoffReadRequest, HandoffReadResponse>('handoff-read', async (data) => {
+        if (!isHandoffFlavor(data?.flavor)) {
+            return rpcError('Handoff is not supported for this agent')
+        }
+        try {
+            const chunk = await readAgentSessionChunk(data.flavor, String(data.directory ?? ''), String(data.path ?? ''), Number(data.offset) || 0)
+            return { success: true, content: chunk.content.toString('base64'), size: chunk.size, eof: chunk.eof }
+        } catch (error) {
+            return rpcError(getErrorMessage(error, 'Failed to read session file'))
+        }
+    })
+
+    rpcHandlerManager.registerHandler<HandoffStageRequest, HandoffResponse>('handoff-stage', async (data) => {
+        try {
+            await stageAgentSessionChunk(
+                String(data?.transferId ?? ''),
+                String(data?.path ?? ''),
+                Number(data?.offset) || 0,
+                Buffer.from(String(data?.content ?? ''), 'base64')
+            )
+            return { success: true }
+        } catch (error) {
+            return rpcError(getErrorMessage(error, 'Failed to stage session file'))
+        }
+    })
+
+    rpcHandlerManager.registerHandler<HandoffRestoreRequest, HandoffResponse>('handoff-restore', async (data) => {
+        if (!isHandoffFlavor(data?.flavor)) {
+            return rpcError('Handoff is not supported for this agent')
+        }
+        try {
+            const files = await restoreAgentSession(
+                String(data.transferId ?? ''),
+                data.flavor,
+                String(data.sourceDirectory ?? ''),
+                String(data.targetDirectory ?? '')
+            )
+            logger.debug(`[HANDOFF] Restored ${files} ${data.flavor} session files into ${data.targetDirectory}`)
+            return { success: true, files }
+        } catch (error) {
+            return rpcError(getErrorMessage(error, 'Failed to restore session files'))
+        }
+    })
+
+    rpcHandlerManager.registerHandler<{ transferId: string }, HandoffResponse>('handoff-discard', async (data) => {
+        try {
+            await discardAgentSessionTransfer(String(data?.transferId ?? ''))
+            return { success: true }
+        } catch (error) {
+            return rpcError(getErrorMessage(error, 'Failed to discard transfer'))
+        }
+    })
+}
@@ -1,9 +1,19 @@
+import { execFile } from 'child_process'
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { basename, join, resolve } from 'path'
+import { promisify } from 'util'
 import { logger } from '@/ui/logger'
 import type { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager'
 import { run as runDifftastic } from '@/modules/difftastic/index'
 import { validatePath } from '../pathSecurity'
 import { getErrorMessage, rpcError } from '../rpcResponses'
 
+const execFileAsync = promisify(execFile)
+
+// Structural diffs are for reading; larger files fall back to line diffs
+const MAX_STRUCTURED_DIFF_BYTES = 1024 * 1024
+
 interface DifftasticRequest {
     args: string[]
     cwd?: string
@@ -17,6 +27,96 @@ interface DifftasticResponse {
     error?: string
 }
 
+/**
+ * Either two texts (tool call edits) or a file's git change, where the old
+ * side is HEAD (staged) or the index (unstaged) and the new side the index
+ * (staged) or the working tree (unstaged).
+ */
+interface DifftasticStructuredRequest {
+    cwd?: string
+    fileName?: string
+    oldContent?: string
+    newContent?: string
+    filePath?: string
+    staged?: boolean
+}
+
+interface DifftasticStructuredResponse {
+    success: boolean
+    // difftastic --display=json output
+    stdout?: string
+    // Both sides, for git file diffs
+    oldContent?: string
+    newContent?: string
+    error?: string
+    // The difftastic binary is missing on this machine
+    unavailable?: boolean
+}
+
+async function gitShow(spec: string, cwd: string): Promise<string | null> {
+    try {
+        const { stdout } = await execFileAsync('git', ['show', spec], {
+            cwd,
+            encoding: 'utf8',
+            maxBuffer: MAX_STRUCTURED_DIFF_BYTES * 2,
+            timeout: 10_000
+        })
+        return stdout
+    } catch {
+        // Not in that tree: the file is new (or deleted) on this side
+        return null
+    }
+}
+
+async function readGitSides(
+    filePath: string,
+    staged: boolean,
+    cwd: string
+): Promise<{ oldContent: string; newContent: string }> {
+    // ./ keeps the path relative to cwd rather than the repository root
+    const spec = `./${filePath}`
+    if (staged) {
+        return {
+            oldContent: await gitShow(`HEAD:${spec}`, cwd) ?? '',
+            newContent: await gitShow(`:${spec}`, cwd) ?? ''
+        }
+    }
+
+    const indexed = await gitShow(`:${spec}`, cwd)
+    const working = await readFile(resolve(cwd, filePath), 'utf8').catch(() => '')
+    return { oldContent: indexed ?? '', newContent: working }
+}
+
+async function runStructuredDiff(fileName: string, oldContent: string, newContent: string): Promise<DifftasticStructuredResponse> {
+    // Same file name on both sides so difftastic picks the language from the extension
+    const dir = await mkdtemp(join(tmpdir(), 'hapi-difft-'))
+    try {
+        const name = basename(fileName) || 'file'
+        const oldPath = join(dir, 'old', name)
+        const newPath = join(dir, 'new', name)
+        await mkdir(join(dir, 'old'))
+        await mkdir(join(dir, 'new'))
+        await writeFile(oldPath, oldContent)
+        await writeFile(newPath, newContent)
+
+        const result = await runDifftastic(['--display=json', '--color=never', oldPath, newPath], {
+            env: { DFT_UNSTABLE: 'yes' }
+        })
+        if (result.exitCode !== 0) {
+            return rpcError(result.stderr.trim() || `difftastic exited with code ${result.exitCode}`)
+        }
+        return { success: true, stdout: result.stdout }
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code
+        if (code === 'ENOENT' || code === 'EACCES') {
+            return rpcError('difftastic is not installed on this machine', { unavailable: true })
+        }
+        return rpcError(getErrorMessage(error, 'Failed to run difftastic'))
+    } finally {
+        await rm(dir, { recursive: true, force: true })
+    }
+}
+
 export function registerDifftasticHandlers(rpcHandlerManager: RpcHandlerManager, workingDirectory: string): void {
     rpcHandlerManager.registerHandler<DifftasticRequest, DifftasticResponse>('difftastic', async (data) => {
         logger.debug('Difftastic request with args:', data.args, 'cwd:', data.cwd)
@@ -41,4 +141,36 @@ export function registerDifftasticHandlers(rpcHandlerManager: RpcHandlerManager,
             return rpcError(getErrorMessage(error, 'Failed to run difftastic'))
         }
     })
+
+    rpcHandlerManager.registerHandler<DifftasticStructuredRequest, DifftasticStructuredResponse>('difftastic-structured', async (data) => {
+        const cwd = data.cwd ?? workingDirectory
+        const cwdValidation = validatePath(cwd, workingDirectory)
+        if (!cwdValidation.valid) {
+            return rpcError(cwdValidation.error ?? 'Invalid working directory')
+        }
+
+        if (typeof data.filePath === 'string') {
+            const validation = validatePath(data.filePath, workingDirectory)
+            if (!data.filePath || !validation.valid) {
+                return rpcError(validation.error ?? 'Invalid file path')
+            }
+
+            const sides = await readGitSides(data.filePath, data.staged === true, cwd)
+            if (Buffer.byteLength(sides.oldContent) > MAX_STRUCTURED_DIFF_BYTES
+                || Buffer.byteLength(sides.newContent) > MAX_STRUCTURED_DIFF_BYTES) {
+                return rpcError('File too large for a structural diff')
+            }
+            const result = await runStructuredDiff(data.filePath, sides.oldContent, sides.newContent)
+            return result.success ? { ...result, ...sides } : result
+        }
+
+        if (typeof data.oldContent !== 'string' || typeof data.newContent !== 'string') {
+            return rpcError('Invalid diff request')
+        }
+        if (Buffer.byteLength(data.oldContent) > MAX_STRUCTURED_DIFF_BYTES
+            || Buffer.byteLength(data.newContent) > MAX_STRUCTURED_DIFF_BYTES) {
+            return rpcError('Text too large for a structural diff')
+        }
+        return await runStructuredDiff(data.fileName ?? 'file.txt', data.oldContent, data.newContent)
+    })
 }
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { createHash } from 'crypto'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { RpcHandlerManager } from '../../../api/rpc/RpcHandlerManager'
+import { registerFileHandlers } from './files'
+
+type WriteResult = { success: boolean; hash?: string; error?: string; conflict?: boolean; currentHash?: string | null }
+
+function sha256(text: string): string {
+    return createHash('sha256').update(text).digest('hex')
+}
+
+function base64(text: string): string {
+    return Buffer.from(text, 'utf8').toString('base64')
+}
+
+describe('file RPC handlers', () => {
+    let rootDir: string
+    let rpc: RpcHandlerManager
+
+    async function call<T>(method: string, params: unknown): Promise<T> {
+        const response = await rpc.handleRequest({
+            method: `session-test:${method}`,
+            params: JSON.stringify(params)
+        })
+        return JSON.parse(response) as T
+    }
+
+    beforeEach(async () => {
+        if (rootDir) {
+            await rm(rootDir, { recursive: true, force: true })
+        }
+
+        rootDir = join(tmpdir(), `hapi-file-handler-${Date.now()}-${Math.random().toString(16).slice(2)}`)
+        await mkdir(rootDir, { recursive: true })
+        await writeFile(join(rootDir, 'notes.md'), 'first')
+
+        rpc = new RpcHandlerManager({ scopePrefix: 'session-test' })
+        registerFileHandlers(rpc, rootDir)
+    })
+
+    it('returns the content hash with reads and accepts it for writes', async () => {
+        const read = await call<{ success: boolean; hash?: string }>('readFile', { path: 'notes.md' })
+        expect(read.hash).toBe(sha256('first'))
+
+        const written = await call<WriteResult>('writeFile', { path: 'notes.md', content: base64('second'), expectedHash: read.hash })
+        expect(written).toEqual({ success: true, hash: sha256('second') })
+        expect(await readFile(join(rootDir, 'notes.md'), 'utf8')).toBe('second')
+    })
+
+    it('reports a conflict with the current hash when the file changed', async () => {
+        const written = await call<WriteResult>('writeFile', { path: 'notes.md', content: base64('mine'), expectedHash: sha256('stale') })
+        expect(written.success).toBe(false)
+        expect(written.conflict).toBe(true)
+        expect(written.currentHash).toBe(sha256('first'))
+        expect(await readFile(join(rootDir, 'notes.md'), 'utf8')).toBe('first')
+
+        const created = await call<WriteResult>('writeFile', { path: 'notes.md', content: base64('new'), expectedHash: null })
+        expect(created.conflict).toBe(true)
+    })
+
+    it('creates new files and their directories inside the working directory', async () => {
+        const created = await call<WriteResult>('writeFile', { path: 'docs/new.md', content: base64(''), expectedHash: null })
+        expect(created.success).toBe(true)
+        expect(await readFile(join(rootDir, 'docs', 'new.md'), 'utf8')).toBe('')
+
+        const outside = await call<WriteResult>('writeFile', { path: '../escape.md', content: base64('x'), expectedHash: null })
+        expect(outside.success).toBe(false)
+    })
+})
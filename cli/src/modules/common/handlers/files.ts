@@ -1,7 +1,7 @@
 import { logger } from '@/ui/logger'
-import { readFile, stat, writeFile } from 'fs/promises'
+import { mkdir, readFile, writeFile } from 'fs/promises'
 import { createHash } from 'crypto'
-import { resolve } from 'path'
+import { dirname, resolve } from 'path'
 import type { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager'
 import { validatePath } from '../pathSecurity'
 import { getErrorMessage, rpcError } from '../rpcResponses'
@@ -13,6 +13,8 @@ interface ReadFileRequest {
 interface ReadFileResponse {
     success: boolean
     content?: string
+    // sha256 of the file bytes, to pass back as expectedHash when writing
+    hash?: string
     error?: string
 }
 
@@ -26,6 +28,13 @@ interface WriteFileResponse {
     success: boolean
     hash?: string
     error?: string
+    // Set when the file on disk no longer matches expectedHash; currentHash is null if it is missing
+    conflict?: boolean
+    currentHash?: string | null
+}
+
+function hashContent(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex')
 }
 
 export function registerFileHandlers(rpcHandlerManager: RpcHandlerManager, workingDirectory: string): void {
@@ -41,7 +50,7 @@ export function registerFileHandlers(rpcHandlerManager: RpcHandlerManager, worki
             const resolvedPath = resolve(workingDirectory, data.path)
             const buffer = await readFile(resolvedPath)
             const content = buffer.toString('base64')
-            return { success: true, content }
+            return { success: true, content, hash: hashContent(buffer) }
         } catch (error) {
             logger.debug('Failed to read file:', error)
             return rpcError(getErrorMessage(error, 'Failed to read file'))
@@ -57,39 +66,44 @@ export function registerFileHandlers(rpcHandlerManager: RpcHandlerManager, worki
         }
 
         try {
+            const resolvedPath = resolve(workingDirectory, data.path)
             if (data.expectedHash !== null && data.expectedHash !== undefined) {
                 try {
-                    const existingBuffer = await readFile(data.path)
-                    const existingHash = createHash('sha256').update(existingBuffer).digest('hex')
+                    const existingHash = hashContent(await readFile(resolvedPath))
 
                     if (existingHash !== data.expectedHash) {
-                        return rpcError(`File hash mismatch. Expected: ${data.expectedHash}, Actual: ${existingHash}`)
+                        return rpcError(`File hash mismatch. Expected: ${data.expectedHash}, Actual: ${existingHash}`, {
+                            conflict: true,
+                            currentHash: existingHash
+                        })
                     }
                 } catch (error) {
                     const nodeError = error as NodeJS.ErrnoException
                     if (nodeError.code !== 'ENOENT') {
                         throw error
                     }
-                    return rpcError('File does not exist but hash was provided')
+                    return rpcError('File does not exist but hash was provided', { conflict: true, currentHash: null })
                 }
             } else {
                 try {
-                    await stat(data.path)
-                    return rpcError('File already exists but was expected to be new')
+                    const existingHash = hashContent(await readFile(resolvedPath))
+                    return rpcError('File already exists but was expected to be new', {
+                        conflict: true,
+                        currentHash: existingHash
+                    })
                 } catch (error) {
                     const nodeError = error as NodeJS.ErrnoException
                     if (nodeError.code !== 'ENOENT') {
                         throw error
                     }
                 }
+                await mkdir(dirname(resolvedPath), { recursive: true })
             }
 
             const buffer = Buffer.from(data.content, 'base64')
-            await writeFile(data.path, buffer)
-
-            const hash = createHash('sha256').update(buffer).digest('hex')
+            await writeFile(resolvedPath, buffer)
 
-            return { success: true, hash }
+            return { success: true, hash: hashContent(buffer) }
         } catch (error) {
             logger.debug('Failed to write file:', error)
             return rpcError(getErrorMessage(error, 'Failed to write file'))
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { RpcHandlerManager } from '../../../api/rpc/RpcHandlerManager'
+import { registerGitHandlers } from './git'
+
+type GitResult = { success: boolean; stdout?: string; stderr?: string; error?: string }
+
+describe('git RPC handlers', () => {
+    let rootDir: string
+    let rpc: RpcHandlerManager
+
+    async function call(method: string, params: unknown): Promise<GitResult> {
+        const response = await rpc.handleRequest({
+            method: `session-test:${method}`,
+            params: JSON.stringify(params)
+        })
+        return JSON.parse(response) as GitResult
+    }
+
+    function git(...args: string[]): string {
+        return execFileSync('git', args, { cwd: rootDir, encoding: 'utf8' })
+    }
+
+    beforeEach(async () => {
+        if (rootDir) {
+            await rm(rootDir, { recursive: true, force: true })
+        }
+
+        rootDir = join(tmpdir(), `hapi-git-handler-${Date.now()}-${Math.random().toString(16).slice(2)}`)
+        await mkdir(rootDir, { recursive: true })
+        git('init', '--quiet', '--initial-branch=main')
+        git('config', 'user.email', 'test@example.com')
+        git('config', 'user.name', 'Test')
+        git('config', 'commit.gpgsign', 'false')
+        await writeFile(join(rootDir, 'notes.md'), 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n')
+        git('add', 'notes.md')
+        git('commit', '--quiet', '-m', 'initial')
+
+        rpc = new RpcHandlerManager({ scopePrefix: 'session-test' })
+        registerGitHandlers(rpc, rootDir)
+    })
+
+    it('stages, unstages and commits files', async () => {
+        await writeFile(join(rootDir, 'new.txt'), 'hello\n')
+
+        expect((await call('git-stage', { paths: ['new.txt'] })).success).toBe(true)
+        expect(git('diff', '--cached', '--name-only')).toBe('new.txt\n')
+
+        expect((await call('git-unstage', { paths: ['new.txt'] })).success).toBe(true)
+        expect(git('diff', '--cached', '--name-only')).toBe('')
+
+        await call('git-stage', { paths: ['new.txt'] })
+        expect((await call('git-commit', { message: '' })).error).toBe('Commit message is required')
+        expect((await call('git-commit', { message: 'Add new.txt' })).success).toBe(true)
+        expect(git('log', '-1', '--format=%s')).toBe('Add new.txt\n')
+
+        expect((await call('git-commit', { message: 'Add new file', amend: true })).success).toBe(true)
+        expect(git('log', '--format=%s')).toBe('Add new file\ninitial\n')
+    })
+
+    it('stages a single hunk from a patch', async () => {
+        await writeFile(join(rootDir, 'notes.md'), 'ONE\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nTEN\n')
+        const patch = [
+            'diff --git a/notes.md b/notes.md',
+            '--- a/notes.md',
+            '+++ b/notes.md',
+            '@@ -1,3 +1,3 @@',
+            '-one',
+            '+ONE',
+            ' two',
+            ' three',
+            ''
+        ].join('\n')
+
+        expect((await call('git-apply-patch', { patch, mode: 'stage' })).success).toBe(true)
+        expect(git('diff', '--cached', '--numstat')).toBe('1\t1\tnotes.md\n')
+        expect(git('diff', '--numstat')).toBe('1\t1\tnotes.md\n')
+
+        expect((await call('git-apply-patch', { patch, mode: 'unstage' })).success).toBe(true)
+        expect(git('diff', '--cached', '--numstat')).toBe('')
+
+        expect((await call('git-apply-patch', { patch, mode: 'discard' })).success).toBe(true)
+        expect(await readFile(join(rootDir, 'notes.md'), 'utf8')).toBe('one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nTEN\n')
+    })
+
+    it('rejects paths, patches and branch names it cannot trust', async () => {
+        expect((await call('git-stage', { paths: ['../outside.txt'] })).success).toBe(false)
+        expect((await call('git-discard', {})).error).toBe('No paths given')
+
+        const patch = '--- a/../outside.txt\n+++ b/../outside.txt\n@@ -1 +1 @@\n-a\n+b\n'
+        const applied = await call('git-apply-patch', { patch, mode: 'stage' })
+        expect(applied.success).toBe(false)
+        expect(applied.error).toContain('outside the working directory')
+
+        expect((await call('git-create-branch', { name: '--force' })).error).toBe('Invalid branch name')
+        expect((await call('git-create-branch', { name: 'bad..name' })).success).toBe(false)
+        expect((await call('git-push', { remote: '--mirror' })).error).toBe('Invalid remote name')
+    })
+
+    it('discards tracked and untracked changes', async () => {
+        await writeFile(join(rootDir, 'notes.md'), 'changed\n')
+        await writeFile(join(rootDir, 'scratch.txt'), 'temp\n')
+
+        const result = await call('git-discard', { paths: ['notes.md'], untrackedPaths: ['scratch.txt'] })
+        expect(result.success).toBe(true)
+        expect(git('status', '--porcelain')).toBe('')
+    })
+
+    it('treats paths as file names rather than pathspec magic', async () => {
+        await writeFile(join(rootDir, 'notes.md'), 'changed\n')
+        await writeFile(join(rootDir, ':!keep.txt'), 'literal\n')
+        await writeFile(join(rootDir, 'keep.txt'), 'temp\n')
+
+        expect((await call('git-discard', { paths: [':/'] })).success).toBe(false)
+        expect((await call('git-stage', { paths: [':/'] })).success).toBe(false)
+        expect(git('diff', '--cached', '--name-only')).toBe('')
+
+        expect((await call('git-discard', { untrackedPaths: [':!keep.txt'] })).success).toBe(true)
+        expect(git('status', '--porcelain')).toBe(' M notes.md\n?? keep.txt\n')
+    })
+
+    it('creates, lists and switches branches', async () => {
+        expect((await call('git-create-branch', { name: 'feature/x' })).success).toBe(true)
+        const branches = await call('git-branches', {})
+        expect(branches.stdout).toContain('*\tfeature/x\t')
+        expect(branches.stdout).toContain(' \tmain\t')
+
+        expect((await call('git-switch-branch', { name: 'main' })).success).toBe(true)
+        expect(git('branch', '--show-current')).toBe('main\n')
+    })
+})
@@ -6,6 +6,10 @@ import { rpcError } from '../rpcResponses'
 
 const execFileAsync = promisify(execFile)
 
+// Paths from the client are file names; pathspec magic such as `:/` or
+// `:(exclude)x` would otherwise reach past the session directory
+const LITERAL_PATHSPECS = ['--literal-pathspecs']
+
 interface GitStatusRequest {
     cwd?: string
     timeout?: number
@@ -24,6 +28,64 @@ interface GitDiffFileRequest {
     timeout?: number
 }
 
+interface GitPathsRequest {
+    cwd?: string
+    paths: string[]
+    timeout?: number
+}
+
+interface GitDiscardRequest {
+    cwd?: string
+    // Tracked files are restored from the index; untracked files are deleted
+    paths?: string[]
+    untrackedPaths?: string[]
+    timeout?: number
+}
+
+type GitPatchMode = 'stage' | 'unstage' | 'discard'
+
+interface GitApplyPatchRequest {
+    cwd?: string
+    patch: string
+    mode: GitPatchMode
+    timeout?: number
+}
+
+interface GitCommitRequest {
+    cwd?: string
+    message: string
+    amend?: boolean
+    timeout?: number
+}
+
+interface GitBranchesRequest {
+    cwd?: string
+    timeout?: number
+}
+
+interface GitBranchRequest {
+    cwd?: string
+    name: string
+    timeout?: number
+}
+
+interface GitCreateBranchRequest extends GitBranchRequest {
+    checkout?: boolean
+}
+
+interface GitPushRequest {
+    cwd?: string
+    // Publishes the current branch to the remote and tracks it
+    setUpstream?: boolean
+    remote?: string
+    timeout?: number
+}
+
+interface GitRemoteRequest {
+    cwd?: string
+    timeout?: number
+}
+
 interface GitCommandResponse {
     success: boolean
     stdout?: string
@@ -49,17 +111,102 @@ function validateFilePath(filePath: string, workingDirectory: string): string |
     return null
 }
 
+function validateFilePaths(paths: unknown, workingDirectory: string): string | null {
+    if (!Array.isArray(paths) || paths.length === 0) {
+        return 'No paths given'
+    }
+    for (const path of paths) {
+        if (typeof path !== 'string' || path.length === 0) {
+            return 'Invalid file path'
+        }
+        const error = validateFilePath(path, workingDirectory)
+        if (error) {
+            return error
+        }
+    }
+    return null
+}
+
+function unquotePatchPath(raw: string): string {
+    const trimmed = raw.replace(/\t.*$/, '')
+    if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+        // Git quotes unusual names C-style; octal escapes are not valid JSON
+        try {
+            return JSON.parse(trimmed) as string
+        } catch {
+            return trimmed.slice(1, -1)
+        }
+    }
+    return trimmed
+}
+
+/**
+ * Checks that a patch only touches files inside the working directory.
+ * Only text hunks are accepted, so every file has ---/+++ headers.
+ */
+function validatePatch(patch: string, workingDirectory: string): string | null {
+    if (!patch.includes('\n@@ ')) {
+        return 'Patch has no hunks'
+    }
+
+    let headers = 0
+    for (const line of patch.split('\n')) {
+        let path: string | null = null
+        if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+            path = unquotePatchPath(line.slice(4))
+            if (path === '/dev/null') {
+                headers += 1
+                continue
+            }
+            path = path.replace(/^[ab]\//, '')
+        } else {
+            const match = /^(?:rename|copy) (?:from|to) (.+)$/.exec(line)
+            if (match) {
+                path = unquotePatchPath(match[1])
+            }
+        }
+        if (path === null) {
+            continue
+        }
+        headers += 1
+        const error = validateFilePath(path, workingDirectory)
+        if (error) {
+            return error
+        }
+    }
+
+    return headers > 0 ? null : 'Patch has no file headers'
+}
+
+// Remote names are passed as arguments, so keep them to plain names
+const REMOTE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/
+
+async function validateBranchName(name: unknown, cwd: string): Promise<string | null> {
+    if (typeof name !== 'string' || name.length === 0 || name.startsWith('-')) {
+        return 'Invalid branch name'
+    }
+    const result = await runGitCommand(['check-ref-format', '--branch', name], cwd)
+    return result.success ? null : `Invalid branch name: ${name}`
+}
+
 async function runGitCommand(
     args: string[],
     cwd: string,
-    timeout?: number
+    timeout?: number,
+    input?: string
 ): Promise<GitCommandResponse> {
     try {
         const options: ExecFileOptions = {
             cwd,
-            timeout: timeout ?? 10_000
+            timeout: timeout ?? 10_000,
+            // Fail instead of waiting for credentials nobody can type
+            env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+        }
+        const pending = execFileAsync('git', args, options)
+        if (input !== undefined) {
+            pending.child.stdin?.end(input)
         }
-        const { stdout, stderr } = await execFileAsync('git', args, options)
+        const { stdout, stderr } = await pending
         return {
             success: true,
             stdout: stdout ? stdout.toString() : '',
@@ -125,8 +272,186 @@ export function registerGitHandlers(rpcHandlerManager: RpcHandlerManager, workin
         }
 
         const args = data.staged
-            ? ['diff', '--cached', '--no-ext-diff', '--', data.filePath]
-            : ['diff', '--no-ext-diff', '--', data.filePath]
+            ? [...LITERAL_PATHSPECS, 'diff', '--cached', '--no-ext-diff', '--', data.filePath]
+            : [...LITERAL_PATHSPECS, 'diff', '--no-ext-diff', '--', data.filePath]
+        return await runGitCommand(args, resolved.cwd, data.timeout)
+    })
+
+    rpcHandlerManager.registerHandler<GitPathsRequest, GitCommandResponse>('git-stage', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const pathsError = validateFilePaths(data.paths, workingDirectory)
+        if (pathsError) {
+            return rpcError(pathsError)
+        }
+        return await runGitCommand([...LITERAL_PATHSPECS, 'add', '-A', '--', ...data.paths], resolved.cwd, data.timeout)
+    })
+
+    rpcHandlerManager.registerHandler<GitPathsRequest, GitCommandResponse>('git-unstage', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const pathsError = validateFilePaths(data.paths, workingDirectory)
+        if (pathsError) {
+            return rpcError(pathsError)
+        }
+
+        // Before the first commit there is no HEAD to restore the index from
+        const head = await runGitCommand(['rev-parse', '--verify', '--quiet', 'HEAD'], resolved.cwd)
+        const args = head.success
+            ? [...LITERAL_PATHSPECS, 'restore', '--staged', '--', ...data.paths]
+            : [...LITERAL_PATHSPECS, 'rm', '--cached', '-r', '--quiet', '--', ...data.paths]
+        return await runGitCommand(args, resolved.cwd, data.timeout)
+    })
+
+    rpcHandlerManager.registerHandler<GitDiscardRequest, GitCommandResponse>('git-discard', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const paths = data.paths ?? []
+        const untrackedPaths = data.untrackedPaths ?? []
+        if (paths.length === 0 && untrackedPaths.length === 0) {
+            return rpcError('No paths given')
+        }
+        for (const list of [paths, untrackedPaths]) {
+            const pathsError = list.length > 0 ? validateFilePaths(list, workingDirectory) : null
+            if (pathsError) {
+                return rpcError(pathsError)
+            }
+        }
+
+        if (paths.length > 0) {
+            const restored = await runGitCommand([...LITERAL_PATHSPECS, 'restore', '--worktree', '--', ...paths], resolved.cwd, data.timeout)
+            if (!restored.success) {
+                return restored
+            }
+        }
+        if (untrackedPaths.length > 0) {
+            return await runGitCommand([...LITERAL_PATHSPECS, 'clean', '--force', '--quiet', '--', ...untrackedPaths], resolved.cwd, data.timeout)
+        }
+        return { success: true, stdout: '', stderr: '', exitCode: 0 }
+    })
+
+    rpcHandlerManager.registerHandler<GitApplyPatchRequest, GitCommandResponse>('git-apply-patch', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        if (typeof data.patch !== 'string') {
+            return rpcError('Invalid patch')
+        }
+        const patchError = validatePatch(data.patch, workingDirectory)
+        if (patchError) {
+            return rpcError(patchError)
+        }
+
+        const args = ['apply', '--whitespace=nowarn']
+        if (data.mode === 'stage') {
+            args.push('--cached')
+        } else if (data.mode === 'unstage') {
+            args.push('--cached', '--reverse')
+        } else if (data.mode === 'discard') {
+            args.push('--reverse')
+        } else {
+            return rpcError('Invalid patch mode')
+        }
+        args.push('-')
+        const patch = data.patch.endsWith('\n') ? data.patch : `${data.patch}\n`
+        return await runGitCommand(args, resolved.cwd, data.timeout, patch)
+    })
+
+    rpcHandlerManager.registerHandler<GitCommitRequest, GitCommandResponse>('git-commit', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const message = typeof data.message === 'string' ? data.message.trim() : ''
+        if (!message && !data.amend) {
+            return rpcError('Commit message is required')
+        }
+
+        const args = ['commit']
+        if (data.amend) {
+            args.push('--amend')
+        }
+        // Amending without a message keeps the previous one
+        args.push(...(message ? ['--message', message] : ['--no-edit']))
+        // Hooks may run tests or linters
+        return await runGitCommand(args, resolved.cwd, data.timeout ?? 120_000)
+    })
+
+    rpcHandlerManager.registerHandler<GitBranchesRequest, GitCommandResponse>('git-branches', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        return await runGitCommand(
+            ['for-each-ref', '--format=%(HEAD)%09%(refname:short)%09%(upstream:short)%09%(upstream:track,nobracket)', 'refs/heads'],
+            resolved.cwd,
+            data.timeout
+        )
+    })
+
+    rpcHandlerManager.registerHandler<GitCreateBranchRequest, GitCommandResponse>('git-create-branch', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const nameError = await validateBranchName(data.name, resolved.cwd)
+        if (nameError) {
+            return rpcError(nameError)
+        }
+        const args = data.checkout === false
+            ? ['branch', data.name]
+            : ['switch', '--create', data.name]
         return await runGitCommand(args, resolved.cwd, data.timeout)
     })
+
+    rpcHandlerManager.registerHandler<GitBranchRequest, GitCommandResponse>('git-switch-branch', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const nameError = await validateBranchName(data.name, resolved.cwd)
+        if (nameError) {
+            return rpcError(nameError)
+        }
+        return await runGitCommand(['switch', '--no-guess', data.name], resolved.cwd, data.timeout)
+    })
+
+    rpcHandlerManager.registerHandler<GitPushRequest, GitCommandResponse>('git-push', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        const remote = data.remote ?? 'origin'
+        if (!REMOTE_NAME_PATTERN.test(remote)) {
+            return rpcError('Invalid remote name')
+        }
+        const args = data.setUpstream
+            ? ['push', '--set-upstream', remote, 'HEAD']
+            : ['push']
+        return await runGitCommand(args, resolved.cwd, data.timeout ?? 120_000)
+    })
+
+    rpcHandlerManager.registerHandler<GitRemoteRequest, GitCommandResponse>('git-pull', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        // Merges and rebases need a human at a terminal; only fast-forward here
+        return await runGitCommand(['pull', '--ff-only'], resolved.cwd, data.timeout ?? 120_000)
+    })
+
+    rpcHandlerManager.registerHandler<GitRemoteRequest, GitCommandResponse>('git-fetch', async (data) => {
+        const resolved = resolveCwd(data.cwd, workingDirectory)
+        if (resolved.error) {
+            return rpcError(resolved.error)
+        }
+        return await runGitCommand(['fetch', '--prune'], resolved.cwd, data.timeout ?? 120_000)
+    })
 }
@@ -5,7 +5,8 @@ import { logger } from '@/ui/logger';
 import { getHappyCliCommand } from '@/utils/spawnHappyCLI';
 
 type HookCommandConfig = {
-    matcher: string;
+    // Omitted for events that do not match on anything (UserPromptSubmit, Stop)
+    matcher?: string;
     hooks: Array<{
         type: 'command';
         command: string;
@@ -13,17 +14,19 @@ type HookCommandConfig = {
 };
 
 type HookSettings = {
-    hooks: {
-        SessionStart: HookCommandConfig[];
-    };
+    hooks: Record<string, HookCommandConfig[]>;
 };
 
 export type HookSettingsOptions = {
     filenamePrefix: string;
     logLabel: string;
     hooksEnabled?: boolean;
+    /** Hook events forwarded to the hook server besides SessionStart */
+    forwardedEvents?: readonly string[];
 };
 
+const UNMATCHED_HOOK_EVENTS = new Set(['UserPromptSubmit', 'Stop']);
+
 function shellQuote(value: string): string {
     if (value.length === 0) {
         return '""';
@@ -45,11 +48,12 @@ function shellJoin(parts: string[]): string {
     return parts.map(shellQuote).join(' ');
 }
 
-function buildHookSettings(command: string, hooksEnabled?: boolean): HookSettings {
-    const hooks: HookSettings['hooks'] = {
-        SessionStart: [
+function buildHookSettings(command: string, hooksEnabled?: boolean, forwardedEvents: readonly string[] = []): HookSettings {
+    const hooks: HookSettings['hooks'] = {};
+    for (const event of ['SessionStart', ...forwardedEvents]) {
+        hooks[event] = [
             {
-                matcher: '*',
+                ...(UNMATCHED_HOOK_EVENTS.has(event) ? {} : { matcher: '*' }),
                 hooks: [
                     {
                         type: 'command',
@@ -57,8 +61,8 @@ function buildHookSettings(command: string, hooksEnabled?: boolean): HookSetting
                     }
                 ]
             }
-        ]
-    };
+        ];
+    }
 
     return { hooks };
 }
@@ -83,7 +87,7 @@ export function generateHookSettingsFile(
     ]);
     const hookCommand = shellJoin([command, ...args]);
 
-    const settings = buildHookSettings(hookCommand, options.hooksEnabled);
+    const settings = buildHookSettings(hookCommand, options.hooksEnabled, options.forwardedEvents);
 
     writeFileSync(filepath, JSON.stringify(settings, null, 4));
     logger.debug(`[${options.logLabel}] Created hook settings file: ${filepath}`);
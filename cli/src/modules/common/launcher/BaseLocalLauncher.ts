@@ -75,10 +75,12 @@ export class BaseLocalLauncher {
                 await this.exitFuture.promise
             }
 
-            const doAbort = async () => {
+            const doAbort = async (params?: { preserveQueue?: unknown }) => {
                 logger.debug(`[${label}]: ${abortLogMessage}`)
                 this.setExitReason('switch')
-                queue.reset()
+                if (params?.preserveQueue !== true) {
+                    queue.reset()
+                }
                 await abortProcess()
             }
 
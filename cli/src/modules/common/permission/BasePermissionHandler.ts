@@ -55,6 +55,49 @@ export type CancelPendingRequestOptions = {
     decision?: PermissionCompletion['decision'];
 };
 
+/**
+ * Decides whether a tool call is approved without asking, given the session's permission mode
+ */
+export function resolveAutoApprovalDecision(
+    mode: PermissionMode | undefined,
+    toolName: string,
+    toolCallId: string,
+    ruleOverrides?: AutoApprovalRuleSet
+): AutoApprovalDecision | null {
+    const rules = {
+        alwaysToolNameHints: ruleOverrides?.alwaysToolNameHints ?? AUTO_APPROVE_TOOL_NAME_HINTS,
+        alwaysToolIdHints: ruleOverrides?.alwaysToolIdHints ?? AUTO_APPROVE_TOOL_ID_HINTS,
+        writeToolNameHints: ruleOverrides?.writeToolNameHints ?? AUTO_APPROVE_WRITE_TOOL_HINTS
+    };
+
+    const lowerTool = toolName.toLowerCase();
+    const lowerId = toolCallId.toLowerCase();
+    const decisionForMode: AutoApprovalDecision = mode === 'yolo' ? 'approved_for_session' : 'approved';
+
+    if (rules.alwaysToolNameHints.some((name) => lowerTool.includes(name))) {
+        return decisionForMode;
+    }
+
+    if (rules.alwaysToolIdHints.some((name) => lowerId.includes(name))) {
+        return decisionForMode;
+    }
+
+    if (mode === 'yolo') {
+        return 'approved_for_session';
+    }
+
+    if (mode === 'safe-yolo') {
+        return 'approved';
+    }
+
+    if (mode === 'read-only') {
+        const isWriteTool = rules.writeToolNameHints.some((name) => lowerTool.includes(name));
+        return isWriteTool ? null : 'approved';
+    }
+
+    return null;
+}
+
 export abstract class BasePermissionHandler<TResponse extends { id: string }, TResult> {
     protected readonly pendingRequests = new Map<string, PendingPermissionRequest<TResult>>();
     protected readonly client: PermissionHandlerClient;
@@ -83,38 +126,7 @@ export abstract class BasePermissionHandler<TResponse extends { id: string }, TR
         toolCallId: string,
         ruleOverrides?: AutoApprovalRuleSet
     ): AutoApprovalDecision | null {
-        const rules = {
-            alwaysToolNameHints: ruleOverrides?.alwaysToolNameHints ?? AUTO_APPROVE_TOOL_NAME_HINTS,
-            alwaysToolIdHints: ruleOverrides?.alwaysToolIdHints ?? AUTO_APPROVE_TOOL_ID_HINTS,
-            writeToolNameHints: ruleOverrides?.writeToolNameHints ?? AUTO_APPROVE_WRITE_TOOL_HINTS
-        };
-
-        const lowerTool = toolName.toLowerCase();
-        const lowerId = toolCallId.toLowerCase();
-        const decisionForMode: AutoApprovalDecision = mode === 'yolo' ? 'approved_for_session' : 'approved';
-
-        if (rules.alwaysToolNameHints.some((name) => lowerTool.includes(name))) {
-            return decisionForMode;
-        }
-
-        if (rules.alwaysToolIdHints.some((name) => lowerId.includes(name))) {
-            return decisionForMode;
-        }
-
-        if (mode === 'yolo') {
-            return 'approved_for_session';
-        }
-
-        if (mode === 'safe-yolo') {
-            return 'approved';
-        }
-
-        if (mode === 'read-only') {
-            const isWriteTool = rules.writeToolNameHints.some((name) => lowerTool.includes(name));
-            return isWriteTool ? null : 'approved';
-        }
-
-        return null;
+        return resolveAutoApprovalDecision(mode, toolName, toolCallId, ruleOverrides);
     }
 
     protected addPendingRequest(
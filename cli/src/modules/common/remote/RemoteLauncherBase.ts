@@ -17,8 +17,13 @@ export type RemoteLauncherTerminalHandlers = {
     onSwitchToLocal: () => void | Promise<void>;
 };
 
+export type RemoteLauncherAbortOptions = {
+    /** Interrupt the turn but keep the queued prompts (queue "send now") */
+    preserveQueue?: boolean;
+};
+
 export type RemoteLauncherAbortHandlers = {
-    onAbort: () => void | Promise<void>;
+    onAbort: (options: RemoteLauncherAbortOptions) => void | Promise<void>;
     onSwitch: () => void | Promise<void>;
 };
 
@@ -76,8 +81,8 @@ export abstract class RemoteLauncherBase {
         rpcHandlerManager: RpcHandlerManagerLike,
         handlers: RemoteLauncherAbortHandlers
     ): void {
-        rpcHandlerManager.registerHandler('abort', async () => {
-            await handlers.onAbort();
+        rpcHandlerManager.registerHandler<{ preserveQueue?: unknown } | undefined>('abort', async (params) => {
+            await handlers.onAbort({ preserveQueue: params?.preserveQueue === true });
         });
 
         rpcHandlerManager.registerHandler('switch', async () => {
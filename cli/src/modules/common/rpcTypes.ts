@@ -1,10 +1,12 @@
+import type { SpawnAgent } from '@hapi/protocol/types'
+
 export interface SpawnSessionOptions {
     machineId?: string
     directory: string
     sessionId?: string
     resumeSessionId?: string
     approvedNewDirectoryCreation?: boolean
-    agent?: 'claude' | 'codex' | 'gemini' | 'opencode'
+    agent?: SpawnAgent
     model?: string
     yolo?: boolean
     token?: string
@@ -15,6 +15,7 @@ export interface DifftasticResult {
 
 export interface DifftasticOptions {
     cwd?: string
+    env?: Record<string, string>
 }
 
 /**
@@ -42,7 +43,8 @@ export function run(args: string[], options?: DifftasticOptions): Promise<Diffta
             env: {
                 ...process.env,
                 // Force color output when needed
-                FORCE_COLOR: '1'
+                FORCE_COLOR: '1',
+                ...options?.env
             }
         });
 
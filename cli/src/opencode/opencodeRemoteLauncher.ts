@@ -3,13 +3,19 @@ import { logger } from '@/ui/logger';
 import { buildHapiMcpBridge } from '@/codex/utils/buildHapiMcpBridge';
 import { convertAgentMessage } from '@/agent/messageConverter';
 import type { AgentMessage, McpServerStdio, PromptContent } from '@/agent/types';
-import { RemoteLauncherBase, type RemoteLauncherDisplayContext, type RemoteLauncherExitReason } from '@/modules/common/remote/RemoteLauncherBase';
+import {
+    RemoteLauncherBase,
+    type RemoteLauncherAbortOptions,
+    type RemoteLauncherDisplayContext,
+    type RemoteLauncherExitReason
+} from '@/modules/common/remote/RemoteLauncherBase';
 import { OpencodeDisplay } from '@/ui/ink/OpencodeDisplay';
 import type { OpencodeSession } from './session';
 import type { PermissionMode } from './types';
 import { createOpencodeBackend } from './utils/opencodeBackend';
 import { OpencodePermissionHandler } from './utils/permissionHandler';
 import { TITLE_INSTRUCTION } from './utils/systemPrompt';
+import { publishModelCatalog, switchSessionModel, toModelCatalog } from '@/agent/modelCatalog';
 
 class OpencodeRemoteLauncher extends RemoteLauncherBase {
     private readonly session: OpencodeSession;
@@ -50,7 +56,7 @@ class OpencodeRemoteLauncher extends RemoteLauncherBase {
 
         backend.onStderrError((error) => {
             logger.debug('[opencode-remote] stderr error', error);
-            session.sendSessionEvent({ type: 'message', message: error.message });
+            session.sendSessionEvent({ type: 'error', message: error.message });
             messageBuffer.addMessage(error.message, 'status');
         });
 
@@ -85,6 +91,13 @@ class OpencodeRemoteLauncher extends RemoteLauncherBase {
         }
         session.onSessionFound(acpSessionId);
 
+        const sessionModels = backend.getSessionModels();
+        // 'default' returns to the model OpenCode picked for the session
+        const defaultModelId = sessionModels?.currentModelId ?? null;
+        if (sessionModels) {
+            publishModelCatalog(session.client, toModelCatalog(sessionModels));
+        }
+
         this.permissionHandler = new OpencodePermissionHandler(
             session.client,
             backend,
@@ -93,7 +106,7 @@ class OpencodeRemoteLauncher extends RemoteLauncherBase {
         this.applyDisplayMode(session.getPermissionMode() as PermissionMode);
 
         this.setupAbortHandlers(session.client.rpcHandlerManager, {
-            onAbort: () => this.handleAbort(),
+            onAbort: (options) => this.handleAbort(options),
             onSwitch: () => this.handleSwitchRequest()
         });
 
@@ -111,6 +124,12 @@ class OpencodeRemoteLauncher extends RemoteLauncherBase {
                 break;
             }
 
+            try {
+                await switchSessionModel(backend, acpSessionId, batch.mode.model ?? defaultModelId);
+            } catch (error) {
+                logger.warn('[opencode-remote] model switch failed', error);
+                session.sendSessionEvent({ type: 'message', message: 'Switching the OpenCode model failed.' });
+            }
             this.applyDisplayMode(batch.mode.permissionMode);
             messageBuffer.addMessage(batch.message, 'user');
 
@@ -187,12 +206,20 @@ class OpencodeRemoteLauncher extends RemoteLauncherBase {
             case 'plan':
                 this.messageBuffer.addMessage('Plan updated', 'status');
                 break;
+            case 'terminal_output':
+                if (message.output) {
+                    this.messageBuffer.addMessage(message.output, 'tool');
+                }
+                break;
             case 'error':
                 this.messageBuffer.addMessage(message.message, 'status');
                 break;
             case 'turn_complete':
                 this.messageBuffer.addMessage('Turn complete', 'status');
                 break;
+            case 'usage':
+                this.session.sendSessionEvent({ type: 'usage', ...message.usage });
+                break;
             default: {
                 const _exhaustive: never = message;
                 return _exhaustive;
@@ -207,13 +234,15 @@ class OpencodeRemoteLauncher extends RemoteLauncherBase {
         }
     }
 
-    private async handleAbort(): Promise<void> {
+    private async handleAbort(options: RemoteLauncherAbortOptions = {}): Promise<void> {
         const backend = this.backend;
         if (backend && this.session.sessionId) {
             await backend.cancelPrompt(this.session.sessionId);
         }
         await this.permissionHandler?.cancelAll('User aborted');
-        this.session.queue.reset();
+        if (!options.preserveQueue) {
+            this.session.queue.reset();
+        }
         this.session.onThinkingChange(false);
         this.abortController.abort();
         this.abortController = new AbortController();
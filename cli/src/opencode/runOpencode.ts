@@ -1,6 +1,7 @@
 import { logger } from '@/ui/logger';
 import { opencodeLoop } from './loop';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
+import { attachMessageQueue } from '@/agent/messageQueueSync';
 import { hashObject } from '@/utils/deterministicJson';
 import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
 import type { AgentState } from '@/api/types';
@@ -9,7 +10,7 @@ import type { OpencodeMode, PermissionMode } from './types';
 import { bootstrapSession } from '@/agent/sessionFactory';
 import { createModeChangeHandler, createRunnerLifecycle, setControlledByUser } from '@/agent/runnerLifecycle';
 import { isPermissionModeAllowedForFlavor } from '@hapi/protocol';
-import { PermissionModeSchema } from '@hapi/protocol/schemas';
+import { ModelModeSchema, PermissionModeSchema } from '@hapi/protocol/schemas';
 import { startOpencodeHookServer } from './utils/startOpencodeHookServer';
 import { formatMessageWithAttachments } from '@/utils/attachmentFormatter';
 
@@ -46,11 +47,15 @@ export async function runOpencode(opts: {
     setControlledByUser(session, startingMode);
 
     const messageQueue = new MessageQueue2<OpencodeMode>((mode) => hashObject({
-        permissionMode: mode.permissionMode
+        permissionMode: mode.permissionMode,
+        model: mode.model
     }));
+    attachMessageQueue(session, messageQueue);
 
     const sessionWrapperRef: { current: OpencodeSession | null } = { current: null };
     let currentPermissionMode: PermissionMode = opts.permissionMode ?? 'yolo';
+    // A provider/model id; undefined keeps the model OpenCode picked
+    let currentModel: string | undefined;
     const hookServer = await startOpencodeHookServer({
         onEvent: (event) => {
             const currentSession = sessionWrapperRef.current;
@@ -80,13 +85,15 @@ export async function runOpencode(opts: {
             return;
         }
         sessionInstance.setPermissionMode(currentPermissionMode);
-        logger.debug(`[opencode] Synced session permission mode for keepalive: ${currentPermissionMode}`);
+        sessionInstance.setModelMode(currentModel ?? 'default');
+        logger.debug(`[opencode] Synced session modes for keepalive: permissionMode=${currentPermissionMode}, model=${currentModel ?? 'default'}`);
     };
 
     session.onUserMessage((message) => {
         const formattedText = formatMessageWithAttachments(message.content.text, message.content.attachments);
         const mode: OpencodeMode = {
-            permissionMode: currentPermissionMode
+            permissionMode: currentPermissionMode,
+            model: currentModel
         };
         messageQueue.push(formattedText, mode);
     });
@@ -103,14 +110,22 @@ export async function runOpencode(opts: {
         if (!payload || typeof payload !== 'object') {
             throw new Error('Invalid session config payload');
         }
-        const config = payload as { permissionMode?: unknown };
+        const config = payload as { permissionMode?: unknown; modelMode?: unknown };
 
         if (config.permissionMode !== undefined) {
             currentPermissionMode = resolvePermissionMode(config.permissionMode);
         }
 
+        if (config.modelMode !== undefined) {
+            const parsed = ModelModeSchema.safeParse(config.modelMode);
+            if (!parsed.success) {
+                throw new Error('Invalid model mode');
+            }
+            currentModel = parsed.data === 'default' ? undefined : parsed.data;
+        }
+
         syncSessionMode();
-        return { applied: { permissionMode: currentPermissionMode } };
+        return { applied: { permissionMode: currentPermissionMode, modelMode: currentModel ?? 'default' } };
     });
 
     try {
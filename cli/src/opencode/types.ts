@@ -4,6 +4,7 @@ export type PermissionMode = OpencodePermissionMode;
 
 export interface OpencodeMode {
     permissionMode: PermissionMode;
+    model?: string;
 }
 
 export type OpencodeHookEvent = {
@@ -477,7 +477,7 @@ async function readMtime(filePath: string): Promise<number | null> {
     }
 }
 
-function resolveOpencodeStorageDir(): string {
+export function resolveOpencodeStorageDir(): string {
     const base = process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share');
     return join(base, 'opencode', 'storage');
 }
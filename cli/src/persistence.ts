@@ -21,6 +21,21 @@ interface Settings {
   apiUrl?: string
   // Legacy field name (for migration, read-only)
   serverUrl?: string
+  // Extra Agent Client Protocol agents, spawned as the `acp:<name>` flavor
+  acpAgents?: AcpAgentSettings[]
+}
+
+/**
+ * An ACP agent declared in settings.json. Validated when read, since the file is hand-edited.
+ */
+export interface AcpAgentSettings {
+  name: string
+  displayName?: string
+  command: string
+  args?: string[]
+  env?: Record<string, string>
+  // Subset of the generic ACP permission modes; the first is the starting mode
+  permissionModes?: string[]
 }
 
 const defaultSettings: Settings = {}
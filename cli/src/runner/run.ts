@@ -20,6 +20,8 @@ import { startRunnerControlServer } from './controlServer';
 import { createWorktree, removeWorktree, type WorktreeInfo } from './worktree';
 import { join } from 'path';
 import { buildMachineMetadata } from '@/agent/sessionFactory';
+import { readAcpAgentConfigs, toAcpAgentInfo, type AcpAgentConfig } from '@/agent/acpAgents';
+import { getAcpAgentName, isAcpAgentFlavor } from '@hapi/protocol';
 
 export async function startRunner(): Promise<void> {
   // We don't have cleanup function at the time of server construction
@@ -187,6 +189,19 @@ export async function startRunner(): Promise<void> {
       let worktreeInfo: WorktreeInfo | null = null;
       let happyProcess: ReturnType<typeof spawnHappyCLI> | null = null;
 
+      let acpAgent: AcpAgentConfig | null = null;
+      if (isAcpAgentFlavor(agent)) {
+        const name = getAcpAgentName(agent);
+        const { agents } = await readAcpAgentConfigs();
+        acpAgent = agents.find((candidate) => candidate.name === name) ?? null;
+        if (!acpAgent) {
+          return {
+            type: 'error',
+            errorMessage: `ACP agent ${name} is not configured on this machine`
+          };
+        }
+      }
+
       if (sessionType === 'simple') {
         try {
           await fs.access(directory);
@@ -323,14 +338,16 @@ export async function startRunner(): Promise<void> {
         }
 
         // Construct arguments for the CLI
-        const agentCommand = agent === 'codex'
-          ? 'codex'
-          : agent === 'gemini'
-            ? 'gemini'
-            : agent === 'opencode'
-              ? 'opencode'
-              : 'claude';
-        const args = [agentCommand];
+        const agentCommand = acpAgent
+          ? 'acp'
+          : agent === 'codex'
+            ? 'codex'
+            : agent === 'gemini'
+              ? 'gemini'
+              : agent === 'opencode'
+                ? 'opencode'
+                : 'claude';
+        const args = acpAgent ? [agentCommand, acpAgent.name] : [agentCommand];
         if (options.resumeSessionId) {
             if (agent === 'codex') {
                 args.push('resume', options.resumeSessionId);
@@ -339,10 +356,11 @@ export async function startRunner(): Promise<void> {
             }
         }
         args.push('--hapi-starting-mode', 'remote', '--started-by', 'runner');
-        if (options.model && agent !== 'opencode') {
+        if (options.model && agent !== 'opencode' && !acpAgent) {
           args.push('--model', options.model);
         }
-        if (yolo) {
+        // ACP agents only start in yolo when their settings allow it
+        if (yolo && (!acpAgent || acpAgent.permissionModes.includes('yolo'))) {
           args.push('--yolo');
         }
 
@@ -565,6 +583,18 @@ export async function startRunner(): Promise<void> {
     // Connect to server
     apiMachine.connect();
 
+    // Advertise the ACP agents declared in settings so they can be spawned from the web app
+    const acpAgentConfigs = await readAcpAgentConfigs();
+    for (const error of acpAgentConfigs.errors) {
+      logger.debug(`[RUNNER RUN] Ignoring ACP agent setting: ${error}`);
+    }
+    apiMachine.updateMachineMetadata((metadata) => ({
+      ...(metadata ?? buildMachineMetadata()),
+      acpAgents: acpAgentConfigs.agents.map(toAcpAgentInfo)
+    })).catch((error) => {
+      logger.debug('[RUNNER RUN] Failed to advertise ACP agents', error);
+    });
+
     // Every 60 seconds:
     // 1. Prune stale sessions
     // 2. Check if runner needs update
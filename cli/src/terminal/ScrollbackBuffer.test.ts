@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { ScrollbackBuffer } from './ScrollbackBuffer'
+
+describe('ScrollbackBuffer', () => {
+    it('keeps everything under the limit', () => {
+        const buffer = new ScrollbackBuffer(100)
+        buffer.append('$ ls\r\n')
+        buffer.append('README.md\r\n')
+        expect(buffer.toString()).toBe('$ ls\r\nREADME.md\r\n')
+    })
+
+    it('drops whole lines from the front once over the limit', () => {
+        const buffer = new ScrollbackBuffer(12)
+        buffer.append('first line\nsecond\n')
+        buffer.append('third\n')
+        expect(buffer.toString()).toBe('third\n')
+    })
+
+    it('cuts output without line breaks at the limit', () => {
+        const buffer = new ScrollbackBuffer(5)
+        buffer.append('abcdef')
+        buffer.append('xyz')
+        expect(buffer.toString()).toBe('efxyz')
+    })
+})
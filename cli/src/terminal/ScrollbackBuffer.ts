@@ -0,0 +1,49 @@
+/**
+ * Bounded record of a terminal's recent output, replayed to viewers that
+ * attach after the output was produced. Drops whole lines from the front once
+ * the limit is reached, so a replay rarely starts in the middle of one.
+ */
+export class ScrollbackBuffer {
+    private chunks: string[] = []
+    private length = 0
+
+    constructor(private readonly limit: number) {}
+
+    append(text: string): void {
+        if (!text || this.limit <= 0) {
+            return
+        }
+        this.chunks.push(text)
+        this.length += text.length
+        this.trim()
+    }
+
+    toString(): string {
+        if (this.chunks.length > 1) {
+            this.chunks = [this.chunks.join('')]
+        }
+        return this.chunks[0] ?? ''
+    }
+
+    private trim(): void {
+        while (this.length > this.limit && this.chunks.length > 0) {
+            const first = this.chunks[0]
+            const excess = this.length - this.limit
+            if (first.length <= excess) {
+                this.chunks.shift()
+                this.length -= first.length
+                continue
+            }
+            const newline = first.indexOf('\n', excess)
+            // Output without line breaks (progress bars, redraws) is cut at the limit
+            const cut = newline === -1 ? excess : newline + 1
+            if (cut >= first.length) {
+                this.chunks.shift()
+                this.length -= first.length
+                continue
+            }
+            this.chunks[0] = first.slice(cut)
+            this.length -= cut
+        }
+    }
+}
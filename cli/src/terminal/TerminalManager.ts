@@ -1,15 +1,23 @@
 import { logger } from '@/ui/logger'
 import type {
+    TerminalAttachResponse,
     TerminalErrorPayload,
     TerminalExitPayload,
     TerminalOutputPayload,
-    TerminalReadyPayload
+    TerminalReadyPayload,
+    TerminalRecordingPayload,
+    TerminalRecordingStatus
 } from '@hapi/protocol'
+import { SENSITIVE_ENV_KEYS } from './redaction'
+import { ScrollbackBuffer } from './ScrollbackBuffer'
+import { TerminalRecorder, type TerminalRecordingOptions } from './TerminalRecorder'
 import type { TerminalSession } from './types'
 
-type TerminalRuntime = TerminalSession & {
+type TerminalRuntime = Omit<TerminalSession, 'recording'> & {
     proc: Bun.Subprocess
     terminal: Bun.Terminal
+    scrollback: ScrollbackBuffer
+    recorder: TerminalRecorder | null
     idleTimer: ReturnType<typeof setTimeout> | null
 }
 
@@ -20,22 +28,19 @@ type TerminalManagerOptions = {
     onOutput: (payload: TerminalOutputPayload) => void
     onExit: (payload: TerminalExitPayload) => void
     onError: (payload: TerminalErrorPayload) => void
+    onRecording: (payload: TerminalRecordingPayload) => void
+    getRecordingsDir: () => string
     idleTimeoutMs?: number
     maxTerminals?: number
+    scrollbackChars?: number
+    maxRecordingBytes?: number
 }
 
-const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60_000
+// Terminals outlive their viewers, so this only reaps shells nobody uses
+const DEFAULT_IDLE_TIMEOUT_MS = 60 * 60_000
 const DEFAULT_MAX_TERMINALS = 4
-const SENSITIVE_ENV_KEYS = new Set([
-    'CLI_API_TOKEN',
-    'HAPI_API_URL',
-    'HAPI_HTTP_MCP_URL',
-    'TELEGRAM_BOT_TOKEN',
-    'OPENAI_API_KEY',
-    'ANTHROPIC_API_KEY',
-    'GEMINI_API_KEY',
-    'GOOGLE_API_KEY'
-])
+const DEFAULT_SCROLLBACK_CHARS = 256 * 1024
+const DEFAULT_MAX_RECORDING_BYTES = 20 * 1024 * 1024
 
 function resolveEnvNumber(name: string, fallback: number): number {
     const raw = process.env[name]
@@ -46,7 +51,7 @@ function resolveEnvNumber(name: string, fallback: number): number {
     return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
 }
 
-function resolveShell(): string {
+export function resolveShell(): string {
     if (process.env.SHELL) {
         return process.env.SHELL
     }
@@ -56,7 +61,7 @@ function resolveShell(): string {
     return '/bin/bash'
 }
 
-function buildFilteredEnv(): NodeJS.ProcessEnv {
+export function buildFilteredEnv(): NodeJS.ProcessEnv {
     const env: NodeJS.ProcessEnv = {}
     for (const [key, value] of Object.entries(process.env)) {
         if (!value) {
@@ -77,8 +82,12 @@ export class TerminalManager {
     private readonly onOutput: (payload: TerminalOutputPayload) => void
     private readonly onExit: (payload: TerminalExitPayload) => void
     private readonly onError: (payload: TerminalErrorPayload) => void
+    private readonly onRecording: (payload: TerminalRecordingPayload) => void
+    private readonly getRecordingsDir: () => string
     private readonly idleTimeoutMs: number
     private readonly maxTerminals: number
+    private readonly scrollbackChars: number
+    private readonly maxRecordingBytes: number
     private readonly terminals: Map<string, TerminalRuntime> = new Map()
     private readonly filteredEnv: NodeJS.ProcessEnv
 
@@ -89,8 +98,12 @@ export class TerminalManager {
         this.onOutput = options.onOutput
         this.onExit = options.onExit
         this.onError = options.onError
+        this.onRecording = options.onRecording
+        this.getRecordingsDir = options.getRecordingsDir
         this.idleTimeoutMs = options.idleTimeoutMs ?? resolveEnvNumber('HAPI_TERMINAL_IDLE_TIMEOUT_MS', DEFAULT_IDLE_TIMEOUT_MS)
         this.maxTerminals = options.maxTerminals ?? resolveEnvNumber('HAPI_TERMINAL_MAX_TERMINALS', DEFAULT_MAX_TERMINALS)
+        this.scrollbackChars = options.scrollbackChars ?? resolveEnvNumber('HAPI_TERMINAL_SCROLLBACK_CHARS', DEFAULT_SCROLLBACK_CHARS)
+        this.maxRecordingBytes = options.maxRecordingBytes ?? resolveEnvNumber('HAPI_TERMINAL_RECORDING_MAX_BYTES', DEFAULT_MAX_RECORDING_BYTES)
         this.filteredEnv = buildFilteredEnv()
     }
 
@@ -133,10 +146,12 @@ export class TerminalManager {
                     rows,
                     data: (terminal, data) => {
                         const text = decoder.decode(data, { stream: true })
+                        const active = this.terminals.get(terminalId)
                         if (text) {
+                            active?.scrollback.append(text)
+                            active?.recorder?.output(text)
                             this.onOutput({ sessionId: this.sessionId, terminalId, data: text })
                         }
-                        const active = this.terminals.get(terminalId)
                         if (active) {
                             this.markActivity(active)
                         }
@@ -170,12 +185,17 @@ export class TerminalManager {
                 return
             }
 
+            const now = Date.now()
             const runtime: TerminalRuntime = {
                 terminalId,
                 cols,
                 rows,
+                createdAt: now,
+                lastActivityAt: now,
                 proc,
                 terminal,
+                scrollback: new ScrollbackBuffer(this.scrollbackChars),
+                recorder: null,
                 idleTimer: null
             }
 
@@ -195,6 +215,7 @@ export class TerminalManager {
             return
         }
         runtime.terminal.write(data)
+        runtime.recorder?.input(data)
         this.markActivity(runtime)
     }
 
@@ -206,9 +227,102 @@ export class TerminalManager {
         runtime.cols = cols
         runtime.rows = rows
         runtime.terminal.resize(cols, rows)
+        runtime.recorder?.resize(cols, rows)
         this.markActivity(runtime)
     }
 
+    /**
+     * Hands a running terminal to a new viewer: its scrollback for replay and
+     * its current size. The controller passes its own size to take over the
+     * layout; watchers leave it alone.
+     */
+    attach(terminalId: string, cols?: number, rows?: number): TerminalAttachResponse {
+        const runtime = this.terminals.get(terminalId)
+        if (!runtime) {
+            return { ok: false, error: 'Terminal not found.' }
+        }
+        if (cols !== undefined && rows !== undefined && (cols !== runtime.cols || rows !== runtime.rows)) {
+            runtime.cols = cols
+            runtime.rows = rows
+            runtime.terminal.resize(cols, rows)
+            runtime.recorder?.resize(cols, rows)
+        }
+        this.markActivity(runtime)
+        return {
+            ok: true,
+            scrollback: runtime.scrollback.toString(),
+            cols: runtime.cols,
+            rows: runtime.rows,
+            recording: this.getRecordingStatus(runtime)
+        }
+    }
+
+    list(): TerminalSession[] {
+        return Array.from(this.terminals.values())
+            .map((runtime) => ({
+                terminalId: runtime.terminalId,
+                cols: runtime.cols,
+                rows: runtime.rows,
+                createdAt: runtime.createdAt,
+                lastActivityAt: runtime.lastActivityAt,
+                recording: this.getRecordingStatus(runtime)
+            }))
+            .sort((a, b) => a.createdAt - b.createdAt)
+    }
+
+    /**
+     * Starts or (with null) stops recording a terminal; every change is
+     * reported through onRecording so all viewers see it.
+     */
+    setRecording(terminalId: string, options: TerminalRecordingOptions | null): void {
+        const runtime = this.terminals.get(terminalId)
+        if (!runtime) {
+            this.emitError(terminalId, 'Terminal not found.')
+            return
+        }
+
+        void runtime.recorder?.close()
+        runtime.recorder = null
+        if (options) {
+            try {
+                const recorder = new TerminalRecorder(
+                    this.getRecordingsDir(),
+                    terminalId,
+                    { cols: runtime.cols, rows: runtime.rows },
+                    options,
+                    this.maxRecordingBytes,
+                    () => {
+                        if (runtime.recorder === recorder) {
+                            runtime.recorder = null
+                            this.onRecording({
+                                sessionId: this.sessionId,
+                                terminalId,
+                                recording: null,
+                                error: 'Recording stopped at the size limit.'
+                            })
+                        }
+                    }
+                )
+                runtime.recorder = recorder
+            } catch (error) {
+                logger.debug('[TERMINAL] Failed to start recording', { error })
+                this.onRecording({ sessionId: this.sessionId, terminalId, recording: null, error: 'Failed to start recording.' })
+                return
+            }
+        }
+        this.onRecording({ sessionId: this.sessionId, terminalId, recording: this.getRecordingStatus(runtime) })
+    }
+
+    getActiveRecordingIds(): Set<string> {
+        const ids = new Set<string>()
+        for (const runtime of this.terminals.values()) {
+            if (runtime.recorder) {
+                ids.add(runtime.recorder.recordingId)
+            }
+        }
+        return ids
+    }
+
     close(terminalId: string): void {
         this.cleanup(terminalId)
     }
@@ -220,6 +334,7 @@ export class TerminalManager {
     }
 
     private markActivity(runtime: TerminalRuntime): void {
+        runtime.lastActivityAt = Date.now()
         this.scheduleIdleTimer(runtime)
     }
 
@@ -248,6 +363,8 @@ export class TerminalManager {
         if (runtime.idleTimer) {
             clearTimeout(runtime.idleTimer)
         }
+        void runtime.recorder?.close()
+        runtime.recorder = null
 
         if (!runtime.proc.killed && runtime.proc.exitCode === null) {
             try {
@@ -264,6 +381,12 @@ export class TerminalManager {
         }
     }
 
+    private getRecordingStatus(runtime: TerminalRuntime): TerminalRecordingStatus | null {
+        return runtime.recorder
+            ? { recordingId: runtime.recorder.recordingId, input: runtime.recorder.recordsInput }
+            : null
+    }
+
     private emitError(terminalId: string, message: string): void {
         this.onError({ sessionId: this.sessionId, terminalId, message })
     }
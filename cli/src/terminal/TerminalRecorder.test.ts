@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { mkdir, readFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+    getTerminalRecordingPath,
+    listTerminalRecordings,
+    readTerminalRecordingChunk,
+    TerminalRecorder
+} from './TerminalRecorder'
+
+async function readEvents(path: string): Promise<unknown[]> {
+    const lines = (await readFile(path, 'utf8')).trim().split('\n')
+    return lines.map((line) => JSON.parse(line))
+}
+
+describe('TerminalRecorder', () => {
+    let dir: string
+
+    beforeEach(async () => {
+        dir = join(tmpdir(), `hapi-recordings-${Date.now()}-${Math.random().toString(16).slice(2)}`)
+        await mkdir(dir, { recursive: true })
+    })
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true })
+    })
+
+    it('writes an asciicast v2 file and skips input unless asked', async () => {
+        const recorder = new TerminalRecorder(dir, 'term-1', { cols: 80, rows: 24 }, { input: false }, 1024 * 1024, () => {})
+        recorder.output('hello\r\n')
+        recorder.input('ls\r')
+        recorder.resize(100, 30)
+        await recorder.close()
+
+        const path = getTerminalRecordingPath(dir, recorder.recordingId)!
+        const [header, ...events] = await readEvents(path)
+        expect(header).toMatchObject({ version: 2, width: 80, height: 24, hapi: { terminalId: 'term-1', input: false } })
+        expect(events.map((event) => (event as unknown[]).slice(1))).toEqual([
+            ['o', 'hello\r\n'],
+            ['r', '100x30']
+        ])
+    })
+
+    it('records input when opted in and stops at the size limit', async () => {
+        let limited = false
+        const recorder = new TerminalRecorder(dir, 'term-2', { cols: 80, rows: 24 }, { input: true }, 400, () => {
+            limited = true
+        })
+        recorder.input('pwd\r')
+        recorder.output('x'.repeat(500))
+        recorder.output('after limit')
+        await recorder.close()
+
+        expect(limited).toBe(true)
+        const events = (await readEvents(getTerminalRecordingPath(dir, recorder.recordingId)!)).slice(1)
+        expect(events.map((event) => (event as unknown[]).slice(1))).toEqual([['i', 'pwd\r']])
+    })
+
+    it('lists recordings and reads them in chunks', async () => {
+        const recorder = new TerminalRecorder(dir, 'term-3', { cols: 80, rows: 24 }, { input: false }, 1024 * 1024, () => {})
+        recorder.output('done\r\n')
+        await recorder.close()
+
+        const recordings = await listTerminalRecordings(dir, new Set())
+        expect(recordings).toHaveLength(1)
+        expect(recordings[0]).toMatchObject({ recordingId: recorder.recordingId, terminalId: 'term-3', active: false })
+
+        const path = getTerminalRecordingPath(dir, recorder.recordingId)!
+        const first = await readTerminalRecordingChunk(path, 0, 10)
+        expect(first.content.length).toBe(10)
+        expect(first.eof).toBe(false)
+        const rest = await readTerminalRecordingChunk(path, 10, first.size)
+        expect(rest.eof).toBe(true)
+        expect(Buffer.concat([first.content, rest.content]).toString('utf8')).toBe(await readFile(path, 'utf8'))
+    })
+
+    it('rejects recording ids that could escape the directory', () => {
+        expect(getTerminalRecordingPath(dir, '../secrets')).toBeNull()
+    })
+})
@@ -0,0 +1,193 @@
+import { createWriteStream, mkdirSync, type WriteStream } from 'node:fs'
+import { open, readdir, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { TerminalRecordingSummary } from '@hapi/protocol'
+import { logger } from '@/ui/logger'
+import { StreamRedactor } from './redaction'
+
+export type TerminalRecordingOptions = {
+    // Keystrokes are recorded only when asked for separately
+    input: boolean
+}
+
+type AsciicastHeader = {
+    version: 2
+    width: number
+    height: number
+    timestamp: number
+    title?: string
+    env?: Record<string, string>
+    // Not part of asciicast; players ignore unknown keys
+    hapi?: { terminalId: string; input: boolean }
+}
+
+const RECORDING_EXTENSION = '.cast'
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+const MAX_HEADER_BYTES = 4096
+// Chunks are relayed through the hub socket, which caps message size at 1MB
+export const MAX_RECORDING_CHUNK_BYTES = 512 * 1024
+
+export function isRecordingId(value: string): boolean {
+    return RECORDING_ID_PATTERN.test(value)
+}
+
+/**
+ * Writes one terminal's output (and optionally input) as an asciicast v2 file,
+ * with sensitive values redacted before anything reaches the disk.
+ */
+export class TerminalRecorder {
+    readonly recordingId: string
+    readonly recordsInput: boolean
+    private readonly stream: WriteStream
+    private readonly startedAt: number
+    private readonly outputRedactor = new StreamRedactor()
+    private readonly inputRedactor = new StreamRedactor()
+    private bytesWritten = 0
+    private closed = false
+
+    constructor(
+        dir: string,
+        terminalId: string,
+        size: { cols: number; rows: number },
+        options: TerminalRecordingOptions,
+        private readonly maxBytes: number,
+        private readonly onLimit: () => void
+    ) {
+        this.startedAt = Date.now()
+        this.recordsInput = options.input
+        this.recordingId = `${this.startedAt}-${terminalId.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 36)}`
+        mkdirSync(dir, { recursive: true, mode: 0o700 })
+        this.stream = createWriteStream(join(dir, `${this.recordingId}${RECORDING_EXTENSION}`), { flags: 'wx', mode: 0o600 })
+        this.stream.on('error', (error) => {
+            logger.debug('[TERMINAL] Recording write failed', { error })
+        })
+
+        const header: AsciicastHeader = {
+            version: 2,
+            width: size.cols,
+            height: size.rows,
+            timestamp: Math.floor(this.startedAt / 1000),
+            title: `Terminal ${terminalId.slice(0, 8)}`,
+            env: { SHELL: process.env.SHELL ?? '', TERM: 'xterm-256color' },
+            hapi: { terminalId, input: options.input }
+        }
+        this.writeLine(JSON.stringify(header))
+    }
+
+    output(text: string): void {
+        this.writeEvent('o', this.outputRedactor.push(text))
+    }
+
+    input(text: string): void {
+        if (this.recordsInput) {
+            this.writeEvent('i', this.inputRedactor.push(text))
+        }
+    }
+
+    resize(cols: number, rows: number): void {
+        this.writeEvent('r', `${cols}x${rows}`)
+    }
+
+    // Resolves once everything written so far is on disk
+    close(): Promise<void> {
+        if (!this.closed) {
+            this.writeEvent('o', this.outputRedactor.flush())
+            if (this.recordsInput) {
+                this.writeEvent('i', this.inputRedactor.flush())
+            }
+            this.closed = true
+            this.stream.end()
+        }
+        return new Promise((resolve) => {
+            if (this.stream.writableFinished || this.stream.destroyed) {
+                resolve()
+                return
+            }
+            this.stream.once('close', () => resolve())
+        })
+    }
+
+    private writeEvent(code: 'o' | 'i' | 'r', data: string): void {
+        if (!data || this.closed) {
+            return
+        }
+        const elapsed = (Date.now() - this.startedAt) / 1000
+        this.writeLine(JSON.stringify([Number(elapsed.toFixed(6)), code, data]))
+    }
+
+    private writeLine(line: string): void {
+        const bytes = Buffer.byteLength(line) + 1
+        if (this.bytesWritten + bytes > this.maxBytes) {
+            this.closed = true
+            this.stream.end()
+            this.onLimit()
+            return
+        }
+        this.bytesWritten += bytes
+        this.stream.write(`${line}\n`)
+    }
+}
+
+async function readHeader(path: string): Promise<AsciicastHeader | null> {
+    const handle = await open(path, 'r')
+    try {
+        const buffer = Buffer.alloc(MAX_HEADER_BYTES)
+        const { bytesRead } = await handle.read(buffer, 0, MAX_HEADER_BYTES, 0)
+        const firstLine = buffer.subarray(0, bytesRead).toString('utf8').split('\n')[0]
+        const parsed = JSON.parse(firstLine) as AsciicastHeader
+        return parsed.version === 2 ? parsed : null
+    } catch {
+        return null
+    } finally {
+        await handle.close()
+    }
+}
+
+export async function listTerminalRecordings(dir: string, activeIds: Set<string>): Promise<TerminalRecordingSummary[]> {
+    const names = await readdir(dir).catch(() => [] as string[])
+    const recordings: TerminalRecordingSummary[] = []
+    for (const name of names) {
+        if (!name.endsWith(RECORDING_EXTENSION)) {
+            continue
+        }
+        const recordingId = name.slice(0, -RECORDING_EXTENSION.length)
+        if (!isRecordingId(recordingId)) {
+            continue
+        }
+        const path = join(dir, name)
+        const [info, header] = await Promise.all([stat(path).catch(() => null), readHeader(path).catch(() => null)])
+        if (!info || !header) {
+            continue
+        }
+        recordings.push({
+            recordingId,
+            terminalId: header.hapi?.terminalId ?? '',
+            startedAt: header.timestamp * 1000,
+            size: info.size,
+            input: header.hapi?.input ?? false,
+            active: activeIds.has(recordingId)
+        })
+    }
+    return recordings.sort((a, b) => b.startedAt - a.startedAt)
+}
+
+export function getTerminalRecordingPath(dir: string, recordingId: string): string | null {
+    return isRecordingId(recordingId) ? join(dir, `${recordingId}${RECORDING_EXTENSION}`) : null
+}
+
+export async function readTerminalRecordingChunk(
+    path: string,
+    offset: number,
+    length: number
+): Promise<{ content: Buffer; size: number; eof: boolean }> {
+    const handle = await open(path, 'r')
+    try {
+        const { size } = await handle.stat()
+        const start = Math.min(Math.max(0, offset), size)
+        const buffer = Buffer.alloc(Math.min(Math.max(0, length), MAX_RECORDING_CHUNK_BYTES, size - start))
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start)
+        return { content: buffer.subarray(0, bytesRead), size, eof: start + bytesRead >= size }
+    } finally {
+        await handle.close()
+    }
+}
@@ -0,0 +1,63 @@
+import { afterAll, describe, expect, it, vi } from 'vitest'
+import { rmSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager'
+
+// The configuration reads HAPI_HOME when it is first imported
+const homeDir = vi.hoisted(() => {
+    const { mkdtempSync } = require('fs') as typeof import('fs')
+    const { join } = require('path') as typeof import('path')
+    const { tmpdir } = require('os') as typeof import('os')
+    const path = mkdtempSync(join(tmpdir(), 'hapi-home-'))
+    process.env.HAPI_HOME = path
+    return path
+})
+
+import { getTerminalRecordingsDir } from '@/constants/sessionPaths'
+import { registerMachineRecordingHandlers } from './recordingHandlers'
+import { getTerminalRecordingPath, TerminalRecorder } from './TerminalRecorder'
+
+type RecordingResult = {
+    success: boolean
+    recordings?: Array<{ recordingId: string; active: boolean }>
+    content?: string
+    eof?: boolean
+    error?: string
+}
+
+describe('machine recording handlers', () => {
+    const rpc = new RpcHandlerManager({ scopePrefix: 'machine-test' })
+    registerMachineRecordingHandlers(rpc)
+
+    async function call(method: string, params: unknown): Promise<RecordingResult> {
+        const response = await rpc.handleRequest({
+            method: `machine-test:${method}`,
+            params: JSON.stringify(params)
+        })
+        return JSON.parse(response) as RecordingResult
+    }
+
+    afterAll(() => {
+        rmSync(homeDir, { recursive: true, force: true })
+    })
+
+    it('serves recordings of a session that has ended', async () => {
+        const dir = getTerminalRecordingsDir('session-1')
+        const recorder = new TerminalRecorder(dir, 'term-1', { cols: 80, rows: 24 }, { input: false }, 1024 * 1024, () => {})
+        recorder.output('hello\r\n')
+        await recorder.close()
+
+        const listed = await call('session-recordings-list', { sessionId: 'session-1' })
+        expect(listed.recordings).toMatchObject([{ recordingId: recorder.recordingId, active: false }])
+
+        const read = await call('session-recording-read', { sessionId: 'session-1', recordingId: recorder.recordingId })
+        expect(read.eof).toBe(true)
+        const path = getTerminalRecordingPath(dir, recorder.recordingId)!
+        expect(Buffer.from(read.content!, 'base64').toString('utf8')).toBe(await readFile(path, 'utf8'))
+    })
+
+    it('rejects session ids that would leave HAPI_HOME', async () => {
+        expect((await call('session-recordings-list', { sessionId: '../other' })).error).toBe('Invalid session id')
+        expect((await call('session-recording-read', { sessionId: '..', recordingId: 'x' })).error).toBe('Invalid session id')
+    })
+})
@@ -0,0 +1,91 @@
+import type { TerminalRecordingSummary } from '@hapi/protocol'
+import type { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager'
+import { getTerminalRecordingsDir } from '@/constants/sessionPaths'
+import { rpcError } from '@/modules/common/rpcResponses'
+import { logger } from '@/ui/logger'
+import {
+    getTerminalRecordingPath,
+    listTerminalRecordings,
+    MAX_RECORDING_CHUNK_BYTES,
+    readTerminalRecordingChunk
+} from './TerminalRecorder'
+
+// Session ids name a directory under HAPI_HOME, so nothing that could leave it
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+interface RecordingReadRequest {
+    recordingId: string
+    offset?: number
+    length?: number
+}
+
+interface RecordingListResponse {
+    success: boolean
+    recordings?: TerminalRecordingSummary[]
+    error?: string
+}
+
+interface RecordingReadResponse {
+    success: boolean
+    content?: string
+    size?: number
+    eof?: boolean
+    error?: string
+}
+
+async function readRecording(sessionId: string, data: RecordingReadRequest | undefined): Promise<RecordingReadResponse> {
+    const path = getTerminalRecordingPath(getTerminalRecordingsDir(sessionId), String(data?.recordingId ?? ''))
+    if (!path) {
+        return rpcError('Invalid recording id')
+    }
+    try {
+        const chunk = await readTerminalRecordingChunk(path, Number(data?.offset) || 0, Number(data?.length) || MAX_RECORDING_CHUNK_BYTES)
+        return { success: true, content: chunk.content.toString('base64'), size: chunk.size, eof: chunk.eof }
+    } catch (error) {
+        logger.debug('[TERMINAL] Failed to read recording', { error })
+        return rpcError('Recording not found')
+    }
+}
+
+/**
+ * Session-scoped handlers the hub uses while the session's CLI is running
+ */
+export function registerSessionRecordingHandlers(
+    rpcHandlerManager: RpcHandlerManager,
+    sessionId: string,
+    getActiveRecordingIds: () => Set<string>
+): void {
+    rpcHandlerManager.registerHandler<unknown, RecordingListResponse>('terminal-recordings-list', async () => ({
+        success: true,
+        recordings: await listTerminalRecordings(getTerminalRecordingsDir(sessionId), getActiveRecordingIds())
+    }))
+
+    rpcHandlerManager.registerHandler<RecordingReadRequest, RecordingReadResponse>('terminal-recording-read', async (data) => {
+        return await readRecording(sessionId, data)
+    })
+}
+
+/**
+ * Machine-scoped handlers the hub uses once a session has ended; the
+ * recordings stay in the session's data dir on this machine
+ */
+export function registerMachineRecordingHandlers(rpcHandlerManager: RpcHandlerManager): void {
+    rpcHandlerManager.registerHandler<{ sessionId: string }, RecordingListResponse>('session-recordings-list', async (data) => {
+        const sessionId = String(data?.sessionId ?? '')
+        if (!SESSION_ID_PATTERN.test(sessionId)) {
+            return rpcError('Invalid session id')
+        }
+        return {
+            success: true,
+            recordings: await listTerminalRecordings(getTerminalRecordingsDir(sessionId), new Set())
+        }
+    })
+
+    rpcHandlerManager.registerHandler<RecordingReadRequest & { sessionId: string }, RecordingReadResponse>('session-recording-read', async (data) => {
+        const sessionId = String(data?.sessionId ?? '')
+        if (!SESSION_ID_PATTERN.test(sessionId)) {
+            return rpcError('Invalid session id')
+        }
+        return await readRecording(sessionId, data)
+    })
+}
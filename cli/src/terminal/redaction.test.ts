@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { StreamRedactor } from './redaction'
+
+const env = { OPENAI_API_KEY: 'sk-test-1234567890', HOME: '/home/dev' }
+
+describe('StreamRedactor', () => {
+    it('replaces sensitive values and assignments', () => {
+        const redactor = new StreamRedactor(env)
+        const output = redactor.push('key is sk-test-1234567890\nexport ANTHROPIC_API_KEY=abc123 && ls\n') + redactor.flush()
+        expect(output).toBe('key is [REDACTED:OPENAI_API_KEY]\nexport ANTHROPIC_API_KEY=[REDACTED] && ls\n')
+    })
+
+    it('catches secrets split across chunks', () => {
+        const redactor = new StreamRedactor(env)
+        const first = redactor.push('echo sk-test-12')
+        expect(first).toBe('echo ')
+        const output = first + redactor.push('34567890 done\n') + redactor.flush()
+        expect(output).toBe('echo [REDACTED:OPENAI_API_KEY] done\n')
+    })
+
+    it('passes ordinary output through without delay', () => {
+        const redactor = new StreamRedactor(env)
+        expect(redactor.push('$ ls /home/dev\r\n')).toBe('$ ls /home/dev\r\n')
+    })
+})
@@ -0,0 +1,84 @@
+// Never handed to terminal shells, and scrubbed from terminal recordings
+export const SENSITIVE_ENV_KEYS = new Set([
+    'CLI_API_TOKEN',
+    'HAPI_API_URL',
+    'HAPI_HTTP_MCP_URL',
+    'TELEGRAM_BOT_TOKEN',
+    'OPENAI_API_KEY',
+    'ANTHROPIC_API_KEY',
+    'GEMINI_API_KEY',
+    'GOOGLE_API_KEY'
+])
+
+// Shorter values ('1', 'true') would redact ordinary output
+const MIN_SECRET_LENGTH = 8
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Scrubs the values of SENSITIVE_ENV_KEYS, and `KEY=value` assignments of
+ * them, from a stream of terminal data. Text that could be the start of a
+ * secret split across chunks is held back until the next chunk or flush().
+ */
+export class StreamRedactor {
+    private readonly secrets: Array<{ key: string; value: string }>
+    private readonly needles: string[]
+    private readonly assignment: RegExp
+    private readonly openAssignment: RegExp
+    private pending = ''
+
+    constructor(env: NodeJS.ProcessEnv = process.env) {
+        const keys = Array.from(SENSITIVE_ENV_KEYS)
+        this.secrets = keys
+            .map((key) => ({ key, value: env[key] ?? '' }))
+            .filter((secret) => secret.value.length >= MIN_SECRET_LENGTH)
+            .sort((a, b) => b.value.length - a.value.length)
+        this.needles = [...this.secrets.map((secret) => secret.value), ...keys.map((key) => `${key}=`)]
+        const names = keys.map(escapeRegExp).join('|')
+        this.assignment = new RegExp(`\\b(${names})=(?!\\[REDACTED)[^\\s'"]+`, 'g')
+        this.openAssignment = new RegExp(`\\b(?:${names})=[^\\s'"]*$`)
+    }
+
+    push(text: string): string {
+        const combined = this.pending + text
+        const hold = this.holdLength(combined)
+        this.pending = combined.slice(combined.length - hold)
+        return this.redact(combined.slice(0, combined.length - hold))
+    }
+
+    flush(): string {
+        const rest = this.pending
+        this.pending = ''
+        return this.redact(rest)
+    }
+
+    private redact(text: string): string {
+        if (!text) {
+            return text
+        }
+        let result = text
+        for (const secret of this.secrets) {
+            result = result.split(secret.value).join(`[REDACTED:${secret.key}]`)
+        }
+        return result.replace(this.assignment, '$1=[REDACTED]')
+    }
+
+    private holdLength(text: string): number {
+        let hold = 0
+        const open = this.openAssignment.exec(text)
+        if (open) {
+            hold = text.length - open.index
+        }
+        for (const needle of this.needles) {
+            for (let length = Math.min(needle.length - 1, text.length); length > hold; length -= 1) {
+                if (text.endsWith(needle.slice(0, length))) {
+                    hold = length
+                    break
+                }
+            }
+        }
+        return hold
+    }
+}
@@ -1,5 +1,10 @@
+import type { TerminalRecordingStatus } from '@hapi/protocol'
+
 export type TerminalSession = {
     terminalId: string
     cols: number
     rows: number
+    createdAt: number
+    lastActivityAt: number
+    recording: TerminalRecordingStatus | null
 }
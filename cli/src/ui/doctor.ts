@@ -15,6 +15,8 @@ import { existsSync, readdirSync, statSync } from 'node:fs'
 import { readFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { isBunCompiled, projectPath, runtimePath } from '@/projectPath'
+import { listOutboxJournals } from '@/api/outboxJournal'
+import { OUTBOX_PERSIST_ENABLED } from '@/api/socketOutbox'
 import packageJson from '../../package.json'
 
 /**
@@ -65,6 +67,16 @@ function getLogFiles(logDir: string): { file: string, path: string, modified: Da
     }
 }
 
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Run doctor command specifically for runner diagnostics
  */
@@ -147,6 +159,27 @@ export async function runDoctorCommand(filter?: 'all' | 'runner'): Promise<void>
             console.log(chalk.gray('  Run `hapi auth login` to configure or set CLI_API_TOKEN env var'));
         }
 
+        // Messages the hub never acknowledged, kept by sessions with HAPI_OUTBOX_PERSIST
+        console.log(chalk.bold('\n📮 Outbox'));
+        console.log(`Persistent journal: ${OUTBOX_PERSIST_ENABLED ? chalk.green('enabled') : chalk.gray('disabled (set HAPI_OUTBOX_PERSIST=1)')}`);
+        const journals = listOutboxJournals(join(configuration.happyHomeDir, 'sessions'));
+        if (journals.length === 0) {
+            console.log(chalk.gray('No outbox journals found'));
+        }
+        for (const journal of journals.slice(0, 10)) {
+            const pending = journal.pendingItems > 0
+                ? chalk.yellow(`${journal.pendingItems} pending (${formatBytes(journal.pendingBytes)})`)
+                : chalk.green('nothing pending');
+            console.log(`  ${chalk.green(journal.sessionId)} - ${pending} - ${journal.modified.toLocaleString()}`);
+            for (const [reason, total] of Object.entries(journal.drops)) {
+                console.log(chalk.red(`    dropped ${total.count} (${formatBytes(total.bytes)}): ${reason}`));
+            }
+            console.log(chalk.gray(`    ${journal.path}`));
+        }
+        if (journals.length > 10) {
+            console.log(chalk.gray(`  ... and ${journals.length - 10} more journals`));
+        }
+
     }
 
     // Runner status - shown for both 'all' and 'runner' filters
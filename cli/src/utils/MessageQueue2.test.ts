@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { MessageQueue2 } from './MessageQueue2';
 import { hashObject } from './deterministicJson';
 
@@ -401,6 +401,8 @@ describe('MessageQueue2', () => {
         
         // Manually add an isolated message without clearing (simulating edge case)
         queue.queue.push({
+            id: 'isolated',
+            createdAt: Date.now(),
             message: 'isolated',
             mode: { type: 'A' },
             modeHash: 'A',
@@ -456,4 +458,79 @@ describe('MessageQueue2', () => {
         expect(batch3?.message).toBe('after-isolated');
         expect(batch3?.mode.type).toBe('B');
     });
-});
\ No newline at end of file
+
+    it('should list pending messages and edit or remove them by id', async () => {
+        const queue = new MessageQueue2<string>((mode) => mode);
+        queue.push('first', 'A');
+        queue.push('second', 'A');
+        queue.push('third', 'A');
+
+        const [first, second, third] = queue.list();
+        expect(queue.list().map((item) => item.message)).toEqual(['first', 'second', 'third']);
+
+        expect(queue.update(second.id, 'second (edited)')).toBe(true);
+        expect(queue.remove(first.id)).toBe(true);
+        expect(queue.remove(first.id)).toBe(false);
+        expect(queue.update(first.id, 'gone')).toBe(false);
+
+        const batch = await queue.waitForMessagesAndGetAsString();
+        expect(batch?.message).toBe('second (edited)\nthird');
+        expect(queue.update(third.id, 'too late')).toBe(false);
+    });
+
+    it('should reorder pending messages and keep unknown ones at the end', () => {
+        const queue = new MessageQueue2<string>((mode) => mode);
+        queue.push('a', 'A');
+        queue.push('b', 'A');
+        queue.push('c', 'A');
+        const [a, b, c] = queue.list();
+
+        queue.reorder([c.id, 'missing', a.id]);
+        expect(queue.list().map((item) => item.id)).toEqual([c.id, a.id, b.id]);
+    });
+
+    it('should process a prioritized message alone before the rest', async () => {
+        const queue = new MessageQueue2<string>((mode) => mode);
+        queue.push('a', 'A');
+        queue.push('b', 'A');
+        queue.push('c', 'A');
+        const [, , c] = queue.list();
+
+        expect(queue.prioritize(c.id)).toBe(true);
+
+        const batch1 = await queue.waitForMessagesAndGetAsString();
+        expect(batch1?.message).toBe('c');
+        expect(batch1?.isolate).toBe(true);
+
+        const batch2 = await queue.waitForMessagesAndGetAsString();
+        expect(batch2?.message).toBe('a\nb');
+    });
+
+    it('should take one message per turn when merging is off', async () => {
+        const queue = new MessageQueue2<string>((mode) => mode);
+        expect(queue.isMerging()).toBe(true);
+        queue.setMerge(false);
+        queue.push('a', 'A');
+        queue.push('b', 'A');
+
+        expect((await queue.waitForMessagesAndGetAsString())?.message).toBe('a');
+        expect((await queue.waitForMessagesAndGetAsString())?.message).toBe('b');
+    });
+
+    it('should report every change to the pending messages', async () => {
+        const queue = new MessageQueue2<string>((mode) => mode);
+        const onChange = vi.fn();
+        queue.setOnChange(onChange);
+
+        queue.push('a', 'A');
+        queue.push('b', 'A');
+        queue.update(queue.list()[0].id, 'a2');
+        queue.setMerge(false);
+        queue.setMerge(false);
+        expect(onChange).toHaveBeenCalledTimes(4);
+
+        await queue.waitForMessagesAndGetAsString();
+        expect(onChange).toHaveBeenCalledTimes(5);
+        expect(queue.list().map((item) => item.message)).toEqual(['b']);
+    });
+});
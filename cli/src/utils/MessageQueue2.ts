@@ -1,6 +1,9 @@
+import { randomUUID } from "node:crypto";
 import { logger } from "@/ui/logger";
 
 interface QueueItem<T> {
+    id: string;
+    createdAt: number;
     message: string;
     mode: T;
     modeHash: string;
@@ -16,6 +19,9 @@ export class MessageQueue2<T> {
     private waiter: ((hasMessages: boolean) => void) | null = null;
     private closed = false;
     private onMessageHandler: ((message: string, mode: T) => void) | null = null;
+    private onChangeHandler: (() => void) | null = null;
+    // When false, every queued message becomes its own turn
+    private merge = true;
     modeHasher: (mode: T) => string;
 
     constructor(
@@ -34,6 +40,30 @@ export class MessageQueue2<T> {
         this.onMessageHandler = handler;
     }
 
+    /**
+     * Set a handler that will be called whenever the pending messages change
+     */
+    setOnChange(handler: (() => void) | null): void {
+        this.onChangeHandler = handler;
+    }
+
+    private notifyChange(): void {
+        if (this.onChangeHandler) {
+            this.onChangeHandler();
+        }
+    }
+
+    private createItem(message: string, mode: T, modeHash: string, isolate: boolean): QueueItem<T> {
+        return {
+            id: randomUUID(),
+            createdAt: Date.now(),
+            message,
+            mode,
+            modeHash,
+            isolate
+        };
+    }
+
     /**
      * Push a message to the queue with a mode.
      */
@@ -45,17 +75,13 @@ export class MessageQueue2<T> {
         const modeHash = this.modeHasher(mode);
         logger.debug(`[MessageQueue2] push() called with mode hash: ${modeHash}`);
 
-        this.queue.push({
-            message,
-            mode,
-            modeHash,
-            isolate: false
-        });
+        this.queue.push(this.createItem(message, mode, modeHash, false));
 
         // Trigger message handler if set
         if (this.onMessageHandler) {
             this.onMessageHandler(message, mode);
         }
+        this.notifyChange();
 
         // Notify waiter if any
         if (this.waiter) {
@@ -80,17 +106,13 @@ export class MessageQueue2<T> {
         const modeHash = this.modeHasher(mode);
         logger.debug(`[MessageQueue2] pushImmediate() called with mode hash: ${modeHash}`);
 
-        this.queue.push({
-            message,
-            mode,
-            modeHash,
-            isolate: false
-        });
+        this.queue.push(this.createItem(message, mode, modeHash, false));
 
         // Trigger message handler if set
         if (this.onMessageHandler) {
             this.onMessageHandler(message, mode);
         }
+        this.notifyChange();
 
         // Notify waiter if any
         if (this.waiter) {
@@ -119,17 +141,13 @@ export class MessageQueue2<T> {
         // Clear any pending messages to ensure this message is processed in complete isolation
         this.queue = [];
 
-        this.queue.push({
-            message,
-            mode,
-            modeHash,
-            isolate: true
-        });
+        this.queue.push(this.createItem(message, mode, modeHash, true));
 
         // Trigger message handler if set
         if (this.onMessageHandler) {
             this.onMessageHandler(message, mode);
         }
+        this.notifyChange();
 
         // Notify waiter if any
         if (this.waiter) {
@@ -153,17 +171,13 @@ export class MessageQueue2<T> {
         const modeHash = this.modeHasher(mode);
         logger.debug(`[MessageQueue2] unshift() called with mode hash: ${modeHash}`);
 
-        this.queue.unshift({
-            message,
-            mode,
-            modeHash,
-            isolate: false
-        });
+        this.queue.unshift(this.createItem(message, mode, modeHash, false));
 
         // Trigger message handler if set
         if (this.onMessageHandler) {
             this.onMessageHandler(message, mode);
         }
+        this.notifyChange();
 
         // Notify waiter if any
         if (this.waiter) {
@@ -186,6 +200,7 @@ export class MessageQueue2<T> {
 
         // Clear waiter without calling it since we're not closing
         this.waiter = null;
+        this.notifyChange();
     }
 
     /**
@@ -217,6 +232,92 @@ export class MessageQueue2<T> {
         return this.queue.length;
     }
 
+    /**
+     * Pending messages in the order they will be processed
+     */
+    list(): { id: string, message: string, createdAt: number }[] {
+        return this.queue.map((item) => ({
+            id: item.id,
+            message: item.message,
+            createdAt: item.createdAt
+        }));
+    }
+
+    /**
+     * Whether consecutive messages with the same mode are merged into one turn
+     */
+    isMerging(): boolean {
+        return this.merge;
+    }
+
+    setMerge(merge: boolean): void {
+        if (this.merge === merge) {
+            return;
+        }
+        this.merge = merge;
+        this.notifyChange();
+    }
+
+    /**
+     * Replace the text of a pending message. Returns false if it was already taken.
+     */
+    update(id: string, message: string): boolean {
+        const item = this.queue.find((entry) => entry.id === id);
+        if (!item) {
+            return false;
+        }
+        item.message = message;
+        this.notifyChange();
+        return true;
+    }
+
+    /**
+     * Drop a pending message. Returns false if it was already taken.
+     */
+    remove(id: string): boolean {
+        const index = this.queue.findIndex((entry) => entry.id === id);
+        if (index === -1) {
+            return false;
+        }
+        this.queue.splice(index, 1);
+        this.notifyChange();
+        return true;
+    }
+
+    /**
+     * Reorder pending messages by id. Ids that are no longer queued are ignored,
+     * and messages missing from ids keep their relative order at the end.
+     */
+    reorder(ids: string[]): void {
+        const byId = new Map(this.queue.map((item) => [item.id, item]));
+        const ordered: QueueItem<T>[] = [];
+        for (const id of ids) {
+            const item = byId.get(id);
+            if (item) {
+                ordered.push(item);
+                byId.delete(id);
+            }
+        }
+        this.queue = [...ordered, ...this.queue.filter((item) => byId.has(item.id))];
+        this.notifyChange();
+    }
+
+    /**
+     * Move a pending message to the front and process it alone in the next turn.
+     * Returns false if it was already taken.
+     */
+    prioritize(id: string): boolean {
+        const index = this.queue.findIndex((entry) => entry.id === id);
+        if (index === -1) {
+            return false;
+        }
+        const [item] = this.queue.splice(index, 1);
+        item.isolate = true;
+        this.queue.unshift(item);
+        this.notifyChange();
+        return true;
+    }
+
     /**
      * Wait for messages and return all messages with the same mode as a single string
      * Returns { message: string, mode: T } or null if aborted/closed
@@ -265,7 +366,8 @@ export class MessageQueue2<T> {
             // Collect all messages with the same mode until we hit an isolated message
             while (this.queue.length > 0 &&
                 this.queue[0].modeHash === targetModeHash &&
-                !this.queue[0].isolate) {
+                !this.queue[0].isolate &&
+                (this.merge || sameModeMessages.length === 0)) {
                 const item = this.queue.shift()!;
                 sameModeMessages.push(item.message);
             }
@@ -274,6 +376,7 @@ export class MessageQueue2<T> {
 
         // Join all messages with newlines
         const combinedMessage = sameModeMessages.join('\n');
+        this.notifyChange();
 
         return {
             message: combinedMessage,
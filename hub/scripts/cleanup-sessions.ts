@@ -2,6 +2,10 @@
 /**
  * Cleanup script to delete sessions from the database.
  *
+ * For routine pruning of old messages use `hapi hub compact --days N` (or
+ * HAPI_MESSAGE_RETENTION_DAYS); this script removes whole sessions by ad-hoc
+ * criteria. Take a `hapi hub backup` first.
+ *
  * Supports filtering by:
  * - Message count: Delete sessions with fewer than N messages
  * - Path pattern: Delete sessions matching a glob pattern
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import { Store } from '../store'
+import { hashUserToken } from '../utils/userToken'
+import { AuditLog, digestAuditPayload } from './auditLog'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('AuditLog', () => {
+    it('labels the actor and stores a digest instead of the payload', () => {
+        const store = new Store(':memory:')
+        const user = store.users.addTokenUser('alpha', 'Ada', 'operator', hashUserToken('hapi_secret'))
+        const auditLog = new AuditLog(store.auditEvents, store.users, 0)
+
+        const recorded = auditLog.record(
+            { namespace: 'alpha', accountId: user.id, origin: 'voice' },
+            { action: 'message.send', sessionId: 's1', payload: { text: 'rm -rf build', attachments: [] } }
+        )
+        auditLog.record({ namespace: 'alpha', accountId: null, origin: 'web' }, { action: 'session.abort', sessionId: 's1' })
+
+        expect(recorded).toMatchObject({ actor: 'Ada', actorUserId: user.id, origin: 'voice', detail: null })
+        expect(recorded?.payloadDigest).toBe(digestAuditPayload({ attachments: [], text: 'rm -rf build' }))
+        expect(JSON.stringify(store.auditEvents.getEvents('alpha'))).not.toContain('rm -rf')
+        expect(store.auditEvents.getEvents('alpha')[0]).toMatchObject({ actor: 'owner', payloadDigest: null })
+    })
+
+    it('prunes events older than the retention window', () => {
+        const store = new Store(':memory:')
+        const now = Date.now()
+        const auditLog = new AuditLog(store.auditEvents, store.users, 30)
+        try {
+            for (const createdAt of [now - 31 * DAY_MS, now - DAY_MS]) {
+                store.auditEvents.addEvent({
+                    namespace: 'alpha',
+                    actorUserId: null,
+                    actor: 'owner',
+                    origin: 'web',
+                    action: 'session.archive',
+                    sessionId: null,
+                    machineId: null,
+                    detail: null,
+                    payloadDigest: null,
+                    createdAt
+                })
+            }
+
+            expect(auditLog.prune(now)).toBe(1)
+            expect(store.auditEvents.getEvents('alpha')).toHaveLength(1)
+        } finally {
+            auditLog.stop()
+        }
+    })
+})
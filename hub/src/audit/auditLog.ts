@@ -0,0 +1,117 @@
+import { createHash } from 'node:crypto'
+import type { AuditAction, AuditOrigin } from '@hapi/protocol'
+import type { AuditEventStore, StoredAuditEvent, UserStore } from '../store'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+export type AuditActor = {
+    namespace: string
+    // users.id of the caller; null for the CLI_API_TOKEN owner
+    accountId: number | null
+    origin: AuditOrigin
+}
+
+export type AuditEventInput = {
+    action: AuditAction
+    sessionId?: string | null
+    machineId?: string | null
+    // Short human-readable context, e.g. the tool name of a permission request
+    detail?: string | null
+    // Hashed, never stored; lets an investigator confirm what was sent
+    payload?: unknown
+}
+
+function canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(canonicalize)
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value as Record<string, unknown>)
+                .sort()
+                .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+        )
+    }
+    return value
+}
+
+export function digestAuditPayload(payload: unknown): string | null {
+    if (payload === undefined) {
+        return null
+    }
+    const json = JSON.stringify(canonicalize(payload)) ?? 'null'
+    return createHash('sha256').update(json, 'utf8').digest('hex')
+}
+
+/**
+ * Records who did what through the hub. Recording never throws: a failed
+ * audit write is logged but must not fail the action it describes.
+ */
+export class AuditLog {
+    private pruneTimer: ReturnType<typeof setInterval> | null = null
+
+    constructor(
+        private readonly events: AuditEventStore,
+        private readonly users: UserStore,
+        private readonly retentionDays: number
+    ) {
+        if (this.retentionDays > 0) {
+            this.prune()
+            this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL_MS)
+        }
+    }
+
+    stop(): void {
+        if (this.pruneTimer) {
+            clearInterval(this.pruneTimer)
+            this.pruneTimer = null
+        }
+    }
+
+    record(actor: AuditActor, input: AuditEventInput): StoredAuditEvent | null {
+        try {
+            return this.events.addEvent({
+                namespace: actor.namespace,
+                actorUserId: actor.accountId,
+                actor: this.describeActor(actor.accountId),
+                origin: actor.origin,
+                action: input.action,
+                sessionId: input.sessionId ?? null,
+                machineId: input.machineId ?? null,
+                detail: input.detail ?? null,
+                payloadDigest: digestAuditPayload(input.payload),
+                createdAt: Date.now()
+            })
+        } catch (error) {
+            console.error('[Audit] Failed to record event:', input.action, error)
+            return null
+        }
+    }
+
+    prune(now: number = Date.now()): number {
+        if (this.retentionDays <= 0) {
+            return 0
+        }
+        try {
+            return this.events.deleteEventsBefore(now - this.retentionDays * DAY_MS)
+        } catch (error) {
+            console.error('[Audit] Failed to prune events:', error)
+            return 0
+        }
+    }
+
+    private describeActor(accountId: number | null): string {
+        if (accountId === null) {
+            return 'owner'
+        }
+        const user = this.users.getUserById(accountId)
+        if (!user) {
+            return `user:${accountId}`
+        }
+        if (user.name) {
+            return user.name
+        }
+        return `${user.platform}:${user.platformUserId}`
+    }
+}
@@ -8,8 +8,19 @@
  * it will be saved to settings.json for future use
  */
 
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@hapi/protocol'
+import { z } from 'zod'
 import { getSettingsFile, readSettings, writeSettings } from './settings'
 
+export interface WebhookConfig {
+    url: string
+    secret: string
+    // Empty means every event
+    events: WebhookEvent[]
+    // null means every namespace
+    namespace: string | null
+}
+
 export interface ServerSettings {
     telegramBotToken: string | null
     telegramNotification: boolean
@@ -17,6 +28,14 @@ export interface ServerSettings {
     listenPort: number
     publicUrl: string
     corsOrigins: string[]
+    // 0 keeps audit events forever
+    auditRetentionDays: number
+    webhooks: WebhookConfig[]
+    // 0 disables automatic backups
+    backupIntervalHours: number
+    backupKeep: number
+    // 0 keeps messages of inactive sessions forever
+    messageRetentionDays: number
 }
 
 export interface ServerSettingsResult {
@@ -28,6 +47,11 @@ export interface ServerSettingsResult {
         listenPort: 'env' | 'file' | 'default'
         publicUrl: 'env' | 'file' | 'default'
         corsOrigins: 'env' | 'file' | 'default'
+        auditRetentionDays: 'env' | 'file' | 'default'
+        webhooks: 'env' | 'file' | 'default'
+        backupIntervalHours: 'env' | 'file' | 'default'
+        backupKeep: 'env' | 'file' | 'default'
+        messageRetentionDays: 'env' | 'file' | 'default'
     }
     savedToFile: boolean
 }
@@ -57,6 +81,38 @@ function parseCorsOrigins(str: string): string[] {
     return normalized
 }
 
+const webhookSettingsSchema = z.array(z.object({
+    url: z.string().refine((value) => {
+        try {
+            const protocol = new URL(value).protocol
+            return protocol === 'http:' || protocol === 'https:'
+        } catch {
+            return false
+        }
+    }),
+    secret: z.string().min(1),
+    events: z.array(z.enum(WEBHOOK_EVENTS)).optional(),
+    namespace: z.string().min(1).optional()
+}))
+
+/**
+ * Validate webhook entries from settings.json or HAPI_WEBHOOKS
+ */
+function parseWebhooks(value: unknown, source: string): WebhookConfig[] {
+    const parsed = webhookSettingsSchema.safeParse(value)
+    if (!parsed.success) {
+        throw new Error(
+            `${source} must be a list of { url, secret, events?, namespace? } with http(s) URLs and events from: ${WEBHOOK_EVENTS.join(', ')}`
+        )
+    }
+    return parsed.data.map((webhook) => ({
+        url: webhook.url,
+        secret: webhook.secret,
+        events: webhook.events ?? [],
+        namespace: webhook.namespace ?? null
+    }))
+}
+
 /**
  * Derive CORS origins from public URL
  */
@@ -91,6 +147,11 @@ export async function loadServerSettings(dataDir: string): Promise<ServerSetting
         listenPort: 'default',
         publicUrl: 'default',
         corsOrigins: 'default',
+        auditRetentionDays: 'default',
+        webhooks: 'default',
+        backupIntervalHours: 'default',
+        backupKeep: 'default',
+        messageRetentionDays: 'default',
     }
     // telegramBotToken: env > file > null
     let telegramBotToken: string | null = null
@@ -203,6 +264,103 @@ export async function loadServerSettings(dataDir: string): Promise<ServerSetting
         corsOrigins = deriveCorsOrigins(publicUrl)
     }
 
+    // auditRetentionDays: env > file > 90
+    let auditRetentionDays = 90
+    if (process.env.HAPI_AUDIT_RETENTION_DAYS) {
+        const parsed = parseInt(process.env.HAPI_AUDIT_RETENTION_DAYS, 10)
+        if (!Number.isFinite(parsed) || parsed < 0) {
+            throw new Error('HAPI_AUDIT_RETENTION_DAYS must be a non-negative number of days')
+        }
+        auditRetentionDays = parsed
+        sources.auditRetentionDays = 'env'
+        if (settings.auditRetentionDays === undefined) {
+            settings.auditRetentionDays = auditRetentionDays
+            needsSave = true
+        }
+    } else if (settings.auditRetentionDays !== undefined) {
+        auditRetentionDays = settings.auditRetentionDays
+        sources.auditRetentionDays = 'file'
+    }
+
+    // webhooks: env (JSON) > file > none
+    let webhooks: WebhookConfig[] = []
+    if (process.env.HAPI_WEBHOOKS) {
+        let raw: unknown
+        try {
+            raw = JSON.parse(process.env.HAPI_WEBHOOKS)
+        } catch {
+            throw new Error('HAPI_WEBHOOKS must be a JSON array')
+        }
+        webhooks = parseWebhooks(raw, 'HAPI_WEBHOOKS')
+        sources.webhooks = 'env'
+        if (settings.webhooks === undefined) {
+            settings.webhooks = webhooks.map((webhook) => ({
+                url: webhook.url,
+                secret: webhook.secret,
+                ...(webhook.events.length > 0 ? { events: webhook.events } : {}),
+                ...(webhook.namespace ? { namespace: webhook.namespace } : {})
+            }))
+            needsSave = true
+        }
+    } else if (settings.webhooks !== undefined) {
+        webhooks = parseWebhooks(settings.webhooks, `webhooks in ${settingsFile}`)
+        sources.webhooks = 'file'
+    }
+
+    // backupIntervalHours: env > file > 24
+    let backupIntervalHours = 24
+    if (process.env.HAPI_BACKUP_INTERVAL_HOURS) {
+        const parsed = parseInt(process.env.HAPI_BACKUP_INTERVAL_HOURS, 10)
+        if (!Number.isFinite(parsed) || parsed < 0) {
+            throw new Error('HAPI_BACKUP_INTERVAL_HOURS must be a non-negative number of hours')
+        }
+        backupIntervalHours = parsed
+        sources.backupIntervalHours = 'env'
+        if (settings.backupIntervalHours === undefined) {
+            settings.backupIntervalHours = backupIntervalHours
+            needsSave = true
+        }
+    } else if (settings.backupIntervalHours !== undefined) {
+        backupIntervalHours = settings.backupIntervalHours
+        sources.backupIntervalHours = 'file'
+    }
+
+    // backupKeep: env > file > 7
+    let backupKeep = 7
+    if (process.env.HAPI_BACKUP_KEEP) {
+        const parsed = parseInt(process.env.HAPI_BACKUP_KEEP, 10)
+        if (!Number.isFinite(parsed) || parsed < 1) {
+            throw new Error('HAPI_BACKUP_KEEP must be a positive number of backups')
+        }
+        backupKeep = parsed
+        sources.backupKeep = 'env'
+        if (settings.backupKeep === undefined) {
+            settings.backupKeep = backupKeep
+            needsSave = true
+        }
+    } else if (settings.backupKeep !== undefined) {
+        backupKeep = settings.backupKeep
+        sources.backupKeep = 'file'
+    }
+
+    // messageRetentionDays: env > file > 0 (forever)
+    let messageRetentionDays = 0
+    if (process.env.HAPI_MESSAGE_RETENTION_DAYS) {
+        const parsed = parseInt(process.env.HAPI_MESSAGE_RETENTION_DAYS, 10)
+        if (!Number.isFinite(parsed) || parsed < 0) {
+            throw new Error('HAPI_MESSAGE_RETENTION_DAYS must be a non-negative number of days')
+        }
+        messageRetentionDays = parsed
+        sources.messageRetentionDays = 'env'
+        if (settings.messageRetentionDays === undefined) {
+            settings.messageRetentionDays = messageRetentionDays
+            needsSave = true
+        }
+    } else if (settings.messageRetentionDays !== undefined) {
+        messageRetentionDays = settings.messageRetentionDays
+        sources.messageRetentionDays = 'file'
+    }
+
     // Save settings if any new values were added
     if (needsSave) {
         await writeSettings(settingsFile, settings)
@@ -216,6 +374,11 @@ export async function loadServerSettings(dataDir: string): Promise<ServerSetting
             listenPort,
             publicUrl,
             corsOrigins,
+            auditRetentionDays,
+            webhooks,
+            backupIntervalHours,
+            backupKeep,
+            messageRetentionDays,
         },
         sources,
         savedToFile: needsSave,
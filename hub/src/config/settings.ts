@@ -2,6 +2,16 @@ import { existsSync } from 'node:fs'
 import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
 import { dirname, join } from 'node:path'
 
+export interface WebhookSettings {
+    url: string
+    // HMAC-SHA256 key for the X-Hapi-Signature header
+    secret: string
+    // Omitted or empty: every event
+    events?: string[]
+    // Omitted: events from every namespace
+    namespace?: string
+}
+
 export interface Settings {
     machineId?: string
     machineIdConfirmedByServer?: boolean
@@ -18,6 +28,11 @@ export interface Settings {
     listenPort?: number
     publicUrl?: string
     corsOrigins?: string[]
+    auditRetentionDays?: number
+    webhooks?: WebhookSettings[]
+    backupIntervalHours?: number
+    backupKeep?: number
+    messageRetentionDays?: number
     // Legacy field names (for migration, read-only)
     webappHost?: string
     webappPort?: number
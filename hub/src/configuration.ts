@@ -13,6 +13,11 @@
  * - HAPI_LISTEN_PORT: Port for HTTP service (default: 3006)
  * - HAPI_PUBLIC_URL: Public URL for external access (e.g., Telegram Mini App)
  * - CORS_ORIGINS: Comma-separated CORS origins
+ * - HAPI_AUDIT_RETENTION_DAYS: Days to keep audit events, 0 keeps them forever (default: 90)
+ * - HAPI_WEBHOOKS: JSON array of outbound webhooks ({ url, secret, events?, namespace? })
+ * - HAPI_BACKUP_INTERVAL_HOURS: Hours between automatic database backups, 0 disables them (default: 24)
+ * - HAPI_BACKUP_KEEP: Number of automatic backups to keep in {HAPI_HOME}/backups (default: 7)
+ * - HAPI_MESSAGE_RETENTION_DAYS: Days to keep messages of inactive sessions, 0 keeps them forever (default: 0)
  * - HAPI_RELAY_API: Relay API domain for tunwg (default: relay.hapi.run)
  * - HAPI_RELAY_AUTH: Relay auth key for tunwg (default: hapi)
  * - HAPI_RELAY_FORCE_TCP: Force TCP relay mode when UDP is unavailable (true/1)
@@ -26,7 +31,7 @@ import { homedir } from 'node:os'
 import { join } from 'node:path'
 import { getOrCreateCliApiToken } from './config/cliApiToken'
 import { getSettingsFile } from './config/settings'
-import { loadServerSettings, type ServerSettings, type ServerSettingsResult } from './config/serverSettings'
+import { loadServerSettings, type ServerSettings, type ServerSettingsResult, type WebhookConfig } from './config/serverSettings'
 
 export type ConfigSource = 'env' | 'file' | 'default'
 
@@ -37,6 +42,11 @@ export interface ConfigSources {
     listenPort: ConfigSource
     publicUrl: ConfigSource
     corsOrigins: ConfigSource
+    auditRetentionDays: ConfigSource
+    webhooks: ConfigSource
+    backupIntervalHours: ConfigSource
+    backupKeep: ConfigSource
+    messageRetentionDays: ConfigSource
     cliApiToken: 'env' | 'file' | 'generated'
 }
 
@@ -80,6 +90,24 @@ class Configuration {
     /** Allowed CORS origins for Mini App + Socket.IO (comma-separated env override) */
     public readonly corsOrigins: string[]
 
+    /** Days to keep audit events (0 = forever) */
+    public readonly auditRetentionDays: number
+
+    /** Outbound webhooks for notification events */
+    public readonly webhooks: WebhookConfig[]
+
+    /** Hours between automatic database backups (0 = disabled) */
+    public readonly backupIntervalHours: number
+
+    /** Number of automatic backups to keep */
+    public readonly backupKeep: number
+
+    /** Directory for automatic backups */
+    public readonly backupDir: string
+
+    /** Days to keep messages of inactive sessions (0 = forever) */
+    public readonly messageRetentionDays: number
+
     /** Sources of each configuration value */
     public readonly sources: ConfigSources
 
@@ -102,6 +130,12 @@ class Configuration {
         this.listenPort = serverSettings.listenPort
         this.publicUrl = serverSettings.publicUrl
         this.corsOrigins = serverSettings.corsOrigins
+        this.auditRetentionDays = serverSettings.auditRetentionDays
+        this.webhooks = serverSettings.webhooks
+        this.backupIntervalHours = serverSettings.backupIntervalHours
+        this.backupKeep = serverSettings.backupKeep
+        this.backupDir = join(dataDir, 'backups')
+        this.messageRetentionDays = serverSettings.messageRetentionDays
 
         // CLI API token - will be set by _setCliApiToken() before create() returns
         this.cliApiToken = ''
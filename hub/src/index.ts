@@ -12,6 +12,12 @@ import { createConfiguration, type ConfigSource } from './configuration'
 import { Store } from './store'
 import { SyncEngine, type SyncEvent } from './sync/syncEngine'
 import { NotificationHub } from './notifications/notificationHub'
+import { PermissionPolicyEngine } from './permissions/permissionPolicyEngine'
+import { AuditLog } from './audit/auditLog'
+import { Scheduler } from './scheduler/scheduler'
+import { UsageTracker } from './usage/usageTracker'
+import { MaintenanceScheduler } from './maintenance/maintenanceScheduler'
+import { WebhookChannel } from './webhooks/webhookChannel'
 import type { NotificationChannel } from './notifications/notificationTypes'
 import { HappyBot } from './telegram/bot'
 import { startWebServer } from './web/server'
@@ -103,6 +109,12 @@ let webServer: BunServer<WebSocketData> | null = null
 let sseManager: SSEManager | null = null
 let visibilityTracker: VisibilityTracker | null = null
 let notificationHub: NotificationHub | null = null
+let permissionPolicyEngine: PermissionPolicyEngine | null = null
+let auditLog: AuditLog | null = null
+let scheduler: Scheduler | null = null
+let usageTracker: UsageTracker | null = null
+let maintenanceScheduler: MaintenanceScheduler | null = null
+let webhookChannel: WebhookChannel | null = null
 let tunnelManager: TunnelManager | null = null
 
 async function main() {
@@ -157,7 +169,27 @@ async function main() {
         console.log(`[Hub] Tunnel: disabled (${relayFlag.source})`)
     }
 
+    const retentionLabel = config.auditRetentionDays > 0 ? `${config.auditRetentionDays} days` : 'forever'
+    console.log(`[Hub] Audit log retention: ${retentionLabel} (${formatSource(config.sources.auditRetentionDays)})`)
+    if (config.webhooks.length > 0) {
+        console.log(`[Hub] Webhooks: ${config.webhooks.length} configured (${formatSource(config.sources.webhooks)})`)
+    }
+    const backupLabel = config.backupIntervalHours > 0
+        ? `every ${config.backupIntervalHours}h, keeping ${config.backupKeep} (${formatSource(config.sources.backupIntervalHours)})`
+        : `disabled (${formatSource(config.sources.backupIntervalHours)})`
+    console.log(`[Hub] Database backups: ${backupLabel}`)
+    const messageRetentionLabel = config.messageRetentionDays > 0 ? `${config.messageRetentionDays} days` : 'forever'
+    console.log(`[Hub] Inactive session message retention: ${messageRetentionLabel} (${formatSource(config.sources.messageRetentionDays)})`)
+
     const store = new Store(config.dbPath)
+    auditLog = new AuditLog(store.auditEvents, store.users, config.auditRetentionDays)
+    maintenanceScheduler = new MaintenanceScheduler(store, {
+        dbPath: config.dbPath,
+        backupDir: config.backupDir,
+        backupIntervalHours: config.backupIntervalHours,
+        backupKeep: config.backupKeep,
+        messageRetentionDays: config.messageRetentionDays
+    })
     const jwtSecret = await getOrCreateJwtSecret()
     const vapidKeys = await getOrCreateVapidKeys(config.dataDir)
     const vapidSubject = process.env.VAPID_SUBJECT ?? 'mailto:admin@hapi.run'
@@ -169,6 +201,7 @@ async function main() {
     const socketServer = createSocketServer({
         store,
         jwtSecret,
+        auditLog,
         corsOrigins,
         getSession: (sessionId) => {
             if (syncEngine) {
@@ -185,7 +218,7 @@ async function main() {
     syncEngine = new SyncEngine(store, socketServer.io, socketServer.rpcRegistry, sseManager)
 
     const notificationChannels: NotificationChannel[] = [
-        new PushNotificationChannel(pushService, sseManager, visibilityTracker, config.publicUrl)
+        new PushNotificationChannel(pushService, sseManager, visibilityTracker, config.publicUrl, store, jwtSecret)
     ]
 
     // Initialize Telegram bot (optional)
@@ -194,7 +227,8 @@ async function main() {
             syncEngine,
             botToken: config.telegramBotToken,
             publicUrl: config.publicUrl,
-            store
+            store,
+            auditLog
         })
         // Only add to notification channels if notifications are enabled
         if (config.telegramNotification) {
@@ -202,15 +236,29 @@ async function main() {
         }
     }
 
-    notificationHub = new NotificationHub(syncEngine, notificationChannels)
+    if (config.webhooks.length > 0) {
+        webhookChannel = new WebhookChannel(config.webhooks, store.webhookDeliveries, config.publicUrl)
+        notificationChannels.push(webhookChannel)
+    }
+
+    notificationHub = new NotificationHub(syncEngine, notificationChannels, {
+        preferences: store.notificationPreferences
+    })
+    permissionPolicyEngine = new PermissionPolicyEngine(syncEngine, store.permissionRules)
+    scheduler = new Scheduler(syncEngine, store.schedules, store.usage)
+    usageTracker = new UsageTracker(syncEngine, store.usage, (session, status) => {
+        notificationHub?.notifyBudgetExceeded(session, status)
+    })
 
     // Start HTTP service first (before tunnel, so tunnel has something to forward to)
     webServer = await startWebServer({
         getSyncEngine: () => syncEngine,
         getSseManager: () => sseManager,
         getVisibilityTracker: () => visibilityTracker,
+        getScheduler: () => scheduler,
         jwtSecret,
         store,
+        auditLog,
         vapidPublicKey: vapidKeys.publicKey,
         socketEngine: socketServer.engine,
         corsOrigins,
@@ -296,6 +344,12 @@ async function main() {
         await tunnelManager?.stop()
         await happyBot?.stop()
         notificationHub?.stop()
+        webhookChannel?.stop()
+        permissionPolicyEngine?.stop()
+        scheduler?.stop()
+        usageTracker?.stop()
+        maintenanceScheduler?.stop()
+        auditLog?.stop()
         syncEngine?.stop()
         sseManager?.stop()
         webServer?.stop()
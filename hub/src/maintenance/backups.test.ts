@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SCHEMA_VERSION, Store } from '../store'
+import { createBackup, listBackups, restoreDatabase, validateBackupFile } from './backups'
+
+function withTempDir(fn: (dir: string) => void): void {
+    const dir = mkdtempSync(join(tmpdir(), 'hapi-backup-'))
+    try {
+        fn(dir)
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+}
+
+function userMessage(text: string) {
+    return { role: 'user', content: { type: 'text', text } }
+}
+
+describe('database backups', () => {
+    it('backs up a live database and keeps the newest backups', () => {
+        withTempDir((dir) => {
+            const store = new Store(join(dir, 'hapi.db'))
+            const session = store.sessions.getOrCreateSession('a', { path: '/work' }, null, 'default')
+            store.messages.addMessage(session.id, userMessage('before backup'))
+
+            const backupDir = join(dir, 'backups')
+            const base = new Date(2026, 0, 1, 12, 0, 0).getTime()
+            for (let i = 0; i < 4; i++) {
+                createBackup(store, backupDir, 2, base + i * 60_000)
+            }
+
+            const backups = listBackups(backupDir)
+            expect(backups.map((backup) => backup.name)).toEqual(['hapi-20260101-120300.db', 'hapi-20260101-120200.db'])
+            expect(validateBackupFile(backups[0].path)).toBe(SCHEMA_VERSION)
+
+            const copy = new Store(backups[0].path)
+            expect(copy.messages.getMessages(session.id)).toHaveLength(1)
+            copy.close()
+            store.close()
+        })
+    })
+
+    it('restores a backup and keeps the replaced database', () => {
+        withTempDir((dir) => {
+            const dbPath = join(dir, 'hapi.db')
+            const store = new Store(dbPath)
+            const session = store.sessions.getOrCreateSession('a', { path: '/work' }, null, 'default')
+            store.messages.addMessage(session.id, userMessage('kept'))
+            const backupPath = join(dir, 'snapshot.db')
+            store.maintenance.backup(backupPath)
+            store.messages.addMessage(session.id, userMessage('after snapshot'))
+            store.close()
+
+            const result = restoreDatabase(backupPath, dbPath, new Date(2026, 0, 1).getTime())
+            expect(result.schemaVersion).toBe(SCHEMA_VERSION)
+            expect(result.previousPath).toBe(`${dbPath}.pre-restore-20260101-000000`)
+
+            const restored = new Store(dbPath)
+            expect(restored.messages.getMessages(session.id)).toHaveLength(1)
+            restored.close()
+
+            const previous = new Store(result.previousPath!)
+            expect(previous.messages.getMessages(session.id)).toHaveLength(2)
+            previous.close()
+        })
+    })
+
+    it('rejects files from newer builds and non-HAPI files', () => {
+        withTempDir((dir) => {
+            const newer = join(dir, 'newer.db')
+            new Store(newer).close()
+            const db = new Database(newer)
+            db.exec(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`)
+            db.close()
+            expect(() => validateBackupFile(newer)).toThrow(/schema version/)
+
+            const foreign = join(dir, 'foreign.db')
+            const other = new Database(foreign)
+            other.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY)')
+            other.close()
+            expect(() => validateBackupFile(foreign)).toThrow(/not a HAPI database/)
+
+            const text = join(dir, 'notes.txt')
+            writeFileSync(text, 'not a database')
+            expect(() => restoreDatabase(text, join(dir, 'hapi.db'))).toThrow()
+            expect(existsSync(join(dir, 'hapi.db'))).toBe(false)
+        })
+    })
+})
@@ -0,0 +1,151 @@
+import { Database } from 'bun:sqlite'
+import { chmodSync, copyFileSync, existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { checkDatabaseIntegrity, getSchemaVersion, SCHEMA_VERSION, Store } from '../store'
+
+const BACKUP_FILE_PATTERN = /^hapi-\d{8}-\d{6}\.db$/
+
+export type BackupFile = {
+    path: string
+    name: string
+    size: number
+    createdAt: number
+}
+
+export type RestoreResult = {
+    // Schema version of the restored file before it was migrated forward
+    schemaVersion: number
+    // Copy of the database that was replaced, if there was one
+    previousPath: string | null
+}
+
+function pad(value: number): string {
+    return value.toString().padStart(2, '0')
+}
+
+export function formatBackupTimestamp(now: number): string {
+    const date = new Date(now)
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+        + `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+}
+
+/**
+ * Automatic backups in backupDir, newest first
+ */
+export function listBackups(backupDir: string): BackupFile[] {
+    if (!existsSync(backupDir)) {
+        return []
+    }
+    return readdirSync(backupDir)
+        .filter((name) => BACKUP_FILE_PATTERN.test(name))
+        .map((name) => {
+            const path = join(backupDir, name)
+            const stats = statSync(path)
+            return { path, name, size: stats.size, createdAt: stats.mtimeMs }
+        })
+        // Names sort chronologically; mtime can be touched by copies
+        .sort((a, b) => b.name.localeCompare(a.name))
+}
+
+/**
+ * Writes a timestamped backup into backupDir and deletes all but the newest
+ * `keep` automatic backups.
+ */
+export function createBackup(store: Store, backupDir: string, keep: number, now: number = Date.now()): BackupFile {
+    mkdirSync(backupDir, { recursive: true, mode: 0o700 })
+    const path = join(backupDir, `hapi-${formatBackupTimestamp(now)}.db`)
+    store.maintenance.backup(path)
+
+    for (const stale of listBackups(backupDir).slice(Math.max(keep, 1))) {
+        rmSync(stale.path, { force: true })
+    }
+
+    const stats = statSync(path)
+    return { path, name: path.slice(backupDir.length + 1), size: stats.size, createdAt: stats.mtimeMs }
+}
+
+/**
+ * Checks that a file is a HAPI database this build can open: intact, with a
+ * schema version no newer than SCHEMA_VERSION. Returns its schema version.
+ */
+export function validateBackupFile(path: string): number {
+    if (!existsSync(path)) {
+        throw new Error(`Backup file not found: ${path}`)
+    }
+
+    let db: Database
+    try {
+        db = new Database(path, { readonly: true })
+    } catch (error) {
+        throw new Error(`Cannot open ${path} as a SQLite database: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    try {
+        let problems: string[]
+        let schemaVersion: number
+        let hasSessions: boolean
+        try {
+            problems = checkDatabaseIntegrity(db)
+            schemaVersion = getSchemaVersion(db)
+            hasSessions = db.prepare(
+                "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sessions'"
+            ).get() !== null
+        } catch (error) {
+            throw new Error(`${path} is not a readable SQLite database: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        if (problems.length > 0) {
+            throw new Error(`${path} failed the integrity check: ${problems.slice(0, 3).join('; ')}`)
+        }
+        if (schemaVersion === 0 || !hasSessions) {
+            throw new Error(`${path} is not a HAPI database`)
+        }
+        if (schemaVersion > SCHEMA_VERSION) {
+            throw new Error(
+                `${path} has schema version ${schemaVersion}, but this build supports up to ${SCHEMA_VERSION}. ` +
+                'Upgrade hapi before restoring it.'
+            )
+        }
+        return schemaVersion
+    } finally {
+        db.close()
+    }
+}
+
+/**
+ * Replaces the database at dbPath with a validated backup. The hub must not
+ * be running. The replaced database is kept next to it as
+ * `<db>.pre-restore-<timestamp>`, and the restored file is opened once so
+ * older schemas are migrated forward immediately.
+ */
+export function restoreDatabase(sourcePath: string, dbPath: string, now: number = Date.now()): RestoreResult {
+    const schemaVersion = validateBackupFile(sourcePath)
+
+    let previousPath: string | null = null
+    if (existsSync(dbPath)) {
+        previousPath = `${dbPath}.pre-restore-${formatBackupTimestamp(now)}`
+        try {
+            const current = new Store(dbPath)
+            try {
+                current.maintenance.backup(previousPath)
+            } finally {
+                current.close()
+            }
+        } catch {
+            // The current file may be corrupt or from a newer build; keep it verbatim
+            copyFileSync(dbPath, previousPath)
+        }
+    }
+
+    const incomingPath = `${dbPath}.restoring`
+    copyFileSync(sourcePath, incomingPath)
+    chmodSync(incomingPath, 0o600)
+    for (const suffix of ['-wal', '-shm']) {
+        rmSync(`${dbPath}${suffix}`, { force: true })
+    }
+    renameSync(incomingPath, dbPath)
+
+    new Store(dbPath).close()
+
+    return { schemaVersion, previousPath }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Store } from '../store'
+import { compactDatabase } from './compaction'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function userMessage(text: string) {
+    return { role: 'user', content: { type: 'text', text } }
+}
+
+describe('compactDatabase', () => {
+    it('prunes messages of idle inactive sessions only', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'hapi-compact-'))
+        const dbPath = join(dir, 'hapi.db')
+        try {
+            const store = new Store(dbPath)
+            const idle = store.sessions.getOrCreateSession('idle', { path: '/idle' }, null, 'default')
+            const active = store.sessions.getOrCreateSession('active', { path: '/active' }, null, 'default')
+            const recent = store.sessions.getOrCreateSession('recent', { path: '/recent' }, null, 'default')
+            for (const session of [idle, active, recent]) {
+                store.messages.addMessage(session.id, userMessage(`needle ${session.tag}`))
+                store.messages.addMessage(session.id, userMessage('second'))
+            }
+
+            const now = Date.now() + 60 * DAY_MS
+            const db = new Database(dbPath)
+            db.prepare('UPDATE sessions SET active = 1 WHERE id = ?').run(active.id)
+            db.prepare('UPDATE messages SET created_at = ? WHERE session_id = ?').run(now, recent.id)
+            db.close()
+
+            const preview = compactDatabase(store, dbPath, 30, { dryRun: true, now })
+            expect(preview).toMatchObject({ sessions: 1, messages: 2, sizeBefore: null })
+            expect(store.messages.getMessages(idle.id)).toHaveLength(2)
+
+            const result = compactDatabase(store, dbPath, 30, { now })
+            expect(result).toMatchObject({ sessions: 1, messages: 2 })
+            expect(result.sizeAfter).not.toBeNull()
+            expect(store.messages.getMessages(idle.id)).toHaveLength(0)
+            expect(store.messages.getMessages(active.id)).toHaveLength(2)
+            expect(store.messages.getMessages(recent.id)).toHaveLength(2)
+            expect(store.messages.searchMessages('default', 'needle')).toHaveLength(2)
+            expect(store.sessions.getSession(idle.id)).not.toBeNull()
+            store.close()
+        } finally {
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+})
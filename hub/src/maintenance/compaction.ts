@@ -0,0 +1,40 @@
+import { statSync } from 'node:fs'
+import type { MessagePruneResult, Store } from '../store'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type CompactionResult = MessagePruneResult & {
+    cutoff: number
+    // File sizes around VACUUM; null for dry runs and in-memory databases
+    sizeBefore: number | null
+    sizeAfter: number | null
+}
+
+function getFileSize(path: string): number | null {
+    try {
+        return statSync(path).size
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Deletes messages of inactive sessions idle for longer than retentionDays,
+ * then VACUUMs so the freed pages are returned to the file system.
+ */
+export function compactDatabase(
+    store: Store,
+    dbPath: string,
+    retentionDays: number,
+    options: { dryRun?: boolean; now?: number } = {}
+): CompactionResult {
+    const cutoff = (options.now ?? Date.now()) - retentionDays * DAY_MS
+    const pruned = store.maintenance.pruneInactiveSessionMessages(cutoff, { dryRun: options.dryRun })
+    if (options.dryRun) {
+        return { ...pruned, cutoff, sizeBefore: null, sizeAfter: null }
+    }
+
+    const sizeBefore = getFileSize(dbPath)
+    store.maintenance.vacuum()
+    return { ...pruned, cutoff, sizeBefore, sizeAfter: getFileSize(dbPath) }
+}
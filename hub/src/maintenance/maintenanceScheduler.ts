@@ -0,0 +1,85 @@
+import type { Store } from '../store'
+import { createBackup, listBackups } from './backups'
+import { compactDatabase } from './compaction'
+
+const HOUR_MS = 60 * 60 * 1000
+const CHECK_INTERVAL_MS = HOUR_MS
+const RETENTION_INTERVAL_MS = 24 * HOUR_MS
+
+export type MaintenanceSchedulerOptions = {
+    dbPath: string
+    backupDir: string
+    // 0 disables automatic backups
+    backupIntervalHours: number
+    backupKeep: number
+    // 0 disables message retention
+    messageRetentionDays: number
+}
+
+/**
+ * Runs automatic backups and message retention inside the hub. Due work is
+ * derived from the newest backup file and the last retention run, so a hub
+ * restart neither skips nor repeats a backup.
+ */
+export class MaintenanceScheduler {
+    private timer: ReturnType<typeof setInterval> | null = null
+    private lastRetentionAt = 0
+
+    constructor(
+        private readonly store: Store,
+        private readonly options: MaintenanceSchedulerOptions
+    ) {
+        if (this.options.backupIntervalHours > 0 || this.options.messageRetentionDays > 0) {
+            this.tick()
+            this.timer = setInterval(() => this.tick(), CHECK_INTERVAL_MS)
+        }
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    tick(now: number = Date.now()): void {
+        this.runDueBackup(now)
+        this.runDueRetention(now)
+    }
+
+    private runDueBackup(now: number): void {
+        if (this.options.backupIntervalHours <= 0) {
+            return
+        }
+        try {
+            const latest = listBackups(this.options.backupDir)[0]
+            if (latest && now - latest.createdAt < this.options.backupIntervalHours * HOUR_MS) {
+                return
+            }
+            const backup = createBackup(this.store, this.options.backupDir, this.options.backupKeep, now)
+            console.log(`[Maintenance] Database backed up to ${backup.path}`)
+        } catch (error) {
+            console.error('[Maintenance] Automatic backup failed:', error)
+        }
+    }
+
+    private runDueRetention(now: number): void {
+        if (this.options.messageRetentionDays <= 0 || now - this.lastRetentionAt < RETENTION_INTERVAL_MS) {
+            return
+        }
+        this.lastRetentionAt = now
+        try {
+            const pruned = this.store.maintenance.pruneInactiveSessionMessages(
+                now - this.options.messageRetentionDays * 24 * HOUR_MS,
+                { dryRun: true }
+            )
+            if (pruned.messages === 0) {
+                return
+            }
+            const result = compactDatabase(this.store, this.options.dbPath, this.options.messageRetentionDays, { now })
+            console.log(`[Maintenance] Pruned ${result.messages} messages from ${result.sessions} inactive sessions`)
+        } catch (error) {
+            console.error('[Maintenance] Message retention failed:', error)
+        }
+    }
+}
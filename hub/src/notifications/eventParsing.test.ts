@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'bun:test'
 import type { SyncEvent } from '../sync/syncEngine'
-import { extractMessageEventType } from './eventParsing'
+import { extractMessageEventError, extractMessageEventHook, extractMessageEventType, extractMessageEventUsage } from './eventParsing'
 
 describe('extractMessageEventType', () => {
     it('returns the event type from a role-wrapped envelope', () => {
@@ -76,3 +76,124 @@ describe('extractMessageEventType', () => {
         expect(extractMessageEventType(event)).toBeNull()
     })
 })
+
+describe('extractMessageEventError', () => {
+    it('returns the message of an error event', () => {
+        const event: SyncEvent = {
+            type: 'message-received',
+            sessionId: 'session-1',
+            message: {
+                id: 'message-4',
+                seq: 4,
+                localId: null,
+                createdAt: 0,
+                content: {
+                    role: 'agent',
+                    content: {
+                        id: 'event-4',
+                        type: 'event',
+                        data: { type: 'error', message: 'Process exited unexpectedly' }
+                    }
+                }
+            }
+        }
+
+        expect(extractMessageEventError(event)).toBe('Process exited unexpectedly')
+    })
+
+    it('returns null for other events', () => {
+        const event: SyncEvent = {
+            type: 'message-received',
+            sessionId: 'session-1',
+            message: {
+                id: 'message-5',
+                seq: 5,
+                localId: null,
+                createdAt: 0,
+                content: {
+                    role: 'agent',
+                    content: {
+                        id: 'event-5',
+                        type: 'event',
+                        data: { type: 'message', message: 'Aborted by user' }
+                    }
+                }
+            }
+        }
+
+        expect(extractMessageEventError(event)).toBeNull()
+    })
+})
+
+describe('extractMessageEventHook', () => {
+    function hookEvent(data: Record<string, unknown>): SyncEvent {
+        return {
+            type: 'message-received',
+            sessionId: 'session-1',
+            message: {
+                id: 'message-7',
+                seq: 7,
+                localId: null,
+                createdAt: 0,
+                content: {
+                    role: 'agent',
+                    content: { id: 'event-7', type: 'event', data }
+                }
+            }
+        }
+    }
+
+    it('returns the hook name of a forwarded hook', () => {
+        expect(extractMessageEventHook(hookEvent({ type: 'hook', hook: 'Notification', message: 'Waiting' }))).toBe('Notification')
+    })
+
+    it('returns null for other events', () => {
+        expect(extractMessageEventHook(hookEvent({ type: 'ready' }))).toBeNull()
+        expect(extractMessageEventHook(hookEvent({ type: 'hook' }))).toBeNull()
+    })
+})
+
+describe('extractMessageEventUsage', () => {
+    function usageEvent(data: Record<string, unknown>): SyncEvent {
+        return {
+            type: 'message-received',
+            sessionId: 'session-1',
+            message: {
+                id: 'message-6',
+                seq: 6,
+                localId: null,
+                createdAt: 0,
+                content: {
+                    role: 'agent',
+                    content: { id: 'event-6', type: 'event', data }
+                }
+            }
+        }
+    }
+
+    it('returns a validated usage report', () => {
+        const usage = extractMessageEventUsage(usageEvent({
+            type: 'usage',
+            model: 'claude-sonnet-4-5',
+            inputTokens: 12,
+            outputTokens: 340,
+            cacheReadTokens: 5000,
+            cacheCreationTokens: 0,
+            costUsd: 0.012
+        }))
+
+        expect(usage).toEqual({
+            model: 'claude-sonnet-4-5',
+            inputTokens: 12,
+            outputTokens: 340,
+            cacheReadTokens: 5000,
+            cacheCreationTokens: 0,
+            costUsd: 0.012
+        })
+    })
+
+    it('rejects malformed usage events', () => {
+        expect(extractMessageEventUsage(usageEvent({ type: 'usage', inputTokens: -1 }))).toBeNull()
+        expect(extractMessageEventUsage(usageEvent({ type: 'ready' }))).toBeNull()
+    })
+})
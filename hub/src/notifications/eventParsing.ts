@@ -1,4 +1,6 @@
 import { isObject } from '@hapi/protocol'
+import { UsageReportSchema } from '@hapi/protocol/schemas'
+import type { UsageReport } from '@hapi/protocol/types'
 import type { SyncEvent } from '../sync/syncEngine'
 
 type EventEnvelope = {
@@ -23,7 +25,7 @@ function extractEventEnvelope(message: unknown): EventEnvelope | null {
     return content as EventEnvelope
 }
 
-export function extractMessageEventType(event: SyncEvent): string | null {
+function extractMessageEventData(event: SyncEvent): Record<string, unknown> | null {
     if (event.type !== 'message-received') {
         return null
     }
@@ -34,7 +36,36 @@ export function extractMessageEventType(event: SyncEvent): string | null {
         return null
     }
 
-    const data = isObject(envelope.data) ? envelope.data : null
-    const eventType = data?.type
+    return isObject(envelope.data) ? envelope.data : null
+}
+
+export function extractMessageEventType(event: SyncEvent): string | null {
+    const eventType = extractMessageEventData(event)?.type
     return typeof eventType === 'string' ? eventType : null
 }
+
+export function extractMessageEventError(event: SyncEvent): string | null {
+    const data = extractMessageEventData(event)
+    if (data?.type !== 'error') {
+        return null
+    }
+    return typeof data.message === 'string' ? data.message : 'Unknown error'
+}
+
+// Claude hooks forwarded by the CLI while the session runs in local mode
+export function extractMessageEventHook(event: SyncEvent): string | null {
+    const data = extractMessageEventData(event)
+    if (data?.type !== 'hook') {
+        return null
+    }
+    return typeof data.hook === 'string' ? data.hook : null
+}
+
+export function extractMessageEventUsage(event: SyncEvent): UsageReport | null {
+    const data = extractMessageEventData(event)
+    if (data?.type !== 'usage') {
+        return null
+    }
+    const parsed = UsageReportSchema.safeParse(data)
+    return parsed.success ? parsed.data : null
+}
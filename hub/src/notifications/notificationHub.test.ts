@@ -1,6 +1,9 @@
 import { describe, expect, it } from 'bun:test'
-import type { Session, SyncEvent, SyncEventListener, SyncEngine } from '../sync/syncEngine'
-import type { NotificationChannel } from './notificationTypes'
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@hapi/protocol/schemas'
+import type { NotificationPreferences } from '@hapi/protocol/types'
+import type { StoredNotificationPreferences } from '../store'
+import type { Machine, Session, SyncEvent, SyncEventListener, SyncEngine } from '../sync/syncEngine'
+import type { NotificationAudience, NotificationChannel } from './notificationTypes'
 import { NotificationHub } from './notificationHub'
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
@@ -8,6 +11,7 @@ const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 class FakeSyncEngine {
     private readonly listeners: Set<SyncEventListener> = new Set()
     private readonly sessions: Map<string, Session> = new Map()
+    private readonly machines: Map<string, Machine> = new Map()
 
     subscribe(listener: SyncEventListener): () => void {
         this.listeners.add(listener)
@@ -22,6 +26,14 @@ class FakeSyncEngine {
         this.sessions.set(session.id, session)
     }
 
+    getMachine(machineId: string): Machine | undefined {
+        return this.machines.get(machineId)
+    }
+
+    setMachine(machine: Machine): void {
+        this.machines.set(machine.id, machine)
+    }
+
     emit(event: SyncEvent): void {
         for (const listener of this.listeners) {
             listener(event)
@@ -42,6 +54,92 @@ class StubChannel implements NotificationChannel {
     }
 }
 
+class LifecycleChannel extends StubChannel {
+    readonly offlineMachines: string[] = []
+    readonly errors: string[] = []
+
+    async sendMachineOffline(machine: Machine): Promise<void> {
+        this.offlineMachines.push(machine.id)
+    }
+
+    async sendError(_session: Session, message: string): Promise<void> {
+        this.errors.push(message)
+    }
+}
+
+const ACCOUNTS = [null, 1, 2]
+
+// Records which accounts each delivery was meant for
+class AudienceChannel implements NotificationChannel {
+    readonly id = 'push' as const
+    readonly ready: Array<{ sessionId: string; accounts: Array<number | null> }> = []
+    readonly permissions: Array<{ sessionId: string; accounts: Array<number | null> }> = []
+    readonly digests: Array<{ sessionIds: string[]; accounts: Array<number | null> }> = []
+
+    async sendReady(session: Session, audience: NotificationAudience): Promise<void> {
+        this.ready.push({ sessionId: session.id, accounts: ACCOUNTS.filter(audience) })
+    }
+
+    async sendPermissionRequest(session: Session, audience: NotificationAudience): Promise<void> {
+        this.permissions.push({ sessionId: session.id, accounts: ACCOUNTS.filter(audience) })
+    }
+
+    async sendReadyDigest(_namespace: string, sessions: Session[], audience: NotificationAudience): Promise<void> {
+        this.digests.push({ sessionIds: sessions.map((session) => session.id), accounts: ACCOUNTS.filter(audience) })
+    }
+}
+
+function createPreferenceStore(entries: Array<[number | null, Partial<NotificationPreferences>]>) {
+    const rows: StoredNotificationPreferences[] = entries.map(([accountId, overrides]) => ({
+        namespace: 'default',
+        accountId,
+        preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...overrides },
+        updatedAt: 0
+    }))
+    return {
+        get: (namespace: string, accountId: number | null) =>
+            rows.find((row) => row.namespace === namespace && row.accountId === accountId) ?? null,
+        getByNamespace: (namespace: string) => rows.filter((row) => row.namespace === namespace)
+    }
+}
+
+function createReadyEvent(sessionId: string): SyncEvent {
+    return {
+        type: 'message-received',
+        sessionId,
+        message: {
+            id: `message-${sessionId}`,
+            seq: 1,
+            localId: null,
+            createdAt: 0,
+            content: {
+                role: 'agent',
+                content: {
+                    id: `event-${sessionId}`,
+                    type: 'event',
+                    data: { type: 'ready' }
+                }
+            }
+        }
+    }
+}
+
+function createMachine(active: boolean): Machine {
+    return {
+        id: 'machine-1',
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active,
+        activeAt: 0,
+        metadata: null,
+        metadataVersion: 0,
+        runnerState: null,
+        runnerStateVersion: 0
+    }
+}
+
 function createSession(overrides: Partial<Session> = {}): Session {
     return {
         id: 'session-1',
@@ -153,4 +251,137 @@ describe('NotificationHub', () => {
 
         hub.stop()
     })
+
+    it('notifies once when a known machine goes offline', async () => {
+        const engine = new FakeSyncEngine()
+        const channel = new LifecycleChannel()
+        const hub = new NotificationHub(engine as unknown as SyncEngine, [channel])
+
+        // First sighting only records state, even if the machine is already offline
+        engine.setMachine(createMachine(false))
+        engine.emit({ type: 'machine-updated', machineId: 'machine-1' })
+        engine.setMachine(createMachine(true))
+        engine.emit({ type: 'machine-updated', machineId: 'machine-1' })
+        engine.setMachine(createMachine(false))
+        engine.emit({ type: 'machine-updated', machineId: 'machine-1' })
+        engine.emit({ type: 'machine-updated', machineId: 'machine-1' })
+        await sleep(5)
+
+        expect(channel.offlineMachines).toEqual(['machine-1'])
+        hub.stop()
+    })
+
+    it('treats a forwarded Notification hook as ready', async () => {
+        const engine = new FakeSyncEngine()
+        const channel = new StubChannel()
+        const hub = new NotificationHub(engine as unknown as SyncEngine, [channel], { readyCooldownMs: 1 })
+        engine.setSession(createSession())
+
+        const hookEvent = (data: Record<string, unknown>): SyncEvent => ({
+            type: 'message-received',
+            sessionId: 'session-1',
+            message: {
+                id: 'message-1',
+                seq: 1,
+                localId: null,
+                createdAt: 0,
+                content: {
+                    role: 'agent',
+                    content: { id: 'event-1', type: 'event', data }
+                }
+            }
+        })
+
+        engine.emit(hookEvent({ type: 'hook', hook: 'PreToolUse', toolName: 'Bash' }))
+        await sleep(5)
+        expect(channel.readySessions).toHaveLength(0)
+
+        engine.emit(hookEvent({ type: 'hook', hook: 'Notification', message: 'Claude is waiting for your input' }))
+        await sleep(5)
+        expect(channel.readySessions).toHaveLength(1)
+
+        hub.stop()
+    })
+
+    it('forwards agent error events', async () => {
+        const engine = new FakeSyncEngine()
+        const channel = new LifecycleChannel()
+        const hub = new NotificationHub(engine as unknown as SyncEngine, [channel])
+        engine.setSession(createSession())
+
+        engine.emit({
+            type: 'message-received',
+            sessionId: 'session-1',
+            message: {
+                id: 'message-1',
+                seq: 1,
+                localId: null,
+                createdAt: 0,
+                content: {
+                    role: 'agent',
+                    content: {
+                        id: 'event-1',
+                        type: 'event',
+                        data: { type: 'error', message: 'Process exited unexpectedly' }
+                    }
+                }
+            }
+        })
+        await sleep(5)
+
+        expect(channel.errors).toEqual(['Process exited unexpectedly'])
+        hub.stop()
+    })
+
+    it('filters each user by their mutes and permissions-only mode', async () => {
+        const engine = new FakeSyncEngine()
+        const channel = new AudienceChannel()
+        const webhook = new StubChannel()
+        const hub = new NotificationHub(engine as unknown as SyncEngine, [channel, webhook], {
+            readyCooldownMs: 0,
+            permissionDebounceMs: 1,
+            preferences: createPreferenceStore([
+                [1, { mutedDirectories: ['/work/noisy'] }],
+                [2, { permissionsOnly: true }]
+            ])
+        })
+        engine.setSession(createSession({
+            metadata: { path: '/work/noisy/app', host: 'host' },
+            agentState: { requests: { req1: { tool: 'Edit', arguments: {}, createdAt: 1 } } }
+        }))
+
+        engine.emit(createReadyEvent('session-1'))
+        engine.emit({ type: 'session-updated', sessionId: 'session-1' })
+        await sleep(20)
+
+        expect(channel.ready).toEqual([{ sessionId: 'session-1', accounts: [null] }])
+        expect(channel.permissions).toEqual([{ sessionId: 'session-1', accounts: [null, 2] }])
+        // Channels without an id are namespace-wide and skip preferences
+        expect(webhook.readySessions).toHaveLength(1)
+        hub.stop()
+    })
+
+    it('batches ready events into one digest per user', async () => {
+        const engine = new FakeSyncEngine()
+        const channel = new AudienceChannel()
+        const hub = new NotificationHub(engine as unknown as SyncEngine, [channel], {
+            readyCooldownMs: 0,
+            digestMinuteMs: 4,
+            preferences: createPreferenceStore([[1, { digestMinutes: 5 }]])
+        })
+        engine.setSession(createSession({ id: 'session-1' }))
+        engine.setSession(createSession({ id: 'session-2' }))
+
+        engine.emit(createReadyEvent('session-1'))
+        engine.emit(createReadyEvent('session-2'))
+        engine.emit(createReadyEvent('session-1'))
+        await sleep(5)
+
+        expect(channel.ready.map((entry) => entry.accounts)).toEqual([[null, 2], [null, 2], [null, 2]])
+        expect(channel.digests).toHaveLength(0)
+
+        await sleep(40)
+        expect(channel.digests).toEqual([{ sessionIds: ['session-1', 'session-2'], accounts: [1] }])
+        hub.stop()
+    })
 })
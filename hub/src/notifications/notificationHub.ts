@@ -1,6 +1,31 @@
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
 import type { Session, SyncEngine, SyncEvent } from '../sync/syncEngine'
-import type { NotificationChannel, NotificationHubOptions } from './notificationTypes'
-import { extractMessageEventType } from './eventParsing'
+import type {
+    NotificationAudience,
+    NotificationChannel,
+    NotificationEvent,
+    NotificationHubOptions
+} from './notificationTypes'
+import { extractMessageEventError, extractMessageEventHook, extractMessageEventType } from './eventParsing'
+import { isSessionMuted, shouldNotifyUser } from './notificationPreferences'
+
+type NotificationScope = {
+    event: NotificationEvent
+    namespace: string
+    session?: Session | null
+    sessionId?: string | null
+    // Users in digest mode get this event later, batched
+    skipDigestUsers?: boolean
+}
+
+type ReadyDigest = {
+    namespace: string
+    accountId: number | null
+    sessionIds: Set<string>
+    timer: NodeJS.Timeout
+}
+
+const everyone: NotificationAudience = () => true
 
 export class NotificationHub {
     private readonly channels: NotificationChannel[]
@@ -9,6 +34,11 @@ export class NotificationHub {
     private readonly lastKnownRequests: Map<string, Set<string>> = new Map()
     private readonly notificationDebounce: Map<string, NodeJS.Timeout> = new Map()
     private readonly lastReadyNotificationAt: Map<string, number> = new Map()
+    private readonly lastKnownMachineActive: Map<string, boolean> = new Map()
+    private readonly readyDigests: Map<string, ReadyDigest> = new Map()
+    private readonly preferences: NotificationHubOptions['preferences'] | null
+    private readonly digestMinuteMs: number
+    private readonly now: () => Date
     private unsubscribeSyncEvents: (() => void) | null = null
 
     constructor(
@@ -19,6 +49,9 @@ export class NotificationHub {
         this.channels = channels
         this.readyCooldownMs = options?.readyCooldownMs ?? 5000
         this.permissionDebounceMs = options?.permissionDebounceMs ?? 500
+        this.preferences = options?.preferences ?? null
+        this.digestMinuteMs = options?.digestMinuteMs ?? 60_000
+        this.now = options?.now ?? (() => new Date())
         this.unsubscribeSyncEvents = this.syncEngine.subscribe((event) => {
             this.handleSyncEvent(event)
         })
@@ -34,13 +67,34 @@ export class NotificationHub {
             clearTimeout(timer)
         }
         this.notificationDebounce.clear()
+        for (const digest of this.readyDigests.values()) {
+            clearTimeout(digest.timer)
+        }
+        this.readyDigests.clear()
         this.lastKnownRequests.clear()
         this.lastReadyNotificationAt.clear()
+        this.lastKnownMachineActive.clear()
+    }
+
+    // Budgets are evaluated by the usage tracker, which reports through here
+    notifyBudgetExceeded(session: Session, status: UsageBudgetStatus): void {
+        void this.notifyChannels(
+            'budget exceeded',
+            { event: 'budget-exceeded', namespace: session.namespace, session },
+            (channel, audience) => channel.sendBudgetExceeded?.(session, status, audience)
+        )
     }
 
     private handleSyncEvent(event: SyncEvent): void {
         if ((event.type === 'session-updated' || event.type === 'session-added') && event.sessionId) {
             const session = this.syncEngine.getSession(event.sessionId)
+            if (session && event.type === 'session-added') {
+                void this.notifyChannels(
+                    'session added',
+                    { event: 'session-added', namespace: session.namespace, session },
+                    (channel, audience) => channel.sendSessionAdded?.(session, audience)
+                )
+            }
             if (!session || !session.active) {
                 this.clearSessionState(event.sessionId)
                 return
@@ -50,20 +104,64 @@ export class NotificationHub {
         }
 
         if (event.type === 'session-removed' && event.sessionId) {
-            this.clearSessionState(event.sessionId)
+            const { sessionId, namespace } = event
+            this.clearSessionState(sessionId)
+            if (namespace) {
+                void this.notifyChannels(
+                    'session removed',
+                    { event: 'session-removed', namespace, sessionId },
+                    (channel, audience) => channel.sendSessionRemoved?.(sessionId, namespace, audience)
+                )
+            }
+            return
+        }
+
+        if (event.type === 'machine-updated' && event.machineId) {
+            this.checkForMachineOffline(event.machineId)
             return
         }
 
         if (event.type === 'message-received' && event.sessionId) {
             const eventType = extractMessageEventType(event)
-            if (eventType === 'ready') {
+            // A Notification hook means Claude waits for the user at the terminal
+            if (eventType === 'ready' || extractMessageEventHook(event) === 'Notification') {
                 this.sendReadyNotification(event.sessionId).catch((error) => {
                     console.error('[NotificationHub] Failed to send ready notification:', error)
                 })
+                return
+            }
+
+            const errorMessage = extractMessageEventError(event)
+            const session = errorMessage !== null ? this.syncEngine.getSession(event.sessionId) : undefined
+            if (errorMessage !== null && session) {
+                void this.notifyChannels(
+                    'error',
+                    { event: 'error', namespace: session.namespace, session },
+                    (channel, audience) => channel.sendError?.(session, errorMessage, audience)
+                )
             }
         }
     }
 
+    // Notifies once per online -> offline transition; the first sighting of a machine only records its state
+    private checkForMachineOffline(machineId: string): void {
+        const machine = this.syncEngine.getMachine(machineId)
+        if (!machine) {
+            this.lastKnownMachineActive.delete(machineId)
+            return
+        }
+
+        const wasActive = this.lastKnownMachineActive.get(machineId)
+        this.lastKnownMachineActive.set(machineId, machine.active)
+        if (wasActive === true && !machine.active) {
+            void this.notifyChannels(
+                'machine offline',
+                { event: 'machine-offline', namespace: machine.namespace },
+                (channel, audience) => channel.sendMachineOffline?.(machine, audience)
+            )
+        }
+    }
+
     private clearSessionState(sessionId: string): void {
         const existingTimer = this.notificationDebounce.get(sessionId)
         if (existingTimer) {
@@ -127,6 +225,12 @@ export class NotificationHub {
             return
         }
 
+        // Requests may already be resolved (e.g. by a permission rule) during the debounce window
+        const requests = session.agentState?.requests
+        if (!requests || Object.keys(requests).length === 0) {
+            return
+        }
+
         await this.notifyPermission(session)
     }
 
@@ -147,21 +251,129 @@ export class NotificationHub {
     }
 
     private async notifyReady(session: Session): Promise<void> {
+        this.queueReadyDigests(session)
+        await this.notifyChannels(
+            'ready',
+            { event: 'ready', namespace: session.namespace, session, skipDigestUsers: true },
+            (channel, audience) => channel.sendReady(session, audience)
+        )
+    }
+
+    private async notifyPermission(session: Session): Promise<void> {
+        await this.notifyChannels(
+            'permission',
+            { event: 'permission-request', namespace: session.namespace, session },
+            (channel, audience) => channel.sendPermissionRequest(session, audience)
+        )
+    }
+
+    private async notifyChannels(
+        label: string,
+        scope: NotificationScope,
+        send: (channel: NotificationChannel, audience: NotificationAudience) => Promise<void> | undefined
+    ): Promise<void> {
         for (const channel of this.channels) {
             try {
-                await channel.sendReady(session)
+                await send(channel, this.getAudience(channel, scope))
             } catch (error) {
-                console.error('[NotificationHub] Failed to send ready notification:', error)
+                console.error(`[NotificationHub] Failed to send ${label} notification:`, error)
             }
         }
     }
 
-    private async notifyPermission(session: Session): Promise<void> {
+    private getAudience(channel: NotificationChannel, scope: NotificationScope): NotificationAudience {
+        const channelId = channel.id
+        const preferences = this.preferences
+        if (!channelId || !preferences) {
+            return everyone
+        }
+
+        const now = this.now()
+        return (accountId) => {
+            const stored = preferences.get(scope.namespace, accountId)
+            if (!stored) {
+                return true
+            }
+            if (scope.skipDigestUsers && stored.preferences.digestMinutes !== null) {
+                return false
+            }
+            return shouldNotifyUser(stored.preferences, scope.event, channelId, scope, now)
+        }
+    }
+
+    // Each digest user gets one batch per interval, started by the first ready event in it
+    private queueReadyDigests(session: Session): void {
+        if (!this.preferences) {
+            return
+        }
+
+        for (const stored of this.preferences.getByNamespace(session.namespace)) {
+            const { preferences, accountId } = stored
+            if (preferences.digestMinutes === null || preferences.permissionsOnly || isSessionMuted(preferences, session)) {
+                continue
+            }
+
+            const key = `${session.namespace}\u0000${accountId ?? 'owner'}`
+            const existing = this.readyDigests.get(key)
+            if (existing) {
+                existing.sessionIds.add(session.id)
+                continue
+            }
+
+            const timer = setTimeout(() => {
+                this.readyDigests.delete(key)
+                this.sendReadyDigest(digest).catch((error) => {
+                    console.error('[NotificationHub] Failed to send ready digest:', error)
+                })
+            }, preferences.digestMinutes * this.digestMinuteMs)
+            const digest: ReadyDigest = {
+                namespace: session.namespace,
+                accountId,
+                sessionIds: new Set([session.id]),
+                timer
+            }
+            this.readyDigests.set(key, digest)
+        }
+    }
+
+    private async sendReadyDigest(digest: ReadyDigest): Promise<void> {
+        const sessions: Session[] = []
+        for (const sessionId of digest.sessionIds) {
+            const session = this.getNotifiableSession(sessionId)
+            if (session) {
+                sessions.push(session)
+            }
+        }
+        if (sessions.length === 0) {
+            return
+        }
+
+        const stored = this.preferences?.get(digest.namespace, digest.accountId) ?? null
+        const included = stored ? sessions.filter((session) => !isSessionMuted(stored.preferences, session)) : sessions
+        if (included.length === 0) {
+            return
+        }
+
+        // Only the digest's owner, on the channels and at the hours they currently allow
+        const now = this.now()
         for (const channel of this.channels) {
+            const channelId = channel.id
+            if (!channelId) {
+                continue
+            }
+            const audience: NotificationAudience = (accountId) => accountId === digest.accountId
+                && (!stored || shouldNotifyUser(stored.preferences, 'ready', channelId, {}, now))
+
             try {
-                await channel.sendPermissionRequest(session)
+                if (channel.sendReadyDigest) {
+                    await channel.sendReadyDigest(digest.namespace, included, audience)
+                    continue
+                }
+                for (const session of included) {
+                    await channel.sendReady(session, audience)
+                }
             } catch (error) {
-                console.error('[NotificationHub] Failed to send permission notification:', error)
+                console.error('[NotificationHub] Failed to send ready digest:', error)
             }
         }
     }
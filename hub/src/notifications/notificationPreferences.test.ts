@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test'
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@hapi/protocol/schemas'
+import type { NotificationPreferences } from '@hapi/protocol/types'
+import { isSessionMuted, isWithinQuietHours, shouldNotifyUser } from './notificationPreferences'
+
+function preferences(overrides: Partial<NotificationPreferences> = {}): NotificationPreferences {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...overrides }
+}
+
+describe('isWithinQuietHours', () => {
+    it('handles windows that run past midnight in the given time zone', () => {
+        const quietHours = { start: '22:00', end: '07:00', timeZone: 'Asia/Tokyo' }
+
+        // 14:30 UTC is 23:30 in Tokyo
+        expect(isWithinQuietHours(quietHours, new Date('2026-03-01T14:30:00Z'))).toBe(true)
+        // 21:59 UTC is 06:59 in Tokyo
+        expect(isWithinQuietHours(quietHours, new Date('2026-03-01T21:59:00Z'))).toBe(true)
+        // 22:00 UTC is 07:00 in Tokyo
+        expect(isWithinQuietHours(quietHours, new Date('2026-03-01T22:00:00Z'))).toBe(false)
+    })
+
+    it('handles same-day windows', () => {
+        const quietHours = { start: '12:00', end: '13:00', timeZone: 'UTC' }
+
+        expect(isWithinQuietHours(quietHours, new Date('2026-03-01T12:15:00Z'))).toBe(true)
+        expect(isWithinQuietHours(quietHours, new Date('2026-03-01T13:00:00Z'))).toBe(false)
+    })
+})
+
+describe('isSessionMuted', () => {
+    it('matches muted session ids and directories, but not sibling paths', () => {
+        const prefs = preferences({ mutedSessionIds: ['s1'], mutedDirectories: ['/work/scratch/'] })
+
+        expect(isSessionMuted(prefs, { id: 's1', metadata: null })).toBe(true)
+        expect(isSessionMuted(prefs, { id: 's2', metadata: { path: '/work/scratch', host: 'h' } })).toBe(true)
+        expect(isSessionMuted(prefs, { id: 's2', metadata: { path: '/work/scratch/app', host: 'h' } })).toBe(true)
+        expect(isSessionMuted(prefs, { id: 's2', metadata: { path: '/work/scratchpad', host: 'h' } })).toBe(false)
+    })
+})
+
+describe('shouldNotifyUser', () => {
+    const now = new Date('2026-03-01T12:00:00Z')
+
+    it('limits events to permission requests in permissions-only mode', () => {
+        const prefs = preferences({ permissionsOnly: true })
+
+        expect(shouldNotifyUser(prefs, 'ready', 'push', {}, now)).toBe(false)
+        expect(shouldNotifyUser(prefs, 'permission-request', 'push', {}, now)).toBe(true)
+    })
+
+    it('honors per-event channel selection', () => {
+        const prefs = preferences({ channels: { ready: ['telegram'] } })
+
+        expect(shouldNotifyUser(prefs, 'ready', 'push', {}, now)).toBe(false)
+        expect(shouldNotifyUser(prefs, 'ready', 'telegram', {}, now)).toBe(true)
+        expect(shouldNotifyUser(prefs, 'permission-request', 'push', {}, now)).toBe(true)
+    })
+
+    it('checks removed sessions by id', () => {
+        const prefs = preferences({ mutedSessionIds: ['s1'] })
+
+        expect(shouldNotifyUser(prefs, 'session-removed', 'push', { sessionId: 's1' }, now)).toBe(false)
+        expect(shouldNotifyUser(prefs, 'session-removed', 'push', { sessionId: 's2' }, now)).toBe(true)
+    })
+})
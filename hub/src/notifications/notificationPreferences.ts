@@ -0,0 +1,104 @@
+import type {
+    NotificationChannelId,
+    NotificationPreferences,
+    NotificationQuietHours
+} from '@hapi/protocol/types'
+import type { Session } from '../sync/syncEngine'
+import type { NotificationEvent } from './notificationTypes'
+
+function parseClockTime(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number)
+    return hours * 60 + minutes
+}
+
+function getMinutesInTimeZone(now: Date, timeZone: string): number | null {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23'
+        }).formatToParts(now)
+        const hour = Number(parts.find((part) => part.type === 'hour')?.value)
+        const minute = Number(parts.find((part) => part.type === 'minute')?.value)
+        if (!Number.isFinite(hour) || !Number.isFinite(minute)) {
+            return null
+        }
+        return hour * 60 + minute
+    } catch {
+        return null
+    }
+}
+
+export function isWithinQuietHours(quietHours: NotificationQuietHours, now: Date): boolean {
+    const minutes = getMinutesInTimeZone(now, quietHours.timeZone)
+    if (minutes === null) {
+        return false
+    }
+    const start = parseClockTime(quietHours.start)
+    const end = parseClockTime(quietHours.end)
+    if (start <= end) {
+        return minutes >= start && minutes < end
+    }
+    return minutes >= start || minutes < end
+}
+
+function trimTrailingSeparators(path: string): string {
+    const trimmed = path.replace(/[\\/]+$/, '')
+    return trimmed.length > 0 ? trimmed : path
+}
+
+function isPathInside(path: string, directory: string): boolean {
+    const base = trimTrailingSeparators(directory)
+    const target = trimTrailingSeparators(path)
+    if (target === base) {
+        return true
+    }
+    return target.startsWith(`${base}/`) || target.startsWith(`${base}\\`)
+}
+
+export function isSessionMuted(preferences: NotificationPreferences, session: Pick<Session, 'id' | 'metadata'>): boolean {
+    if (preferences.mutedSessionIds.includes(session.id)) {
+        return true
+    }
+    const path = session.metadata?.path
+    if (!path) {
+        return false
+    }
+    return preferences.mutedDirectories.some((directory) => isPathInside(path, directory))
+}
+
+/**
+ * Whether one user wants this event on this channel right now. Session
+ * mutes only apply to events about a session; sessionId alone is enough
+ * for events about sessions that no longer exist.
+ */
+export function shouldNotifyUser(
+    preferences: NotificationPreferences,
+    event: NotificationEvent,
+    channel: NotificationChannelId,
+    target: { session?: Pick<Session, 'id' | 'metadata'> | null; sessionId?: string | null },
+    now: Date
+): boolean {
+    if (preferences.permissionsOnly && event !== 'permission-request') {
+        return false
+    }
+
+    const channels = preferences.channels[event]
+    if (channels && !channels.includes(channel)) {
+        return false
+    }
+
+    if (target.session && isSessionMuted(preferences, target.session)) {
+        return false
+    }
+    if (!target.session && target.sessionId && preferences.mutedSessionIds.includes(target.sessionId)) {
+        return false
+    }
+
+    if (preferences.quietHours && isWithinQuietHours(preferences.quietHours, now)) {
+        return false
+    }
+
+    return true
+}
@@ -1,11 +1,39 @@
-import type { Session } from '../sync/syncEngine'
+import type { NotificationChannelId, UsageBudgetStatus, WebhookEvent } from '@hapi/protocol/types'
+import type { NotificationPreferenceStore } from '../store'
+import type { Machine, Session } from '../sync/syncEngine'
+
+// Webhooks subscribe to events under the same names
+export type NotificationEvent = WebhookEvent
+
+/**
+ * Decides which users may receive one event on one channel, by users.id
+ * (null for the CLI_API_TOKEN owner). Channels that deliver to individual
+ * users must check it for every recipient.
+ */
+export type NotificationAudience = (accountId: number | null) => boolean
 
 export type NotificationChannel = {
-    sendReady: (session: Session) => Promise<void>
-    sendPermissionRequest: (session: Session) => Promise<void>
+    // Set by channels that deliver to individual users; channels without one
+    // (webhooks) are namespace-wide and receive every event
+    readonly id?: NotificationChannelId
+    sendReady: (session: Session, audience: NotificationAudience) => Promise<void>
+    sendPermissionRequest: (session: Session, audience: NotificationAudience) => Promise<void>
+    // Ready events batched for users in digest mode; sendReady is called per session if missing
+    sendReadyDigest?: (namespace: string, sessions: Session[], audience: NotificationAudience) => Promise<void>
+    // Lifecycle notifications are optional; push and Telegram do not send them
+    sendSessionAdded?: (session: Session, audience: NotificationAudience) => Promise<void>
+    sendSessionRemoved?: (sessionId: string, namespace: string, audience: NotificationAudience) => Promise<void>
+    sendMachineOffline?: (machine: Machine, audience: NotificationAudience) => Promise<void>
+    sendError?: (session: Session, message: string, audience: NotificationAudience) => Promise<void>
+    sendBudgetExceeded?: (session: Session, status: UsageBudgetStatus, audience: NotificationAudience) => Promise<void>
 }
 
 export type NotificationHubOptions = {
     readyCooldownMs?: number
     permissionDebounceMs?: number
+    // Per-user preferences; without them every user receives every event
+    preferences?: Pick<NotificationPreferenceStore, 'get' | 'getByNamespace'>
+    // Length of a digest minute; shortened in tests
+    digestMinuteMs?: number
+    now?: () => Date
 }
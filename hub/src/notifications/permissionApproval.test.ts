@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'bun:test'
+import type { Session } from '../sync/syncEngine'
+import { getSessionApproval, summarizeToolArguments } from './permissionApproval'
+
+function createSession(flavor: string, tool: string, args: unknown): Session {
+    return {
+        id: 'session-1',
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: true,
+        activeAt: 0,
+        metadata: { path: '/work/project', host: 'devbox', flavor },
+        metadataVersion: 0,
+        agentState: { requests: { 'req-1': { tool, arguments: args } } },
+        agentStateVersion: 0,
+        thinking: false,
+        thinkingAt: 0
+    }
+}
+
+describe('getSessionApproval', () => {
+    it('allows the exact Bash command or tool for Claude', () => {
+        expect(getSessionApproval(createSession('claude', 'Bash', { command: 'bun test' }), 'req-1'))
+            .toEqual({ allowTools: ['Bash(bun test)'] })
+        expect(getSessionApproval(createSession('claude', 'WebFetch', { url: 'https://example.com' }), 'req-1'))
+            .toEqual({ allowTools: ['WebFetch'] })
+    })
+
+    it('uses the session decision for codex-family agents', () => {
+        expect(getSessionApproval(createSession('gemini', 'Edit', {}), 'req-1'))
+            .toEqual({ decision: 'approved_for_session' })
+    })
+
+    it('is unavailable for edits, plan exits and unknown requests', () => {
+        expect(getSessionApproval(createSession('claude', 'Write', {}), 'req-1')).toBeNull()
+        expect(getSessionApproval(createSession('claude', 'ExitPlanMode', {}), 'req-1')).toBeNull()
+        expect(getSessionApproval(createSession('claude', 'Bash', {}), 'req-2')).toBeNull()
+    })
+})
+
+describe('summarizeToolArguments', () => {
+    it('picks the most telling argument and keeps it on one line', () => {
+        expect(summarizeToolArguments({ command: 'bun test\n  --watch', timeout: 1000 })).toBe('bun test --watch')
+        expect(summarizeToolArguments({ file_path: '/work/app.ts', content: 'x' })).toBe('/work/app.ts')
+        expect(summarizeToolArguments({ command: 'x'.repeat(200) })).toHaveLength(120)
+        expect(summarizeToolArguments({ todos: [] })).toBeNull()
+    })
+})
@@ -0,0 +1,72 @@
+import { isObject } from '@hapi/protocol'
+import type { Session } from '../sync/syncEngine'
+
+// Tools whose approval always needs a fresh decision, mirroring the web permission footer
+const NO_SESSION_APPROVAL_TOOLS = new Set([
+    'Edit',
+    'MultiEdit',
+    'Write',
+    'NotebookEdit',
+    'exit_plan_mode',
+    'ExitPlanMode'
+])
+
+export type SessionApproval = {
+    allowTools?: string[]
+    decision?: 'approved_for_session'
+}
+
+function isCodexFamilySession(session: Session, tool: string): boolean {
+    const flavor = session.metadata?.flavor
+    return flavor === 'codex'
+        || flavor === 'gemini'
+        || flavor === 'opencode'
+        || tool.startsWith('Codex')
+        || tool.startsWith('Gemini')
+        || tool.startsWith('OpenCode')
+}
+
+/**
+ * How to approve a pending request for the rest of the session, or null when
+ * the tool must be confirmed every time. Codex-family agents take a decision;
+ * Claude takes an allow-list entry, scoped to the exact command for Bash.
+ */
+export function getSessionApproval(session: Session, requestId: string): SessionApproval | null {
+    const request = session.agentState?.requests?.[requestId]
+    if (!request) {
+        return null
+    }
+    if (isCodexFamilySession(session, request.tool)) {
+        return { decision: 'approved_for_session' }
+    }
+    if (NO_SESSION_APPROVAL_TOOLS.has(request.tool)) {
+        return null
+    }
+    const command = isObject(request.arguments) && typeof request.arguments.command === 'string'
+        ? request.arguments.command
+        : ''
+    return { allowTools: [request.tool === 'Bash' && command ? `Bash(${command})` : request.tool] }
+}
+
+const MAX_ARGUMENT_SUMMARY_LENGTH = 120
+const SUMMARY_KEYS = ['command', 'cmd', 'file_path', 'path', 'notebook_path', 'url', 'pattern', 'query', 'description', 'prompt']
+
+/**
+ * One-line gist of a request's arguments (the Bash command, the file being
+ * written, the URL being fetched) for notification bodies.
+ */
+export function summarizeToolArguments(args: unknown): string | null {
+    if (!isObject(args)) {
+        return null
+    }
+    for (const key of SUMMARY_KEYS) {
+        const value = args[key]
+        if (typeof value === 'string' && value.trim()) {
+            const line = value.replace(/\s+/g, ' ').trim()
+            return line.length > MAX_ARGUMENT_SUMMARY_LENGTH
+                ? `${line.slice(0, MAX_ARGUMENT_SUMMARY_LENGTH - 1)}…`
+                : line
+        }
+    }
+    return null
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test'
+import type { PermissionPolicyContext, PermissionPolicyRule } from './permissionPolicy'
+import { evaluatePermissionRules, isValidCommandPattern, matchesPermissionRule } from './permissionPolicy'
+
+function createRule(overrides: Partial<PermissionPolicyRule> = {}): PermissionPolicyRule {
+    return {
+        sessionId: null,
+        enabled: true,
+        action: 'approve',
+        toolPattern: null,
+        commandPattern: null,
+        pathPatterns: [],
+        flavors: [],
+        ...overrides
+    }
+}
+
+const context: PermissionPolicyContext = {
+    sessionId: 'session-1',
+    flavor: 'claude',
+    rootPath: '/repo'
+}
+
+describe('matchesPermissionRule', () => {
+    it('matches tool names with globs', () => {
+        const rule = createRule({ toolPattern: 'mcp__*' })
+        expect(matchesPermissionRule(rule, { tool: 'mcp__github__list', arguments: {} }, context)).toBe(true)
+        expect(matchesPermissionRule(rule, { tool: 'Bash', arguments: {} }, context)).toBe(false)
+    })
+
+    it('matches shell commands with regular expressions', () => {
+        const rule = createRule({ toolPattern: 'Bash', commandPattern: '^git (status|diff)\\b' })
+        expect(matchesPermissionRule(rule, { tool: 'Bash', arguments: { command: 'git status' } }, context)).toBe(true)
+        expect(matchesPermissionRule(rule, { tool: 'Bash', arguments: { command: 'git push' } }, context)).toBe(false)
+    })
+
+    it('joins array commands from codex requests', () => {
+        const rule = createRule({ commandPattern: '^npm test$' })
+        const request = { tool: 'CodexBash', arguments: { command: ['npm', 'test'] } }
+        expect(matchesPermissionRule(rule, request, context)).toBe(true)
+    })
+
+    it('never matches an invalid command pattern', () => {
+        const rule = createRule({ commandPattern: '(' })
+        expect(isValidCommandPattern('(')).toBe(false)
+        expect(matchesPermissionRule(rule, { tool: 'Bash', arguments: { command: '(' } }, context)).toBe(false)
+    })
+
+    it('matches path arguments relative to the session directory', () => {
+        const rule = createRule({ toolPattern: 'Edit', pathPatterns: ['src/**'] })
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '/repo/src/a.ts' } }, context)).toBe(true)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: 'src/b/c.ts' } }, context)).toBe(true)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '/repo/package.json' } }, context)).toBe(false)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '/repo/../etc/src/x' } }, context)).toBe(false)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: {} }, context)).toBe(false)
+    })
+
+    it('matches files whose names start with two dots inside the session directory', () => {
+        const rule = createRule({ toolPattern: 'Edit', pathPatterns: ['..env.sample', '...config/**'] })
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '/repo/..env.sample' } }, context)).toBe(true)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '...config/x' } }, context)).toBe(true)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '/repo/..' } }, context)).toBe(false)
+        expect(matchesPermissionRule(rule, { tool: 'Edit', arguments: { file_path: '/..env.sample' } }, context)).toBe(false)
+    })
+
+    it('does not match path rules without a session directory', () => {
+        const rule = createRule({ pathPatterns: ['**'] })
+        const request = { tool: 'Write', arguments: { file_path: '/repo/a.ts' } }
+        expect(matchesPermissionRule(rule, request, { ...context, rootPath: null })).toBe(false)
+    })
+
+    it('filters by flavor and session', () => {
+        expect(matchesPermissionRule(createRule({ flavors: ['codex'] }), { tool: 'Bash', arguments: {} }, context)).toBe(false)
+        expect(matchesPermissionRule(createRule({ flavors: ['claude'] }), { tool: 'Bash', arguments: {} }, context)).toBe(true)
+        expect(matchesPermissionRule(createRule({ sessionId: 'other' }), { tool: 'Bash', arguments: {} }, context)).toBe(false)
+    })
+})
+
+describe('evaluatePermissionRules', () => {
+    it('returns the first enabled matching rule', () => {
+        const rules = [
+            createRule({ enabled: false, action: 'approve' }),
+            createRule({ toolPattern: 'Write', action: 'deny' }),
+            createRule({ toolPattern: 'Bash', action: 'escalate' }),
+            createRule({ action: 'approve' })
+        ]
+
+        expect(evaluatePermissionRules(rules, { tool: 'Bash', arguments: {} }, context)?.action).toBe('escalate')
+        expect(evaluatePermissionRules(rules, { tool: 'Write', arguments: {} }, context)?.action).toBe('deny')
+        expect(evaluatePermissionRules(rules, { tool: 'Read', arguments: {} }, context)?.rule).toBe(rules[3])
+        expect(evaluatePermissionRules(rules.slice(0, 1), { tool: 'Read', arguments: {} }, context)).toBeNull()
+    })
+})
@@ -0,0 +1,150 @@
+import { isAbsolute, relative, resolve, sep } from 'node:path'
+import type { PermissionRuleAction } from '@hapi/protocol/types'
+import type { StoredPermissionRule } from '../store'
+
+export type PermissionPolicyRule = Pick<
+    StoredPermissionRule,
+    'sessionId' | 'enabled' | 'action' | 'toolPattern' | 'commandPattern' | 'pathPatterns' | 'flavors'
+>
+
+export type PermissionPolicyRequest = {
+    tool: string
+    arguments: unknown
+}
+
+export type PermissionPolicyContext = {
+    sessionId: string
+    flavor: string | null
+    // Session working directory (metadata.path); path rules never match without it
+    rootPath: string | null
+}
+
+export type PermissionPolicyDecision<T extends PermissionPolicyRule> = {
+    rule: T
+    action: PermissionRuleAction
+}
+
+const COMMAND_KEYS = ['command', 'cmd'] as const
+const PATH_KEYS = ['file_path', 'filePath', 'notebook_path', 'path'] as const
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function extractCommand(args: unknown): string | null {
+    if (!isObject(args)) {
+        return null
+    }
+    for (const key of COMMAND_KEYS) {
+        const value = args[key]
+        if (typeof value === 'string' && value.length > 0) {
+            return value
+        }
+        if (Array.isArray(value) && value.length > 0 && value.every((part) => typeof part === 'string')) {
+            return value.join(' ')
+        }
+    }
+    return null
+}
+
+export function extractPaths(args: unknown): string[] {
+    if (!isObject(args)) {
+        return []
+    }
+    const paths: string[] = []
+    for (const key of PATH_KEYS) {
+        const value = args[key]
+        if (typeof value === 'string' && value.length > 0) {
+            paths.push(value)
+        }
+    }
+    return paths
+}
+
+export function isValidCommandPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern)
+        return true
+    } catch {
+        return false
+    }
+}
+
+function matchesGlob(pattern: string, value: string): boolean {
+    return new Bun.Glob(pattern).match(value)
+}
+
+function matchesCommand(pattern: string, args: unknown): boolean {
+    const command = extractCommand(args)
+    if (!command) {
+        return false
+    }
+    try {
+        return new RegExp(pattern).test(command)
+    } catch {
+        return false
+    }
+}
+
+function matchesPaths(patterns: string[], args: unknown, rootPath: string | null): boolean {
+    if (!rootPath) {
+        return false
+    }
+    const paths = extractPaths(args)
+    if (paths.length === 0) {
+        return false
+    }
+
+    return paths.every((path) => {
+        const relativePath = relative(rootPath, resolve(rootPath, path))
+        // Only a `..` segment leaves the root; `..env.sample` is a file inside it
+        const outsideRoot = relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)
+        if (relativePath === '' || outsideRoot) {
+            return false
+        }
+        return patterns.some((pattern) => matchesGlob(pattern, relativePath))
+    })
+}
+
+export function matchesPermissionRule(
+    rule: PermissionPolicyRule,
+    request: PermissionPolicyRequest,
+    context: PermissionPolicyContext
+): boolean {
+    if (rule.sessionId && rule.sessionId !== context.sessionId) {
+        return false
+    }
+    if (rule.flavors.length > 0 && (!context.flavor || !rule.flavors.includes(context.flavor))) {
+        return false
+    }
+    if (rule.toolPattern && !matchesGlob(rule.toolPattern, request.tool)) {
+        return false
+    }
+    if (rule.commandPattern && !matchesCommand(rule.commandPattern, request.arguments)) {
+        return false
+    }
+    if (rule.pathPatterns.length > 0 && !matchesPaths(rule.pathPatterns, request.arguments, context.rootPath)) {
+        return false
+    }
+    return true
+}
+
+/**
+ * Returns the first enabled rule matching the request. Rules are expected in
+ * evaluation order (ascending priority).
+ */
+export function evaluatePermissionRules<T extends PermissionPolicyRule>(
+    rules: T[],
+    request: PermissionPolicyRequest,
+    context: PermissionPolicyContext
+): PermissionPolicyDecision<T> | null {
+    for (const rule of rules) {
+        if (!rule.enabled) {
+            continue
+        }
+        if (matchesPermissionRule(rule, request, context)) {
+            return { rule, action: rule.action }
+        }
+    }
+    return null
+}
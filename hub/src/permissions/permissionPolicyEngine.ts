@@ -0,0 +1,108 @@
+import type { Session, SyncEngine, SyncEvent } from '../sync/syncEngine'
+import type { PermissionRuleStore, StoredPermissionRule } from '../store'
+import { evaluatePermissionRules } from './permissionPolicy'
+
+/**
+ * Applies namespace permission rules to pending requests as soon as they
+ * appear in a session's agent state. Requests matching an "escalate" rule (or
+ * no rule at all) are left for a human to decide.
+ */
+export class PermissionPolicyEngine {
+    private readonly handledRequests: Map<string, Set<string>> = new Map()
+    private unsubscribeSyncEvents: (() => void) | null = null
+
+    constructor(
+        private readonly syncEngine: SyncEngine,
+        private readonly rules: PermissionRuleStore
+    ) {
+        this.unsubscribeSyncEvents = this.syncEngine.subscribe((event) => {
+            this.handleSyncEvent(event)
+        })
+    }
+
+    stop(): void {
+        if (this.unsubscribeSyncEvents) {
+            this.unsubscribeSyncEvents()
+            this.unsubscribeSyncEvents = null
+        }
+        this.handledRequests.clear()
+    }
+
+    private handleSyncEvent(event: SyncEvent): void {
+        if ((event.type === 'session-updated' || event.type === 'session-added') && event.sessionId) {
+            const session = this.syncEngine.getSession(event.sessionId)
+            if (!session || !session.active) {
+                this.handledRequests.delete(event.sessionId)
+                return
+            }
+            this.applyRules(session)
+            return
+        }
+
+        if (event.type === 'session-removed' && event.sessionId) {
+            this.handledRequests.delete(event.sessionId)
+        }
+    }
+
+    private applyRules(session: Session): void {
+        const requests = session.agentState?.requests
+        if (!requests) {
+            this.handledRequests.delete(session.id)
+            return
+        }
+
+        const requestIds = Object.keys(requests)
+        const handled = this.handledRequests.get(session.id) ?? new Set<string>()
+        for (const requestId of handled) {
+            if (!(requestId in requests)) {
+                handled.delete(requestId)
+            }
+        }
+
+        const pending = requestIds.filter((requestId) => !handled.has(requestId))
+        if (pending.length === 0) {
+            this.handledRequests.set(session.id, handled)
+            return
+        }
+
+        const rules = this.rules.getRulesForSession(session.namespace, session.id)
+        const context = {
+            sessionId: session.id,
+            flavor: session.metadata?.flavor ?? null,
+            rootPath: session.metadata?.path ?? null
+        }
+
+        for (const requestId of pending) {
+            handled.add(requestId)
+            if (rules.length === 0) {
+                continue
+            }
+            const decision = evaluatePermissionRules(rules, requests[requestId], context)
+            if (!decision || decision.action === 'escalate') {
+                continue
+            }
+            this.applyDecision(session.id, requestId, decision.rule).catch((error) => {
+                console.error('[PermissionPolicy] Failed to apply rule:', error)
+            })
+        }
+
+        this.handledRequests.set(session.id, handled)
+    }
+
+    private async applyDecision(sessionId: string, requestId: string, rule: StoredPermissionRule): Promise<void> {
+        if (rule.action === 'approve') {
+            await this.syncEngine.approvePermission(
+                sessionId,
+                requestId,
+                undefined,
+                undefined,
+                'approved',
+                undefined,
+                `Auto-approved by rule "${rule.name}"`
+            )
+            return
+        }
+
+        await this.syncEngine.denyPermission(sessionId, requestId, 'denied', `Auto-denied by rule "${rule.name}"`)
+    }
+}
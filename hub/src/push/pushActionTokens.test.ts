@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'bun:test'
+import { Store } from '../store'
+import { signWebToken } from '../web/middleware/auth'
+import { canAnswerPermissions, signPushActionToken, verifyPushActionToken } from './pushActionTokens'
+
+const secret = new TextEncoder().encode('test-secret-test-secret-test-secret')
+const claims = {
+    namespace: 'default',
+    accountId: 7,
+    sessionId: 'session-1',
+    requestId: 'req-1',
+    action: 'approve_session' as const
+}
+
+describe('push action tokens', () => {
+    it('round-trips the claims with a unique token id', async () => {
+        const first = await verifyPushActionToken(secret, await signPushActionToken(secret, claims))
+        const second = await verifyPushActionToken(secret, await signPushActionToken(secret, claims))
+        expect(first).toMatchObject(claims)
+        expect(first?.expiresAt).toBeGreaterThan(Date.now())
+        expect(first?.tokenId).not.toBe(second?.tokenId)
+    })
+
+    it('rejects web session tokens and other secrets', async () => {
+        const webToken = await signWebToken(secret, { userId: 1, namespace: 'default', accountId: null })
+        expect(await verifyPushActionToken(secret, webToken)).toBeNull()
+
+        const otherSecret = new TextEncoder().encode('another-secret-another-secret-123')
+        expect(await verifyPushActionToken(otherSecret, await signPushActionToken(secret, claims))).toBeNull()
+    })
+
+    it('only lets operators and the namespace owner answer', () => {
+        const store = new Store(':memory:')
+        const viewer = store.users.addTokenUser('default', 'viewer', 'viewer', 'hash-1')
+        const operator = store.users.addTokenUser('default', 'operator', 'operator', 'hash-2')
+
+        expect(canAnswerPermissions(store, 'default', null)).toBe(true)
+        expect(canAnswerPermissions(store, 'default', operator.id)).toBe(true)
+        expect(canAnswerPermissions(store, 'default', viewer.id)).toBe(false)
+        expect(canAnswerPermissions(store, 'other', operator.id)).toBe(false)
+    })
+})
@@ -0,0 +1,91 @@
+import { randomUUID } from 'node:crypto'
+import { SignJWT, jwtVerify } from 'jose'
+import { z } from 'zod'
+import { hasUserRole } from '@hapi/protocol'
+import type { Store } from '../store'
+
+export const PUSH_ACTIONS = ['approve', 'approve_session', 'deny'] as const
+export type PushAction = typeof PUSH_ACTIONS[number]
+
+export type PushActionClaims = {
+    namespace: string
+    // users.id of the subscriber; null for the CLI_API_TOKEN owner
+    accountId: number | null
+    sessionId: string
+    requestId: string
+    action: PushAction
+}
+
+export type VerifiedPushAction = PushActionClaims & {
+    tokenId: string
+    expiresAt: number
+}
+
+// Kept short: the token rides in a notification that may sit unread on a lock screen
+const PUSH_ACTION_TOKEN_TTL_SECONDS = 10 * 60
+// Separates these from web session tokens, which are signed with the same secret
+const PUSH_ACTION_AUDIENCE = 'hapi:push-action'
+
+const claimsSchema = z.object({
+    ns: z.string(),
+    acc: z.number().optional(),
+    sid: z.string(),
+    rid: z.string(),
+    act: z.enum(PUSH_ACTIONS),
+    jti: z.string(),
+    exp: z.number()
+})
+
+export async function signPushActionToken(jwtSecret: Uint8Array, claims: PushActionClaims): Promise<string> {
+    const payload: Record<string, unknown> = {
+        ns: claims.namespace,
+        sid: claims.sessionId,
+        rid: claims.requestId,
+        act: claims.action
+    }
+    if (claims.accountId !== null) {
+        payload.acc = claims.accountId
+    }
+    return await new SignJWT(payload)
+        .setProtectedHeader({ alg: 'HS256' })
+        .setAudience(PUSH_ACTION_AUDIENCE)
+        .setJti(randomUUID())
+        .setIssuedAt()
+        .setExpirationTime(`${PUSH_ACTION_TOKEN_TTL_SECONDS}s`)
+        .sign(jwtSecret)
+}
+
+export async function verifyPushActionToken(jwtSecret: Uint8Array, token: string): Promise<VerifiedPushAction | null> {
+    try {
+        const verified = await jwtVerify(token, jwtSecret, { algorithms: ['HS256'], audience: PUSH_ACTION_AUDIENCE })
+        const parsed = claimsSchema.safeParse(verified.payload)
+        if (!parsed.success) {
+            return null
+        }
+        const { ns, acc, sid, rid, act, jti, exp } = parsed.data
+        return {
+            namespace: ns,
+            accountId: acc ?? null,
+            sessionId: sid,
+            requestId: rid,
+            action: act,
+            tokenId: jti,
+            expiresAt: exp * 1000
+        }
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Whether a subscriber may answer permission requests. Checked when the
+ * notification is built and again when the action arrives, so a role change
+ * in between still applies.
+ */
+export function canAnswerPermissions(store: Store, namespace: string, accountId: number | null): boolean {
+    if (accountId === null) {
+        return true
+    }
+    const account = store.users.getUserById(accountId)
+    return Boolean(account && account.namespace === namespace && hasUserRole(account.role, 'operator'))
+}
@@ -1,28 +1,45 @@
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
+import type { Store, StoredPushSubscription } from '../store'
 import type { Session } from '../sync/syncEngine'
-import type { NotificationChannel } from '../notifications/notificationTypes'
+import type { NotificationAudience, NotificationChannel } from '../notifications/notificationTypes'
+import { getSessionApproval, summarizeToolArguments } from '../notifications/permissionApproval'
 import { getAgentName, getSessionName } from '../notifications/sessionInfo'
 import type { SSEManager } from '../sse/sseManager'
 import type { VisibilityTracker } from '../visibility/visibilityTracker'
-import type { PushPayload, PushService } from './pushService'
+import { formatBudgetUsage } from '../usage/budgets'
+import { canAnswerPermissions, signPushActionToken, type PushAction } from './pushActionTokens'
+import type { PushNotificationAction, PushPayload, PushService } from './pushService'
+
+const PERMISSION_ACTION_TITLES: Record<PushAction, string> = {
+    approve: 'Approve',
+    approve_session: 'Approve for session',
+    deny: 'Deny'
+}
 
 export class PushNotificationChannel implements NotificationChannel {
+    readonly id = 'push' as const
+
     constructor(
         private readonly pushService: PushService,
         private readonly sseManager: SSEManager,
         private readonly visibilityTracker: VisibilityTracker,
-        _appUrl: string
+        private readonly appUrl: string,
+        private readonly store: Store,
+        private readonly jwtSecret: Uint8Array
     ) {}
 
-    async sendPermissionRequest(session: Session): Promise<void> {
+    async sendPermissionRequest(session: Session, audience: NotificationAudience): Promise<void> {
         if (!session.active) {
             return
         }
 
         const name = getSessionName(session)
-        const request = session.agentState?.requests
-            ? Object.values(session.agentState.requests)[0]
+        const requestId = session.agentState?.requests
+            ? Object.keys(session.agentState.requests)[0] ?? null
             : null
-        const toolName = request?.tool ? ` (${request.tool})` : ''
+        const request = requestId ? session.agentState?.requests?.[requestId] ?? null : null
+        const summary = request ? summarizeToolArguments(request.arguments) : null
+        const toolName = request?.tool ? ` (${request.tool}${summary ? `: ${summary}` : ''})` : ''
 
         const payload: PushPayload = {
             title: 'Permission Request',
@@ -31,30 +48,28 @@ export class PushNotificationChannel implements NotificationChannel {
             data: {
                 type: 'permission-request',
                 sessionId: session.id,
-                url: this.buildSessionPath(session.id)
+                url: this.buildSessionPath(session.id),
+                ...(requestId && request ? { requestId, tool: request.tool, summary } : {})
             }
         }
 
-        const url = payload.data?.url ?? this.buildSessionPath(session.id)
-        if (this.visibilityTracker.hasVisibleConnection(session.namespace)) {
-            const delivered = await this.sseManager.sendToast(session.namespace, {
-                type: 'toast',
-                data: {
-                    title: payload.title,
-                    body: payload.body,
-                    sessionId: session.id,
-                    url
-                }
-            })
-            if (delivered > 0) {
-                return
-            }
+        if (await this.sendToastIfVisible(session.namespace, payload, audience)) {
+            return
         }
 
-        await this.pushService.sendToNamespace(session.namespace, payload)
+        const accept = (subscription: StoredPushSubscription) => audience(subscription.accountId)
+        if (!requestId) {
+            await this.pushService.sendToNamespace(session.namespace, payload, accept)
+            return
+        }
+        await this.pushService.sendToNamespace(
+            session.namespace,
+            async (subscription) => await this.withPermissionActions(payload, session, requestId, subscription),
+            accept
+        )
     }
 
-    async sendReady(session: Session): Promise<void> {
+    async sendReady(session: Session, audience: NotificationAudience): Promise<void> {
         if (!session.active) {
             return
         }
@@ -73,23 +88,119 @@ export class PushNotificationChannel implements NotificationChannel {
             }
         }
 
-        const url = payload.data?.url ?? this.buildSessionPath(session.id)
-        if (this.visibilityTracker.hasVisibleConnection(session.namespace)) {
-            const delivered = await this.sseManager.sendToast(session.namespace, {
-                type: 'toast',
-                data: {
-                    title: payload.title,
-                    body: payload.body,
-                    sessionId: session.id,
-                    url
-                }
-            })
-            if (delivered > 0) {
-                return
+        if (await this.sendToastIfVisible(session.namespace, payload, audience)) {
+            return
+        }
+
+        await this.pushService.sendToNamespace(
+            session.namespace,
+            payload,
+            (subscription) => audience(subscription.accountId)
+        )
+    }
+
+    async sendReadyDigest(namespace: string, sessions: Session[], audience: NotificationAudience): Promise<void> {
+        const [first] = sessions
+        if (!first) {
+            return
+        }
+
+        const names = sessions.map((session) => getSessionName(session))
+        const payload: PushPayload = {
+            title: sessions.length === 1 ? 'Ready for input' : `${sessions.length} sessions ready for input`,
+            body: names.join(', '),
+            tag: `ready-digest-${namespace}`,
+            data: {
+                type: 'ready-digest',
+                sessionId: first.id,
+                url: sessions.length === 1 ? this.buildSessionPath(first.id) : '/sessions'
             }
         }
 
-        await this.pushService.sendToNamespace(session.namespace, payload)
+        if (await this.sendToastIfVisible(namespace, payload, audience)) {
+            return
+        }
+
+        await this.pushService.sendToNamespace(namespace, payload, (subscription) => audience(subscription.accountId))
+    }
+
+    async sendBudgetExceeded(session: Session, status: UsageBudgetStatus, audience: NotificationAudience): Promise<void> {
+        const name = getSessionName(session)
+        const paused = status.budget.action === 'pause' ? ' - new prompts are paused' : ''
+
+        const payload: PushPayload = {
+            title: 'Usage budget exceeded',
+            body: `${formatBudgetUsage(status)} (${name})${paused}`,
+            tag: `budget-${status.budget.id}`,
+            data: {
+                type: 'budget-exceeded',
+                sessionId: session.id,
+                url: this.buildSessionPath(session.id)
+            }
+        }
+
+        await this.pushService.sendToNamespace(
+            session.namespace,
+            payload,
+            (subscription) => audience(subscription.accountId)
+        )
+    }
+
+    // An open, visible app shows a toast instead of a system notification
+    private async sendToastIfVisible(
+        namespace: string,
+        payload: PushPayload,
+        audience: NotificationAudience
+    ): Promise<boolean> {
+        if (!payload.data || !this.visibilityTracker.hasVisibleConnection(namespace)) {
+            return false
+        }
+        const delivered = await this.sseManager.sendToast(namespace, {
+            type: 'toast',
+            data: {
+                title: payload.title,
+                body: payload.body,
+                sessionId: payload.data.sessionId,
+                url: payload.data.url
+            }
+        }, audience)
+        return delivered > 0
+    }
+
+    // Action buttons carry tokens bound to the subscriber, so viewers only get the plain notification
+    private async withPermissionActions(
+        payload: PushPayload,
+        session: Session,
+        requestId: string,
+        subscription: StoredPushSubscription
+    ): Promise<PushPayload> {
+        if (!payload.data || !canAnswerPermissions(this.store, session.namespace, subscription.accountId)) {
+            return payload
+        }
+
+        const actions: PushAction[] = getSessionApproval(session, requestId)
+            ? ['approve', 'approve_session', 'deny']
+            : ['approve', 'deny']
+        const signed: PushNotificationAction[] = await Promise.all(actions.map(async (action) => ({
+            action,
+            title: PERMISSION_ACTION_TITLES[action],
+            token: await signPushActionToken(this.jwtSecret, {
+                namespace: session.namespace,
+                accountId: subscription.accountId,
+                sessionId: session.id,
+                requestId,
+                action
+            })
+        })))
+
+        return {
+            ...payload,
+            data: {
+                ...payload.data,
+                actionUrl: `${this.appUrl.replace(/\/+$/, '')}/api/push/action`,
+                actions: signed
+            }
+        }
     }
 
     private buildSessionPath(sessionId: string): string {
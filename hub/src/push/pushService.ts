@@ -1,6 +1,14 @@
 import * as webPush from 'web-push'
-import type { Store } from '../store'
+import type { Store, StoredPushSubscription } from '../store'
 import type { VapidKeys } from '../config/vapidKeys'
+import type { PushAction } from './pushActionTokens'
+
+export type PushNotificationAction = {
+    action: PushAction
+    title: string
+    // Single-use token the service worker posts to actionUrl
+    token: string
+}
 
 export type PushPayload = {
     title: string
@@ -10,14 +18,16 @@ export type PushPayload = {
         type: string
         sessionId: string
         url: string
+        requestId?: string
+        tool?: string
+        summary?: string | null
+        actionUrl?: string
+        actions?: PushNotificationAction[]
     }
 }
 
-type StoredSubscription = {
-    endpoint: string
-    p256dh: string
-    auth: string
-}
+// Builds the payload for one subscription, for content that depends on who subscribed
+export type PushPayloadBuilder = (subscription: StoredPushSubscription) => Promise<PushPayload>
 
 type PushSubscription = {
     endpoint: string
@@ -36,21 +46,27 @@ export class PushService {
         webPush.setVapidDetails(this.subject, this.vapidKeys.publicKey, this.vapidKeys.privateKey)
     }
 
-    async sendToNamespace(namespace: string, payload: PushPayload): Promise<void> {
+    async sendToNamespace(
+        namespace: string,
+        payload: PushPayload | PushPayloadBuilder,
+        accept?: (subscription: StoredPushSubscription) => boolean
+    ): Promise<void> {
         const subscriptions = this.store.push.getPushSubscriptionsByNamespace(namespace)
+            .filter((subscription) => !accept || accept(subscription))
         if (subscriptions.length === 0) {
             return
         }
 
-        const body = JSON.stringify(payload)
-        await Promise.all(subscriptions.map((subscription) => {
-            return this.sendToSubscription(namespace, subscription, body)
+        const shared = typeof payload === 'function' ? null : JSON.stringify(payload)
+        await Promise.all(subscriptions.map(async (subscription) => {
+            const body = shared ?? JSON.stringify(await (payload as PushPayloadBuilder)(subscription))
+            return await this.sendToSubscription(namespace, subscription, body)
         }))
     }
 
     private async sendToSubscription(
         namespace: string,
-        subscription: StoredSubscription,
+        subscription: StoredPushSubscription,
         body: string
     ): Promise<void> {
         const pushSubscription: PushSubscription = {
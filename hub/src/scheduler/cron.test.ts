@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'bun:test'
+import { isValidCron, nextCronRun, parseCron } from './cron'
+
+function at(year: number, month: number, day: number, hour = 0, minute = 0): number {
+    return new Date(year, month - 1, day, hour, minute).getTime()
+}
+
+describe('cron', () => {
+    it('parses lists, ranges and steps', () => {
+        const cron = parseCron('*/15 9-17/4 1,15 * 1-5')
+        expect(cron).not.toBeNull()
+        expect([...cron!.minutes]).toEqual([0, 15, 30, 45])
+        expect([...cron!.hours]).toEqual([9, 13, 17])
+        expect([...cron!.daysOfMonth]).toEqual([1, 15])
+        expect([...cron!.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('rejects malformed and impossible expressions', () => {
+        expect(isValidCron('0 9 * *')).toBe(false)
+        expect(isValidCron('60 9 * * *')).toBe(false)
+        expect(isValidCron('0 9 * * mon')).toBe(false)
+        expect(isValidCron('*/0 * * * *')).toBe(false)
+        expect(isValidCron('0 0 30 2 *')).toBe(false)
+        expect(isValidCron('0 9 * * 7')).toBe(true)
+    })
+
+    it('finds the next matching minute after a time', () => {
+        const weekdaysAtNine = parseCron('0 9 * * 1-5')!
+        // Friday 2026-01-09 09:00 -> Monday 2026-01-12 09:00
+        expect(nextCronRun(weekdaysAtNine, at(2026, 1, 9, 9, 0))).toBe(at(2026, 1, 12, 9, 0))
+        expect(nextCronRun(weekdaysAtNine, at(2026, 1, 12, 8, 59))).toBe(at(2026, 1, 12, 9, 0))
+
+        const monthEnd = parseCron('30 23 31 * *')!
+        expect(nextCronRun(monthEnd, at(2026, 2, 1))).toBe(at(2026, 3, 31, 23, 30))
+    })
+
+    it('matches either day field when both are restricted', () => {
+        // The 13th of the month or any Friday
+        const cron = parseCron('0 0 13 * 5')!
+        expect(nextCronRun(cron, at(2026, 1, 1))).toBe(at(2026, 1, 2))
+        expect(nextCronRun(cron, at(2026, 1, 12, 1))).toBe(at(2026, 1, 13))
+    })
+})
@@ -0,0 +1,162 @@
+/**
+ * Minimal five-field cron support: minute hour day-of-month month day-of-week.
+ * Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`, `9-17/2`).
+ * Day-of-week accepts 0-7 (0 and 7 are Sunday). As in Vixie cron, when both
+ * day fields are restricted a time matches if either of them does.
+ * Times are evaluated in the hub's local time zone.
+ */
+
+export type CronExpression = {
+    minutes: Set<number>
+    hours: Set<number>
+    daysOfMonth: Set<number>
+    months: Set<number>
+    daysOfWeek: Set<number>
+    daysOfMonthRestricted: boolean
+    daysOfWeekRestricted: boolean
+}
+
+type FieldSpec = { min: number; max: number }
+
+const FIELDS: FieldSpec[] = [
+    { min: 0, max: 59 },
+    { min: 0, max: 23 },
+    { min: 1, max: 31 },
+    { min: 1, max: 12 },
+    { min: 0, max: 7 }
+]
+
+// Searching further than this means the expression can never fire (e.g. 30 February)
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+function parseNumber(raw: string, spec: FieldSpec): number | null {
+    if (!/^\d+$/.test(raw)) {
+        return null
+    }
+    const value = Number.parseInt(raw, 10)
+    return value >= spec.min && value <= spec.max ? value : null
+}
+
+function parseField(raw: string, spec: FieldSpec): Set<number> | null {
+    const values = new Set<number>()
+    for (const part of raw.split(',')) {
+        const [rangePart, stepPart, ...rest] = part.split('/')
+        if (rest.length > 0 || !rangePart) {
+            return null
+        }
+
+        let step = 1
+        if (stepPart !== undefined) {
+            const parsedStep = /^\d+$/.test(stepPart) ? Number.parseInt(stepPart, 10) : 0
+            if (parsedStep < 1) {
+                return null
+            }
+            step = parsedStep
+        }
+
+        let start: number
+        let end: number
+        if (rangePart === '*') {
+            start = spec.min
+            end = spec.max
+        } else if (rangePart.includes('-')) {
+            const [from, to, ...extra] = rangePart.split('-')
+            const parsedFrom = parseNumber(from ?? '', spec)
+            const parsedTo = parseNumber(to ?? '', spec)
+            if (extra.length > 0 || parsedFrom === null || parsedTo === null || parsedFrom > parsedTo) {
+                return null
+            }
+            start = parsedFrom
+            end = parsedTo
+        } else {
+            const value = parseNumber(rangePart, spec)
+            if (value === null) {
+                return null
+            }
+            start = value
+            // "5/10" means every 10 starting at 5
+            end = stepPart !== undefined ? spec.max : value
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value)
+        }
+    }
+    return values.size > 0 ? values : null
+}
+
+export function parseCron(expression: string): CronExpression | null {
+    const parts = expression.trim().split(/\s+/)
+    if (parts.length !== 5) {
+        return null
+    }
+
+    const fields = parts.map((part, index) => parseField(part, FIELDS[index]))
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields
+    if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+        return null
+    }
+
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7)
+        daysOfWeek.add(0)
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        daysOfMonthRestricted: parts[2] !== '*',
+        daysOfWeekRestricted: parts[4] !== '*'
+    }
+}
+
+export function isValidCron(expression: string): boolean {
+    const parsed = parseCron(expression)
+    return parsed !== null && nextCronRun(parsed, Date.now()) !== null
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+    const domMatch = cron.daysOfMonth.has(date.getDate())
+    const dowMatch = cron.daysOfWeek.has(date.getDay())
+    if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+        return domMatch || dowMatch
+    }
+    return domMatch && dowMatch
+}
+
+/**
+ * Returns the first matching minute strictly after `after`, or null if there
+ * is none within five years.
+ */
+export function nextCronRun(cron: CronExpression, after: number): number | null {
+    const date = new Date(after)
+    date.setSeconds(0, 0)
+    date.setMinutes(date.getMinutes() + 1)
+    const limit = after + MAX_SEARCH_MS
+
+    while (date.getTime() <= limit) {
+        if (!cron.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1)
+            date.setHours(0, 0, 0, 0)
+            continue
+        }
+        if (!matchesDay(cron, date)) {
+            date.setDate(date.getDate() + 1)
+            date.setHours(0, 0, 0, 0)
+            continue
+        }
+        if (!cron.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0)
+            continue
+        }
+        if (!cron.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0)
+            continue
+        }
+        return date.getTime()
+    }
+    return null
+}
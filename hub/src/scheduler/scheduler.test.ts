@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { Store } from '../store'
+import type { Machine, Session, SyncEngine } from '../sync/syncEngine'
+import { computeNextRunAt, Scheduler } from './scheduler'
+
+class FakeSyncEngine {
+    readonly sessions: Map<string, Session> = new Map()
+    readonly onlineMachines: Machine[] = []
+    readonly sent: Array<{ sessionId: string; text: string }> = []
+    readonly spawned: string[] = []
+
+    getSessionByNamespace(sessionId: string, namespace: string): Session | undefined {
+        const session = this.sessions.get(sessionId)
+        return session?.namespace === namespace ? session : undefined
+    }
+
+    getOnlineMachinesByNamespace(namespace: string): Machine[] {
+        return this.onlineMachines.filter((machine) => machine.namespace === namespace)
+    }
+
+    getMachine(machineId: string): Machine | undefined {
+        return this.onlineMachines.find((machine) => machine.id === machineId)
+    }
+
+    async spawnSession(machineId: string, directory: string, agent: string): Promise<{ type: 'success'; sessionId: string }> {
+        const sessionId = `spawned-${this.spawned.length + 1}`
+        this.spawned.push(`${machineId}:${directory}:${agent}`)
+        this.sessions.set(sessionId, createSession({ id: sessionId }))
+        return { type: 'success', sessionId }
+    }
+
+    async waitForSessionActive(): Promise<boolean> {
+        return true
+    }
+
+    async sendMessage(sessionId: string, payload: { text: string }): Promise<void> {
+        this.sent.push({ sessionId, text: payload.text })
+    }
+}
+
+function createSession(overrides: Partial<Session> = {}): Session {
+    return {
+        id: 'session-1',
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: true,
+        activeAt: 0,
+        metadata: null,
+        metadataVersion: 0,
+        agentState: null,
+        agentStateVersion: 0,
+        thinking: false,
+        thinkingAt: 0,
+        ...overrides
+    }
+}
+
+function createMachine(id: string): Machine {
+    return {
+        id,
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: true,
+        activeAt: 0,
+        metadata: null,
+        metadataVersion: 0,
+        runnerState: null,
+        runnerStateVersion: 0
+    }
+}
+
+const schedulers: Scheduler[] = []
+
+function createScheduler(engine: FakeSyncEngine, store: Store): Scheduler {
+    const scheduler = new Scheduler(engine as unknown as SyncEngine, store.schedules)
+    schedulers.push(scheduler)
+    return scheduler
+}
+
+afterEach(() => {
+    for (const scheduler of schedulers.splice(0)) {
+        scheduler.stop()
+    }
+})
+
+describe('Scheduler', () => {
+    it('prompts a session when due and advances to the next occurrence', async () => {
+        const store = new Store(':memory:')
+        const engine = new FakeSyncEngine()
+        engine.sessions.set('session-1', createSession())
+        const scheduler = createScheduler(engine, store)
+
+        const now = Date.now()
+        const schedule = store.schedules.addSchedule('default', {
+            name: 'Nightly tests',
+            cron: '0 9 * * *',
+            enabled: true,
+            target: 'session',
+            prompt: 'Run the test suite',
+            sessionId: 'session-1',
+            machineId: null,
+            directory: null,
+            agent: null,
+            yolo: false,
+            missedRunPolicy: 'skip',
+            nextRunAt: now - 1_000
+        })
+
+        await scheduler.tick(now)
+
+        expect(engine.sent).toEqual([{ sessionId: 'session-1', text: 'Run the test suite' }])
+        const [run] = store.schedules.getRuns(schedule.id)
+        expect(run).toMatchObject({ status: 'succeeded', sessionId: 'session-1', manual: false })
+        expect(store.schedules.getSchedule(schedule.id, 'default')?.nextRunAt).toBe(computeNextRunAt('0 9 * * *', true, now))
+    })
+
+    it('records a missed run or holds it for later depending on the policy', async () => {
+        const store = new Store(':memory:')
+        const engine = new FakeSyncEngine()
+        const scheduler = createScheduler(engine, store)
+
+        const now = Date.now()
+        const spawnFields = {
+            cron: '0 0 1 1 *',
+            enabled: true,
+            target: 'spawn' as const,
+            prompt: 'Summarize failures',
+            sessionId: null,
+            machineId: 'machine-1',
+            directory: '/repo',
+            agent: 'claude' as const,
+            yolo: false,
+            nextRunAt: now - 60_000
+        }
+        const skipped = store.schedules.addSchedule('default', { ...spawnFields, name: 'skip', missedRunPolicy: 'skip' })
+        const held = store.schedules.addSchedule('default', { ...spawnFields, name: 'hold', missedRunPolicy: 'run-once' })
+
+        await scheduler.tick(now)
+
+        expect(store.schedules.getRuns(skipped.id).map((run) => run.status)).toEqual(['missed'])
+        expect(store.schedules.getRuns(held.id)).toHaveLength(0)
+        expect(store.schedules.getSchedule(held.id, 'default')?.nextRunAt).toBe(now - 60_000)
+
+        engine.onlineMachines.push(createMachine('machine-1'))
+        await scheduler.tick(now + 30_000)
+
+        expect(engine.spawned).toEqual(['machine-1:/repo:claude'])
+        const [run] = store.schedules.getRuns(held.id)
+        expect(run).toMatchObject({ status: 'succeeded', scheduledFor: now - 60_000, sessionId: 'spawned-1' })
+        expect(engine.sent).toEqual([{ sessionId: 'spawned-1', text: 'Summarize failures' }])
+    })
+
+    it('spawns ACP agents only on machines that declare them', async () => {
+        const store = new Store(':memory:')
+        const engine = new FakeSyncEngine()
+        const machine = createMachine('machine-1')
+        engine.onlineMachines.push(machine)
+        const scheduler = createScheduler(engine, store)
+
+        const schedule = store.schedules.addSchedule('default', {
+            name: 'Kimi review',
+            cron: '0 9 * * *',
+            enabled: true,
+            target: 'spawn',
+            prompt: 'Review the open PRs',
+            sessionId: null,
+            machineId: 'machine-1',
+            directory: '/repo',
+            agent: 'acp:kimi',
+            yolo: false,
+            missedRunPolicy: 'skip',
+            nextRunAt: null
+        })
+        expect(store.schedules.getSchedule(schedule.id, 'default')?.agent).toBe('acp:kimi')
+
+        const failed = await scheduler.runNow(schedule)
+        expect(failed).toMatchObject({ status: 'failed', error: 'Agent kimi is not configured on this machine' })
+        expect(engine.spawned).toEqual([])
+
+        machine.metadata = {
+            host: 'host',
+            platform: 'linux',
+            happyCliVersion: '1.0.0',
+            acpAgents: [{ name: 'kimi', permissionModes: ['default'] }]
+        }
+        const succeeded = await scheduler.runNow(schedule)
+        expect(succeeded).toMatchObject({ status: 'succeeded', sessionId: 'spawned-1' })
+        expect(engine.spawned).toEqual(['machine-1:/repo:acp:kimi'])
+    })
+})
@@ -0,0 +1,248 @@
+import type { ScheduleStore, StoredSchedule, StoredScheduleRun, UsageStore } from '../store'
+import { getSpawnAgentError } from '../sync/spawnAgents'
+import type { SyncEngine } from '../sync/syncEngine'
+import { findPausingBudget } from '../usage/budgets'
+import { nextCronRun, parseCron } from './cron'
+
+const TICK_INTERVAL_MS = 30_000
+// A run that starts this late is treated as missed by the 'skip' policy (hub downtime)
+const MISSED_GRACE_MS = 5 * 60_000
+
+class ScheduleRunError extends Error {
+    constructor(message: string, readonly sessionId: string | null) {
+        super(message)
+    }
+}
+
+export function computeNextRunAt(cron: string, enabled: boolean, now: number = Date.now()): number | null {
+    if (!enabled) {
+        return null
+    }
+    const parsed = parseCron(cron)
+    return parsed ? nextCronRun(parsed, now) : null
+}
+
+/**
+ * Fires due schedules: prompts an existing session (resuming it if needed) or
+ * spawns a new session and sends it the prompt. Runs that come due while the
+ * target machine is offline are either recorded as missed ('skip') or held
+ * until the machine reconnects and then run once ('run-once').
+ */
+export class Scheduler {
+    private timer: ReturnType<typeof setInterval> | null = null
+    private ticking = false
+    private readonly running: Set<string> = new Set()
+
+    constructor(
+        private readonly syncEngine: SyncEngine,
+        private readonly schedules: ScheduleStore,
+        private readonly usage?: UsageStore
+    ) {
+        // The first tick waits an interval so machines can reconnect after a hub restart
+        this.timer = setInterval(() => {
+            void this.tick()
+        }, TICK_INTERVAL_MS)
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    isRunning(scheduleId: string): boolean {
+        return this.running.has(scheduleId)
+    }
+
+    async tick(now: number = Date.now()): Promise<void> {
+        if (this.ticking) {
+            return
+        }
+        this.ticking = true
+        try {
+            for (const schedule of this.schedules.getDueSchedules(now)) {
+                if (this.running.has(schedule.id)) {
+                    continue
+                }
+                await this.runDue(schedule, now)
+            }
+        } catch (error) {
+            console.error('[Scheduler] Tick failed:', error)
+        } finally {
+            this.ticking = false
+        }
+    }
+
+    /**
+     * Runs a schedule immediately, outside its cron cadence. Returns null if a
+     * run for the schedule is already in progress.
+     */
+    async runNow(schedule: StoredSchedule): Promise<StoredScheduleRun | null> {
+        if (this.running.has(schedule.id)) {
+            return null
+        }
+        const startedAt = Date.now()
+        this.schedules.setRunTimes(schedule.id, { nextRunAt: schedule.nextRunAt, lastRunAt: startedAt })
+        return await this.execute(schedule, startedAt, true)
+    }
+
+    private async runDue(schedule: StoredSchedule, now: number): Promise<void> {
+        const scheduledFor = schedule.nextRunAt ?? now
+        const nextRunAt = computeNextRunAt(schedule.cron, true, now)
+
+        if (!this.isTargetOnline(schedule)) {
+            if (schedule.missedRunPolicy === 'run-once') {
+                // Leave next_run_at in the past; every tick retries until the machine is back
+                return
+            }
+            this.recordMissed(schedule, scheduledFor, now, 'Machine offline')
+            this.schedules.setRunTimes(schedule.id, { nextRunAt })
+            return
+        }
+
+        if (schedule.missedRunPolicy === 'skip' && now - scheduledFor > MISSED_GRACE_MS) {
+            this.recordMissed(schedule, scheduledFor, now, 'Hub was offline')
+            this.schedules.setRunTimes(schedule.id, { nextRunAt })
+            return
+        }
+
+        // Advance before executing so a slow spawn cannot be picked up by the next tick
+        this.schedules.setRunTimes(schedule.id, { nextRunAt, lastRunAt: now })
+        await this.execute(schedule, scheduledFor, false)
+    }
+
+    private isTargetOnline(schedule: StoredSchedule): boolean {
+        const onlineMachines = this.syncEngine.getOnlineMachinesByNamespace(schedule.namespace)
+        if (schedule.target === 'spawn') {
+            return onlineMachines.some((machine) => machine.id === schedule.machineId)
+        }
+
+        const session = schedule.sessionId
+            ? this.syncEngine.getSessionByNamespace(schedule.sessionId, schedule.namespace)
+            : undefined
+        if (!session || session.active) {
+            // A missing session is a failure, not an outage; let execute() record it
+            return true
+        }
+        const metadata = session.metadata
+        return onlineMachines.some((machine) =>
+            (metadata?.machineId && machine.id === metadata.machineId)
+            || (metadata?.host && machine.metadata?.host === metadata.host)
+        )
+    }
+
+    private recordMissed(schedule: StoredSchedule, scheduledFor: number, now: number, reason: string): void {
+        this.schedules.addRun({
+            scheduleId: schedule.id,
+            scheduledFor,
+            startedAt: now,
+            status: 'missed',
+            manual: false,
+            sessionId: null,
+            error: reason
+        })
+    }
+
+    private async execute(schedule: StoredSchedule, scheduledFor: number, manual: boolean): Promise<StoredScheduleRun> {
+        this.running.add(schedule.id)
+        const startedAt = Date.now()
+        try {
+            const sessionId = schedule.target === 'spawn'
+                ? await this.spawnWithPrompt(schedule)
+                : await this.promptSession(schedule)
+            return this.schedules.addRun({
+                scheduleId: schedule.id,
+                scheduledFor,
+                startedAt,
+                status: 'succeeded',
+                manual,
+                sessionId,
+                error: null
+            })
+        } catch (error) {
+            console.error(`[Scheduler] Schedule ${schedule.id} failed:`, error)
+            return this.schedules.addRun({
+                scheduleId: schedule.id,
+                scheduledFor,
+                startedAt,
+                status: 'failed',
+                manual,
+                sessionId: error instanceof ScheduleRunError ? error.sessionId : null,
+                error: error instanceof Error ? error.message : 'Schedule run failed'
+            })
+        } finally {
+            this.running.delete(schedule.id)
+        }
+    }
+
+    private async promptSession(schedule: StoredSchedule): Promise<string> {
+        const session = schedule.sessionId
+            ? this.syncEngine.getSessionByNamespace(schedule.sessionId, schedule.namespace)
+            : undefined
+        if (!session) {
+            throw new ScheduleRunError('Session not found', schedule.sessionId)
+        }
+
+        let sessionId = session.id
+        if (!session.active) {
+            const resumed = await this.syncEngine.resumeSession(session.id, schedule.namespace)
+            if (resumed.type === 'error') {
+                throw new ScheduleRunError(resumed.message, session.id)
+            }
+            if (resumed.sessionId !== session.id) {
+                this.schedules.setSessionId(schedule.id, resumed.sessionId)
+                sessionId = resumed.sessionId
+            }
+        }
+
+        await this.sendPrompt(schedule, sessionId)
+        return sessionId
+    }
+
+    private async spawnWithPrompt(schedule: StoredSchedule): Promise<string> {
+        if (!schedule.machineId || !schedule.directory) {
+            throw new ScheduleRunError('Schedule is missing a machine or directory', null)
+        }
+
+        const agent = schedule.agent ?? 'claude'
+        const machine = this.syncEngine.getMachine(schedule.machineId)
+        const agentError = machine ? getSpawnAgentError(machine, agent) : null
+        if (agentError) {
+            throw new ScheduleRunError(agentError, null)
+        }
+
+        const result = await this.syncEngine.spawnSession(
+            schedule.machineId,
+            schedule.directory,
+            agent,
+            undefined,
+            schedule.yolo
+        )
+        if (result.type !== 'success') {
+            throw new ScheduleRunError(result.message, null)
+        }
+
+        const becameActive = await this.syncEngine.waitForSessionActive(result.sessionId)
+        if (!becameActive) {
+            throw new ScheduleRunError('Session failed to become active', result.sessionId)
+        }
+
+        await this.sendPrompt(schedule, result.sessionId)
+        return result.sessionId
+    }
+
+    private async sendPrompt(schedule: StoredSchedule, sessionId: string): Promise<void> {
+        const session = this.usage ? this.syncEngine.getSessionByNamespace(sessionId, schedule.namespace) : undefined
+        const pausing = session && this.usage ? findPausingBudget(this.usage, session) : null
+        if (pausing) {
+            throw new ScheduleRunError(`Usage budget exceeded: ${pausing.budget.name}`, sessionId)
+        }
+
+        try {
+            await this.syncEngine.sendMessage(sessionId, { text: schedule.prompt, sentFrom: 'scheduler' })
+        } catch (error) {
+            throw new ScheduleRunError(error instanceof Error ? error.message : 'Failed to send prompt', sessionId)
+        }
+    }
+}
@@ -15,6 +15,7 @@ type SessionAlivePayload = {
     mode?: 'local' | 'remote'
     permissionMode?: PermissionMode
     modelMode?: ModelMode
+    reasoningEffort?: string
 }
 
 type SessionEndPayload = {
@@ -26,6 +27,7 @@ type ResolveSessionAccess = (sessionId: string) => AccessResult<StoredSession>
 
 type EmitAccessError = (scope: 'session' | 'machine', id: string, reason: AccessErrorReason) => void
 
+type MessageHandler = ClientToServerEvents['message']
 type UpdateMetadataHandler = ClientToServerEvents['update-metadata']
 type UpdateStateHandler = ClientToServerEvents['update-state']
 
@@ -59,9 +61,12 @@ export type SessionHandlersDeps = {
 export function registerSessionHandlers(socket: CliSocketWithData, deps: SessionHandlersDeps): void {
     const { store, resolveSessionAccess, emitAccessError, onSessionAlive, onSessionEnd, onWebappEvent } = deps
 
-    socket.on('message', (data: unknown) => {
+    const handleMessage: MessageHandler = (data, cb) => {
+        // Older CLIs emit without an ack callback
+        const ack: Parameters<MessageHandler>[1] = typeof cb === 'function' ? cb : () => {}
         const parsed = messageSchema.safeParse(data)
         if (!parsed.success) {
+            ack({ result: 'error' })
             return
         }
 
@@ -81,11 +86,20 @@ export function registerSessionHandlers(socket: CliSocketWithData, deps: Session
         const sessionAccess = resolveSessionAccess(sid)
         if (!sessionAccess.ok) {
             emitAccessError('session', sid, sessionAccess.reason)
+            ack({ result: 'error', reason: sessionAccess.reason })
             return
         }
         const session = sessionAccess.value
 
+        // A replay from the CLI outbox; the first delivery was already broadcast
+        const existing = localId ? store.messages.getMessageByLocalId(sid, localId) : null
+        if (existing) {
+            ack({ result: 'success', seq: existing.seq })
+            return
+        }
+
         const msg = store.messages.addMessage(sid, content, localId)
+        ack({ result: 'success', seq: msg.seq })
 
         const todos = extractTodoWriteTodosFromMessageContent(content)
         if (todos) {
@@ -124,7 +138,9 @@ export function registerSessionHandlers(socket: CliSocketWithData, deps: Session
                 createdAt: msg.createdAt
             }
         })
-    })
+    }
+
+    socket.on('message', handleMessage)
 
     const handleUpdateMetadata: UpdateMetadataHandler = (data, cb) => {
         const parsed = updateMetadataSchema.safeParse(data)
@@ -2,10 +2,11 @@ import {
     TerminalErrorPayloadSchema,
     TerminalExitPayloadSchema,
     TerminalOutputPayloadSchema,
-    TerminalReadyPayloadSchema
+    TerminalReadyPayloadSchema,
+    TerminalRecordingPayloadSchema
 } from '@hapi/protocol'
 import type { StoredSession } from '../../../store'
-import type { TerminalRegistry } from '../../terminalRegistry'
+import type { TerminalRegistry, TerminalRegistryEntry } from '../../terminalRegistry'
 import type { CliSocketWithData, SocketServer } from '../../socketTypes'
 import type { AccessErrorReason, AccessResult } from './types'
 
@@ -19,6 +20,7 @@ const terminalReadySchema = TerminalReadyPayloadSchema
 const terminalOutputSchema = TerminalOutputPayloadSchema
 const terminalExitSchema = TerminalExitPayloadSchema
 const terminalErrorSchema = TerminalErrorPayloadSchema
+const terminalRecordingSchema = TerminalRecordingPayloadSchema
 
 export type TerminalHandlersDeps = {
     terminalRegistry: TerminalRegistry
@@ -30,6 +32,12 @@ export type TerminalHandlersDeps = {
 export function registerTerminalHandlers(socket: CliSocketWithData, deps: TerminalHandlersDeps): void {
     const { terminalRegistry, terminalNamespace, resolveSessionAccess, emitAccessError } = deps
 
+    const emitToViewers = (entry: TerminalRegistryEntry, event: string, payload: unknown) => {
+        for (const socketId of entry.viewers) {
+            terminalNamespace.sockets.get(socketId)?.emit(event, payload)
+        }
+    }
+
     const forwardTerminalEvent = (event: string, payload: { sessionId: string; terminalId: string } & Record<string, unknown>) => {
         const entry = terminalRegistry.get(payload.terminalId)
         if (!entry) {
@@ -46,11 +54,7 @@ export function registerTerminalHandlers(socket: CliSocketWithData, deps: Termin
             emitAccessError('session', payload.sessionId, sessionAccess.reason)
             return
         }
-        const terminalSocket = terminalNamespace.sockets.get(entry.socketId)
-        if (!terminalSocket) {
-            return
-        }
-        terminalSocket.emit(event, payload)
+        emitToViewers(entry, event, payload)
     }
 
     socket.on('terminal:ready', (data: unknown) => {
@@ -81,11 +85,7 @@ export function registerTerminalHandlers(socket: CliSocketWithData, deps: Termin
             return
         }
         terminalRegistry.remove(parsed.data.terminalId)
-        const terminalSocket = terminalNamespace.sockets.get(entry.socketId)
-        if (!terminalSocket) {
-            return
-        }
-        terminalSocket.emit('terminal:exit', parsed.data)
+        emitToViewers(entry, 'terminal:exit', parsed.data)
     })
 
     socket.on('terminal:error', (data: unknown) => {
@@ -95,15 +95,24 @@ export function registerTerminalHandlers(socket: CliSocketWithData, deps: Termin
         }
         forwardTerminalEvent('terminal:error', parsed.data)
     })
+
+    socket.on('terminal:recording', (data: unknown) => {
+        const parsed = terminalRecordingSchema.safeParse(data)
+        if (!parsed.success) {
+            return
+        }
+        forwardTerminalEvent('terminal:recording', parsed.data)
+    })
 }
 
 export function cleanupTerminalHandlers(socket: CliSocketWithData, deps: { terminalRegistry: TerminalRegistry; terminalNamespace: SocketNamespace }): void {
     const removed = deps.terminalRegistry.removeByCliSocket(socket.id)
     for (const entry of removed) {
-        const terminalSocket = deps.terminalNamespace.sockets.get(entry.socketId)
-        terminalSocket?.emit('terminal:error', {
-            terminalId: entry.terminalId,
-            message: 'CLI disconnected.'
-        })
+        for (const socketId of entry.viewers) {
+            deps.terminalNamespace.sockets.get(socketId)?.emit('terminal:error', {
+                terminalId: entry.terminalId,
+                message: 'CLI disconnected.'
+            })
+        }
     }
 }
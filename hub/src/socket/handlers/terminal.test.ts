@@ -1,7 +1,9 @@
 import { describe, expect, it } from 'bun:test'
 import { registerTerminalHandlers } from './terminal'
+import { registerTerminalHandlers as registerCliTerminalHandlers, type TerminalHandlersDeps as CliTerminalHandlersDeps } from './cli/terminalHandlers'
 import { TerminalRegistry } from '../terminalRegistry'
-import type { SocketServer, SocketWithData } from '../socketTypes'
+import type { StoredSession } from '../../store'
+import type { CliSocketWithData, SocketServer, SocketWithData } from '../socketTypes'
 
 type EmittedEvent = {
     event: string
@@ -12,6 +14,7 @@ class FakeSocket {
     readonly id: string
     readonly data: Record<string, unknown> = {}
     readonly emitted: EmittedEvent[] = []
+    readonly ackResponses = new Map<string, unknown>()
     private readonly handlers = new Map<string, (...args: unknown[]) => void>()
 
     constructor(id: string) {
@@ -28,6 +31,15 @@ class FakeSocket {
         return true
     }
 
+    timeout(_ms: number): { emit: (event: string, data: unknown, callback: (error: Error | null, response: unknown) => void) => void } {
+        return {
+            emit: (event, data, callback) => {
+                this.emitted.push({ event, data })
+                callback(null, this.ackResponses.get(event))
+            }
+        }
+    }
+
     trigger(event: string, data?: unknown): void {
         const handler = this.handlers.get(event)
         if (!handler) {
@@ -65,28 +77,47 @@ type Harness = {
     terminalSocket: FakeSocket
     cliNamespace: FakeNamespace
     terminalRegistry: TerminalRegistry
+    addTerminalSocket: (id: string) => FakeSocket
+    registerCliSocket: (cliSocket: FakeSocket) => void
 }
 
 function createHarness(options?: {
     sessionActive?: boolean
+    role?: 'viewer' | 'operator' | 'admin'
     maxTerminalsPerSocket?: number
     maxTerminalsPerSession?: number
 }): Harness {
     const io = new FakeServer()
-    const terminalSocket = new FakeSocket('terminal-socket')
-    terminalSocket.data.namespace = 'default'
     const terminalRegistry = new TerminalRegistry({ idleTimeoutMs: 0 })
     const cliNamespace = io.of('/cli')
 
-    registerTerminalHandlers(terminalSocket as unknown as SocketWithData, {
-        io: io as unknown as SocketServer,
-        getSession: () => ({ active: options?.sessionActive ?? true, namespace: 'default' }),
-        terminalRegistry,
-        maxTerminalsPerSocket: options?.maxTerminalsPerSocket ?? 4,
-        maxTerminalsPerSession: options?.maxTerminalsPerSession ?? 4
-    })
+    const addTerminalSocket = (id: string): FakeSocket => {
+        const socket = new FakeSocket(id)
+        socket.data.namespace = 'default'
+        socket.data.role = options?.role ?? 'operator'
+        io.of('/terminal').sockets.set(id, socket)
+        registerTerminalHandlers(socket as unknown as SocketWithData, {
+            io: io as unknown as SocketServer,
+            getSession: () => ({ active: options?.sessionActive ?? true, namespace: 'default' }),
+            terminalRegistry,
+            maxTerminalsPerSocket: options?.maxTerminalsPerSocket ?? 4,
+            maxTerminalsPerSession: options?.maxTerminalsPerSession ?? 4
+        })
+        return socket
+    }
 
-    return { io, terminalSocket, cliNamespace, terminalRegistry }
+    // Routes CLI terminal events (output, exit) back through the same registry
+    const registerCliSocket = (cliSocket: FakeSocket): void => {
+        registerCliTerminalHandlers(cliSocket as unknown as CliSocketWithData, {
+            terminalRegistry,
+            terminalNamespace: io.of('/terminal') as unknown as CliTerminalHandlersDeps['terminalNamespace'],
+            resolveSessionAccess: () => ({ ok: true, value: {} as StoredSession }),
+            emitAccessError: () => {}
+        })
+    }
+
+    const terminalSocket = addTerminalSocket('terminal-socket')
+    return { io, terminalSocket, cliNamespace, terminalRegistry, addTerminalSocket, registerCliSocket }
 }
 
 function connectCliSocket(cliNamespace: FakeNamespace, cliSocket: FakeSocket, sessionId: string): void {
@@ -122,6 +153,26 @@ describe('terminal socket handlers', () => {
         expect(terminalRegistry.get('terminal-1')).toBeNull()
     })
 
+    it('rejects terminal creation for viewers', () => {
+        const { terminalSocket, cliNamespace, terminalRegistry } = createHarness({ role: 'viewer' })
+        const cliSocket = new FakeSocket('cli-socket-1')
+        connectCliSocket(cliNamespace, cliSocket, 'session-1')
+
+        terminalSocket.trigger('terminal:create', {
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            cols: 80,
+            rows: 24
+        })
+
+        expect(lastEmit(terminalSocket, 'terminal:error')?.data).toEqual({
+            terminalId: 'terminal-1',
+            message: 'Your role does not allow terminal access.'
+        })
+        expect(lastEmit(cliSocket, 'terminal:open')).toBeUndefined()
+        expect(terminalRegistry.get('terminal-1')).toBeNull()
+    })
+
     it('opens a terminal and forwards write/resize/close to the CLI socket', () => {
         const { terminalSocket, cliNamespace, terminalRegistry } = createHarness()
         const cliSocket = new FakeSocket('cli-socket-1')
@@ -178,7 +229,7 @@ describe('terminal socket handlers', () => {
         expect(terminalRegistry.get('terminal-1')).toBeNull()
     })
 
-    it('cleans up and notifies CLI on terminal socket disconnect', () => {
+    it('keeps the terminal running when its viewer disconnects', () => {
         const { terminalSocket, cliNamespace, terminalRegistry } = createHarness()
         const cliSocket = new FakeSocket('cli-socket-1')
         connectCliSocket(cliNamespace, cliSocket, 'session-1')
@@ -192,12 +243,136 @@ describe('terminal socket handlers', () => {
 
         terminalSocket.trigger('disconnect')
 
-        const closeEvent = lastEmit(cliSocket, 'terminal:close')
-        expect(closeEvent?.data).toEqual({
+        expect(lastEmit(cliSocket, 'terminal:close')).toBeUndefined()
+        const entry = terminalRegistry.get('terminal-1')
+        expect(entry?.viewers.size).toBe(0)
+        expect(entry?.controllerSocketId).toBeNull()
+    })
+
+    it('replays the scrollback to a reattaching viewer and forwards new output', () => {
+        const { terminalSocket, cliNamespace, addTerminalSocket, registerCliSocket } = createHarness()
+        const cliSocket = new FakeSocket('cli-socket-1')
+        connectCliSocket(cliNamespace, cliSocket, 'session-1')
+        registerCliSocket(cliSocket)
+
+        terminalSocket.trigger('terminal:create', { sessionId: 'session-1', terminalId: 'terminal-1', cols: 80, rows: 24 })
+        terminalSocket.trigger('disconnect')
+
+        const nextSocket = addTerminalSocket('terminal-socket-2')
+        cliSocket.ackResponses.set('terminal:attach', { ok: true, scrollback: '$ make\r\n', cols: 80, rows: 24 })
+        nextSocket.trigger('terminal:attach', {
             sessionId: 'session-1',
-            terminalId: 'terminal-1'
+            terminalId: 'terminal-1',
+            cols: 100,
+            rows: 30,
+            mode: 'control'
         })
-        expect(terminalRegistry.get('terminal-1')).toBeNull()
+
+        expect(lastEmit(cliSocket, 'terminal:attach')?.data).toEqual({
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            cols: 100,
+            rows: 30
+        })
+        expect(lastEmit(nextSocket, 'terminal:replay')?.data).toEqual({
+            terminalId: 'terminal-1',
+            data: '$ make\r\n',
+            cols: 80,
+            rows: 24,
+            recording: null
+        })
+        expect(lastEmit(nextSocket, 'terminal:ready')?.data).toEqual({
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            mode: 'control'
+        })
+
+        cliSocket.trigger('terminal:output', { sessionId: 'session-1', terminalId: 'terminal-1', data: 'done\r\n' })
+        expect(lastEmit(nextSocket, 'terminal:output')?.data).toEqual({
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            data: 'done\r\n'
+        })
+    })
+
+    it('lets watchers see output but not write, and hands control over on request', () => {
+        const { terminalSocket, cliNamespace, addTerminalSocket, registerCliSocket } = createHarness()
+        const cliSocket = new FakeSocket('cli-socket-1')
+        connectCliSocket(cliNamespace, cliSocket, 'session-1')
+        registerCliSocket(cliSocket)
+        cliSocket.ackResponses.set('terminal:attach', { ok: true, scrollback: '', cols: 80, rows: 24 })
+
+        terminalSocket.trigger('terminal:create', { sessionId: 'session-1', terminalId: 'terminal-1', cols: 80, rows: 24 })
+        const watcher = addTerminalSocket('terminal-socket-2')
+        watcher.trigger('terminal:attach', { sessionId: 'session-1', terminalId: 'terminal-1', cols: 50, rows: 10, mode: 'watch' })
+
+        // Watchers never resize the shell
+        expect(lastEmit(cliSocket, 'terminal:attach')?.data).toEqual({ sessionId: 'session-1', terminalId: 'terminal-1' })
+
+        cliSocket.trigger('terminal:output', { sessionId: 'session-1', terminalId: 'terminal-1', data: 'hi' })
+        expect(lastEmit(terminalSocket, 'terminal:output')).toBeDefined()
+        expect(lastEmit(watcher, 'terminal:output')).toBeDefined()
+
+        watcher.trigger('terminal:write', { terminalId: 'terminal-1', data: 'rm -rf /\n' })
+        expect(lastEmit(cliSocket, 'terminal:write')).toBeUndefined()
+
+        watcher.trigger('terminal:attach', { sessionId: 'session-1', terminalId: 'terminal-1', cols: 50, rows: 10, mode: 'control' })
+        expect(lastEmit(terminalSocket, 'terminal:ready')?.data).toEqual({
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            mode: 'watch'
+        })
+
+        terminalSocket.trigger('terminal:write', { terminalId: 'terminal-1', data: 'ls\n' })
+        expect(lastEmit(cliSocket, 'terminal:write')).toBeUndefined()
+        watcher.trigger('terminal:write', { terminalId: 'terminal-1', data: 'ls\n' })
+        expect(lastEmit(cliSocket, 'terminal:write')?.data).toEqual({
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            data: 'ls\n'
+        })
+    })
+
+    it('lets only the controller toggle recording and tells every viewer', () => {
+        const { terminalSocket, cliNamespace, addTerminalSocket, registerCliSocket } = createHarness()
+        const cliSocket = new FakeSocket('cli-socket-1')
+        connectCliSocket(cliNamespace, cliSocket, 'session-1')
+        registerCliSocket(cliSocket)
+        cliSocket.ackResponses.set('terminal:attach', { ok: true, scrollback: '', cols: 80, rows: 24 })
+
+        terminalSocket.trigger('terminal:create', { sessionId: 'session-1', terminalId: 'terminal-1', cols: 80, rows: 24 })
+        const watcher = addTerminalSocket('terminal-socket-2')
+        watcher.trigger('terminal:attach', { sessionId: 'session-1', terminalId: 'terminal-1', mode: 'watch' })
+
+        watcher.trigger('terminal:record', { terminalId: 'terminal-1', recording: { input: true } })
+        expect(lastEmit(cliSocket, 'terminal:record')).toBeUndefined()
+
+        terminalSocket.trigger('terminal:record', { terminalId: 'terminal-1', recording: { input: false } })
+        expect(lastEmit(cliSocket, 'terminal:record')?.data).toEqual({
+            sessionId: 'session-1',
+            terminalId: 'terminal-1',
+            recording: { input: false }
+        })
+
+        const status = { sessionId: 'session-1', terminalId: 'terminal-1', recording: { recordingId: 'rec-1', input: false } }
+        cliSocket.trigger('terminal:recording', status)
+        expect(lastEmit(terminalSocket, 'terminal:recording')?.data).toEqual(status)
+        expect(lastEmit(watcher, 'terminal:recording')?.data).toEqual(status)
+    })
+
+    it('reports terminals the CLI no longer has', () => {
+        const { terminalSocket, cliNamespace, terminalRegistry } = createHarness()
+        const cliSocket = new FakeSocket('cli-socket-1')
+        connectCliSocket(cliNamespace, cliSocket, 'session-1')
+        cliSocket.ackResponses.set('terminal:attach', { ok: false, error: 'Terminal not found.' })
+
+        terminalSocket.trigger('terminal:attach', { sessionId: 'session-1', terminalId: 'gone', mode: 'watch' })
+
+        expect(lastEmit(terminalSocket, 'terminal:error')?.data).toEqual({
+            terminalId: 'gone',
+            message: 'Terminal not found.'
+        })
+        expect(terminalRegistry.get('gone')).toBeNull()
     })
 
     it('enforces per-socket terminal limits', () => {
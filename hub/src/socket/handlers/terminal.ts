@@ -1,5 +1,12 @@
-import { TerminalOpenPayloadSchema } from '@hapi/protocol'
+import {
+    TerminalAttachPayloadSchema,
+    TerminalOpenPayloadSchema,
+    TerminalRecordPayloadSchema,
+    hasUserRole,
+    type TerminalAttachResponse
+} from '@hapi/protocol'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
 import type { TerminalRegistry, TerminalRegistryEntry } from '../terminalRegistry'
 import type { SocketServer, SocketWithData } from '../socketTypes'
 
@@ -20,26 +27,56 @@ const terminalCloseSchema = z.object({
     terminalId: z.string().min(1)
 })
 
+const terminalAttachSchema = TerminalAttachPayloadSchema.extend({
+    mode: z.enum(['control', 'watch'])
+})
+
+const terminalDetachSchema = z.object({
+    terminalId: z.string().min(1)
+})
+
+const terminalRecordSchema = TerminalRecordPayloadSchema.omit({ sessionId: true })
+
+const ATTACH_TIMEOUT_MS = 10_000
+
 export type TerminalHandlersDeps = {
     io: SocketServer
     getSession: (sessionId: string) => { active: boolean; namespace: string } | null
     terminalRegistry: TerminalRegistry
     maxTerminalsPerSocket: number
     maxTerminalsPerSession: number
+    auditLog?: AuditLog
 }
 
 export function registerTerminalHandlers(socket: SocketWithData, deps: TerminalHandlersDeps): void {
-    const { io, getSession, terminalRegistry, maxTerminalsPerSocket, maxTerminalsPerSession } = deps
+    const { io, getSession, terminalRegistry, maxTerminalsPerSocket, maxTerminalsPerSession, auditLog } = deps
     const cliNamespace = io.of('/cli')
+    const terminalNamespace = io.of('/terminal')
     const namespace = typeof socket.data.namespace === 'string' ? socket.data.namespace : null
+    const canOpenTerminals = socket.data.role !== undefined && hasUserRole(socket.data.role, 'operator')
+
+    const recordAudit = (
+        action: 'terminal.open' | 'terminal.attach' | 'terminal.record' | 'terminal.close',
+        entry: Pick<TerminalRegistryEntry, 'sessionId' | 'terminalId'>,
+        detail: string = entry.terminalId
+    ): void => {
+        if (!auditLog || !namespace) {
+            return
+        }
+        auditLog.record(
+            { namespace, accountId: socket.data.accountId ?? null, origin: socket.data.origin ?? 'web' },
+            { action, sessionId: entry.sessionId, detail }
+        )
+    }
 
     const emitTerminalError = (terminalId: string, message: string) => {
         socket.emit('terminal:error', { terminalId, message })
     }
 
+    // Input, resizes and closing belong to the controller; watchers are read-only
     const resolveEntryForSocket = (terminalId: string): TerminalRegistryEntry | null => {
         const entry = terminalRegistry.get(terminalId)
-        if (!entry || entry.socketId !== socket.id) {
+        if (!entry || entry.controllerSocketId !== socket.id) {
             return null
         }
         return entry
@@ -95,6 +132,11 @@ export function registerTerminalHandlers(socket: SocketWithData, deps: TerminalH
             return
         }
 
+        if (!canOpenTerminals) {
+            emitTerminalError(terminalId, 'Your role does not allow terminal access.')
+            return
+        }
+
         if (terminalRegistry.countForSocket(socket.id) >= maxTerminalsPerSocket) {
             emitTerminalError(terminalId, `Too many terminals open (max ${maxTerminalsPerSocket}).`)
             return
@@ -111,7 +153,7 @@ export function registerTerminalHandlers(socket: SocketWithData, deps: TerminalH
             return
         }
 
-        const entry = terminalRegistry.register(terminalId, sessionId, socket.id, cliSocketId)
+        const entry = terminalRegistry.register(terminalId, sessionId, cliSocketId, socket.id)
         if (!entry) {
             emitTerminalError(terminalId, 'Terminal ID is already in use.')
             return
@@ -131,6 +173,100 @@ export function registerTerminalHandlers(socket: SocketWithData, deps: TerminalH
             rows
         })
         terminalRegistry.markActivity(terminalId)
+        recordAudit('terminal.open', entry)
+    })
+
+    socket.on('terminal:attach', (data: unknown) => {
+        const parsed = terminalAttachSchema.safeParse(data)
+        if (!parsed.success) {
+            return
+        }
+
+        const { sessionId, terminalId, mode } = parsed.data
+        const session = getSession(sessionId)
+        if (!namespace || !session || session.namespace !== namespace || !session.active) {
+            emitTerminalError(terminalId, 'Session is inactive or unavailable.')
+            return
+        }
+
+        if (!canOpenTerminals) {
+            emitTerminalError(terminalId, 'Your role does not allow terminal access.')
+            return
+        }
+
+        const existing = terminalRegistry.get(terminalId)
+        if (existing && existing.sessionId !== sessionId) {
+            emitTerminalError(terminalId, 'Terminal not found.')
+            return
+        }
+
+        if (!existing?.viewers.has(socket.id) && terminalRegistry.countForSocket(socket.id) >= maxTerminalsPerSocket) {
+            emitTerminalError(terminalId, `Too many terminals open (max ${maxTerminalsPerSocket}).`)
+            return
+        }
+
+        // Terminals the hub lost track of (hub restart, CLI reconnect) are still
+        // attachable as long as the CLI kept them running
+        const cliSocketId = existing?.cliSocketId ?? pickCliSocketId(sessionId)
+        const cliSocket = cliSocketId ? cliNamespace.sockets.get(cliSocketId) : undefined
+        if (!cliSocketId || !cliSocket) {
+            emitTerminalError(terminalId, 'CLI is not connected for this session.')
+            return
+        }
+
+        const size = mode === 'control' ? { cols: parsed.data.cols, rows: parsed.data.rows } : {}
+        // Output the CLI sends before its reply is part of the scrollback, so the
+        // viewer only joins once the reply arrives
+        cliSocket.timeout(ATTACH_TIMEOUT_MS).emit(
+            'terminal:attach',
+            { sessionId, terminalId, ...size },
+            (error: Error | null, response: TerminalAttachResponse | undefined) => {
+                if (error || !response) {
+                    emitTerminalError(terminalId, 'Terminal did not respond.')
+                    return
+                }
+                if (!response.ok) {
+                    emitTerminalError(terminalId, response.error)
+                    return
+                }
+                if (socket.disconnected) {
+                    return
+                }
+
+                const entry = terminalRegistry.get(terminalId) ?? terminalRegistry.register(terminalId, sessionId, cliSocketId)
+                const attached = entry ? terminalRegistry.attach(terminalId, socket.id, mode) : null
+                if (!entry || !attached) {
+                    emitTerminalError(terminalId, 'Terminal not found.')
+                    return
+                }
+
+                socket.emit('terminal:replay', {
+                    terminalId,
+                    data: response.scrollback,
+                    cols: response.cols,
+                    rows: response.rows,
+                    recording: response.recording ?? null
+                })
+                socket.emit('terminal:ready', { sessionId, terminalId, mode })
+                if (attached.demotedSocketId) {
+                    terminalNamespace.sockets.get(attached.demotedSocketId)?.emit('terminal:ready', {
+                        sessionId,
+                        terminalId,
+                        mode: 'watch'
+                    })
+                }
+                terminalRegistry.markActivity(terminalId)
+                recordAudit('terminal.attach', entry, `${terminalId} (${mode})`)
+            }
+        )
+    })
+
+    socket.on('terminal:detach', (data: unknown) => {
+        const parsed = terminalDetachSchema.safeParse(data)
+        if (!parsed.success) {
+            return
+        }
+        terminalRegistry.detach(parsed.data.terminalId, socket.id)
     })
 
     socket.on('terminal:write', (data: unknown) => {
@@ -182,6 +318,36 @@ export function registerTerminalHandlers(socket: SocketWithData, deps: TerminalH
         terminalRegistry.markActivity(terminalId)
     })
 
+    // Recording follows the same rule as input: only the controller may toggle it
+    socket.on('terminal:record', (data: unknown) => {
+        const parsed = terminalRecordSchema.safeParse(data)
+        if (!parsed.success) {
+            return
+        }
+
+        const { terminalId, recording } = parsed.data
+        const entry = resolveEntryForSocket(terminalId)
+        if (!entry) {
+            emitTerminalError(terminalId, 'Only the controlling viewer can change recording.')
+            return
+        }
+
+        const cliSocket = resolveCliSocket(entry, true)
+        if (!cliSocket) {
+            return
+        }
+        cliSocket.emit('terminal:record', {
+            sessionId: entry.sessionId,
+            terminalId,
+            recording
+        })
+        recordAudit(
+            'terminal.record',
+            entry,
+            recording ? `${terminalId} (start${recording.input ? ', with input' : ''})` : `${terminalId} (stop)`
+        )
+    })
+
     socket.on('terminal:close', (data: unknown) => {
         const parsed = terminalCloseSchema.safeParse(data)
         if (!parsed.success) {
@@ -196,12 +362,19 @@ export function registerTerminalHandlers(socket: SocketWithData, deps: TerminalH
 
         terminalRegistry.remove(terminalId)
         emitCloseToCli(entry)
+        for (const socketId of entry.viewers) {
+            if (socketId !== socket.id) {
+                terminalNamespace.sockets.get(socketId)?.emit('terminal:error', {
+                    terminalId,
+                    message: 'Terminal was closed.'
+                })
+            }
+        }
+        recordAudit('terminal.close', entry)
     })
 
+    // Leaving the page only detaches; the shell keeps running for the next viewer
     socket.on('disconnect', () => {
-        const removed = terminalRegistry.removeBySocket(socket.id)
-        for (const entry of removed) {
-            emitCloseToCli(entry)
-        }
+        terminalRegistry.detachSocket(socket.id)
     })
 }
@@ -1,8 +1,8 @@
 import { Server as Engine } from '@socket.io/bun-engine'
 import { Server, type DefaultEventsMap } from 'socket.io'
-import { jwtVerify } from 'jose'
-import { z } from 'zod'
+import { hasUserRole } from '@hapi/protocol'
 import type { Store } from '../store'
+import type { AuditLog } from '../audit/auditLog'
 import { configuration } from '../configuration'
 import { constantTimeEquals } from '../utils/crypto'
 import { parseAccessToken } from '../utils/accessToken'
@@ -12,13 +12,11 @@ import { RpcRegistry } from './rpcRegistry'
 import type { SyncEvent } from '../sync/syncEngine'
 import { TerminalRegistry } from './terminalRegistry'
 import type { CliSocketWithData, SocketData, SocketServer } from './socketTypes'
+import { verifyWebToken } from '../web/middleware/auth'
 
-const jwtPayloadSchema = z.object({
-    uid: z.number(),
-    ns: z.string()
-})
-
-const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60_000
+// How long the registry keeps a terminal with no traffic through the hub before
+// dropping it and telling the CLI to close it
+const DEFAULT_IDLE_TIMEOUT_MS = 60 * 60_000
 const DEFAULT_MAX_TERMINALS = 4
 
 function resolveEnvNumber(name: string, fallback: number): number {
@@ -33,6 +31,7 @@ function resolveEnvNumber(name: string, fallback: number): number {
 export type SocketServerDeps = {
     store: Store
     jwtSecret: Uint8Array
+    auditLog?: AuditLog
     corsOrigins?: string[]
     getSession?: (sessionId: string) => { active: boolean; namespace: string } | null
     onWebappEvent?: (event: SyncEvent) => void
@@ -82,11 +81,12 @@ export function createSocketServer(deps: SocketServerDeps): {
     const terminalRegistry = new TerminalRegistry({
         idleTimeoutMs,
         onIdle: (entry) => {
-            const terminalSocket = terminalNs.sockets.get(entry.socketId)
-            terminalSocket?.emit('terminal:error', {
-                terminalId: entry.terminalId,
-                message: 'Terminal closed due to inactivity.'
-            })
+            for (const socketId of entry.viewers) {
+                terminalNs.sockets.get(socketId)?.emit('terminal:error', {
+                    terminalId: entry.terminalId,
+                    message: 'Terminal closed due to inactivity.'
+                })
+            }
             const cliSocket = cliNs.sockets.get(entry.cliSocketId)
             cliSocket?.emit('terminal:close', {
                 sessionId: entry.sessionId,
@@ -123,19 +123,20 @@ export function createSocketServer(deps: SocketServerDeps): {
             return next(new Error('Missing token'))
         }
 
-        try {
-            const verified = await jwtVerify(token, deps.jwtSecret, { algorithms: ['HS256'] })
-            const parsed = jwtPayloadSchema.safeParse(verified.payload)
-            if (!parsed.success) {
-                return next(new Error('Invalid token payload'))
-            }
-            socket.data.userId = parsed.data.uid
-            socket.data.namespace = parsed.data.ns
-            next()
-            return
-        } catch {
+        const identity = await verifyWebToken(token, deps.jwtSecret, deps.store)
+        if (!identity) {
             return next(new Error('Invalid token'))
         }
+        // A shell can do anything the agent can, so viewers never get one
+        if (!hasUserRole(identity.role, 'operator')) {
+            return next(new Error('Insufficient role'))
+        }
+        socket.data.userId = identity.userId
+        socket.data.namespace = identity.namespace
+        socket.data.role = identity.role
+        socket.data.accountId = identity.accountId
+        socket.data.origin = identity.origin
+        next()
     })
     terminalNs.on('connection', (socket) => registerTerminalHandlers(socket, {
         io,
@@ -144,7 +145,8 @@ export function createSocketServer(deps: SocketServerDeps): {
         },
         terminalRegistry,
         maxTerminalsPerSocket,
-        maxTerminalsPerSession
+        maxTerminalsPerSession,
+        auditLog: deps.auditLog
     }))
 
     return { io, engine, rpcRegistry }
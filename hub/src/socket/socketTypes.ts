@@ -1,9 +1,12 @@
-import type { ClientToServerEvents, ServerToClientEvents } from '@hapi/protocol'
+import type { AuditOrigin, ClientToServerEvents, ServerToClientEvents, UserRole } from '@hapi/protocol'
 import type { DefaultEventsMap, Server, Socket } from 'socket.io'
 
 export type SocketData = {
     namespace?: string
     userId?: number
+    role?: UserRole
+    accountId?: number | null
+    origin?: AuditOrigin
 }
 
 export type SocketServer = Server<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>
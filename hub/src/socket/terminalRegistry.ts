@@ -1,8 +1,12 @@
+export type TerminalViewerMode = 'control' | 'watch'
+
 export type TerminalRegistryEntry = {
     terminalId: string
     sessionId: string
-    socketId: string
     cliSocketId: string
+    // The one viewer whose input and size reach the shell; null while nobody drives it
+    controllerSocketId: string | null
+    viewers: Set<string>
     idleTimer: ReturnType<typeof setTimeout> | null
 }
 
@@ -24,7 +28,11 @@ export class TerminalRegistry {
         this.onIdle = options.onIdle
     }
 
-    register(terminalId: string, sessionId: string, socketId: string, cliSocketId: string): TerminalRegistryEntry | null {
+    /**
+     * Tracks a terminal running on a CLI; socketId, when given, becomes its
+     * controller. Terminals stay registered after every viewer detaches.
+     */
+    register(terminalId: string, sessionId: string, cliSocketId: string, socketId?: string): TerminalRegistryEntry | null {
         if (this.terminals.has(terminalId)) {
             return null
         }
@@ -32,20 +40,80 @@ export class TerminalRegistry {
         const entry: TerminalRegistryEntry = {
             terminalId,
             sessionId,
-            socketId,
             cliSocketId,
+            controllerSocketId: null,
+            viewers: new Set(),
             idleTimer: null
         }
 
         this.terminals.set(terminalId, entry)
-        this.addToIndex(this.terminalsBySocket, socketId, terminalId)
         this.addToIndex(this.terminalsBySession, sessionId, terminalId)
         this.addToIndex(this.terminalsByCliSocket, cliSocketId, terminalId)
+        if (socketId) {
+            this.attach(terminalId, socketId, 'control')
+        }
         this.scheduleIdle(entry)
 
         return entry
     }
 
+    /**
+     * Adds a viewer. Taking control demotes the previous controller to a
+     * watcher; its socket id is returned so it can be told.
+     */
+    attach(terminalId: string, socketId: string, mode: TerminalViewerMode): { demotedSocketId: string | null } | null {
+        const entry = this.terminals.get(terminalId)
+        if (!entry) {
+            return null
+        }
+
+        entry.viewers.add(socketId)
+        this.addToIndex(this.terminalsBySocket, socketId, terminalId)
+
+        let demotedSocketId: string | null = null
+        if (mode === 'control') {
+            if (entry.controllerSocketId && entry.controllerSocketId !== socketId) {
+                demotedSocketId = entry.controllerSocketId
+            }
+            entry.controllerSocketId = socketId
+        } else if (entry.controllerSocketId === socketId) {
+            entry.controllerSocketId = null
+        }
+
+        return { demotedSocketId }
+    }
+
+    detach(terminalId: string, socketId: string): void {
+        const entry = this.terminals.get(terminalId)
+        if (!entry) {
+            return
+        }
+        entry.viewers.delete(socketId)
+        if (entry.controllerSocketId === socketId) {
+            entry.controllerSocketId = null
+        }
+        this.removeFromIndex(this.terminalsBySocket, socketId, terminalId)
+    }
+
+    /**
+     * Detaches a closed viewer from everything it watched, leaving the terminals running
+     */
+    detachSocket(socketId: string): TerminalRegistryEntry[] {
+        const ids = this.terminalsBySocket.get(socketId)
+        if (!ids || ids.size === 0) {
+            return []
+        }
+        const entries: TerminalRegistryEntry[] = []
+        for (const terminalId of Array.from(ids)) {
+            const entry = this.terminals.get(terminalId)
+            this.detach(terminalId, socketId)
+            if (entry) {
+                entries.push(entry)
+            }
+        }
+        return entries
+    }
+
     markActivity(terminalId: string): void {
         const entry = this.terminals.get(terminalId)
         if (!entry) {
@@ -65,7 +133,9 @@ export class TerminalRegistry {
         }
 
         this.terminals.delete(terminalId)
-        this.removeFromIndex(this.terminalsBySocket, entry.socketId, terminalId)
+        for (const socketId of entry.viewers) {
+            this.removeFromIndex(this.terminalsBySocket, socketId, terminalId)
+        }
         this.removeFromIndex(this.terminalsBySession, entry.sessionId, terminalId)
         this.removeFromIndex(this.terminalsByCliSocket, entry.cliSocketId, terminalId)
         if (entry.idleTimer) {
@@ -75,14 +145,6 @@ export class TerminalRegistry {
         return entry
     }
 
-    removeBySocket(socketId: string): TerminalRegistryEntry[] {
-        const ids = this.terminalsBySocket.get(socketId)
-        if (!ids || ids.size === 0) {
-            return []
-        }
-        return Array.from(ids).map((terminalId) => this.remove(terminalId)).filter(Boolean) as TerminalRegistryEntry[]
-    }
-
     removeByCliSocket(socketId: string): TerminalRegistryEntry[] {
         const ids = this.terminalsByCliSocket.get(socketId)
         if (!ids || ids.size === 0) {
@@ -5,6 +5,8 @@ import type { VisibilityTracker } from '../visibility/visibilityTracker'
 export type SSESubscription = {
     id: string
     namespace: string
+    // users.id of the viewer; null for the CLI_API_TOKEN owner
+    accountId: number | null
     all: boolean
     sessionId: string | null
     machineId: string | null
@@ -29,6 +31,7 @@ export class SSEManager {
     subscribe(options: {
         id: string
         namespace: string
+        accountId?: number | null
         all?: boolean
         sessionId?: string | null
         machineId?: string | null
@@ -39,6 +42,7 @@ export class SSEManager {
         const subscription: SSEConnection = {
             id: options.id,
             namespace: options.namespace,
+            accountId: options.accountId ?? null,
             all: Boolean(options.all),
             sessionId: options.sessionId ?? null,
             machineId: options.machineId ?? null,
@@ -56,6 +60,7 @@ export class SSEManager {
         return {
             id: subscription.id,
             namespace: subscription.namespace,
+            accountId: subscription.accountId,
             all: subscription.all,
             sessionId: subscription.sessionId,
             machineId: subscription.machineId
@@ -70,12 +75,19 @@ export class SSEManager {
         }
     }
 
-    async sendToast(namespace: string, event: Extract<SyncEvent, { type: 'toast' }>): Promise<number> {
+    async sendToast(
+        namespace: string,
+        event: Extract<SyncEvent, { type: 'toast' }>,
+        accept?: (accountId: number | null) => boolean
+    ): Promise<number> {
         const deliveries: Array<Promise<{ id: string; ok: boolean }>> = []
         for (const connection of this.connections.values()) {
             if (connection.namespace !== namespace) {
                 continue
             }
+            if (accept && !accept(connection.accountId)) {
+                continue
+            }
             if (!this.visibilityTracker.isVisibleConnection(connection.id)) {
                 continue
             }
@@ -0,0 +1,32 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredAuditEvent } from './types'
+import {
+    addAuditEvent,
+    deleteAuditEventsBefore,
+    getAuditEvents,
+    type AuditEventFields,
+    type AuditEventFilters
+} from './auditEvents'
+
+export type { AuditEventFields, AuditEventFilters } from './auditEvents'
+
+export class AuditEventStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    addEvent(fields: AuditEventFields): StoredAuditEvent {
+        return addAuditEvent(this.db, fields)
+    }
+
+    getEvents(namespace: string, filters?: AuditEventFilters): StoredAuditEvent[] {
+        return getAuditEvents(this.db, namespace, filters)
+    }
+
+    deleteEventsBefore(cutoff: number): number {
+        return deleteAuditEventsBefore(this.db, cutoff)
+    }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Store } from './index'
+import type { AuditEventFields } from './index'
+
+function event(overrides: Partial<AuditEventFields>): AuditEventFields {
+    return {
+        namespace: 'alpha',
+        actorUserId: null,
+        actor: 'owner',
+        origin: 'web',
+        action: 'message.send',
+        sessionId: null,
+        machineId: null,
+        detail: null,
+        payloadDigest: null,
+        createdAt: 1_000,
+        ...overrides
+    }
+}
+
+describe('AuditEventStore', () => {
+    it('filters by namespace, action prefix, origin and time and pages by id', () => {
+        const store = new Store(':memory:')
+        store.auditEvents.addEvent(event({ action: 'session.abort', sessionId: 's1', createdAt: 1_000 }))
+        store.auditEvents.addEvent(event({ action: 'session.archive', sessionId: 's1', origin: 'telegram', createdAt: 2_000 }))
+        store.auditEvents.addEvent(event({ action: 'permission.approve', sessionId: 's2', createdAt: 3_000 }))
+        store.auditEvents.addEvent(event({ namespace: 'beta', action: 'session.abort' }))
+
+        expect(store.auditEvents.getEvents('alpha')).toHaveLength(3)
+        expect(store.auditEvents.getEvents('alpha', { action: 'session' }).map((e) => e.action))
+            .toEqual(['session.archive', 'session.abort'])
+        expect(store.auditEvents.getEvents('alpha', { action: 'session.abort' })).toHaveLength(1)
+        expect(store.auditEvents.getEvents('alpha', { origin: 'telegram' })).toHaveLength(1)
+        expect(store.auditEvents.getEvents('alpha', { from: 2_000, to: 2_500 }).map((e) => e.action))
+            .toEqual(['session.archive'])
+
+        const [newest] = store.auditEvents.getEvents('alpha', { limit: 1 })
+        expect(newest.action).toBe('permission.approve')
+        expect(store.auditEvents.getEvents('alpha', { before: newest.id }).map((e) => e.sessionId))
+            .toEqual(['s1', 's1'])
+    })
+
+    it('rejects updates and only deletes through retention', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'hapi-audit-'))
+        const path = join(dir, 'hapi.db')
+        try {
+            const store = new Store(path)
+            const old = store.auditEvents.addEvent(event({ createdAt: 1_000 }))
+            store.auditEvents.addEvent(event({ createdAt: 5_000 }))
+
+            const db = new Database(path)
+            expect(() => db.exec(`UPDATE audit_events SET actor = 'someone' WHERE id = ${old.id}`)).toThrow()
+            db.close()
+
+            expect(store.auditEvents.deleteEventsBefore(2_000)).toBe(1)
+            expect(store.auditEvents.getEvents('alpha').map((e) => e.createdAt)).toEqual([5_000])
+        } finally {
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+})
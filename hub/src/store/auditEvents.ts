@@ -0,0 +1,134 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredAuditEvent } from './types'
+
+type DbAuditEventRow = {
+    id: number
+    namespace: string
+    actor_user_id: number | null
+    actor: string
+    origin: string
+    action: string
+    session_id: string | null
+    machine_id: string | null
+    detail: string | null
+    payload_digest: string | null
+    created_at: number
+}
+
+export type AuditEventFields = Omit<StoredAuditEvent, 'id'>
+
+export type AuditEventFilters = {
+    action?: string
+    origin?: string
+    actorUserId?: number
+    sessionId?: string
+    machineId?: string
+    from?: number
+    to?: number
+    // Keyset pagination: only events with a smaller id
+    before?: number
+    limit?: number
+}
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+function toStoredAuditEvent(row: DbAuditEventRow): StoredAuditEvent {
+    return {
+        id: row.id,
+        namespace: row.namespace,
+        actorUserId: row.actor_user_id,
+        actor: row.actor,
+        origin: row.origin,
+        action: row.action,
+        sessionId: row.session_id,
+        machineId: row.machine_id,
+        detail: row.detail,
+        payloadDigest: row.payload_digest,
+        createdAt: row.created_at
+    }
+}
+
+export function addAuditEvent(db: Database, fields: AuditEventFields): StoredAuditEvent {
+    const result = db.prepare(`
+        INSERT INTO audit_events (
+            namespace, actor_user_id, actor, origin, action,
+            session_id, machine_id, detail, payload_digest, created_at
+        ) VALUES (
+            @namespace, @actor_user_id, @actor, @origin, @action,
+            @session_id, @machine_id, @detail, @payload_digest, @created_at
+        )
+    `).run({
+        namespace: fields.namespace,
+        actor_user_id: fields.actorUserId,
+        actor: fields.actor,
+        origin: fields.origin,
+        action: fields.action,
+        session_id: fields.sessionId,
+        machine_id: fields.machineId,
+        detail: fields.detail,
+        payload_digest: fields.payloadDigest,
+        created_at: fields.createdAt
+    })
+
+    const row = db.prepare(
+        'SELECT * FROM audit_events WHERE id = ? LIMIT 1'
+    ).get(Number(result.lastInsertRowid)) as DbAuditEventRow | undefined
+    if (!row) {
+        throw new Error('Failed to record audit event')
+    }
+    return toStoredAuditEvent(row)
+}
+
+export function getAuditEvents(db: Database, namespace: string, filters: AuditEventFilters = {}): StoredAuditEvent[] {
+    const conditions = ['namespace = ?']
+    const params: Array<string | number> = [namespace]
+
+    if (filters.action) {
+        // "session" matches every session.* action
+        conditions.push('(action = ? OR action LIKE ?)')
+        params.push(filters.action, `${filters.action}.%`)
+    }
+    if (filters.origin) {
+        conditions.push('origin = ?')
+        params.push(filters.origin)
+    }
+    if (filters.actorUserId !== undefined) {
+        conditions.push('actor_user_id = ?')
+        params.push(filters.actorUserId)
+    }
+    if (filters.sessionId) {
+        conditions.push('session_id = ?')
+        params.push(filters.sessionId)
+    }
+    if (filters.machineId) {
+        conditions.push('machine_id = ?')
+        params.push(filters.machineId)
+    }
+    if (filters.from !== undefined) {
+        conditions.push('created_at >= ?')
+        params.push(filters.from)
+    }
+    if (filters.to !== undefined) {
+        conditions.push('created_at <= ?')
+        params.push(filters.to)
+    }
+    if (filters.before !== undefined) {
+        conditions.push('id < ?')
+        params.push(filters.before)
+    }
+
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+    params.push(limit)
+
+    const rows = db.prepare(
+        `SELECT * FROM audit_events WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ?`
+    ).all(...params) as DbAuditEventRow[]
+    return rows.map(toStoredAuditEvent)
+}
+
+export function deleteAuditEventsBefore(db: Database, cutoff: number): number {
+    const result = db.prepare('DELETE FROM audit_events WHERE created_at < ?').run(cutoff)
+    return result.changes
+}
@@ -2,33 +2,83 @@ import { Database } from 'bun:sqlite'
 import { chmodSync, closeSync, existsSync, mkdirSync, openSync } from 'node:fs'
 import { dirname } from 'node:path'
 
+import { AuditEventStore } from './auditEventStore'
 import { MachineStore } from './machineStore'
+import { MaintenanceStore } from './maintenanceStore'
+import { backfillMessageSearch } from './messageSearch'
 import { MessageStore } from './messageStore'
+import { NotificationPreferenceStore } from './notificationPreferenceStore'
+import { PermissionRuleStore } from './permissionRuleStore'
 import { PushStore } from './pushStore'
+import { ScheduleStore } from './scheduleStore'
 import { SessionStore } from './sessionStore'
+import { SessionTemplateStore } from './sessionTemplateStore'
+import { UsageStore } from './usageStore'
 import { UserStore } from './userStore'
+import { WebhookDeliveryStore } from './webhookDeliveryStore'
 
 export type {
+    StoredAuditEvent,
     StoredMachine,
     StoredMessage,
+    StoredMessageSearchResult,
+    StoredNotificationPreferences,
+    StoredPermissionRule,
     StoredPushSubscription,
+    StoredSchedule,
+    StoredScheduleRun,
     StoredSession,
+    StoredSessionTemplate,
+    StoredSessionTemplateAttachment,
+    StoredUsageBudget,
+    StoredUsageDailyTotal,
+    StoredUsageModelTotal,
+    StoredUsageTotals,
     StoredUser,
+    StoredWebhookDelivery,
     VersionedUpdateResult
 } from './types'
+export { AuditEventStore } from './auditEventStore'
+export type { AuditEventFields, AuditEventFilters } from './auditEventStore'
 export { MachineStore } from './machineStore'
+export { MaintenanceStore } from './maintenanceStore'
+export type { MessagePruneResult } from './maintenanceStore'
+export { checkDatabaseIntegrity, getSchemaVersion } from './maintenance'
 export { MessageStore } from './messageStore'
+export { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START, type MessageSearchFilters } from './messageSearch'
+export { NotificationPreferenceStore } from './notificationPreferenceStore'
+export { PermissionRuleStore } from './permissionRuleStore'
+export type { PermissionRuleFields } from './permissionRuleStore'
 export { PushStore } from './pushStore'
+export { ScheduleStore } from './scheduleStore'
+export type { ScheduleFields, ScheduleRunFields } from './scheduleStore'
 export { SessionStore } from './sessionStore'
+export { SessionTemplateStore } from './sessionTemplateStore'
+export type { SessionTemplateFields } from './sessionTemplateStore'
+export { UsageStore } from './usageStore'
+export type { UsageBudgetFields, UsageFilters, UsageRecordFields } from './usageStore'
 export { UserStore } from './userStore'
+export { WebhookDeliveryStore } from './webhookDeliveryStore'
+export type { WebhookDeliveryAttempt, WebhookDeliveryFields, WebhookDeliveryFilters } from './webhookDeliveryStore'
 
-const SCHEMA_VERSION: number = 3
+export const SCHEMA_VERSION: number = 13
 const REQUIRED_TABLES = [
     'sessions',
     'machines',
     'messages',
     'users',
-    'push_subscriptions'
+    'push_subscriptions',
+    'permission_rules',
+    'message_search',
+    'messages_fts',
+    'audit_events',
+    'schedules',
+    'schedule_runs',
+    'webhook_deliveries',
+    'usage_records',
+    'usage_budgets',
+    'notification_preferences',
+    'session_templates'
 ] as const
 
 export class Store {
@@ -40,6 +90,14 @@ export class Store {
     readonly messages: MessageStore
     readonly users: UserStore
     readonly push: PushStore
+    readonly permissionRules: PermissionRuleStore
+    readonly auditEvents: AuditEventStore
+    readonly schedules: ScheduleStore
+    readonly webhookDeliveries: WebhookDeliveryStore
+    readonly usage: UsageStore
+    readonly maintenance: MaintenanceStore
+    readonly notificationPreferences: NotificationPreferenceStore
+    readonly sessionTemplates: SessionTemplateStore
 
     constructor(dbPath: string) {
         this.dbPath = dbPath
@@ -81,6 +139,18 @@ export class Store {
         this.messages = new MessageStore(this.db)
         this.users = new UserStore(this.db)
         this.push = new PushStore(this.db)
+        this.permissionRules = new PermissionRuleStore(this.db)
+        this.auditEvents = new AuditEventStore(this.db)
+        this.schedules = new ScheduleStore(this.db)
+        this.webhookDeliveries = new WebhookDeliveryStore(this.db)
+        this.usage = new UsageStore(this.db)
+        this.maintenance = new MaintenanceStore(this.db)
+        this.notificationPreferences = new NotificationPreferenceStore(this.db)
+        this.sessionTemplates = new SessionTemplateStore(this.db)
+    }
+
+    close(): void {
+        this.db.close()
     }
 
     transaction<T>(fn: () => T): T {
@@ -104,6 +174,7 @@ export class Store {
             if (this.hasAnyUserTables()) {
                 this.migrateLegacySchemaIfNeeded()
                 this.createSchema()
+                backfillMessageSearch(this.db)
                 this.setUserVersion(SCHEMA_VERSION)
                 return
             }
@@ -113,14 +184,8 @@ export class Store {
             return
         }
 
-        if (currentVersion === 1 && SCHEMA_VERSION === 2) {
-            this.migrateFromV1ToV2()
-            this.setUserVersion(SCHEMA_VERSION)
-            return
-        }
-
-        if (currentVersion === 2 && SCHEMA_VERSION === 3) {
-            this.migrateFromV2ToV3()
+        if (currentVersion > 0 && currentVersion < SCHEMA_VERSION) {
+            this.migrateFrom(currentVersion)
             this.setUserVersion(SCHEMA_VERSION)
             return
         }
@@ -186,6 +251,9 @@ export class Store {
                 platform TEXT NOT NULL,
                 platform_user_id TEXT NOT NULL,
                 namespace TEXT NOT NULL DEFAULT 'default',
+                name TEXT,
+                role TEXT NOT NULL DEFAULT 'admin',
+                token_hash TEXT,
                 created_at INTEGER NOT NULL,
                 UNIQUE(platform, platform_user_id)
             );
@@ -198,11 +266,304 @@ export class Store {
                 endpoint TEXT NOT NULL,
                 p256dh TEXT NOT NULL,
                 auth TEXT NOT NULL,
+                account_id INTEGER,
                 created_at INTEGER NOT NULL,
                 UNIQUE(namespace, endpoint)
             );
             CREATE INDEX IF NOT EXISTS idx_push_subscriptions_namespace ON push_subscriptions(namespace);
         `)
+        this.createPermissionRulesSchema()
+        this.createMessageSearchSchema()
+        this.createUserAccountSchema()
+        this.createPushSubscriptionAccountSchema()
+        this.createAuditEventsSchema()
+        this.createSchedulesSchema()
+        this.createWebhookDeliveriesSchema()
+        this.createUsageSchema()
+        this.createNotificationPreferencesSchema()
+        this.createSessionTemplatesSchema()
+    }
+
+    private createPermissionRulesSchema(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS permission_rules (
+                id TEXT PRIMARY KEY,
+                namespace TEXT NOT NULL,
+                session_id TEXT,
+                name TEXT NOT NULL,
+                enabled INTEGER NOT NULL DEFAULT 1,
+                priority INTEGER NOT NULL DEFAULT 0,
+                action TEXT NOT NULL,
+                tool_pattern TEXT,
+                command_pattern TEXT,
+                path_patterns TEXT NOT NULL DEFAULT '[]',
+                flavors TEXT NOT NULL DEFAULT '[]',
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_permission_rules_namespace ON permission_rules(namespace, priority);
+        `)
+    }
+
+    private createMessageSearchSchema(): void {
+        // message_search holds the extracted text; messages_fts is an external-content
+        // FTS5 index over it, kept in sync by triggers. Rows disappear with their message.
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS message_search (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                message_id TEXT NOT NULL UNIQUE,
+                text TEXT NOT NULL,
+                FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+            );
+            CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+                text,
+                content='message_search',
+                content_rowid='id',
+                tokenize='unicode61'
+            );
+            CREATE TRIGGER IF NOT EXISTS message_search_ai AFTER INSERT ON message_search BEGIN
+                INSERT INTO messages_fts(rowid, text) VALUES (new.id, new.text);
+            END;
+            CREATE TRIGGER IF NOT EXISTS message_search_ad AFTER DELETE ON message_search BEGIN
+                INSERT INTO messages_fts(messages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+            END;
+            CREATE TRIGGER IF NOT EXISTS message_search_au AFTER UPDATE ON message_search BEGIN
+                INSERT INTO messages_fts(messages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+                INSERT INTO messages_fts(rowid, text) VALUES (new.id, new.text);
+            END;
+        `)
+    }
+
+    private createAuditEventsSchema(): void {
+        // Append-only: rows are never updated, only pruned by the retention job.
+        // No foreign keys so events outlive the sessions and users they describe.
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS audit_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                namespace TEXT NOT NULL,
+                actor_user_id INTEGER,
+                actor TEXT NOT NULL,
+                origin TEXT NOT NULL,
+                action TEXT NOT NULL,
+                session_id TEXT,
+                machine_id TEXT,
+                detail TEXT,
+                payload_digest TEXT,
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_audit_events_namespace ON audit_events(namespace, id);
+            CREATE INDEX IF NOT EXISTS idx_audit_events_session ON audit_events(session_id, id);
+            CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at);
+            CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events BEGIN
+                SELECT RAISE(ABORT, 'audit_events is append-only');
+            END;
+        `)
+    }
+
+    private createSchedulesSchema(): void {
+        // Run history keeps the session id as plain text so it survives session deletion
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS schedules (
+                id TEXT PRIMARY KEY,
+                namespace TEXT NOT NULL,
+                name TEXT NOT NULL,
+                cron TEXT NOT NULL,
+                enabled INTEGER NOT NULL DEFAULT 1,
+                target TEXT NOT NULL,
+                prompt TEXT NOT NULL,
+                session_id TEXT,
+                machine_id TEXT,
+                directory TEXT,
+                agent TEXT,
+                yolo INTEGER NOT NULL DEFAULT 0,
+                missed_run_policy TEXT NOT NULL DEFAULT 'skip',
+                next_run_at INTEGER,
+                last_run_at INTEGER,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_schedules_namespace ON schedules(namespace);
+            CREATE INDEX IF NOT EXISTS idx_schedules_next_run ON schedules(enabled, next_run_at);
+
+            CREATE TABLE IF NOT EXISTS schedule_runs (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                schedule_id TEXT NOT NULL,
+                scheduled_for INTEGER NOT NULL,
+                started_at INTEGER NOT NULL,
+                status TEXT NOT NULL,
+                manual INTEGER NOT NULL DEFAULT 0,
+                session_id TEXT,
+                error TEXT,
+                FOREIGN KEY (schedule_id) REFERENCES schedules(id) ON DELETE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, id);
+        `)
+    }
+
+    private createWebhookDeliveriesSchema(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS webhook_deliveries (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                namespace TEXT NOT NULL,
+                webhook_url TEXT NOT NULL,
+                event TEXT NOT NULL,
+                session_id TEXT,
+                machine_id TEXT,
+                status TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                response_status INTEGER,
+                error TEXT,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_namespace ON webhook_deliveries(namespace, id);
+            CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status);
+        `)
+    }
+
+    private createUsageSchema(): void {
+        // Usage records outlive their sessions so namespace totals stay accurate after cleanup
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS usage_records (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                namespace TEXT NOT NULL,
+                session_id TEXT NOT NULL,
+                machine_id TEXT,
+                flavor TEXT,
+                model TEXT,
+                input_tokens INTEGER NOT NULL DEFAULT 0,
+                output_tokens INTEGER NOT NULL DEFAULT 0,
+                cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+                cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+                cost_usd REAL,
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_usage_records_namespace ON usage_records(namespace, created_at);
+            CREATE INDEX IF NOT EXISTS idx_usage_records_session ON usage_records(session_id, created_at);
+            CREATE INDEX IF NOT EXISTS idx_usage_records_machine ON usage_records(machine_id, created_at);
+
+            CREATE TABLE IF NOT EXISTS usage_budgets (
+                id TEXT PRIMARY KEY,
+                namespace TEXT NOT NULL,
+                name TEXT NOT NULL,
+                enabled INTEGER NOT NULL DEFAULT 1,
+                scope TEXT NOT NULL,
+                scope_id TEXT,
+                period TEXT NOT NULL,
+                limit_tokens INTEGER,
+                limit_usd REAL,
+                action TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_usage_budgets_namespace ON usage_budgets(namespace);
+        `)
+    }
+
+    private createNotificationPreferencesSchema(): void {
+        // One row per user; account_id 0 is the CLI_API_TOKEN owner
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS notification_preferences (
+                namespace TEXT NOT NULL,
+                account_id INTEGER NOT NULL,
+                preferences TEXT NOT NULL,
+                updated_at INTEGER NOT NULL,
+                PRIMARY KEY (namespace, account_id)
+            );
+        `)
+    }
+
+    private createSessionTemplatesSchema(): void {
+        // Attachments are stored inline as JSON with base64 contents
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS session_templates (
+                id TEXT PRIMARY KEY,
+                namespace TEXT NOT NULL,
+                name TEXT NOT NULL,
+                machine_id TEXT NOT NULL,
+                directory TEXT NOT NULL,
+                agent TEXT NOT NULL,
+                model TEXT,
+                permission_mode TEXT,
+                session_type TEXT NOT NULL,
+                worktree_name_pattern TEXT,
+                initial_prompt TEXT,
+                attachments TEXT NOT NULL DEFAULT '[]',
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL,
+                UNIQUE (namespace, name)
+            );
+        `)
+    }
+
+    private createUserAccountSchema(): void {
+        // Named users carry a role and, for token users, a sha256 of their access token.
+        // Rows created before roles existed keep full access.
+        const columns = this.getTableColumnNames('users')
+        if (!columns.has('name')) {
+            this.db.exec('ALTER TABLE users ADD COLUMN name TEXT')
+        }
+        if (!columns.has('role')) {
+            this.db.exec("ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'admin'")
+        }
+        if (!columns.has('token_hash')) {
+            this.db.exec('ALTER TABLE users ADD COLUMN token_hash TEXT')
+        }
+        this.db.exec(`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_users_token_hash ON users(token_hash) WHERE token_hash IS NOT NULL;
+            CREATE INDEX IF NOT EXISTS idx_users_namespace ON users(namespace);
+        `)
+    }
+
+    private createPushSubscriptionAccountSchema(): void {
+        // Records who subscribed so notifications only carry actions the subscriber may take.
+        // Older rows cannot be attributed and are dropped; clients re-subscribe on their next load.
+        const columns = this.getTableColumnNames('push_subscriptions')
+        if (!columns.has('account_id')) {
+            this.db.exec(`
+                DELETE FROM push_subscriptions;
+                ALTER TABLE push_subscriptions ADD COLUMN account_id INTEGER;
+            `)
+        }
+    }
+
+    private migrateFrom(fromVersion: number): void {
+        if (fromVersion < 2) {
+            this.migrateFromV1ToV2()
+        }
+        if (fromVersion < 3) {
+            this.migrateFromV2ToV3()
+        }
+        if (fromVersion < 4) {
+            this.migrateFromV3ToV4()
+        }
+        if (fromVersion < 5) {
+            this.migrateFromV4ToV5()
+        }
+        if (fromVersion < 6) {
+            this.migrateFromV5ToV6()
+        }
+        if (fromVersion < 7) {
+            this.migrateFromV6ToV7()
+        }
+        if (fromVersion < 8) {
+            this.migrateFromV7ToV8()
+        }
+        if (fromVersion < 9) {
+            this.migrateFromV8ToV9()
+        }
+        if (fromVersion < 10) {
+            this.migrateFromV9ToV10()
+        }
+        if (fromVersion < 11) {
+            this.migrateFromV10ToV11()
+        }
+        if (fromVersion < 12) {
+            this.migrateFromV11ToV12()
+        }
+        if (fromVersion < 13) {
+            this.migrateFromV12ToV13()
+        }
     }
 
     private migrateLegacySchemaIfNeeded(): void {
@@ -295,8 +656,59 @@ export class Store {
         return
     }
 
+    private migrateFromV3ToV4(): void {
+        this.createPermissionRulesSchema()
+    }
+
+    private migrateFromV4ToV5(): void {
+        this.transaction(() => {
+            this.createMessageSearchSchema()
+            backfillMessageSearch(this.db)
+        })
+    }
+
+    private migrateFromV5ToV6(): void {
+        this.transaction(() => {
+            this.createUserAccountSchema()
+        })
+    }
+
+    private migrateFromV6ToV7(): void {
+        this.createAuditEventsSchema()
+    }
+
+    private migrateFromV7ToV8(): void {
+        this.createSchedulesSchema()
+    }
+
+    private migrateFromV8ToV9(): void {
+        this.createWebhookDeliveriesSchema()
+    }
+
+    private migrateFromV9ToV10(): void {
+        this.createUsageSchema()
+    }
+
+    private migrateFromV10ToV11(): void {
+        this.transaction(() => {
+            this.createPushSubscriptionAccountSchema()
+        })
+    }
+
+    private migrateFromV11ToV12(): void {
+        this.createNotificationPreferencesSchema()
+    }
+
+    private migrateFromV12ToV13(): void {
+        this.createSessionTemplatesSchema()
+    }
+
     private getMachineColumnNames(): Set<string> {
-        const rows = this.db.prepare('PRAGMA table_info(machines)').all() as Array<{ name: string }>
+        return this.getTableColumnNames('machines')
+    }
+
+    private getTableColumnNames(table: string): Set<string> {
+        const rows = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
         return new Set(rows.map((row) => row.name))
     }
 
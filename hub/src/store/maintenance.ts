@@ -0,0 +1,94 @@
+import type { Database } from 'bun:sqlite'
+import { chmodSync, existsSync, renameSync, rmSync } from 'node:fs'
+
+export type MessagePruneResult = {
+    sessions: number
+    messages: number
+}
+
+/**
+ * Writes a consistent copy of the live database to destPath. The WAL is
+ * checkpointed first and VACUUM INTO produces a compacted single-file copy
+ * (bun:sqlite does not expose the sqlite3_backup_* API). The copy is written
+ * next to its destination and renamed into place, so a reader never sees a
+ * partial file.
+ */
+export function backupDatabase(db: Database, destPath: string): void {
+    const partialPath = `${destPath}.partial`
+    rmSync(partialPath, { force: true })
+
+    db.exec('PRAGMA wal_checkpoint(TRUNCATE)')
+    try {
+        db.prepare('VACUUM INTO ?').run(partialPath)
+        chmodSync(partialPath, 0o600)
+        renameSync(partialPath, destPath)
+    } catch (error) {
+        if (existsSync(partialPath)) {
+            rmSync(partialPath, { force: true })
+        }
+        throw error
+    }
+}
+
+/**
+ * Deletes the messages of inactive sessions that have not been updated and
+ * have received no messages since cutoff. Search rows go with them through
+ * the message_search foreign key; usage records are kept for accounting.
+ */
+export function pruneInactiveSessionMessages(
+    db: Database,
+    cutoff: number,
+    options: { dryRun?: boolean } = {}
+): MessagePruneResult {
+    const rows = db.prepare(`
+        SELECT m.session_id AS session_id, COUNT(*) AS count
+        FROM messages m
+        JOIN sessions s ON s.id = m.session_id
+        WHERE s.active = 0 AND s.updated_at < ?
+        GROUP BY m.session_id
+        HAVING MAX(m.created_at) < ?
+    `).all(cutoff, cutoff) as Array<{ session_id: string; count: number }>
+
+    const result: MessagePruneResult = {
+        sessions: rows.length,
+        messages: rows.reduce((sum, row) => sum + row.count, 0)
+    }
+    if (options.dryRun || rows.length === 0) {
+        return result
+    }
+
+    const deleteMessages = db.prepare('DELETE FROM messages WHERE session_id = ?')
+    try {
+        db.exec('BEGIN')
+        for (const row of rows) {
+            deleteMessages.run(row.session_id)
+        }
+        db.exec('COMMIT')
+    } catch (error) {
+        db.exec('ROLLBACK')
+        throw error
+    }
+    return result
+}
+
+export function vacuumDatabase(db: Database): void {
+    db.exec('VACUUM')
+    // In WAL mode the rewritten pages land in the WAL until checkpointed
+    db.exec('PRAGMA wal_checkpoint(TRUNCATE)')
+}
+
+export function getSchemaVersion(db: Database): number {
+    const row = db.prepare('PRAGMA user_version').get() as { user_version: number } | undefined
+    return row?.user_version ?? 0
+}
+
+/**
+ * Runs PRAGMA integrity_check; returns the reported problems, empty when the
+ * database is intact.
+ */
+export function checkDatabaseIntegrity(db: Database): string[] {
+    const rows = db.prepare('PRAGMA integrity_check').all() as Array<{ integrity_check: string }>
+    return rows
+        .map((row) => row.integrity_check)
+        .filter((message) => message !== 'ok')
+}
@@ -0,0 +1,40 @@
+import type { Database } from 'bun:sqlite'
+
+import {
+    backupDatabase,
+    checkDatabaseIntegrity,
+    getSchemaVersion,
+    pruneInactiveSessionMessages,
+    vacuumDatabase,
+    type MessagePruneResult
+} from './maintenance'
+
+export type { MessagePruneResult } from './maintenance'
+
+export class MaintenanceStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    backup(destPath: string): void {
+        backupDatabase(this.db, destPath)
+    }
+
+    pruneInactiveSessionMessages(cutoff: number, options?: { dryRun?: boolean }): MessagePruneResult {
+        return pruneInactiveSessionMessages(this.db, cutoff, options)
+    }
+
+    vacuum(): void {
+        vacuumDatabase(this.db)
+    }
+
+    getSchemaVersion(): number {
+        return getSchemaVersion(this.db)
+    }
+
+    checkIntegrity(): string[] {
+        return checkDatabaseIntegrity(this.db)
+    }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Store } from './index'
+import { extractMessageSearchText } from './messageSearch'
+
+function userMessage(text: string) {
+    return { role: 'user', content: { type: 'text', text } }
+}
+
+function assistantMessage(text: string) {
+    return {
+        role: 'agent',
+        content: {
+            type: 'output',
+            data: { type: 'assistant', message: { content: [{ type: 'text', text }, { type: 'thinking', thinking: 'hidden' }] } }
+        }
+    }
+}
+
+describe('extractMessageSearchText', () => {
+    it('indexes user text, assistant text and tool results', () => {
+        expect(extractMessageSearchText(userMessage('hello'))).toBe('hello')
+        expect(extractMessageSearchText(assistantMessage('done'))).toBe('done')
+        expect(extractMessageSearchText({
+            role: 'agent',
+            content: {
+                type: 'output',
+                data: {
+                    type: 'user',
+                    message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: [{ type: 'text', text: 'exit 0' }] }] }
+                }
+            }
+        })).toBe('exit 0')
+        expect(extractMessageSearchText({
+            role: 'agent',
+            content: { type: 'codex', data: { type: 'message', message: 'codex reply' } }
+        })).toBe('codex reply')
+    })
+
+    it('ignores event messages', () => {
+        expect(extractMessageSearchText({ role: 'agent', content: { type: 'event', data: { type: 'ready' } } })).toBe('')
+    })
+})
+
+describe('MessageStore search', () => {
+    it('finds messages scoped to the namespace with filters', () => {
+        const store = new Store(':memory:')
+        const alpha = store.sessions.getOrCreateSession('a', { path: '/work/api', flavor: 'codex' }, null, 'alpha')
+        const beta = store.sessions.getOrCreateSession('b', { path: '/work/web' }, null, 'beta')
+
+        store.messages.addMessage(alpha.id, userMessage('please fix the migration bug'))
+        const reply = store.messages.addMessage(alpha.id, assistantMessage('Fixed the migration in store/index.ts'))
+        store.messages.addMessage(beta.id, userMessage('migration elsewhere'))
+
+        const results = store.messages.searchMessages('alpha', 'migrat')
+        expect(results.map((result) => result.sessionId)).toEqual([alpha.id, alpha.id])
+        expect(results.find((result) => result.messageId === reply.id)?.seq).toBe(2)
+
+        expect(store.messages.searchMessages('alpha', 'migration', { flavor: 'claude' })).toHaveLength(0)
+        expect(store.messages.searchMessages('alpha', 'migration', { path: '/work/api' })).toHaveLength(2)
+        expect(store.messages.searchMessages('alpha', 'migration', { to: 0 })).toHaveLength(0)
+        expect(store.messages.searchMessages('alpha', '"unbalanced (query')).toHaveLength(0)
+    })
+
+    it('drops index entries when the session is deleted', () => {
+        const store = new Store(':memory:')
+        const session = store.sessions.getOrCreateSession('a', { path: '/work' }, null, 'default')
+        store.messages.addMessage(session.id, userMessage('needle'))
+        expect(store.messages.searchMessages('default', 'needle')).toHaveLength(1)
+
+        store.sessions.deleteSession(session.id, 'default')
+        expect(store.messages.searchMessages('default', 'needle')).toHaveLength(0)
+    })
+
+    it('backfills existing messages when upgrading the schema', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'hapi-search-'))
+        const path = join(dir, 'hapi.db')
+        try {
+            const legacy = new Store(path)
+            const session = legacy.sessions.getOrCreateSession('a', { path: '/work' }, null, 'default')
+            legacy.messages.addMessage(session.id, userMessage('legacy haystack'))
+
+            const db = new Database(path)
+            db.exec('DROP TABLE messages_fts; DROP TABLE message_search; PRAGMA user_version = 4')
+            db.close()
+
+            const upgraded = new Store(path)
+            expect(upgraded.messages.searchMessages('default', 'haystack')).toHaveLength(1)
+        } finally {
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+})
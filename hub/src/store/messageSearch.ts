@@ -0,0 +1,239 @@
+import type { Database } from 'bun:sqlite'
+import { isObject, unwrapRoleWrappedRecordEnvelope } from '@hapi/protocol'
+
+import type { StoredMessageSearchResult } from './types'
+import { safeJsonParse } from './json'
+
+// Long tool outputs are truncated before indexing to keep the FTS table small
+const MAX_INDEXED_TEXT_LENGTH = 20_000
+const BACKFILL_BATCH_SIZE = 500
+
+export const SEARCH_HIGHLIGHT_START = '\u0002'
+export const SEARCH_HIGHLIGHT_END = '\u0003'
+
+export type MessageSearchFilters = {
+    machineId?: string
+    flavor?: string
+    path?: string
+    from?: number
+    to?: number
+    limit?: number
+    offset?: number
+}
+
+type DbMessageSearchRow = {
+    message_id: string
+    session_id: string
+    seq: number
+    created_at: number
+    snippet: string
+    metadata: string | null
+    machine_id: string | null
+}
+
+function collectBlockText(content: unknown, parts: string[], includeToolResults: boolean): void {
+    if (typeof content === 'string') {
+        parts.push(content)
+        return
+    }
+    if (!Array.isArray(content)) {
+        return
+    }
+    for (const block of content) {
+        if (!isObject(block)) continue
+        if (block.type === 'text' && typeof block.text === 'string') {
+            parts.push(block.text)
+            continue
+        }
+        if (includeToolResults && block.type === 'tool_result') {
+            collectBlockText(block.content, parts, false)
+        }
+    }
+}
+
+/**
+ * Extracts the searchable text of a stored message: user prompts, assistant
+ * text and tool results. Reasoning and tool inputs are not indexed.
+ */
+export function extractMessageSearchText(content: unknown): string {
+    const record = unwrapRoleWrappedRecordEnvelope(content)
+    if (!record) {
+        return ''
+    }
+
+    const parts: string[] = []
+    const body = record.content
+
+    if (record.role === 'user') {
+        if (typeof body === 'string') {
+            parts.push(body)
+        } else if (isObject(body) && typeof body.text === 'string') {
+            parts.push(body.text)
+        }
+    } else if (record.role === 'agent' && isObject(body)) {
+        const data = isObject(body.data) ? body.data : null
+        if (body.type === 'output' && data && !data.isMeta) {
+            const message = isObject(data.message) ? data.message : null
+            if ((data.type === 'assistant' || data.type === 'user') && message) {
+                collectBlockText(message.content, parts, data.type === 'user')
+            } else if (data.type === 'summary' && typeof data.summary === 'string') {
+                parts.push(data.summary)
+            }
+        } else if (body.type === 'codex' && data) {
+            if (data.type === 'message' && typeof data.message === 'string') {
+                parts.push(data.message)
+            } else if (data.type === 'tool-call-result') {
+                if (typeof data.output === 'string') {
+                    parts.push(data.output)
+                } else if (isObject(data.output)) {
+                    for (const value of Object.values(data.output)) {
+                        if (typeof value === 'string') parts.push(value)
+                    }
+                }
+            }
+        }
+    }
+
+    const text = parts.join('\n').trim()
+    return text.length > MAX_INDEXED_TEXT_LENGTH ? text.slice(0, MAX_INDEXED_TEXT_LENGTH) : text
+}
+
+export function indexMessage(db: Database, messageId: string, content: unknown): void {
+    const text = extractMessageSearchText(content)
+    if (!text) {
+        return
+    }
+    db.prepare(
+        'INSERT INTO message_search (message_id, text) VALUES (?, ?) ON CONFLICT(message_id) DO UPDATE SET text = excluded.text'
+    ).run(messageId, text)
+}
+
+export function backfillMessageSearch(db: Database): number {
+    const select = db.prepare(
+        'SELECT rowid, id, content FROM messages WHERE rowid > ? ORDER BY rowid ASC LIMIT ?'
+    )
+    const insert = db.prepare(
+        'INSERT OR IGNORE INTO message_search (message_id, text) VALUES (?, ?)'
+    )
+    let lastRowId = 0
+    let indexed = 0
+
+    while (true) {
+        const rows = select.all(lastRowId, BACKFILL_BATCH_SIZE) as Array<{ rowid: number; id: string; content: string }>
+        if (rows.length === 0) {
+            break
+        }
+        for (const row of rows) {
+            const text = extractMessageSearchText(safeJsonParse(row.content))
+            if (text) {
+                insert.run(row.id, text)
+                indexed += 1
+            }
+        }
+        lastRowId = rows[rows.length - 1].rowid
+    }
+
+    return indexed
+}
+
+/**
+ * Turns free-form input into an FTS5 query: every whitespace-separated term
+ * becomes a quoted prefix match, so punctuation never reaches the FTS parser.
+ */
+export function buildFtsQuery(query: string): string | null {
+    const terms = query
+        .split(/\s+/)
+        .map((term) => term.replace(/"/g, '""'))
+        .filter((term) => term.length > 0)
+    if (terms.length === 0) {
+        return null
+    }
+    return terms.map((term) => `"${term}"*`).join(' ')
+}
+
+function getMetadataString(metadata: unknown, key: string): string | null {
+    if (!isObject(metadata)) return null
+    const value = metadata[key]
+    return typeof value === 'string' ? value : null
+}
+
+export function searchMessages(
+    db: Database,
+    namespace: string,
+    query: string,
+    filters: MessageSearchFilters = {}
+): StoredMessageSearchResult[] {
+    const ftsQuery = buildFtsQuery(query)
+    if (!ftsQuery) {
+        return []
+    }
+
+    const conditions = ['messages_fts MATCH ?', 's.namespace = ?']
+    const params: Array<string | number> = [
+        SEARCH_HIGHLIGHT_START,
+        SEARCH_HIGHLIGHT_END,
+        ftsQuery,
+        namespace
+    ]
+
+    if (filters.machineId) {
+        conditions.push('s.machine_id = ?')
+        params.push(filters.machineId)
+    }
+    if (filters.flavor) {
+        conditions.push("COALESCE(json_extract(s.metadata, '$.flavor'), 'claude') = ?")
+        params.push(filters.flavor)
+    }
+    if (filters.path) {
+        conditions.push("instr(json_extract(s.metadata, '$.path'), ?) > 0")
+        params.push(filters.path)
+    }
+    if (filters.from !== undefined) {
+        conditions.push('m.created_at >= ?')
+        params.push(filters.from)
+    }
+    if (filters.to !== undefined) {
+        conditions.push('m.created_at <= ?')
+        params.push(filters.to)
+    }
+
+    const limit = Math.max(1, Math.min(100, filters.limit ?? 50))
+    const offset = Math.max(0, filters.offset ?? 0)
+    params.push(limit, offset)
+
+    const rows = db.prepare(`
+        SELECT
+            m.id AS message_id,
+            m.session_id AS session_id,
+            m.seq AS seq,
+            m.created_at AS created_at,
+            snippet(messages_fts, 0, ?, ?, '…', 24) AS snippet,
+            s.metadata AS metadata,
+            s.machine_id AS machine_id
+        FROM messages_fts
+        JOIN message_search ms ON ms.id = messages_fts.rowid
+        JOIN messages m ON m.id = ms.message_id
+        JOIN sessions s ON s.id = m.session_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY rank
+        LIMIT ? OFFSET ?
+    `).all(...params) as DbMessageSearchRow[]
+
+    return rows.map((row) => {
+        const metadata = safeJsonParse(row.metadata)
+        return {
+            messageId: row.message_id,
+            sessionId: row.session_id,
+            seq: row.seq,
+            createdAt: row.created_at,
+            snippet: row.snippet,
+            machineId: row.machine_id,
+            sessionName: getMetadataString(metadata, 'name')
+                ?? (isObject(metadata) && isObject(metadata.summary) && typeof metadata.summary.text === 'string'
+                    ? metadata.summary.text
+                    : null),
+            sessionPath: getMetadataString(metadata, 'path'),
+            flavor: getMetadataString(metadata, 'flavor')
+        }
+    })
+}
@@ -1,7 +1,15 @@
 import type { Database } from 'bun:sqlite'
 
-import type { StoredMessage } from './types'
-import { addMessage, copySessionMessages, getMessages, getMessagesAfter, mergeSessionMessages } from './messages'
+import type { StoredMessage, StoredMessageSearchResult } from './types'
+import {
+    addMessage,
+    copySessionMessages,
+    getMessageByLocalId,
+    getMessages,
+    getMessagesAfter,
+    mergeSessionMessages
+} from './messages'
+import { searchMessages, type MessageSearchFilters } from './messageSearch'
 
 export class MessageStore {
     private readonly db: Database
@@ -14,6 +22,10 @@ export class MessageStore {
         return addMessage(this.db, sessionId, content, localId)
     }
 
+    getMessageByLocalId(sessionId: string, localId: string): StoredMessage | null {
+        return getMessageByLocalId(this.db, sessionId, localId)
+    }
+
     getMessages(sessionId: string, limit: number = 200, beforeSeq?: number): StoredMessage[] {
         return getMessages(this.db, sessionId, limit, beforeSeq)
     }
@@ -29,4 +41,8 @@ export class MessageStore {
     mergeSessionMessages(fromSessionId: string, toSessionId: string): { moved: number; oldMaxSeq: number; newMaxSeq: number } {
         return mergeSessionMessages(this.db, fromSessionId, toSessionId)
     }
+
+    searchMessages(namespace: string, query: string, filters?: MessageSearchFilters): StoredMessageSearchResult[] {
+        return searchMessages(this.db, namespace, query, filters)
+    }
 }
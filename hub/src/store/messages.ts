@@ -3,6 +3,7 @@ import { randomUUID } from 'node:crypto'
 
 import type { StoredMessage } from './types'
 import { safeJsonParse } from './json'
+import { indexMessage } from './messageSearch'
 
 type DbMessageRow = {
     id: string
@@ -24,6 +25,13 @@ function toStoredMessage(row: DbMessageRow): StoredMessage {
     }
 }
 
+export function getMessageByLocalId(db: Database, sessionId: string, localId: string): StoredMessage | null {
+    const row = db.prepare(
+        'SELECT * FROM messages WHERE session_id = ? AND local_id = ? LIMIT 1'
+    ).get(sessionId, localId) as DbMessageRow | undefined
+    return row ? toStoredMessage(row) : null
+}
+
 export function addMessage(
     db: Database,
     sessionId: string,
@@ -33,11 +41,9 @@ export function addMessage(
     const now = Date.now()
 
     if (localId) {
-        const existing = db.prepare(
-            'SELECT * FROM messages WHERE session_id = ? AND local_id = ? LIMIT 1'
-        ).get(sessionId, localId) as DbMessageRow | undefined
+        const existing = getMessageByLocalId(db, sessionId, localId)
         if (existing) {
-            return toStoredMessage(existing)
+            return existing
         }
     }
 
@@ -63,6 +69,7 @@ export function addMessage(
         seq: msgSeq,
         local_id: localId ?? null
     })
+    indexMessage(db, id, content)
 
     const row = db.prepare('SELECT * FROM messages WHERE id = ?').get(id) as DbMessageRow | undefined
     if (!row) {
@@ -130,14 +137,16 @@ export function copySessionMessages(
     `)
 
     for (const row of rows) {
+        const id = randomUUID()
         stmt.run({
-            id: randomUUID(),
+            id,
             session_id: toSessionId,
             content: row.content,
             created_at: row.created_at,
             seq: row.seq,
             local_id: null
         })
+        indexMessage(db, id, safeJsonParse(row.content))
     }
 
     return rows.length
@@ -0,0 +1,34 @@
+import type { Database } from 'bun:sqlite'
+import type { NotificationPreferences } from '@hapi/protocol/types'
+
+import type { StoredNotificationPreferences } from './types'
+import {
+    getNotificationPreferences,
+    getNotificationPreferencesByNamespace,
+    removeNotificationPreferences,
+    setNotificationPreferences
+} from './notificationPreferences'
+
+export class NotificationPreferenceStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    get(namespace: string, accountId: number | null): StoredNotificationPreferences | null {
+        return getNotificationPreferences(this.db, namespace, accountId)
+    }
+
+    getByNamespace(namespace: string): StoredNotificationPreferences[] {
+        return getNotificationPreferencesByNamespace(this.db, namespace)
+    }
+
+    set(namespace: string, accountId: number | null, preferences: NotificationPreferences): StoredNotificationPreferences {
+        return setNotificationPreferences(this.db, namespace, accountId, preferences)
+    }
+
+    remove(namespace: string, accountId: number | null): boolean {
+        return removeNotificationPreferences(this.db, namespace, accountId)
+    }
+}
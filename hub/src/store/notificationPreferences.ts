@@ -0,0 +1,85 @@
+import type { Database } from 'bun:sqlite'
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationPreferencesSchema } from '@hapi/protocol/schemas'
+import type { NotificationPreferences } from '@hapi/protocol/types'
+
+import type { StoredNotificationPreferences } from './types'
+import { safeJsonParse } from './json'
+
+type DbNotificationPreferencesRow = {
+    namespace: string
+    account_id: number
+    preferences: string
+    updated_at: number
+}
+
+// The CLI_API_TOKEN owner has no users row; 0 stands in for it so the primary key stays NOT NULL
+const OWNER_ACCOUNT_ID = 0
+
+function toAccountKey(accountId: number | null): number {
+    return accountId ?? OWNER_ACCOUNT_ID
+}
+
+function parsePreferences(value: string): NotificationPreferences {
+    const parsed = NotificationPreferencesSchema.safeParse(safeJsonParse(value))
+    return parsed.success ? parsed.data : DEFAULT_NOTIFICATION_PREFERENCES
+}
+
+function toStoredNotificationPreferences(row: DbNotificationPreferencesRow): StoredNotificationPreferences {
+    return {
+        namespace: row.namespace,
+        accountId: row.account_id === OWNER_ACCOUNT_ID ? null : row.account_id,
+        preferences: parsePreferences(row.preferences),
+        updatedAt: row.updated_at
+    }
+}
+
+export function getNotificationPreferences(
+    db: Database,
+    namespace: string,
+    accountId: number | null
+): StoredNotificationPreferences | null {
+    const row = db.prepare(
+        'SELECT * FROM notification_preferences WHERE namespace = ? AND account_id = ? LIMIT 1'
+    ).get(namespace, toAccountKey(accountId)) as DbNotificationPreferencesRow | undefined
+    return row ? toStoredNotificationPreferences(row) : null
+}
+
+export function getNotificationPreferencesByNamespace(db: Database, namespace: string): StoredNotificationPreferences[] {
+    const rows = db.prepare(
+        'SELECT * FROM notification_preferences WHERE namespace = ? ORDER BY account_id ASC'
+    ).all(namespace) as DbNotificationPreferencesRow[]
+    return rows.map(toStoredNotificationPreferences)
+}
+
+export function setNotificationPreferences(
+    db: Database,
+    namespace: string,
+    accountId: number | null,
+    preferences: NotificationPreferences
+): StoredNotificationPreferences {
+    const now = Date.now()
+    db.prepare(`
+        INSERT INTO notification_preferences (
+            namespace, account_id, preferences, updated_at
+        ) VALUES (
+            @namespace, @account_id, @preferences, @updated_at
+        )
+        ON CONFLICT(namespace, account_id)
+        DO UPDATE SET
+            preferences = excluded.preferences,
+            updated_at = excluded.updated_at
+    `).run({
+        namespace,
+        account_id: toAccountKey(accountId),
+        preferences: JSON.stringify(preferences),
+        updated_at: now
+    })
+    return { namespace, accountId, preferences, updatedAt: now }
+}
+
+export function removeNotificationPreferences(db: Database, namespace: string, accountId: number | null): boolean {
+    const result = db.prepare(
+        'DELETE FROM notification_preferences WHERE namespace = ? AND account_id = ?'
+    ).run(namespace, toAccountKey(accountId))
+    return result.changes > 0
+}
@@ -0,0 +1,46 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredPermissionRule } from './types'
+import {
+    addPermissionRule,
+    getPermissionRule,
+    getPermissionRulesByNamespace,
+    getPermissionRulesForSession,
+    removePermissionRule,
+    updatePermissionRule,
+    type PermissionRuleFields
+} from './permissionRules'
+
+export type { PermissionRuleFields } from './permissionRules'
+
+export class PermissionRuleStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    getRule(id: string, namespace: string): StoredPermissionRule | null {
+        return getPermissionRule(this.db, id, namespace)
+    }
+
+    getRulesByNamespace(namespace: string): StoredPermissionRule[] {
+        return getPermissionRulesByNamespace(this.db, namespace)
+    }
+
+    getRulesForSession(namespace: string, sessionId: string): StoredPermissionRule[] {
+        return getPermissionRulesForSession(this.db, namespace, sessionId)
+    }
+
+    addRule(namespace: string, fields: PermissionRuleFields): StoredPermissionRule {
+        return addPermissionRule(this.db, namespace, fields)
+    }
+
+    updateRule(id: string, namespace: string, fields: PermissionRuleFields): StoredPermissionRule | null {
+        return updatePermissionRule(this.db, id, namespace, fields)
+    }
+
+    removeRule(id: string, namespace: string): boolean {
+        return removePermissionRule(this.db, id, namespace)
+    }
+}
@@ -0,0 +1,178 @@
+import type { Database } from 'bun:sqlite'
+import { randomUUID } from 'node:crypto'
+
+import type { StoredPermissionRule } from './types'
+import { safeJsonParse } from './json'
+
+type DbPermissionRuleRow = {
+    id: string
+    namespace: string
+    session_id: string | null
+    name: string
+    enabled: number
+    priority: number
+    action: string
+    tool_pattern: string | null
+    command_pattern: string | null
+    path_patterns: string
+    flavors: string
+    created_at: number
+    updated_at: number
+}
+
+export type PermissionRuleFields = {
+    sessionId: string | null
+    name: string
+    enabled: boolean
+    priority: number
+    action: StoredPermissionRule['action']
+    toolPattern: string | null
+    commandPattern: string | null
+    pathPatterns: string[]
+    flavors: string[]
+}
+
+function parseStringArray(value: string): string[] {
+    const parsed = safeJsonParse(value)
+    if (!Array.isArray(parsed)) {
+        return []
+    }
+    return parsed.filter((item): item is string => typeof item === 'string')
+}
+
+function toAction(value: string): StoredPermissionRule['action'] {
+    return value === 'approve' || value === 'deny' ? value : 'escalate'
+}
+
+function toStoredPermissionRule(row: DbPermissionRuleRow): StoredPermissionRule {
+    return {
+        id: row.id,
+        namespace: row.namespace,
+        sessionId: row.session_id,
+        name: row.name,
+        enabled: row.enabled === 1,
+        priority: row.priority,
+        action: toAction(row.action),
+        toolPattern: row.tool_pattern,
+        commandPattern: row.command_pattern,
+        pathPatterns: parseStringArray(row.path_patterns),
+        flavors: parseStringArray(row.flavors),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    }
+}
+
+export function getPermissionRule(db: Database, id: string, namespace: string): StoredPermissionRule | null {
+    const row = db.prepare(
+        'SELECT * FROM permission_rules WHERE id = ? AND namespace = ? LIMIT 1'
+    ).get(id, namespace) as DbPermissionRuleRow | undefined
+    return row ? toStoredPermissionRule(row) : null
+}
+
+export function getPermissionRulesByNamespace(db: Database, namespace: string): StoredPermissionRule[] {
+    const rows = db.prepare(
+        'SELECT * FROM permission_rules WHERE namespace = ? ORDER BY priority ASC, created_at ASC'
+    ).all(namespace) as DbPermissionRuleRow[]
+    return rows.map(toStoredPermissionRule)
+}
+
+export function getPermissionRulesForSession(
+    db: Database,
+    namespace: string,
+    sessionId: string
+): StoredPermissionRule[] {
+    const rows = db.prepare(`
+        SELECT * FROM permission_rules
+        WHERE namespace = ? AND (session_id IS NULL OR session_id = ?)
+        ORDER BY priority ASC, created_at ASC
+    `).all(namespace, sessionId) as DbPermissionRuleRow[]
+    return rows.map(toStoredPermissionRule)
+}
+
+export function addPermissionRule(
+    db: Database,
+    namespace: string,
+    fields: PermissionRuleFields
+): StoredPermissionRule {
+    const now = Date.now()
+    const id = randomUUID()
+
+    db.prepare(`
+        INSERT INTO permission_rules (
+            id, namespace, session_id, name, enabled, priority, action,
+            tool_pattern, command_pattern, path_patterns, flavors,
+            created_at, updated_at
+        ) VALUES (
+            @id, @namespace, @session_id, @name, @enabled, @priority, @action,
+            @tool_pattern, @command_pattern, @path_patterns, @flavors,
+            @created_at, @updated_at
+        )
+    `).run({
+        id,
+        namespace,
+        session_id: fields.sessionId,
+        name: fields.name,
+        enabled: fields.enabled ? 1 : 0,
+        priority: fields.priority,
+        action: fields.action,
+        tool_pattern: fields.toolPattern,
+        command_pattern: fields.commandPattern,
+        path_patterns: JSON.stringify(fields.pathPatterns),
+        flavors: JSON.stringify(fields.flavors),
+        created_at: now,
+        updated_at: now
+    })
+
+    const row = getPermissionRule(db, id, namespace)
+    if (!row) {
+        throw new Error('Failed to create permission rule')
+    }
+    return row
+}
+
+export function updatePermissionRule(
+    db: Database,
+    id: string,
+    namespace: string,
+    fields: PermissionRuleFields
+): StoredPermissionRule | null {
+    const result = db.prepare(`
+        UPDATE permission_rules
+        SET session_id = @session_id,
+            name = @name,
+            enabled = @enabled,
+            priority = @priority,
+            action = @action,
+            tool_pattern = @tool_pattern,
+            command_pattern = @command_pattern,
+            path_patterns = @path_patterns,
+            flavors = @flavors,
+            updated_at = @updated_at
+        WHERE id = @id AND namespace = @namespace
+    `).run({
+        id,
+        namespace,
+        session_id: fields.sessionId,
+        name: fields.name,
+        enabled: fields.enabled ? 1 : 0,
+        priority: fields.priority,
+        action: fields.action,
+        tool_pattern: fields.toolPattern,
+        command_pattern: fields.commandPattern,
+        path_patterns: JSON.stringify(fields.pathPatterns),
+        flavors: JSON.stringify(fields.flavors),
+        updated_at: Date.now()
+    })
+
+    if (result.changes === 0) {
+        return null
+    }
+    return getPermissionRule(db, id, namespace)
+}
+
+export function removePermissionRule(db: Database, id: string, namespace: string): boolean {
+    const result = db.prepare(
+        'DELETE FROM permission_rules WHERE id = ? AND namespace = ?'
+    ).run(id, namespace)
+    return result.changes > 0
+}
@@ -10,8 +10,12 @@ export class PushStore {
         this.db = db
     }
 
-    addPushSubscription(namespace: string, subscription: { endpoint: string; p256dh: string; auth: string }): void {
-        addPushSubscription(this.db, namespace, subscription)
+    addPushSubscription(
+        namespace: string,
+        subscription: { endpoint: string; p256dh: string; auth: string },
+        accountId: number | null
+    ): void {
+        addPushSubscription(this.db, namespace, subscription, accountId)
     }
 
     removePushSubscription(namespace: string, endpoint: string): void {
@@ -8,6 +8,7 @@ type DbPushSubscriptionRow = {
     endpoint: string
     p256dh: string
     auth: string
+    account_id: number | null
     created_at: number
 }
 
@@ -18,6 +19,7 @@ function toStoredPushSubscription(row: DbPushSubscriptionRow): StoredPushSubscri
         endpoint: row.endpoint,
         p256dh: row.p256dh,
         auth: row.auth,
+        accountId: row.account_id,
         createdAt: row.created_at
     }
 }
@@ -25,25 +27,28 @@ function toStoredPushSubscription(row: DbPushSubscriptionRow): StoredPushSubscri
 export function addPushSubscription(
     db: Database,
     namespace: string,
-    subscription: { endpoint: string; p256dh: string; auth: string }
+    subscription: { endpoint: string; p256dh: string; auth: string },
+    accountId: number | null
 ): void {
     const now = Date.now()
     db.prepare(`
         INSERT INTO push_subscriptions (
-            namespace, endpoint, p256dh, auth, created_at
+            namespace, endpoint, p256dh, auth, account_id, created_at
         ) VALUES (
-            @namespace, @endpoint, @p256dh, @auth, @created_at
+            @namespace, @endpoint, @p256dh, @auth, @account_id, @created_at
         )
         ON CONFLICT(namespace, endpoint)
         DO UPDATE SET
             p256dh = excluded.p256dh,
             auth = excluded.auth,
+            account_id = excluded.account_id,
             created_at = excluded.created_at
     `).run({
         namespace,
         endpoint: subscription.endpoint,
         p256dh: subscription.p256dh,
         auth: subscription.auth,
+        account_id: accountId,
         created_at: now
     })
 }
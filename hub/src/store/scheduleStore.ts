@@ -0,0 +1,67 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredSchedule, StoredScheduleRun } from './types'
+import {
+    addSchedule,
+    addScheduleRun,
+    getDueSchedules,
+    getSchedule,
+    getScheduleRuns,
+    getSchedulesByNamespace,
+    removeSchedule,
+    setScheduleRunTimes,
+    setScheduleSessionId,
+    updateSchedule,
+    type ScheduleFields,
+    type ScheduleRunFields
+} from './schedules'
+
+export type { ScheduleFields, ScheduleRunFields } from './schedules'
+
+export class ScheduleStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    getSchedule(id: string, namespace: string): StoredSchedule | null {
+        return getSchedule(this.db, id, namespace)
+    }
+
+    getSchedulesByNamespace(namespace: string): StoredSchedule[] {
+        return getSchedulesByNamespace(this.db, namespace)
+    }
+
+    getDueSchedules(now: number): StoredSchedule[] {
+        return getDueSchedules(this.db, now)
+    }
+
+    addSchedule(namespace: string, fields: ScheduleFields): StoredSchedule {
+        return addSchedule(this.db, namespace, fields)
+    }
+
+    updateSchedule(id: string, namespace: string, fields: ScheduleFields): StoredSchedule | null {
+        return updateSchedule(this.db, id, namespace, fields)
+    }
+
+    setRunTimes(id: string, times: { nextRunAt: number | null; lastRunAt?: number }): void {
+        setScheduleRunTimes(this.db, id, times)
+    }
+
+    setSessionId(id: string, sessionId: string): void {
+        setScheduleSessionId(this.db, id, sessionId)
+    }
+
+    removeSchedule(id: string, namespace: string): boolean {
+        return removeSchedule(this.db, id, namespace)
+    }
+
+    addRun(fields: ScheduleRunFields): StoredScheduleRun {
+        return addScheduleRun(this.db, fields)
+    }
+
+    getRuns(scheduleId: string, limit: number = 50): StoredScheduleRun[] {
+        return getScheduleRuns(this.db, scheduleId, limit)
+    }
+}
@@ -0,0 +1,257 @@
+import type { Database } from 'bun:sqlite'
+import { randomUUID } from 'node:crypto'
+import { SpawnAgentSchema } from '@hapi/protocol/schemas'
+
+import type { StoredSchedule, StoredScheduleRun } from './types'
+
+type DbScheduleRow = {
+    id: string
+    namespace: string
+    name: string
+    cron: string
+    enabled: number
+    target: string
+    prompt: string
+    session_id: string | null
+    machine_id: string | null
+    directory: string | null
+    agent: string | null
+    yolo: number
+    missed_run_policy: string
+    next_run_at: number | null
+    last_run_at: number | null
+    created_at: number
+    updated_at: number
+}
+
+type DbScheduleRunRow = {
+    id: number
+    schedule_id: string
+    scheduled_for: number
+    started_at: number
+    status: string
+    manual: number
+    session_id: string | null
+    error: string | null
+}
+
+export type ScheduleFields = Omit<StoredSchedule, 'id' | 'namespace' | 'lastRunAt' | 'createdAt' | 'updatedAt'>
+
+export type ScheduleRunFields = Omit<StoredScheduleRun, 'id'>
+
+// History kept per schedule; older runs are dropped as new ones are recorded
+const MAX_RUNS_PER_SCHEDULE = 100
+
+function toAgent(value: string | null): StoredSchedule['agent'] {
+    const parsed = SpawnAgentSchema.safeParse(value)
+    return parsed.success ? parsed.data : null
+}
+
+function toStoredSchedule(row: DbScheduleRow): StoredSchedule {
+    return {
+        id: row.id,
+        namespace: row.namespace,
+        name: row.name,
+        cron: row.cron,
+        enabled: row.enabled === 1,
+        target: row.target === 'spawn' ? 'spawn' : 'session',
+        prompt: row.prompt,
+        sessionId: row.session_id,
+        machineId: row.machine_id,
+        directory: row.directory,
+        agent: toAgent(row.agent),
+        yolo: row.yolo === 1,
+        missedRunPolicy: row.missed_run_policy === 'run-once' ? 'run-once' : 'skip',
+        nextRunAt: row.next_run_at,
+        lastRunAt: row.last_run_at,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    }
+}
+
+function toRunStatus(value: string): StoredScheduleRun['status'] {
+    return value === 'succeeded' || value === 'missed' ? value : 'failed'
+}
+
+function toStoredScheduleRun(row: DbScheduleRunRow): StoredScheduleRun {
+    return {
+        id: row.id,
+        scheduleId: row.schedule_id,
+        scheduledFor: row.scheduled_for,
+        startedAt: row.started_at,
+        status: toRunStatus(row.status),
+        manual: row.manual === 1,
+        sessionId: row.session_id,
+        error: row.error
+    }
+}
+
+function toScheduleParams(fields: ScheduleFields): Record<string, string | number | null> {
+    return {
+        name: fields.name,
+        cron: fields.cron,
+        enabled: fields.enabled ? 1 : 0,
+        target: fields.target,
+        prompt: fields.prompt,
+        session_id: fields.sessionId,
+        machine_id: fields.machineId,
+        directory: fields.directory,
+        agent: fields.agent,
+        yolo: fields.yolo ? 1 : 0,
+        missed_run_policy: fields.missedRunPolicy,
+        next_run_at: fields.nextRunAt
+    }
+}
+
+export function getSchedule(db: Database, id: string, namespace: string): StoredSchedule | null {
+    const row = db.prepare(
+        'SELECT * FROM schedules WHERE id = ? AND namespace = ? LIMIT 1'
+    ).get(id, namespace) as DbScheduleRow | undefined
+    return row ? toStoredSchedule(row) : null
+}
+
+export function getSchedulesByNamespace(db: Database, namespace: string): StoredSchedule[] {
+    const rows = db.prepare(
+        'SELECT * FROM schedules WHERE namespace = ? ORDER BY created_at ASC'
+    ).all(namespace) as DbScheduleRow[]
+    return rows.map(toStoredSchedule)
+}
+
+export function getDueSchedules(db: Database, now: number): StoredSchedule[] {
+    const rows = db.prepare(`
+        SELECT * FROM schedules
+        WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+        ORDER BY next_run_at ASC
+    `).all(now) as DbScheduleRow[]
+    return rows.map(toStoredSchedule)
+}
+
+export function addSchedule(db: Database, namespace: string, fields: ScheduleFields): StoredSchedule {
+    const now = Date.now()
+    const id = randomUUID()
+
+    db.prepare(`
+        INSERT INTO schedules (
+            id, namespace, name, cron, enabled, target, prompt,
+            session_id, machine_id, directory, agent, yolo, missed_run_policy,
+            next_run_at, last_run_at, created_at, updated_at
+        ) VALUES (
+            @id, @namespace, @name, @cron, @enabled, @target, @prompt,
+            @session_id, @machine_id, @directory, @agent, @yolo, @missed_run_policy,
+            @next_run_at, NULL, @created_at, @updated_at
+        )
+    `).run({
+        id,
+        namespace,
+        ...toScheduleParams(fields),
+        created_at: now,
+        updated_at: now
+    })
+
+    const row = getSchedule(db, id, namespace)
+    if (!row) {
+        throw new Error('Failed to create schedule')
+    }
+    return row
+}
+
+export function updateSchedule(
+    db: Database,
+    id: string,
+    namespace: string,
+    fields: ScheduleFields
+): StoredSchedule | null {
+    const result = db.prepare(`
+        UPDATE schedules
+        SET name = @name,
+            cron = @cron,
+            enabled = @enabled,
+            target = @target,
+            prompt = @prompt,
+            session_id = @session_id,
+            machine_id = @machine_id,
+            directory = @directory,
+            agent = @agent,
+            yolo = @yolo,
+            missed_run_policy = @missed_run_policy,
+            next_run_at = @next_run_at,
+            updated_at = @updated_at
+        WHERE id = @id AND namespace = @namespace
+    `).run({
+        id,
+        namespace,
+        ...toScheduleParams(fields),
+        updated_at: Date.now()
+    })
+
+    if (result.changes === 0) {
+        return null
+    }
+    return getSchedule(db, id, namespace)
+}
+
+export function setScheduleRunTimes(
+    db: Database,
+    id: string,
+    times: { nextRunAt: number | null; lastRunAt?: number }
+): void {
+    if (times.lastRunAt === undefined) {
+        db.prepare('UPDATE schedules SET next_run_at = ? WHERE id = ?').run(times.nextRunAt, id)
+        return
+    }
+    db.prepare(
+        'UPDATE schedules SET next_run_at = ?, last_run_at = ? WHERE id = ?'
+    ).run(times.nextRunAt, times.lastRunAt, id)
+}
+
+// Follows a session across resume, which can move the conversation to a new id
+export function setScheduleSessionId(db: Database, id: string, sessionId: string): void {
+    db.prepare('UPDATE schedules SET session_id = ? WHERE id = ?').run(sessionId, id)
+}
+
+export function removeSchedule(db: Database, id: string, namespace: string): boolean {
+    const result = db.prepare(
+        'DELETE FROM schedules WHERE id = ? AND namespace = ?'
+    ).run(id, namespace)
+    return result.changes > 0
+}
+
+export function addScheduleRun(db: Database, fields: ScheduleRunFields): StoredScheduleRun {
+    const result = db.prepare(`
+        INSERT INTO schedule_runs (
+            schedule_id, scheduled_for, started_at, status, manual, session_id, error
+        ) VALUES (
+            @schedule_id, @scheduled_for, @started_at, @status, @manual, @session_id, @error
+        )
+    `).run({
+        schedule_id: fields.scheduleId,
+        scheduled_for: fields.scheduledFor,
+        started_at: fields.startedAt,
+        status: fields.status,
+        manual: fields.manual ? 1 : 0,
+        session_id: fields.sessionId,
+        error: fields.error
+    })
+
+    db.prepare(`
+        DELETE FROM schedule_runs
+        WHERE schedule_id = ? AND id NOT IN (
+            SELECT id FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?
+        )
+    `).run(fields.scheduleId, fields.scheduleId, MAX_RUNS_PER_SCHEDULE)
+
+    const row = db.prepare(
+        'SELECT * FROM schedule_runs WHERE id = ? LIMIT 1'
+    ).get(Number(result.lastInsertRowid)) as DbScheduleRunRow | undefined
+    if (!row) {
+        throw new Error('Failed to record schedule run')
+    }
+    return toStoredScheduleRun(row)
+}
+
+export function getScheduleRuns(db: Database, scheduleId: string, limit: number): StoredScheduleRun[] {
+    const rows = db.prepare(
+        'SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?'
+    ).all(scheduleId, limit) as DbScheduleRunRow[]
+    return rows.map(toStoredScheduleRun)
+}
@@ -0,0 +1,46 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredSessionTemplate } from './types'
+import {
+    addSessionTemplate,
+    getSessionTemplate,
+    getSessionTemplateByName,
+    getSessionTemplatesByNamespace,
+    removeSessionTemplate,
+    updateSessionTemplate,
+    type SessionTemplateFields
+} from './sessionTemplates'
+
+export type { SessionTemplateFields } from './sessionTemplates'
+
+export class SessionTemplateStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    getTemplate(id: string, namespace: string): StoredSessionTemplate | null {
+        return getSessionTemplate(this.db, id, namespace)
+    }
+
+    getTemplateByName(name: string, namespace: string): StoredSessionTemplate | null {
+        return getSessionTemplateByName(this.db, name, namespace)
+    }
+
+    getTemplatesByNamespace(namespace: string): StoredSessionTemplate[] {
+        return getSessionTemplatesByNamespace(this.db, namespace)
+    }
+
+    addTemplate(namespace: string, fields: SessionTemplateFields): StoredSessionTemplate {
+        return addSessionTemplate(this.db, namespace, fields)
+    }
+
+    updateTemplate(id: string, namespace: string, fields: SessionTemplateFields): StoredSessionTemplate | null {
+        return updateSessionTemplate(this.db, id, namespace, fields)
+    }
+
+    removeTemplate(id: string, namespace: string): boolean {
+        return removeSessionTemplate(this.db, id, namespace)
+    }
+}
@@ -0,0 +1,170 @@
+import type { Database } from 'bun:sqlite'
+import { randomUUID } from 'node:crypto'
+import { PermissionModeSchema, SpawnAgentSchema } from '@hapi/protocol/schemas'
+
+import { safeJsonParse } from './json'
+import type { StoredSessionTemplate, StoredSessionTemplateAttachment } from './types'
+
+type DbSessionTemplateRow = {
+    id: string
+    namespace: string
+    name: string
+    machine_id: string
+    directory: string
+    agent: string
+    model: string | null
+    permission_mode: string | null
+    session_type: string
+    worktree_name_pattern: string | null
+    initial_prompt: string | null
+    attachments: string
+    created_at: number
+    updated_at: number
+}
+
+export type SessionTemplateFields = Omit<StoredSessionTemplate, 'id' | 'namespace' | 'createdAt' | 'updatedAt'>
+
+function toAgent(value: string): StoredSessionTemplate['agent'] {
+    const parsed = SpawnAgentSchema.safeParse(value)
+    return parsed.success ? parsed.data : 'claude'
+}
+
+function toPermissionMode(value: string | null): StoredSessionTemplate['permissionMode'] {
+    const parsed = PermissionModeSchema.safeParse(value)
+    return parsed.success ? parsed.data : null
+}
+
+function parseAttachments(value: string): StoredSessionTemplateAttachment[] {
+    const parsed = safeJsonParse(value)
+    if (!Array.isArray(parsed)) {
+        return []
+    }
+    return parsed.filter((item): item is StoredSessionTemplateAttachment =>
+        typeof item?.filename === 'string'
+        && typeof item.mimeType === 'string'
+        && typeof item.size === 'number'
+        && typeof item.content === 'string'
+    )
+}
+
+function toStoredSessionTemplate(row: DbSessionTemplateRow): StoredSessionTemplate {
+    return {
+        id: row.id,
+        namespace: row.namespace,
+        name: row.name,
+        machineId: row.machine_id,
+        directory: row.directory,
+        agent: toAgent(row.agent),
+        model: row.model,
+        permissionMode: toPermissionMode(row.permission_mode),
+        sessionType: row.session_type === 'worktree' ? 'worktree' : 'simple',
+        worktreeNamePattern: row.worktree_name_pattern,
+        initialPrompt: row.initial_prompt,
+        attachments: parseAttachments(row.attachments),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    }
+}
+
+function toSessionTemplateParams(fields: SessionTemplateFields): Record<string, string | null> {
+    return {
+        name: fields.name,
+        machine_id: fields.machineId,
+        directory: fields.directory,
+        agent: fields.agent,
+        model: fields.model,
+        permission_mode: fields.permissionMode,
+        session_type: fields.sessionType,
+        worktree_name_pattern: fields.worktreeNamePattern,
+        initial_prompt: fields.initialPrompt,
+        attachments: JSON.stringify(fields.attachments)
+    }
+}
+
+export function getSessionTemplate(db: Database, id: string, namespace: string): StoredSessionTemplate | null {
+    const row = db.prepare(
+        'SELECT * FROM session_templates WHERE id = ? AND namespace = ? LIMIT 1'
+    ).get(id, namespace) as DbSessionTemplateRow | undefined
+    return row ? toStoredSessionTemplate(row) : null
+}
+
+export function getSessionTemplateByName(db: Database, name: string, namespace: string): StoredSessionTemplate | null {
+    const row = db.prepare(
+        'SELECT * FROM session_templates WHERE name = ? AND namespace = ? LIMIT 1'
+    ).get(name, namespace) as DbSessionTemplateRow | undefined
+    return row ? toStoredSessionTemplate(row) : null
+}
+
+export function getSessionTemplatesByNamespace(db: Database, namespace: string): StoredSessionTemplate[] {
+    const rows = db.prepare(
+        'SELECT * FROM session_templates WHERE namespace = ? ORDER BY name COLLATE NOCASE ASC'
+    ).all(namespace) as DbSessionTemplateRow[]
+    return rows.map(toStoredSessionTemplate)
+}
+
+export function addSessionTemplate(db: Database, namespace: string, fields: SessionTemplateFields): StoredSessionTemplate {
+    const now = Date.now()
+    const id = randomUUID()
+
+    db.prepare(`
+        INSERT INTO session_templates (
+            id, namespace, name, machine_id, directory, agent, model, permission_mode,
+            session_type, worktree_name_pattern, initial_prompt, attachments, created_at, updated_at
+        ) VALUES (
+            @id, @namespace, @name, @machine_id, @directory, @agent, @model, @permission_mode,
+            @session_type, @worktree_name_pattern, @initial_prompt, @attachments, @created_at, @updated_at
+        )
+    `).run({
+        id,
+        namespace,
+        ...toSessionTemplateParams(fields),
+        created_at: now,
+        updated_at: now
+    })
+
+    const template = getSessionTemplate(db, id, namespace)
+    if (!template) {
+        throw new Error('Failed to create session template')
+    }
+    return template
+}
+
+export function updateSessionTemplate(
+    db: Database,
+    id: string,
+    namespace: string,
+    fields: SessionTemplateFields
+): StoredSessionTemplate | null {
+    const result = db.prepare(`
+        UPDATE session_templates
+        SET name = @name,
+            machine_id = @machine_id,
+            directory = @directory,
+            agent = @agent,
+            model = @model,
+            permission_mode = @permission_mode,
+            session_type = @session_type,
+            worktree_name_pattern = @worktree_name_pattern,
+            initial_prompt = @initial_prompt,
+            attachments = @attachments,
+            updated_at = @updated_at
+        WHERE id = @id AND namespace = @namespace
+    `).run({
+        id,
+        namespace,
+        ...toSessionTemplateParams(fields),
+        updated_at: Date.now()
+    })
+
+    if (result.changes === 0) {
+        return null
+    }
+    return getSessionTemplate(db, id, namespace)
+}
+
+export function removeSessionTemplate(db: Database, id: string, namespace: string): boolean {
+    const result = db.prepare(
+        'DELETE FROM session_templates WHERE id = ? AND namespace = ?'
+    ).run(id, namespace)
+    return result.changes > 0
+}
@@ -1,3 +1,5 @@
+import type { NotificationPreferences, PermissionMode, SpawnAgent } from '@hapi/protocol/types'
+
 export type StoredSession = {
     id: string
     tag: string | null
@@ -44,6 +46,8 @@ export type StoredUser = {
     platform: string
     platformUserId: string
     namespace: string
+    name: string | null
+    role: 'viewer' | 'operator' | 'admin'
     createdAt: number
 }
 
@@ -53,10 +57,171 @@ export type StoredPushSubscription = {
     endpoint: string
     p256dh: string
     auth: string
+    // users.id of the subscriber; null for the CLI_API_TOKEN owner
+    accountId: number | null
+    createdAt: number
+}
+
+export type StoredNotificationPreferences = {
+    namespace: string
+    // users.id of the account; null for the CLI_API_TOKEN owner
+    accountId: number | null
+    preferences: NotificationPreferences
+    updatedAt: number
+}
+
+export type StoredMessageSearchResult = {
+    messageId: string
+    sessionId: string
+    seq: number
+    createdAt: number
+    snippet: string
+    machineId: string | null
+    sessionName: string | null
+    sessionPath: string | null
+    flavor: string | null
+}
+
+export type StoredPermissionRule = {
+    id: string
+    namespace: string
+    sessionId: string | null
+    name: string
+    enabled: boolean
+    priority: number
+    action: 'approve' | 'deny' | 'escalate'
+    toolPattern: string | null
+    commandPattern: string | null
+    pathPatterns: string[]
+    flavors: string[]
+    createdAt: number
+    updatedAt: number
+}
+
+export type StoredAuditEvent = {
+    id: number
+    namespace: string
+    // users.id of the actor; null for the CLI_API_TOKEN owner
+    actorUserId: number | null
+    // Display label captured at write time so it survives user deletion
+    actor: string
+    origin: string
+    action: string
+    sessionId: string | null
+    machineId: string | null
+    detail: string | null
+    payloadDigest: string | null
+    createdAt: number
+}
+
+export type StoredSchedule = {
+    id: string
+    namespace: string
+    name: string
+    cron: string
+    enabled: boolean
+    target: 'session' | 'spawn'
+    prompt: string
+    sessionId: string | null
+    machineId: string | null
+    directory: string | null
+    agent: SpawnAgent | null
+    yolo: boolean
+    missedRunPolicy: 'skip' | 'run-once'
+    nextRunAt: number | null
+    lastRunAt: number | null
+    createdAt: number
+    updatedAt: number
+}
+
+export type StoredSessionTemplateAttachment = {
+    filename: string
+    mimeType: string
+    // Decoded size in bytes
+    size: number
+    // Base64
+    content: string
+}
+
+export type StoredSessionTemplate = {
+    id: string
+    namespace: string
+    name: string
+    machineId: string
+    directory: string
+    agent: SpawnAgent
+    model: string | null
+    permissionMode: PermissionMode | null
+    sessionType: 'simple' | 'worktree'
+    worktreeNamePattern: string | null
+    initialPrompt: string | null
+    attachments: StoredSessionTemplateAttachment[]
+    createdAt: number
+    updatedAt: number
+}
+
+export type StoredScheduleRun = {
+    id: number
+    scheduleId: string
+    scheduledFor: number
+    startedAt: number
+    status: 'succeeded' | 'failed' | 'missed'
+    manual: boolean
+    sessionId: string | null
+    error: string | null
+}
+
+export type StoredWebhookDelivery = {
+    id: number
+    namespace: string
+    webhookUrl: string
+    event: 'ready' | 'permission-request' | 'session-added' | 'session-removed' | 'machine-offline' | 'error' | 'budget-exceeded'
+    sessionId: string | null
+    machineId: string | null
+    status: 'pending' | 'delivered' | 'failed'
+    attempts: number
+    responseStatus: number | null
+    error: string | null
     createdAt: number
+    updatedAt: number
 }
 
 export type VersionedUpdateResult<T> =
     | { result: 'success'; version: number; value: T }
     | { result: 'version-mismatch'; version: number; value: T }
     | { result: 'error' }
+
+export type StoredUsageTotals = {
+    turns: number
+    inputTokens: number
+    outputTokens: number
+    cacheReadTokens: number
+    cacheCreationTokens: number
+    costUsd: number
+}
+
+export type StoredUsageDailyTotal = StoredUsageTotals & {
+    day: string
+    flavor: string | null
+    model: string | null
+}
+
+export type StoredUsageModelTotal = StoredUsageTotals & {
+    flavor: string | null
+    model: string | null
+}
+
+export type StoredUsageBudget = {
+    id: string
+    namespace: string
+    name: string
+    enabled: boolean
+    scope: 'namespace' | 'machine' | 'session'
+    scopeId: string | null
+    period: 'day' | 'month' | 'total'
+    limitTokens: number | null
+    limitUsd: number | null
+    action: 'warn' | 'pause'
+    createdAt: number
+    updatedAt: number
+}
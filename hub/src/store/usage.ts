@@ -0,0 +1,288 @@
+import type { Database } from 'bun:sqlite'
+import { randomUUID } from 'node:crypto'
+
+import type {
+    StoredUsageBudget,
+    StoredUsageDailyTotal,
+    StoredUsageModelTotal,
+    StoredUsageTotals
+} from './types'
+
+type DbUsageTotalsRow = {
+    turns: number
+    input_tokens: number | null
+    output_tokens: number | null
+    cache_read_tokens: number | null
+    cache_creation_tokens: number | null
+    cost_usd: number | null
+}
+
+type DbUsageGroupRow = DbUsageTotalsRow & {
+    day?: string
+    flavor: string | null
+    model: string | null
+}
+
+type DbUsageBudgetRow = {
+    id: string
+    namespace: string
+    name: string
+    enabled: number
+    scope: string
+    scope_id: string | null
+    period: string
+    limit_tokens: number | null
+    limit_usd: number | null
+    action: string
+    created_at: number
+    updated_at: number
+}
+
+export type UsageRecordFields = {
+    namespace: string
+    sessionId: string
+    machineId: string | null
+    flavor: string | null
+    model: string | null
+    inputTokens: number
+    outputTokens: number
+    cacheReadTokens: number
+    cacheCreationTokens: number
+    costUsd: number | null
+    createdAt?: number
+}
+
+export type UsageFilters = {
+    sessionId?: string
+    machineId?: string
+    // Inclusive lower and exclusive upper bound on created_at
+    from?: number
+    to?: number
+}
+
+export type UsageBudgetFields = Pick<
+    StoredUsageBudget,
+    'name' | 'enabled' | 'scope' | 'scopeId' | 'period' | 'limitTokens' | 'limitUsd' | 'action'
+>
+
+const TOTALS_COLUMNS = `
+    COUNT(*) AS turns,
+    SUM(input_tokens) AS input_tokens,
+    SUM(output_tokens) AS output_tokens,
+    SUM(cache_read_tokens) AS cache_read_tokens,
+    SUM(cache_creation_tokens) AS cache_creation_tokens,
+    SUM(cost_usd) AS cost_usd
+`
+
+function toStoredUsageTotals(row: DbUsageTotalsRow | undefined): StoredUsageTotals {
+    return {
+        turns: row?.turns ?? 0,
+        inputTokens: row?.input_tokens ?? 0,
+        outputTokens: row?.output_tokens ?? 0,
+        cacheReadTokens: row?.cache_read_tokens ?? 0,
+        cacheCreationTokens: row?.cache_creation_tokens ?? 0,
+        costUsd: row?.cost_usd ?? 0
+    }
+}
+
+function toStoredUsageBudget(row: DbUsageBudgetRow): StoredUsageBudget {
+    return {
+        id: row.id,
+        namespace: row.namespace,
+        name: row.name,
+        enabled: row.enabled === 1,
+        scope: row.scope === 'machine' || row.scope === 'session' ? row.scope : 'namespace',
+        scopeId: row.scope_id,
+        period: row.period === 'day' || row.period === 'month' ? row.period : 'total',
+        limitTokens: row.limit_tokens,
+        limitUsd: row.limit_usd,
+        action: row.action === 'pause' ? 'pause' : 'warn',
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    }
+}
+
+function buildUsageConditions(namespace: string, filters: UsageFilters): { where: string; params: Array<string | number> } {
+    const conditions = ['namespace = ?']
+    const params: Array<string | number> = [namespace]
+
+    if (filters.sessionId) {
+        conditions.push('session_id = ?')
+        params.push(filters.sessionId)
+    }
+    if (filters.machineId) {
+        conditions.push('machine_id = ?')
+        params.push(filters.machineId)
+    }
+    if (filters.from !== undefined) {
+        conditions.push('created_at >= ?')
+        params.push(filters.from)
+    }
+    if (filters.to !== undefined) {
+        conditions.push('created_at < ?')
+        params.push(filters.to)
+    }
+
+    return { where: conditions.join(' AND '), params }
+}
+
+export function addUsageRecord(db: Database, fields: UsageRecordFields): void {
+    db.prepare(`
+        INSERT INTO usage_records (
+            namespace, session_id, machine_id, flavor, model,
+            input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd,
+            created_at
+        ) VALUES (
+            @namespace, @session_id, @machine_id, @flavor, @model,
+            @input_tokens, @output_tokens, @cache_read_tokens, @cache_creation_tokens, @cost_usd,
+            @created_at
+        )
+    `).run({
+        namespace: fields.namespace,
+        session_id: fields.sessionId,
+        machine_id: fields.machineId,
+        flavor: fields.flavor,
+        model: fields.model,
+        input_tokens: fields.inputTokens,
+        output_tokens: fields.outputTokens,
+        cache_read_tokens: fields.cacheReadTokens,
+        cache_creation_tokens: fields.cacheCreationTokens,
+        cost_usd: fields.costUsd,
+        created_at: fields.createdAt ?? Date.now()
+    })
+}
+
+export function getUsageTotals(db: Database, namespace: string, filters: UsageFilters = {}): StoredUsageTotals {
+    const { where, params } = buildUsageConditions(namespace, filters)
+    const row = db.prepare(
+        `SELECT ${TOTALS_COLUMNS} FROM usage_records WHERE ${where}`
+    ).get(...params) as DbUsageTotalsRow | undefined
+    return toStoredUsageTotals(row)
+}
+
+export function getUsageByModel(db: Database, namespace: string, filters: UsageFilters = {}): StoredUsageModelTotal[] {
+    const { where, params } = buildUsageConditions(namespace, filters)
+    const rows = db.prepare(`
+        SELECT flavor, model, ${TOTALS_COLUMNS}
+        FROM usage_records
+        WHERE ${where}
+        GROUP BY flavor, model
+        ORDER BY cost_usd DESC, output_tokens DESC
+    `).all(...params) as DbUsageGroupRow[]
+    return rows.map((row) => ({
+        ...toStoredUsageTotals(row),
+        flavor: row.flavor,
+        model: row.model
+    }))
+}
+
+// Days are bucketed in the hub's local time zone
+export function getDailyUsage(db: Database, namespace: string, filters: UsageFilters = {}): StoredUsageDailyTotal[] {
+    const { where, params } = buildUsageConditions(namespace, filters)
+    const rows = db.prepare(`
+        SELECT date(created_at / 1000, 'unixepoch', 'localtime') AS day, flavor, model, ${TOTALS_COLUMNS}
+        FROM usage_records
+        WHERE ${where}
+        GROUP BY day, flavor, model
+        ORDER BY day DESC, cost_usd DESC
+    `).all(...params) as DbUsageGroupRow[]
+    return rows.map((row) => ({
+        ...toStoredUsageTotals(row),
+        day: row.day ?? '',
+        flavor: row.flavor,
+        model: row.model
+    }))
+}
+
+export function getUsageBudget(db: Database, id: string, namespace: string): StoredUsageBudget | null {
+    const row = db.prepare(
+        'SELECT * FROM usage_budgets WHERE id = ? AND namespace = ? LIMIT 1'
+    ).get(id, namespace) as DbUsageBudgetRow | undefined
+    return row ? toStoredUsageBudget(row) : null
+}
+
+export function getUsageBudgetsByNamespace(db: Database, namespace: string): StoredUsageBudget[] {
+    const rows = db.prepare(
+        'SELECT * FROM usage_budgets WHERE namespace = ? ORDER BY created_at ASC'
+    ).all(namespace) as DbUsageBudgetRow[]
+    return rows.map(toStoredUsageBudget)
+}
+
+export function addUsageBudget(db: Database, namespace: string, fields: UsageBudgetFields): StoredUsageBudget {
+    const now = Date.now()
+    const id = randomUUID()
+
+    db.prepare(`
+        INSERT INTO usage_budgets (
+            id, namespace, name, enabled, scope, scope_id, period,
+            limit_tokens, limit_usd, action, created_at, updated_at
+        ) VALUES (
+            @id, @namespace, @name, @enabled, @scope, @scope_id, @period,
+            @limit_tokens, @limit_usd, @action, @created_at, @updated_at
+        )
+    `).run({
+        id,
+        namespace,
+        name: fields.name,
+        enabled: fields.enabled ? 1 : 0,
+        scope: fields.scope,
+        scope_id: fields.scopeId,
+        period: fields.period,
+        limit_tokens: fields.limitTokens,
+        limit_usd: fields.limitUsd,
+        action: fields.action,
+        created_at: now,
+        updated_at: now
+    })
+
+    const budget = getUsageBudget(db, id, namespace)
+    if (!budget) {
+        throw new Error('Failed to create usage budget')
+    }
+    return budget
+}
+
+export function updateUsageBudget(
+    db: Database,
+    id: string,
+    namespace: string,
+    fields: UsageBudgetFields
+): StoredUsageBudget | null {
+    const result = db.prepare(`
+        UPDATE usage_budgets
+        SET name = @name,
+            enabled = @enabled,
+            scope = @scope,
+            scope_id = @scope_id,
+            period = @period,
+            limit_tokens = @limit_tokens,
+            limit_usd = @limit_usd,
+            action = @action,
+            updated_at = @updated_at
+        WHERE id = @id AND namespace = @namespace
+    `).run({
+        id,
+        namespace,
+        name: fields.name,
+        enabled: fields.enabled ? 1 : 0,
+        scope: fields.scope,
+        scope_id: fields.scopeId,
+        period: fields.period,
+        limit_tokens: fields.limitTokens,
+        limit_usd: fields.limitUsd,
+        action: fields.action,
+        updated_at: Date.now()
+    })
+
+    if (result.changes === 0) {
+        return null
+    }
+    return getUsageBudget(db, id, namespace)
+}
+
+export function removeUsageBudget(db: Database, id: string, namespace: string): boolean {
+    const result = db.prepare(
+        'DELETE FROM usage_budgets WHERE id = ? AND namespace = ?'
+    ).run(id, namespace)
+    return result.changes > 0
+}
@@ -0,0 +1,68 @@
+import type { Database } from 'bun:sqlite'
+
+import type {
+    StoredUsageBudget,
+    StoredUsageDailyTotal,
+    StoredUsageModelTotal,
+    StoredUsageTotals
+} from './types'
+import {
+    addUsageBudget,
+    addUsageRecord,
+    getDailyUsage,
+    getUsageBudget,
+    getUsageBudgetsByNamespace,
+    getUsageByModel,
+    getUsageTotals,
+    removeUsageBudget,
+    updateUsageBudget,
+    type UsageBudgetFields,
+    type UsageFilters,
+    type UsageRecordFields
+} from './usage'
+
+export type { UsageBudgetFields, UsageFilters, UsageRecordFields } from './usage'
+
+export class UsageStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    addRecord(fields: UsageRecordFields): void {
+        addUsageRecord(this.db, fields)
+    }
+
+    getTotals(namespace: string, filters?: UsageFilters): StoredUsageTotals {
+        return getUsageTotals(this.db, namespace, filters)
+    }
+
+    getByModel(namespace: string, filters?: UsageFilters): StoredUsageModelTotal[] {
+        return getUsageByModel(this.db, namespace, filters)
+    }
+
+    getDaily(namespace: string, filters?: UsageFilters): StoredUsageDailyTotal[] {
+        return getDailyUsage(this.db, namespace, filters)
+    }
+
+    getBudget(id: string, namespace: string): StoredUsageBudget | null {
+        return getUsageBudget(this.db, id, namespace)
+    }
+
+    getBudgets(namespace: string): StoredUsageBudget[] {
+        return getUsageBudgetsByNamespace(this.db, namespace)
+    }
+
+    addBudget(namespace: string, fields: UsageBudgetFields): StoredUsageBudget {
+        return addUsageBudget(this.db, namespace, fields)
+    }
+
+    updateBudget(id: string, namespace: string, fields: UsageBudgetFields): StoredUsageBudget | null {
+        return updateUsageBudget(this.db, id, namespace, fields)
+    }
+
+    removeBudget(id: string, namespace: string): boolean {
+        return removeUsageBudget(this.db, id, namespace)
+    }
+}
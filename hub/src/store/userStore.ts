@@ -1,7 +1,20 @@
 import type { Database } from 'bun:sqlite'
 
 import type { StoredUser } from './types'
-import { addUser, getUser, getUsersByPlatform, getUsersByPlatformAndNamespace, removeUser } from './users'
+import {
+    addTokenUser,
+    addUser,
+    getUser,
+    getUserById,
+    getUserByTokenHash,
+    getUsersByNamespace,
+    getUsersByPlatform,
+    getUsersByPlatformAndNamespace,
+    removeUser,
+    removeUserById,
+    setUserTokenHash,
+    updateUser
+} from './users'
 
 export class UserStore {
     private readonly db: Database
@@ -14,6 +27,18 @@ export class UserStore {
         return getUser(this.db, platform, platformUserId)
     }
 
+    getUserById(id: number): StoredUser | null {
+        return getUserById(this.db, id)
+    }
+
+    getUserByTokenHash(tokenHash: string): StoredUser | null {
+        return getUserByTokenHash(this.db, tokenHash)
+    }
+
+    getUsersByNamespace(namespace: string): StoredUser[] {
+        return getUsersByNamespace(this.db, namespace)
+    }
+
     getUsersByPlatform(platform: string): StoredUser[] {
         return getUsersByPlatform(this.db, platform)
     }
@@ -29,4 +54,20 @@ export class UserStore {
     removeUser(platform: string, platformUserId: string): boolean {
         return removeUser(this.db, platform, platformUserId)
     }
+
+    addTokenUser(namespace: string, name: string, role: StoredUser['role'], tokenHash: string): StoredUser {
+        return addTokenUser(this.db, namespace, name, role, tokenHash)
+    }
+
+    updateUser(id: number, namespace: string, fields: { name?: string; role?: StoredUser['role'] }): StoredUser | null {
+        return updateUser(this.db, id, namespace, fields)
+    }
+
+    setUserTokenHash(id: number, namespace: string, tokenHash: string): boolean {
+        return setUserTokenHash(this.db, id, namespace, tokenHash)
+    }
+
+    removeUserById(id: number, namespace: string): boolean {
+        return removeUserById(this.db, id, namespace)
+    }
 }
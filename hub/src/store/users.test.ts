@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { hashUserToken } from '../utils/userToken'
+import { Store } from './index'
+
+describe('UserStore accounts', () => {
+    it('issues, looks up, updates and revokes token users per namespace', () => {
+        const store = new Store(':memory:')
+        const user = store.users.addTokenUser('alpha', 'Ada', 'viewer', hashUserToken('hapi_secret'))
+
+        expect(user).toMatchObject({ platform: 'token', namespace: 'alpha', name: 'Ada', role: 'viewer' })
+        expect(store.users.getUserByTokenHash(hashUserToken(' hapi_secret '))?.id).toBe(user.id)
+        expect(store.users.getUsersByNamespace('beta')).toHaveLength(0)
+
+        expect(store.users.updateUser(user.id, 'beta', { role: 'admin' })).toBeNull()
+        expect(store.users.updateUser(user.id, 'alpha', { role: 'operator' })?.role).toBe('operator')
+
+        expect(store.users.setUserTokenHash(user.id, 'alpha', hashUserToken('hapi_rotated'))).toBe(true)
+        expect(store.users.getUserByTokenHash(hashUserToken('hapi_secret'))).toBeNull()
+
+        expect(store.users.removeUserById(user.id, 'beta')).toBe(false)
+        expect(store.users.removeUserById(user.id, 'alpha')).toBe(true)
+        expect(store.users.getUserByTokenHash(hashUserToken('hapi_rotated'))).toBeNull()
+    })
+
+    it('keeps existing bindings as admins when upgrading the schema', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'hapi-users-'))
+        const path = join(dir, 'hapi.db')
+        try {
+            new Store(path).users.addUser('telegram', '42', 'default')
+
+            const db = new Database(path)
+            db.exec(`
+                DROP INDEX idx_users_token_hash;
+                ALTER TABLE users DROP COLUMN token_hash;
+                ALTER TABLE users DROP COLUMN role;
+                ALTER TABLE users DROP COLUMN name;
+                PRAGMA user_version = 5;
+            `)
+            db.close()
+
+            const upgraded = new Store(path)
+            expect(upgraded.users.getUser('telegram', '42')).toMatchObject({ role: 'admin', name: null })
+        } finally {
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+})
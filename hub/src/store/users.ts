@@ -1,4 +1,5 @@
 import type { Database } from 'bun:sqlite'
+import { randomUUID } from 'node:crypto'
 
 import type { StoredUser } from './types'
 
@@ -7,15 +8,26 @@ type DbUserRow = {
     platform: string
     platform_user_id: string
     namespace: string
+    name: string | null
+    role: string
+    token_hash: string | null
     created_at: number
 }
 
+export const TOKEN_USER_PLATFORM = 'token'
+
+function toRole(value: string): StoredUser['role'] {
+    return value === 'viewer' || value === 'operator' ? value : 'admin'
+}
+
 function toStoredUser(row: DbUserRow): StoredUser {
     return {
         id: row.id,
         platform: row.platform,
         platformUserId: row.platform_user_id,
         namespace: row.namespace,
+        name: row.name,
+        role: toRole(row.role),
         createdAt: row.created_at
     }
 }
@@ -27,6 +39,25 @@ export function getUser(db: Database, platform: string, platformUserId: string):
     return row ? toStoredUser(row) : null
 }
 
+export function getUserById(db: Database, id: number): StoredUser | null {
+    const row = db.prepare('SELECT * FROM users WHERE id = ? LIMIT 1').get(id) as DbUserRow | undefined
+    return row ? toStoredUser(row) : null
+}
+
+export function getUserByTokenHash(db: Database, tokenHash: string): StoredUser | null {
+    const row = db.prepare(
+        'SELECT * FROM users WHERE token_hash = ? LIMIT 1'
+    ).get(tokenHash) as DbUserRow | undefined
+    return row ? toStoredUser(row) : null
+}
+
+export function getUsersByNamespace(db: Database, namespace: string): StoredUser[] {
+    const rows = db.prepare(
+        'SELECT * FROM users WHERE namespace = ? ORDER BY created_at ASC, id ASC'
+    ).all(namespace) as DbUserRow[]
+    return rows.map(toStoredUser)
+}
+
 export function getUsersByPlatform(db: Database, platform: string): StoredUser[] {
     const rows = db.prepare(
         'SELECT * FROM users WHERE platform = ? ORDER BY created_at ASC'
@@ -78,3 +109,68 @@ export function removeUser(db: Database, platform: string, platformUserId: strin
     ).run(platform, platformUserId)
     return result.changes > 0
 }
+
+export function addTokenUser(
+    db: Database,
+    namespace: string,
+    name: string,
+    role: StoredUser['role'],
+    tokenHash: string
+): StoredUser {
+    const platformUserId = randomUUID()
+    db.prepare(`
+        INSERT INTO users (
+            platform, platform_user_id, namespace, name, role, token_hash, created_at
+        ) VALUES (
+            @platform, @platform_user_id, @namespace, @name, @role, @token_hash, @created_at
+        )
+    `).run({
+        platform: TOKEN_USER_PLATFORM,
+        platform_user_id: platformUserId,
+        namespace,
+        name,
+        role,
+        token_hash: tokenHash,
+        created_at: Date.now()
+    })
+
+    const row = getUser(db, TOKEN_USER_PLATFORM, platformUserId)
+    if (!row) {
+        throw new Error('Failed to create user')
+    }
+    return row
+}
+
+export function updateUser(
+    db: Database,
+    id: number,
+    namespace: string,
+    fields: { name?: string; role?: StoredUser['role'] }
+): StoredUser | null {
+    const existing = getUserById(db, id)
+    if (!existing || existing.namespace !== namespace) {
+        return null
+    }
+    db.prepare(
+        'UPDATE users SET name = @name, role = @role WHERE id = @id'
+    ).run({
+        id,
+        name: fields.name ?? existing.name,
+        role: fields.role ?? existing.role
+    })
+    return getUserById(db, id)
+}
+
+export function setUserTokenHash(db: Database, id: number, namespace: string, tokenHash: string): boolean {
+    const result = db.prepare(
+        'UPDATE users SET token_hash = ? WHERE id = ? AND namespace = ? AND platform = ?'
+    ).run(tokenHash, id, namespace, TOKEN_USER_PLATFORM)
+    return result.changes > 0
+}
+
+export function removeUserById(db: Database, id: number, namespace: string): boolean {
+    const result = db.prepare(
+        'DELETE FROM users WHERE id = ? AND namespace = ?'
+    ).run(id, namespace)
+    return result.changes > 0
+}
@@ -0,0 +1,137 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredWebhookDelivery } from './types'
+
+type DbWebhookDeliveryRow = {
+    id: number
+    namespace: string
+    webhook_url: string
+    event: string
+    session_id: string | null
+    machine_id: string | null
+    status: string
+    attempts: number
+    response_status: number | null
+    error: string | null
+    created_at: number
+    updated_at: number
+}
+
+export type WebhookDeliveryFields = Pick<StoredWebhookDelivery, 'namespace' | 'webhookUrl' | 'event' | 'sessionId' | 'machineId'>
+
+export type WebhookDeliveryAttempt = Pick<StoredWebhookDelivery, 'status' | 'attempts' | 'responseStatus' | 'error'>
+
+export type WebhookDeliveryFilters = {
+    status?: StoredWebhookDelivery['status']
+    // Keyset pagination: only deliveries with a smaller id
+    before?: number
+    limit?: number
+}
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+// The log is for troubleshooting, not an archive; older rows are dropped as new ones arrive
+const MAX_DELIVERIES = 5000
+
+function toStoredWebhookDelivery(row: DbWebhookDeliveryRow): StoredWebhookDelivery {
+    return {
+        id: row.id,
+        namespace: row.namespace,
+        webhookUrl: row.webhook_url,
+        event: row.event as StoredWebhookDelivery['event'],
+        sessionId: row.session_id,
+        machineId: row.machine_id,
+        status: row.status === 'delivered' || row.status === 'failed' ? row.status : 'pending',
+        attempts: row.attempts,
+        responseStatus: row.response_status,
+        error: row.error,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    }
+}
+
+export function addWebhookDelivery(db: Database, fields: WebhookDeliveryFields): StoredWebhookDelivery {
+    const now = Date.now()
+    const result = db.prepare(`
+        INSERT INTO webhook_deliveries (
+            namespace, webhook_url, event, session_id, machine_id,
+            status, attempts, created_at, updated_at
+        ) VALUES (
+            @namespace, @webhook_url, @event, @session_id, @machine_id,
+            'pending', 0, @created_at, @updated_at
+        )
+    `).run({
+        namespace: fields.namespace,
+        webhook_url: fields.webhookUrl,
+        event: fields.event,
+        session_id: fields.sessionId,
+        machine_id: fields.machineId,
+        created_at: now,
+        updated_at: now
+    })
+
+    const id = Number(result.lastInsertRowid)
+    db.prepare('DELETE FROM webhook_deliveries WHERE id <= ?').run(id - MAX_DELIVERIES)
+
+    const row = db.prepare(
+        'SELECT * FROM webhook_deliveries WHERE id = ? LIMIT 1'
+    ).get(id) as DbWebhookDeliveryRow | undefined
+    if (!row) {
+        throw new Error('Failed to record webhook delivery')
+    }
+    return toStoredWebhookDelivery(row)
+}
+
+export function updateWebhookDeliveryAttempt(db: Database, id: number, attempt: WebhookDeliveryAttempt): void {
+    db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = @status,
+            attempts = @attempts,
+            response_status = @response_status,
+            error = @error,
+            updated_at = @updated_at
+        WHERE id = @id
+    `).run({
+        id,
+        status: attempt.status,
+        attempts: attempt.attempts,
+        response_status: attempt.responseStatus,
+        error: attempt.error,
+        updated_at: Date.now()
+    })
+}
+
+export function failPendingWebhookDeliveries(db: Database, error: string): number {
+    const result = db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'failed', error = ?, updated_at = ?
+        WHERE status = 'pending'
+    `).run(error, Date.now())
+    return result.changes
+}
+
+export function getWebhookDeliveries(
+    db: Database,
+    namespace: string,
+    filters: WebhookDeliveryFilters = {}
+): StoredWebhookDelivery[] {
+    const conditions = ['namespace = ?']
+    const params: Array<string | number> = [namespace]
+
+    if (filters.status) {
+        conditions.push('status = ?')
+        params.push(filters.status)
+    }
+    if (filters.before !== undefined) {
+        conditions.push('id < ?')
+        params.push(filters.before)
+    }
+
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+    params.push(limit)
+
+    const rows = db.prepare(
+        `SELECT * FROM webhook_deliveries WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ?`
+    ).all(...params) as DbWebhookDeliveryRow[]
+    return rows.map(toStoredWebhookDelivery)
+}
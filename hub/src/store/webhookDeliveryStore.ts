@@ -0,0 +1,38 @@
+import type { Database } from 'bun:sqlite'
+
+import type { StoredWebhookDelivery } from './types'
+import {
+    addWebhookDelivery,
+    failPendingWebhookDeliveries,
+    getWebhookDeliveries,
+    updateWebhookDeliveryAttempt,
+    type WebhookDeliveryAttempt,
+    type WebhookDeliveryFields,
+    type WebhookDeliveryFilters
+} from './webhookDeliveries'
+
+export type { WebhookDeliveryAttempt, WebhookDeliveryFields, WebhookDeliveryFilters } from './webhookDeliveries'
+
+export class WebhookDeliveryStore {
+    private readonly db: Database
+
+    constructor(db: Database) {
+        this.db = db
+    }
+
+    addDelivery(fields: WebhookDeliveryFields): StoredWebhookDelivery {
+        return addWebhookDelivery(this.db, fields)
+    }
+
+    recordAttempt(id: number, attempt: WebhookDeliveryAttempt): void {
+        updateWebhookDeliveryAttempt(this.db, id, attempt)
+    }
+
+    failPending(error: string): number {
+        return failPendingWebhookDeliveries(this.db, error)
+    }
+
+    getDeliveries(namespace: string, filters?: WebhookDeliveryFilters): StoredWebhookDelivery[] {
+        return getWebhookDeliveries(this.db, namespace, filters)
+    }
+}
@@ -1,3 +1,4 @@
+import { AcpAgentInfoSchema, type AcpAgentInfo } from '@hapi/protocol/schemas'
 import { z } from 'zod'
 import type { Store } from '../store'
 import { clampAliveTime } from './aliveTime'
@@ -10,7 +11,8 @@ const machineMetadataSchema = z.object({
     displayName: z.string().optional(),
     homeDir: z.string().optional(),
     happyHomeDir: z.string().optional(),
-    happyLibDir: z.string().optional()
+    happyLibDir: z.string().optional(),
+    acpAgents: z.array(z.unknown()).optional()
 })
 
 export interface Machine {
@@ -29,6 +31,7 @@ export interface Machine {
         homeDir?: string
         happyHomeDir?: string
         happyLibDir?: string
+        acpAgents?: AcpAgentInfo[]
     } | null
     metadataVersion: number
     runnerState: unknown | null
@@ -101,7 +104,12 @@ export class MachineCache {
             const homeDir = typeof data.homeDir === 'string' ? data.homeDir : undefined
             const happyHomeDir = typeof data.happyHomeDir === 'string' ? data.happyHomeDir : undefined
             const happyLibDir = typeof data.happyLibDir === 'string' ? data.happyLibDir : undefined
-            return { host, platform, happyCliVersion, displayName, homeDir, happyHomeDir, happyLibDir }
+            // Drop malformed entries rather than the whole metadata
+            const acpAgents = data.acpAgents?.flatMap((entry) => {
+                const agent = AcpAgentInfoSchema.safeParse(entry)
+                return agent.success ? [agent.data] : []
+            })
+            return { host, platform, happyCliVersion, displayName, homeDir, happyHomeDir, happyLibDir, acpAgents }
         })()
 
         const storedActiveAt = stored.activeAt ?? stored.createdAt
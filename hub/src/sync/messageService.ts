@@ -69,7 +69,7 @@ export class MessageService {
             text: string
             localId?: string | null
             attachments?: AttachmentMetadata[]
-            sentFrom?: 'telegram-bot' | 'webapp'
+            sentFrom?: 'telegram-bot' | 'webapp' | 'scheduler' | 'template'
         }
     ): Promise<void> {
         const sentFrom = payload.sentFrom ?? 'webapp'
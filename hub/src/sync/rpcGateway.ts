@@ -1,4 +1,5 @@
-import type { ModelMode, PermissionMode } from '@hapi/protocol/types'
+import type { TerminalRecordingSummary, TerminalSummary } from '@hapi/protocol'
+import type { ModelMode, PermissionMode, SpawnAgent } from '@hapi/protocol/types'
 import type { Server } from 'socket.io'
 import type { RpcRegistry } from '../socket/rpcRegistry'
 
@@ -13,9 +14,27 @@ export type RpcCommandResponse = {
 export type RpcReadFileResponse = {
     success: boolean
     content?: string
+    hash?: string
     error?: string
 }
 
+export type RpcWriteFileResponse = {
+    success: boolean
+    hash?: string
+    error?: string
+    conflict?: boolean
+    currentHash?: string | null
+}
+
+export type RpcStructuredDiffResponse = {
+    success: boolean
+    stdout?: string
+    oldContent?: string
+    newContent?: string
+    error?: string
+    unavailable?: boolean
+}
+
 export type RpcUploadFileResponse = {
     success: boolean
     path?: string
@@ -27,6 +46,36 @@ export type RpcDeleteUploadResponse = {
     error?: string
 }
 
+export type RpcHandoffFile = {
+    path: string
+    size: number
+}
+
+export type RpcHandoffExportResponse = {
+    success: boolean
+    files?: RpcHandoffFile[]
+    error?: string
+}
+
+export type RpcHandoffReadResponse = {
+    success: boolean
+    content?: string
+    size?: number
+    eof?: boolean
+    error?: string
+}
+
+export type RpcHandoffResponse = {
+    success: boolean
+    files?: number
+    error?: string
+}
+
+export type RpcQueueResponse = {
+    success: boolean
+    error?: string
+}
+
 export type RpcDirectoryEntry = {
     name: string
     type: 'file' | 'directory' | 'other'
@@ -69,7 +118,8 @@ export class RpcGateway {
         mode?: PermissionMode,
         allowTools?: string[],
         decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort',
-        answers?: Record<string, string[]> | Record<string, { answers: string[] }>
+        answers?: Record<string, string[]> | Record<string, { answers: string[] }>,
+        reason?: string
     ): Promise<void> {
         await this.sessionRpc(sessionId, 'permission', {
             id: requestId,
@@ -77,35 +127,63 @@ export class RpcGateway {
             mode,
             allowTools,
             decision,
-            answers
+            answers,
+            reason
         })
     }
 
     async denyPermission(
         sessionId: string,
         requestId: string,
-        decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort'
+        decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort',
+        reason?: string
     ): Promise<void> {
         await this.sessionRpc(sessionId, 'permission', {
             id: requestId,
             approved: false,
-            decision
+            decision,
+            reason
         })
     }
 
-    async abortSession(sessionId: string): Promise<void> {
-        await this.sessionRpc(sessionId, 'abort', { reason: 'User aborted via Telegram Bot' })
+    // preserveQueue interrupts the turn but keeps the queued prompts (queue "send now")
+    async abortSession(sessionId: string, options?: { preserveQueue?: boolean }): Promise<void> {
+        await this.sessionRpc(sessionId, 'abort', {
+            reason: 'User aborted via Telegram Bot',
+            ...(options?.preserveQueue ? { preserveQueue: true } : {})
+        })
     }
 
     async switchSession(sessionId: string, to: 'remote' | 'local'): Promise<void> {
         await this.sessionRpc(sessionId, 'switch', { to })
     }
 
+    async editQueuedPrompt(sessionId: string, id: string, text: string): Promise<RpcQueueResponse> {
+        return await this.sessionRpc(sessionId, 'queue-edit', { id, text }) as RpcQueueResponse
+    }
+
+    async deleteQueuedPrompt(sessionId: string, id: string): Promise<RpcQueueResponse> {
+        return await this.sessionRpc(sessionId, 'queue-delete', { id }) as RpcQueueResponse
+    }
+
+    async reorderQueuedPrompts(sessionId: string, ids: string[]): Promise<RpcQueueResponse> {
+        return await this.sessionRpc(sessionId, 'queue-reorder', { ids }) as RpcQueueResponse
+    }
+
+    async prioritizeQueuedPrompt(sessionId: string, id: string): Promise<RpcQueueResponse> {
+        return await this.sessionRpc(sessionId, 'queue-prioritize', { id }) as RpcQueueResponse
+    }
+
+    async setQueueMerge(sessionId: string, merge: boolean): Promise<RpcQueueResponse> {
+        return await this.sessionRpc(sessionId, 'queue-merge', { merge }) as RpcQueueResponse
+    }
+
     async requestSessionConfig(
         sessionId: string,
         config: {
             permissionMode?: PermissionMode
             modelMode?: ModelMode
+            reasoningEffort?: string | null
         }
     ): Promise<unknown> {
         return await this.sessionRpc(sessionId, 'set-session-config', config)
@@ -118,7 +196,7 @@ export class RpcGateway {
     async spawnSession(
         machineId: string,
         directory: string,
-        agent: 'claude' | 'codex' | 'gemini' | 'opencode' = 'claude',
+        agent: SpawnAgent = 'claude',
         model?: string,
         yolo?: boolean,
         sessionType?: 'simple' | 'worktree',
@@ -146,6 +224,35 @@ export class RpcGateway {
         }
     }
 
+    async exportAgentSession(machineId: string, flavor: string, resumeId: string, directory: string): Promise<RpcHandoffExportResponse> {
+        return await this.machineRpc(machineId, 'handoff-export', { flavor, resumeId, directory }) as RpcHandoffExportResponse
+    }
+
+    async readAgentSessionChunk(
+        machineId: string,
+        options: { flavor: string; directory: string; path: string; offset: number }
+    ): Promise<RpcHandoffReadResponse> {
+        return await this.machineRpc(machineId, 'handoff-read', options) as RpcHandoffReadResponse
+    }
+
+    async stageAgentSessionChunk(
+        machineId: string,
+        options: { transferId: string; path: string; offset: number; content: string }
+    ): Promise<RpcHandoffResponse> {
+        return await this.machineRpc(machineId, 'handoff-stage', options) as RpcHandoffResponse
+    }
+
+    async restoreAgentSession(
+        machineId: string,
+        options: { transferId: string; flavor: string; sourceDirectory: string; targetDirectory: string }
+    ): Promise<RpcHandoffResponse> {
+        return await this.machineRpc(machineId, 'handoff-restore', options) as RpcHandoffResponse
+    }
+
+    async discardAgentSessionTransfer(machineId: string, transferId: string): Promise<RpcHandoffResponse> {
+        return await this.machineRpc(machineId, 'handoff-discard', { transferId }) as RpcHandoffResponse
+    }
+
     async checkPathsExist(machineId: string, paths: string[]): Promise<Record<string, boolean>> {
         const result = await this.machineRpc(machineId, 'path-exists', { paths }) as RpcPathExistsResponse | unknown
         if (!result || typeof result !== 'object') {
@@ -184,10 +291,70 @@ export class RpcGateway {
         return await this.sessionRpc(sessionId, 'git-diff-file', options) as RpcCommandResponse
     }
 
+    async stageGitPaths(sessionId: string, options: { cwd?: string; paths: string[] }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-stage', options) as RpcCommandResponse
+    }
+
+    async unstageGitPaths(sessionId: string, options: { cwd?: string; paths: string[] }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-unstage', options) as RpcCommandResponse
+    }
+
+    async discardGitChanges(sessionId: string, options: { cwd?: string; paths?: string[]; untrackedPaths?: string[] }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-discard', options) as RpcCommandResponse
+    }
+
+    async applyGitPatch(sessionId: string, options: { cwd?: string; patch: string; mode: 'stage' | 'unstage' | 'discard' }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-apply-patch', options) as RpcCommandResponse
+    }
+
+    async commitGit(sessionId: string, options: { cwd?: string; message: string; amend?: boolean }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-commit', options) as RpcCommandResponse
+    }
+
+    async getGitBranches(sessionId: string, options: { cwd?: string }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-branches', options) as RpcCommandResponse
+    }
+
+    async createGitBranch(sessionId: string, options: { cwd?: string; name: string; checkout?: boolean }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-create-branch', options) as RpcCommandResponse
+    }
+
+    async switchGitBranch(sessionId: string, options: { cwd?: string; name: string }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-switch-branch', options) as RpcCommandResponse
+    }
+
+    async pushGit(sessionId: string, options: { cwd?: string; setUpstream?: boolean; remote?: string }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-push', options) as RpcCommandResponse
+    }
+
+    async pullGit(sessionId: string, options: { cwd?: string }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-pull', options) as RpcCommandResponse
+    }
+
+    async fetchGit(sessionId: string, options: { cwd?: string }): Promise<RpcCommandResponse> {
+        return await this.sessionRpc(sessionId, 'git-fetch', options) as RpcCommandResponse
+    }
+
+    async getStructuredDiff(
+        sessionId: string,
+        options: { cwd?: string; filePath: string; staged?: boolean } | { fileName: string; oldContent: string; newContent: string }
+    ): Promise<RpcStructuredDiffResponse> {
+        return await this.sessionRpc(sessionId, 'difftastic-structured', options) as RpcStructuredDiffResponse
+    }
+
     async readSessionFile(sessionId: string, path: string): Promise<RpcReadFileResponse> {
         return await this.sessionRpc(sessionId, 'readFile', { path }) as RpcReadFileResponse
     }
 
+    async writeSessionFile(
+        sessionId: string,
+        path: string,
+        content: string,
+        expectedHash: string | null
+    ): Promise<RpcWriteFileResponse> {
+        return await this.sessionRpc(sessionId, 'writeFile', { path, content, expectedHash }) as RpcWriteFileResponse
+    }
+
     async listDirectory(sessionId: string, path: string): Promise<RpcListDirectoryResponse> {
         return await this.sessionRpc(sessionId, 'listDirectory', { path }) as RpcListDirectoryResponse
     }
@@ -228,6 +395,74 @@ export class RpcGateway {
         }
     }
 
+    async listTerminals(sessionId: string): Promise<{
+        success: boolean
+        terminals?: TerminalSummary[]
+        error?: string
+    }> {
+        return await this.sessionRpc(sessionId, 'terminal-list', {}) as {
+            success: boolean
+            terminals?: TerminalSummary[]
+            error?: string
+        }
+    }
+
+    async listTerminalRecordings(sessionId: string): Promise<{
+        success: boolean
+        recordings?: TerminalRecordingSummary[]
+        error?: string
+    }> {
+        return await this.sessionRpc(sessionId, 'terminal-recordings-list', {}) as {
+            success: boolean
+            recordings?: TerminalRecordingSummary[]
+            error?: string
+        }
+    }
+
+    async readTerminalRecordingChunk(sessionId: string, recordingId: string, offset: number): Promise<{
+        success: boolean
+        content?: string
+        size?: number
+        eof?: boolean
+        error?: string
+    }> {
+        return await this.sessionRpc(sessionId, 'terminal-recording-read', { recordingId, offset }) as {
+            success: boolean
+            content?: string
+            size?: number
+            eof?: boolean
+            error?: string
+        }
+    }
+
+    async listMachineTerminalRecordings(machineId: string, sessionId: string): Promise<{
+        success: boolean
+        recordings?: TerminalRecordingSummary[]
+        error?: string
+    }> {
+        return await this.machineRpc(machineId, 'session-recordings-list', { sessionId }) as {
+            success: boolean
+            recordings?: TerminalRecordingSummary[]
+            error?: string
+        }
+    }
+
+    async readMachineTerminalRecordingChunk(machineId: string, sessionId: string, recordingId: string, offset: number): Promise<{
+        success: boolean
+        content?: string
+        size?: number
+        eof?: boolean
+        error?: string
+    }> {
+        return await this.machineRpc(machineId, 'session-recording-read', { sessionId, recordingId, offset }) as {
+            success: boolean
+            content?: string
+            size?: number
+            eof?: boolean
+            error?: string
+        }
+    }
+
     private async sessionRpc(sessionId: string, method: string, params: unknown): Promise<unknown> {
         return await this.rpcCall(`${sessionId}:${method}`, params)
     }
@@ -1,5 +1,5 @@
 import { AgentStateSchema, MetadataSchema } from '@hapi/protocol/schemas'
-import type { ModelMode, PermissionMode, Session } from '@hapi/protocol/types'
+import type { ModelCatalog, ModelMode, PermissionMode, Session } from '@hapi/protocol/types'
 import type { Store } from '../store'
 import { clampAliveTime } from './aliveTime'
 import { EventPublisher } from './eventPublisher'
@@ -51,6 +51,24 @@ export class SessionCache {
         return { ok: false, reason: 'not-found' }
     }
 
+    /**
+     * The model catalog last reported by a session of this flavor on the
+     * machine, so a model can be picked before spawning another one.
+     */
+    getLatestModelCatalog(namespace: string, machineId: string, flavor: string): ModelCatalog | null {
+        let latest: Session | null = null
+        for (const session of this.getSessionsByNamespace(namespace)) {
+            const metadata = session.metadata
+            if (!metadata?.modelCatalog || metadata.machineId !== machineId || (metadata.flavor ?? 'claude') !== flavor) {
+                continue
+            }
+            if (!latest || session.activeAt > latest.activeAt) {
+                latest = session
+            }
+        }
+        return latest?.metadata?.modelCatalog ?? null
+    }
+
     getActiveSessions(): Session[] {
         return this.getSessions().filter((session) => session.active)
     }
@@ -63,9 +81,10 @@ export class SessionCache {
     refreshSession(sessionId: string): Session | null {
         let stored = this.store.sessions.getSession(sessionId)
         if (!stored) {
-            const existed = this.sessions.delete(sessionId)
-            if (existed) {
-                this.publisher.emit({ type: 'session-removed', sessionId })
+            const removed = this.sessions.get(sessionId)
+            if (removed) {
+                this.sessions.delete(sessionId)
+                this.publisher.emit({ type: 'session-removed', sessionId, namespace: removed.namespace })
             }
             return null
         }
@@ -120,7 +139,8 @@ export class SessionCache {
             thinkingAt: existing?.thinkingAt ?? 0,
             todos,
             permissionMode: existing?.permissionMode,
-            modelMode: existing?.modelMode
+            modelMode: existing?.modelMode,
+            reasoningEffort: existing?.reasoningEffort
         }
 
         this.sessions.set(sessionId, session)
@@ -142,6 +162,7 @@ export class SessionCache {
         mode?: 'local' | 'remote'
         permissionMode?: PermissionMode
         modelMode?: ModelMode
+        reasoningEffort?: string
     }): void {
         const t = clampAliveTime(payload.time)
         if (!t) return
@@ -153,6 +174,7 @@ export class SessionCache {
         const wasThinking = session.thinking
         const previousPermissionMode = session.permissionMode
         const previousModelMode = session.modelMode
+        const previousReasoningEffort = session.reasoningEffort
 
         session.active = true
         session.activeAt = Math.max(session.activeAt, t)
@@ -164,10 +186,15 @@ export class SessionCache {
         if (payload.modelMode !== undefined) {
             session.modelMode = payload.modelMode
         }
+        if (payload.reasoningEffort !== undefined) {
+            session.reasoningEffort = payload.reasoningEffort
+        }
 
         const now = Date.now()
         const lastBroadcastAt = this.lastBroadcastAtBySessionId.get(session.id) ?? 0
-        const modeChanged = previousPermissionMode !== session.permissionMode || previousModelMode !== session.modelMode
+        const modeChanged = previousPermissionMode !== session.permissionMode
+            || previousModelMode !== session.modelMode
+            || previousReasoningEffort !== session.reasoningEffort
         const shouldBroadcast = (!wasActive && session.active)
             || (wasThinking !== session.thinking)
             || modeChanged
@@ -182,7 +209,8 @@ export class SessionCache {
                     activeAt: session.activeAt,
                     thinking: session.thinking,
                     permissionMode: session.permissionMode,
-                    modelMode: session.modelMode
+                    modelMode: session.modelMode,
+                    reasoningEffort: session.reasoningEffort
                 }
             })
         }
@@ -217,7 +245,10 @@ export class SessionCache {
         }
     }
 
-    applySessionConfig(sessionId: string, config: { permissionMode?: PermissionMode; modelMode?: ModelMode }): void {
+    applySessionConfig(
+        sessionId: string,
+        config: { permissionMode?: PermissionMode; modelMode?: ModelMode; reasoningEffort?: string | null }
+    ): void {
         const session = this.sessions.get(sessionId) ?? this.refreshSession(sessionId)
         if (!session) {
             return
@@ -229,6 +260,9 @@ export class SessionCache {
         if (config.modelMode !== undefined) {
             session.modelMode = config.modelMode
         }
+        if (config.reasoningEffort !== undefined) {
+            session.reasoningEffort = config.reasoningEffort ?? undefined
+        }
 
         this.publisher.emit({ type: 'session-updated', sessionId, data: session })
     }
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'bun:test'
+import type { RpcGateway } from './rpcGateway'
+import { transferAgentSession, type AgentSessionTransfer } from './sessionHandoff'
+
+const CHUNK_BYTES = 4
+
+class FakeGateway {
+    readonly files = new Map<string, Buffer>([
+        ['abc.jsonl', Buffer.from('0123456789')],
+        ['abc/sub.jsonl', Buffer.from('')]
+    ])
+    readonly staged = new Map<string, Buffer>()
+    readonly calls: string[] = []
+    restored = false
+    discarded = false
+    failStage = false
+
+    async exportAgentSession() {
+        this.calls.push('export')
+        return {
+            success: true,
+            files: [...this.files].map(([path, content]) => ({ path, size: content.length }))
+        }
+    }
+
+    async readAgentSessionChunk(_machineId: string, options: { path: string; offset: number }) {
+        const content = this.files.get(options.path)!
+        const chunk = content.subarray(options.offset, options.offset + CHUNK_BYTES)
+        return {
+            success: true,
+            content: chunk.toString('base64'),
+            size: content.length,
+            eof: options.offset + chunk.length >= content.length
+        }
+    }
+
+    async stageAgentSessionChunk(machineId: string, options: { path: string; offset: number; content: string }) {
+        this.calls.push(`stage:${machineId}:${options.path}@${options.offset}`)
+        if (this.failStage) {
+            return { success: false, error: 'disk full' }
+        }
+        const previous = options.offset === 0 ? Buffer.alloc(0) : this.staged.get(options.path)!
+        this.staged.set(options.path, Buffer.concat([previous, Buffer.from(options.content, 'base64')]))
+        return { success: true }
+    }
+
+    async restoreAgentSession(machineId: string, options: { sourceDirectory: string; targetDirectory: string }) {
+        this.calls.push(`restore:${machineId}:${options.sourceDirectory}->${options.targetDirectory}`)
+        this.restored = true
+        return { success: true, files: this.staged.size }
+    }
+
+    async discardAgentSessionTransfer() {
+        this.discarded = true
+        return { success: true }
+    }
+}
+
+const transfer: AgentSessionTransfer = {
+    sourceMachineId: 'laptop',
+    targetMachineId: 'desktop',
+    flavor: 'claude',
+    resumeId: 'abc',
+    sourceDirectory: '/work/repo',
+    targetDirectory: '/home/me/repo'
+}
+
+function run(gateway: FakeGateway) {
+    return transferAgentSession(gateway as unknown as RpcGateway, transfer)
+}
+
+describe('transferAgentSession', () => {
+    it('streams every file in chunks to the target, then restores it', async () => {
+        const gateway = new FakeGateway()
+        const files = await run(gateway)
+
+        expect(files).toBe(2)
+        expect(gateway.staged.get('abc.jsonl')?.toString()).toBe('0123456789')
+        expect(gateway.staged.get('abc/sub.jsonl')?.length).toBe(0)
+        expect(gateway.calls).toEqual([
+            'export',
+            'stage:desktop:abc.jsonl@0',
+            'stage:desktop:abc.jsonl@4',
+            'stage:desktop:abc.jsonl@8',
+            'stage:desktop:abc/sub.jsonl@0',
+            'restore:desktop:/work/repo->/home/me/repo'
+        ])
+    })
+
+    it('discards the staged files when a chunk cannot be copied', async () => {
+        const gateway = new FakeGateway()
+        gateway.failStage = true
+
+        await expect(run(gateway)).rejects.toThrow('disk full')
+        expect(gateway.restored).toBe(false)
+        expect(gateway.discarded).toBe(true)
+    })
+
+    it('fails before staging when the source cannot list the session', async () => {
+        const gateway = new FakeGateway()
+        gateway.exportAgentSession = async () => ({ success: false, error: 'No claude session files found for abc' } as never)
+
+        await expect(run(gateway)).rejects.toThrow('No claude session files found')
+        expect(gateway.discarded).toBe(false)
+    })
+})
@@ -0,0 +1,82 @@
+import { randomUUID } from 'node:crypto'
+import type { RpcGateway } from './rpcGateway'
+
+type HandoffGateway = Pick<
+    RpcGateway,
+    'exportAgentSession' | 'readAgentSessionChunk' | 'stageAgentSessionChunk' | 'restoreAgentSession' | 'discardAgentSessionTransfer'
+>
+
+export type AgentSessionTransfer = {
+    sourceMachineId: string
+    targetMachineId: string
+    flavor: 'claude' | 'codex' | 'opencode'
+    resumeId: string
+    sourceDirectory: string
+    targetDirectory: string
+}
+
+/**
+ * Copies an agent session's native files from one machine to another. The
+ * files are streamed chunk by chunk (each chunk stays well below the socket
+ * message limit) into a staging directory on the target, then restored in
+ * one step so a failed transfer never leaves a partial transcript behind.
+ * Returns the number of files copied; throws when any step fails.
+ */
+export async function transferAgentSession(gateway: HandoffGateway, transfer: AgentSessionTransfer): Promise<number> {
+    const exported = await gateway.exportAgentSession(
+        transfer.sourceMachineId,
+        transfer.flavor,
+        transfer.resumeId,
+        transfer.sourceDirectory
+    )
+    if (!exported.success || !exported.files) {
+        throw new Error(exported.error ?? 'Failed to read the session files')
+    }
+
+    const transferId = randomUUID()
+    try {
+        for (const file of exported.files) {
+            let offset = 0
+            for (;;) {
+                const chunk = await gateway.readAgentSessionChunk(transfer.sourceMachineId, {
+                    flavor: transfer.flavor,
+                    directory: transfer.sourceDirectory,
+                    path: file.path,
+                    offset
+                })
+                if (!chunk.success || chunk.content === undefined) {
+                    throw new Error(chunk.error ?? `Failed to read ${file.path}`)
+                }
+
+                const staged = await gateway.stageAgentSessionChunk(transfer.targetMachineId, {
+                    transferId,
+                    path: file.path,
+                    offset,
+                    content: chunk.content
+                })
+                if (!staged.success) {
+                    throw new Error(staged.error ?? `Failed to copy ${file.path}`)
+                }
+
+                offset += Buffer.byteLength(chunk.content, 'base64')
+                if (chunk.eof || chunk.content.length === 0) {
+                    break
+                }
+            }
+        }
+
+        const restored = await gateway.restoreAgentSession(transfer.targetMachineId, {
+            transferId,
+            flavor: transfer.flavor,
+            sourceDirectory: transfer.sourceDirectory,
+            targetDirectory: transfer.targetDirectory
+        })
+        if (!restored.success) {
+            throw new Error(restored.error ?? 'Failed to restore the session files')
+        }
+        return restored.files ?? exported.files.length
+    } catch (error) {
+        await gateway.discardAgentSessionTransfer(transfer.targetMachineId, transferId).catch(() => {})
+        throw error
+    }
+}
@@ -0,0 +1,19 @@
+import { getAcpAgentName, isAcpAgentFlavor } from '@hapi/protocol'
+import type { SpawnAgent } from '@hapi/protocol/types'
+import type { Machine } from './machineCache'
+
+/**
+ * Returns why the machine cannot spawn the agent, or null if it can. Built-in
+ * agents always can; an ACP agent has to be declared in the machine's
+ * metadata.
+ */
+export function getSpawnAgentError(machine: Pick<Machine, 'metadata'>, agent: SpawnAgent | undefined): string | null {
+    if (!isAcpAgentFlavor(agent)) {
+        return null
+    }
+    const name = getAcpAgentName(agent)
+    if (machine.metadata?.acpAgents?.some((acpAgent) => acpAgent.name === name)) {
+        return null
+    }
+    return `Agent ${name} is not configured on this machine`
+}
@@ -7,7 +7,8 @@
  * - No E2E encryption; data is stored as JSON in SQLite
  */
 
-import type { DecryptedMessage, ModelMode, PermissionMode, Session, SyncEvent } from '@hapi/protocol/types'
+import type { TerminalRecordingSummary, TerminalSummary } from '@hapi/protocol'
+import type { DecryptedMessage, Metadata, ModelCatalog, ModelMode, PermissionMode, Session, SpawnAgent, SyncEvent } from '@hapi/protocol/types'
 import type { Server } from 'socket.io'
 import type { Store } from '../store'
 import type { RpcRegistry } from '../socket/rpcRegistry'
@@ -21,10 +22,14 @@ import {
     type RpcDeleteUploadResponse,
     type RpcListDirectoryResponse,
     type RpcPathExistsResponse,
+    type RpcQueueResponse,
     type RpcReadFileResponse,
-    type RpcUploadFileResponse
+    type RpcStructuredDiffResponse,
+    type RpcUploadFileResponse,
+    type RpcWriteFileResponse
 } from './rpcGateway'
 import { SessionCache } from './sessionCache'
+import { transferAgentSession } from './sessionHandoff'
 
 export type { Session, SyncEvent } from '@hapi/protocol/types'
 export type { Machine } from './machineCache'
@@ -34,14 +39,21 @@ export type {
     RpcDeleteUploadResponse,
     RpcListDirectoryResponse,
     RpcPathExistsResponse,
+    RpcQueueResponse,
     RpcReadFileResponse,
-    RpcUploadFileResponse
+    RpcStructuredDiffResponse,
+    RpcUploadFileResponse,
+    RpcWriteFileResponse
 } from './rpcGateway'
 
 export type ResumeSessionResult =
     | { type: 'success'; sessionId: string }
     | { type: 'error'; message: string; code: 'session_not_found' | 'access_denied' | 'no_machine_online' | 'resume_unavailable' | 'resume_failed' }
 
+export type HandoffSessionResult =
+    | { type: 'success'; sessionId: string }
+    | { type: 'error'; message: string; code: 'session_not_found' | 'access_denied' | 'session_active' | 'machine_offline' | 'handoff_unavailable' | 'handoff_failed' }
+
 export class SyncEngine {
     private readonly eventPublisher: EventPublisher
     private readonly sessionCache: SessionCache
@@ -97,6 +109,10 @@ export class SyncEngine {
         return this.sessionCache.getSessionsByNamespace(namespace)
     }
 
+    getLatestModelCatalog(namespace: string, machineId: string, flavor: string): ModelCatalog | null {
+        return this.sessionCache.getLatestModelCatalog(namespace, machineId, flavor)
+    }
+
     getSession(sessionId: string): Session | undefined {
         return this.sessionCache.getSession(sessionId) ?? this.sessionCache.refreshSession(sessionId) ?? undefined
     }
@@ -188,6 +204,7 @@ export class SyncEngine {
         mode?: 'local' | 'remote'
         permissionMode?: PermissionMode
         modelMode?: ModelMode
+        reasoningEffort?: string
     }): void {
         this.sessionCache.handleSessionAlive(payload)
     }
@@ -231,7 +248,7 @@ export class SyncEngine {
                 path: string
                 previewUrl?: string
             }>
-            sentFrom?: 'telegram-bot' | 'webapp'
+            sentFrom?: 'telegram-bot' | 'webapp' | 'scheduler' | 'template'
         }
     ): Promise<void> {
         await this.messageService.sendMessage(sessionId, payload)
@@ -243,21 +260,23 @@ export class SyncEngine {
         mode?: PermissionMode,
         allowTools?: string[],
         decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort',
-        answers?: Record<string, string[]> | Record<string, { answers: string[] }>
+        answers?: Record<string, string[]> | Record<string, { answers: string[] }>,
+        reason?: string
     ): Promise<void> {
-        await this.rpcGateway.approvePermission(sessionId, requestId, mode, allowTools, decision, answers)
+        await this.rpcGateway.approvePermission(sessionId, requestId, mode, allowTools, decision, answers, reason)
     }
 
     async denyPermission(
         sessionId: string,
         requestId: string,
-        decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort'
+        decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort',
+        reason?: string
     ): Promise<void> {
-        await this.rpcGateway.denyPermission(sessionId, requestId, decision)
+        await this.rpcGateway.denyPermission(sessionId, requestId, decision, reason)
     }
 
-    async abortSession(sessionId: string): Promise<void> {
-        await this.rpcGateway.abortSession(sessionId)
+    async abortSession(sessionId: string, options?: { preserveQueue?: boolean }): Promise<void> {
+        await this.rpcGateway.abortSession(sessionId, options)
     }
 
     async archiveSession(sessionId: string): Promise<void> {
@@ -269,6 +288,26 @@ export class SyncEngine {
         await this.rpcGateway.switchSession(sessionId, to)
     }
 
+    async editQueuedPrompt(sessionId: string, id: string, text: string): Promise<RpcQueueResponse> {
+        return await this.rpcGateway.editQueuedPrompt(sessionId, id, text)
+    }
+
+    async deleteQueuedPrompt(sessionId: string, id: string): Promise<RpcQueueResponse> {
+        return await this.rpcGateway.deleteQueuedPrompt(sessionId, id)
+    }
+
+    async reorderQueuedPrompts(sessionId: string, ids: string[]): Promise<RpcQueueResponse> {
+        return await this.rpcGateway.reorderQueuedPrompts(sessionId, ids)
+    }
+
+    async prioritizeQueuedPrompt(sessionId: string, id: string): Promise<RpcQueueResponse> {
+        return await this.rpcGateway.prioritizeQueuedPrompt(sessionId, id)
+    }
+
+    async setQueueMerge(sessionId: string, merge: boolean): Promise<RpcQueueResponse> {
+        return await this.rpcGateway.setQueueMerge(sessionId, merge)
+    }
+
     async renameSession(sessionId: string, name: string): Promise<void> {
         await this.sessionCache.renameSession(sessionId, name)
     }
@@ -286,13 +325,20 @@ export class SyncEngine {
         config: {
             permissionMode?: PermissionMode
             modelMode?: ModelMode
+            reasoningEffort?: string | null
         }
     ): Promise<void> {
         const result = await this.rpcGateway.requestSessionConfig(sessionId, config)
         if (!result || typeof result !== 'object') {
             throw new Error('Invalid response from session config RPC')
         }
-        const obj = result as { applied?: { permissionMode?: Session['permissionMode']; modelMode?: Session['modelMode'] } }
+        const obj = result as {
+            applied?: {
+                permissionMode?: Session['permissionMode']
+                modelMode?: Session['modelMode']
+                reasoningEffort?: string | null
+            }
+        }
         const applied = obj.applied
         if (!applied || typeof applied !== 'object') {
             throw new Error('Missing applied session config')
@@ -304,7 +350,7 @@ export class SyncEngine {
     async spawnSession(
         machineId: string,
         directory: string,
-        agent: 'claude' | 'codex' | 'gemini' | 'opencode' = 'claude',
+        agent: SpawnAgent = 'claude',
         model?: string,
         yolo?: boolean,
         sessionType?: 'simple' | 'worktree',
@@ -366,6 +412,124 @@ export class SyncEngine {
             return { type: 'error', message: 'No machine online', code: 'no_machine_online' }
         }
 
+        const restarted = await this.restartSession(access.sessionId, namespace, metadata, {
+            machineId: targetMachine.id,
+            directory: metadata.path,
+            flavor,
+            resumeToken
+        })
+        if (restarted.type === 'error') {
+            return { type: 'error', message: restarted.message, code: 'resume_failed' }
+        }
+        return restarted
+    }
+
+    /**
+     * Moves an inactive session to another online machine: its agent-native
+     * transcript is copied from the session's machine to the target, then the
+     * agent is resumed there with its native resume id.
+     */
+    async handoffSession(
+        sessionId: string,
+        namespace: string,
+        targetMachineId: string,
+        directory?: string
+    ): Promise<HandoffSessionResult> {
+        const access = this.sessionCache.resolveSessionAccess(sessionId, namespace)
+        if (!access.ok) {
+            return {
+                type: 'error',
+                message: access.reason === 'access-denied' ? 'Session access denied' : 'Session not found',
+                code: access.reason === 'access-denied' ? 'access_denied' : 'session_not_found'
+            }
+        }
+
+        const session = access.session
+        if (session.active) {
+            return { type: 'error', message: 'Stop the session before handing it off', code: 'session_active' }
+        }
+
+        const metadata = session.metadata
+        if (!metadata || typeof metadata.path !== 'string') {
+            return { type: 'error', message: 'Session metadata missing path', code: 'handoff_unavailable' }
+        }
+
+        const flavor = metadata.flavor === 'codex' || metadata.flavor === 'gemini' || metadata.flavor === 'opencode'
+            ? metadata.flavor
+            : 'claude'
+        if (flavor === 'gemini') {
+            return { type: 'error', message: 'Handoff is not supported for Gemini sessions', code: 'handoff_unavailable' }
+        }
+        const resumeToken = flavor === 'codex'
+            ? metadata.codexSessionId
+            : flavor === 'opencode'
+                ? metadata.opencodeSessionId
+                : metadata.claudeSessionId
+        if (!resumeToken) {
+            return { type: 'error', message: 'Session has no agent transcript to hand off', code: 'handoff_unavailable' }
+        }
+
+        const onlineMachines = this.machineCache.getOnlineMachinesByNamespace(namespace)
+        const sourceMachine = metadata.machineId
+            ? onlineMachines.find((machine) => machine.id === metadata.machineId)
+            : undefined
+        if (!sourceMachine) {
+            return { type: 'error', message: 'The session\'s machine is offline', code: 'machine_offline' }
+        }
+        const targetMachine = onlineMachines.find((machine) => machine.id === targetMachineId)
+        if (!targetMachine) {
+            return { type: 'error', message: 'Target machine is offline', code: 'machine_offline' }
+        }
+        if (targetMachine.id === sourceMachine.id) {
+            return { type: 'error', message: 'Session is already on this machine', code: 'handoff_unavailable' }
+        }
+
+        const targetDirectory = directory?.trim() || metadata.path
+        try {
+            const exists = await this.rpcGateway.checkPathsExist(targetMachine.id, [targetDirectory])
+            if (!exists[targetDirectory]) {
+                return { type: 'error', message: `${targetDirectory} does not exist on the target machine`, code: 'handoff_unavailable' }
+            }
+            await transferAgentSession(this.rpcGateway, {
+                sourceMachineId: sourceMachine.id,
+                targetMachineId: targetMachine.id,
+                flavor,
+                resumeId: resumeToken,
+                sourceDirectory: metadata.path,
+                targetDirectory
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to copy the session'
+            return { type: 'error', message, code: 'handoff_failed' }
+        }
+
+        const restarted = await this.restartSession(access.sessionId, namespace, metadata, {
+            machineId: targetMachine.id,
+            directory: targetDirectory,
+            flavor,
+            resumeToken
+        })
+        if (restarted.type === 'error') {
+            return { type: 'error', message: restarted.message, code: 'handoff_failed' }
+        }
+        return restarted
+    }
+
+    /**
+     * Spawns a session that continues a stopped one and merges the old
+     * session into it
+     */
+    private async restartSession(
+        previousSessionId: string,
+        namespace: string,
+        metadata: Metadata,
+        target: {
+            machineId: string
+            directory: string
+            flavor: 'claude' | 'codex' | 'gemini' | 'opencode'
+            resumeToken: string | undefined
+        }
+    ): Promise<{ type: 'success'; sessionId: string } | { type: 'error'; message: string }> {
         // If no resume token available, spawn a fresh session instead of failing.
         // This is common for codex sessions where codexSessionId is not written back.
         const forkModel = metadata.forkModelMode || undefined
@@ -374,32 +538,32 @@ export class SyncEngine {
             || metadata.forkPermissionMode === 'safe-yolo'
             || undefined
 
-        const spawnResult = resumeToken
+        const spawnResult = target.resumeToken
             ? await this.rpcGateway.spawnSession(
-                targetMachine.id,
-                metadata.path,
-                flavor,
+                target.machineId,
+                target.directory,
+                target.flavor,
                 forkModel,
                 forkYolo,
                 undefined,
                 undefined,
-                resumeToken
+                target.resumeToken
             )
             : await this.rpcGateway.spawnSession(
-                targetMachine.id,
-                metadata.path,
-                flavor,
+                target.machineId,
+                target.directory,
+                target.flavor,
                 forkModel,
                 forkYolo
             )
 
         if (spawnResult.type !== 'success') {
-            return { type: 'error', message: spawnResult.message, code: 'resume_failed' }
+            return { type: 'error', message: spawnResult.message }
         }
 
         const becameActive = await this.waitForSessionActive(spawnResult.sessionId)
         if (!becameActive) {
-            return { type: 'error', message: 'Session failed to become active', code: 'resume_failed' }
+            return { type: 'error', message: 'Session failed to become active' }
         }
 
         // Apply forked model/permission config to the newly spawned session
@@ -418,12 +582,12 @@ export class SyncEngine {
             }
         }
 
-        if (spawnResult.sessionId !== access.sessionId) {
+        if (spawnResult.sessionId !== previousSessionId) {
             try {
-                await this.sessionCache.mergeSessions(access.sessionId, spawnResult.sessionId, namespace)
+                await this.sessionCache.mergeSessions(previousSessionId, spawnResult.sessionId, namespace)
             } catch (error) {
                 const message = error instanceof Error ? error.message : 'Failed to merge resumed session'
-                return { type: 'error', message, code: 'resume_failed' }
+                return { type: 'error', message }
             }
         }
 
@@ -472,10 +636,70 @@ export class SyncEngine {
         return await this.rpcGateway.getGitDiffFile(sessionId, options)
     }
 
+    async stageGitPaths(sessionId: string, options: { cwd?: string; paths: string[] }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.stageGitPaths(sessionId, options)
+    }
+
+    async unstageGitPaths(sessionId: string, options: { cwd?: string; paths: string[] }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.unstageGitPaths(sessionId, options)
+    }
+
+    async discardGitChanges(sessionId: string, options: { cwd?: string; paths?: string[]; untrackedPaths?: string[] }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.discardGitChanges(sessionId, options)
+    }
+
+    async applyGitPatch(sessionId: string, options: { cwd?: string; patch: string; mode: 'stage' | 'unstage' | 'discard' }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.applyGitPatch(sessionId, options)
+    }
+
+    async commitGit(sessionId: string, options: { cwd?: string; message: string; amend?: boolean }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.commitGit(sessionId, options)
+    }
+
+    async getGitBranches(sessionId: string, options: { cwd?: string }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.getGitBranches(sessionId, options)
+    }
+
+    async createGitBranch(sessionId: string, options: { cwd?: string; name: string; checkout?: boolean }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.createGitBranch(sessionId, options)
+    }
+
+    async switchGitBranch(sessionId: string, options: { cwd?: string; name: string }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.switchGitBranch(sessionId, options)
+    }
+
+    async pushGit(sessionId: string, options: { cwd?: string; setUpstream?: boolean; remote?: string }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.pushGit(sessionId, options)
+    }
+
+    async pullGit(sessionId: string, options: { cwd?: string }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.pullGit(sessionId, options)
+    }
+
+    async fetchGit(sessionId: string, options: { cwd?: string }): Promise<RpcCommandResponse> {
+        return await this.rpcGateway.fetchGit(sessionId, options)
+    }
+
+    async getStructuredDiff(
+        sessionId: string,
+        options: { cwd?: string; filePath: string; staged?: boolean } | { fileName: string; oldContent: string; newContent: string }
+    ): Promise<RpcStructuredDiffResponse> {
+        return await this.rpcGateway.getStructuredDiff(sessionId, options)
+    }
+
     async readSessionFile(sessionId: string, path: string): Promise<RpcReadFileResponse> {
         return await this.rpcGateway.readSessionFile(sessionId, path)
     }
 
+    async writeSessionFile(
+        sessionId: string,
+        path: string,
+        content: string,
+        expectedHash: string | null
+    ): Promise<RpcWriteFileResponse> {
+        return await this.rpcGateway.writeSessionFile(sessionId, path, content, expectedHash)
+    }
+
     async listDirectory(sessionId: string, path: string): Promise<RpcListDirectoryResponse> {
         return await this.rpcGateway.listDirectory(sessionId, path)
     }
@@ -507,4 +731,52 @@ export class SyncEngine {
     }> {
         return await this.rpcGateway.listSkills(sessionId)
     }
+
+    async listTerminals(sessionId: string): Promise<{
+        success: boolean
+        terminals?: TerminalSummary[]
+        error?: string
+    }> {
+        return await this.rpcGateway.listTerminals(sessionId)
+    }
+
+    // Recordings stay on the CLI's machine; once the session ends, its runner serves them
+    async listTerminalRecordings(sessionId: string): Promise<{
+        success: boolean
+        recordings?: TerminalRecordingSummary[]
+        error?: string
+    }> {
+        const session = this.getSession(sessionId)
+        if (session?.active) {
+            return await this.rpcGateway.listTerminalRecordings(sessionId)
+        }
+        const machineId = this.getOnlineSessionMachineId(session)
+        if (!machineId) {
+            return { success: false, error: 'The session\'s machine is offline' }
+        }
+        return await this.rpcGateway.listMachineTerminalRecordings(machineId, sessionId)
+    }
+
+    async readTerminalRecordingChunk(sessionId: string, recordingId: string, offset: number): Promise<{
+        success: boolean
+        content?: string
+        size?: number
+        eof?: boolean
+        error?: string
+    }> {
+        const session = this.getSession(sessionId)
+        if (session?.active) {
+            return await this.rpcGateway.readTerminalRecordingChunk(sessionId, recordingId, offset)
+        }
+        const machineId = this.getOnlineSessionMachineId(session)
+        if (!machineId) {
+            return { success: false, error: 'The session\'s machine is offline' }
+        }
+        return await this.rpcGateway.readMachineTerminalRecordingChunk(machineId, sessionId, recordingId, offset)
+    }
+
+    private getOnlineSessionMachineId(session: Session | undefined): string | null {
+        const machineId = session?.metadata?.machineId
+        return machineId && this.machineCache.getMachine(machineId)?.active ? machineId : null
+    }
 }
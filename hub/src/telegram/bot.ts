@@ -1,17 +1,33 @@
 /**
  * Telegram Bot for HAPI
  *
- * Simplified bot that only handles notifications (permission requests and ready events).
- * All interactive features are handled by the Telegram Mini App.
+ * Sends notifications (permission requests and ready events) and supports
+ * light interaction from the chat: listing sessions, focusing one, replying
+ * to it with plain text and following its replies. Everything else is
+ * handled by the Telegram Mini App.
  */
 
 import { Bot, Context, InlineKeyboard } from 'grammy'
-import { SyncEngine, Session } from '../sync/syncEngine'
-import { handleCallback, CallbackContext } from './callbacks'
-import { formatSessionNotification, createNotificationKeyboard } from './sessionView'
+import { hasUserRole } from '@hapi/protocol'
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
+import { SyncEngine, Session, SyncEvent } from '../sync/syncEngine'
+import { ACTIONS, handleCallback, CallbackContext } from './callbacks'
+import {
+    formatSessionNotification,
+    createNotificationKeyboard,
+    formatSessionList,
+    createSessionListKeyboard,
+    formatTemplateList,
+    createTemplateListKeyboard
+} from './sessionView'
+import { findSessionByQuery, getSessionName, parseCallbackData, renderAgentReply } from './renderer'
+import { ReplyStreamer } from './replyStream'
 import { getAgentName } from '../notifications/sessionInfo'
-import type { NotificationChannel } from '../notifications/notificationTypes'
-import type { Store } from '../store'
+import { extractMessageEventType } from '../notifications/eventParsing'
+import type { NotificationAudience, NotificationChannel } from '../notifications/notificationTypes'
+import type { AuditLog } from '../audit/auditLog'
+import type { Store, StoredUser } from '../store'
+import { findPausingBudget, formatBudgetUsage } from '../usage/budgets'
 
 export interface BotContext extends Context {
     // Extended context for future use
@@ -22,27 +38,42 @@ export interface HappyBotConfig {
     botToken: string
     publicUrl: string
     store: Store
+    auditLog: AuditLog
 }
 
 /**
- * HAPI Telegram Bot - Notification-only mode
+ * HAPI Telegram Bot
  */
 export class HappyBot implements NotificationChannel {
+    readonly id = 'telegram' as const
     private bot: Bot<BotContext>
     private syncEngine: SyncEngine | null = null
+    private unsubscribeSyncEvents: (() => void) | null = null
     private isRunning = false
     private readonly publicUrl: string
     private readonly store: Store
+    private readonly auditLog: AuditLog
+    private readonly replies: ReplyStreamer
+    // Chat ID -> focused session ID; kept in memory, so focus resets when the hub restarts
+    private readonly focusedSessions: Map<number, string> = new Map()
 
     constructor(config: HappyBotConfig) {
         this.syncEngine = config.syncEngine
         this.publicUrl = config.publicUrl
         this.store = config.store
+        this.auditLog = config.auditLog
 
         this.bot = new Bot<BotContext>(config.botToken)
+        this.replies = new ReplyStreamer({
+            send: async (chatId, text) => (await this.bot.api.sendMessage(chatId, text)).message_id,
+            edit: async (chatId, messageId, text) => {
+                await this.bot.api.editMessageText(chatId, messageId, text)
+            }
+        })
         this.setupMiddleware()
         this.setupCommands()
         this.setupCallbacks()
+        this.setupMessages()
 
         if (this.syncEngine) {
             this.setSyncEngine(this.syncEngine)
@@ -53,7 +84,11 @@ export class HappyBot implements NotificationChannel {
      * Update the sync engine reference (after auth)
      */
     setSyncEngine(engine: SyncEngine): void {
+        this.unsubscribeSyncEvents?.()
         this.syncEngine = engine
+        this.unsubscribeSyncEvents = engine.subscribe((event) => {
+            this.handleSyncEvent(event)
+        })
     }
 
     /**
@@ -88,6 +123,11 @@ export class HappyBot implements NotificationChannel {
 
         console.log('[HAPIBot] Stopping Telegram bot...')
 
+        this.unsubscribeSyncEvents?.()
+        this.unsubscribeSyncEvents = null
+        this.replies.stop()
+        this.focusedSessions.clear()
+
         await this.bot.stop()
         this.isRunning = false
     }
@@ -112,15 +152,120 @@ export class HappyBot implements NotificationChannel {
             await ctx.reply('Open HAPI Mini App:', { reply_markup: keyboard })
         })
 
-        // /start - Simple welcome with Mini App link
+        // /start - Welcome with command overview and Mini App link
         this.bot.command('start', async (ctx) => {
             const keyboard = new InlineKeyboard().webApp('Open App', this.publicUrl)
             await ctx.reply(
                 'Welcome to HAPI Bot!\n\n' +
+                '/sessions - list active sessions\n' +
+                '/focus <id or name> - reply to a session from this chat\n' +
+                '/unfocus - stop following the focused session\n' +
+                '/templates - launch a session from a template\n\n' +
                 'Use the Mini App for full session management.',
                 { reply_markup: keyboard }
             )
         })
+
+        // /sessions - List active sessions with focus buttons
+        this.bot.command('sessions', async (ctx) => {
+            const user = await this.requireUser(ctx)
+            if (!user || !this.syncEngine) {
+                return
+            }
+            const sessions = this.getActiveSessions(user.namespace)
+            await ctx.reply(formatSessionList(sessions, this.focusedSessions.get(ctx.chat.id) ?? null), {
+                reply_markup: createSessionListKeyboard(sessions)
+            })
+        })
+
+        // /focus <id or name> - Route plain-text messages and replies for this chat to a session
+        this.bot.command('focus', async (ctx) => {
+            const user = await this.requireUser(ctx)
+            if (!user || !this.syncEngine) {
+                return
+            }
+
+            const query = ctx.match.trim()
+            if (!query) {
+                const focused = this.getFocusedSession(ctx.chat.id, user)
+                await ctx.reply(focused
+                    ? `Focused on ${getSessionName(focused)}.`
+                    : 'Usage: /focus <session id or name>. See /sessions.')
+                return
+            }
+
+            const session = findSessionByQuery(this.getActiveSessions(user.namespace), query)
+            if (!session) {
+                await ctx.reply('No single active session matches. See /sessions.')
+                return
+            }
+            await this.focusChat(ctx.chat.id, session)
+        })
+
+        // /templates - List session templates with launch buttons
+        this.bot.command('templates', async (ctx) => {
+            const user = await this.requireUser(ctx)
+            if (!user || !this.syncEngine) {
+                return
+            }
+            const templates = this.store.sessionTemplates.getTemplatesByNamespace(user.namespace)
+            const canLaunch = hasUserRole(user.role, 'admin')
+            await ctx.reply(formatTemplateList(templates, canLaunch), {
+                reply_markup: canLaunch && templates.length > 0 ? createTemplateListKeyboard(templates) : undefined
+            })
+        })
+
+        // /unfocus - Stop following the focused session
+        this.bot.command('unfocus', async (ctx) => {
+            const chatId = ctx.chat.id
+            await this.replies.finish(chatId)
+            const hadFocus = this.focusedSessions.delete(chatId)
+            await ctx.reply(hadFocus ? 'Unfocused.' : 'No session is focused.')
+        })
+    }
+
+    /**
+     * Forward plain-text messages to the focused session
+     */
+    private setupMessages(): void {
+        this.bot.on('message:text', async (ctx) => {
+            const text = ctx.message.text
+            if (text.startsWith('/')) {
+                await ctx.reply('Unknown command. Try /sessions or /focus.')
+                return
+            }
+
+            const user = await this.requireUser(ctx)
+            if (!user || !this.syncEngine) {
+                return
+            }
+            if (!hasUserRole(user.role, 'operator')) {
+                await ctx.reply('Your role does not allow sending messages')
+                return
+            }
+
+            const chatId = ctx.chat.id
+            const session = this.getFocusedSession(chatId, user)
+            if (!session) {
+                await ctx.reply('No session focused. Use /sessions or /focus <id or name> first.')
+                return
+            }
+
+            const pausing = findPausingBudget(this.store.usage, session)
+            if (pausing) {
+                await ctx.reply(`Usage budget exceeded - ${formatBudgetUsage(pausing)}`)
+                return
+            }
+
+            // The agent's answer streams into a fresh message
+            await this.replies.finish(chatId)
+            await this.syncEngine.sendMessage(session.id, { text, sentFrom: 'telegram-bot' })
+            this.auditLog.record({ namespace: user.namespace, accountId: user.id, origin: 'telegram' }, {
+                action: 'message.send',
+                sessionId: session.id,
+                payload: { text, attachments: [] }
+            })
+        })
     }
 
     /**
@@ -133,17 +278,31 @@ export class HappyBot implements NotificationChannel {
                 return
             }
 
-            const namespace = this.getNamespaceForChatId(ctx.from?.id ?? null)
-            if (!namespace) {
+            const user = this.getUserForChatId(ctx.from?.id ?? null)
+            if (!user) {
                 await ctx.answerCallbackQuery('Telegram account is not bound')
                 return
             }
-
             const data = ctx.callbackQuery.data
+            // Focusing only follows a session, so viewers may use it too;
+            // launching a template spawns a session, which is admin-only
+            const action = parseCallbackData(data).action
+            const requiredRole = action === ACTIONS.FOCUS
+                ? 'viewer'
+                : action === ACTIONS.LAUNCH_TEMPLATE ? 'admin' : 'operator'
+            if (!hasUserRole(user.role, requiredRole)) {
+                await ctx.answerCallbackQuery('Your role does not allow this action')
+                return
+            }
+            const namespace = user.namespace
+            const chatId = ctx.chat?.id ?? ctx.from.id
 
             const callbackContext: CallbackContext = {
                 syncEngine: this.syncEngine,
                 namespace,
+                recordAudit: (input) => {
+                    this.auditLog.record({ namespace, accountId: user.id, origin: 'telegram' }, input)
+                },
                 answerCallback: async (text?: string) => {
                     await ctx.answerCallbackQuery(text)
                 },
@@ -151,7 +310,11 @@ export class HappyBot implements NotificationChannel {
                     await ctx.editMessageText(text, {
                         reply_markup: keyboard
                     })
-                }
+                },
+                focusSession: async (session) => {
+                    await this.focusChat(chatId, session)
+                },
+                getTemplates: () => this.store.sessionTemplates.getTemplatesByNamespace(namespace)
             }
 
             await handleCallback(data, callbackContext)
@@ -159,12 +322,121 @@ export class HappyBot implements NotificationChannel {
     }
 
     /**
-     * Get bound Telegram chat IDs from storage.
+     * Mirror assistant output of focused sessions into their chats
+     */
+    private handleSyncEvent(event: SyncEvent): void {
+        if (event.type === 'session-removed' && event.sessionId) {
+            for (const chatId of this.getChatsFocusedOn(event.sessionId)) {
+                this.focusedSessions.delete(chatId)
+                void this.replies.finish(chatId)
+            }
+            return
+        }
+
+        if (event.type !== 'message-received' || !event.sessionId || !event.message) {
+            return
+        }
+        const session = this.syncEngine?.getSession(event.sessionId)
+        const chatIds = this.getChatsFocusedOn(event.sessionId).filter((chatId) => {
+            // Stop following when the chat's binding was removed or moved namespace
+            const user = this.getUserForChatId(chatId)
+            if (user && session && user.namespace === session.namespace) {
+                return true
+            }
+            this.focusedSessions.delete(chatId)
+            return false
+        })
+        if (chatIds.length === 0) {
+            return
+        }
+
+        if (extractMessageEventType(event) === 'ready') {
+            for (const chatId of chatIds) {
+                void this.replies.finish(chatId)
+            }
+            return
+        }
+
+        const text = renderAgentReply(event.message.content)
+        if (!text) {
+            return
+        }
+        for (const chatId of chatIds) {
+            this.replies.append(chatId, text)
+        }
+    }
+
+    private async focusChat(chatId: number, session: Session): Promise<void> {
+        if (this.focusedSessions.get(chatId) !== session.id) {
+            await this.replies.finish(chatId)
+            this.focusedSessions.set(chatId, session.id)
+        }
+        await this.bot.api.sendMessage(
+            chatId,
+            `Focused on ${getSessionName(session)}.\n\n` +
+            'Send a message to reply to it; its answers will appear here. /unfocus to stop.'
+        )
+    }
+
+    private getChatsFocusedOn(sessionId: string): number[] {
+        const chatIds: number[] = []
+        for (const [chatId, focusedId] of this.focusedSessions) {
+            if (focusedId === sessionId) {
+                chatIds.push(chatId)
+            }
+        }
+        return chatIds
+    }
+
+    /**
+     * The chat's focused session, dropping the focus once the session is gone
+     * or no longer in the user's namespace
+     */
+    private getFocusedSession(chatId: number, user: StoredUser): Session | null {
+        const sessionId = this.focusedSessions.get(chatId)
+        if (!sessionId || !this.syncEngine) {
+            return null
+        }
+        const session = this.syncEngine.getSession(sessionId)
+        if (!session || !session.active || session.namespace !== user.namespace) {
+            this.focusedSessions.delete(chatId)
+            return null
+        }
+        return session
+    }
+
+    private getActiveSessions(namespace: string): Session[] {
+        if (!this.syncEngine) {
+            return []
+        }
+        return this.syncEngine.getSessionsByNamespace(namespace)
+            .filter((session) => session.active)
+            .sort((a, b) => b.activeAt - a.activeAt)
+    }
+
+    private async requireUser(ctx: Context): Promise<StoredUser | null> {
+        if (!this.syncEngine) {
+            await ctx.reply('Not connected')
+            return null
+        }
+        const user = this.getUserForChatId(ctx.from?.id ?? null)
+        if (!user) {
+            await ctx.reply('Telegram account is not bound. Open the Mini App to bind it.')
+            return null
+        }
+        return user
+    }
+
+    /**
+     * Get bound Telegram chat IDs from storage, limited to users in the audience.
      */
-    private getBoundChatIds(namespace: string): number[] {
+    private getBoundChatIds(namespace: string, audience: NotificationAudience): number[] {
         const users = this.store.users.getUsersByPlatformAndNamespace('telegram', namespace)
         const ids = new Set<number>()
         for (const user of users) {
+            if (!audience(user.id)) {
+                continue
+            }
             const chatId = Number(user.platformUserId)
             if (Number.isFinite(chatId)) {
                 ids.add(chatId)
@@ -173,18 +445,17 @@ export class HappyBot implements NotificationChannel {
         return Array.from(ids)
     }
 
-    private getNamespaceForChatId(chatId: number | null | undefined): string | null {
+    private getUserForChatId(chatId: number | null | undefined): StoredUser | null {
         if (!chatId) {
             return null
         }
-        const stored = this.store.users.getUser('telegram', String(chatId))
-        return stored?.namespace ?? null
+        return this.store.users.getUser('telegram', String(chatId))
     }
 
     /**
      * Send a notification when agent is ready for input.
      */
-    async sendReady(session: Session): Promise<void> {
+    async sendReady(session: Session, audience: NotificationAudience): Promise<void> {
         if (!session.active) {
             return
         }
@@ -194,7 +465,7 @@ export class HappyBot implements NotificationChannel {
         const keyboard = new InlineKeyboard()
             .webApp('Open Session', url)
 
-        const chatIds = this.getBoundChatIds(session.namespace)
+        const chatIds = this.getBoundChatIds(session.namespace, audience)
         if (chatIds.length === 0) {
             return
         }
@@ -215,7 +486,7 @@ export class HappyBot implements NotificationChannel {
     /**
      * Send permission notification to all bound chats
      */
-    async sendPermissionRequest(session: Session): Promise<void> {
+    async sendPermissionRequest(session: Session, audience: NotificationAudience): Promise<void> {
         if (!session.active) {
             return
         }
@@ -223,7 +494,7 @@ export class HappyBot implements NotificationChannel {
         const text = formatSessionNotification(session)
         const keyboard = createNotificationKeyboard(session, this.publicUrl)
 
-        const chatIds = this.getBoundChatIds(session.namespace)
+        const chatIds = this.getBoundChatIds(session.namespace, audience)
         if (chatIds.length === 0) {
             return
         }
@@ -238,6 +509,45 @@ export class HappyBot implements NotificationChannel {
             }
         }
     }
+
+    /**
+     * Send one message listing the sessions batched for a digest
+     */
+    async sendReadyDigest(namespace: string, sessions: Session[], audience: NotificationAudience): Promise<void> {
+        if (sessions.length === 0) {
+            return
+        }
+
+        const keyboard = new InlineKeyboard()
+        for (const session of sessions.slice(0, 10)) {
+            keyboard.webApp(getSessionName(session), buildMiniAppDeepLink(this.publicUrl, `session_${session.id}`)).row()
+        }
+        const lines = sessions.map((session) => `- ${getSessionName(session)} (${getAgentName(session)})`)
+        const text = `${sessions.length === 1 ? 'A session is' : `${sessions.length} sessions are`} waiting for your command\n\n${lines.join('\n')}`
+
+        for (const chatId of this.getBoundChatIds(namespace, audience)) {
+            try {
+                await this.bot.api.sendMessage(chatId, text, { reply_markup: keyboard })
+            } catch (error) {
+                console.error(`[HAPIBot] Failed to send ready digest to chat ${chatId}:`, error)
+            }
+        }
+    }
+
+    async sendBudgetExceeded(session: Session, status: UsageBudgetStatus, audience: NotificationAudience): Promise<void> {
+        const paused = status.budget.action === 'pause' ? '\nNew prompts are paused until the budget resets.' : ''
+        const text = `Usage budget exceeded in ${getSessionName(session)}\n\n${formatBudgetUsage(status)}${paused}`
+        const keyboard = new InlineKeyboard()
+            .webApp('Open Session', buildMiniAppDeepLink(this.publicUrl, `session_${session.id}`))
+
+        for (const chatId of this.getBoundChatIds(session.namespace, audience)) {
+            try {
+                await this.bot.api.sendMessage(chatId, text, { reply_markup: keyboard })
+            } catch (error) {
+                console.error(`[HAPIBot] Failed to send budget notification to chat ${chatId}:`, error)
+            }
+        }
+    }
 }
 
 function buildMiniAppDeepLink(baseUrl: string, startParam: string): string {
@@ -1,18 +1,26 @@
 /**
  * Callback Query Handlers for Telegram
  *
- * Handles InlineKeyboard button interactions for permission notifications.
- * Simplified to only support APPROVE and DENY actions.
+ * Handles InlineKeyboard button interactions: permission approvals from
+ * notifications, session focus from the /sessions list and template
+ * launches from the /templates list.
  */
 
 import { InlineKeyboard } from 'grammy'
+import type { AuditEventInput } from '../audit/auditLog'
+import { getSessionApproval } from '../notifications/permissionApproval'
+import type { StoredSessionTemplate } from '../store'
 import type { Session, SyncEngine } from '../sync/syncEngine'
+import { launchSessionTemplate } from '../templates/launchTemplate'
 import { parseCallbackData, findSessionByPrefix } from './renderer'
 
-// Callback action types (simplified - only permission actions)
+// Callback action types
 export const ACTIONS = {
     APPROVE: 'ap',
+    APPROVE_SESSION: 'as',
     DENY: 'dn',
+    FOCUS: 'fc',
+    LAUNCH_TEMPLATE: 'lt',
 } as const
 
 /**
@@ -21,8 +29,11 @@ export const ACTIONS = {
 export interface CallbackContext {
     syncEngine: SyncEngine
     namespace: string
+    recordAudit: (input: AuditEventInput) => void
     answerCallback: (text?: string) => Promise<void>
     editMessage: (text: string, keyboard?: InlineKeyboard) => Promise<void>
+    focusSession: (session: Session) => Promise<void>
+    getTemplates: () => StoredSessionTemplate[]
 }
 
 async function getSessionOrAnswer(
@@ -67,7 +78,9 @@ export async function handleCallback(
                     return
                 }
 
+                const tool = session.agentState?.requests?.[requestId]?.tool ?? null
                 await syncEngine.approvePermission(session.id, requestId)
+                ctx.recordAudit({ action: 'permission.approve', sessionId: session.id, detail: tool, payload: { requestId } })
                 await ctx.answerCallback('Approved!')
 
                 // Update the notification message
@@ -75,6 +88,33 @@ export async function handleCallback(
                 break
             }
 
+            case ACTIONS.APPROVE_SESSION: {
+                const session = await getSessionOrAnswer(ctx, syncEngine, sessionPrefix, { requireActive: true })
+                if (!session) {
+                    return
+                }
+
+                const requestId = findRequestByPrefix(session, extra || '')
+                const approval = requestId ? getSessionApproval(session, requestId) : null
+                if (!requestId || !approval) {
+                    await ctx.answerCallback('Request not found or already processed')
+                    return
+                }
+
+                const tool = session.agentState?.requests?.[requestId]?.tool ?? null
+                await syncEngine.approvePermission(session.id, requestId, undefined, approval.allowTools, approval.decision)
+                ctx.recordAudit({
+                    action: 'permission.approve',
+                    sessionId: session.id,
+                    detail: tool,
+                    payload: { requestId, ...approval }
+                })
+                await ctx.answerCallback('Approved for this session')
+
+                await ctx.editMessage('Permission approved for the rest of the session.', new InlineKeyboard())
+                break
+            }
+
             case ACTIONS.DENY: {
                 const session = await getSessionOrAnswer(ctx, syncEngine, sessionPrefix, { requireActive: true })
                 if (!session) {
@@ -87,7 +127,9 @@ export async function handleCallback(
                     return
                 }
 
+                const tool = session.agentState?.requests?.[requestId]?.tool ?? null
                 await syncEngine.denyPermission(session.id, requestId)
+                ctx.recordAudit({ action: 'permission.deny', sessionId: session.id, detail: tool, payload: { requestId } })
                 await ctx.answerCallback('Denied')
 
                 // Update the notification message
@@ -95,6 +137,49 @@ export async function handleCallback(
                 break
             }
 
+            case ACTIONS.FOCUS: {
+                const session = await getSessionOrAnswer(ctx, syncEngine, sessionPrefix, { requireActive: true })
+                if (!session) {
+                    return
+                }
+
+                await ctx.focusSession(session)
+                await ctx.answerCallback('Focused')
+                break
+            }
+
+            case ACTIONS.LAUNCH_TEMPLATE: {
+                // Template ids share the session id prefix slot
+                const template = ctx.getTemplates().find((t) => t.id.startsWith(sessionPrefix))
+                if (!template) {
+                    await ctx.answerCallback('Template not found')
+                    return
+                }
+
+                await ctx.answerCallback('Launching…')
+                const result = await launchSessionTemplate(syncEngine, template)
+                ctx.recordAudit({
+                    action: 'machine.spawn',
+                    machineId: template.machineId,
+                    sessionId: result.type === 'success' ? result.sessionId : null,
+                    detail: `${template.directory} (template: ${template.name})`,
+                    payload: { templateId: template.id }
+                })
+                if (result.type === 'error') {
+                    await ctx.editMessage(`Failed to launch ${template.name}: ${result.message}`)
+                    return
+                }
+
+                await ctx.editMessage(result.warning
+                    ? `Launched ${template.name}. ${result.warning}`
+                    : `Launched ${template.name}.`)
+                const session = syncEngine.getSession(result.sessionId)
+                if (session?.active) {
+                    await ctx.focusSession(session)
+                }
+                break
+            }
+
             default:
                 await ctx.answerCallback('Unknown action')
         }
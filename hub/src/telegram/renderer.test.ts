@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test'
+import type { Session } from '../sync/syncEngine'
+import { MAX_REPLY_LENGTH, appendReplyText, findSessionByQuery, renderAgentReply } from './renderer'
+
+function createSession(id: string, name: string): Session {
+    return {
+        id,
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: true,
+        activeAt: 0,
+        metadata: { path: `/work/${name}`, host: 'devbox', name },
+        metadataVersion: 0,
+        agentState: null,
+        agentStateVersion: 0,
+        thinking: false,
+        thinkingAt: 0
+    }
+}
+
+function claudeOutput(data: Record<string, unknown>): unknown {
+    return { role: 'agent', content: { type: 'output', data } }
+}
+
+describe('renderAgentReply', () => {
+    it('renders assistant text and condensed tool calls', () => {
+        const content = claudeOutput({
+            type: 'assistant',
+            message: {
+                content: [
+                    { type: 'thinking', thinking: 'hmm' },
+                    { type: 'text', text: 'Running the tests.' },
+                    { type: 'tool_use', name: 'Bash', input: { command: 'bun test\necho done' } }
+                ]
+            }
+        })
+        expect(renderAgentReply(content)).toBe('Running the tests.\n\n🔧 Bash: bun test')
+    })
+
+    it('renders codex messages and tool calls', () => {
+        expect(renderAgentReply({
+            role: 'agent',
+            content: { type: 'codex', data: { type: 'message', message: 'All done.' } }
+        })).toBe('All done.')
+        expect(renderAgentReply({
+            role: 'agent',
+            content: { type: 'codex', data: { type: 'tool-call', name: 'CodexBash', input: {} } }
+        })).toBe('🔧 CodexBash')
+    })
+
+    it('ignores user messages, tool results and sidechains', () => {
+        expect(renderAgentReply({ role: 'user', content: { type: 'text', text: 'hi' } })).toBeNull()
+        expect(renderAgentReply(claudeOutput({
+            type: 'user',
+            message: { content: [{ type: 'tool_result', content: 'ok' }] }
+        }))).toBeNull()
+        expect(renderAgentReply(claudeOutput({
+            type: 'assistant',
+            isSidechain: true,
+            message: { content: [{ type: 'text', text: 'subagent' }] }
+        }))).toBeNull()
+        expect(renderAgentReply({ role: 'agent', content: { type: 'event', data: { type: 'ready' } } })).toBeNull()
+    })
+})
+
+describe('findSessionByQuery', () => {
+    const sessions = [
+        createSession('abc12345-0000', 'api-server'),
+        createSession('def67890-0000', 'web-client'),
+        createSession('0a0b0c0d-0000', 'web')
+    ]
+
+    it('matches ID prefixes, exact names, then unique substrings', () => {
+        expect(findSessionByQuery(sessions, 'def6')?.id).toBe('def67890-0000')
+        expect(findSessionByQuery(sessions, 'WEB')?.id).toBe('0a0b0c0d-0000')
+        expect(findSessionByQuery(sessions, 'server')?.id).toBe('abc12345-0000')
+    })
+
+    it('returns nothing for ambiguous or empty queries', () => {
+        expect(findSessionByQuery(sessions, 'e')).toBeUndefined()
+        expect(findSessionByQuery(sessions, '  ')).toBeUndefined()
+    })
+})
+
+describe('appendReplyText', () => {
+    it('joins chunks until the message is full', () => {
+        expect(appendReplyText('', 'one')).toBe('one')
+        expect(appendReplyText('one', 'two')).toBe('one\n\ntwo')
+        expect(appendReplyText('one', 'x'.repeat(MAX_REPLY_LENGTH))).toBeNull()
+        expect(appendReplyText('', 'x'.repeat(MAX_REPLY_LENGTH + 10))?.length).toBe(MAX_REPLY_LENGTH)
+    })
+})
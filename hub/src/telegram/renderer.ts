@@ -2,9 +2,9 @@
  * Utilities for Telegram Bot
  *
  * Helper functions for rendering and callback data handling.
- * Simplified to only include utilities needed for notifications.
  */
 
+import { isObject, unwrapRoleWrappedRecordEnvelope } from '@hapi/protocol'
 import type { Session } from '../sync/syncEngine'
 import { getSessionName as getSharedSessionName } from '../notifications/sessionInfo'
 
@@ -12,6 +12,10 @@ import { getSessionName as getSharedSessionName } from '../notifications/session
 const MAX_MESSAGE_LENGTH = 4096
 const MAX_CALLBACK_DATA = 64
 
+// Streamed replies keep some headroom below the hard limit
+export const MAX_REPLY_LENGTH = MAX_MESSAGE_LENGTH - 96
+const MAX_TOOL_SUMMARY_LENGTH = 80
+
 /**
  * Truncate text to fit within a limit
  */
@@ -65,3 +69,95 @@ export function parseCallbackData(data: string): { action: string; sessionPrefix
 export function findSessionByPrefix(sessions: Session[], prefix: string): Session | undefined {
     return sessions.find(s => s.id.startsWith(prefix))
 }
+
+/**
+ * Resolve a /focus argument: an ID prefix, then an exact name, then a unique
+ * name substring (all case-insensitive for names)
+ */
+export function findSessionByQuery(sessions: Session[], query: string): Session | undefined {
+    const needle = query.trim()
+    if (!needle) return undefined
+
+    const byPrefix = findSessionByPrefix(sessions, needle)
+    if (byPrefix) return byPrefix
+
+    const lowered = needle.toLowerCase()
+    const exact = sessions.find(s => getSessionName(s).toLowerCase() === lowered)
+    if (exact) return exact
+
+    const partial = sessions.filter(s => getSessionName(s).toLowerCase().includes(lowered))
+    return partial.length === 1 ? partial[0] : undefined
+}
+
+function summarizeToolInput(input: unknown): string {
+    if (!isObject(input)) return ''
+    for (const key of ['command', 'file_path', 'path', 'pattern', 'url', 'description']) {
+        const value = input[key]
+        if (typeof value === 'string' && value.trim()) {
+            return truncate(value.trim().split('\n')[0], MAX_TOOL_SUMMARY_LENGTH)
+        }
+    }
+    return ''
+}
+
+function formatToolLine(name: string, input: unknown): string {
+    const summary = summarizeToolInput(input)
+    return summary ? `🔧 ${name}: ${summary}` : `🔧 ${name}`
+}
+
+/**
+ * Condensed plain-text rendering of an agent message for streamed replies:
+ * assistant text plus one line per tool call. Returns null for anything else
+ * (user messages, tool results, reasoning, events, sidechains).
+ */
+export function renderAgentReply(content: unknown): string | null {
+    const record = unwrapRoleWrappedRecordEnvelope(content)
+    if (!record || record.role !== 'agent' || !isObject(record.content)) {
+        return null
+    }
+
+    const body = record.content
+    const data = isObject(body.data) ? body.data : null
+    if (!data) {
+        return null
+    }
+
+    const parts: string[] = []
+    if (body.type === 'output') {
+        const message = isObject(data.message) ? data.message : null
+        if (data.type !== 'assistant' || data.isMeta || data.isSidechain || !message) {
+            return null
+        }
+        const blocks = typeof message.content === 'string'
+            ? [{ type: 'text', text: message.content }]
+            : Array.isArray(message.content) ? message.content : []
+        for (const block of blocks) {
+            if (!isObject(block)) continue
+            if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+                parts.push(block.text.trim())
+            } else if (block.type === 'tool_use' && typeof block.name === 'string') {
+                parts.push(formatToolLine(block.name, block.input))
+            }
+        }
+    } else if (body.type === 'codex') {
+        if (data.type === 'message' && typeof data.message === 'string' && data.message.trim()) {
+            parts.push(data.message.trim())
+        } else if (data.type === 'tool-call' && typeof data.name === 'string') {
+            parts.push(formatToolLine(data.name, data.input))
+        }
+    }
+
+    return parts.length > 0 ? parts.join('\n\n') : null
+}
+
+/**
+ * Append a rendered chunk to a streamed reply. Returns null when the result
+ * would not fit in one Telegram message and a new message should be started.
+ */
+export function appendReplyText(current: string, addition: string): string | null {
+    const next = current ? `${current}\n\n${addition}` : addition
+    if (next.length <= MAX_REPLY_LENGTH) {
+        return next
+    }
+    return current ? null : truncate(addition, MAX_REPLY_LENGTH)
+}
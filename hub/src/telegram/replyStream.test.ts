@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test'
+import { MAX_REPLY_LENGTH } from './renderer'
+import { ReplyStreamer, type ReplyTransport } from './replyStream'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function createTransport(): { transport: ReplyTransport; calls: string[] } {
+    const calls: string[] = []
+    let nextId = 1
+    const transport: ReplyTransport = {
+        send: async (chatId, text) => {
+            const id = nextId++
+            calls.push(`send ${chatId} #${id} ${text.length > 20 ? `<${text.length}>` : text}`)
+            return id
+        },
+        edit: async (chatId, messageId, text) => {
+            calls.push(`edit ${chatId} #${messageId} ${text}`)
+        }
+    }
+    return { transport, calls }
+}
+
+describe('ReplyStreamer', () => {
+    it('sends once and edits the same message as chunks arrive', async () => {
+        const { transport, calls } = createTransport()
+        const streamer = new ReplyStreamer(transport, 5)
+
+        streamer.append(1, 'a')
+        streamer.append(1, 'b')
+        await sleep(20)
+        streamer.append(1, 'c')
+        await streamer.finish(1)
+        streamer.append(1, 'd')
+        await streamer.finish(1)
+
+        expect(calls).toEqual([
+            'send 1 #1 a\n\nb',
+            'edit 1 #1 a\n\nb\n\nc',
+            'send 1 #2 d'
+        ])
+        streamer.stop()
+    })
+
+    it('continues in a new message when the reply outgrows one', async () => {
+        const { transport, calls } = createTransport()
+        const streamer = new ReplyStreamer(transport, 5)
+
+        streamer.append(7, 'x'.repeat(MAX_REPLY_LENGTH - 10))
+        streamer.append(7, 'y'.repeat(50))
+        await streamer.finish(7)
+
+        expect(calls).toEqual([
+            `send 7 #1 <${MAX_REPLY_LENGTH - 10}>`,
+            'send 7 #2 <50>'
+        ])
+        streamer.stop()
+    })
+})
@@ -0,0 +1,112 @@
+/**
+ * Streamed Replies for Telegram
+ *
+ * Collects rendered agent output per chat and mirrors it into a single
+ * Telegram message that is edited as more output arrives. Edits are throttled
+ * to stay under Telegram's rate limits; a reply that outgrows one message
+ * continues in a new one.
+ */
+
+import { appendReplyText } from './renderer'
+
+const DEFAULT_THROTTLE_MS = 1500
+
+export interface ReplyTransport {
+    send: (chatId: number, text: string) => Promise<number>
+    edit: (chatId: number, messageId: number, text: string) => Promise<void>
+}
+
+type ReplyStream = {
+    messageId: number | null
+    text: string
+    sentText: string
+    timer: ReturnType<typeof setTimeout> | null
+}
+
+export class ReplyStreamer {
+    private readonly streams: Map<number, ReplyStream> = new Map()
+    // Writes are chained per chat so sends and edits land in order
+    private readonly queues: Map<number, Promise<void>> = new Map()
+
+    constructor(
+        private readonly transport: ReplyTransport,
+        private readonly throttleMs: number = DEFAULT_THROTTLE_MS
+    ) {}
+
+    append(chatId: number, chunk: string): void {
+        let stream = this.getStream(chatId)
+        let next = appendReplyText(stream.text, chunk)
+        if (next === null) {
+            void this.finish(chatId)
+            stream = this.getStream(chatId)
+            next = appendReplyText('', chunk) ?? ''
+        }
+        stream.text = next
+
+        if (!stream.timer) {
+            stream.timer = setTimeout(() => {
+                stream.timer = null
+                void this.flush(chatId, stream)
+            }, this.throttleMs)
+        }
+    }
+
+    /**
+     * Write out the current reply; the next chunk starts a new message
+     */
+    finish(chatId: number): Promise<void> {
+        const stream = this.streams.get(chatId)
+        if (!stream) {
+            return this.queues.get(chatId) ?? Promise.resolve()
+        }
+        this.streams.delete(chatId)
+        if (stream.timer) {
+            clearTimeout(stream.timer)
+            stream.timer = null
+        }
+        return this.flush(chatId, stream)
+    }
+
+    stop(): void {
+        for (const stream of this.streams.values()) {
+            if (stream.timer) {
+                clearTimeout(stream.timer)
+            }
+        }
+        this.streams.clear()
+        this.queues.clear()
+    }
+
+    private getStream(chatId: number): ReplyStream {
+        let stream = this.streams.get(chatId)
+        if (!stream) {
+            stream = { messageId: null, text: '', sentText: '', timer: null }
+            this.streams.set(chatId, stream)
+        }
+        return stream
+    }
+
+    private flush(chatId: number, stream: ReplyStream): Promise<void> {
+        const previous = this.queues.get(chatId) ?? Promise.resolve()
+        const next = previous
+            .then(() => this.write(chatId, stream))
+            .catch((error) => {
+                console.error(`[HAPIBot] Failed to stream reply to chat ${chatId}:`, error)
+            })
+        this.queues.set(chatId, next)
+        return next
+    }
+
+    private async write(chatId: number, stream: ReplyStream): Promise<void> {
+        const text = stream.text
+        if (!text || text === stream.sentText) {
+            return
+        }
+        if (stream.messageId === null) {
+            stream.messageId = await this.transport.send(chatId, text)
+        } else {
+            await this.transport.edit(chatId, stream.messageId, text)
+        }
+        stream.sentText = text
+    }
+}
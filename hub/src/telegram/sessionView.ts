@@ -1,16 +1,19 @@
 /**
  * Session Notification View for Telegram
  *
- * Provides notification formatting for permission requests.
- * All interactive session views are handled by the Telegram Mini App.
+ * Provides notification formatting for permission requests and the
+ * /sessions and /templates lists. Full session views are handled by the Telegram Mini App.
  */
 
 import { InlineKeyboard } from 'grammy'
+import type { StoredSessionTemplate } from '../store'
 import type { Session } from '../sync/syncEngine'
+import { getSessionApproval } from '../notifications/permissionApproval'
 import { ACTIONS } from './callbacks'
 import { createCallbackData, truncate, getSessionName } from './renderer'
 
 const MAX_TOOL_ARGS_LENGTH = 150
+const MAX_LISTED_SESSIONS = 20
 
 /**
  * Format a compact session notification for permission requests
@@ -52,6 +55,11 @@ export function createNotificationKeyboard(session: Session, publicUrl: string):
             .text('Allow', createCallbackData(ACTIONS.APPROVE, session.id, reqPrefix))
             .text('Deny', createCallbackData(ACTIONS.DENY, session.id, reqPrefix))
         keyboard.row()
+        if (getSessionApproval(session, requestId)) {
+            keyboard
+                .text('Allow for session', createCallbackData(ACTIONS.APPROVE_SESSION, session.id, reqPrefix))
+                .row()
+        }
 
         keyboard.webApp(
             'Details',
@@ -67,6 +75,71 @@ export function createNotificationKeyboard(session: Session, publicUrl: string):
     return keyboard
 }
 
+/**
+ * Format the /sessions list, marking the focused session
+ */
+export function formatSessionList(sessions: Session[], focusedSessionId: string | null): string {
+    if (sessions.length === 0) {
+        return 'No active sessions.'
+    }
+
+    const lines: string[] = ['Active sessions', '']
+    for (const session of sessions.slice(0, MAX_LISTED_SESSIONS)) {
+        const marker = session.id === focusedSessionId ? '▶' : '•'
+        const state = session.agentState?.requests && Object.keys(session.agentState.requests).length > 0
+            ? ' (needs approval)'
+            : session.thinking ? ' (working)' : ''
+        const agent = session.metadata?.flavor ?? 'claude'
+        lines.push(`${marker} ${truncate(getSessionName(session), 60)} [${agent}] ${session.id.slice(0, 8)}${state}`)
+    }
+    if (sessions.length > MAX_LISTED_SESSIONS) {
+        lines.push(`…and ${sessions.length - MAX_LISTED_SESSIONS} more`)
+    }
+    lines.push('', 'Tap a session or use /focus <id or name> to reply to it here.')
+    return lines.join('\n')
+}
+
+/**
+ * One focus button per listed session
+ */
+export function createSessionListKeyboard(sessions: Session[]): InlineKeyboard {
+    const keyboard = new InlineKeyboard()
+    for (const session of sessions.slice(0, MAX_LISTED_SESSIONS)) {
+        keyboard.text(truncate(getSessionName(session), 40), createCallbackData(ACTIONS.FOCUS, session.id)).row()
+    }
+    return keyboard
+}
+
+/**
+ * Format the /templates list; launch buttons are only offered to admins
+ */
+export function formatTemplateList(templates: StoredSessionTemplate[], canLaunch: boolean): string {
+    if (templates.length === 0) {
+        return 'No session templates. Create them in the Mini App under Settings.'
+    }
+
+    const lines: string[] = ['Session templates', '']
+    for (const template of templates.slice(0, MAX_LISTED_SESSIONS)) {
+        lines.push(`• ${truncate(template.name, 60)} [${template.agent}] ${truncate(template.directory, 60)}`)
+    }
+    if (templates.length > MAX_LISTED_SESSIONS) {
+        lines.push(`…and ${templates.length - MAX_LISTED_SESSIONS} more`)
+    }
+    lines.push('', canLaunch ? 'Tap a template to launch a session from it.' : 'Only admins can launch templates.')
+    return lines.join('\n')
+}
+
+/**
+ * One launch button per listed template
+ */
+export function createTemplateListKeyboard(templates: StoredSessionTemplate[]): InlineKeyboard {
+    const keyboard = new InlineKeyboard()
+    for (const template of templates.slice(0, MAX_LISTED_SESSIONS)) {
+        keyboard.text(truncate(template.name, 40), createCallbackData(ACTIONS.LAUNCH_TEMPLATE, template.id)).row()
+    }
+    return keyboard
+}
+
 /**
  * Format detailed tool arguments for notification display
  */
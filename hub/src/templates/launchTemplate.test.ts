@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'bun:test'
+import type { AcpAgentInfo } from '@hapi/protocol/schemas'
+import type { StoredSessionTemplate } from '../store'
+import type { SyncEngine } from '../sync/syncEngine'
+import { expandWorktreeName, launchSessionTemplate } from './launchTemplate'
+
+class FakeSyncEngine {
+    readonly calls: string[] = []
+    readonly spawned: unknown[][] = []
+    readonly sent: Array<{ sessionId: string; text: string; attachments?: Array<{ filename: string; path: string }> }> = []
+    active = true
+    uploadFails = false
+    acpAgents: AcpAgentInfo[] = []
+
+    getMachine(machineId: string): { id: string; metadata: { acpAgents: AcpAgentInfo[] } } {
+        return { id: machineId, metadata: { acpAgents: this.acpAgents } }
+    }
+
+    async spawnSession(...args: unknown[]): Promise<{ type: 'success'; sessionId: string }> {
+        this.calls.push('spawn')
+        this.spawned.push(args)
+        return { type: 'success', sessionId: 'session-1' }
+    }
+
+    async waitForSessionActive(): Promise<boolean> {
+        this.calls.push('wait')
+        return this.active
+    }
+
+    async applySessionConfig(_sessionId: string, config: { permissionMode?: string }): Promise<void> {
+        this.calls.push(`config:${config.permissionMode}`)
+    }
+
+    async uploadFile(_sessionId: string, filename: string): Promise<{ success: boolean; path?: string; error?: string }> {
+        this.calls.push(`upload:${filename}`)
+        return this.uploadFails ? { success: false, error: 'disk full' } : { success: true, path: `/uploads/${filename}` }
+    }
+
+    async sendMessage(sessionId: string, payload: { text: string; attachments?: Array<{ filename: string; path: string }> }): Promise<void> {
+        this.calls.push('send')
+        this.sent.push({ sessionId, text: payload.text, attachments: payload.attachments })
+    }
+}
+
+function createTemplate(overrides: Partial<StoredSessionTemplate> = {}): StoredSessionTemplate {
+    return {
+        id: 'template-1',
+        namespace: 'default',
+        name: 'Fix Bugs',
+        machineId: 'machine-1',
+        directory: '/repo',
+        agent: 'codex',
+        model: null,
+        permissionMode: null,
+        sessionType: 'simple',
+        worktreeNamePattern: null,
+        initialPrompt: null,
+        attachments: [],
+        createdAt: 0,
+        updatedAt: 0,
+        ...overrides
+    }
+}
+
+function launch(engine: FakeSyncEngine, template: StoredSessionTemplate, machineId?: string) {
+    return launchSessionTemplate(engine as unknown as SyncEngine, template, { machineId, now: new Date(2026, 2, 5, 9, 7) })
+}
+
+describe('expandWorktreeName', () => {
+    it('fills in the name, date, time and random placeholders', () => {
+        const name = expandWorktreeName('{name}-{date}-{time}-{random}', 'Fix Bugs!', new Date(2026, 2, 5, 9, 7), () => 'beef')
+        expect(name).toBe('fix-bugs-20260305-0907-beef')
+    })
+
+    it('draws a new random value for every placeholder', () => {
+        let counter = 0
+        const name = expandWorktreeName('{random}-{random}', 'x', new Date(), () => String(++counter))
+        expect(name).toBe('1-2')
+    })
+})
+
+describe('launchSessionTemplate', () => {
+    it('only spawns when the template has no setup steps', async () => {
+        const engine = new FakeSyncEngine()
+        const result = await launch(engine, createTemplate())
+
+        expect(result).toEqual({ type: 'success', sessionId: 'session-1' })
+        expect(engine.calls).toEqual(['spawn'])
+        expect(engine.spawned[0]).toEqual(['machine-1', '/repo', 'codex', undefined, false, 'simple', undefined])
+    })
+
+    it('spawns worktree sessions with the expanded name on the requested machine', async () => {
+        const engine = new FakeSyncEngine()
+        await launch(engine, createTemplate({ sessionType: 'worktree', worktreeNamePattern: '{name}-{date}', model: 'gpt-5' }), 'machine-2')
+
+        expect(engine.spawned[0]).toEqual(['machine-2', '/repo', 'codex', 'gpt-5', false, 'worktree', 'fix-bugs-20260305'])
+    })
+
+    it('launches ACP agents only on machines that declare them', async () => {
+        const engine = new FakeSyncEngine()
+        const template = createTemplate({ agent: 'acp:kimi' })
+
+        expect(await launch(engine, template)).toEqual({ type: 'error', message: 'Agent kimi is not configured on this machine' })
+        expect(engine.calls).toEqual([])
+
+        engine.acpAgents = [{ name: 'kimi', permissionModes: ['default'] }]
+        expect(await launch(engine, template)).toEqual({ type: 'success', sessionId: 'session-1' })
+        expect(engine.spawned[0]?.[2]).toBe('acp:kimi')
+    })
+
+    it('applies the permission mode, uploads attachments and sends the prompt in order', async () => {
+        const engine = new FakeSyncEngine()
+        const result = await launch(engine, createTemplate({
+            permissionMode: 'yolo',
+            initialPrompt: 'Triage the open issues',
+            attachments: [{ filename: 'notes.md', mimeType: 'text/markdown', size: 5, content: 'aGVsbG8=' }]
+        }))
+
+        expect(result).toEqual({ type: 'success', sessionId: 'session-1' })
+        expect(engine.calls).toEqual(['spawn', 'wait', 'config:yolo', 'upload:notes.md', 'send'])
+        expect(engine.sent[0]?.text).toBe('Triage the open issues')
+        expect(engine.sent[0]?.attachments?.[0]).toMatchObject({ filename: 'notes.md', path: '/uploads/notes.md' })
+    })
+
+    it('keeps the session and reports a warning when setup fails', async () => {
+        const engine = new FakeSyncEngine()
+        engine.uploadFails = true
+        const result = await launch(engine, createTemplate({
+            initialPrompt: 'Go',
+            attachments: [{ filename: 'notes.md', mimeType: 'text/markdown', size: 5, content: 'aGVsbG8=' }]
+        }))
+
+        expect(result).toEqual({ type: 'success', sessionId: 'session-1', warning: 'Failed to upload notes.md: disk full' })
+        expect(engine.sent).toEqual([])
+    })
+
+    it('skips setup when the session never becomes active', async () => {
+        const engine = new FakeSyncEngine()
+        engine.active = false
+        const result = await launch(engine, createTemplate({ initialPrompt: 'Go' }))
+
+        expect(result.type).toBe('success')
+        expect(result.type === 'success' ? result.warning : null).toContain('did not become active')
+        expect(engine.calls).toEqual(['spawn', 'wait'])
+    })
+})
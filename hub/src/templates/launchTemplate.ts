@@ -0,0 +1,124 @@
+import { randomBytes, randomUUID } from 'node:crypto'
+import type { AttachmentMetadata } from '@hapi/protocol/types'
+import type { StoredSessionTemplate } from '../store'
+import { getSpawnAgentError } from '../sync/spawnAgents'
+import type { SyncEngine } from '../sync/syncEngine'
+
+export type TemplateLaunchResult =
+    | { type: 'success'; sessionId: string; warning?: string }
+    | { type: 'error'; message: string }
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0')
+}
+
+function slugify(value: string): string {
+    const slug = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+    return slug.length > 0 ? slug : 'template'
+}
+
+/**
+ * Fills in a worktree name pattern: {name} is the template name as a slug,
+ * {date} is YYYYMMDD and {time} is HHMM in the hub's local time, and
+ * {random} is four hex digits.
+ */
+export function expandWorktreeName(
+    pattern: string,
+    templateName: string,
+    now: Date,
+    random: () => string = () => randomBytes(2).toString('hex')
+): string {
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`
+    const time = `${pad(now.getHours())}${pad(now.getMinutes())}`
+    return pattern
+        .replaceAll('{name}', slugify(templateName))
+        .replaceAll('{date}', date)
+        .replaceAll('{time}', time)
+        .replaceAll('{random}', () => random())
+}
+
+function needsSetup(template: StoredSessionTemplate): boolean {
+    return template.permissionMode !== null || template.initialPrompt !== null || template.attachments.length > 0
+}
+
+/**
+ * Spawns a session from a template, then applies its permission mode and
+ * sends its initial prompt with any attachments. The session is kept if a
+ * setup step fails; the failure is returned as a warning.
+ */
+export async function launchSessionTemplate(
+    engine: Pick<SyncEngine, 'getMachine' | 'spawnSession' | 'waitForSessionActive' | 'applySessionConfig' | 'uploadFile' | 'sendMessage'>,
+    template: StoredSessionTemplate,
+    options: { machineId?: string; now?: Date } = {}
+): Promise<TemplateLaunchResult> {
+    const machineId = options.machineId ?? template.machineId
+    // The machine may have dropped the ACP agent since the template was saved
+    const machine = engine.getMachine(machineId)
+    const agentError = machine ? getSpawnAgentError(machine, template.agent) : null
+    if (agentError) {
+        return { type: 'error', message: agentError }
+    }
+
+    const worktreeName = template.sessionType === 'worktree' && template.worktreeNamePattern
+        ? expandWorktreeName(template.worktreeNamePattern, template.name, options.now ?? new Date())
+        : undefined
+
+    const result = await engine.spawnSession(
+        machineId,
+        template.directory,
+        template.agent,
+        template.model ?? undefined,
+        false,
+        template.sessionType,
+        worktreeName
+    )
+    if (result.type !== 'success' || !needsSetup(template)) {
+        return result
+    }
+
+    const sessionId = result.sessionId
+    if (!await engine.waitForSessionActive(sessionId)) {
+        return { type: 'success', sessionId, warning: 'Session did not become active; template setup was skipped' }
+    }
+
+    if (template.permissionMode) {
+        try {
+            await engine.applySessionConfig(sessionId, { permissionMode: template.permissionMode })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'unknown error'
+            return { type: 'success', sessionId, warning: `Failed to set permission mode: ${message}` }
+        }
+    }
+
+    if (!template.initialPrompt) {
+        return { type: 'success', sessionId }
+    }
+
+    const attachments: AttachmentMetadata[] = []
+    for (const attachment of template.attachments) {
+        const upload = await engine.uploadFile(sessionId, attachment.filename, attachment.content, attachment.mimeType)
+        if (!upload.success || !upload.path) {
+            return { type: 'success', sessionId, warning: `Failed to upload ${attachment.filename}: ${upload.error ?? 'unknown error'}` }
+        }
+        attachments.push({
+            id: randomUUID(),
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            size: attachment.size,
+            path: upload.path
+        })
+    }
+
+    try {
+        await engine.sendMessage(sessionId, {
+            text: template.initialPrompt,
+            attachments: attachments.length > 0 ? attachments : undefined,
+            sentFrom: 'template'
+        })
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'unknown error'
+        return { type: 'success', sessionId, warning: `Failed to send the initial prompt: ${message}` }
+    }
+
+    return { type: 'success', sessionId }
+}
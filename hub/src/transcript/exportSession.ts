@@ -0,0 +1,25 @@
+import type { Session, SyncEngine } from '../sync/syncEngine'
+import { renderTranscript, type RenderedTranscript, type TranscriptFormat } from './render'
+import { buildTranscript, loadSessionMessages } from './transcript'
+
+export type ExportedTranscript = RenderedTranscript & {
+    filename: string
+}
+
+function toFilenameSlug(name: string): string {
+    const slug = name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60)
+    return slug || 'session'
+}
+
+export function exportSessionTranscript(engine: SyncEngine, session: Session, format: TranscriptFormat): ExportedTranscript {
+    const transcript = buildTranscript(session, loadSessionMessages(engine, session.id))
+    const rendered = renderTranscript(transcript, format)
+    return {
+        ...rendered,
+        filename: `${toFilenameSlug(transcript.session.name)}-${session.id.slice(0, 8)}.${rendered.extension}`
+    }
+}
@@ -0,0 +1,218 @@
+import type { Transcript, TranscriptEntry, TranscriptPermission } from './transcript'
+
+export const TRANSCRIPT_FORMATS = ['md', 'json', 'html'] as const
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number]
+
+// Tool output can be megabytes; readable formats keep the head, JSON keeps everything
+const MAX_RENDERED_BLOCK_LENGTH = 20_000
+
+export type RenderedTranscript = {
+    body: string
+    contentType: string
+    extension: string
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toISOString()
+}
+
+function stringifyValue(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    if (typeof value === 'string') return value
+    // Claude tool results are usually an array of text blocks
+    if (Array.isArray(value) && value.every((block) => typeof block === 'object' && block !== null && 'text' in block)) {
+        return value.map((block) => String((block as { text: unknown }).text)).join('\n')
+    }
+    try {
+        return JSON.stringify(value, null, 2) ?? ''
+    } catch {
+        return String(value)
+    }
+}
+
+function truncate(text: string): string {
+    if (text.length <= MAX_RENDERED_BLOCK_LENGTH) return text
+    const omitted = text.length - MAX_RENDERED_BLOCK_LENGTH
+    return `${text.slice(0, MAX_RENDERED_BLOCK_LENGTH)}\n… (${omitted} more characters)`
+}
+
+function describePermission(permission: TranscriptPermission | null): string | null {
+    if (!permission) return null
+    const parts: string[] = [permission.status]
+    if (permission.decision === 'approved_for_session') parts.push('for session')
+    if (permission.mode) parts.push(`mode: ${permission.mode}`)
+    if (permission.reason) parts.push(`reason: ${permission.reason}`)
+    return parts.join(', ')
+}
+
+function todoMarker(status: string): string {
+    if (status === 'completed') return '[x]'
+    if (status === 'in_progress') return '[~]'
+    return '[ ]'
+}
+
+function describeSession(transcript: Transcript): Array<[string, string]> {
+    const { session } = transcript
+    const rows: Array<[string, string]> = [['Session', session.id]]
+    if (session.flavor) rows.push(['Agent', session.flavor])
+    if (session.path) rows.push(['Path', session.path])
+    if (session.machineId) rows.push(['Machine', session.machineId])
+    rows.push(['Started', formatTime(session.createdAt)])
+    rows.push(['Exported', formatTime(transcript.exportedAt)])
+    return rows
+}
+
+// Picks a fence longer than any backtick run inside the block
+function codeFence(text: string, language: string = ''): string {
+    const longestRun = Math.max(0, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length))
+    const fence = '`'.repeat(Math.max(3, longestRun + 1))
+    return `${fence}${language}\n${text}\n${fence}`
+}
+
+function renderMarkdownEntry(entry: TranscriptEntry): string {
+    const time = formatTime(entry.createdAt)
+    switch (entry.kind) {
+        case 'user': {
+            const attachments = entry.attachments.length > 0
+                ? `\n\nAttachments: ${entry.attachments.map((name) => `\`${name}\``).join(', ')}`
+                : ''
+            return `## User · ${time}\n\n${entry.text}${attachments}`
+        }
+        case 'assistant':
+            return `## Assistant · ${time}\n\n${entry.text}`
+        case 'reasoning':
+            return `<details>\n<summary>Reasoning</summary>\n\n${entry.text}\n\n</details>`
+        case 'tool': {
+            const permission = describePermission(entry.permission)
+            const lines = [`### Tool: ${entry.name}${entry.isError ? ' (error)' : ''}`]
+            if (permission) lines.push(`Permission: ${permission}`)
+            lines.push('**Input**', codeFence(truncate(stringifyValue(entry.input)), 'json'))
+            const result = stringifyValue(entry.result)
+            if (result) lines.push('**Result**', codeFence(truncate(result)))
+            return lines.join('\n\n')
+        }
+        case 'todos':
+            return `### Todos · ${time}\n\n${entry.todos.map((todo) => `- ${todoMarker(todo.status)} ${todo.content}`).join('\n')}`
+        case 'event':
+            return `> ${entry.text.split('\n').join('\n> ')}`
+    }
+}
+
+export function renderTranscriptMarkdown(transcript: Transcript): string {
+    const header = [
+        `# ${transcript.session.name}`,
+        describeSession(transcript).map(([label, value]) => `- ${label}: \`${value}\``).join('\n')
+    ]
+    const body = transcript.entries.map(renderMarkdownEntry)
+    return `${[...header, '---', ...body].join('\n\n')}\n`
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+}
+
+const HTML_STYLES = `
+body{margin:0;background:#f6f7f9;color:#111827;font:15px/1.55 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif}
+main{max-width:860px;margin:0 auto;padding:24px 16px 48px}
+h1{font-size:22px;margin:0 0 8px}
+dl.meta{display:grid;grid-template-columns:max-content 1fr;gap:2px 12px;margin:0 0 24px;font-size:13px;color:#4b5563}
+dl.meta dt{font-weight:600}dl.meta dd{margin:0;font-family:ui-monospace,SFMono-Regular,Menlo,monospace;word-break:break-all}
+.entry{margin:12px 0;padding:12px 14px;border-radius:10px;background:#fff;border:1px solid #e5e7eb}
+.entry.user{background:#eef2ff;border-color:#c7d2fe}
+.entry.event{background:transparent;border:none;padding:4px 0;text-align:center;color:#6b7280;font-size:13px}
+.label{font-size:12px;font-weight:600;color:#6b7280;margin-bottom:6px;display:flex;gap:8px;flex-wrap:wrap}
+.label time{font-weight:400}
+.text{white-space:pre-wrap;word-break:break-word}
+pre{margin:6px 0 0;padding:10px;background:#f3f4f6;border-radius:8px;overflow-x:auto;font:12.5px/1.45 ui-monospace,SFMono-Regular,Menlo,monospace;white-space:pre-wrap;word-break:break-word}
+details summary{cursor:pointer;color:#4b5563;font-size:13px}
+.badge{border-radius:999px;padding:0 8px;background:#e5e7eb;color:#374151}
+.badge.approved{background:#d1fae5;color:#065f46}.badge.denied,.badge.error{background:#fee2e2;color:#991b1b}.badge.pending{background:#fef3c7;color:#92400e}
+ul.todos{margin:0;padding-left:20px}ul.todos li.completed{text-decoration:line-through;color:#6b7280}
+@media (prefers-color-scheme:dark){body{background:#0f1115;color:#e5e7eb}.entry{background:#171a21;border-color:#2a2f3a}.entry.user{background:#1e2235;border-color:#343b5c}pre{background:#0b0d12}.badge{background:#2a2f3a;color:#d1d5db}dl.meta,.label,details summary{color:#9ca3af}}
+`
+
+function renderHtmlLabel(title: string, createdAt: number, badges: Array<{ text: string; className: string }> = []): string {
+    const badgeHtml = badges
+        .map((badge) => `<span class="badge ${badge.className}">${escapeHtml(badge.text)}</span>`)
+        .join('')
+    return `<div class="label"><span>${escapeHtml(title)}</span><time datetime="${formatTime(createdAt)}">${formatTime(createdAt)}</time>${badgeHtml}</div>`
+}
+
+function renderHtmlEntry(entry: TranscriptEntry): string {
+    switch (entry.kind) {
+        case 'user': {
+            const attachments = entry.attachments.length > 0
+                ? `<div class="label">Attachments: ${entry.attachments.map(escapeHtml).join(', ')}</div>`
+                : ''
+            return `<section class="entry user">${renderHtmlLabel('User', entry.createdAt)}<div class="text">${escapeHtml(entry.text)}</div>${attachments}</section>`
+        }
+        case 'assistant':
+            return `<section class="entry assistant">${renderHtmlLabel('Assistant', entry.createdAt)}<div class="text">${escapeHtml(entry.text)}</div></section>`
+        case 'reasoning':
+            return `<section class="entry reasoning"><details><summary>Reasoning</summary><div class="text">${escapeHtml(entry.text)}</div></details></section>`
+        case 'tool': {
+            const badges: Array<{ text: string; className: string }> = []
+            const permission = describePermission(entry.permission)
+            if (entry.permission && permission) badges.push({ text: permission, className: entry.permission.status })
+            if (entry.isError) badges.push({ text: 'error', className: 'error' })
+            const result = stringifyValue(entry.result)
+            const resultHtml = result
+                ? `<details><summary>Result</summary><pre>${escapeHtml(truncate(result))}</pre></details>`
+                : ''
+            return `<section class="entry tool">${renderHtmlLabel(`Tool: ${entry.name}`, entry.createdAt, badges)}<details><summary>Input</summary><pre>${escapeHtml(truncate(stringifyValue(entry.input)))}</pre></details>${resultHtml}</section>`
+        }
+        case 'todos': {
+            const items = entry.todos
+                .map((todo) => `<li class="${escapeHtml(todo.status)}">${escapeHtml(`${todoMarker(todo.status)} ${todo.content}`)}</li>`)
+                .join('')
+            return `<section class="entry todos">${renderHtmlLabel('Todos', entry.createdAt)}<ul class="todos">${items}</ul></section>`
+        }
+        case 'event':
+            return `<section class="entry event">${escapeHtml(entry.text)}</section>`
+    }
+}
+
+/**
+ * Renders a single self-contained HTML document (inline styles, no scripts)
+ * suitable for attaching to reviews or incident reports.
+ */
+export function renderTranscriptHtml(transcript: Transcript): string {
+    const meta = describeSession(transcript)
+        .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('')
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(transcript.session.name)}</title>`,
+        `<style>${HTML_STYLES}</style>`,
+        '</head>',
+        '<body>',
+        '<main>',
+        `<h1>${escapeHtml(transcript.session.name)}</h1>`,
+        `<dl class="meta">${meta}</dl>`,
+        ...transcript.entries.map(renderHtmlEntry),
+        '</main>',
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n')
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): RenderedTranscript {
+    switch (format) {
+        case 'md':
+            return { body: renderTranscriptMarkdown(transcript), contentType: 'text/markdown; charset=utf-8', extension: 'md' }
+        case 'html':
+            return { body: renderTranscriptHtml(transcript), contentType: 'text/html; charset=utf-8', extension: 'html' }
+        case 'json':
+            return { body: `${JSON.stringify(transcript, null, 2)}\n`, contentType: 'application/json; charset=utf-8', extension: 'json' }
+    }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'bun:test'
+import type { DecryptedMessage } from '@hapi/protocol/types'
+import type { Session } from '../sync/syncEngine'
+import { renderTranscriptHtml, renderTranscriptMarkdown } from './render'
+import { buildTranscript } from './transcript'
+
+function createSession(overrides: Partial<Session> = {}): Session {
+    return {
+        id: 'session-1',
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: false,
+        activeAt: 0,
+        metadata: { path: '/repo', host: 'host', name: 'Fix login', flavor: 'claude' },
+        metadataVersion: 0,
+        agentState: null,
+        agentStateVersion: 0,
+        thinking: false,
+        thinkingAt: 0,
+        ...overrides
+    }
+}
+
+let nextSeq = 1
+function message(content: unknown): DecryptedMessage {
+    const seq = nextSeq++
+    return { id: `m${seq}`, seq, localId: null, content, createdAt: seq * 1000 }
+}
+
+function claudeOutput(data: Record<string, unknown>): DecryptedMessage {
+    return message({ role: 'agent', content: { type: 'output', data } })
+}
+
+const messages: DecryptedMessage[] = [
+    message({ role: 'user', content: { type: 'text', text: 'Please fix <login>' } }),
+    claudeOutput({
+        type: 'assistant',
+        message: {
+            content: [
+                { type: 'thinking', thinking: 'Look at auth.ts' },
+                { type: 'text', text: 'Running the tests.' },
+                { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'npm test' } },
+                { type: 'tool_use', id: 'tool-2', name: 'Bash', input: { command: 'rm -rf /' } },
+                { type: 'tool_use', id: 'tool-3', name: 'TodoWrite', input: { todos: [{ id: '1', content: 'Fix bug', status: 'in_progress', priority: 'high' }] } }
+            ]
+        }
+    }),
+    claudeOutput({
+        type: 'user',
+        message: { content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'ok ```' }] }
+    }),
+    claudeOutput({ type: 'assistant', isSidechain: true, message: { content: [{ type: 'text', text: 'subagent' }] } }),
+    message({ role: 'agent', content: { type: 'codex', data: { type: 'message', message: 'Done.' } } }),
+    message({ role: 'agent', content: { type: 'event', data: { type: 'switch', mode: 'local' } } })
+]
+
+describe('buildTranscript', () => {
+    it('flattens messages into a timeline with tool results and permissions', () => {
+        const session = createSession({
+            agentState: {
+                completedRequests: {
+                    'tool-2': { tool: 'Bash', arguments: {}, status: 'denied', reason: 'Too dangerous' }
+                }
+            }
+        })
+        const transcript = buildTranscript(session, messages, 5000)
+
+        expect(transcript.session.name).toBe('Fix login')
+        expect(transcript.entries.map((entry) => entry.kind)).toEqual([
+            'user', 'reasoning', 'assistant', 'tool', 'tool', 'todos', 'assistant'
+        ])
+
+        const [first, second] = transcript.entries.filter((entry) => entry.kind === 'tool')
+        expect(first).toMatchObject({ name: 'Bash', result: 'ok ```', permission: null })
+        expect(second).toMatchObject({
+            result: null,
+            permission: { status: 'denied', reason: 'Too dangerous' }
+        })
+
+        const todos = transcript.entries.find((entry) => entry.kind === 'todos')
+        expect(todos).toMatchObject({ todos: [{ content: 'Fix bug', status: 'in_progress' }] })
+    })
+})
+
+describe('renderTranscript', () => {
+    const transcript = buildTranscript(createSession(), messages, 5000)
+
+    it('renders markdown with fences that survive backticks in tool output', () => {
+        const markdown = renderTranscriptMarkdown(transcript)
+        expect(markdown).toStartWith('# Fix login\n')
+        expect(markdown).toContain('## User · 1970-01-01T00:00:01.000Z\n\nPlease fix <login>')
+        expect(markdown).toContain('````\nok ```\n````')
+        expect(markdown).toContain('- [~] Fix bug')
+    })
+
+    it('renders a self-contained html document with escaped content', () => {
+        const html = renderTranscriptHtml(transcript)
+        expect(html).toStartWith('<!DOCTYPE html>')
+        expect(html).toContain('Please fix &lt;login&gt;')
+        expect(html).not.toContain('<script')
+        expect(html).not.toMatch(/<link|src="http/)
+    })
+})
@@ -0,0 +1,271 @@
+import { asString, isObject } from '@hapi/protocol'
+import { unwrapRoleWrappedRecordEnvelope } from '@hapi/protocol/messages'
+import type { DecryptedMessage, TodoItem } from '@hapi/protocol/types'
+import { getSessionName } from '../notifications/sessionInfo'
+import type { Session, SyncEngine } from '../sync/syncEngine'
+import { extractTodoWriteTodosFromMessageContent } from '../sync/todos'
+
+const MESSAGE_PAGE_SIZE = 200
+
+export type TranscriptPermission = {
+    status: 'pending' | 'approved' | 'denied' | 'canceled'
+    decision: string | null
+    reason: string | null
+    mode: string | null
+}
+
+export type TranscriptEntry =
+    | { kind: 'user'; createdAt: number; text: string; attachments: string[] }
+    | { kind: 'assistant'; createdAt: number; text: string }
+    | { kind: 'reasoning'; createdAt: number; text: string }
+    | {
+        kind: 'tool'
+        createdAt: number
+        id: string
+        name: string
+        input: unknown
+        result: unknown
+        isError: boolean
+        permission: TranscriptPermission | null
+    }
+    | { kind: 'todos'; createdAt: number; todos: TodoItem[] }
+    | { kind: 'event'; createdAt: number; text: string }
+
+export type TranscriptToolEntry = Extract<TranscriptEntry, { kind: 'tool' }>
+
+export type Transcript = {
+    session: {
+        id: string
+        name: string
+        path: string | null
+        flavor: string | null
+        machineId: string | null
+        createdAt: number
+        updatedAt: number
+    }
+    exportedAt: number
+    entries: TranscriptEntry[]
+}
+
+type TranscriptBuilder = {
+    entries: TranscriptEntry[]
+    tools: Map<string, TranscriptToolEntry>
+}
+
+function addToolCall(builder: TranscriptBuilder, createdAt: number, id: string, name: string, input: unknown): void {
+    // TodoWrite calls are exported as todo lists instead
+    if (name === 'TodoWrite') {
+        return
+    }
+    const entry: TranscriptToolEntry = {
+        kind: 'tool',
+        createdAt,
+        id,
+        name,
+        input,
+        result: null,
+        isError: false,
+        permission: null
+    }
+    builder.tools.set(id, entry)
+    builder.entries.push(entry)
+}
+
+function addToolResult(builder: TranscriptBuilder, id: string, result: unknown, isError: boolean, permissions: unknown): void {
+    const entry = builder.tools.get(id)
+    if (!entry) {
+        return
+    }
+    entry.result = result
+    entry.isError = isError
+    if (isObject(permissions) && (permissions.result === 'approved' || permissions.result === 'denied')) {
+        entry.permission = {
+            status: permissions.result,
+            decision: asString(permissions.decision),
+            reason: null,
+            mode: asString(permissions.mode)
+        }
+    }
+}
+
+function addUserRecord(builder: TranscriptBuilder, createdAt: number, content: unknown): void {
+    if (typeof content === 'string') {
+        builder.entries.push({ kind: 'user', createdAt, text: content, attachments: [] })
+        return
+    }
+    if (isObject(content) && content.type === 'text' && typeof content.text === 'string') {
+        const attachments = Array.isArray(content.attachments)
+            ? content.attachments
+                .map((attachment) => isObject(attachment) ? asString(attachment.filename) : null)
+                .filter((filename): filename is string => filename !== null)
+            : []
+        builder.entries.push({ kind: 'user', createdAt, text: content.text, attachments })
+    }
+}
+
+function addClaudeOutput(builder: TranscriptBuilder, createdAt: number, data: Record<string, unknown>): void {
+    // Sub-agent (sidechain) traffic and internal meta messages are not part of the main conversation
+    if (data.isSidechain || data.isMeta || data.isCompactSummary) {
+        return
+    }
+
+    if (data.type === 'summary' && typeof data.summary === 'string') {
+        builder.entries.push({ kind: 'event', createdAt, text: `Summary: ${data.summary}` })
+        return
+    }
+
+    const message = isObject(data.message) ? data.message : null
+    if (!message) {
+        return
+    }
+    const content = message.content
+
+    if (data.type === 'assistant') {
+        if (typeof content === 'string') {
+            builder.entries.push({ kind: 'assistant', createdAt, text: content })
+            return
+        }
+        if (!Array.isArray(content)) return
+        for (const block of content) {
+            if (!isObject(block)) continue
+            if (block.type === 'text' && typeof block.text === 'string') {
+                builder.entries.push({ kind: 'assistant', createdAt, text: block.text })
+            } else if (block.type === 'thinking' && typeof block.thinking === 'string') {
+                builder.entries.push({ kind: 'reasoning', createdAt, text: block.thinking })
+            } else if (block.type === 'tool_use' && typeof block.id === 'string') {
+                addToolCall(builder, createdAt, block.id, asString(block.name) ?? 'Tool', block.input)
+            }
+        }
+        return
+    }
+
+    if (data.type === 'user') {
+        if (typeof content === 'string') {
+            builder.entries.push({ kind: 'user', createdAt, text: content, attachments: [] })
+            return
+        }
+        if (!Array.isArray(content)) return
+        for (const block of content) {
+            if (!isObject(block)) continue
+            if (block.type === 'text' && typeof block.text === 'string') {
+                builder.entries.push({ kind: 'user', createdAt, text: block.text, attachments: [] })
+            } else if (block.type === 'tool_result' && typeof block.tool_use_id === 'string') {
+                addToolResult(builder, block.tool_use_id, block.content, Boolean(block.is_error), block.permissions)
+            }
+        }
+    }
+}
+
+function addCodexMessage(builder: TranscriptBuilder, createdAt: number, data: Record<string, unknown>): void {
+    if (data.type === 'message' && typeof data.message === 'string') {
+        builder.entries.push({ kind: 'assistant', createdAt, text: data.message })
+    } else if (data.type === 'reasoning' && typeof data.message === 'string') {
+        builder.entries.push({ kind: 'reasoning', createdAt, text: data.message })
+    } else if (data.type === 'tool-call' && typeof data.callId === 'string') {
+        addToolCall(builder, createdAt, data.callId, asString(data.name) ?? 'unknown', data.input)
+    } else if (data.type === 'tool-call-result' && typeof data.callId === 'string') {
+        addToolResult(builder, data.callId, data.output, false, null)
+    }
+}
+
+function addAgentEvent(builder: TranscriptBuilder, createdAt: number, data: Record<string, unknown>): void {
+    if (data.type === 'message' && typeof data.message === 'string') {
+        builder.entries.push({ kind: 'event', createdAt, text: data.message })
+    } else if (data.type === 'title-changed' && typeof data.title === 'string') {
+        builder.entries.push({ kind: 'event', createdAt, text: `Title changed to "${data.title}"` })
+    } else if (data.type === 'limit-reached') {
+        builder.entries.push({ kind: 'event', createdAt, text: 'Usage limit reached' })
+    }
+}
+
+function addMessage(builder: TranscriptBuilder, message: DecryptedMessage): void {
+    const record = unwrapRoleWrappedRecordEnvelope(message.content)
+    if (!record) {
+        return
+    }
+
+    if (record.role === 'user') {
+        addUserRecord(builder, message.createdAt, record.content)
+        return
+    }
+
+    const content = isObject(record.content) ? record.content : null
+    const data = content && isObject(content.data) ? content.data : null
+    if (!content || !data) {
+        return
+    }
+
+    if (content.type === 'output') {
+        addClaudeOutput(builder, message.createdAt, data)
+    } else if (content.type === 'codex') {
+        addCodexMessage(builder, message.createdAt, data)
+    } else if (content.type === 'event') {
+        addAgentEvent(builder, message.createdAt, data)
+    }
+
+    const todos = extractTodoWriteTodosFromMessageContent(message.content)
+    if (todos) {
+        builder.entries.push({ kind: 'todos', createdAt: message.createdAt, todos })
+    }
+}
+
+// Decisions recorded in agent state are authoritative: they carry the deny reason
+function applyAgentStatePermissions(builder: TranscriptBuilder, session: Session): void {
+    for (const [id, request] of Object.entries(session.agentState?.completedRequests ?? {})) {
+        const entry = builder.tools.get(id)
+        if (!entry) continue
+        entry.permission = {
+            status: request.status,
+            decision: request.decision ?? null,
+            reason: request.reason ?? null,
+            mode: request.mode ?? null
+        }
+    }
+    for (const id of Object.keys(session.agentState?.requests ?? {})) {
+        const entry = builder.tools.get(id)
+        if (!entry) continue
+        entry.permission = { status: 'pending', decision: null, reason: null, mode: null }
+    }
+}
+
+/**
+ * Flattens stored messages into a chronological timeline of user turns,
+ * assistant text, reasoning, tool calls (with results and permission
+ * decisions), todo updates and notable events.
+ */
+export function buildTranscript(session: Session, messages: DecryptedMessage[], exportedAt: number = Date.now()): Transcript {
+    const builder: TranscriptBuilder = { entries: [], tools: new Map() }
+    for (const message of messages) {
+        addMessage(builder, message)
+    }
+    applyAgentStatePermissions(builder, session)
+
+    return {
+        session: {
+            id: session.id,
+            name: getSessionName(session),
+            path: session.metadata?.path ?? null,
+            flavor: session.metadata?.flavor ?? null,
+            machineId: session.metadata?.machineId ?? null,
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt
+        },
+        exportedAt,
+        entries: builder.entries
+    }
+}
+
+export function loadSessionMessages(engine: SyncEngine, sessionId: string): DecryptedMessage[] {
+    const messages: DecryptedMessage[] = []
+    let afterSeq = 0
+    while (true) {
+        const page = engine.getMessagesAfter(sessionId, { afterSeq, limit: MESSAGE_PAGE_SIZE })
+        messages.push(...page)
+        const last = page[page.length - 1]
+        if (page.length < MESSAGE_PAGE_SIZE || !last || last.seq === null) {
+            break
+        }
+        afterSeq = last.seq
+    }
+    return messages
+}
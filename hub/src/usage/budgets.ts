@@ -0,0 +1,76 @@
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
+import type { StoredUsageBudget, UsageStore } from '../store'
+import type { Session } from '../sync/syncEngine'
+
+/**
+ * Start of the window a budget's period currently covers, in the hub's local
+ * time zone; null for budgets that count all recorded usage.
+ */
+export function getBudgetWindowStart(period: StoredUsageBudget['period'], now: number = Date.now()): number | null {
+    const date = new Date(now)
+    if (period === 'day') {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    }
+    if (period === 'month') {
+        return new Date(date.getFullYear(), date.getMonth(), 1).getTime()
+    }
+    return null
+}
+
+export function getBudgetStatus(usage: UsageStore, budget: StoredUsageBudget, now: number = Date.now()): UsageBudgetStatus {
+    const windowStart = getBudgetWindowStart(budget.period, now)
+    const totals = usage.getTotals(budget.namespace, {
+        sessionId: budget.scope === 'session' ? budget.scopeId ?? undefined : undefined,
+        machineId: budget.scope === 'machine' ? budget.scopeId ?? undefined : undefined,
+        from: windowStart ?? undefined
+    })
+    const usedTokens = totals.inputTokens + totals.outputTokens
+    const usedUsd = totals.costUsd
+    const exceeded = (budget.limitTokens !== null && usedTokens >= budget.limitTokens)
+        || (budget.limitUsd !== null && usedUsd >= budget.limitUsd)
+
+    return { budget, windowStart, usedTokens, usedUsd, exceeded }
+}
+
+export function budgetAppliesToSession(budget: StoredUsageBudget, session: Session): boolean {
+    if (!budget.enabled || budget.namespace !== session.namespace) {
+        return false
+    }
+    if (budget.scope === 'session') {
+        return budget.scopeId === session.id
+    }
+    if (budget.scope === 'machine') {
+        return budget.scopeId !== null && budget.scopeId === session.metadata?.machineId
+    }
+    return true
+}
+
+export function getSessionBudgetStatuses(usage: UsageStore, session: Session, now: number = Date.now()): UsageBudgetStatus[] {
+    return usage.getBudgets(session.namespace)
+        .filter((budget) => budgetAppliesToSession(budget, session))
+        .map((budget) => getBudgetStatus(usage, budget, now))
+}
+
+/**
+ * The exceeded 'pause' budget that blocks new prompts to the session, if any
+ */
+export function findPausingBudget(usage: UsageStore, session: Session, now: number = Date.now()): UsageBudgetStatus | null {
+    return getSessionBudgetStatuses(usage, session, now)
+        .find((status) => status.exceeded && status.budget.action === 'pause') ?? null
+}
+
+/**
+ * One-line summary for notifications, e.g. "Daily cap: $5.20 of $5.00 today"
+ */
+export function formatBudgetUsage(status: UsageBudgetStatus): string {
+    const { budget } = status
+    const parts: string[] = []
+    if (budget.limitUsd !== null) {
+        parts.push(`$${status.usedUsd.toFixed(2)} of $${budget.limitUsd.toFixed(2)}`)
+    }
+    if (budget.limitTokens !== null) {
+        parts.push(`${status.usedTokens.toLocaleString('en-US')} of ${budget.limitTokens.toLocaleString('en-US')} tokens`)
+    }
+    const period = budget.period === 'day' ? ' today' : budget.period === 'month' ? ' this month' : ''
+    return `${budget.name}: ${parts.join(', ')}${period}`
+}
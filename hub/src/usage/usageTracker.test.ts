@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
+import { Store } from '../store'
+import type { Session, SyncEngine, SyncEvent } from '../sync/syncEngine'
+import { findPausingBudget, getBudgetWindowStart } from './budgets'
+import { UsageTracker } from './usageTracker'
+
+class FakeSyncEngine {
+    readonly sessions: Map<string, Session> = new Map()
+    readonly aborted: string[] = []
+    private listener: ((event: SyncEvent) => void) | null = null
+
+    subscribe(listener: (event: SyncEvent) => void): () => void {
+        this.listener = listener
+        return () => {
+            this.listener = null
+        }
+    }
+
+    emit(event: SyncEvent): void {
+        this.listener?.(event)
+    }
+
+    getSession(sessionId: string): Session | undefined {
+        return this.sessions.get(sessionId)
+    }
+
+    async abortSession(sessionId: string): Promise<void> {
+        this.aborted.push(sessionId)
+    }
+}
+
+function createSession(overrides: Partial<Session> = {}): Session {
+    return {
+        id: 'session-1',
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: true,
+        activeAt: 0,
+        metadata: { path: '/work/project', host: 'devbox', flavor: 'claude', machineId: 'machine-1' },
+        metadataVersion: 0,
+        agentState: null,
+        agentStateVersion: 0,
+        thinking: true,
+        thinkingAt: 0,
+        ...overrides
+    }
+}
+
+function usageEvent(sessionId: string, outputTokens: number, costUsd: number | null): SyncEvent {
+    return {
+        type: 'message-received',
+        sessionId,
+        message: {
+            id: `message-${outputTokens}`,
+            seq: 1,
+            localId: null,
+            createdAt: 0,
+            content: {
+                role: 'agent',
+                content: {
+                    id: 'event-1',
+                    type: 'event',
+                    data: {
+                        type: 'usage',
+                        model: 'claude-sonnet-4-5',
+                        inputTokens: 100,
+                        outputTokens,
+                        cacheReadTokens: 2000,
+                        cacheCreationTokens: 0,
+                        costUsd
+                    }
+                }
+            }
+        }
+    }
+}
+
+const trackers: UsageTracker[] = []
+
+function createTracker(engine: FakeSyncEngine, store: Store, exceeded: UsageBudgetStatus[]): UsageTracker {
+    const tracker = new UsageTracker(engine as unknown as SyncEngine, store.usage, (_session, status) => {
+        exceeded.push(status)
+    })
+    trackers.push(tracker)
+    return tracker
+}
+
+afterEach(() => {
+    for (const tracker of trackers.splice(0)) {
+        tracker.stop()
+    }
+})
+
+describe('UsageTracker', () => {
+    it('records usage events with the session flavor and machine', () => {
+        const store = new Store(':memory:')
+        const engine = new FakeSyncEngine()
+        engine.sessions.set('session-1', createSession())
+        createTracker(engine, store, [])
+
+        engine.emit(usageEvent('session-1', 400, 0.02))
+        engine.emit(usageEvent('session-1', 600, null))
+        engine.emit(usageEvent('unknown', 600, 1))
+
+        const totals = store.usage.getTotals('default', { machineId: 'machine-1' })
+        expect(totals).toEqual({
+            turns: 2,
+            inputTokens: 200,
+            outputTokens: 1000,
+            cacheReadTokens: 4000,
+            cacheCreationTokens: 0,
+            costUsd: 0.02
+        })
+        const [daily] = store.usage.getDaily('default')
+        expect(daily.flavor).toBe('claude')
+        expect(daily.model).toBe('claude-sonnet-4-5')
+    })
+
+    it('reports an exceeded budget once and pauses sessions for pause budgets', () => {
+        const store = new Store(':memory:')
+        const engine = new FakeSyncEngine()
+        const session = createSession()
+        engine.sessions.set(session.id, session)
+        const exceeded: UsageBudgetStatus[] = []
+        createTracker(engine, store, exceeded)
+
+        store.usage.addBudget('default', {
+            name: 'Daily cap',
+            enabled: true,
+            scope: 'machine',
+            scopeId: 'machine-1',
+            period: 'day',
+            limitTokens: null,
+            limitUsd: 0.05,
+            action: 'pause'
+        })
+
+        engine.emit(usageEvent(session.id, 400, 0.03))
+        expect(exceeded).toHaveLength(0)
+        expect(findPausingBudget(store.usage, session)).toBeNull()
+
+        engine.emit(usageEvent(session.id, 400, 0.03))
+        engine.emit(usageEvent(session.id, 400, 0.03))
+        expect(exceeded).toHaveLength(1)
+        expect(exceeded[0].usedUsd).toBeCloseTo(0.06)
+        expect(engine.aborted).toEqual([session.id, session.id])
+        expect(findPausingBudget(store.usage, session)?.budget.name).toBe('Daily cap')
+        expect(findPausingBudget(store.usage, createSession({ id: 'other', metadata: null }))).toBeNull()
+    })
+})
+
+describe('getBudgetWindowStart', () => {
+    it('starts windows at local midnight and the first of the month', () => {
+        const now = new Date(2026, 2, 14, 15, 30).getTime()
+        expect(getBudgetWindowStart('day', now)).toBe(new Date(2026, 2, 14).getTime())
+        expect(getBudgetWindowStart('month', now)).toBe(new Date(2026, 2, 1).getTime())
+        expect(getBudgetWindowStart('total', now)).toBeNull()
+    })
+})
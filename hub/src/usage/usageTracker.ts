@@ -0,0 +1,85 @@
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
+import { extractMessageEventUsage } from '../notifications/eventParsing'
+import type { UsageStore } from '../store'
+import type { Session, SyncEngine, SyncEvent } from '../sync/syncEngine'
+import { getSessionBudgetStatuses } from './budgets'
+
+export type BudgetExceededHandler = (session: Session, status: UsageBudgetStatus) => void
+
+/**
+ * Records the usage events agents report after each turn and checks the
+ * session's budgets. An exceeded budget is reported once per window (and again
+ * after it is edited); 'pause' budgets also abort the session's current turn.
+ */
+export class UsageTracker {
+    private readonly reported: Set<string> = new Set()
+    private unsubscribeSyncEvents: (() => void) | null = null
+
+    constructor(
+        private readonly syncEngine: SyncEngine,
+        private readonly usage: UsageStore,
+        private readonly onBudgetExceeded: BudgetExceededHandler
+    ) {
+        this.unsubscribeSyncEvents = this.syncEngine.subscribe((event) => {
+            this.handleSyncEvent(event)
+        })
+    }
+
+    stop(): void {
+        if (this.unsubscribeSyncEvents) {
+            this.unsubscribeSyncEvents()
+            this.unsubscribeSyncEvents = null
+        }
+        this.reported.clear()
+    }
+
+    private handleSyncEvent(event: SyncEvent): void {
+        if (event.type !== 'message-received' || !event.sessionId) {
+            return
+        }
+
+        const report = extractMessageEventUsage(event)
+        if (!report) {
+            return
+        }
+
+        const session = this.syncEngine.getSession(event.sessionId)
+        if (!session) {
+            return
+        }
+
+        try {
+            this.usage.addRecord({
+                namespace: session.namespace,
+                sessionId: session.id,
+                machineId: session.metadata?.machineId ?? null,
+                flavor: session.metadata?.flavor ?? null,
+                ...report
+            })
+            this.checkBudgets(session)
+        } catch (error) {
+            console.error('[UsageTracker] Failed to record usage:', error)
+        }
+    }
+
+    private checkBudgets(session: Session): void {
+        for (const status of getSessionBudgetStatuses(this.usage, session)) {
+            if (!status.exceeded) {
+                continue
+            }
+
+            if (status.budget.action === 'pause' && session.thinking) {
+                this.syncEngine.abortSession(session.id).catch((error) => {
+                    console.error(`[UsageTracker] Failed to pause session ${session.id}:`, error)
+                })
+            }
+
+            const key = `${status.budget.id}:${status.windowStart ?? 0}:${status.budget.updatedAt}`
+            if (this.reported.has(key)) {
+                continue
+            }
+            this.reported.add(key)
+            this.onBudgetExceeded(session, status)
+        }
+    }
+}
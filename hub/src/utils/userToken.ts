@@ -0,0 +1,16 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+export const USER_TOKEN_PREFIX = 'hapi_'
+
+export function generateUserToken(): string {
+    return `${USER_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+// Only the hash is persisted; the plaintext token is shown once when issued
+export function hashUserToken(token: string): string {
+    return createHash('sha256').update(token.trim(), 'utf8').digest('hex')
+}
+
+export function isUserToken(token: string): boolean {
+    return token.trim().startsWith(USER_TOKEN_PREFIX)
+}
@@ -1,23 +1,89 @@
-import type { MiddlewareHandler } from 'hono'
+import type { Context, MiddlewareHandler } from 'hono'
 import { z } from 'zod'
-import { jwtVerify } from 'jose'
+import { SignJWT, jwtVerify } from 'jose'
+import type { AuditOrigin, UserRole } from '@hapi/protocol'
+import type { AuditActor } from '../../audit/auditLog'
+import type { Store } from '../../store'
 
 export type WebAppEnv = {
     Variables: {
         userId: number
         namespace: string
+        role: UserRole
+        // users.id of a named account; null for the CLI_API_TOKEN owner
+        accountId: number | null
+        origin: AuditOrigin
     }
 }
 
+export type WebIdentity = {
+    userId: number
+    namespace: string
+    role: UserRole
+    accountId: number | null
+    origin: AuditOrigin
+}
+
+// Set by the web app on requests triggered by the voice assistant
+const ORIGIN_HEADER = 'x-hapi-origin'
+
 const jwtPayloadSchema = z.object({
     uid: z.number(),
-    ns: z.string()
+    ns: z.string(),
+    acc: z.number().optional()
 })
 
-export function createAuthMiddleware(jwtSecret: Uint8Array): MiddlewareHandler<WebAppEnv> {
+export async function signWebToken(jwtSecret: Uint8Array, identity: Pick<WebIdentity, 'userId' | 'namespace' | 'accountId'>): Promise<string> {
+    const claims: Record<string, unknown> = { uid: identity.userId, ns: identity.namespace }
+    if (identity.accountId !== null) {
+        claims.acc = identity.accountId
+    }
+    return await new SignJWT(claims)
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt()
+        .setExpirationTime('15m')
+        .sign(jwtSecret)
+}
+
+/**
+ * Verifies a web JWT and resolves the caller's current role. The role is read
+ * from the users table on every request so revocations and role changes apply
+ * without waiting for the token to expire.
+ */
+export async function verifyWebToken(token: string, jwtSecret: Uint8Array, store: Store): Promise<WebIdentity | null> {
+    try {
+        const verified = await jwtVerify(token, jwtSecret, { algorithms: ['HS256'] })
+        const parsed = jwtPayloadSchema.safeParse(verified.payload)
+        if (!parsed.success) {
+            return null
+        }
+
+        const { uid, ns, acc } = parsed.data
+        if (acc === undefined) {
+            return { userId: uid, namespace: ns, role: 'admin', accountId: null, origin: 'web' }
+        }
+
+        const account = store.users.getUserById(acc)
+        if (!account || account.namespace !== ns) {
+            return null
+        }
+        return {
+            userId: uid,
+            namespace: ns,
+            role: account.role,
+            accountId: account.id,
+            origin: account.platform === 'telegram' ? 'telegram' : 'web'
+        }
+    } catch {
+        return null
+    }
+}
+
+export function createAuthMiddleware(jwtSecret: Uint8Array, store: Store): MiddlewareHandler<WebAppEnv> {
     return async (c, next) => {
         const path = c.req.path
-        if (path === '/api/auth' || path === '/api/bind') {
+        // Push actions carry their own signed token instead of a session
+        if (path === '/api/auth' || path === '/api/bind' || path === '/api/push/action') {
             await next()
             return
         }
@@ -31,19 +97,25 @@ export function createAuthMiddleware(jwtSecret: Uint8Array): MiddlewareHandler<W
             return c.json({ error: 'Missing authorization token' }, 401)
         }
 
-        try {
-            const verified = await jwtVerify(token, jwtSecret, { algorithms: ['HS256'] })
-            const parsed = jwtPayloadSchema.safeParse(verified.payload)
-            if (!parsed.success) {
-                return c.json({ error: 'Invalid token payload' }, 401)
-            }
-
-            c.set('userId', parsed.data.uid)
-            c.set('namespace', parsed.data.ns)
-            await next()
-            return
-        } catch {
+        const identity = await verifyWebToken(token, jwtSecret, store)
+        if (!identity) {
             return c.json({ error: 'Invalid token' }, 401)
         }
+
+        c.set('userId', identity.userId)
+        c.set('namespace', identity.namespace)
+        c.set('role', identity.role)
+        c.set('accountId', identity.accountId)
+        c.set('origin', c.req.header(ORIGIN_HEADER) === 'voice' ? 'voice' : identity.origin)
+        await next()
+        return
+    }
+}
+
+export function getAuditActor(c: Context<WebAppEnv>): AuditActor {
+    return {
+        namespace: c.get('namespace'),
+        accountId: c.get('accountId'),
+        origin: c.get('origin')
     }
 }
@@ -0,0 +1,35 @@
+import { AUDIT_ORIGINS } from '@hapi/protocol'
+import { Hono } from 'hono'
+import { z } from 'zod'
+import type { Store } from '../../store'
+import type { WebAppEnv } from '../middleware/auth'
+import { requireRole } from './guards'
+
+const querySchema = z.object({
+    // Exact action, or a prefix such as "session" for every session.* action
+    action: z.string().trim().min(1).max(100).optional(),
+    origin: z.enum(AUDIT_ORIGINS).optional(),
+    actorUserId: z.coerce.number().int().min(1).optional(),
+    sessionId: z.string().min(1).optional(),
+    machineId: z.string().min(1).optional(),
+    from: z.coerce.number().int().min(0).optional(),
+    to: z.coerce.number().int().min(0).optional(),
+    before: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional()
+})
+
+export function createAuditRoutes(store: Store): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/audit', requireRole('admin'), (c) => {
+        const parsed = querySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const events = store.auditEvents.getEvents(c.get('namespace'), parsed.data)
+        return c.json({ events })
+    })
+
+    return app
+}
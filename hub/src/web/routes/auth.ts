@@ -1,12 +1,13 @@
 import { Hono } from 'hono'
-import { SignJWT } from 'jose'
+import type { UserRole } from '@hapi/protocol'
 import { z } from 'zod'
 import { configuration } from '../../configuration'
 import { constantTimeEquals } from '../../utils/crypto'
 import { parseAccessToken } from '../../utils/accessToken'
+import { hashUserToken, isUserToken } from '../../utils/userToken'
 import { validateTelegramInitData } from '../telegramInitData'
 import { getOrCreateOwnerId } from '../../config/ownerId'
-import type { WebAppEnv } from '../middleware/auth'
+import { signWebToken, type WebAppEnv } from '../middleware/auth'
 import type { Store } from '../../store'
 
 const telegramAuthSchema = z.object({
@@ -34,9 +35,22 @@ export function createAuthRoutes(jwtSecret: Uint8Array, store: Store): Hono<WebA
         let firstName: string | undefined
         let lastName: string | undefined
         let namespace: string
+        let role: UserRole = 'admin'
+        let accountId: number | null = null
 
-        // Access Token authentication (CLI_API_TOKEN)
-        if ('accessToken' in parsed.data) {
+        // Per-user token issued from the admin settings page
+        if ('accessToken' in parsed.data && isUserToken(parsed.data.accessToken)) {
+            const account = store.users.getUserByTokenHash(hashUserToken(parsed.data.accessToken))
+            if (!account) {
+                return c.json({ error: 'Invalid access token' }, 401)
+            }
+            userId = await getOrCreateOwnerId()
+            firstName = account.name ?? 'Web User'
+            namespace = account.namespace
+            role = account.role
+            accountId = account.id
+        } else if ('accessToken' in parsed.data) {
+            // Access Token authentication (CLI_API_TOKEN)
             const parsedToken = parseAccessToken(parsed.data.accessToken)
             if (!parsedToken || !constantTimeEquals(parsedToken.baseToken, configuration.cliApiToken)) {
                 return c.json({ error: 'Invalid access token' }, 401)
@@ -66,13 +80,11 @@ export function createAuthRoutes(jwtSecret: Uint8Array, store: Store): Hono<WebA
             firstName = result.user.first_name
             lastName = result.user.last_name
             namespace = storedUser.namespace
+            role = storedUser.role
+            accountId = storedUser.id
         }
 
-        const token = await new SignJWT({ uid: userId, ns: namespace })
-            .setProtectedHeader({ alg: 'HS256' })
-            .setIssuedAt()
-            .setExpirationTime('15m')
-            .sign(jwtSecret)
+        const token = await signWebToken(jwtSecret, { userId, namespace, accountId })
 
         return c.json({
             token,
@@ -80,7 +92,8 @@ export function createAuthRoutes(jwtSecret: Uint8Array, store: Store): Hono<WebA
                 id: userId,
                 username,
                 firstName,
-                lastName
+                lastName,
+                role
             }
         })
     })
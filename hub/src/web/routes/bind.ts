@@ -1,12 +1,11 @@
 import { Hono } from 'hono'
-import { SignJWT } from 'jose'
 import { z } from 'zod'
 import { configuration } from '../../configuration'
 import { constantTimeEquals } from '../../utils/crypto'
 import { parseAccessToken } from '../../utils/accessToken'
 import { validateTelegramInitData } from '../telegramInitData'
 import { getOrCreateOwnerId } from '../../config/ownerId'
-import type { WebAppEnv } from '../middleware/auth'
+import { signWebToken, type WebAppEnv } from '../middleware/auth'
 import type { Store } from '../../store'
 
 const bindBodySchema = z.object({
@@ -44,15 +43,11 @@ export function createBindRoutes(jwtSecret: Uint8Array, store: Store): Hono<WebA
         if (existingUser && existingUser.namespace !== namespace) {
             return c.json({ error: 'already_bound' }, 409)
         }
-        store.users.addUser('telegram', telegramUserId, namespace)
+        const boundUser = store.users.addUser('telegram', telegramUserId, namespace)
 
         const userId = await getOrCreateOwnerId()
 
-        const token = await new SignJWT({ uid: userId, ns: namespace })
-            .setProtectedHeader({ alg: 'HS256' })
-            .setIssuedAt()
-            .setExpirationTime('15m')
-            .sign(jwtSecret)
+        const token = await signWebToken(jwtSecret, { userId, namespace, accountId: boundUser.id })
 
         return c.json({
             token,
@@ -60,7 +55,8 @@ export function createBindRoutes(jwtSecret: Uint8Array, store: Store): Hono<WebA
                 id: userId,
                 username: result.user.username,
                 firstName: result.user.first_name,
-                lastName: result.user.last_name
+                lastName: result.user.last_name,
+                role: boundUser.role
             }
         })
     })
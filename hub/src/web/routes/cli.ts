@@ -5,6 +5,8 @@ import { configuration } from '../../configuration'
 import { constantTimeEquals } from '../../utils/crypto'
 import { parseAccessToken } from '../../utils/accessToken'
 import type { Machine, Session, SyncEngine } from '../../sync/syncEngine'
+import { exportSessionTranscript } from '../../transcript/exportSession'
+import { TRANSCRIPT_FORMATS } from '../../transcript/render'
 
 const bearerSchema = z.string().regex(/^Bearer\s+(.+)$/i)
 
@@ -25,6 +27,10 @@ const getMessagesQuerySchema = z.object({
     limit: z.coerce.number().int().min(1).max(200).optional()
 })
 
+const exportQuerySchema = z.object({
+    format: z.enum(TRANSCRIPT_FORMATS).optional()
+})
+
 type CliEnv = {
     Variables: {
         namespace: string
@@ -140,6 +146,30 @@ export function createCliRoutes(getSyncEngine: () => SyncEngine | null): Hono<Cl
         return c.json({ messages })
     })
 
+    app.get('/sessions/:id/export', (c) => {
+        const engine = getSyncEngine()
+        if (!engine) {
+            return c.json({ error: 'Not ready' }, 503)
+        }
+        const sessionId = c.req.param('id')
+        const namespace = c.get('namespace')
+        const resolved = resolveSessionForNamespace(engine, sessionId, namespace)
+        if (!resolved.ok) {
+            return c.json({ error: resolved.error }, resolved.status)
+        }
+
+        const parsed = exportQuerySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const exported = exportSessionTranscript(engine, resolved.session, parsed.data.format ?? 'md')
+        return c.body(exported.body, 200, {
+            'Content-Type': exported.contentType,
+            'Content-Disposition': `attachment; filename="${exported.filename}"`
+        })
+    })
+
     app.post('/machines', async (c) => {
         const engine = getSyncEngine()
         if (!engine) {
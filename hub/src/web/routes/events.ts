@@ -81,6 +81,7 @@ export function createEventsRoutes(
             manager.subscribe({
                 id: subscriptionId,
                 namespace,
+                accountId: c.get('accountId'),
                 all,
                 sessionId: resolvedSessionId,
                 machineId,
@@ -1,8 +1,9 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
 import type { SyncEngine } from '../../sync/syncEngine'
-import type { WebAppEnv } from '../middleware/auth'
-import { requireSessionFromParam, requireSyncEngine } from './guards'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole, requireSessionFromParam, requireSyncEngine } from './guards'
 
 const fileSearchSchema = z.object({
     query: z.string().optional(),
@@ -17,6 +18,56 @@ const filePathSchema = z.object({
     path: z.string().min(1)
 })
 
+const fileWriteSchema = z.object({
+    path: z.string().min(1),
+    // base64; empty for a new empty file
+    content: z.string(),
+    // sha256 of the content the edit started from; null creates a new file
+    expectedHash: z.string().min(1).nullable()
+})
+
+const gitPathsSchema = z.object({
+    paths: z.array(z.string().min(1)).min(1).max(1000)
+})
+
+const gitDiscardSchema = z.object({
+    paths: z.array(z.string().min(1)).max(1000).optional(),
+    untrackedPaths: z.array(z.string().min(1)).max(1000).optional()
+}).refine((value) => (value.paths?.length ?? 0) + (value.untrackedPaths?.length ?? 0) > 0)
+
+const gitPatchSchema = z.object({
+    patch: z.string().min(1).max(5 * 1024 * 1024),
+    mode: z.enum(['stage', 'unstage', 'discard'])
+})
+
+const gitCommitSchema = z.object({
+    message: z.string().max(64 * 1024),
+    amend: z.boolean().optional()
+}).refine((value) => value.amend || value.message.trim().length > 0)
+
+const gitBranchSchema = z.object({
+    name: z.string().min(1).max(255)
+})
+
+const gitCreateBranchSchema = gitBranchSchema.extend({
+    checkout: z.boolean().optional()
+})
+
+const gitPushSchema = z.object({
+    setUpstream: z.boolean().optional(),
+    remote: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/).max(255).optional()
+})
+
+// Tool call edits are small; the CLI also caps each side at 1MB
+const structuredDiffSchema = z.object({
+    fileName: z.string().min(1).max(1024),
+    oldContent: z.string().max(1024 * 1024),
+    newContent: z.string().max(1024 * 1024)
+})
+
+// Editing is for source files; larger files go through uploads
+const MAX_WRITE_BASE64_LENGTH = Math.ceil((10 * 1024 * 1024) / 3) * 4
+
 function parseBooleanParam(value: string | undefined): boolean | undefined {
     if (value === 'true') return true
     if (value === 'false') return false
@@ -31,9 +82,28 @@ async function runRpc<T>(fn: () => Promise<T>): Promise<T | { success: false; er
     }
 }
 
-export function createGitRoutes(getSyncEngine: () => SyncEngine | null): Hono<WebAppEnv> {
+export function createGitRoutes(getSyncEngine: () => SyncEngine | null, auditLog: AuditLog): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
+    // Session, engine and repository path for git operations that change the working tree
+    const requireGitTarget = (c: Context<WebAppEnv>): { engine: SyncEngine; sessionId: string; cwd: string } | Response => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine, { requireActive: true })
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const cwd = sessionResult.session.metadata?.path
+        if (!cwd) {
+            return c.json({ success: false, error: 'Session path not available' })
+        }
+        return { engine, sessionId: sessionResult.sessionId, cwd }
+    }
+
     app.get('/sessions/:id/git-status', async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
@@ -105,6 +175,280 @@ export function createGitRoutes(getSyncEngine: () => SyncEngine | null): Hono<We
         return c.json(result)
     })
 
+    app.get('/sessions/:id/difftastic', async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const sessionPath = sessionResult.session.metadata?.path
+        if (!sessionPath) {
+            return c.json({ success: false, error: 'Session path not available' })
+        }
+
+        const parsed = filePathSchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid file path' }, 400)
+        }
+
+        const staged = parseBooleanParam(c.req.query('staged'))
+        const result = await runRpc(() => engine.getStructuredDiff(sessionResult.sessionId, {
+            cwd: sessionPath,
+            filePath: parsed.data.path,
+            staged
+        }))
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/difftastic', async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const parsed = structuredDiffSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => engine.getStructuredDiff(sessionResult.sessionId, parsed.data))
+        return c.json(result)
+    })
+
+    app.get('/sessions/:id/git-branches', async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const sessionPath = sessionResult.session.metadata?.path
+        if (!sessionPath) {
+            return c.json({ success: false, error: 'Session path not available' })
+        }
+
+        const result = await runRpc(() => engine.getGitBranches(sessionResult.sessionId, { cwd: sessionPath }))
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-stage', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitPathsSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.stageGitPaths(target.sessionId, { cwd: target.cwd, ...parsed.data }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.stage',
+                sessionId: target.sessionId,
+                detail: parsed.data.paths.join(', ')
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-unstage', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitPathsSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.unstageGitPaths(target.sessionId, { cwd: target.cwd, ...parsed.data }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.unstage',
+                sessionId: target.sessionId,
+                detail: parsed.data.paths.join(', ')
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-discard', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitDiscardSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.discardGitChanges(target.sessionId, { cwd: target.cwd, ...parsed.data }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.discard',
+                sessionId: target.sessionId,
+                detail: [...(parsed.data.paths ?? []), ...(parsed.data.untrackedPaths ?? [])].join(', ')
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-apply-patch', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitPatchSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const { patch, mode } = parsed.data
+        const result = await runRpc(() => target.engine.applyGitPatch(target.sessionId, { cwd: target.cwd, patch, mode }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: mode === 'stage' ? 'git.stage' : mode === 'unstage' ? 'git.unstage' : 'git.discard',
+                sessionId: target.sessionId,
+                detail: 'hunk',
+                payload: patch
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-commit', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitCommitSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const { message, amend } = parsed.data
+        const result = await runRpc(() => target.engine.commitGit(target.sessionId, { cwd: target.cwd, message, amend }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.commit',
+                sessionId: target.sessionId,
+                detail: amend ? 'amend' : null,
+                payload: message
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-branches', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitCreateBranchSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.createGitBranch(target.sessionId, { cwd: target.cwd, ...parsed.data }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.branch-create',
+                sessionId: target.sessionId,
+                detail: parsed.data.name
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-switch', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitBranchSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.switchGitBranch(target.sessionId, { cwd: target.cwd, name: parsed.data.name }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.branch-switch',
+                sessionId: target.sessionId,
+                detail: parsed.data.name
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-push', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = gitPushSchema.safeParse(await c.req.json().catch(() => ({})))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.pushGit(target.sessionId, { cwd: target.cwd, ...parsed.data }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'git.push',
+                sessionId: target.sessionId,
+                detail: parsed.data.setUpstream ? `--set-upstream ${parsed.data.remote ?? 'origin'}` : null
+            })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/git-pull', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const result = await runRpc(() => target.engine.pullGit(target.sessionId, { cwd: target.cwd }))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), { action: 'git.pull', sessionId: target.sessionId })
+        }
+        return c.json(result)
+    })
+
+    // Only refreshes remote-tracking refs for the ahead/behind counters
+    app.post('/sessions/:id/git-fetch', requireRole('operator'), async (c) => {
+        const target = requireGitTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const result = await runRpc(() => target.engine.fetchGit(target.sessionId, { cwd: target.cwd }))
+        return c.json(result)
+    })
+
     app.get('/sessions/:id/file', async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
@@ -130,6 +474,39 @@ export function createGitRoutes(getSyncEngine: () => SyncEngine | null): Hono<We
         return c.json(result)
     })
 
+    app.put('/sessions/:id/file', requireRole('operator'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine, { requireActive: true })
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const body = await c.req.json().catch(() => null)
+        const parsed = fileWriteSchema.safeParse(body)
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+        if (parsed.data.content.length > MAX_WRITE_BASE64_LENGTH) {
+            return c.json({ success: false, error: 'File too large to edit (max 10MB)' }, 413)
+        }
+
+        const { path, content, expectedHash } = parsed.data
+        const result = await runRpc(() => engine.writeSessionFile(sessionResult.sessionId, path, content, expectedHash))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'session.file-write',
+                sessionId: sessionResult.sessionId,
+                detail: expectedHash === null ? `${path} (new)` : path,
+                payload: content
+            })
+        }
+        return c.json(result)
+    })
+
     app.get('/sessions/:id/files', async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
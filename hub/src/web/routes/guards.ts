@@ -1,7 +1,19 @@
-import type { Context } from 'hono'
+import type { Context, MiddlewareHandler } from 'hono'
+import { hasUserRole, type UserRole } from '@hapi/protocol'
 import type { Machine, Session, SyncEngine } from '../../sync/syncEngine'
 import type { WebAppEnv } from '../middleware/auth'
 
+// viewer reads, operator drives existing sessions, admin spawns/deletes and manages machines and users
+export function requireRole(minimum: UserRole): MiddlewareHandler<WebAppEnv> {
+    return async (c, next) => {
+        if (!hasUserRole(c.get('role'), minimum)) {
+            return c.json({ error: 'Insufficient role' }, 403)
+        }
+        await next()
+        return
+    }
+}
+
 export function requireSyncEngine(
     c: Context<WebAppEnv>,
     getSyncEngine: () => SyncEngine | null
@@ -1,18 +1,28 @@
+import { SpawnAgentSchema } from '@hapi/protocol/schemas'
 import { Hono } from 'hono'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
+import type { SessionTemplateStore } from '../../store'
+import { getSpawnAgentError } from '../../sync/spawnAgents'
 import type { SyncEngine } from '../../sync/syncEngine'
-import type { WebAppEnv } from '../middleware/auth'
-import { requireMachine } from './guards'
+import { launchSessionTemplate } from '../../templates/launchTemplate'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireMachine, requireRole } from './guards'
 
 const spawnBodySchema = z.object({
     directory: z.string().min(1),
-    agent: z.enum(['claude', 'codex', 'gemini', 'opencode']).optional(),
+    agent: SpawnAgentSchema.optional(),
     model: z.string().optional(),
     yolo: z.boolean().optional().default(true),
     sessionType: z.enum(['simple', 'worktree']).optional(),
     worktreeName: z.string().optional()
 })
 
+// Spawns with everything a stored template holds, on this machine
+const templateSpawnBodySchema = z.object({
+    templateId: z.string().min(1)
+})
+
 const pathsExistsSchema = z.object({
     paths: z.array(z.string().min(1)).max(1000)
 })
@@ -21,7 +31,15 @@ const browseDirectoryQuerySchema = z.object({
     path: z.string().optional()
 })
 
-export function createMachinesRoutes(getSyncEngine: () => SyncEngine | null): Hono<WebAppEnv> {
+const modelCatalogQuerySchema = z.object({
+    agent: SpawnAgentSchema
+})
+
+export function createMachinesRoutes(
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog,
+    sessionTemplates: Pick<SessionTemplateStore, 'getTemplate'>
+): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
     app.get('/machines', (c) => {
@@ -35,7 +53,7 @@ export function createMachinesRoutes(getSyncEngine: () => SyncEngine | null): Ho
         return c.json({ machines })
     })
 
-    app.post('/machines/:id/spawn', async (c) => {
+    app.post('/machines/:id/spawn', requireRole('admin'), async (c) => {
         const engine = getSyncEngine()
         if (!engine) {
             return c.json({ error: 'Not connected' }, 503)
@@ -48,11 +66,33 @@ export function createMachinesRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
 
         const body = await c.req.json().catch(() => null)
+        const templateBody = templateSpawnBodySchema.safeParse(body)
+        if (templateBody.success) {
+            const template = sessionTemplates.getTemplate(templateBody.data.templateId, c.get('namespace'))
+            if (!template) {
+                return c.json({ error: 'Template not found' }, 404)
+            }
+            const result = await launchSessionTemplate(engine, template, { machineId })
+            auditLog.record(getAuditActor(c), {
+                action: 'machine.spawn',
+                machineId,
+                sessionId: result.type === 'success' ? result.sessionId : null,
+                detail: `${template.directory} (template: ${template.name})`,
+                payload: { templateId: template.id }
+            })
+            return c.json(result)
+        }
+
         const parsed = spawnBodySchema.safeParse(body)
         if (!parsed.success) {
             return c.json({ error: 'Invalid body' }, 400)
         }
 
+        const agentError = getSpawnAgentError(machine, parsed.data.agent)
+        if (agentError) {
+            return c.json({ error: agentError }, 400)
+        }
+
         const result = await engine.spawnSession(
             machineId,
             parsed.data.directory,
@@ -62,10 +102,17 @@ export function createMachinesRoutes(getSyncEngine: () => SyncEngine | null): Ho
             parsed.data.sessionType,
             parsed.data.worktreeName
         )
+        auditLog.record(getAuditActor(c), {
+            action: 'machine.spawn',
+            machineId,
+            sessionId: result.type === 'success' ? result.sessionId : null,
+            detail: parsed.data.directory,
+            payload: parsed.data
+        })
         return c.json(result)
     })
 
-    app.post('/machines/:id/paths/exists', async (c) => {
+    app.post('/machines/:id/paths/exists', requireRole('admin'), async (c) => {
         const engine = getSyncEngine()
         if (!engine) {
             return c.json({ error: 'Not connected' }, 503)
@@ -96,7 +143,28 @@ export function createMachinesRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.get('/machines/:id/browse', async (c) => {
+    app.get('/machines/:id/models', (c) => {
+        const engine = getSyncEngine()
+        if (!engine) {
+            return c.json({ error: 'Not connected' }, 503)
+        }
+
+        const machineId = c.req.param('id')
+        const machine = requireMachine(c, engine, machineId)
+        if (machine instanceof Response) {
+            return machine
+        }
+
+        const parsed = modelCatalogQuerySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const catalog = engine.getLatestModelCatalog(c.get('namespace'), machineId, parsed.data.agent)
+        return c.json({ catalog })
+    })
+
+    app.get('/machines/:id/browse', requireRole('admin'), async (c) => {
         const engine = getSyncEngine()
         if (!engine) {
             return c.json({ error: 'Not connected' }, 503)
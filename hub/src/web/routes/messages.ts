@@ -1,9 +1,12 @@
 import { Hono } from 'hono'
 import { AttachmentMetadataSchema } from '@hapi/protocol/schemas'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
+import type { UsageStore } from '../../store'
 import type { SyncEngine } from '../../sync/syncEngine'
-import type { WebAppEnv } from '../middleware/auth'
-import { requireSessionFromParam, requireSyncEngine } from './guards'
+import { findPausingBudget } from '../../usage/budgets'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole, requireSessionFromParam, requireSyncEngine } from './guards'
 
 const querySchema = z.object({
     limit: z.coerce.number().int().min(1).max(200).optional(),
@@ -16,7 +19,11 @@ const sendMessageBodySchema = z.object({
     attachments: z.array(AttachmentMetadataSchema).optional()
 })
 
-export function createMessagesRoutes(getSyncEngine: () => SyncEngine | null): Hono<WebAppEnv> {
+export function createMessagesRoutes(
+    getSyncEngine: () => SyncEngine | null,
+    usage: UsageStore,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
     app.get('/sessions/:id/messages', async (c) => {
@@ -37,7 +44,7 @@ export function createMessagesRoutes(getSyncEngine: () => SyncEngine | null): Ho
         return c.json(engine.getMessagesPage(sessionId, { limit, beforeSeq }))
     })
 
-    app.post('/sessions/:id/messages', async (c) => {
+    app.post('/sessions/:id/messages', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -60,12 +67,22 @@ export function createMessagesRoutes(getSyncEngine: () => SyncEngine | null): Ho
             return c.json({ error: 'Message requires text or attachments' }, 400)
         }
 
+        const pausing = findPausingBudget(usage, sessionResult.session)
+        if (pausing) {
+            return c.json({ error: 'Usage budget exceeded', budget: pausing.budget.name }, 429)
+        }
+
         await engine.sendMessage(sessionId, {
             text: parsed.data.text,
             localId: parsed.data.localId,
             attachments: parsed.data.attachments,
             sentFrom: 'webapp'
         })
+        auditLog.record(getAuditActor(c), {
+            action: 'message.send',
+            sessionId,
+            payload: { text: parsed.data.text, attachments: parsed.data.attachments ?? [] }
+        })
         return c.json({ ok: true })
     })
 
@@ -0,0 +1,36 @@
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationPreferencesSchema } from '@hapi/protocol/schemas'
+import type { NotificationChannelId } from '@hapi/protocol/types'
+import { Hono } from 'hono'
+import type { Store } from '../../store'
+import type { WebAppEnv } from '../middleware/auth'
+
+// Preferences belong to the caller, so every role may read and change its own
+export function createNotificationRoutes(store: Store, channels: NotificationChannelId[]): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/notifications/preferences', (c) => {
+        const stored = store.notificationPreferences.get(c.get('namespace'), c.get('accountId'))
+        return c.json({
+            preferences: stored?.preferences ?? DEFAULT_NOTIFICATION_PREFERENCES,
+            updatedAt: stored?.updatedAt ?? null,
+            channels
+        })
+    })
+
+    app.put('/notifications/preferences', async (c) => {
+        const json = await c.req.json().catch(() => null)
+        const parsed = NotificationPreferencesSchema.safeParse(json)
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const stored = store.notificationPreferences.set(c.get('namespace'), c.get('accountId'), {
+            ...parsed.data,
+            mutedSessionIds: Array.from(new Set(parsed.data.mutedSessionIds)),
+            mutedDirectories: Array.from(new Set(parsed.data.mutedDirectories))
+        })
+        return c.json({ preferences: stored.preferences, updatedAt: stored.updatedAt, channels })
+    })
+
+    return app
+}
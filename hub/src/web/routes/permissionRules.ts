@@ -0,0 +1,166 @@
+import { PermissionRuleInputSchema } from '@hapi/protocol/schemas'
+import type { PermissionRuleDryRunMatch, PermissionRuleInput } from '@hapi/protocol/types'
+import { Hono } from 'hono'
+import type { AuditLog } from '../../audit/auditLog'
+import { getSessionName } from '../../notifications/sessionInfo'
+import { isValidCommandPattern, matchesPermissionRule } from '../../permissions/permissionPolicy'
+import type { PermissionRuleFields, Store } from '../../store'
+import type { SyncEngine } from '../../sync/syncEngine'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole, requireSyncEngine } from './guards'
+
+const DRY_RUN_LIMIT = 200
+
+function toRuleFields(input: PermissionRuleInput): PermissionRuleFields {
+    return {
+        sessionId: input.sessionId ?? null,
+        name: input.name,
+        enabled: input.enabled ?? true,
+        priority: input.priority ?? 0,
+        action: input.action,
+        toolPattern: input.toolPattern ?? null,
+        commandPattern: input.commandPattern ?? null,
+        pathPatterns: input.pathPatterns ?? [],
+        flavors: input.flavors ?? []
+    }
+}
+
+function parseRuleInput(json: unknown): PermissionRuleFields | { error: string } {
+    const parsed = PermissionRuleInputSchema.safeParse(json)
+    if (!parsed.success) {
+        return { error: 'Invalid body' }
+    }
+    const fields = toRuleFields(parsed.data)
+    if (fields.commandPattern && !isValidCommandPattern(fields.commandPattern)) {
+        return { error: 'Invalid command pattern' }
+    }
+    return fields
+}
+
+export function createPermissionRulesRoutes(
+    store: Store,
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/permission-rules', (c) => {
+        const namespace = c.get('namespace')
+        return c.json({ rules: store.permissionRules.getRulesByNamespace(namespace) })
+    })
+
+    app.post('/permission-rules', requireRole('admin'), async (c) => {
+        const json = await c.req.json().catch(() => null)
+        const fields = parseRuleInput(json)
+        if ('error' in fields) {
+            return c.json({ error: fields.error }, 400)
+        }
+
+        const namespace = c.get('namespace')
+        const rule = store.permissionRules.addRule(namespace, fields)
+        auditLog.record(getAuditActor(c), {
+            action: 'permission-rule.create',
+            sessionId: rule.sessionId,
+            detail: rule.name,
+            payload: fields
+        })
+        return c.json({ rule })
+    })
+
+    app.patch('/permission-rules/:id', requireRole('admin'), async (c) => {
+        const json = await c.req.json().catch(() => null)
+        const fields = parseRuleInput(json)
+        if ('error' in fields) {
+            return c.json({ error: fields.error }, 400)
+        }
+
+        const namespace = c.get('namespace')
+        const rule = store.permissionRules.updateRule(c.req.param('id'), namespace, fields)
+        if (!rule) {
+            return c.json({ error: 'Rule not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), {
+            action: 'permission-rule.update',
+            sessionId: rule.sessionId,
+            detail: rule.name,
+            payload: fields
+        })
+        return c.json({ rule })
+    })
+
+    app.delete('/permission-rules/:id', requireRole('admin'), (c) => {
+        const namespace = c.get('namespace')
+        const ruleId = c.req.param('id')
+        const removed = store.permissionRules.removeRule(ruleId, namespace)
+        if (!removed) {
+            return c.json({ error: 'Rule not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), { action: 'permission-rule.delete', detail: ruleId })
+        return c.json({ ok: true })
+    })
+
+    // Evaluates a draft rule against requests already seen in this namespace
+    app.post('/permission-rules/dry-run', async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseRuleInput(json)
+        if ('error' in fields) {
+            return c.json({ error: fields.error }, 400)
+        }
+
+        const namespace = c.get('namespace')
+        const rule = { ...fields, enabled: true }
+        const matches: PermissionRuleDryRunMatch[] = []
+
+        for (const session of engine.getSessionsByNamespace(namespace)) {
+            const context = {
+                sessionId: session.id,
+                flavor: session.metadata?.flavor ?? null,
+                rootPath: session.metadata?.path ?? null
+            }
+            const sessionName = getSessionName(session)
+
+            for (const [requestId, request] of Object.entries(session.agentState?.requests ?? {})) {
+                if (matchesPermissionRule(rule, request, context)) {
+                    matches.push({
+                        sessionId: session.id,
+                        sessionName,
+                        requestId,
+                        tool: request.tool,
+                        arguments: request.arguments,
+                        createdAt: request.createdAt ?? null,
+                        status: 'pending',
+                        reason: null
+                    })
+                }
+            }
+
+            for (const [requestId, request] of Object.entries(session.agentState?.completedRequests ?? {})) {
+                if (matchesPermissionRule(rule, request, context)) {
+                    matches.push({
+                        sessionId: session.id,
+                        sessionName,
+                        requestId,
+                        tool: request.tool,
+                        arguments: request.arguments,
+                        createdAt: request.createdAt ?? null,
+                        status: request.status,
+                        reason: request.reason ?? null
+                    })
+                }
+            }
+        }
+
+        matches.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))
+        return c.json({
+            total: matches.length,
+            matches: matches.slice(0, DRY_RUN_LIMIT)
+        })
+    })
+
+    return app
+}
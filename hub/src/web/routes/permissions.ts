@@ -2,9 +2,10 @@ import { isPermissionModeAllowedForFlavor } from '@hapi/protocol'
 import { PermissionModeSchema } from '@hapi/protocol/schemas'
 import { Hono } from 'hono'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
 import type { SyncEngine } from '../../sync/syncEngine'
-import type { WebAppEnv } from '../middleware/auth'
-import { requireSessionFromParam, requireSyncEngine } from './guards'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole, requireSessionFromParam, requireSyncEngine } from './guards'
 
 const decisionSchema = z.enum(['approved', 'approved_for_session', 'denied', 'abort'])
 
@@ -26,10 +27,13 @@ const denyBodySchema = z.object({
     decision: decisionSchema.optional()
 })
 
-export function createPermissionsRoutes(getSyncEngine: () => SyncEngine | null): Hono<WebAppEnv> {
+export function createPermissionsRoutes(
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
-    app.post('/sessions/:id/permissions/:requestId/approve', async (c) => {
+    app.post('/sessions/:id/permissions/:requestId/approve', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -64,11 +68,18 @@ export function createPermissionsRoutes(getSyncEngine: () => SyncEngine | null):
         const allowTools = parsed.data.allowTools
         const decision = parsed.data.decision
         const answers = parsed.data.answers
+        const tool = requests[requestId].tool
         await engine.approvePermission(sessionId, requestId, mode, allowTools, decision, answers)
+        auditLog.record(getAuditActor(c), {
+            action: 'permission.approve',
+            sessionId,
+            detail: tool,
+            payload: { requestId, mode, allowTools, decision, answers }
+        })
         return c.json({ ok: true })
     })
 
-    app.post('/sessions/:id/permissions/:requestId/deny', async (c) => {
+    app.post('/sessions/:id/permissions/:requestId/deny', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -93,7 +104,14 @@ export function createPermissionsRoutes(getSyncEngine: () => SyncEngine | null):
             return c.json({ error: 'Invalid body' }, 400)
         }
 
+        const tool = requests[requestId].tool
         await engine.denyPermission(sessionId, requestId, parsed.data.decision)
+        auditLog.record(getAuditActor(c), {
+            action: 'permission.deny',
+            sessionId,
+            detail: tool,
+            payload: { requestId, decision: parsed.data.decision }
+        })
         return c.json({ ok: true })
     })
 
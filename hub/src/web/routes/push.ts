@@ -1,6 +1,10 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
+import { canAnswerPermissions, verifyPushActionToken } from '../../push/pushActionTokens'
 import type { Store } from '../../store'
+import type { SyncEngine } from '../../sync/syncEngine'
+import { getSessionApproval } from '../../notifications/permissionApproval'
 import type { WebAppEnv } from '../middleware/auth'
 
 const subscriptionSchema = z.object({
@@ -15,6 +19,10 @@ const unsubscribeSchema = z.object({
     endpoint: z.string().min(1)
 })
 
+const pushActionSchema = z.object({
+    token: z.string().min(1)
+})
+
 export function createPushRoutes(store: Store, vapidPublicKey: string): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
@@ -35,7 +43,7 @@ export function createPushRoutes(store: Store, vapidPublicKey: string): Hono<Web
             endpoint,
             p256dh: keys.p256dh,
             auth: keys.auth
-        })
+        }, c.get('accountId'))
 
         return c.json({ ok: true })
     })
@@ -54,3 +62,104 @@ export function createPushRoutes(store: Store, vapidPublicKey: string): Hono<Web
 
     return app
 }
+
+/**
+ * Answers a permission request from a notification button. The service worker
+ * has no session token, so the signed action token is the only credential and
+ * each one works once.
+ */
+export function createPushActionRoutes(
+    jwtSecret: Uint8Array,
+    store: Store,
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+    // Token ids already used, until they would have expired anyway
+    const usedTokens = new Map<string, number>()
+
+    app.post('/push/action', async (c) => {
+        const json = await c.req.json().catch(() => null)
+        const parsed = pushActionSchema.safeParse(json)
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const claims = await verifyPushActionToken(jwtSecret, parsed.data.token)
+        if (!claims) {
+            return c.json({ error: 'Invalid or expired token' }, 401)
+        }
+
+        const now = Date.now()
+        for (const [tokenId, expiresAt] of usedTokens) {
+            if (expiresAt <= now) {
+                usedTokens.delete(tokenId)
+            }
+        }
+        if (usedTokens.has(claims.tokenId)) {
+            return c.json({ error: 'Token already used' }, 409)
+        }
+
+        if (!canAnswerPermissions(store, claims.namespace, claims.accountId)) {
+            return c.json({ error: 'Insufficient role' }, 403)
+        }
+
+        const engine = getSyncEngine()
+        if (!engine) {
+            return c.json({ error: 'Not connected' }, 503)
+        }
+
+        const session = engine.getSession(claims.sessionId)
+        if (!session || session.namespace !== claims.namespace) {
+            return c.json({ error: 'Session not found' }, 404)
+        }
+        if (!session.active) {
+            return c.json({ error: 'Session is inactive' }, 409)
+        }
+
+        const request = session.agentState?.requests?.[claims.requestId]
+        if (!request) {
+            return c.json({ error: 'Request not found or already answered' }, 404)
+        }
+
+        usedTokens.set(claims.tokenId, claims.expiresAt)
+        const actor = { namespace: claims.namespace, accountId: claims.accountId, origin: 'push' as const }
+
+        if (claims.action === 'deny') {
+            await engine.denyPermission(session.id, claims.requestId)
+            auditLog.record(actor, {
+                action: 'permission.deny',
+                sessionId: session.id,
+                detail: request.tool,
+                payload: { requestId: claims.requestId }
+            })
+            return c.json({ ok: true })
+        }
+
+        if (claims.action === 'approve_session') {
+            const approval = getSessionApproval(session, claims.requestId)
+            if (!approval) {
+                return c.json({ error: 'This request cannot be approved for the session' }, 400)
+            }
+            await engine.approvePermission(session.id, claims.requestId, undefined, approval.allowTools, approval.decision)
+            auditLog.record(actor, {
+                action: 'permission.approve',
+                sessionId: session.id,
+                detail: request.tool,
+                payload: { requestId: claims.requestId, ...approval }
+            })
+            return c.json({ ok: true })
+        }
+
+        await engine.approvePermission(session.id, claims.requestId)
+        auditLog.record(actor, {
+            action: 'permission.approve',
+            sessionId: session.id,
+            detail: request.tool,
+            payload: { requestId: claims.requestId }
+        })
+        return c.json({ ok: true })
+    })
+
+    return app
+}
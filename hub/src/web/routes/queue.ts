@@ -0,0 +1,152 @@
+import { Hono, type Context } from 'hono'
+import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
+import type { RpcQueueResponse, Session, SyncEngine } from '../../sync/syncEngine'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole, requireSessionFromParam, requireSyncEngine } from './guards'
+
+const editPromptSchema = z.object({
+    text: z.string().min(1)
+})
+
+const reorderSchema = z.object({
+    ids: z.array(z.string().min(1)).max(500)
+})
+
+const mergeSchema = z.object({
+    merge: z.boolean()
+})
+
+async function runRpc(fn: () => Promise<RpcQueueResponse>): Promise<RpcQueueResponse> {
+    try {
+        return await fn()
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+}
+
+/**
+ * Prompts sent while the agent is busy wait in the CLI's message queue and
+ * are reported in agentState.queue; these routes edit that queue in place.
+ */
+export function createQueueRoutes(getSyncEngine: () => SyncEngine | null, auditLog: AuditLog): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    const requireQueueTarget = (c: Context<WebAppEnv>): { engine: SyncEngine; sessionId: string; session: Session } | Response => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine, { requireActive: true })
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        return { engine, sessionId: sessionResult.sessionId, session: sessionResult.session }
+    }
+
+    app.patch('/sessions/:id/queue/:promptId', requireRole('operator'), async (c) => {
+        const target = requireQueueTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = editPromptSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const promptId = c.req.param('promptId')
+        const result = await runRpc(() => target.engine.editQueuedPrompt(target.sessionId, promptId, parsed.data.text))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'queue.edit',
+                sessionId: target.sessionId,
+                detail: promptId,
+                payload: { text: parsed.data.text }
+            })
+        }
+        return c.json(result)
+    })
+
+    app.delete('/sessions/:id/queue/:promptId', requireRole('operator'), async (c) => {
+        const target = requireQueueTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const promptId = c.req.param('promptId')
+        const result = await runRpc(() => target.engine.deleteQueuedPrompt(target.sessionId, promptId))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), { action: 'queue.delete', sessionId: target.sessionId, detail: promptId })
+        }
+        return c.json(result)
+    })
+
+    app.post('/sessions/:id/queue/reorder', requireRole('operator'), async (c) => {
+        const target = requireQueueTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = reorderSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.reorderQueuedPrompts(target.sessionId, parsed.data.ids))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'queue.reorder',
+                sessionId: target.sessionId,
+                detail: parsed.data.ids.join(', ')
+            })
+        }
+        return c.json(result)
+    })
+
+    // Moves the prompt to the front of the queue and interrupts the current turn
+    app.post('/sessions/:id/queue/:promptId/send-now', requireRole('operator'), async (c) => {
+        const target = requireQueueTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const promptId = c.req.param('promptId')
+        const result = await runRpc(() => target.engine.prioritizeQueuedPrompt(target.sessionId, promptId))
+        if (!result.success) {
+            return c.json(result)
+        }
+
+        if (target.session.thinking) {
+            await target.engine.abortSession(target.sessionId, { preserveQueue: true })
+        }
+        auditLog.record(getAuditActor(c), { action: 'queue.send-now', sessionId: target.sessionId, detail: promptId })
+        return c.json(result)
+    })
+
+    app.put('/sessions/:id/queue/merge', requireRole('operator'), async (c) => {
+        const target = requireQueueTarget(c)
+        if (target instanceof Response) {
+            return target
+        }
+
+        const parsed = mergeSchema.safeParse(await c.req.json().catch(() => null))
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const result = await runRpc(() => target.engine.setQueueMerge(target.sessionId, parsed.data.merge))
+        if (result.success) {
+            auditLog.record(getAuditActor(c), {
+                action: 'queue.merge',
+                sessionId: target.sessionId,
+                detail: parsed.data.merge ? 'on' : 'off'
+            })
+        }
+        return c.json(result)
+    })
+
+    return app
+}
@@ -0,0 +1,200 @@
+import { hasUserRole } from '@hapi/protocol'
+import { ScheduleInputSchema } from '@hapi/protocol/schemas'
+import type { ScheduleInput } from '@hapi/protocol/types'
+import { Hono, type Context } from 'hono'
+import type { AuditLog } from '../../audit/auditLog'
+import { isValidCron } from '../../scheduler/cron'
+import { computeNextRunAt, type Scheduler } from '../../scheduler/scheduler'
+import type { ScheduleFields, Store, StoredSchedule } from '../../store'
+import { getSpawnAgentError } from '../../sync/spawnAgents'
+import type { SyncEngine } from '../../sync/syncEngine'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireMachine, requireRole, requireSession, requireSyncEngine } from './guards'
+
+function toScheduleFields(input: ScheduleInput): ScheduleFields {
+    const enabled = input.enabled ?? true
+    const isSpawn = input.target === 'spawn'
+    return {
+        name: input.name,
+        cron: input.cron,
+        enabled,
+        target: input.target,
+        prompt: input.prompt,
+        sessionId: isSpawn ? null : input.sessionId ?? null,
+        machineId: isSpawn ? input.machineId ?? null : null,
+        directory: isSpawn ? input.directory?.trim() ?? null : null,
+        agent: isSpawn ? input.agent ?? 'claude' : null,
+        yolo: isSpawn ? input.yolo ?? false : false,
+        missedRunPolicy: input.missedRunPolicy ?? 'skip',
+        nextRunAt: computeNextRunAt(input.cron, enabled)
+    }
+}
+
+// Validates the body and its target; returns the fields to store or an error response
+function parseScheduleBody(
+    c: Context<WebAppEnv>,
+    engine: SyncEngine,
+    json: unknown
+): ScheduleFields | Response {
+    const parsed = ScheduleInputSchema.safeParse(json)
+    if (!parsed.success) {
+        return c.json({ error: 'Invalid body' }, 400)
+    }
+    if (!isValidCron(parsed.data.cron)) {
+        return c.json({ error: 'Invalid cron expression' }, 400)
+    }
+
+    const fields = toScheduleFields(parsed.data)
+    if (fields.target === 'spawn') {
+        // Spawning is admin-only, including on the schedule's behalf
+        if (!hasUserRole(c.get('role'), 'admin')) {
+            return c.json({ error: 'Insufficient role' }, 403)
+        }
+        if (!fields.machineId || !fields.directory) {
+            return c.json({ error: 'Spawn schedules require a machine and directory' }, 400)
+        }
+        const machine = requireMachine(c, engine, fields.machineId)
+        if (machine instanceof Response) {
+            return machine
+        }
+        const agentError = getSpawnAgentError(machine, fields.agent ?? undefined)
+        if (agentError) {
+            return c.json({ error: agentError }, 400)
+        }
+        return fields
+    }
+
+    if (!fields.sessionId) {
+        return c.json({ error: 'Session schedules require a session' }, 400)
+    }
+    const session = requireSession(c, engine, fields.sessionId)
+    if (session instanceof Response) {
+        return session
+    }
+    return { ...fields, sessionId: session.sessionId }
+}
+
+function requireScheduleFromParam(c: Context<WebAppEnv>, store: Store): StoredSchedule | Response {
+    const schedule = store.schedules.getSchedule(c.req.param('id') ?? '', c.get('namespace'))
+    if (!schedule) {
+        return c.json({ error: 'Schedule not found' }, 404)
+    }
+    if (schedule.target === 'spawn' && !hasUserRole(c.get('role'), 'admin')) {
+        return c.json({ error: 'Insufficient role' }, 403)
+    }
+    return schedule
+}
+
+export function createSchedulesRoutes(
+    store: Store,
+    getSyncEngine: () => SyncEngine | null,
+    getScheduler: () => Scheduler | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/schedules', (c) => {
+        return c.json({ schedules: store.schedules.getSchedulesByNamespace(c.get('namespace')) })
+    })
+
+    app.get('/schedules/:id/runs', (c) => {
+        const schedule = store.schedules.getSchedule(c.req.param('id'), c.get('namespace'))
+        if (!schedule) {
+            return c.json({ error: 'Schedule not found' }, 404)
+        }
+        return c.json({ runs: store.schedules.getRuns(schedule.id) })
+    })
+
+    app.post('/schedules', requireRole('operator'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseScheduleBody(c, engine, json)
+        if (fields instanceof Response) {
+            return fields
+        }
+
+        const schedule = store.schedules.addSchedule(c.get('namespace'), fields)
+        auditLog.record(getAuditActor(c), {
+            action: 'schedule.create',
+            sessionId: schedule.sessionId,
+            machineId: schedule.machineId,
+            detail: `${schedule.name} (${schedule.cron})`,
+            payload: fields
+        })
+        return c.json({ schedule })
+    })
+
+    app.patch('/schedules/:id', requireRole('operator'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const existing = requireScheduleFromParam(c, store)
+        if (existing instanceof Response) {
+            return existing
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseScheduleBody(c, engine, json)
+        if (fields instanceof Response) {
+            return fields
+        }
+
+        const schedule = store.schedules.updateSchedule(existing.id, c.get('namespace'), fields)
+        if (!schedule) {
+            return c.json({ error: 'Schedule not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), {
+            action: 'schedule.update',
+            sessionId: schedule.sessionId,
+            machineId: schedule.machineId,
+            detail: `${schedule.name} (${schedule.enabled ? schedule.cron : 'paused'})`,
+            payload: fields
+        })
+        return c.json({ schedule })
+    })
+
+    app.delete('/schedules/:id', requireRole('operator'), (c) => {
+        const existing = requireScheduleFromParam(c, store)
+        if (existing instanceof Response) {
+            return existing
+        }
+
+        if (!store.schedules.removeSchedule(existing.id, c.get('namespace'))) {
+            return c.json({ error: 'Schedule not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), { action: 'schedule.delete', detail: existing.name })
+        return c.json({ ok: true })
+    })
+
+    app.post('/schedules/:id/run', requireRole('operator'), async (c) => {
+        const scheduler = getScheduler()
+        if (!scheduler) {
+            return c.json({ error: 'Not connected' }, 503)
+        }
+
+        const schedule = requireScheduleFromParam(c, store)
+        if (schedule instanceof Response) {
+            return schedule
+        }
+
+        auditLog.record(getAuditActor(c), {
+            action: 'schedule.run',
+            sessionId: schedule.sessionId,
+            machineId: schedule.machineId,
+            detail: schedule.name
+        })
+        const run = await scheduler.runNow(schedule)
+        if (!run) {
+            return c.json({ error: 'Schedule is already running' }, 409)
+        }
+        return c.json({ run })
+    })
+
+    return app
+}
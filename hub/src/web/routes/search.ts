@@ -0,0 +1,61 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START, type Store } from '../../store'
+import type { WebAppEnv } from '../middleware/auth'
+
+const querySchema = z.object({
+    q: z.string().trim().min(1).max(500),
+    machineId: z.string().min(1).optional(),
+    flavor: z.string().min(1).optional(),
+    path: z.string().min(1).optional(),
+    from: z.coerce.number().int().min(0).optional(),
+    to: z.coerce.number().int().min(0).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    offset: z.coerce.number().int().min(0).optional()
+})
+
+type SnippetSegment = { text: string; highlight: boolean }
+
+function toSnippetSegments(snippet: string): SnippetSegment[] {
+    const segments: SnippetSegment[] = []
+    let rest = snippet
+    while (rest.length > 0) {
+        const start = rest.indexOf(SEARCH_HIGHLIGHT_START)
+        if (start === -1) {
+            segments.push({ text: rest, highlight: false })
+            break
+        }
+        if (start > 0) {
+            segments.push({ text: rest.slice(0, start), highlight: false })
+        }
+        const end = rest.indexOf(SEARCH_HIGHLIGHT_END, start + 1)
+        const stop = end === -1 ? rest.length : end
+        segments.push({ text: rest.slice(start + 1, stop), highlight: true })
+        rest = end === -1 ? '' : rest.slice(end + 1)
+    }
+    return segments
+}
+
+export function createSearchRoutes(store: Store): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/search', (c) => {
+        const parsed = querySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const namespace = c.get('namespace')
+        const { q, ...filters } = parsed.data
+        const results = store.messages.searchMessages(namespace, q, filters)
+
+        return c.json({
+            results: results.map((result) => ({
+                ...result,
+                snippet: toSnippetSegments(result.snippet)
+            }))
+        })
+    })
+
+    return app
+}
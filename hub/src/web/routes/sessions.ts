@@ -1,17 +1,33 @@
-import { getPermissionModesForFlavor, isModelModeAllowedForFlavor, isPermissionModeAllowedForFlavor, toSessionSummary } from '@hapi/protocol'
-import { ModelModeSchema, PermissionModeSchema } from '@hapi/protocol/schemas'
+import {
+    getModelChoices,
+    getPermissionModesForFlavor,
+    isModelModeAllowed,
+    isPermissionModeAllowedForFlavor,
+    isReasoningEffortAllowed,
+    toSessionSummary
+} from '@hapi/protocol'
+import { ModelModeSchema, PermissionModeSchema, ReasoningEffortSchema } from '@hapi/protocol/schemas'
 import { Hono } from 'hono'
 import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
 import type { SyncEngine, Session } from '../../sync/syncEngine'
-import type { WebAppEnv } from '../middleware/auth'
-import { requireSessionFromParam, requireSyncEngine } from './guards'
+import { exportSessionTranscript } from '../../transcript/exportSession'
+import { TRANSCRIPT_FORMATS } from '../../transcript/render'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole, requireSessionFromParam, requireSyncEngine } from './guards'
 
 const permissionModeSchema = z.object({
     mode: PermissionModeSchema
 })
 
 const modelModeSchema = z.object({
-    model: ModelModeSchema
+    model: ModelModeSchema,
+    reasoningEffort: ReasoningEffortSchema.nullish()
+})
+
+const handoffSessionSchema = z.object({
+    machineId: z.string().min(1),
+    directory: z.string().min(1).optional()
 })
 
 const renameSessionSchema = z.object({
@@ -28,8 +44,14 @@ const uploadDeleteSchema = z.object({
     path: z.string().min(1)
 })
 
+const exportQuerySchema = z.object({
+    format: z.enum(TRANSCRIPT_FORMATS).optional()
+})
+
 const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
 
+const recordingIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/).max(128)
+
 function estimateBase64Bytes(base64: string): number {
     const len = base64.length
     if (len === 0) return 0
@@ -37,7 +59,10 @@ function estimateBase64Bytes(base64: string): number {
     return Math.floor((len * 3) / 4) - padding
 }
 
-export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Hono<WebAppEnv> {
+export function createSessionsRoutes(
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
     app.get('/sessions', (c) => {
@@ -83,7 +108,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         return c.json({ session: sessionResult.session })
     })
 
-    app.post('/sessions/:id/fork', (c) => {
+    app.post('/sessions/:id/fork', requireRole('admin'), (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -97,6 +122,11 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         try {
             const namespace = c.get('namespace')
             const newSessionId = engine.forkSession(sessionResult.sessionId, namespace)
+            auditLog.record(getAuditActor(c), {
+                action: 'session.fork',
+                sessionId: sessionResult.sessionId,
+                detail: newSessionId
+            })
             return c.json({ type: 'success', sessionId: newSessionId })
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to fork session'
@@ -104,7 +134,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.post('/sessions/:id/resume', async (c) => {
+    app.post('/sessions/:id/resume', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -126,10 +156,53 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
             return c.json({ error: result.message, code: result.code }, status)
         }
 
+        auditLog.record(getAuditActor(c), { action: 'session.resume', sessionId: result.sessionId })
         return c.json({ type: 'success', sessionId: result.sessionId })
     })
 
-    app.post('/sessions/:id/upload', async (c) => {
+    app.post('/sessions/:id/handoff', requireRole('admin'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const body = await c.req.json().catch(() => null)
+        const parsed = handoffSessionSchema.safeParse(body)
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const namespace = c.get('namespace')
+        const result = await engine.handoffSession(
+            sessionResult.sessionId,
+            namespace,
+            parsed.data.machineId,
+            parsed.data.directory
+        )
+        if (result.type === 'error') {
+            const status = result.code === 'machine_offline' ? 503
+                : result.code === 'access_denied' ? 403
+                    : result.code === 'session_not_found' ? 404
+                        : result.code === 'session_active' || result.code === 'handoff_unavailable' ? 409
+                            : 500
+            return c.json({ error: result.message, code: result.code }, status)
+        }
+
+        auditLog.record(getAuditActor(c), {
+            action: 'session.handoff',
+            sessionId: result.sessionId,
+            machineId: parsed.data.machineId,
+            detail: sessionResult.sessionId
+        })
+        return c.json({ type: 'success', sessionId: result.sessionId })
+    })
+
+    app.post('/sessions/:id/upload', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -158,6 +231,12 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
                 parsed.data.content,
                 parsed.data.mimeType
             )
+            auditLog.record(getAuditActor(c), {
+                action: 'session.upload',
+                sessionId: sessionResult.sessionId,
+                detail: parsed.data.filename,
+                payload: parsed.data.content
+            })
             return c.json(result)
         } catch (error) {
             return c.json({
@@ -167,7 +246,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.post('/sessions/:id/upload/delete', async (c) => {
+    app.post('/sessions/:id/upload/delete', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -195,7 +274,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.post('/sessions/:id/abort', async (c) => {
+    app.post('/sessions/:id/abort', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -207,10 +286,11 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
 
         await engine.abortSession(sessionResult.sessionId)
+        auditLog.record(getAuditActor(c), { action: 'session.abort', sessionId: sessionResult.sessionId })
         return c.json({ ok: true })
     })
 
-    app.post('/sessions/:id/archive', async (c) => {
+    app.post('/sessions/:id/archive', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -222,10 +302,11 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
 
         await engine.archiveSession(sessionResult.sessionId)
+        auditLog.record(getAuditActor(c), { action: 'session.archive', sessionId: sessionResult.sessionId })
         return c.json({ ok: true })
     })
 
-    app.post('/sessions/:id/switch', async (c) => {
+    app.post('/sessions/:id/switch', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -237,10 +318,11 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
 
         await engine.switchSession(sessionResult.sessionId, 'remote')
+        auditLog.record(getAuditActor(c), { action: 'session.switch', sessionId: sessionResult.sessionId })
         return c.json({ ok: true })
     })
 
-    app.post('/sessions/:id/permission-mode', async (c) => {
+    app.post('/sessions/:id/permission-mode', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -271,6 +353,11 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
 
         try {
             await engine.applySessionConfig(sessionResult.sessionId, { permissionMode: mode })
+            auditLog.record(getAuditActor(c), {
+                action: 'session.permission-mode',
+                sessionId: sessionResult.sessionId,
+                detail: mode
+            })
             return c.json({ ok: true })
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to apply permission mode'
@@ -278,7 +365,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.post('/sessions/:id/model', async (c) => {
+    app.post('/sessions/:id/model', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -296,12 +383,29 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
 
         const flavor = sessionResult.session.metadata?.flavor ?? 'claude'
-        if (!isModelModeAllowedForFlavor(parsed.data.model, flavor)) {
-            return c.json({ error: 'Model mode is only supported for Claude sessions' }, 400)
+        const catalog = sessionResult.session.metadata?.modelCatalog
+        const { model, reasoningEffort } = parsed.data
+        if (getModelChoices(flavor, catalog).length === 0) {
+            return c.json({ error: 'This session cannot switch models' }, 400)
+        }
+        if (!isModelModeAllowed(model, flavor, catalog)) {
+            return c.json({ error: 'Model is not in the session model catalog' }, 400)
+        }
+        if (reasoningEffort && !isReasoningEffortAllowed(reasoningEffort, model, flavor, catalog)) {
+            return c.json({ error: 'Reasoning effort is not supported by this model' }, 400)
         }
 
         try {
-            await engine.applySessionConfig(sessionResult.sessionId, { modelMode: parsed.data.model })
+            // null clears a previous effort so the model default applies
+            await engine.applySessionConfig(sessionResult.sessionId, {
+                modelMode: model,
+                ...(reasoningEffort !== undefined ? { reasoningEffort } : {})
+            })
+            auditLog.record(getAuditActor(c), {
+                action: 'session.model',
+                sessionId: sessionResult.sessionId,
+                detail: reasoningEffort ? `${model} (${reasoningEffort})` : model
+            })
             return c.json({ ok: true })
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to apply model mode'
@@ -309,7 +413,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.patch('/sessions/:id', async (c) => {
+    app.patch('/sessions/:id', requireRole('operator'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -328,6 +432,11 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
 
         try {
             await engine.renameSession(sessionResult.sessionId, parsed.data.name)
+            auditLog.record(getAuditActor(c), {
+                action: 'session.rename',
+                sessionId: sessionResult.sessionId,
+                detail: parsed.data.name
+            })
             return c.json({ ok: true })
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to rename session'
@@ -339,7 +448,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
-    app.delete('/sessions/:id', async (c) => {
+    app.delete('/sessions/:id', requireRole('admin'), async (c) => {
         const engine = requireSyncEngine(c, getSyncEngine)
         if (engine instanceof Response) {
             return engine
@@ -356,6 +465,7 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
 
         try {
             await engine.deleteSession(sessionResult.sessionId)
+            auditLog.record(getAuditActor(c), { action: 'session.delete', sessionId: sessionResult.sessionId })
             return c.json({ ok: true })
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to delete session'
@@ -416,5 +526,115 @@ export function createSessionsRoutes(getSyncEngine: () => SyncEngine | null): Ho
         }
     })
 
+    app.get('/sessions/:id/terminals', requireRole('operator'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine, { requireActive: true })
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        try {
+            const result = await engine.listTerminals(sessionResult.sessionId)
+            return c.json(result)
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list terminals'
+            })
+        }
+    })
+
+    app.get('/sessions/:id/recordings', requireRole('operator'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        try {
+            const result = await engine.listTerminalRecordings(sessionResult.sessionId)
+            return c.json(result)
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to list recordings'
+            })
+        }
+    })
+
+    // Recordings live on the CLI's machine, so they are pulled over RPC in chunks,
+    // from the session while it runs and from its machine's runner afterwards
+    app.get('/sessions/:id/recordings/:recordingId', requireRole('operator'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const recordingId = recordingIdSchema.safeParse(c.req.param('recordingId'))
+        if (!recordingId.success) {
+            return c.json({ error: 'Invalid recording id' }, 400)
+        }
+
+        const chunks: Buffer[] = []
+        let offset = 0
+        try {
+            while (true) {
+                const chunk = await engine.readTerminalRecordingChunk(sessionResult.sessionId, recordingId.data, offset)
+                if (!chunk.success || chunk.content === undefined) {
+                    return c.json({ error: chunk.error ?? 'Recording not found' }, 404)
+                }
+                const bytes = Buffer.from(chunk.content, 'base64')
+                chunks.push(bytes)
+                offset += bytes.length
+                if (chunk.eof || bytes.length === 0) {
+                    break
+                }
+            }
+        } catch (error) {
+            return c.json({ error: error instanceof Error ? error.message : 'Failed to read recording' }, 500)
+        }
+
+        return c.body(Buffer.concat(chunks), 200, {
+            'Content-Type': 'application/x-asciicast',
+            'Content-Disposition': `attachment; filename="${recordingId.data}.cast"`
+        })
+    })
+
+    app.get('/sessions/:id/export', (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const parsed = exportQuerySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const exported = exportSessionTranscript(engine, sessionResult.session, parsed.data.format ?? 'md')
+        return c.body(exported.body, 200, {
+            'Content-Type': exported.contentType,
+            'Content-Disposition': `attachment; filename="${exported.filename}"`
+        })
+    })
+
     return app
 }
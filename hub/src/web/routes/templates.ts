@@ -0,0 +1,158 @@
+import { isPermissionModeAllowedForFlavor } from '@hapi/protocol'
+import { SessionTemplateInputSchema } from '@hapi/protocol/schemas'
+import type { SessionTemplate, SessionTemplateInput } from '@hapi/protocol/types'
+import { Hono, type Context } from 'hono'
+import type { AuditLog } from '../../audit/auditLog'
+import type { SessionTemplateFields, Store, StoredSessionTemplate } from '../../store'
+import { getSpawnAgentError } from '../../sync/spawnAgents'
+import type { SyncEngine } from '../../sync/syncEngine'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireMachine, requireRole, requireSyncEngine } from './guards'
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+
+// Attachment contents stay in the hub; clients only see their names and sizes
+export function toSessionTemplate(template: StoredSessionTemplate): SessionTemplate {
+    return {
+        ...template,
+        attachments: template.attachments.map(({ filename, mimeType, size }) => ({ filename, mimeType, size }))
+    }
+}
+
+function toSessionTemplateFields(input: SessionTemplateInput, existing: StoredSessionTemplate | null): SessionTemplateFields {
+    const sessionType = input.sessionType ?? 'simple'
+    return {
+        name: input.name,
+        machineId: input.machineId,
+        directory: input.directory,
+        agent: input.agent ?? 'claude',
+        model: input.model ?? null,
+        permissionMode: input.permissionMode ?? null,
+        sessionType,
+        worktreeNamePattern: sessionType === 'worktree' ? input.worktreeNamePattern ?? null : null,
+        initialPrompt: input.initialPrompt ?? null,
+        attachments: input.attachments
+            ? input.attachments.map((attachment) => ({
+                ...attachment,
+                size: Buffer.from(attachment.content, 'base64').length
+            }))
+            : existing?.attachments ?? []
+    }
+}
+
+// Validates the body; returns the fields to store or an error response
+function parseTemplateBody(
+    c: Context<WebAppEnv>,
+    engine: SyncEngine,
+    store: Store,
+    json: unknown,
+    existing: StoredSessionTemplate | null
+): SessionTemplateFields | Response {
+    const parsed = SessionTemplateInputSchema.safeParse(json)
+    if (!parsed.success) {
+        return c.json({ error: 'Invalid body' }, 400)
+    }
+
+    const fields = toSessionTemplateFields(parsed.data, existing)
+    if (fields.permissionMode && !isPermissionModeAllowedForFlavor(fields.permissionMode, fields.agent)) {
+        return c.json({ error: 'Invalid permission mode for agent' }, 400)
+    }
+    if (fields.attachments.length > 0 && !fields.initialPrompt) {
+        return c.json({ error: 'Attachments are sent with the initial prompt, which is missing' }, 400)
+    }
+    if (fields.attachments.some((attachment) => attachment.size > MAX_ATTACHMENT_BYTES)) {
+        return c.json({ error: 'Attachments are limited to 5 MB each' }, 413)
+    }
+
+    const sameName = store.sessionTemplates.getTemplateByName(fields.name, c.get('namespace'))
+    if (sameName && sameName.id !== existing?.id) {
+        return c.json({ error: 'A template with this name already exists' }, 409)
+    }
+
+    const machine = requireMachine(c, engine, fields.machineId)
+    if (machine instanceof Response) {
+        return machine
+    }
+    const agentError = getSpawnAgentError(machine, fields.agent)
+    if (agentError) {
+        return c.json({ error: agentError }, 400)
+    }
+    return fields
+}
+
+export function createTemplatesRoutes(
+    store: Store,
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/templates', (c) => {
+        const templates = store.sessionTemplates.getTemplatesByNamespace(c.get('namespace'))
+        return c.json({ templates: templates.map(toSessionTemplate) })
+    })
+
+    // Spawning is admin-only, so is preparing spawns
+    app.post('/templates', requireRole('admin'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseTemplateBody(c, engine, store, json, null)
+        if (fields instanceof Response) {
+            return fields
+        }
+
+        const template = store.sessionTemplates.addTemplate(c.get('namespace'), fields)
+        auditLog.record(getAuditActor(c), {
+            action: 'template.create',
+            machineId: template.machineId,
+            detail: template.name,
+            payload: toSessionTemplate(template)
+        })
+        return c.json({ template: toSessionTemplate(template) })
+    })
+
+    app.patch('/templates/:id', requireRole('admin'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const existing = store.sessionTemplates.getTemplate(c.req.param('id'), c.get('namespace'))
+        if (!existing) {
+            return c.json({ error: 'Template not found' }, 404)
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseTemplateBody(c, engine, store, json, existing)
+        if (fields instanceof Response) {
+            return fields
+        }
+
+        const template = store.sessionTemplates.updateTemplate(existing.id, c.get('namespace'), fields)
+        if (!template) {
+            return c.json({ error: 'Template not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), {
+            action: 'template.update',
+            machineId: template.machineId,
+            detail: template.name,
+            payload: toSessionTemplate(template)
+        })
+        return c.json({ template: toSessionTemplate(template) })
+    })
+
+    app.delete('/templates/:id', requireRole('admin'), (c) => {
+        const existing = store.sessionTemplates.getTemplate(c.req.param('id'), c.get('namespace'))
+        if (!existing || !store.sessionTemplates.removeTemplate(existing.id, c.get('namespace'))) {
+            return c.json({ error: 'Template not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), { action: 'template.delete', detail: existing.name })
+        return c.json({ ok: true })
+    })
+
+    return app
+}
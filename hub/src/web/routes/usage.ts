@@ -0,0 +1,170 @@
+import { UsageBudgetInputSchema } from '@hapi/protocol/schemas'
+import { Hono, type Context } from 'hono'
+import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
+import type { Store, UsageBudgetFields } from '../../store'
+import type { SyncEngine } from '../../sync/syncEngine'
+import { getBudgetStatus, getSessionBudgetStatuses } from '../../usage/budgets'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireMachine, requireRole, requireSession, requireSessionFromParam, requireSyncEngine } from './guards'
+
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000
+
+const rangeQuerySchema = z.object({
+    from: z.coerce.number().int().min(0).optional(),
+    to: z.coerce.number().int().min(0).optional()
+})
+
+// Validates the body and its scope target; returns the fields to store or an error response
+function parseBudgetBody(
+    c: Context<WebAppEnv>,
+    engine: SyncEngine,
+    json: unknown
+): UsageBudgetFields | Response {
+    const parsed = UsageBudgetInputSchema.safeParse(json)
+    if (!parsed.success) {
+        return c.json({ error: 'Invalid body' }, 400)
+    }
+
+    const input = parsed.data
+    const fields: UsageBudgetFields = {
+        name: input.name,
+        enabled: input.enabled ?? true,
+        scope: input.scope,
+        scopeId: input.scope === 'namespace' ? null : input.scopeId ?? null,
+        period: input.period,
+        limitTokens: input.limitTokens ?? null,
+        limitUsd: input.limitUsd ?? null,
+        action: input.action
+    }
+    if (fields.limitTokens === null && fields.limitUsd === null) {
+        return c.json({ error: 'Budgets require a token or cost limit' }, 400)
+    }
+
+    if (fields.scope !== 'namespace' && !fields.scopeId) {
+        return c.json({ error: 'Machine and session budgets require a target' }, 400)
+    }
+    if (fields.scope === 'machine' && fields.scopeId) {
+        const machine = requireMachine(c, engine, fields.scopeId)
+        if (machine instanceof Response) {
+            return machine
+        }
+    }
+    if (fields.scope === 'session' && fields.scopeId) {
+        const session = requireSession(c, engine, fields.scopeId)
+        if (session instanceof Response) {
+            return session
+        }
+        return { ...fields, scopeId: session.sessionId }
+    }
+    return fields
+}
+
+export function createUsageRoutes(
+    store: Store,
+    getSyncEngine: () => SyncEngine | null,
+    auditLog: AuditLog
+): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.get('/usage', (c) => {
+        const parsed = rangeQuerySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const namespace = c.get('namespace')
+        const to = parsed.data.to ?? Date.now()
+        const range = { from: parsed.data.from ?? to - DEFAULT_RANGE_MS, to }
+        return c.json({
+            totals: store.usage.getTotals(namespace, range),
+            byModel: store.usage.getByModel(namespace, range),
+            daily: store.usage.getDaily(namespace, range)
+        })
+    })
+
+    app.get('/sessions/:id/usage', (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const sessionResult = requireSessionFromParam(c, engine)
+        if (sessionResult instanceof Response) {
+            return sessionResult
+        }
+
+        const { session, sessionId } = sessionResult
+        return c.json({
+            totals: store.usage.getTotals(session.namespace, { sessionId }),
+            byModel: store.usage.getByModel(session.namespace, { sessionId }),
+            budgets: getSessionBudgetStatuses(store.usage, session)
+        })
+    })
+
+    app.get('/usage/budgets', (c) => {
+        const budgets = store.usage.getBudgets(c.get('namespace'))
+        return c.json({ budgets: budgets.map((budget) => getBudgetStatus(store.usage, budget)) })
+    })
+
+    app.post('/usage/budgets', requireRole('admin'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseBudgetBody(c, engine, json)
+        if (fields instanceof Response) {
+            return fields
+        }
+
+        const budget = store.usage.addBudget(c.get('namespace'), fields)
+        auditLog.record(getAuditActor(c), {
+            action: 'usage-budget.create',
+            sessionId: budget.scope === 'session' ? budget.scopeId : null,
+            machineId: budget.scope === 'machine' ? budget.scopeId : null,
+            detail: budget.name,
+            payload: fields
+        })
+        return c.json({ budget: getBudgetStatus(store.usage, budget) })
+    })
+
+    app.patch('/usage/budgets/:id', requireRole('admin'), async (c) => {
+        const engine = requireSyncEngine(c, getSyncEngine)
+        if (engine instanceof Response) {
+            return engine
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const fields = parseBudgetBody(c, engine, json)
+        if (fields instanceof Response) {
+            return fields
+        }
+
+        const budget = store.usage.updateBudget(c.req.param('id'), c.get('namespace'), fields)
+        if (!budget) {
+            return c.json({ error: 'Budget not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), {
+            action: 'usage-budget.update',
+            sessionId: budget.scope === 'session' ? budget.scopeId : null,
+            machineId: budget.scope === 'machine' ? budget.scopeId : null,
+            detail: `${budget.name} (${budget.enabled ? budget.action : 'disabled'})`,
+            payload: fields
+        })
+        return c.json({ budget: getBudgetStatus(store.usage, budget) })
+    })
+
+    app.delete('/usage/budgets/:id', requireRole('admin'), (c) => {
+        const namespace = c.get('namespace')
+        const existing = store.usage.getBudget(c.req.param('id'), namespace)
+        if (!existing || !store.usage.removeBudget(existing.id, namespace)) {
+            return c.json({ error: 'Budget not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), { action: 'usage-budget.delete', detail: existing.name })
+        return c.json({ ok: true })
+    })
+
+    return app
+}
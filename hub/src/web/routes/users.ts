@@ -0,0 +1,110 @@
+import { UserRoleSchema } from '@hapi/protocol/schemas'
+import { Hono } from 'hono'
+import { z } from 'zod'
+import type { AuditLog } from '../../audit/auditLog'
+import type { Store, StoredUser } from '../../store'
+import { generateUserToken, hashUserToken } from '../../utils/userToken'
+import { getAuditActor, type WebAppEnv } from '../middleware/auth'
+import { requireRole } from './guards'
+
+const createUserSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    role: UserRoleSchema
+})
+
+const updateUserSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    role: UserRoleSchema.optional()
+})
+
+function toUserAccount(user: StoredUser) {
+    return {
+        id: user.id,
+        platform: user.platform,
+        name: user.name,
+        role: user.role,
+        createdAt: user.createdAt
+    }
+}
+
+function parseUserId(raw: string): number | null {
+    const id = Number(raw)
+    return Number.isInteger(id) && id > 0 ? id : null
+}
+
+export function createUsersRoutes(store: Store, auditLog: AuditLog): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    app.use('/users', requireRole('admin'))
+    app.use('/users/*', requireRole('admin'))
+
+    app.get('/users', (c) => {
+        const namespace = c.get('namespace')
+        return c.json({ users: store.users.getUsersByNamespace(namespace).map(toUserAccount) })
+    })
+
+    // The plaintext token is only returned here and when regenerated
+    app.post('/users', async (c) => {
+        const json = await c.req.json().catch(() => null)
+        const parsed = createUserSchema.safeParse(json)
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+
+        const token = generateUserToken()
+        const user = store.users.addTokenUser(c.get('namespace'), parsed.data.name, parsed.data.role, hashUserToken(token))
+        auditLog.record(getAuditActor(c), { action: 'user.create', detail: `${user.id} ${user.role}` })
+        return c.json({ user: toUserAccount(user), token })
+    })
+
+    app.patch('/users/:id', async (c) => {
+        const id = parseUserId(c.req.param('id'))
+        if (id === null) {
+            return c.json({ error: 'User not found' }, 404)
+        }
+
+        const json = await c.req.json().catch(() => null)
+        const parsed = updateUserSchema.safeParse(json)
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid body' }, 400)
+        }
+        if (id === c.get('accountId') && parsed.data.role && parsed.data.role !== 'admin') {
+            return c.json({ error: 'Cannot change your own role' }, 409)
+        }
+
+        const user = store.users.updateUser(id, c.get('namespace'), parsed.data)
+        if (!user) {
+            return c.json({ error: 'User not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), { action: 'user.update', detail: `${user.id} ${user.role}`, payload: parsed.data })
+        return c.json({ user: toUserAccount(user) })
+    })
+
+    app.post('/users/:id/token', (c) => {
+        const id = parseUserId(c.req.param('id'))
+        const token = generateUserToken()
+        if (id === null || !store.users.setUserTokenHash(id, c.get('namespace'), hashUserToken(token))) {
+            return c.json({ error: 'User not found' }, 404)
+        }
+        auditLog.record(getAuditActor(c), { action: 'user.token', detail: String(id) })
+        return c.json({ token })
+    })
+
+    app.delete('/users/:id', (c) => {
+        const id = parseUserId(c.req.param('id'))
+        if (id === null) {
+            return c.json({ error: 'User not found' }, 404)
+        }
+        if (id === c.get('accountId')) {
+            return c.json({ error: 'Cannot revoke your own access' }, 409)
+        }
+        if (!store.users.removeUserById(id, c.get('namespace'))) {
+            return c.json({ error: 'User not found' }, 404)
+        }
+        store.notificationPreferences.remove(c.get('namespace'), id)
+        auditLog.record(getAuditActor(c), { action: 'user.revoke', detail: String(id) })
+        return c.json({ ok: true })
+    })
+
+    return app
+}
@@ -1,6 +1,7 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
 import type { WebAppEnv } from '../middleware/auth'
+import { requireRole } from './guards'
 import {
     ELEVENLABS_API_BASE,
     VOICE_AGENT_NAME,
@@ -117,7 +118,7 @@ export function createVoiceRoutes(): Hono<WebAppEnv> {
     const app = new Hono<WebAppEnv>()
 
     // Get ElevenLabs ConvAI conversation token
-    app.post('/voice/token', async (c) => {
+    app.post('/voice/token', requireRole('operator'), async (c) => {
         const json = await c.req.json().catch(() => null)
         const parsed = tokenRequestSchema.safeParse(json ?? {})
         if (!parsed.success) {
@@ -0,0 +1,39 @@
+import { WEBHOOK_DELIVERY_STATUSES } from '@hapi/protocol'
+import { Hono } from 'hono'
+import { z } from 'zod'
+import type { WebhookConfig } from '../../config/serverSettings'
+import type { Store } from '../../store'
+import type { WebAppEnv } from '../middleware/auth'
+import { requireRole } from './guards'
+
+const deliveriesQuerySchema = z.object({
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+    before: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional()
+})
+
+export function createWebhooksRoutes(store: Store, webhooks: WebhookConfig[]): Hono<WebAppEnv> {
+    const app = new Hono<WebAppEnv>()
+
+    // Webhooks are configured in settings.json; secrets are never returned
+    app.get('/webhooks', requireRole('admin'), (c) => {
+        const namespace = c.get('namespace')
+        return c.json({
+            webhooks: webhooks
+                .filter((webhook) => webhook.namespace === null || webhook.namespace === namespace)
+                .map((webhook) => ({ url: webhook.url, events: webhook.events, namespace: webhook.namespace }))
+        })
+    })
+
+    app.get('/webhooks/deliveries', requireRole('admin'), (c) => {
+        const parsed = deliveriesQuerySchema.safeParse(c.req.query())
+        if (!parsed.success) {
+            return c.json({ error: 'Invalid query' }, 400)
+        }
+
+        const deliveries = store.webhookDeliveries.getDeliveries(c.get('namespace'), parsed.data)
+        return c.json({ deliveries })
+    })
+
+    return app
+}
@@ -13,11 +13,21 @@ import { createBindRoutes } from './routes/bind'
 import { createEventsRoutes } from './routes/events'
 import { createSessionsRoutes } from './routes/sessions'
 import { createMessagesRoutes } from './routes/messages'
+import { createQueueRoutes } from './routes/queue'
 import { createPermissionsRoutes } from './routes/permissions'
+import { createPermissionRulesRoutes } from './routes/permissionRules'
 import { createMachinesRoutes } from './routes/machines'
 import { createGitRoutes } from './routes/git'
 import { createCliRoutes } from './routes/cli'
-import { createPushRoutes } from './routes/push'
+import { createNotificationRoutes } from './routes/notifications'
+import { createPushActionRoutes, createPushRoutes } from './routes/push'
+import { createSearchRoutes } from './routes/search'
+import { createUsageRoutes } from './routes/usage'
+import { createUsersRoutes } from './routes/users'
+import { createAuditRoutes } from './routes/audit'
+import { createSchedulesRoutes } from './routes/schedules'
+import { createTemplatesRoutes } from './routes/templates'
+import { createWebhooksRoutes } from './routes/webhooks'
 import { createVoiceRoutes } from './routes/voice'
 import type { SSEManager } from '../sse/sseManager'
 import type { VisibilityTracker } from '../visibility/visibilityTracker'
@@ -27,6 +37,8 @@ import type { WebSocketData } from '@socket.io/bun-engine'
 import { loadEmbeddedAssetMap, type EmbeddedWebAsset } from './embeddedAssets'
 import { isBunCompiled } from '../utils/bunCompiled'
 import type { Store } from '../store'
+import type { AuditLog } from '../audit/auditLog'
+import type { Scheduler } from '../scheduler/scheduler'
 
 function findWebappDistDir(): { distDir: string; indexHtmlPath: string } {
     const candidates = [
@@ -58,8 +70,10 @@ function createWebApp(options: {
     getSyncEngine: () => SyncEngine | null
     getSseManager: () => SSEManager | null
     getVisibilityTracker: () => VisibilityTracker | null
+    getScheduler: () => Scheduler | null
     jwtSecret: Uint8Array
     store: Store
+    auditLog: AuditLog
     vapidPublicKey: string
     corsOrigins?: string[]
     embeddedAssetMap: Map<string, EmbeddedWebAsset> | null
@@ -77,8 +91,8 @@ function createWebApp(options: {
     const corsOriginOption = corsOrigins.includes('*') ? '*' : corsOrigins
     const corsMiddleware = cors({
         origin: corsOriginOption,
-        allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-        allowHeaders: ['authorization', 'content-type']
+        allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+        allowHeaders: ['authorization', 'content-type', 'x-hapi-origin']
     })
     app.use('/api/*', corsMiddleware)
     app.use('/cli/*', corsMiddleware)
@@ -87,15 +101,29 @@ function createWebApp(options: {
 
     app.route('/api', createAuthRoutes(options.jwtSecret, options.store))
     app.route('/api', createBindRoutes(options.jwtSecret, options.store))
+    app.route('/api', createPushActionRoutes(options.jwtSecret, options.store, options.getSyncEngine, options.auditLog))
 
-    app.use('/api/*', createAuthMiddleware(options.jwtSecret))
+    app.use('/api/*', createAuthMiddleware(options.jwtSecret, options.store))
     app.route('/api', createEventsRoutes(options.getSseManager, options.getSyncEngine, options.getVisibilityTracker))
-    app.route('/api', createSessionsRoutes(options.getSyncEngine))
-    app.route('/api', createMessagesRoutes(options.getSyncEngine))
-    app.route('/api', createPermissionsRoutes(options.getSyncEngine))
-    app.route('/api', createMachinesRoutes(options.getSyncEngine))
-    app.route('/api', createGitRoutes(options.getSyncEngine))
+    app.route('/api', createSessionsRoutes(options.getSyncEngine, options.auditLog))
+    app.route('/api', createMessagesRoutes(options.getSyncEngine, options.store.usage, options.auditLog))
+    app.route('/api', createQueueRoutes(options.getSyncEngine, options.auditLog))
+    app.route('/api', createPermissionsRoutes(options.getSyncEngine, options.auditLog))
+    app.route('/api', createPermissionRulesRoutes(options.store, options.getSyncEngine, options.auditLog))
+    app.route('/api', createMachinesRoutes(options.getSyncEngine, options.auditLog, options.store.sessionTemplates))
+    app.route('/api', createGitRoutes(options.getSyncEngine, options.auditLog))
     app.route('/api', createPushRoutes(options.store, options.vapidPublicKey))
+    app.route('/api', createSearchRoutes(options.store))
+    app.route('/api', createUsersRoutes(options.store, options.auditLog))
+    app.route('/api', createAuditRoutes(options.store))
+    app.route('/api', createSchedulesRoutes(options.store, options.getSyncEngine, options.getScheduler, options.auditLog))
+    app.route('/api', createTemplatesRoutes(options.store, options.getSyncEngine, options.auditLog))
+    app.route('/api', createWebhooksRoutes(options.store, configuration.webhooks))
+    app.route('/api', createUsageRoutes(options.store, options.getSyncEngine, options.auditLog))
+    app.route('/api', createNotificationRoutes(
+        options.store,
+        configuration.telegramEnabled && configuration.telegramNotification ? ['push', 'telegram'] : ['push']
+    ))
     app.route('/api', createVoiceRoutes())
 
     // Skip static serving in relay mode, show helpful message on root
@@ -205,8 +233,10 @@ export async function startWebServer(options: {
     getSyncEngine: () => SyncEngine | null
     getSseManager: () => SSEManager | null
     getVisibilityTracker: () => VisibilityTracker | null
+    getScheduler: () => Scheduler | null
     jwtSecret: Uint8Array
     store: Store
+    auditLog: AuditLog
     vapidPublicKey: string
     socketEngine: SocketEngine
     corsOrigins?: string[]
@@ -219,8 +249,10 @@ export async function startWebServer(options: {
         getSyncEngine: options.getSyncEngine,
         getSseManager: options.getSseManager,
         getVisibilityTracker: options.getVisibilityTracker,
+        getScheduler: options.getScheduler,
         jwtSecret: options.jwtSecret,
         store: options.store,
+        auditLog: options.auditLog,
         vapidPublicKey: options.vapidPublicKey,
         corsOrigins: options.corsOrigins,
         embeddedAssetMap,
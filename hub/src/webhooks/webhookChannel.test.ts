@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'bun:test'
+import type { WebhookConfig } from '../config/serverSettings'
+import { Store } from '../store'
+import type { Session } from '../sync/syncEngine'
+import { SIGNATURE_HEADER, WebhookChannel, signWebhookBody } from './webhookChannel'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+type Call = { url: string; headers: Record<string, string>; body: string }
+
+function createFetch(statuses: number[]): { fetch: typeof fetch; calls: Call[] } {
+    const calls: Call[] = []
+    const impl = async (input: string | URL | Request, init?: RequestInit) => {
+        calls.push({
+            url: String(input),
+            headers: init?.headers as Record<string, string>,
+            body: String(init?.body)
+        })
+        const status = statuses[Math.min(calls.length - 1, statuses.length - 1)]
+        return new Response(null, { status })
+    }
+    return { fetch: impl as unknown as typeof fetch, calls }
+}
+
+function webhook(overrides: Partial<WebhookConfig> = {}): WebhookConfig {
+    return {
+        url: 'https://hooks.example.com/hapi',
+        secret: 'shh',
+        events: [],
+        namespace: null,
+        ...overrides
+    }
+}
+
+function createSession(overrides: Partial<Session> = {}): Session {
+    return {
+        id: 'session-1',
+        namespace: 'default',
+        seq: 1,
+        createdAt: 0,
+        updatedAt: 0,
+        active: true,
+        activeAt: 0,
+        metadata: { path: '/work/project', host: 'devbox', flavor: 'claude' },
+        metadataVersion: 0,
+        agentState: null,
+        agentStateVersion: 0,
+        thinking: false,
+        thinkingAt: 0,
+        ...overrides
+    }
+}
+
+describe('WebhookChannel', () => {
+    it('posts signed JSON and logs the delivery', async () => {
+        const store = new Store(':memory:')
+        const { fetch, calls } = createFetch([204])
+        const channel = new WebhookChannel([webhook()], store.webhookDeliveries, 'https://hapi.example.com', { fetch })
+
+        await channel.sendReady(createSession())
+        await sleep(5)
+
+        expect(calls).toHaveLength(1)
+        const [call] = calls
+        expect(call.headers['x-hapi-event']).toBe('ready')
+        expect(call.headers[SIGNATURE_HEADER]).toBe(signWebhookBody('shh', call.body))
+        const payload = JSON.parse(call.body)
+        expect(payload.event).toBe('ready')
+        expect(payload.data.session.name).toBe('project')
+        expect(payload.data.session.url).toBe('https://hapi.example.com/sessions/session-1')
+
+        const [delivery] = store.webhookDeliveries.getDeliveries('default')
+        expect(delivery.id).toBe(payload.id)
+        expect(delivery.status).toBe('delivered')
+        expect(delivery.attempts).toBe(1)
+        expect(delivery.responseStatus).toBe(204)
+        channel.stop()
+    })
+
+    it('applies event and namespace filters', async () => {
+        const store = new Store(':memory:')
+        const { fetch, calls } = createFetch([200])
+        const channel = new WebhookChannel([
+            webhook({ url: 'https://a.example.com', events: ['error'] }),
+            webhook({ url: 'https://b.example.com', namespace: 'other' }),
+            webhook({ url: 'https://c.example.com', events: ['ready', 'error'], namespace: 'default' })
+        ], store.webhookDeliveries, 'https://hapi.example.com', { fetch })
+
+        await channel.sendReady(createSession())
+        await channel.sendError(createSession(), 'Process exited unexpectedly')
+        await sleep(5)
+
+        expect(calls.map((call) => `${call.url} ${call.headers['x-hapi-event']}`).sort()).toEqual([
+            'https://a.example.com error',
+            'https://c.example.com error',
+            'https://c.example.com ready'
+        ])
+        channel.stop()
+    })
+
+    it('retries retryable failures and gives up on client errors', async () => {
+        const store = new Store(':memory:')
+        const retrying = createFetch([503, 500, 200])
+        const channel = new WebhookChannel([webhook()], store.webhookDeliveries, 'https://hapi.example.com', {
+            fetch: retrying.fetch,
+            retryDelaysMs: [5, 5]
+        })
+
+        await channel.sendSessionRemoved('session-1', 'default')
+        await sleep(40)
+
+        expect(retrying.calls).toHaveLength(3)
+        let [delivery] = store.webhookDeliveries.getDeliveries('default')
+        expect(delivery.status).toBe('delivered')
+        expect(delivery.attempts).toBe(3)
+        channel.stop()
+
+        const rejecting = createFetch([400])
+        const strict = new WebhookChannel([webhook()], store.webhookDeliveries, 'https://hapi.example.com', {
+            fetch: rejecting.fetch,
+            retryDelaysMs: [5, 5]
+        })
+        await strict.sendSessionRemoved('session-2', 'default')
+        await sleep(40)
+
+        expect(rejecting.calls).toHaveLength(1)
+        ;[delivery] = store.webhookDeliveries.getDeliveries('default')
+        expect(delivery.status).toBe('failed')
+        expect(delivery.error).toBe('HTTP 400')
+        strict.stop()
+    })
+
+    it('marks deliveries left pending by a previous run as failed', () => {
+        const store = new Store(':memory:')
+        const pending = store.webhookDeliveries.addDelivery({
+            namespace: 'default',
+            webhookUrl: 'https://hooks.example.com/hapi',
+            event: 'ready',
+            sessionId: 'session-1',
+            machineId: null
+        })
+        expect(pending.status).toBe('pending')
+
+        const channel = new WebhookChannel([webhook()], store.webhookDeliveries, 'https://hapi.example.com')
+        const [delivery] = store.webhookDeliveries.getDeliveries('default')
+        expect(delivery.status).toBe('failed')
+        channel.stop()
+    })
+})
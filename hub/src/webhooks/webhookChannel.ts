@@ -0,0 +1,237 @@
+import { createHmac } from 'node:crypto'
+import type { WebhookEvent } from '@hapi/protocol'
+import type { UsageBudgetStatus } from '@hapi/protocol/types'
+import type { WebhookConfig } from '../config/serverSettings'
+import type { NotificationChannel } from '../notifications/notificationTypes'
+import { getSessionName } from '../notifications/sessionInfo'
+import type { WebhookDeliveryStore } from '../store'
+import type { Machine, Session } from '../sync/syncEngine'
+
+// Delay before each retry; a delivery is attempted at most this many times plus one
+const DEFAULT_RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000, 30 * 60_000]
+const DEFAULT_TIMEOUT_MS = 10_000
+const MAX_ERROR_LENGTH = 500
+
+export const SIGNATURE_HEADER = 'x-hapi-signature'
+
+export type WebhookChannelOptions = {
+    retryDelaysMs?: number[]
+    timeoutMs?: number
+    fetch?: typeof fetch
+}
+
+type WebhookTarget = {
+    namespace: string
+    sessionId?: string
+    machineId?: string
+}
+
+export function signWebhookBody(secret: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Posts notification events as signed JSON to the webhooks configured in
+ * settings.json. Every delivery is logged; failed attempts are retried with
+ * backoff. Retries live in memory, so deliveries still pending when the hub
+ * stops are marked failed on the next start.
+ */
+export class WebhookChannel implements NotificationChannel {
+    private readonly retryDelaysMs: number[]
+    private readonly timeoutMs: number
+    private readonly fetchImpl: typeof fetch
+    private readonly retryTimers: Set<ReturnType<typeof setTimeout>> = new Set()
+
+    constructor(
+        private readonly webhooks: WebhookConfig[],
+        private readonly deliveries: WebhookDeliveryStore,
+        private readonly publicUrl: string,
+        options?: WebhookChannelOptions
+    ) {
+        this.retryDelaysMs = options?.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS
+        this.timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS
+        this.fetchImpl = options?.fetch ?? fetch
+        this.deliveries.failPending('Hub stopped before delivery completed')
+    }
+
+    stop(): void {
+        for (const timer of this.retryTimers) {
+            clearTimeout(timer)
+        }
+        this.retryTimers.clear()
+    }
+
+    async sendReady(session: Session): Promise<void> {
+        if (!session.active) {
+            return
+        }
+        this.dispatch('ready', { namespace: session.namespace, sessionId: session.id }, {
+            session: this.describeSession(session)
+        })
+    }
+
+    async sendPermissionRequest(session: Session): Promise<void> {
+        if (!session.active) {
+            return
+        }
+        const requests = Object.entries(session.agentState?.requests ?? {}).map(([id, request]) => ({
+            id,
+            tool: request.tool,
+            arguments: request.arguments
+        }))
+        this.dispatch('permission-request', { namespace: session.namespace, sessionId: session.id }, {
+            session: this.describeSession(session),
+            requests
+        })
+    }
+
+    async sendSessionAdded(session: Session): Promise<void> {
+        this.dispatch('session-added', { namespace: session.namespace, sessionId: session.id }, {
+            session: this.describeSession(session)
+        })
+    }
+
+    async sendSessionRemoved(sessionId: string, namespace: string): Promise<void> {
+        this.dispatch('session-removed', { namespace, sessionId }, { sessionId })
+    }
+
+    async sendMachineOffline(machine: Machine): Promise<void> {
+        this.dispatch('machine-offline', { namespace: machine.namespace, machineId: machine.id }, {
+            machine: {
+                id: machine.id,
+                host: machine.metadata?.host ?? null,
+                displayName: machine.metadata?.displayName ?? null,
+                lastActiveAt: machine.activeAt
+            }
+        })
+    }
+
+    async sendError(session: Session, message: string): Promise<void> {
+        this.dispatch('error', { namespace: session.namespace, sessionId: session.id }, {
+            session: this.describeSession(session),
+            message
+        })
+    }
+
+    async sendBudgetExceeded(session: Session, status: UsageBudgetStatus): Promise<void> {
+        const { budget } = status
+        this.dispatch('budget-exceeded', { namespace: session.namespace, sessionId: session.id }, {
+            session: this.describeSession(session),
+            budget: {
+                id: budget.id,
+                name: budget.name,
+                scope: budget.scope,
+                scopeId: budget.scopeId,
+                period: budget.period,
+                limitTokens: budget.limitTokens,
+                limitUsd: budget.limitUsd,
+                action: budget.action
+            },
+            windowStart: status.windowStart,
+            usedTokens: status.usedTokens,
+            usedUsd: status.usedUsd
+        })
+    }
+
+    private describeSession(session: Session): Record<string, unknown> {
+        return {
+            id: session.id,
+            name: getSessionName(session),
+            agent: session.metadata?.flavor ?? null,
+            path: session.metadata?.path ?? null,
+            machineId: session.metadata?.machineId ?? null,
+            active: session.active,
+            url: `${this.publicUrl}/sessions/${session.id}`
+        }
+    }
+
+    // Logs a delivery per matching webhook and sends in the background so a slow
+    // endpoint never holds up the other notification channels
+    private dispatch(event: WebhookEvent, target: WebhookTarget, data: Record<string, unknown>): void {
+        const matching = this.webhooks.filter((webhook) =>
+            (webhook.namespace === null || webhook.namespace === target.namespace)
+            && (webhook.events.length === 0 || webhook.events.includes(event))
+        )
+
+        for (const webhook of matching) {
+            const delivery = this.deliveries.addDelivery({
+                namespace: target.namespace,
+                webhookUrl: webhook.url,
+                event,
+                sessionId: target.sessionId ?? null,
+                machineId: target.machineId ?? null
+            })
+            const body = JSON.stringify({
+                id: delivery.id,
+                event,
+                namespace: target.namespace,
+                createdAt: delivery.createdAt,
+                data
+            })
+            void this.attempt(webhook, delivery.id, event, body, 1)
+        }
+    }
+
+    private async attempt(
+        webhook: WebhookConfig,
+        deliveryId: number,
+        event: WebhookEvent,
+        body: string,
+        attempt: number
+    ): Promise<void> {
+        let responseStatus: number | null = null
+        let error = ''
+        let retryable = true
+
+        try {
+            const response = await this.fetchImpl(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'content-type': 'application/json',
+                    'user-agent': 'hapi-hub',
+                    'x-hapi-event': event,
+                    'x-hapi-delivery': String(deliveryId),
+                    [SIGNATURE_HEADER]: signWebhookBody(webhook.secret, body)
+                },
+                body,
+                signal: AbortSignal.timeout(this.timeoutMs)
+            })
+            responseStatus = response.status
+            if (response.ok) {
+                this.deliveries.recordAttempt(deliveryId, {
+                    status: 'delivered',
+                    attempts: attempt,
+                    responseStatus,
+                    error: null
+                })
+                return
+            }
+            error = `HTTP ${response.status}`
+            retryable = isRetryableStatus(response.status)
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err)
+        }
+
+        const delay = retryable ? this.retryDelaysMs[attempt - 1] : undefined
+        this.deliveries.recordAttempt(deliveryId, {
+            status: delay === undefined ? 'failed' : 'pending',
+            attempts: attempt,
+            responseStatus,
+            error: error.slice(0, MAX_ERROR_LENGTH)
+        })
+        if (delay === undefined) {
+            console.warn(`[Webhook] Delivery ${deliveryId} to ${webhook.url} failed: ${error}`)
+            return
+        }
+
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(timer)
+            void this.attempt(webhook, deliveryId, event, body, attempt + 1)
+        }, delay)
+        this.retryTimers.add(timer)
+    }
+}
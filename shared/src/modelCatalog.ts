@@ -0,0 +1,62 @@
+import { getModelModesForFlavor, MODEL_MODE_LABELS, type ModelMode } from './modes'
+import type { ModelCatalog, ModelCatalogEntry } from './schemas'
+
+export type ModelChoice = {
+    id: ModelMode
+    label: string
+    reasoningEfforts: string[]
+    defaultReasoningEffort?: string
+}
+
+/**
+ * Models a session can switch to: its reported catalog, or the flavor's
+ * fixed aliases while it has none. Always starts with 'default'.
+ */
+export function getModelChoices(flavor?: string | null, catalog?: ModelCatalog | null): ModelChoice[] {
+    if (catalog) {
+        if (!catalog.switchable || catalog.models.length === 0) {
+            return []
+        }
+        const choices: ModelChoice[] = catalog.models
+            .filter((model) => model.id !== 'default')
+            .map((model) => ({
+                id: model.id,
+                label: model.label ?? model.id,
+                reasoningEfforts: model.reasoningEfforts ?? [],
+                defaultReasoningEffort: model.defaultReasoningEffort
+            }))
+        return [{ id: 'default', label: MODEL_MODE_LABELS.default, reasoningEfforts: [] }, ...choices]
+    }
+
+    return getModelModesForFlavor(flavor).map((mode) => ({
+        id: mode,
+        label: MODEL_MODE_LABELS[mode],
+        reasoningEfforts: []
+    }))
+}
+
+export function findModelChoice(choices: ModelChoice[], model?: string | null): ModelChoice | undefined {
+    return choices.find((choice) => choice.id === (model ?? 'default'))
+}
+
+export function isModelModeAllowed(mode: ModelMode, flavor?: string | null, catalog?: ModelCatalog | null): boolean {
+    return getModelChoices(flavor, catalog).some((choice) => choice.id === mode)
+}
+
+export function isReasoningEffortAllowed(
+    effort: string,
+    mode: ModelMode,
+    flavor?: string | null,
+    catalog?: ModelCatalog | null
+): boolean {
+    const choice = findModelChoice(getModelChoices(flavor, catalog), mode)
+    return Boolean(choice?.reasoningEfforts.includes(effort))
+}
+
+export function toModelCatalogEntry(id: string, label?: string | null, description?: string | null): ModelCatalogEntry {
+    return {
+        id,
+        ...(label && label !== id ? { label } : {}),
+        ...(description ? { description } : {})
+    }
+}
@@ -21,10 +21,134 @@ export const PERMISSION_MODES = [
 ] as const
 export type PermissionMode = typeof PERMISSION_MODES[number]
 
+// Claude model aliases, offered until a session reports its own model catalog
 export const MODEL_MODES = ['default', 'sonnet', 'opus'] as const
-export type ModelMode = typeof MODEL_MODES[number]
+export type ModelAlias = typeof MODEL_MODES[number]
 
-export type AgentFlavor = 'claude' | 'codex' | 'gemini' | 'opencode'
+// 'default' leaves the choice to the agent; anything else is a model id from
+// the session's model catalog (or a ModelAlias for Claude)
+export type ModelMode = string
+
+export const BUILTIN_AGENT_FLAVORS = ['claude', 'codex', 'gemini', 'opencode'] as const
+export type AgentFlavor = typeof BUILTIN_AGENT_FLAVORS[number]
+
+// Agents declared in CLI settings run over ACP with an `acp:<name>` flavor
+export const ACP_AGENT_FLAVOR_PREFIX = 'acp:'
+export type AcpAgentFlavor = `acp:${string}`
+
+// Any agent a runner can spawn: a built-in flavor or a declared ACP agent
+export type SpawnAgent = AgentFlavor | AcpAgentFlavor
+
+export const ACP_PERMISSION_MODES = ['default', 'read-only', 'safe-yolo', 'yolo'] as const
+export type AcpPermissionMode = typeof ACP_PERMISSION_MODES[number]
+
+export const PERMISSION_RULE_ACTIONS = ['approve', 'deny', 'escalate'] as const
+export type PermissionRuleAction = typeof PERMISSION_RULE_ACTIONS[number]
+
+// Ordered from least to most privileged
+export const USER_ROLES = ['viewer', 'operator', 'admin'] as const
+export type UserRole = typeof USER_ROLES[number]
+
+// A schedule either prompts an existing session or spawns a new one with the prompt
+export const SCHEDULE_TARGETS = ['session', 'spawn'] as const
+export type ScheduleTarget = typeof SCHEDULE_TARGETS[number]
+
+// What happens to a run that came due while its machine (or the hub) was offline
+export const SCHEDULE_MISSED_RUN_POLICIES = ['skip', 'run-once'] as const
+export type ScheduleMissedRunPolicy = typeof SCHEDULE_MISSED_RUN_POLICIES[number]
+
+export const SCHEDULE_RUN_STATUSES = ['succeeded', 'failed', 'missed'] as const
+export type ScheduleRunStatus = typeof SCHEDULE_RUN_STATUSES[number]
+
+// A worktree session runs in a new git worktree created for it
+export const SESSION_TYPES = ['simple', 'worktree'] as const
+export type SessionType = typeof SESSION_TYPES[number]
+
+export const WEBHOOK_EVENTS = [
+    'ready',
+    'permission-request',
+    'session-added',
+    'session-removed',
+    'machine-offline',
+    'error',
+    'budget-exceeded'
+] as const
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+// Channels that deliver to individual users and so honor their notification preferences
+export const NOTIFICATION_CHANNELS = ['push', 'telegram'] as const
+export type NotificationChannelId = typeof NOTIFICATION_CHANNELS[number]
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number]
+
+// What a usage budget counts: one namespace, one machine or one session
+export const USAGE_BUDGET_SCOPES = ['namespace', 'machine', 'session'] as const
+export type UsageBudgetScope = typeof USAGE_BUDGET_SCOPES[number]
+
+// Calendar window (hub local time) the budget resets on; 'total' never resets
+export const USAGE_BUDGET_PERIODS = ['day', 'month', 'total'] as const
+export type UsageBudgetPeriod = typeof USAGE_BUDGET_PERIODS[number]
+
+export const USAGE_BUDGET_ACTIONS = ['warn', 'pause'] as const
+export type UsageBudgetAction = typeof USAGE_BUDGET_ACTIONS[number]
+
+export const AUDIT_ORIGINS = ['web', 'telegram', 'voice', 'push'] as const
+export type AuditOrigin = typeof AUDIT_ORIGINS[number]
+
+export const AUDIT_ACTIONS = [
+    'message.send',
+    'queue.edit',
+    'queue.delete',
+    'queue.reorder',
+    'queue.send-now',
+    'queue.merge',
+    'permission.approve',
+    'permission.deny',
+    'session.abort',
+    'session.archive',
+    'session.delete',
+    'session.fork',
+    'session.handoff',
+    'session.model',
+    'session.permission-mode',
+    'session.rename',
+    'session.resume',
+    'session.switch',
+    'session.upload',
+    'session.file-write',
+    'git.stage',
+    'git.unstage',
+    'git.discard',
+    'git.commit',
+    'git.branch-create',
+    'git.branch-switch',
+    'git.push',
+    'git.pull',
+    'machine.spawn',
+    'terminal.open',
+    'terminal.attach',
+    'terminal.record',
+    'terminal.close',
+    'permission-rule.create',
+    'permission-rule.update',
+    'permission-rule.delete',
+    'user.create',
+    'user.update',
+    'user.token',
+    'user.revoke',
+    'schedule.create',
+    'schedule.update',
+    'schedule.delete',
+    'schedule.run',
+    'template.create',
+    'template.update',
+    'template.delete',
+    'usage-budget.create',
+    'usage-budget.update',
+    'usage-budget.delete'
+] as const
+export type AuditAction = typeof AUDIT_ACTIONS[number]
 
 export const PERMISSION_MODE_LABELS: Record<PermissionMode, string> = {
     default: 'Default',
@@ -54,7 +178,7 @@ export type PermissionModeOption = {
     tone: PermissionModeTone
 }
 
-export const MODEL_MODE_LABELS: Record<ModelMode, string> = {
+export const MODEL_MODE_LABELS: Record<ModelAlias, string> = {
     default: 'Default',
     sonnet: 'Sonnet',
     opus: 'Opus'
@@ -68,7 +192,24 @@ export function getPermissionModeTone(mode: PermissionMode): PermissionModeTone
     return PERMISSION_MODE_TONES[mode]
 }
 
+export function isAcpAgentFlavor(flavor?: string | null): flavor is AcpAgentFlavor {
+    return typeof flavor === 'string'
+        && flavor.startsWith(ACP_AGENT_FLAVOR_PREFIX)
+        && flavor.length > ACP_AGENT_FLAVOR_PREFIX.length
+}
+
+export function toAcpAgentFlavor(name: string): AcpAgentFlavor {
+    return `${ACP_AGENT_FLAVOR_PREFIX}${name}`
+}
+
+export function getAcpAgentName(flavor: AcpAgentFlavor): string {
+    return flavor.slice(ACP_AGENT_FLAVOR_PREFIX.length)
+}
+
 export function getPermissionModesForFlavor(flavor?: string | null): readonly PermissionMode[] {
+    if (isAcpAgentFlavor(flavor)) {
+        return ACP_PERMISSION_MODES
+    }
     if (flavor === 'codex') {
         return CODEX_PERMISSION_MODES
     }
@@ -93,13 +234,17 @@ export function isPermissionModeAllowedForFlavor(mode: PermissionMode, flavor?:
     return getPermissionModesForFlavor(flavor).includes(mode)
 }
 
-export function getModelModesForFlavor(flavor?: string | null): readonly ModelMode[] {
-    if (flavor === 'codex' || flavor === 'gemini' || flavor === 'opencode') {
+/**
+ * Model modes a session of this flavor accepts before it has reported a
+ * model catalog. Only Claude has fixed aliases.
+ */
+export function getModelModesForFlavor(flavor?: string | null): readonly ModelAlias[] {
+    if (flavor === 'codex' || flavor === 'gemini' || flavor === 'opencode' || isAcpAgentFlavor(flavor)) {
         return []
     }
     return MODEL_MODES
 }
 
-export function isModelModeAllowedForFlavor(mode: ModelMode, flavor?: string | null): boolean {
-    return getModelModesForFlavor(flavor).includes(mode)
+export function hasUserRole(role: UserRole, minimum: UserRole): boolean {
+    return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minimum)
 }
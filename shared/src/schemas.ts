@@ -1,8 +1,45 @@
 import { z } from 'zod'
-import { MODEL_MODES, PERMISSION_MODES } from './modes'
+import {
+    ACP_AGENT_FLAVOR_PREFIX,
+    ACP_PERMISSION_MODES,
+    BUILTIN_AGENT_FLAVORS,
+    NOTIFICATION_CHANNELS,
+    PERMISSION_MODES,
+    PERMISSION_RULE_ACTIONS,
+    SCHEDULE_MISSED_RUN_POLICIES,
+    SCHEDULE_RUN_STATUSES,
+    SCHEDULE_TARGETS,
+    SESSION_TYPES,
+    USAGE_BUDGET_ACTIONS,
+    USAGE_BUDGET_PERIODS,
+    USAGE_BUDGET_SCOPES,
+    USER_ROLES,
+    WEBHOOK_EVENTS
+} from './modes'
 
 export const PermissionModeSchema = z.enum(PERMISSION_MODES)
-export const ModelModeSchema = z.enum(MODEL_MODES)
+export const ModelModeSchema = z.string().min(1).max(200)
+export const ReasoningEffortSchema = z.string().min(1).max(50)
+
+export const ModelCatalogEntrySchema = z.object({
+    id: ModelModeSchema,
+    label: z.string().optional(),
+    description: z.string().optional(),
+    // Codex models list the reasoning efforts they accept
+    reasoningEfforts: z.array(ReasoningEffortSchema).optional(),
+    defaultReasoningEffort: ReasoningEffortSchema.optional()
+})
+
+export type ModelCatalogEntry = z.infer<typeof ModelCatalogEntrySchema>
+
+// Models a session's agent reported it can run, written to session metadata by the CLI
+export const ModelCatalogSchema = z.object({
+    models: z.array(ModelCatalogEntrySchema),
+    // Whether the running session can change model without a restart
+    switchable: z.boolean()
+})
+
+export type ModelCatalog = z.infer<typeof ModelCatalogSchema>
 
 const MetadataSummarySchema = z.object({
     text: z.string(),
@@ -46,6 +83,8 @@ export const MetadataSchema = z.object({
     archiveReason: z.string().optional(),
     flavor: z.string().nullish(),
     worktree: WorktreeMetadataSchema.optional(),
+    // A malformed catalog must not hide the rest of the metadata
+    modelCatalog: ModelCatalogSchema.optional().catch(undefined),
     forkModelMode: z.string().optional(),
     forkPermissionMode: z.string().optional()
 })
@@ -80,14 +119,337 @@ export const AgentStateCompletedRequestSchema = z.object({
 
 export type AgentStateCompletedRequest = z.infer<typeof AgentStateCompletedRequestSchema>
 
+export const QueuedPromptSchema = z.object({
+    // Assigned by the CLI; only meaningful while the prompt is queued
+    id: z.string(),
+    text: z.string(),
+    createdAt: z.number()
+})
+
+export type QueuedPrompt = z.infer<typeof QueuedPromptSchema>
+
+// Prompts waiting for the agent to finish its current turn, in delivery order
+export const AgentStateQueueSchema = z.object({
+    prompts: z.array(QueuedPromptSchema),
+    // Consecutive prompts with the same mode are sent as one turn
+    merge: z.boolean()
+})
+
+export type AgentStateQueue = z.infer<typeof AgentStateQueueSchema>
+
 export const AgentStateSchema = z.object({
     controlledByUser: z.boolean().nullish(),
     requests: z.record(z.string(), AgentStateRequestSchema).nullish(),
-    completedRequests: z.record(z.string(), AgentStateCompletedRequestSchema).nullish()
+    completedRequests: z.record(z.string(), AgentStateCompletedRequestSchema).nullish(),
+    queue: AgentStateQueueSchema.nullish()
 })
 
 export type AgentState = z.infer<typeof AgentStateSchema>
 
+export const PermissionRuleActionSchema = z.enum(PERMISSION_RULE_ACTIONS)
+
+export const PermissionRuleSchema = z.object({
+    id: z.string(),
+    namespace: z.string(),
+    // null applies the rule to every session in the namespace
+    sessionId: z.string().nullable(),
+    name: z.string(),
+    enabled: z.boolean(),
+    // Lower values are evaluated first; the first matching rule wins
+    priority: z.number().int(),
+    action: PermissionRuleActionSchema,
+    // Glob matched against the tool name (e.g. "Bash", "mcp__*")
+    toolPattern: z.string().nullable(),
+    // Regular expression matched against shell commands (Bash, CodexBash, ...)
+    commandPattern: z.string().nullable(),
+    // Globs relative to the session's metadata.path; every path argument must match one
+    pathPatterns: z.array(z.string()),
+    // Empty array matches every flavor
+    flavors: z.array(z.string()),
+    createdAt: z.number(),
+    updatedAt: z.number()
+})
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>
+
+export const PermissionRuleInputSchema = z.object({
+    sessionId: z.string().min(1).nullable().optional(),
+    name: z.string().min(1).max(255),
+    enabled: z.boolean().optional(),
+    priority: z.number().int().optional(),
+    action: PermissionRuleActionSchema,
+    toolPattern: z.string().min(1).max(255).nullable().optional(),
+    commandPattern: z.string().min(1).max(1000).nullable().optional(),
+    pathPatterns: z.array(z.string().min(1).max(1000)).max(50).optional(),
+    flavors: z.array(z.string().min(1).max(64)).max(20).optional()
+})
+
+export type PermissionRuleInput = z.infer<typeof PermissionRuleInputSchema>
+
+export const UserRoleSchema = z.enum(USER_ROLES)
+
+export const ACP_AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+// What a runner advertises in its machine metadata for each ACP agent declared in its settings
+export const AcpAgentInfoSchema = z.object({
+    name: z.string().regex(ACP_AGENT_NAME_PATTERN),
+    displayName: z.string().min(1).max(255).optional(),
+    permissionModes: z.array(z.enum(ACP_PERMISSION_MODES)).min(1)
+})
+
+export type AcpAgentInfo = z.infer<typeof AcpAgentInfoSchema>
+
+export const SpawnAgentSchema = z.union([
+    z.enum(BUILTIN_AGENT_FLAVORS),
+    z.custom<`acp:${string}`>((value) => typeof value === 'string'
+        && value.startsWith(ACP_AGENT_FLAVOR_PREFIX)
+        && ACP_AGENT_NAME_PATTERN.test(value.slice(ACP_AGENT_FLAVOR_PREFIX.length)))
+])
+
+export const ScheduleSchema = z.object({
+    id: z.string(),
+    namespace: z.string(),
+    name: z.string(),
+    // Five-field cron expression evaluated in the hub's local time zone
+    cron: z.string(),
+    enabled: z.boolean(),
+    target: z.enum(SCHEDULE_TARGETS),
+    prompt: z.string(),
+    // target = 'session'
+    sessionId: z.string().nullable(),
+    // target = 'spawn'
+    machineId: z.string().nullable(),
+    directory: z.string().nullable(),
+    agent: SpawnAgentSchema.nullable(),
+    yolo: z.boolean(),
+    missedRunPolicy: z.enum(SCHEDULE_MISSED_RUN_POLICIES),
+    // null when paused or when the expression never fires again
+    nextRunAt: z.number().nullable(),
+    lastRunAt: z.number().nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number()
+})
+
+export type Schedule = z.infer<typeof ScheduleSchema>
+
+export const ScheduleInputSchema = z.object({
+    name: z.string().trim().min(1).max(255),
+    cron: z.string().trim().min(1).max(255),
+    enabled: z.boolean().optional(),
+    target: z.enum(SCHEDULE_TARGETS),
+    prompt: z.string().min(1).max(100_000),
+    sessionId: z.string().min(1).nullable().optional(),
+    machineId: z.string().min(1).nullable().optional(),
+    directory: z.string().min(1).max(4096).nullable().optional(),
+    agent: SpawnAgentSchema.nullable().optional(),
+    yolo: z.boolean().optional(),
+    missedRunPolicy: z.enum(SCHEDULE_MISSED_RUN_POLICIES).optional()
+})
+
+export type ScheduleInput = z.infer<typeof ScheduleInputSchema>
+
+export const ScheduleRunSchema = z.object({
+    id: z.number(),
+    scheduleId: z.string(),
+    // The cron occurrence this run belongs to; earlier than startedAt for late runs
+    scheduledFor: z.number(),
+    startedAt: z.number(),
+    status: z.enum(SCHEDULE_RUN_STATUSES),
+    manual: z.boolean(),
+    // Session that received the prompt (or was spawned for it)
+    sessionId: z.string().nullable(),
+    error: z.string().nullable()
+})
+
+export type ScheduleRun = z.infer<typeof ScheduleRunSchema>
+
+export const SessionTemplateAttachmentSchema = z.object({
+    filename: z.string(),
+    mimeType: z.string(),
+    size: z.number()
+})
+
+export type SessionTemplateAttachment = z.infer<typeof SessionTemplateAttachmentSchema>
+
+// A named spawn setup; attachment contents stay in the hub and are uploaded
+// to each session before its initial prompt
+export const SessionTemplateSchema = z.object({
+    id: z.string(),
+    namespace: z.string(),
+    name: z.string(),
+    machineId: z.string(),
+    directory: z.string(),
+    agent: SpawnAgentSchema,
+    model: z.string().nullable(),
+    // Applied once the session is up; null keeps the agent's default
+    permissionMode: PermissionModeSchema.nullable(),
+    sessionType: z.enum(SESSION_TYPES),
+    // Worktree sessions only; {name}, {date}, {time} and {random} are filled in at launch
+    worktreeNamePattern: z.string().nullable(),
+    initialPrompt: z.string().nullable(),
+    attachments: z.array(SessionTemplateAttachmentSchema),
+    createdAt: z.number(),
+    updatedAt: z.number()
+})
+
+export type SessionTemplate = z.infer<typeof SessionTemplateSchema>
+
+export const SessionTemplateAttachmentInputSchema = z.object({
+    filename: z.string().min(1).max(255),
+    mimeType: z.string().min(1).max(255),
+    // Base64; at most 5 MB once decoded
+    content: z.string().min(1).max(7_000_000)
+})
+
+export type SessionTemplateAttachmentInput = z.infer<typeof SessionTemplateAttachmentInputSchema>
+
+export const SessionTemplateInputSchema = z.object({
+    name: z.string().trim().min(1).max(255),
+    machineId: z.string().min(1),
+    directory: z.string().trim().min(1).max(4096),
+    agent: SpawnAgentSchema.optional(),
+    model: z.string().trim().min(1).max(255).nullable().optional(),
+    permissionMode: PermissionModeSchema.nullable().optional(),
+    sessionType: z.enum(SESSION_TYPES).optional(),
+    worktreeNamePattern: z.string().trim().min(1).max(255).nullable().optional(),
+    initialPrompt: z.string().min(1).max(100_000).nullable().optional(),
+    // Omit on update to keep the stored attachments
+    attachments: z.array(SessionTemplateAttachmentInputSchema).max(10).optional()
+})
+
+export type SessionTemplateInput = z.infer<typeof SessionTemplateInputSchema>
+
+// Tokens and cost of one agent turn, as reported by the agent. Input tokens
+// exclude cache reads and writes, which are counted separately.
+export const UsageReportSchema = z.object({
+    model: z.string().nullable(),
+    inputTokens: z.number().int().nonnegative(),
+    outputTokens: z.number().int().nonnegative(),
+    cacheReadTokens: z.number().int().nonnegative(),
+    cacheCreationTokens: z.number().int().nonnegative(),
+    // null when the agent does not report cost
+    costUsd: z.number().nonnegative().nullable()
+})
+
+export type UsageReport = z.infer<typeof UsageReportSchema>
+
+export const UsageTotalsSchema = z.object({
+    turns: z.number(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cacheReadTokens: z.number(),
+    cacheCreationTokens: z.number(),
+    costUsd: z.number()
+})
+
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>
+
+export const UsageDailyTotalSchema = UsageTotalsSchema.extend({
+    // YYYY-MM-DD in the hub's local time zone
+    day: z.string(),
+    flavor: z.string().nullable(),
+    model: z.string().nullable()
+})
+
+export type UsageDailyTotal = z.infer<typeof UsageDailyTotalSchema>
+
+export const UsageBudgetSchema = z.object({
+    id: z.string(),
+    namespace: z.string(),
+    name: z.string(),
+    enabled: z.boolean(),
+    scope: z.enum(USAGE_BUDGET_SCOPES),
+    // Machine or session ID; null for namespace budgets
+    scopeId: z.string().nullable(),
+    period: z.enum(USAGE_BUDGET_PERIODS),
+    // At least one limit is set; the budget is exceeded when either is reached
+    limitTokens: z.number().int().positive().nullable(),
+    limitUsd: z.number().positive().nullable(),
+    action: z.enum(USAGE_BUDGET_ACTIONS),
+    createdAt: z.number(),
+    updatedAt: z.number()
+})
+
+export type UsageBudget = z.infer<typeof UsageBudgetSchema>
+
+export const UsageBudgetInputSchema = z.object({
+    name: z.string().trim().min(1).max(255),
+    enabled: z.boolean().optional(),
+    scope: z.enum(USAGE_BUDGET_SCOPES),
+    scopeId: z.string().min(1).nullable().optional(),
+    period: z.enum(USAGE_BUDGET_PERIODS),
+    limitTokens: z.number().int().positive().nullable().optional(),
+    limitUsd: z.number().positive().nullable().optional(),
+    action: z.enum(USAGE_BUDGET_ACTIONS)
+})
+
+export type UsageBudgetInput = z.infer<typeof UsageBudgetInputSchema>
+
+// Current spend of a budget within its window
+export type UsageBudgetStatus = {
+    budget: UsageBudget
+    windowStart: number | null
+    usedTokens: number
+    usedUsd: number
+    exceeded: boolean
+}
+
+function isTimeZone(value: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value })
+        return true
+    } catch {
+        return false
+    }
+}
+
+const ClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+
+// A window whose end is earlier than its start runs past midnight
+export const NotificationQuietHoursSchema = z.object({
+    start: ClockTimeSchema,
+    end: ClockTimeSchema,
+    timeZone: z.string().min(1).max(64).refine(isTimeZone, 'Unknown time zone')
+})
+
+export type NotificationQuietHours = z.infer<typeof NotificationQuietHoursSchema>
+
+export const NotificationPreferencesSchema = z.object({
+    // Nothing is sent during quiet hours; null disables them
+    quietHours: NotificationQuietHoursSchema.nullable(),
+    mutedSessionIds: z.array(z.string().min(1).max(255)).max(500),
+    // Sessions whose working directory is, or is inside, one of these paths are muted
+    mutedDirectories: z.array(z.string().trim().min(1).max(4096)).max(100),
+    permissionsOnly: z.boolean(),
+    // Ready events are collected and sent as one summary this often; null sends each as it happens
+    digestMinutes: z.number().int().min(5).max(1440).nullable(),
+    // Keyed by the same event names webhooks use; events without an entry go to every channel
+    channels: z.partialRecord(z.enum(WEBHOOK_EVENTS), z.array(z.enum(NOTIFICATION_CHANNELS)))
+})
+
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    quietHours: null,
+    mutedSessionIds: [],
+    mutedDirectories: [],
+    permissionsOnly: false,
+    digestMinutes: null,
+    channels: {}
+}
+
+export type PermissionRuleDryRunMatch = {
+    sessionId: string
+    sessionName: string
+    requestId: string
+    tool: string
+    arguments: unknown
+    createdAt: number | null
+    // Outcome recorded for the request, or 'pending' if it is still waiting
+    status: AgentStateCompletedRequest['status'] | 'pending'
+    reason: string | null
+}
+
 export const TodoItemSchema = z.object({
     content: z.string(),
     status: z.enum(['pending', 'in_progress', 'completed']),
@@ -136,7 +498,8 @@ export const SessionSchema = z.object({
     thinkingAt: z.number(),
     todos: TodosSchema.optional(),
     permissionMode: PermissionModeSchema.optional(),
-    modelMode: ModelModeSchema.optional()
+    modelMode: ModelModeSchema.optional(),
+    reasoningEffort: ReasoningEffortSchema.optional()
 })
 
 export type Session = z.infer<typeof SessionSchema>
@@ -12,6 +12,67 @@ export const TerminalOpenPayloadSchema = z.object({
 
 export type TerminalOpenPayload = z.infer<typeof TerminalOpenPayloadSchema>
 
+export const TerminalAttachPayloadSchema = z.object({
+    sessionId: z.string().min(1),
+    terminalId: z.string().min(1),
+    // Omitted by read-only watchers, who must not resize the controller's terminal
+    cols: z.number().int().positive().optional(),
+    rows: z.number().int().positive().optional()
+})
+
+export type TerminalAttachPayload = z.infer<typeof TerminalAttachPayloadSchema>
+
+export const TerminalRecordingStatusSchema = z.object({
+    recordingId: z.string(),
+    input: z.boolean()
+})
+
+export type TerminalRecordingStatus = z.infer<typeof TerminalRecordingStatusSchema>
+
+export type TerminalAttachResponse =
+    | { ok: true; scrollback: string; cols: number; rows: number; recording?: TerminalRecordingStatus | null }
+    | { ok: false; error: string }
+
+export const TerminalSummarySchema = z.object({
+    terminalId: z.string(),
+    cols: z.number().int(),
+    rows: z.number().int(),
+    createdAt: z.number(),
+    lastActivityAt: z.number(),
+    recording: TerminalRecordingStatusSchema.nullable().optional()
+})
+
+export type TerminalSummary = z.infer<typeof TerminalSummarySchema>
+
+export const TerminalRecordPayloadSchema = z.object({
+    sessionId: z.string().min(1),
+    terminalId: z.string().min(1),
+    // null stops recording
+    recording: z.object({ input: z.boolean() }).nullable()
+})
+
+export type TerminalRecordPayload = z.infer<typeof TerminalRecordPayloadSchema>
+
+export const TerminalRecordingPayloadSchema = z.object({
+    sessionId: z.string().min(1),
+    terminalId: z.string().min(1),
+    recording: TerminalRecordingStatusSchema.nullable(),
+    error: z.string().optional()
+})
+
+export type TerminalRecordingPayload = z.infer<typeof TerminalRecordingPayloadSchema>
+
+export const TerminalRecordingSummarySchema = z.object({
+    recordingId: z.string(),
+    terminalId: z.string(),
+    startedAt: z.number(),
+    size: z.number(),
+    input: z.boolean(),
+    active: z.boolean()
+})
+
+export type TerminalRecordingSummary = z.infer<typeof TerminalRecordingSummarySchema>
+
 export const TerminalWritePayloadSchema = z.object({
     sessionId: z.string().min(1),
     terminalId: z.string().min(1),
@@ -125,14 +186,23 @@ export interface ServerToClientEvents {
     update: (data: Update) => void
     'rpc-request': (data: { method: string; params: string }, callback: (response: string) => void) => void
     'terminal:open': (data: TerminalOpenPayload) => void
+    'terminal:attach': (data: TerminalAttachPayload, callback: (response: TerminalAttachResponse) => void) => void
     'terminal:write': (data: TerminalWritePayload) => void
     'terminal:resize': (data: TerminalResizePayload) => void
     'terminal:close': (data: TerminalClosePayload) => void
+    'terminal:record': (data: TerminalRecordPayload) => void
     error: (data: { message: string; code?: SocketErrorReason; scope?: 'session' | 'machine'; id?: string }) => void
 }
 
 export interface ClientToServerEvents {
-    message: (data: { sid: string; message: unknown; localId?: string }) => void
+    // The ack lets the CLI outbox forget a message; replays reuse localId so the hub stores it once
+    message: (data: { sid: string; message: unknown; localId?: string }, cb: (answer: {
+        result: 'success'
+        seq: number
+    } | {
+        result: 'error'
+        reason?: SocketErrorReason
+    }) => void) => void
     'session-alive': (data: {
         sid: string
         time: number
@@ -140,6 +210,7 @@ export interface ClientToServerEvents {
         mode?: 'local' | 'remote'
         permissionMode?: PermissionMode
         modelMode?: ModelMode
+        reasoningEffort?: string
     }) => void
     'session-end': (data: { sid: string; time: number }) => void
     'update-metadata': (data: { sid: string; expectedVersion: number; metadata: unknown }, cb: (answer: {
@@ -197,6 +268,7 @@ export interface ClientToServerEvents {
     'terminal:output': (data: TerminalOutputPayload) => void
     'terminal:exit': (data: TerminalExitPayload) => void
     'terminal:error': (data: TerminalErrorPayload) => void
+    'terminal:recording': (data: TerminalRecordingPayload) => void
     ping: (callback: () => void) => void
     'usage-report': (data: unknown) => void
 }
@@ -1,26 +1,69 @@
 export type {
+    AcpAgentInfo,
     AgentState,
     AgentStateCompletedRequest,
+    AgentStateQueue,
     AgentStateRequest,
     AttachmentMetadata,
     DecryptedMessage,
     Metadata,
+    ModelCatalog,
+    ModelCatalogEntry,
+    NotificationPreferences,
+    NotificationQuietHours,
+    PermissionRule,
+    PermissionRuleDryRunMatch,
+    PermissionRuleInput,
+    QueuedPrompt,
+    Schedule,
+    ScheduleInput,
+    ScheduleRun,
     Session,
+    SessionTemplate,
+    SessionTemplateAttachment,
+    SessionTemplateAttachmentInput,
+    SessionTemplateInput,
     SyncEvent,
     TodoItem,
+    UsageBudget,
+    UsageBudgetInput,
+    UsageBudgetStatus,
+    UsageDailyTotal,
+    UsageReport,
+    UsageTotals,
     WorktreeMetadata
 } from './schemas'
 
 export type { SessionSummary, SessionSummaryMetadata } from './sessionSummary'
 
 export type {
+    AcpAgentFlavor,
+    AcpPermissionMode,
     AgentFlavor,
+    AuditAction,
+    AuditOrigin,
     ClaudePermissionMode,
     CodexPermissionMode,
     GeminiPermissionMode,
     OpencodePermissionMode,
+    ModelAlias,
     ModelMode,
+    NotificationChannelId,
     PermissionMode,
     PermissionModeOption,
-    PermissionModeTone
+    PermissionModeTone,
+    PermissionRuleAction,
+    ScheduleMissedRunPolicy,
+    ScheduleRunStatus,
+    ScheduleTarget,
+    SessionType,
+    SpawnAgent,
+    UsageBudgetAction,
+    UsageBudgetPeriod,
+    UsageBudgetScope,
+    UserRole,
+    WebhookDeliveryStatus,
+    WebhookEvent
 } from './modes'
+
+export type { TerminalRecordingStatus, TerminalRecordingSummary, TerminalSummary } from './socket'
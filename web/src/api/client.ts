@@ -1,33 +1,74 @@
 import type {
     AttachmentMetadata,
+    AuditEventFilters,
+    AuditEventsResponse,
+    AuditOrigin,
     AuthResponse,
     BrowseDirectoryResponse,
+    CreateUserAccountResponse,
     DeleteUploadResponse,
     ListDirectoryResponse,
     FileReadResponse,
+    FileWriteResponse,
     FileSearchResponse,
     GitCommandResponse,
+    GitPatchMode,
+    MachineModelsResponse,
     MachinePathsExistsResponse,
     MachinesResponse,
+    MessageSearchFilters,
+    MessageSearchResponse,
     MessagesResponse,
     ModelMode,
+    NotificationPreferences,
+    NotificationPreferencesResponse,
     PermissionMode,
+    PermissionRuleDryRunResponse,
+    PermissionRuleInput,
+    PermissionRuleResponse,
+    PermissionRulesResponse,
     PushSubscriptionPayload,
     PushUnsubscribePayload,
     PushVapidPublicKeyResponse,
+    QueueCommandResponse,
+    ScheduleInput,
+    ScheduleResponse,
+    ScheduleRunResponse,
+    ScheduleRunsResponse,
+    SchedulesResponse,
+    SessionTemplateInput,
+    SessionTemplateResponse,
+    SessionTemplatesResponse,
     SlashCommandsResponse,
     SkillsResponse,
+    TerminalListResponse,
+    TerminalRecordingsResponse,
+    SpawnAgent,
     SpawnResponse,
+    StructuralDiffResponse,
     UploadFileResponse,
+    UserAccountInput,
+    UserAccountResponse,
+    UserAccountsResponse,
+    UserRole,
+    UserTokenResponse,
     VisibilityPayload,
     SessionResponse,
-    SessionsResponse
+    SessionsResponse,
+    SessionUsageResponse,
+    UsageBudgetInput,
+    UsageBudgetResponse,
+    UsageBudgetsResponse,
+    UsageFilters,
+    UsageResponse
 } from '@/types/api'
 
 type ApiClientOptions = {
     baseUrl?: string
     getToken?: () => string | null
     onUnauthorized?: () => Promise<string | null>
+    // Reported to the hub audit log; the hub defaults to the account's platform
+    origin?: AuditOrigin
 }
 
 type ErrorPayload = {
@@ -62,12 +103,23 @@ export class ApiClient {
     private readonly baseUrl: string | null
     private readonly getToken: (() => string | null) | null
     private readonly onUnauthorized: (() => Promise<string | null>) | null
+    private readonly origin: AuditOrigin | null
 
     constructor(token: string, options?: ApiClientOptions) {
         this.token = token
         this.baseUrl = options?.baseUrl ?? null
         this.getToken = options?.getToken ?? null
         this.onUnauthorized = options?.onUnauthorized ?? null
+        this.origin = options?.origin ?? null
+    }
+
+    withOrigin(origin: AuditOrigin): ApiClient {
+        return new ApiClient(this.token, {
+            baseUrl: this.baseUrl ?? undefined,
+            getToken: this.getToken ?? undefined,
+            onUnauthorized: this.onUnauthorized ?? undefined,
+            origin
+        })
     }
 
     private buildUrl(path: string): string {
@@ -81,12 +133,17 @@ export class ApiClient {
         }
     }
 
-    private async request<T>(
+    private async request<T>(path: string, init?: RequestInit): Promise<T> {
+        const res = await this.fetchWithAuth(path, init)
+        return await res.json() as T
+    }
+
+    private async fetchWithAuth(
         path: string,
         init?: RequestInit,
         attempt: number = 0,
         overrideToken?: string | null
-    ): Promise<T> {
+    ): Promise<Response> {
         const headers = new Headers(init?.headers)
         const liveToken = this.getToken ? this.getToken() : null
         const authToken = overrideToken !== undefined
@@ -98,6 +155,9 @@ export class ApiClient {
         if (init?.body !== undefined && !headers.has('content-type')) {
             headers.set('content-type', 'application/json')
         }
+        if (this.origin) {
+            headers.set('x-hapi-origin', this.origin)
+        }
 
         const res = await fetch(this.buildUrl(path), {
             ...init,
@@ -109,7 +169,7 @@ export class ApiClient {
                 const refreshed = await this.onUnauthorized()
                 if (refreshed) {
                     this.token = refreshed
-                    return await this.request<T>(path, init, attempt + 1, refreshed)
+                    return await this.fetchWithAuth(path, init, attempt + 1, refreshed)
                 }
             }
             throw new Error('Session expired. Please sign in again.')
@@ -120,7 +180,7 @@ export class ApiClient {
             throw new Error(`HTTP ${res.status} ${res.statusText}: ${body}`)
         }
 
-        return await res.json() as T
+        return res
     }
 
     async authenticate(auth: { initData: string } | { accessToken: string }): Promise<AuthResponse> {
@@ -204,6 +264,26 @@ export class ApiClient {
         return await this.request<MessagesResponse>(url)
     }
 
+    async searchMessages(query: string, filters: MessageSearchFilters = {}): Promise<MessageSearchResponse> {
+        const params = new URLSearchParams()
+        params.set('q', query)
+        if (filters.machineId) params.set('machineId', filters.machineId)
+        if (filters.flavor) params.set('flavor', filters.flavor)
+        if (filters.path) params.set('path', filters.path)
+        if (filters.from !== undefined) params.set('from', `${filters.from}`)
+        if (filters.to !== undefined) params.set('to', `${filters.to}`)
+
+        return await this.request<MessageSearchResponse>(`/api/search?${params.toString()}`)
+    }
+
+    async exportSession(sessionId: string, format: 'md' | 'json' | 'html'): Promise<{ blob: Blob; filename: string }> {
+        const params = new URLSearchParams({ format })
+        const res = await this.fetchWithAuth(`/api/sessions/${encodeURIComponent(sessionId)}/export?${params.toString()}`)
+        const disposition = res.headers.get('content-disposition') ?? ''
+        const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `session-${sessionId.slice(0, 8)}.${format}`
+        return { blob: await res.blob(), filename }
+    }
+
     async getGitStatus(sessionId: string): Promise<GitCommandResponse> {
         return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-status`)
     }
@@ -223,6 +303,94 @@ export class ApiClient {
         return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-diff-file?${params.toString()}`)
     }
 
+    async getStructuralFileDiff(sessionId: string, path: string, staged?: boolean): Promise<StructuralDiffResponse> {
+        const params = new URLSearchParams()
+        params.set('path', path)
+        if (staged !== undefined) {
+            params.set('staged', staged ? 'true' : 'false')
+        }
+        return await this.request<StructuralDiffResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/difftastic?${params.toString()}`)
+    }
+
+    async getStructuralTextDiff(sessionId: string, fileName: string, oldContent: string, newContent: string): Promise<StructuralDiffResponse> {
+        return await this.request<StructuralDiffResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/difftastic`, {
+            method: 'POST',
+            body: JSON.stringify({ fileName, oldContent, newContent })
+        })
+    }
+
+    async getGitBranches(sessionId: string): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-branches`)
+    }
+
+    async stageGitPaths(sessionId: string, paths: string[]): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-stage`, {
+            method: 'POST',
+            body: JSON.stringify({ paths })
+        })
+    }
+
+    async unstageGitPaths(sessionId: string, paths: string[]): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-unstage`, {
+            method: 'POST',
+            body: JSON.stringify({ paths })
+        })
+    }
+
+    async discardGitChanges(sessionId: string, paths: string[], untrackedPaths: string[]): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-discard`, {
+            method: 'POST',
+            body: JSON.stringify({ paths, untrackedPaths })
+        })
+    }
+
+    async applyGitPatch(sessionId: string, patch: string, mode: GitPatchMode): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-apply-patch`, {
+            method: 'POST',
+            body: JSON.stringify({ patch, mode })
+        })
+    }
+
+    async commitGit(sessionId: string, message: string, amend: boolean): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-commit`, {
+            method: 'POST',
+            body: JSON.stringify({ message, amend })
+        })
+    }
+
+    async createGitBranch(sessionId: string, name: string): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-branches`, {
+            method: 'POST',
+            body: JSON.stringify({ name })
+        })
+    }
+
+    async switchGitBranch(sessionId: string, name: string): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-switch`, {
+            method: 'POST',
+            body: JSON.stringify({ name })
+        })
+    }
+
+    async pushGit(sessionId: string, setUpstream: boolean): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-push`, {
+            method: 'POST',
+            body: JSON.stringify({ setUpstream })
+        })
+    }
+
+    async pullGit(sessionId: string): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-pull`, {
+            method: 'POST'
+        })
+    }
+
+    async fetchGit(sessionId: string): Promise<GitCommandResponse> {
+        return await this.request<GitCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/git-fetch`, {
+            method: 'POST'
+        })
+    }
+
     async searchSessionFiles(sessionId: string, query: string, limit?: number): Promise<FileSearchResponse> {
         const params = new URLSearchParams()
         if (query) {
@@ -241,6 +409,18 @@ export class ApiClient {
         return await this.request<FileReadResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/file?${params.toString()}`)
     }
 
+    async writeSessionFile(
+        sessionId: string,
+        path: string,
+        content: string,
+        expectedHash: string | null
+    ): Promise<FileWriteResponse> {
+        return await this.request<FileWriteResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/file`, {
+            method: 'PUT',
+            body: JSON.stringify({ path, content, expectedHash })
+        })
+    }
+
     async listSessionDirectory(sessionId: string, path?: string): Promise<ListDirectoryResponse> {
         const params = new URLSearchParams()
         if (path) {
@@ -275,6 +455,17 @@ export class ApiClient {
         return response.sessionId
     }
 
+    async handoffSession(sessionId: string, machineId: string, directory?: string): Promise<string> {
+        const response = await this.request<{ sessionId: string }>(
+            `/api/sessions/${encodeURIComponent(sessionId)}/handoff`,
+            {
+                method: 'POST',
+                body: JSON.stringify({ machineId, directory })
+            }
+        )
+        return response.sessionId
+    }
+
     async forkSession(sessionId: string): Promise<string> {
         const response = await this.request<{ sessionId: string }>(
             `/api/sessions/${encodeURIComponent(sessionId)}/fork`,
@@ -301,6 +492,40 @@ export class ApiClient {
         })
     }
 
+    async editQueuedPrompt(sessionId: string, promptId: string, text: string): Promise<QueueCommandResponse> {
+        return await this.request<QueueCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/queue/${encodeURIComponent(promptId)}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ text })
+        })
+    }
+
+    async deleteQueuedPrompt(sessionId: string, promptId: string): Promise<QueueCommandResponse> {
+        return await this.request<QueueCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/queue/${encodeURIComponent(promptId)}`, {
+            method: 'DELETE'
+        })
+    }
+
+    async reorderQueuedPrompts(sessionId: string, ids: string[]): Promise<QueueCommandResponse> {
+        return await this.request<QueueCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/queue/reorder`, {
+            method: 'POST',
+            body: JSON.stringify({ ids })
+        })
+    }
+
+    async sendQueuedPromptNow(sessionId: string, promptId: string): Promise<QueueCommandResponse> {
+        return await this.request<QueueCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/queue/${encodeURIComponent(promptId)}/send-now`, {
+            method: 'POST',
+            body: JSON.stringify({})
+        })
+    }
+
+    async setQueueMerge(sessionId: string, merge: boolean): Promise<QueueCommandResponse> {
+        return await this.request<QueueCommandResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/queue/merge`, {
+            method: 'PUT',
+            body: JSON.stringify({ merge })
+        })
+    }
+
     async archiveSession(sessionId: string): Promise<void> {
         await this.request(`/api/sessions/${encodeURIComponent(sessionId)}/archive`, {
             method: 'POST',
@@ -322,10 +547,10 @@ export class ApiClient {
         })
     }
 
-    async setModelMode(sessionId: string, model: ModelMode): Promise<void> {
+    async setModelMode(sessionId: string, model: ModelMode, reasoningEffort?: string | null): Promise<void> {
         await this.request(`/api/sessions/${encodeURIComponent(sessionId)}/model`, {
             method: 'POST',
-            body: JSON.stringify({ model })
+            body: JSON.stringify({ model, ...(reasoningEffort !== undefined ? { reasoningEffort } : {}) })
         })
     }
 
@@ -378,6 +603,13 @@ export class ApiClient {
         )
     }
 
+    async getMachineModels(machineId: string, agent: SpawnAgent): Promise<MachineModelsResponse> {
+        const params = new URLSearchParams({ agent })
+        return await this.request<MachineModelsResponse>(
+            `/api/machines/${encodeURIComponent(machineId)}/models?${params.toString()}`
+        )
+    }
+
     async browseDirectory(
         machineId: string,
         path?: string
@@ -395,7 +627,7 @@ export class ApiClient {
     async spawnSession(
         machineId: string,
         directory: string,
-        agent?: 'claude' | 'codex' | 'gemini' | 'opencode',
+        agent?: SpawnAgent,
         model?: string,
         yolo?: boolean,
         sessionType?: 'simple' | 'worktree',
@@ -407,6 +639,13 @@ export class ApiClient {
         })
     }
 
+    async spawnSessionFromTemplate(machineId: string, templateId: string): Promise<SpawnResponse> {
+        return await this.request<SpawnResponse>(`/api/machines/${encodeURIComponent(machineId)}/spawn`, {
+            method: 'POST',
+            body: JSON.stringify({ templateId })
+        })
+    }
+
     async getSlashCommands(sessionId: string): Promise<SlashCommandsResponse> {
         return await this.request<SlashCommandsResponse>(
             `/api/sessions/${encodeURIComponent(sessionId)}/slash-commands`
@@ -419,6 +658,25 @@ export class ApiClient {
         )
     }
 
+    async getSessionTerminals(sessionId: string): Promise<TerminalListResponse> {
+        return await this.request<TerminalListResponse>(
+            `/api/sessions/${encodeURIComponent(sessionId)}/terminals`
+        )
+    }
+
+    async getTerminalRecordings(sessionId: string): Promise<TerminalRecordingsResponse> {
+        return await this.request<TerminalRecordingsResponse>(
+            `/api/sessions/${encodeURIComponent(sessionId)}/recordings`
+        )
+    }
+
+    async downloadTerminalRecording(sessionId: string, recordingId: string): Promise<Blob> {
+        const res = await this.fetchWithAuth(
+            `/api/sessions/${encodeURIComponent(sessionId)}/recordings/${encodeURIComponent(recordingId)}`
+        )
+        return await res.blob()
+    }
+
     async renameSession(sessionId: string, name: string): Promise<void> {
         await this.request(`/api/sessions/${encodeURIComponent(sessionId)}`, {
             method: 'PATCH',
@@ -432,6 +690,185 @@ export class ApiClient {
         })
     }
 
+    async getPermissionRules(): Promise<PermissionRulesResponse> {
+        return await this.request<PermissionRulesResponse>('/api/permission-rules')
+    }
+
+    async createPermissionRule(input: PermissionRuleInput): Promise<PermissionRuleResponse> {
+        return await this.request<PermissionRuleResponse>('/api/permission-rules', {
+            method: 'POST',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async updatePermissionRule(ruleId: string, input: PermissionRuleInput): Promise<PermissionRuleResponse> {
+        return await this.request<PermissionRuleResponse>(`/api/permission-rules/${encodeURIComponent(ruleId)}`, {
+            method: 'PATCH',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async deletePermissionRule(ruleId: string): Promise<void> {
+        await this.request(`/api/permission-rules/${encodeURIComponent(ruleId)}`, {
+            method: 'DELETE'
+        })
+    }
+
+    async dryRunPermissionRule(input: PermissionRuleInput): Promise<PermissionRuleDryRunResponse> {
+        return await this.request<PermissionRuleDryRunResponse>('/api/permission-rules/dry-run', {
+            method: 'POST',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async getSchedules(): Promise<SchedulesResponse> {
+        return await this.request<SchedulesResponse>('/api/schedules')
+    }
+
+    async createSchedule(input: ScheduleInput): Promise<ScheduleResponse> {
+        return await this.request<ScheduleResponse>('/api/schedules', {
+            method: 'POST',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async updateSchedule(scheduleId: string, input: ScheduleInput): Promise<ScheduleResponse> {
+        return await this.request<ScheduleResponse>(`/api/schedules/${encodeURIComponent(scheduleId)}`, {
+            method: 'PATCH',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async deleteSchedule(scheduleId: string): Promise<void> {
+        await this.request(`/api/schedules/${encodeURIComponent(scheduleId)}`, {
+            method: 'DELETE'
+        })
+    }
+
+    async getScheduleRuns(scheduleId: string): Promise<ScheduleRunsResponse> {
+        return await this.request<ScheduleRunsResponse>(`/api/schedules/${encodeURIComponent(scheduleId)}/runs`)
+    }
+
+    async runSchedule(scheduleId: string): Promise<ScheduleRunResponse> {
+        return await this.request<ScheduleRunResponse>(`/api/schedules/${encodeURIComponent(scheduleId)}/run`, {
+            method: 'POST'
+        })
+    }
+
+    async getSessionTemplates(): Promise<SessionTemplatesResponse> {
+        return await this.request<SessionTemplatesResponse>('/api/templates')
+    }
+
+    async createSessionTemplate(input: SessionTemplateInput): Promise<SessionTemplateResponse> {
+        return await this.request<SessionTemplateResponse>('/api/templates', {
+            method: 'POST',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async updateSessionTemplate(templateId: string, input: SessionTemplateInput): Promise<SessionTemplateResponse> {
+        return await this.request<SessionTemplateResponse>(`/api/templates/${encodeURIComponent(templateId)}`, {
+            method: 'PATCH',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async deleteSessionTemplate(templateId: string): Promise<void> {
+        await this.request(`/api/templates/${encodeURIComponent(templateId)}`, {
+            method: 'DELETE'
+        })
+    }
+
+    async getUsage(filters: UsageFilters = {}): Promise<UsageResponse> {
+        const params = new URLSearchParams()
+        if (filters.from !== undefined) params.set('from', `${filters.from}`)
+        if (filters.to !== undefined) params.set('to', `${filters.to}`)
+
+        const qs = params.toString()
+        return await this.request<UsageResponse>(`/api/usage${qs ? `?${qs}` : ''}`)
+    }
+
+    async getSessionUsage(sessionId: string): Promise<SessionUsageResponse> {
+        return await this.request<SessionUsageResponse>(`/api/sessions/${encodeURIComponent(sessionId)}/usage`)
+    }
+
+    async getUsageBudgets(): Promise<UsageBudgetsResponse> {
+        return await this.request<UsageBudgetsResponse>('/api/usage/budgets')
+    }
+
+    async createUsageBudget(input: UsageBudgetInput): Promise<UsageBudgetResponse> {
+        return await this.request<UsageBudgetResponse>('/api/usage/budgets', {
+            method: 'POST',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async updateUsageBudget(budgetId: string, input: UsageBudgetInput): Promise<UsageBudgetResponse> {
+        return await this.request<UsageBudgetResponse>(`/api/usage/budgets/${encodeURIComponent(budgetId)}`, {
+            method: 'PATCH',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async deleteUsageBudget(budgetId: string): Promise<void> {
+        await this.request(`/api/usage/budgets/${encodeURIComponent(budgetId)}`, {
+            method: 'DELETE'
+        })
+    }
+
+    async getNotificationPreferences(): Promise<NotificationPreferencesResponse> {
+        return await this.request<NotificationPreferencesResponse>('/api/notifications/preferences')
+    }
+
+    async updateNotificationPreferences(preferences: NotificationPreferences): Promise<NotificationPreferencesResponse> {
+        return await this.request<NotificationPreferencesResponse>('/api/notifications/preferences', {
+            method: 'PUT',
+            body: JSON.stringify(preferences)
+        })
+    }
+
+    async getUserAccounts(): Promise<UserAccountsResponse> {
+        return await this.request<UserAccountsResponse>('/api/users')
+    }
+
+    async createUserAccount(input: UserAccountInput): Promise<CreateUserAccountResponse> {
+        return await this.request<CreateUserAccountResponse>('/api/users', {
+            method: 'POST',
+            body: JSON.stringify(input)
+        })
+    }
+
+    async updateUserRole(userId: number, role: UserRole): Promise<UserAccountResponse> {
+        return await this.request<UserAccountResponse>(`/api/users/${userId}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ role })
+        })
+    }
+
+    async regenerateUserToken(userId: number): Promise<UserTokenResponse> {
+        return await this.request<UserTokenResponse>(`/api/users/${userId}/token`, {
+            method: 'POST'
+        })
+    }
+
+    async getAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEventsResponse> {
+        const params = new URLSearchParams()
+        if (filters.action) params.set('action', filters.action)
+        if (filters.origin) params.set('origin', filters.origin)
+        if (filters.sessionId) params.set('sessionId', filters.sessionId)
+        if (filters.from !== undefined) params.set('from', `${filters.from}`)
+        if (filters.to !== undefined) params.set('to', `${filters.to}`)
+        if (filters.before !== undefined) params.set('before', `${filters.before}`)
+
+        return await this.request<AuditEventsResponse>(`/api/audit?${params.toString()}`)
+    }
+
+    async deleteUserAccount(userId: number): Promise<void> {
+        await this.request(`/api/users/${userId}`, {
+            method: 'DELETE'
+        })
+    }
+
     async fetchVoiceToken(options?: { customAgentId?: string; customApiKey?: string }): Promise<{
         allowed: boolean
         token?: string
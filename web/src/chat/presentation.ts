@@ -54,6 +54,9 @@ export function getEventPresentation(event: AgentEvent): EventPresentation {
     if (event.type === 'message') {
         return { icon: null, text: typeof event.message === 'string' ? event.message : 'Message' }
     }
+    if (event.type === 'error') {
+        return { icon: '⚠️', text: typeof event.message === 'string' ? event.message : 'Error' }
+    }
     if (event.type === 'turn-duration') {
         const ms = typeof event.durationMs === 'number' ? event.durationMs : 0
         return { icon: '⏱️', text: `Turn: ${formatDuration(ms)}` }
@@ -66,6 +69,14 @@ export function getEventPresentation(event: AgentEvent): EventPresentation {
     if (event.type === 'compact') {
         return { icon: '📦', text: 'Conversation compacted' }
     }
+    if (event.type === 'hook') {
+        if (event.hook === 'Notification') {
+            return { icon: '🔔', text: typeof event.message === 'string' ? event.message : 'Claude needs your attention' }
+        }
+        if (event.hook === 'PreCompact') {
+            return { icon: '📦', text: 'Compacting conversation...' }
+        }
+    }
     try {
         return { icon: null, text: JSON.stringify(event) }
     } catch {
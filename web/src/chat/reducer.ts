@@ -2,7 +2,7 @@ import type { AgentState } from '@/types/api'
 import type { ChatBlock, NormalizedMessage, UsageData } from '@/chat/types'
 import { traceMessages, type TracedMessage } from '@/chat/tracer'
 import { dedupeAgentEvents, foldApiErrorEvents } from '@/chat/reducerEvents'
-import { collectTitleChanges, collectToolIdsFromMessages, ensureToolBlock, getPermissions } from '@/chat/reducerTools'
+import { collectHookToolCalls, collectTitleChanges, collectToolIdsFromMessages, ensureToolBlock, getPermissions } from '@/chat/reducerTools'
 import { reduceTimeline } from '@/chat/reducerTimeline'
 
 // Calculate context size from usage data
@@ -25,6 +25,7 @@ export function reduceChatBlocks(
 ): { blocks: ChatBlock[]; hasReadyEvent: boolean; latestUsage: LatestUsage | null } {
     const permissionsById = getPermissions(agentState)
     const toolIdsInMessages = collectToolIdsFromMessages(normalized)
+    const hookToolCalls = collectHookToolCalls(normalized)
     const titleChangesByToolUseId = collectTitleChanges(normalized)
 
     const traced = traceMessages(normalized)
@@ -47,6 +48,24 @@ export function reduceChatBlocks(
     const rootResult = reduceTimeline(root, reducerContext)
     let hasReadyEvent = rootResult.hasReadyEvent
 
+    // Local-mode hooks show tool calls live; the transcript's own tool call replaces them once it arrives.
+    for (const [id, entry] of hookToolCalls) {
+        if (toolIdsInMessages.has(id)) continue
+        if (rootResult.toolBlocksById.has(id)) continue
+
+        const block = ensureToolBlock(rootResult.blocks, rootResult.toolBlocksById, id, {
+            createdAt: entry.createdAt,
+            localId: null,
+            name: entry.name,
+            input: entry.input,
+            description: null
+        })
+        if (entry.completedAt !== null) {
+            block.tool.state = entry.isError ? 'error' : 'completed'
+            block.tool.completedAt = entry.completedAt
+        }
+    }
+
     // Only create permission-only tool cards when there is no tool call/result in the transcript.
     // Also skip if the permission is older than the oldest message in the current view,
     // to avoid mixing old tool cards with newer messages when paginating.
@@ -22,6 +22,19 @@ function hasLocalCommandStdoutTag(text: string): boolean {
     return CLI_COMMAND_STDOUT_REGEX.test(text)
 }
 
+const STDOUT_CLOSE_TAG = '</local-command-stdout>'
+const STDOUT_ONLY_REGEX = /^<local-command-stdout>([\s\S]*)<\/local-command-stdout>$/i
+
+function appendCliOutputText(prev: string, next: string): string {
+    // Continue the open stdout section rather than starting a second one
+    const stdoutOnly = next.match(STDOUT_ONLY_REGEX)
+    if (stdoutOnly && prev.toLowerCase().endsWith(STDOUT_CLOSE_TAG)) {
+        return `${prev.slice(0, -STDOUT_CLOSE_TAG.length)}${stdoutOnly[1]}${STDOUT_CLOSE_TAG}`
+    }
+    const separator = prev.endsWith('\n') || next.startsWith('\n') ? '' : '\n'
+    return `${prev}${separator}${next}`
+}
+
 export function isCliOutputText(text: string, meta: unknown): boolean {
     return getMetaSentFrom(meta) === 'cli' && hasCliOutputTags(text)
 }
@@ -54,17 +67,18 @@ export function mergeCliOutputBlocks(blocks: ChatBlock[]): ChatBlock[] {
             continue
         }
 
+        // Output of a command may arrive in several messages (streamed agent
+        // terminals); each stdout-only block joins the command before it
         const prev = merged[merged.length - 1]
         if (
             prev
             && prev.kind === 'cli-output'
             && prev.source === block.source
             && hasCommandNameTag(prev.text)
-            && !hasLocalCommandStdoutTag(prev.text)
+            && !hasCommandNameTag(block.text)
             && hasLocalCommandStdoutTag(block.text)
         ) {
-            const separator = prev.text.endsWith('\n') || block.text.startsWith('\n') ? '' : '\n'
-            merged[merged.length - 1] = { ...prev, text: `${prev.text}${separator}${block.text}` }
+            merged[merged.length - 1] = { ...prev, text: appendCliOutputText(prev.text, block.text) }
             continue
         }
 
@@ -24,6 +24,14 @@ export function reduceTimeline(
                 hasReadyEvent = true
                 continue
             }
+            // Usage is shown in the session header, not the transcript
+            if (msg.content.type === 'usage') {
+                continue
+            }
+            // Hook tool activity becomes a tool card in reduceChatBlocks; prompts and stops are in the transcript
+            if (msg.content.type === 'hook' && msg.content.hook !== 'Notification' && msg.content.hook !== 'PreCompact') {
+                continue
+            }
             blocks.push({
                 kind: 'agent-event',
                 id: msg.id,
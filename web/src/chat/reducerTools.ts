@@ -142,6 +142,40 @@ export function collectToolIdsFromMessages(messages: NormalizedMessage[]): Set<s
     return ids
 }
 
+export type HookToolCall = {
+    name: string
+    input: unknown
+    createdAt: number
+    completedAt: number | null
+    isError: boolean
+}
+
+// Tool activity reported by Claude hooks before the transcript has the tool call
+export function collectHookToolCalls(messages: NormalizedMessage[]): Map<string, HookToolCall> {
+    const map = new Map<string, HookToolCall>()
+    for (const msg of messages) {
+        if (msg.role !== 'event' || msg.content.type !== 'hook') continue
+        const { hook, toolUseId } = msg.content
+        if (typeof toolUseId !== 'string' || !toolUseId) continue
+        if (hook === 'PreToolUse') {
+            map.set(toolUseId, {
+                name: typeof msg.content.toolName === 'string' ? msg.content.toolName : 'unknown',
+                input: msg.content.toolInput ?? null,
+                createdAt: msg.createdAt,
+                completedAt: null,
+                isError: false
+            })
+        } else if (hook === 'PostToolUse') {
+            const entry = map.get(toolUseId)
+            if (entry) {
+                entry.completedAt = msg.createdAt
+                entry.isError = msg.content.isError === true
+            }
+        }
+    }
+    return map
+}
+
 export function isChangeTitleToolName(name: string): boolean {
     return name === 'mcp__hapi__change_title' || name === 'hapi__change_title'
 }
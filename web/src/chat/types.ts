@@ -11,6 +11,7 @@ export type UsageData = {
 export type AgentEvent =
     | { type: 'switch'; mode: 'local' | 'remote' }
     | { type: 'message'; message: string }
+    | { type: 'error'; message: string }
     | { type: 'title-changed'; title: string }
     | { type: 'limit-reached'; endsAt: number }
     | { type: 'ready' }
@@ -18,6 +19,9 @@ export type AgentEvent =
     | { type: 'turn-duration'; durationMs: number }
     | { type: 'microcompact'; trigger: string; preTokens: number; tokensSaved: number }
     | { type: 'compact'; trigger: string; preTokens: number }
+    | { type: 'usage'; model: string | null; inputTokens: number; outputTokens: number; costUsd: number | null }
+    // Claude hooks forwarded while the session runs in local mode
+    | { type: 'hook'; hook: string; toolName?: string; toolUseId?: string | null; toolInput?: unknown; isError?: boolean; message?: string; trigger?: string }
     | ({ type: string } & Record<string, unknown>)
 
 export type ToolResultPermission = {
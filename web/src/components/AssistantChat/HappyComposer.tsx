@@ -1,10 +1,11 @@
-import { getPermissionModeOptionsForFlavor, MODEL_MODE_LABELS, MODEL_MODES } from '@hapi/protocol'
+import { findModelChoice, getModelChoices, getPermissionModeOptionsForFlavor } from '@hapi/protocol'
 import { ComposerPrimitive, useAssistantApi, useAssistantState } from '@assistant-ui/react'
 import {
     type ChangeEvent as ReactChangeEvent,
     type ClipboardEvent as ReactClipboardEvent,
     type FormEvent as ReactFormEvent,
     type KeyboardEvent as ReactKeyboardEvent,
+    type ReactNode,
     type SyntheticEvent as ReactSyntheticEvent,
     useCallback,
     useEffect,
@@ -12,7 +13,7 @@ import {
     useRef,
     useState
 } from 'react'
-import type { AgentState, ModelMode, PermissionMode } from '@/types/api'
+import type { AgentState, ModelCatalog, ModelMode, PermissionMode } from '@/types/api'
 import type { Suggestion } from '@/hooks/useActiveSuggestions'
 import type { ConversationStatus } from '@/realtime/types'
 import { useActiveWord } from '@/hooks/useActiveWord'
@@ -21,7 +22,6 @@ import { useInputHistory } from '@/hooks/useInputHistory'
 import { applySuggestion } from '@/utils/applySuggestion'
 import { usePlatform } from '@/hooks/usePlatform'
 import { usePWAInstall } from '@/hooks/usePWAInstall'
-import { isCodexFamilyFlavor } from '@/lib/agentFlavorUtils'
 import { markSkillUsed } from '@/lib/recent-skills'
 import { FloatingOverlay } from '@/components/ChatInput/FloatingOverlay'
 import { Autocomplete } from '@/components/ChatInput/Autocomplete'
@@ -37,10 +37,51 @@ export interface TextInputState {
 
 const defaultSuggestionHandler = async (): Promise<Suggestion[]> => []
 
+function SettingsOption(props: {
+    label: string
+    title?: string
+    selected: boolean
+    disabled: boolean
+    onSelect: () => void
+}) {
+    return (
+        <button
+            type="button"
+            title={props.title}
+            disabled={props.disabled}
+            className={`flex w-full items-center gap-2 px-3 py-2 text-left text-sm transition-colors ${
+                props.disabled
+                    ? 'cursor-not-allowed opacity-50'
+                    : 'cursor-pointer hover:bg-[var(--app-secondary-bg)]'
+            }`}
+            onClick={props.onSelect}
+            onMouseDown={(e) => e.preventDefault()}
+        >
+            <div
+                className={`flex h-4 w-4 items-center justify-center rounded-full border-2 ${
+                    props.selected
+                        ? 'border-[var(--app-link)]'
+                        : 'border-[var(--app-hint)]'
+                }`}
+            >
+                {props.selected && (
+                    <div className="h-2 w-2 rounded-full bg-[var(--app-link)]" />
+                )}
+            </div>
+            <span className={props.selected ? 'text-[var(--app-link)]' : ''}>
+                {props.label}
+            </span>
+        </button>
+    )
+}
+
 export function HappyComposer(props: {
     disabled?: boolean
     permissionMode?: PermissionMode
     modelMode?: ModelMode
+    reasoningEffort?: string | null
+    // Models reported by the session; the flavor's aliases are used without one
+    modelCatalog?: ModelCatalog | null
     active?: boolean
     allowSendWhenInactive?: boolean
     thinking?: boolean
@@ -49,11 +90,14 @@ export function HappyComposer(props: {
     controlledByUser?: boolean
     agentFlavor?: string | null
     onPermissionModeChange?: (mode: PermissionMode) => void
-    onModelModeChange?: (mode: ModelMode) => void
+    // reasoningEffort: undefined leaves it unchanged, null resets it to the model default
+    onModelModeChange?: (mode: ModelMode, reasoningEffort?: string | null) => void
     onSwitchToRemote?: () => void
     onTerminal?: () => void
     autocompletePrefixes?: string[]
     autocompleteSuggestions?: (query: string) => Promise<Suggestion[]>
+    // Prompts waiting for the current turn, shown above the input
+    queuedPrompts?: ReactNode
     // Voice assistant props
     voiceStatus?: ConversationStatus
     voiceMicMuted?: boolean
@@ -65,6 +109,8 @@ export function HappyComposer(props: {
         disabled = false,
         permissionMode: rawPermissionMode,
         modelMode: rawModelMode,
+        reasoningEffort,
+        modelCatalog,
         active = true,
         allowSendWhenInactive = false,
         thinking = false,
@@ -78,6 +124,7 @@ export function HappyComposer(props: {
         onTerminal,
         autocompletePrefixes = ['@', '/', '$'],
         autocompleteSuggestions = defaultSuggestionHandler,
+        queuedPrompts,
         voiceStatus = 'disconnected',
         voiceMicMuted = false,
         onVoiceToggle,
@@ -243,6 +290,11 @@ export function HappyComposer(props: {
         }
     }, [switchDisabled, onSwitchToRemote, haptic])
 
+    const modelChoices = useMemo(
+        () => getModelChoices(agentFlavor, modelCatalog),
+        [agentFlavor, modelCatalog]
+    )
+    const currentModelChoice = findModelChoice(modelChoices, modelMode)
     const permissionModeOptions = useMemo(
         () => getPermissionModeOptionsForFlavor(agentFlavor),
         [agentFlavor]
@@ -356,18 +408,18 @@ export function HappyComposer(props: {
 
     useEffect(() => {
         const handleGlobalKeyDown = (e: globalThis.KeyboardEvent) => {
-            if (e.key === 'm' && (e.metaKey || e.ctrlKey) && onModelModeChange && !isCodexFamilyFlavor(agentFlavor)) {
+            if (e.key === 'm' && (e.metaKey || e.ctrlKey) && onModelModeChange && modelChoices.length > 0) {
                 e.preventDefault()
-                const currentIndex = MODEL_MODES.indexOf(modelMode as typeof MODEL_MODES[number])
-                const nextIndex = (currentIndex + 1) % MODEL_MODES.length
-                onModelModeChange(MODEL_MODES[nextIndex])
+                const currentIndex = modelChoices.findIndex((choice) => choice.id === modelMode)
+                const nextIndex = (currentIndex + 1) % modelChoices.length
+                onModelModeChange(modelChoices[nextIndex].id)
                 haptic('light')
             }
         }
 
         window.addEventListener('keydown', handleGlobalKeyDown)
         return () => window.removeEventListener('keydown', handleGlobalKeyDown)
-    }, [modelMode, onModelModeChange, haptic, agentFlavor])
+    }, [modelMode, modelChoices, onModelModeChange, haptic])
 
     const handleChange = useCallback((e: ReactChangeEvent<HTMLTextAreaElement>) => {
         const selection = {
@@ -431,8 +483,16 @@ export function HappyComposer(props: {
         haptic('light')
     }, [onModelModeChange, controlsDisabled, haptic])
 
+    const handleReasoningEffortChange = useCallback((effort: string | null) => {
+        if (!onModelModeChange || controlsDisabled) return
+        onModelModeChange(modelMode, effort)
+        setShowSettings(false)
+        haptic('light')
+    }, [onModelModeChange, controlsDisabled, modelMode, haptic])
+
     const showPermissionSettings = Boolean(onPermissionModeChange && permissionModeOptions.length > 0)
-    const showModelSettings = Boolean(onModelModeChange && !isCodexFamilyFlavor(agentFlavor))
+    const showModelSettings = Boolean(onModelModeChange && modelChoices.length > 0)
+    const reasoningEfforts = showModelSettings ? currentModelChoice?.reasoningEfforts ?? [] : []
     const showSettingsButton = Boolean(showPermissionSettings || showModelSettings)
     const showAbortButton = true
     const voiceEnabled = Boolean(onVoiceToggle)
@@ -453,33 +513,13 @@ export function HappyComposer(props: {
                                     {t('misc.permissionMode')}
                                 </div>
                                 {permissionModeOptions.map((option) => (
-                                    <button
+                                    <SettingsOption
                                         key={option.mode}
-                                        type="button"
+                                        label={option.label}
+                                        selected={permissionMode === option.mode}
                                         disabled={controlsDisabled}
-                                        className={`flex w-full items-center gap-2 px-3 py-2 text-left text-sm transition-colors ${
-                                            controlsDisabled
-                                                ? 'cursor-not-allowed opacity-50'
-                                                : 'cursor-pointer hover:bg-[var(--app-secondary-bg)]'
-                                        }`}
-                                        onClick={() => handlePermissionChange(option.mode)}
-                                        onMouseDown={(e) => e.preventDefault()}
-                                    >
-                                        <div
-                                            className={`flex h-4 w-4 items-center justify-center rounded-full border-2 ${
-                                                permissionMode === option.mode
-                                                    ? 'border-[var(--app-link)]'
-                                                    : 'border-[var(--app-hint)]'
-                                            }`}
-                                        >
-                                            {permissionMode === option.mode && (
-                                                <div className="h-2 w-2 rounded-full bg-[var(--app-link)]" />
-                                            )}
-                                        </div>
-                                        <span className={permissionMode === option.mode ? 'text-[var(--app-link)]' : ''}>
-                                            {option.label}
-                                        </span>
-                                    </button>
+                                        onSelect={() => handlePermissionChange(option.mode)}
+                                    />
                                 ))}
                             </div>
                         ) : null}
@@ -493,34 +533,40 @@ export function HappyComposer(props: {
                                 <div className="px-3 pb-1 text-xs font-semibold text-[var(--app-hint)]">
                                     {t('misc.model')}
                                 </div>
-                                {MODEL_MODES.map((mode) => (
-                                    <button
-                                        key={mode}
-                                        type="button"
+                                {modelChoices.map((choice) => (
+                                    <SettingsOption
+                                        key={choice.id}
+                                        label={choice.label}
+                                        title={choice.label !== choice.id ? choice.id : undefined}
+                                        selected={modelMode === choice.id}
+                                        disabled={controlsDisabled}
+                                        onSelect={() => handleModelChange(choice.id)}
+                                    />
+                                ))}
+                            </div>
+                        ) : null}
+
+                        {reasoningEfforts.length > 0 ? (
+                            <div className="py-2">
+                                <div className="px-3 pb-1 text-xs font-semibold text-[var(--app-hint)]">
+                                    {t('misc.reasoningEffort')}
+                                </div>
+                                <SettingsOption
+                                    label={currentModelChoice?.defaultReasoningEffort
+                                        ? t('misc.reasoningEffortDefaultValue', { effort: currentModelChoice.defaultReasoningEffort })
+                                        : t('misc.reasoningEffortDefault')}
+                                    selected={!reasoningEffort}
+                                    disabled={controlsDisabled}
+                                    onSelect={() => handleReasoningEffortChange(null)}
+                                />
+                                {reasoningEfforts.map((effort) => (
+                                    <SettingsOption
+                                        key={effort}
+                                        label={effort}
+                                        selected={reasoningEffort === effort}
                                         disabled={controlsDisabled}
-                                        className={`flex w-full items-center gap-2 px-3 py-2 text-left text-sm transition-colors ${
-                                            controlsDisabled
-                                                ? 'cursor-not-allowed opacity-50'
-                                                : 'cursor-pointer hover:bg-[var(--app-secondary-bg)]'
-                                        }`}
-                                        onClick={() => handleModelChange(mode)}
-                                        onMouseDown={(e) => e.preventDefault()}
-                                    >
-                                        <div
-                                            className={`flex h-4 w-4 items-center justify-center rounded-full border-2 ${
-                                                modelMode === mode
-                                                    ? 'border-[var(--app-link)]'
-                                                    : 'border-[var(--app-hint)]'
-                                            }`}
-                                        >
-                                            {modelMode === mode && (
-                                                <div className="h-2 w-2 rounded-full bg-[var(--app-link)]" />
-                                            )}
-                                        </div>
-                                        <span className={modelMode === mode ? 'text-[var(--app-link)]' : ''}>
-                                            {MODEL_MODE_LABELS[mode]}
-                                        </span>
-                                    </button>
+                                        onSelect={() => handleReasoningEffortChange(effort)}
+                                    />
                                 ))}
                             </div>
                         ) : null}
@@ -553,15 +599,21 @@ export function HappyComposer(props: {
         controlsDisabled,
         permissionMode,
         modelMode,
+        reasoningEffort,
         permissionModeOptions,
+        modelChoices,
+        currentModelChoice,
+        reasoningEfforts,
         handlePermissionChange,
         handleModelChange,
+        handleReasoningEffortChange,
         handleSuggestionSelect
     ])
 
     return (
         <div className={`px-3 ${bottomPaddingClass} pt-2 bg-[var(--app-bg)]`}>
             <div className="mx-auto w-full max-w-content">
+                {queuedPrompts}
                 <ComposerPrimitive.Root className="relative" onSubmit={handleSubmit}>
                     {overlays}
 
@@ -74,6 +74,7 @@ export function HappyThread(props: {
     normalizedMessagesCount: number
     messagesVersion: number
     forceScrollToken: number
+    scrollToBlockId?: string | null
 }) {
     const { t } = useTranslation()
     const viewportRef = useRef<HTMLDivElement | null>(null)
@@ -91,6 +92,7 @@ export function HappyThread(props: {
     const onAtBottomChangeRef = useRef(props.onAtBottomChange)
     const onFlushPendingRef = useRef(props.onFlushPending)
     const forceScrollTokenRef = useRef(props.forceScrollToken)
+    const scrolledToBlockIdRef = useRef<string | null>(null)
 
     // Smart scroll state: autoScroll enabled when user is near bottom
     const [autoScrollEnabled, setAutoScrollEnabled] = useState(true)
@@ -176,6 +178,26 @@ export function HappyThread(props: {
         scrollToBottom()
     }, [props.forceScrollToken, scrollToBottom])
 
+    // Jump to a specific block (e.g. from a search result) once it has been rendered
+    useEffect(() => {
+        const blockId = props.scrollToBlockId
+        const viewport = viewportRef.current
+        if (!blockId || !viewport || scrolledToBlockIdRef.current === blockId) {
+            return
+        }
+        const suffix = `:${blockId}`
+        const target = Array.from(viewport.querySelectorAll<HTMLElement>('[data-message-id]'))
+            .find((element) => element.dataset.messageId?.endsWith(suffix))
+        if (!target) {
+            return
+        }
+        scrolledToBlockIdRef.current = blockId
+        setAutoScrollEnabled(false)
+        target.scrollIntoView({ block: 'center' })
+        target.classList.add('message-search-target')
+        setTimeout(() => target.classList.remove('message-search-target'), 2000)
+    }, [props.scrollToBlockId, props.messagesVersion])
+
     const handleLoadMore = useCallback(() => {
         if (isLoadingMessagesRef.current || !hasMoreMessagesRef.current || isLoadingMoreRef.current || loadLockRef.current) {
             return
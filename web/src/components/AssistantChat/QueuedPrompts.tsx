@@ -0,0 +1,189 @@
+import { useState } from 'react'
+import type { AgentStateQueue, QueuedPrompt } from '@hapi/protocol/types'
+import { useTranslation } from '@/lib/use-translation'
+
+const ACTION_CLASS = 'rounded px-1.5 py-0.5 text-xs text-[var(--app-hint)] hover:bg-[var(--app-subtle-bg)] hover:text-[var(--app-fg)] disabled:cursor-not-allowed disabled:opacity-40'
+
+function moveId(ids: string[], index: number, offset: number): string[] {
+    const next = [...ids]
+    const [id] = next.splice(index, 1)
+    next.splice(index + offset, 0, id)
+    return next
+}
+
+function QueuedPromptRow(props: {
+    prompt: QueuedPrompt
+    index: number
+    count: number
+    disabled: boolean
+    onEdit: (text: string) => Promise<void>
+    onDelete: () => Promise<void>
+    onMove: (offset: number) => Promise<void>
+    onSendNow: () => Promise<void>
+}) {
+    const { t } = useTranslation()
+    const [draft, setDraft] = useState<string | null>(null)
+
+    const handleSave = async () => {
+        if (draft === null || draft.trim().length === 0) return
+        await props.onEdit(draft)
+        setDraft(null)
+    }
+
+    if (draft !== null) {
+        return (
+            <li className="flex flex-col gap-1 px-3 py-2">
+                <textarea
+                    value={draft}
+                    onChange={(event) => setDraft(event.target.value)}
+                    rows={3}
+                    autoFocus
+                    className="w-full resize-y rounded-md bg-[var(--app-bg)] p-2 text-sm text-[var(--app-fg)] focus:outline-none"
+                />
+                <div className="flex justify-end gap-1">
+                    <button type="button" className={ACTION_CLASS} onClick={() => setDraft(null)}>
+                        {t('queue.cancel')}
+                    </button>
+                    <button
+                        type="button"
+                        className={ACTION_CLASS}
+                        disabled={props.disabled || draft.trim().length === 0}
+                        onClick={() => void handleSave()}
+                    >
+                        {t('queue.save')}
+                    </button>
+                </div>
+            </li>
+        )
+    }
+
+    return (
+        <li className="flex items-start gap-2 px-3 py-2">
+            <div className="min-w-0 flex-1 whitespace-pre-wrap break-words text-sm text-[var(--app-fg)] line-clamp-3">
+                {props.prompt.text}
+            </div>
+            <div className="flex shrink-0 flex-wrap justify-end gap-0.5">
+                <button
+                    type="button"
+                    className={ACTION_CLASS}
+                    disabled={props.disabled || props.index === 0}
+                    onClick={() => void props.onMove(-1)}
+                    aria-label={t('queue.moveUp')}
+                    title={t('queue.moveUp')}
+                >
+                    &#8593;
+                </button>
+                <button
+                    type="button"
+                    className={ACTION_CLASS}
+                    disabled={props.disabled || props.index === props.count - 1}
+                    onClick={() => void props.onMove(1)}
+                    aria-label={t('queue.moveDown')}
+                    title={t('queue.moveDown')}
+                >
+                    &#8595;
+                </button>
+                <button
+                    type="button"
+                    className={ACTION_CLASS}
+                    disabled={props.disabled}
+                    onClick={() => setDraft(props.prompt.text)}
+                >
+                    {t('queue.edit')}
+                </button>
+                <button
+                    type="button"
+                    className={ACTION_CLASS}
+                    disabled={props.disabled}
+                    onClick={() => void props.onDelete()}
+                >
+                    {t('queue.delete')}
+                </button>
+                <button
+                    type="button"
+                    className={ACTION_CLASS}
+                    disabled={props.disabled}
+                    onClick={() => void props.onSendNow()}
+                    title={t('queue.sendNowHint')}
+                >
+                    {t('queue.sendNow')}
+                </button>
+            </div>
+        </li>
+    )
+}
+
+/**
+ * Prompts waiting for the agent to finish its turn, as reported by the CLI.
+ * Read-only viewers see the list without controls.
+ */
+export function QueuedPrompts(props: {
+    queue: AgentStateQueue
+    readOnly?: boolean
+    isPending: boolean
+    onEdit: (promptId: string, text: string) => Promise<void>
+    onDelete: (promptId: string) => Promise<void>
+    onReorder: (ids: string[]) => Promise<void>
+    onSendNow: (promptId: string) => Promise<void>
+    onMergeChange: (merge: boolean) => Promise<void>
+}) {
+    const { t } = useTranslation()
+    const [error, setError] = useState<string | null>(null)
+    const prompts = props.queue.prompts
+    const ids = prompts.map((prompt) => prompt.id)
+    const disabled = props.readOnly === true || props.isPending
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null)
+        try {
+            await action()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('queue.error'))
+        }
+    }
+
+    if (prompts.length === 0) {
+        return null
+    }
+
+    return (
+        <div className="mb-2 overflow-hidden rounded-[16px] bg-[var(--app-secondary-bg)]">
+            <div className="flex items-center justify-between gap-2 px-3 pt-2 text-xs text-[var(--app-hint)]">
+                <span>{t('queue.title', { n: prompts.length })}</span>
+                {props.readOnly ? null : (
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={props.queue.merge}
+                            disabled={disabled}
+                            onChange={(event) => void run(() => props.onMergeChange(event.target.checked))}
+                        />
+                        {t('queue.merge')}
+                    </label>
+                )}
+            </div>
+            <ul className="divide-y divide-[var(--app-divider)]">
+                {prompts.map((prompt, index) => props.readOnly ? (
+                    <li key={prompt.id} className="whitespace-pre-wrap break-words px-3 py-2 text-sm text-[var(--app-fg)] line-clamp-3">
+                        {prompt.text}
+                    </li>
+                ) : (
+                    <QueuedPromptRow
+                        key={prompt.id}
+                        prompt={prompt}
+                        index={index}
+                        count={prompts.length}
+                        disabled={disabled}
+                        onEdit={(text) => run(() => props.onEdit(prompt.id, text))}
+                        onDelete={() => run(() => props.onDelete(prompt.id))}
+                        onMove={(offset) => run(() => props.onReorder(moveId(ids, index, offset)))}
+                        onSendNow={() => run(() => props.onSendNow(prompt.id))}
+                    />
+                ))}
+            </ul>
+            {error ? (
+                <div className="px-3 pb-2 text-xs text-red-500">{error}</div>
+            ) : null}
+        </div>
+    )
+}
@@ -1,5 +1,7 @@
 import { diffLines } from 'diff'
 import { useMemo } from 'react'
+import { TextStructuralDiff } from '@/components/StructuralDiff/StructuralDiffView'
+import { useStructuralDiffPreference } from '@/components/StructuralDiff/useStructuralDiffPreference'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { usePointerFocusRing } from '@/hooks/usePointerFocusRing'
 import { cn } from '@/lib/utils'
@@ -10,6 +12,10 @@ export function DiffView(props: {
     newString: string
     filePath?: string
     variant?: 'preview' | 'inline'
+    // Enables the structural toggle; the diff is computed on the session's machine
+    sessionId?: string
+    // Picks the language for the structural view when no header path is shown
+    languagePath?: string
 }) {
     const { t } = useTranslation()
     const variant = props.variant ?? 'preview'
@@ -26,7 +32,15 @@ export function DiffView(props: {
     const title = props.filePath ? props.filePath : t('diff.title')
     const subtitle = props.filePath ? stats.label : `${t('diff.title')} • ${stats.label}`
 
-    const DiffInline = (
+    const DiffInline = props.sessionId ? (
+        <SwitchableDiffView
+            oldString={props.oldString}
+            newString={props.newString}
+            filePath={props.filePath}
+            sessionId={props.sessionId}
+            languagePath={props.languagePath ?? props.filePath}
+        />
+    ) : (
         <DiffInlineView
             oldString={props.oldString}
             newString={props.newString}
@@ -85,6 +99,56 @@ export function DiffView(props: {
     )
 }
 
+function SwitchableDiffView(props: {
+    oldString: string
+    newString: string
+    filePath?: string
+    sessionId: string
+    languagePath?: string
+}) {
+    const { t } = useTranslation()
+    const [structural, setStructural] = useStructuralDiffPreference()
+    const lineDiff = (
+        <DiffInlineView
+            oldString={props.oldString}
+            newString={props.newString}
+            filePath={props.filePath}
+        />
+    )
+    // difftastic detects the language from the file extension
+    const fileName = props.languagePath?.split('/').pop() || 'snippet.txt'
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex justify-end">
+                <button
+                    type="button"
+                    onClick={() => setStructural(!structural)}
+                    aria-pressed={structural}
+                    title={t('diff.structural.title')}
+                    className={cn(
+                        'rounded px-1.5 py-0.5 text-xs',
+                        structural
+                            ? 'bg-[var(--app-button)] text-[var(--app-button-text)]'
+                            : 'text-[var(--app-link)] hover:bg-[var(--app-subtle-bg)]'
+                    )}
+                >
+                    {t('diff.structural')}
+                </button>
+            </div>
+            {structural ? (
+                <TextStructuralDiff
+                    sessionId={props.sessionId}
+                    fileName={fileName}
+                    oldText={props.oldString}
+                    newText={props.newString}
+                    fallback={lineDiff}
+                />
+            ) : lineDiff}
+        </div>
+    )
+}
+
 function DiffInlineView(props: {
     oldString: string
     newString: string
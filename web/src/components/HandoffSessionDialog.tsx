@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { ApiClient } from '@/api/client'
+import type { Machine } from '@/types/api'
+import { useMachines } from '@/hooks/queries/useMachines'
+import { useTranslation } from '@/lib/use-translation'
+
+type HandoffSessionDialogProps = {
+    isOpen: boolean
+    onClose: () => void
+    api: ApiClient | null
+    currentMachineId: string | null
+    currentPath: string | null
+    onHandoff: (machineId: string, directory: string | undefined) => Promise<void>
+    isPending: boolean
+}
+
+function getMachineTitle(machine: Machine): string {
+    if (machine.metadata?.displayName) return machine.metadata.displayName
+    if (machine.metadata?.host) return machine.metadata.host
+    return machine.id.slice(0, 8)
+}
+
+export function HandoffSessionDialog(props: HandoffSessionDialogProps) {
+    const { t } = useTranslation()
+    const { isOpen, onClose, api, currentMachineId, currentPath, onHandoff, isPending } = props
+    const { machines, isLoading } = useMachines(api, isOpen)
+    const targets = useMemo(
+        () => machines.filter((machine) => machine.id !== currentMachineId),
+        [machines, currentMachineId]
+    )
+    const [machineId, setMachineId] = useState('')
+    const [directory, setDirectory] = useState(currentPath ?? '')
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (isOpen) {
+            setDirectory(currentPath ?? '')
+            setError(null)
+        }
+    }, [isOpen, currentPath])
+
+    useEffect(() => {
+        if (!targets.some((machine) => machine.id === machineId)) {
+            setMachineId(targets[0]?.id ?? '')
+        }
+    }, [targets, machineId])
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!machineId) {
+            return
+        }
+        setError(null)
+        const trimmed = directory.trim()
+        try {
+            await onHandoff(machineId, trimmed && trimmed !== currentPath ? trimmed : undefined)
+            onClose()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('dialog.handoff.error'))
+        }
+    }
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && !isPending && onClose()}>
+            <DialogContent className="max-w-sm">
+                <DialogHeader>
+                    <DialogTitle>{t('dialog.handoff.title')}</DialogTitle>
+                    <DialogDescription>{t('dialog.handoff.description')}</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="mt-4 flex flex-col gap-4">
+                    <label className="flex flex-col gap-1.5 text-xs font-medium text-[var(--app-hint)]">
+                        {t('dialog.handoff.machine')}
+                        <select
+                            value={machineId}
+                            onChange={(e) => setMachineId(e.target.value)}
+                            disabled={isPending || targets.length === 0}
+                            className="w-full rounded-md border border-[var(--app-border)] bg-[var(--app-bg)] p-2 text-sm text-[var(--app-fg)] focus:outline-none focus:ring-2 focus:ring-[var(--app-link)] disabled:opacity-50"
+                        >
+                            {isLoading ? (
+                                <option value="">{t('loading.machines')}</option>
+                            ) : null}
+                            {!isLoading && targets.length === 0 ? (
+                                <option value="">{t('dialog.handoff.noMachines')}</option>
+                            ) : null}
+                            {targets.map((machine) => (
+                                <option key={machine.id} value={machine.id}>
+                                    {getMachineTitle(machine)}
+                                    {machine.metadata?.platform ? ` (${machine.metadata.platform})` : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <label className="flex flex-col gap-1.5 text-xs font-medium text-[var(--app-hint)]">
+                        {t('dialog.handoff.directory')}
+                        <input
+                            type="text"
+                            value={directory}
+                            onChange={(e) => setDirectory(e.target.value)}
+                            placeholder={currentPath ?? ''}
+                            className="w-full px-3 py-2.5 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-sm text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent"
+                            disabled={isPending}
+                        />
+                    </label>
+
+                    {error ? (
+                        <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                            {error}
+                        </div>
+                    ) : null}
+
+                    <div className="flex gap-2 justify-end">
+                        <Button
+                            type="button"
+                            variant="secondary"
+                            onClick={onClose}
+                            disabled={isPending}
+                        >
+                            {t('button.cancel')}
+                        </Button>
+                        <Button
+                            type="submit"
+                            disabled={isPending || !machineId}
+                        >
+                            {isPending ? t('dialog.handoff.moving') : t('dialog.handoff.confirm')}
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    )
+}
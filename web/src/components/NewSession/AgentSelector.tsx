@@ -1,34 +1,47 @@
+import { toAcpAgentFlavor } from '@hapi/protocol'
+import type { AcpAgentInfo } from '@/types/api'
 import type { AgentType } from './types'
 import { useTranslation } from '@/lib/use-translation'
 
 export function AgentSelector(props: {
     agent: AgentType
+    acpAgents: AcpAgentInfo[]
     isDisabled: boolean
     onAgentChange: (value: AgentType) => void
 }) {
     const { t } = useTranslation()
+    const options: { value: AgentType; label: string }[] = [
+        ...(['claude', 'codex', 'gemini', 'opencode'] as const).map((agentType) => ({
+            value: agentType,
+            label: agentType
+        })),
+        ...props.acpAgents.map((acpAgent) => ({
+            value: toAcpAgentFlavor(acpAgent.name),
+            label: acpAgent.displayName ?? acpAgent.name
+        }))
+    ]
 
     return (
         <div className="flex flex-col gap-1.5 px-3 py-3">
             <label className="text-xs font-medium text-[var(--app-hint)]">
                 {t('newSession.agent')}
             </label>
-            <div className="flex gap-3">
-                {(['claude', 'codex', 'gemini', 'opencode'] as const).map((agentType) => (
+            <div className="flex flex-wrap gap-x-3 gap-y-2">
+                {options.map((option) => (
                     <label
-                        key={agentType}
+                        key={option.value}
                         className="flex items-center gap-1.5 cursor-pointer"
                     >
                         <input
                             type="radio"
                             name="agent"
-                            value={agentType}
-                            checked={props.agent === agentType}
-                            onChange={() => props.onAgentChange(agentType)}
+                            value={option.value}
+                            checked={props.agent === option.value}
+                            onChange={() => props.onAgentChange(option.value)}
                             disabled={props.isDisabled}
                             className="accent-[var(--app-link)]"
                         />
-                        <span className="text-sm capitalize">{agentType}</span>
+                        <span className="text-sm capitalize">{option.label}</span>
                     </label>
                 ))}
             </div>
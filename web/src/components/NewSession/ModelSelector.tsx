@@ -1,15 +1,17 @@
+import type { ModelCatalog } from '@/types/api'
 import type { AgentType } from './types'
-import { MODEL_OPTIONS } from './types'
+import { getModelOptions } from './types'
 import { useTranslation } from '@/lib/use-translation'
 
 export function ModelSelector(props: {
     agent: AgentType
     model: string
+    catalog?: ModelCatalog | null
     isDisabled: boolean
     onModelChange: (value: string) => void
 }) {
     const { t } = useTranslation()
-    const options = MODEL_OPTIONS[props.agent]
+    const options = getModelOptions(props.agent, props.catalog)
     if (options.length === 0) {
         return null
     }
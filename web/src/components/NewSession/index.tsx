@@ -1,13 +1,15 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react'
+import { isAcpAgentFlavor, toAcpAgentFlavor } from '@hapi/protocol'
 import type { ApiClient } from '@/api/client'
 import type { Machine } from '@/types/api'
 import { usePlatform } from '@/hooks/usePlatform'
 import { useSpawnSession } from '@/hooks/mutations/useSpawnSession'
 import { useSessions } from '@/hooks/queries/useSessions'
+import { useModelCatalog } from '@/hooks/queries/useModelCatalog'
 import { useActiveSuggestions, type Suggestion } from '@/hooks/useActiveSuggestions'
 import { useDirectorySuggestions } from '@/hooks/useDirectorySuggestions'
 import { useRecentPaths } from '@/hooks/useRecentPaths'
-import { type AgentType, type SessionType, DEFAULT_MODEL } from './types'
+import { type AgentType, type SessionType, acceptsSpawnModel, getDefaultModel, getModelOptions } from './types'
 import { ActionButtons } from './ActionButtons'
 import { AgentSelector } from './AgentSelector'
 import { DirectorySection } from './DirectorySection'
@@ -43,7 +45,7 @@ export function NewSession(props: {
     const [isDirectoryFocused, setIsDirectoryFocused] = useState(false)
     const [pathExistence, setPathExistence] = useState<Record<string, boolean>>({})
     const [agent, setAgent] = useState<AgentType>(loadPreferredAgent)
-    const [model, setModel] = useState(() => DEFAULT_MODEL[loadPreferredAgent()])
+    const [model, setModel] = useState(() => getDefaultModel(loadPreferredAgent()))
     const [yoloMode, setYoloMode] = useState(() => props.initialYolo ?? loadPreferredYoloMode())
     const [sessionType, setSessionType] = useState<SessionType>('simple')
     const [worktreeName, setWorktreeName] = useState('')
@@ -58,9 +60,19 @@ export function NewSession(props: {
     }, [sessionType])
 
     useEffect(() => {
-        setModel(DEFAULT_MODEL[agent])
+        setModel(getDefaultModel(agent))
     }, [agent])
 
+    const { catalog: modelCatalog } = useModelCatalog(props.api, machineId, agent, acceptsSpawnModel(agent))
+
+    useEffect(() => {
+        // A reported catalog may not list the fixed default
+        const options = getModelOptions(agent, modelCatalog)
+        if (options.length > 0 && !options.some((option) => option.value === model)) {
+            setModel(options[0].value)
+        }
+    }, [agent, modelCatalog, model])
+
     useEffect(() => {
         savePreferredAgent(agent)
     }, [agent])
@@ -85,6 +97,19 @@ export function NewSession(props: {
         }
     }, [props.machines, machineId, getLastUsedMachineId, getRecentPaths])
 
+    const acpAgents = useMemo(
+        () => props.machines.find((m) => m.id === machineId)?.metadata?.acpAgents ?? [],
+        [props.machines, machineId]
+    )
+
+    // ACP agents come from the selected machine's settings; fall back when it has no such agent
+    useEffect(() => {
+        if (!machineId || !isAcpAgentFlavor(agent)) return
+        if (!acpAgents.some((acpAgent) => toAcpAgentFlavor(acpAgent.name) === agent)) {
+            setAgent('claude')
+        }
+    }, [machineId, agent, acpAgents])
+
     const recentPaths = useMemo(
         () => getRecentPaths(machineId),
         [getRecentPaths, machineId]
@@ -220,7 +245,7 @@ export function NewSession(props: {
 
         setError(null)
         try {
-            const resolvedModel = model !== 'auto' && agent !== 'opencode' ? model : undefined
+            const resolvedModel = model !== 'auto' && acceptsSpawnModel(agent) ? model : undefined
             const result = await spawnSession({
                 machineId,
                 directory: directory.trim(),
@@ -282,12 +307,14 @@ export function NewSession(props: {
             />
             <AgentSelector
                 agent={agent}
+                acpAgents={acpAgents}
                 isDisabled={isFormDisabled}
                 onAgentChange={setAgent}
             />
             <ModelSelector
                 agent={agent}
                 model={model}
+                catalog={modelCatalog}
                 isDisabled={isFormDisabled}
                 onModelChange={setModel}
             />
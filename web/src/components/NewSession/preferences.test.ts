@@ -30,6 +30,12 @@ describe('NewSession preferences', () => {
         expect(loadPreferredAgent()).toBe('claude')
     })
 
+    it('keeps a saved ACP agent until the machine is known', () => {
+        localStorage.setItem('hapi:newSession:agent', 'acp:goose')
+
+        expect(loadPreferredAgent()).toBe('acp:goose')
+    })
+
     it('persists new values to storage', () => {
         savePreferredAgent('gemini')
         savePreferredYoloMode(true)
@@ -1,14 +1,15 @@
-import type { AgentType } from './types'
+import { isAcpAgentFlavor } from '@hapi/protocol'
+import type { AgentType, BuiltinAgentType } from './types'
 
 const AGENT_STORAGE_KEY = 'hapi:newSession:agent'
 const YOLO_STORAGE_KEY = 'hapi:newSession:yolo'
 
-const VALID_AGENTS: AgentType[] = ['claude', 'codex', 'gemini', 'opencode']
+const VALID_AGENTS: BuiltinAgentType[] = ['claude', 'codex', 'gemini', 'opencode']
 
 export function loadPreferredAgent(): AgentType {
     try {
         const stored = localStorage.getItem(AGENT_STORAGE_KEY)
-        if (stored && VALID_AGENTS.includes(stored as AgentType)) {
+        if (stored && (VALID_AGENTS.includes(stored as BuiltinAgentType) || isAcpAgentFlavor(stored))) {
             return stored as AgentType
         }
     } catch {
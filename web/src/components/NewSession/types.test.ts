@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { getModelOptions, MODEL_OPTIONS } from './types'
+
+describe('getModelOptions', () => {
+    it('uses the fixed list until the machine reported a catalog', () => {
+        expect(getModelOptions('codex')).toEqual(MODEL_OPTIONS.codex)
+        expect(getModelOptions('codex', { models: [], switchable: true })).toEqual(MODEL_OPTIONS.codex)
+    })
+
+    it('lists the reported models followed by auto', () => {
+        const options = getModelOptions('codex', {
+            models: [{ id: 'gpt-5-codex', label: 'GPT-5 Codex' }, { id: 'o3' }],
+            switchable: true
+        })
+
+        expect(options).toEqual([
+            { value: 'gpt-5-codex', label: 'GPT-5 Codex' },
+            { value: 'o3', label: 'o3' },
+            { value: 'auto', label: 'Auto' }
+        ])
+    })
+
+    it('offers nothing for agents that pick their model at runtime', () => {
+        const catalog = { models: [{ id: 'anthropic/claude-sonnet-4' }], switchable: true }
+        expect(getModelOptions('opencode', catalog)).toEqual([])
+        expect(getModelOptions('acp:goose', catalog)).toEqual([])
+    })
+})
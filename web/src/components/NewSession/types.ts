@@ -1,14 +1,19 @@
-export type AgentType = 'claude' | 'codex' | 'gemini' | 'opencode'
+import { isAcpAgentFlavor, type AgentFlavor, type SpawnAgent } from '@hapi/protocol'
+import type { ModelCatalog } from '@hapi/protocol/types'
+
+export type BuiltinAgentType = AgentFlavor
+// A built-in agent or an `acp:<name>` agent declared in the machine's CLI settings
+export type AgentType = SpawnAgent
 export type SessionType = 'simple' | 'worktree'
 
-export const DEFAULT_MODEL: Record<AgentType, string> = {
+export const DEFAULT_MODEL: Record<BuiltinAgentType, string> = {
     claude: 'opus',
     codex: 'gpt-5.3-codex',
     gemini: 'auto',
     opencode: 'auto',
 }
 
-export const MODEL_OPTIONS: Record<AgentType, { value: string; label: string }[]> = {
+export const MODEL_OPTIONS: Record<BuiltinAgentType, { value: string; label: string }[]> = {
     claude: [
         { value: 'opus', label: 'Opus' },
         { value: 'sonnet', label: 'Sonnet' },
@@ -27,3 +32,30 @@ export const MODEL_OPTIONS: Record<AgentType, { value: string; label: string }[]
     ],
     opencode: [],
 }
+
+// ACP agents declared in settings pick their own model
+export function getDefaultModel(agent: AgentType): string {
+    return isAcpAgentFlavor(agent) ? 'auto' : DEFAULT_MODEL[agent]
+}
+
+// Agents whose spawn request takes a model
+export function acceptsSpawnModel(agent: AgentType): boolean {
+    return agent === 'claude' || agent === 'codex' || agent === 'gemini'
+}
+
+/**
+ * Models a new session can start with: the catalog the machine's last
+ * session of this agent reported, or a fixed list until one has run.
+ */
+export function getModelOptions(agent: AgentType, catalog?: ModelCatalog | null): { value: string; label: string }[] {
+    if (!acceptsSpawnModel(agent)) {
+        return []
+    }
+    if (!catalog || catalog.models.length === 0) {
+        return isAcpAgentFlavor(agent) ? [] : MODEL_OPTIONS[agent]
+    }
+    return [
+        ...catalog.models.map((model) => ({ value: model.id, label: model.label ?? model.id })),
+        { value: 'auto', label: 'Auto' },
+    ]
+}
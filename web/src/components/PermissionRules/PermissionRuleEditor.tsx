@@ -0,0 +1,262 @@
+import { useState } from 'react'
+import { PERMISSION_RULE_ACTIONS } from '@hapi/protocol'
+import type {
+    PermissionRule,
+    PermissionRuleAction,
+    PermissionRuleDryRunResponse,
+    PermissionRuleInput
+} from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { useTranslation } from '@/lib/use-translation'
+
+type PermissionRuleEditorProps = {
+    rule: PermissionRule | null
+    onSave: (input: PermissionRuleInput) => Promise<void>
+    onDryRun: (input: PermissionRuleInput) => Promise<PermissionRuleDryRunResponse>
+    onCancel: () => void
+    isPending: boolean
+    isDryRunPending: boolean
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+function splitList(value: string, separator: RegExp): string[] {
+    return value
+        .split(separator)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+}
+
+function isValidRegex(pattern: string): boolean {
+    try {
+        new RegExp(pattern)
+        return true
+    } catch {
+        return false
+    }
+}
+
+function summarizeArguments(args: unknown): string {
+    if (args && typeof args === 'object') {
+        const record = args as Record<string, unknown>
+        for (const key of ['command', 'cmd', 'file_path', 'filePath', 'notebook_path', 'path']) {
+            const value = record[key]
+            if (typeof value === 'string') return value
+            if (Array.isArray(value)) return value.join(' ')
+        }
+    }
+    const json = JSON.stringify(args)
+    return json && json.length > 120 ? `${json.slice(0, 117)}...` : (json ?? '')
+}
+
+function Field(props: { label: string; hint?: string; children: React.ReactNode }) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-sm text-[var(--app-fg)]">{props.label}</span>
+            {props.children}
+            {props.hint ? <span className="text-xs text-[var(--app-hint)]">{props.hint}</span> : null}
+        </label>
+    )
+}
+
+export function PermissionRuleEditor(props: PermissionRuleEditorProps) {
+    const { t } = useTranslation()
+    const { rule } = props
+    const [name, setName] = useState(rule?.name ?? '')
+    const [action, setAction] = useState<PermissionRuleAction>(rule?.action ?? 'approve')
+    const [enabled, setEnabled] = useState(rule?.enabled ?? true)
+    const [priority, setPriority] = useState(String(rule?.priority ?? 0))
+    const [sessionId, setSessionId] = useState(rule?.sessionId ?? '')
+    const [toolPattern, setToolPattern] = useState(rule?.toolPattern ?? '')
+    const [commandPattern, setCommandPattern] = useState(rule?.commandPattern ?? '')
+    const [pathPatterns, setPathPatterns] = useState((rule?.pathPatterns ?? []).join('\n'))
+    const [flavors, setFlavors] = useState((rule?.flavors ?? []).join(', '))
+    const [error, setError] = useState<string | null>(null)
+    const [dryRunResult, setDryRunResult] = useState<PermissionRuleDryRunResponse | null>(null)
+
+    const buildInput = (): PermissionRuleInput | null => {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+            setError(t('permissionRules.error.nameRequired'))
+            return null
+        }
+        const trimmedCommand = commandPattern.trim()
+        if (trimmedCommand && !isValidRegex(trimmedCommand)) {
+            setError(t('permissionRules.error.invalidCommand'))
+            return null
+        }
+        const parsedPriority = Number.parseInt(priority, 10)
+        setError(null)
+        return {
+            name: trimmedName,
+            action,
+            enabled,
+            priority: Number.isFinite(parsedPriority) ? parsedPriority : 0,
+            sessionId: sessionId.trim() || null,
+            toolPattern: toolPattern.trim() || null,
+            commandPattern: trimmedCommand || null,
+            pathPatterns: splitList(pathPatterns, /\n/),
+            flavors: splitList(flavors, /,/)
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const input = buildInput()
+        if (!input) return
+        try {
+            await props.onSave(input)
+        } catch {
+            setError(t('permissionRules.error.save'))
+        }
+    }
+
+    const handleDryRun = async () => {
+        const input = buildInput()
+        if (!input) return
+        try {
+            setDryRunResult(await props.onDryRun(input))
+        } catch {
+            setError(t('permissionRules.error.dryRun'))
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 px-3 py-3">
+            <Field label={t('permissionRules.field.name')}>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                    maxLength={255}
+                />
+            </Field>
+
+            <div className="flex gap-3">
+                <Field label={t('permissionRules.field.action')}>
+                    <select
+                        value={action}
+                        onChange={(e) => setAction(e.target.value as PermissionRuleAction)}
+                        className={inputClassName}
+                    >
+                        {PERMISSION_RULE_ACTIONS.map((value) => (
+                            <option key={value} value={value}>
+                                {t(`permissionRules.action.${value}`)}
+                            </option>
+                        ))}
+                    </select>
+                </Field>
+                <Field label={t('permissionRules.field.priority')}>
+                    <input
+                        type="number"
+                        value={priority}
+                        onChange={(e) => setPriority(e.target.value)}
+                        className={inputClassName}
+                    />
+                </Field>
+            </div>
+
+            <Field label={t('permissionRules.field.tool')} hint={t('permissionRules.hint.tool')}>
+                <input
+                    type="text"
+                    value={toolPattern}
+                    onChange={(e) => setToolPattern(e.target.value)}
+                    placeholder="Bash"
+                    className={inputClassName}
+                />
+            </Field>
+
+            <Field label={t('permissionRules.field.command')} hint={t('permissionRules.hint.command')}>
+                <input
+                    type="text"
+                    value={commandPattern}
+                    onChange={(e) => setCommandPattern(e.target.value)}
+                    placeholder="^git (status|diff)\b"
+                    className={`${inputClassName} font-mono`}
+                />
+            </Field>
+
+            <Field label={t('permissionRules.field.paths')} hint={t('permissionRules.hint.paths')}>
+                <textarea
+                    value={pathPatterns}
+                    onChange={(e) => setPathPatterns(e.target.value)}
+                    placeholder="src/**"
+                    rows={3}
+                    className={`${inputClassName} font-mono`}
+                />
+            </Field>
+
+            <Field label={t('permissionRules.field.flavors')} hint={t('permissionRules.hint.flavors')}>
+                <input
+                    type="text"
+                    value={flavors}
+                    onChange={(e) => setFlavors(e.target.value)}
+                    placeholder="claude, codex"
+                    className={inputClassName}
+                />
+            </Field>
+
+            <Field label={t('permissionRules.field.session')} hint={t('permissionRules.hint.session')}>
+                <input
+                    type="text"
+                    value={sessionId}
+                    onChange={(e) => setSessionId(e.target.value)}
+                    className={`${inputClassName} font-mono`}
+                />
+            </Field>
+
+            <label className="flex items-center gap-2 text-sm text-[var(--app-fg)]">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                />
+                {t('permissionRules.field.enabled')}
+            </label>
+
+            {error ? (
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                    {error}
+                </div>
+            ) : null}
+
+            <div className="flex gap-2 justify-end">
+                <Button type="button" variant="secondary" onClick={props.onCancel} disabled={props.isPending}>
+                    {t('button.cancel')}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleDryRun} disabled={props.isDryRunPending}>
+                    {props.isDryRunPending ? t('permissionRules.dryRun.running') : t('permissionRules.dryRun.button')}
+                </Button>
+                <Button type="submit" disabled={props.isPending || !name.trim()}>
+                    {t('button.save')}
+                </Button>
+            </div>
+
+            {dryRunResult ? (
+                <div className="flex flex-col gap-2">
+                    <div className="text-sm text-[var(--app-hint)]">
+                        {t('permissionRules.dryRun.summary', { n: dryRunResult.total })}
+                    </div>
+                    {dryRunResult.matches.map((match) => (
+                        <div
+                            key={`${match.sessionId}:${match.requestId}`}
+                            className="rounded-lg border border-[var(--app-border)] px-3 py-2 text-sm"
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium text-[var(--app-fg)]">{match.tool}</span>
+                                <span className="text-xs text-[var(--app-hint)]">
+                                    {t(`permissionRules.status.${match.status}`)}
+                                </span>
+                            </div>
+                            <div className="truncate font-mono text-xs text-[var(--app-hint)]">
+                                {summarizeArguments(match.arguments)}
+                            </div>
+                            <div className="text-xs text-[var(--app-hint)]">{match.sessionName}</div>
+                        </div>
+                    ))}
+                </div>
+            ) : null}
+        </form>
+    )
+}
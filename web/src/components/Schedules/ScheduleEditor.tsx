@@ -0,0 +1,286 @@
+import { useState } from 'react'
+import { SCHEDULE_MISSED_RUN_POLICIES, toAcpAgentFlavor } from '@hapi/protocol'
+import type {
+    Machine,
+    Schedule,
+    ScheduleInput,
+    ScheduleMissedRunPolicy,
+    ScheduleTarget,
+    SessionSummary
+} from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { useTranslation } from '@/lib/use-translation'
+
+type ScheduleAgent = NonNullable<ScheduleInput['agent']>
+
+type ScheduleEditorProps = {
+    schedule: Schedule | null
+    sessions: SessionSummary[]
+    machines: Machine[]
+    // Spawning new sessions is admin-only on the hub
+    canSpawn: boolean
+    onSave: (input: ScheduleInput) => Promise<void>
+    onCancel: () => void
+    isPending: boolean
+}
+
+const BUILTIN_AGENTS: ScheduleAgent[] = ['claude', 'codex', 'gemini', 'opencode']
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+function getSessionTitle(session: SessionSummary): string {
+    if (session.metadata?.name) {
+        return session.metadata.name
+    }
+    if (session.metadata?.summary?.text) {
+        return session.metadata.summary.text
+    }
+    if (session.metadata?.path) {
+        const parts = session.metadata.path.split('/').filter(Boolean)
+        return parts.length > 0 ? parts[parts.length - 1] : session.id.slice(0, 8)
+    }
+    return session.id.slice(0, 8)
+}
+
+function getMachineTitle(machine: Machine): string {
+    if (machine.metadata?.displayName) return machine.metadata.displayName
+    if (machine.metadata?.host) return machine.metadata.host
+    return machine.id.slice(0, 8)
+}
+
+function Field(props: { label: string; hint?: string; children: React.ReactNode }) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-sm text-[var(--app-fg)]">{props.label}</span>
+            {props.children}
+            {props.hint ? <span className="text-xs text-[var(--app-hint)]">{props.hint}</span> : null}
+        </label>
+    )
+}
+
+export function ScheduleEditor(props: ScheduleEditorProps) {
+    const { t } = useTranslation()
+    const { schedule } = props
+    const [name, setName] = useState(schedule?.name ?? '')
+    const [cron, setCron] = useState(schedule?.cron ?? '0 9 * * 1-5')
+    const [prompt, setPrompt] = useState(schedule?.prompt ?? '')
+    const [target, setTarget] = useState<ScheduleTarget>(schedule?.target ?? 'session')
+    const [sessionId, setSessionId] = useState(schedule?.sessionId ?? props.sessions[0]?.id ?? '')
+    const [machineId, setMachineId] = useState(schedule?.machineId ?? props.machines[0]?.id ?? '')
+    const [directory, setDirectory] = useState(schedule?.directory ?? '')
+    const [agent, setAgent] = useState<ScheduleAgent>(schedule?.agent ?? 'claude')
+    const [yolo, setYolo] = useState(schedule?.yolo ?? false)
+    const [missedRunPolicy, setMissedRunPolicy] = useState<ScheduleMissedRunPolicy>(schedule?.missedRunPolicy ?? 'skip')
+    const [enabled, setEnabled] = useState(schedule?.enabled ?? true)
+    const [error, setError] = useState<string | null>(null)
+
+    // Keep the current target selectable even if it is no longer listed (offline machine, archived session)
+    const hasCurrentSession = props.sessions.some((session) => session.id === sessionId)
+    const hasCurrentMachine = props.machines.some((machine) => machine.id === machineId)
+    // ACP agents come from the selected machine's settings
+    const acpAgents = props.machines.find((machine) => machine.id === machineId)?.metadata?.acpAgents ?? []
+    const agentOptions: { value: ScheduleAgent; label: string }[] = [
+        ...BUILTIN_AGENTS.map((value) => ({ value, label: value })),
+        ...acpAgents.map((acpAgent) => ({ value: toAcpAgentFlavor(acpAgent.name), label: acpAgent.displayName ?? acpAgent.name }))
+    ]
+    const hasCurrentAgent = agentOptions.some((option) => option.value === agent)
+
+    const buildInput = (): ScheduleInput | null => {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+            setError(t('schedules.error.nameRequired'))
+            return null
+        }
+        if (!prompt.trim()) {
+            setError(t('schedules.error.promptRequired'))
+            return null
+        }
+        if (target === 'session' && !sessionId) {
+            setError(t('schedules.error.sessionRequired'))
+            return null
+        }
+        if (target === 'spawn' && (!machineId || !directory.trim())) {
+            setError(t('schedules.error.spawnRequired'))
+            return null
+        }
+        setError(null)
+        return {
+            name: trimmedName,
+            cron: cron.trim(),
+            enabled,
+            target,
+            prompt,
+            sessionId: target === 'session' ? sessionId : null,
+            machineId: target === 'spawn' ? machineId : null,
+            directory: target === 'spawn' ? directory.trim() : null,
+            agent: target === 'spawn' ? agent : null,
+            yolo: target === 'spawn' ? yolo : false,
+            missedRunPolicy
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const input = buildInput()
+        if (!input) return
+        try {
+            await props.onSave(input)
+        } catch (err) {
+            const message = err instanceof Error ? err.message : ''
+            setError(message.includes('Invalid cron expression')
+                ? t('schedules.error.invalidCron')
+                : t('schedules.error.save'))
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 px-3 py-3">
+            <Field label={t('schedules.field.name')}>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                    maxLength={255}
+                />
+            </Field>
+
+            <Field label={t('schedules.field.cron')} hint={t('schedules.hint.cron')}>
+                <input
+                    type="text"
+                    value={cron}
+                    onChange={(e) => setCron(e.target.value)}
+                    placeholder="0 9 * * 1-5"
+                    className={`${inputClassName} font-mono`}
+                />
+            </Field>
+
+            <Field label={t('schedules.field.prompt')}>
+                <textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    rows={4}
+                    className={inputClassName}
+                />
+            </Field>
+
+            <Field label={t('schedules.field.target')}>
+                <select
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value as ScheduleTarget)}
+                    className={inputClassName}
+                >
+                    <option value="session">{t('schedules.target.session')}</option>
+                    {props.canSpawn || target === 'spawn' ? (
+                        <option value="spawn">{t('schedules.target.spawn')}</option>
+                    ) : null}
+                </select>
+            </Field>
+
+            {target === 'session' ? (
+                <Field label={t('schedules.field.session')} hint={t('schedules.hint.session')}>
+                    <select
+                        value={sessionId}
+                        onChange={(e) => setSessionId(e.target.value)}
+                        className={inputClassName}
+                    >
+                        {!hasCurrentSession ? (
+                            <option value={sessionId}>{sessionId ? sessionId.slice(0, 8) : '—'}</option>
+                        ) : null}
+                        {props.sessions.map((session) => (
+                            <option key={session.id} value={session.id}>
+                                {getSessionTitle(session)}
+                            </option>
+                        ))}
+                    </select>
+                </Field>
+            ) : (
+                <>
+                    <Field label={t('schedules.field.machine')}>
+                        <select
+                            value={machineId}
+                            onChange={(e) => setMachineId(e.target.value)}
+                            className={inputClassName}
+                        >
+                            {!hasCurrentMachine ? (
+                                <option value={machineId}>{machineId ? machineId.slice(0, 8) : '—'}</option>
+                            ) : null}
+                            {props.machines.map((machine) => (
+                                <option key={machine.id} value={machine.id}>
+                                    {getMachineTitle(machine)}
+                                </option>
+                            ))}
+                        </select>
+                    </Field>
+                    <Field label={t('schedules.field.directory')}>
+                        <input
+                            type="text"
+                            value={directory}
+                            onChange={(e) => setDirectory(e.target.value)}
+                            placeholder="/path/to/project"
+                            className={`${inputClassName} font-mono`}
+                        />
+                    </Field>
+                    <Field label={t('schedules.field.agent')}>
+                        <select
+                            value={agent}
+                            onChange={(e) => setAgent(e.target.value as ScheduleAgent)}
+                            className={inputClassName}
+                        >
+                            {!hasCurrentAgent ? <option value={agent}>{agent}</option> : null}
+                            {agentOptions.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </Field>
+                    <label className="flex items-center gap-2 text-sm text-[var(--app-fg)]">
+                        <input
+                            type="checkbox"
+                            checked={yolo}
+                            onChange={(e) => setYolo(e.target.checked)}
+                        />
+                        {t('schedules.field.yolo')}
+                    </label>
+                </>
+            )}
+
+            <Field label={t('schedules.field.missedRunPolicy')} hint={t(`schedules.hint.missedRunPolicy.${missedRunPolicy}`)}>
+                <select
+                    value={missedRunPolicy}
+                    onChange={(e) => setMissedRunPolicy(e.target.value as ScheduleMissedRunPolicy)}
+                    className={inputClassName}
+                >
+                    {SCHEDULE_MISSED_RUN_POLICIES.map((value) => (
+                        <option key={value} value={value}>
+                            {t(`schedules.missedRunPolicy.${value}`)}
+                        </option>
+                    ))}
+                </select>
+            </Field>
+
+            <label className="flex items-center gap-2 text-sm text-[var(--app-fg)]">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                />
+                {t('schedules.field.enabled')}
+            </label>
+
+            {error ? (
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                    {error}
+                </div>
+            ) : null}
+
+            <div className="flex gap-2 justify-end">
+                <Button type="button" variant="secondary" onClick={props.onCancel} disabled={props.isPending}>
+                    {t('button.cancel')}
+                </Button>
+                <Button type="submit" disabled={props.isPending || !name.trim()}>
+                    {t('button.save')}
+                </Button>
+            </div>
+        </form>
+    )
+}
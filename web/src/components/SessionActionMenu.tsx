@@ -18,9 +18,12 @@ type SessionActionMenuProps = {
     onDelete: () => void
     onResume?: () => void
     isResuming?: boolean
+    onHandoff?: () => void
     onFork?: () => void
     isForking?: boolean
     onNewSession?: () => void
+    onExport?: () => void
+    isExporting?: boolean
     anchorPoint: { x: number; y: number }
     menuId?: string
 }
@@ -132,6 +135,27 @@ function PlusIcon(props: { className?: string }) {
     )
 }
 
+function DownloadIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+            <polyline points="7 10 12 15 17 10" />
+            <line x1="12" y1="15" x2="12" y2="3" />
+        </svg>
+    )
+}
+
 function PlayIcon(props: { className?: string }) {
     return (
         <svg
@@ -151,6 +175,26 @@ function PlayIcon(props: { className?: string }) {
     )
 }
 
+function MoveIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <path d="M5 12h14" />
+            <path d="m12 5 7 7-7 7" />
+        </svg>
+    )
+}
+
 type MenuPosition = {
     top: number
     left: number
@@ -168,9 +212,12 @@ export function SessionActionMenu(props: SessionActionMenuProps) {
         onDelete,
         onResume,
         isResuming,
+        onHandoff,
         onFork,
         isForking,
         onNewSession,
+        onExport,
+        isExporting,
         anchorPoint,
         menuId
     } = props
@@ -201,6 +248,13 @@ export function SessionActionMenu(props: SessionActionMenuProps) {
         }
     }
 
+    const handleHandoff = () => {
+        onClose()
+        if (onHandoff) {
+            onHandoff()
+        }
+    }
+
     const handleFork = () => {
         if (onFork && !isForking) {
             onFork()
@@ -214,6 +268,12 @@ export function SessionActionMenu(props: SessionActionMenuProps) {
         }
     }
 
+    const handleExport = () => {
+        if (onExport && !isExporting) {
+            onExport()
+        }
+    }
+
     const updatePosition = useCallback(() => {
         const menuEl = menuRef.current
         if (!menuEl) return
@@ -343,6 +403,18 @@ export function SessionActionMenu(props: SessionActionMenuProps) {
                     </button>
                 ) : null}
 
+                {!sessionActive && onHandoff ? (
+                    <button
+                        type="button"
+                        role="menuitem"
+                        className={`${baseItemClassName} hover:bg-[var(--app-subtle-bg)]`}
+                        onClick={handleHandoff}
+                    >
+                        <MoveIcon className="text-[var(--app-hint)]" />
+                        {t('session.action.handoff')}
+                    </button>
+                ) : null}
+
                 {onFork ? (
                     <button
                         type="button"
@@ -368,6 +440,19 @@ export function SessionActionMenu(props: SessionActionMenuProps) {
                     </button>
                 ) : null}
 
+                {onExport ? (
+                    <button
+                        type="button"
+                        role="menuitem"
+                        className={`${baseItemClassName} hover:bg-[var(--app-subtle-bg)]`}
+                        onClick={handleExport}
+                        disabled={isExporting}
+                    >
+                        <DownloadIcon className="text-[var(--app-hint)]" />
+                        {isExporting ? t('session.action.exporting') : t('session.action.export')}
+                    </button>
+                ) : null}
+
                 {sessionActive ? (
                     <button
                         type="button"
@@ -2,7 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useNavigate } from '@tanstack/react-router'
 import { AssistantRuntimeProvider } from '@assistant-ui/react'
 import type { ApiClient } from '@/api/client'
-import type { AttachmentMetadata, DecryptedMessage, ModelMode, PermissionMode, Session } from '@/types/api'
+import type { AttachmentMetadata, AuditOrigin, DecryptedMessage, ModelMode, PermissionMode, Session } from '@/types/api'
 import type { ChatBlock, NormalizedMessage } from '@/chat/types'
 import type { Suggestion } from '@/hooks/useActiveSuggestions'
 import { normalizeDecryptedMessage } from '@/chat/normalize'
@@ -10,14 +10,46 @@ import { reduceChatBlocks } from '@/chat/reducer'
 import { reconcileChatBlocks } from '@/chat/reconcile'
 import { HappyComposer } from '@/components/AssistantChat/HappyComposer'
 import { HappyThread } from '@/components/AssistantChat/HappyThread'
+import { QueuedPrompts } from '@/components/AssistantChat/QueuedPrompts'
 import { useHappyRuntime } from '@/lib/assistant-runtime'
 import { createAttachmentAdapter } from '@/lib/attachmentAdapter'
 import { SessionHeader } from '@/components/SessionHeader'
 import { usePlatform } from '@/hooks/usePlatform'
+import { useQueueActions } from '@/hooks/mutations/useQueueActions'
 import { useSessionActions } from '@/hooks/mutations/useSessionActions'
 import { useVoiceOptional } from '@/lib/voice-context'
 import { RealtimeVoiceSession, registerSessionStore, registerVoiceHooksStore, voiceHooks } from '@/realtime'
 
+function getMessageBlockIds(message: NormalizedMessage): string[] {
+    const ids = [message.id]
+    if (message.role === 'agent') {
+        for (const item of message.content) {
+            if (item.type === 'tool-call') ids.push(item.id)
+            if (item.type === 'tool-result') ids.push(item.tool_use_id)
+        }
+    }
+    return ids
+}
+
+// Finds the rendered block that represents the message with the given seq
+function findBlockIdForSeq(
+    seq: number,
+    messages: DecryptedMessage[],
+    normalizedMessages: NormalizedMessage[],
+    blocks: ChatBlock[]
+): string | null {
+    const message = messages.find((m) => m.seq === seq)
+    if (!message) return null
+    const normalized = normalizedMessages.find((m) => m.id === message.id)
+    const candidates = normalized ? getMessageBlockIds(normalized) : [message.id]
+    for (const block of blocks) {
+        if (candidates.some((id) => block.id === id || block.id.startsWith(`${id}:`))) {
+            return block.id
+        }
+    }
+    return null
+}
+
 export function SessionChat(props: {
     api: ApiClient
     session: Session
@@ -32,11 +64,14 @@ export function SessionChat(props: {
     onBack: () => void
     onRefresh: () => void
     onLoadMore: () => Promise<unknown>
-    onSend: (text: string, attachments?: AttachmentMetadata[]) => void
+    onSend: (text: string, attachments?: AttachmentMetadata[], origin?: AuditOrigin) => void
     onFlushPending: () => void
     onAtBottomChange: (atBottom: boolean) => void
     onRetryMessage?: (localId: string) => void
     autocompleteSuggestions?: (query: string) => Promise<Suggestion[]>
+    targetSeq?: number | null
+    // Viewers can read the conversation but not send or answer permission requests
+    readOnly?: boolean
 }) {
     const { haptic } = usePlatform()
     const navigate = useNavigate()
@@ -50,21 +85,24 @@ export function SessionChat(props: {
         props.session.id,
         agentFlavor
     )
+    const queueActions = useQueueActions(props.api, props.session.id)
+    const queue = props.session.active ? props.session.agentState?.queue : null
 
     // Voice assistant integration
     const voice = useVoiceOptional()
 
-    // Register session store for voice client tools
+    // Register session store for voice client tools; actions are tagged as voice in the audit log
     useEffect(() => {
+        const voiceApi = props.api.withOrigin('voice')
         registerSessionStore({
             getSession: () => props.session as { agentState?: { requests?: Record<string, unknown> } } | null,
-            sendMessage: (_sessionId: string, message: string) => props.onSend(message),
+            sendMessage: (_sessionId: string, message: string) => props.onSend(message, undefined, 'voice'),
             approvePermission: async (_sessionId: string, requestId: string) => {
-                await props.api.approvePermission(props.session.id, requestId)
+                await voiceApi.approvePermission(props.session.id, requestId)
                 props.onRefresh()
             },
             denyPermission: async (_sessionId: string, requestId: string) => {
-                await props.api.denyPermission(props.session.id, requestId)
+                await voiceApi.denyPermission(props.session.id, requestId)
                 props.onRefresh()
             }
         })
@@ -192,6 +230,11 @@ export function SessionChat(props: {
         blocksByIdRef.current = reconciled.byId
     }, [reconciled.byId])
 
+    const targetBlockId = useMemo(() => {
+        if (props.targetSeq === undefined || props.targetSeq === null) return null
+        return findBlockIdForSeq(props.targetSeq, props.messages, normalizedMessages, reconciled.blocks)
+    }, [props.targetSeq, props.messages, normalizedMessages, reconciled.blocks])
+
     // Permission mode change handler
     const handlePermissionModeChange = useCallback(async (mode: PermissionMode) => {
         try {
@@ -205,9 +248,9 @@ export function SessionChat(props: {
     }, [setPermissionMode, props.onRefresh, haptic])
 
     // Model mode change handler
-    const handleModelModeChange = useCallback(async (mode: ModelMode) => {
+    const handleModelModeChange = useCallback(async (model: ModelMode, reasoningEffort?: string | null) => {
         try {
-            await setModelMode(mode)
+            await setModelMode({ model, reasoningEffort })
             haptic.notification('success')
             props.onRefresh()
         } catch (e) {
@@ -295,7 +338,7 @@ export function SessionChat(props: {
                         api={props.api}
                         sessionId={props.session.id}
                         metadata={props.session.metadata}
-                        disabled={sessionInactive}
+                        disabled={sessionInactive || props.readOnly === true}
                         onRefresh={props.onRefresh}
                         onRetryMessage={props.onRetryMessage}
                         onFlushPending={props.onFlushPending}
@@ -310,12 +353,15 @@ export function SessionChat(props: {
                         normalizedMessagesCount={normalizedMessages.length}
                         messagesVersion={props.messagesVersion}
                         forceScrollToken={forceScrollToken}
+                        scrollToBlockId={targetBlockId}
                     />
 
                     <HappyComposer
-                        disabled={props.isSending}
+                        disabled={props.isSending || props.readOnly === true}
                         permissionMode={props.session.permissionMode}
                         modelMode={props.session.modelMode}
+                        reasoningEffort={props.session.reasoningEffort}
+                        modelCatalog={props.session.metadata?.modelCatalog}
                         agentFlavor={agentFlavor}
                         active={props.session.active}
                         allowSendWhenInactive
@@ -326,8 +372,20 @@ export function SessionChat(props: {
                         onPermissionModeChange={handlePermissionModeChange}
                         onModelModeChange={handleModelModeChange}
                         onSwitchToRemote={handleSwitchToRemote}
-                        onTerminal={props.session.active ? handleViewTerminal : undefined}
+                        onTerminal={props.session.active && props.readOnly !== true ? handleViewTerminal : undefined}
                         autocompleteSuggestions={props.autocompleteSuggestions}
+                        queuedPrompts={queue && queue.prompts.length > 0 ? (
+                            <QueuedPrompts
+                                queue={queue}
+                                readOnly={props.readOnly}
+                                isPending={queueActions.isPending}
+                                onEdit={queueActions.editPrompt}
+                                onDelete={queueActions.deletePrompt}
+                                onReorder={queueActions.reorderPrompts}
+                                onSendNow={queueActions.sendPromptNow}
+                                onMergeChange={queueActions.setMerge}
+                            />
+                        ) : undefined}
                         voiceStatus={voice?.status}
                         voiceMicMuted={voice?.micMuted}
                         onVoiceToggle={voice ? handleVoiceToggle : undefined}
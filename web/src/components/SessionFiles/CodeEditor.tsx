@@ -0,0 +1,51 @@
+import { useLiveShikiHighlighter } from '@/lib/shiki'
+
+type CodeEditorProps = {
+    value: string
+    language?: string
+    onChange: (value: string) => void
+    onSave?: () => void
+    disabled?: boolean
+}
+
+// Shared by the highlighted layer and the textarea so glyphs line up exactly
+const layerClassName = 'col-start-1 row-start-1 m-0 whitespace-pre p-3 font-mono text-xs leading-5 [tab-size:4]'
+
+/**
+ * Plain textarea laid over a Shiki rendering of the same text. The textarea
+ * keeps native editing (selection, IME, undo, mobile keyboards); only its
+ * caret is visible, the colors come from the layer beneath.
+ */
+export function CodeEditor(props: CodeEditorProps) {
+    const highlighted = useLiveShikiHighlighter(props.value, props.language)
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 's') {
+            event.preventDefault()
+            props.onSave?.()
+        }
+    }
+
+    return (
+        <div className="overflow-auto rounded-md border border-[var(--app-border)] bg-[var(--app-code-bg)]">
+            <div className="grid min-w-full w-max">
+                <pre aria-hidden="true" className={`shiki pointer-events-none ${layerClassName}`}>
+                    {/* A trailing newline needs a following character to take up a line */}
+                    <code>{highlighted ?? props.value}{'\n '}</code>
+                </pre>
+                <textarea
+                    value={props.value}
+                    onChange={(event) => props.onChange(event.target.value)}
+                    onKeyDown={handleKeyDown}
+                    disabled={props.disabled}
+                    wrap="off"
+                    spellCheck={false}
+                    autoCapitalize="none"
+                    autoCorrect="off"
+                    aria-label="File content"
+                    className={`${layerClassName} resize-none overflow-hidden bg-transparent text-transparent caret-[var(--app-fg)] focus:outline-none selection:bg-[var(--app-link)]/30`}
+                />
+            </div>
+        </div>
+    )
+}
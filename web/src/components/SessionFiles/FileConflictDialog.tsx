@@ -0,0 +1,72 @@
+import { DiffView } from '@/components/DiffView'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+type FileConflictDialogProps = {
+    open: boolean
+    filePath: string
+    mine: string
+    // Content saved in the meantime; null when the file was deleted
+    theirs: string | null
+    // Result of replaying my edits onto theirs; null when they overlap
+    merged: string | null
+    isPending: boolean
+    error: string | null
+    onKeepMine: () => void
+    onUseTheirs: () => void
+    onUseMerged: () => void
+    onClose: () => void
+}
+
+/**
+ * Shown when a save finds the file changed on disk since it was opened.
+ * The diff reads from their version to mine, so it shows exactly what
+ * "Keep mine" would overwrite.
+ */
+export function FileConflictDialog(props: FileConflictDialogProps) {
+    const deleted = props.theirs === null
+
+    return (
+        <Dialog open={props.open} onOpenChange={(open) => !open && props.onClose()}>
+            <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>File changed on disk</DialogTitle>
+                    <DialogDescription className="mt-2">
+                        {deleted
+                            ? `${props.filePath} was deleted while you were editing it.`
+                            : props.merged !== null
+                                ? `${props.filePath} was changed while you were editing it. Your edits do not overlap and can be applied on top.`
+                                : `${props.filePath} was changed while you were editing it, on the same lines as your edits.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!deleted ? (
+                    <div className="mt-3 min-h-0 flex-1 overflow-auto">
+                        <div className="mb-1 text-xs text-[var(--app-hint)]">Theirs → mine</div>
+                        <DiffView oldString={props.theirs ?? ''} newString={props.mine} filePath={props.filePath} variant="inline" />
+                    </div>
+                ) : null}
+
+                {props.error ? (
+                    <div className="mt-3 rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                        {props.error}
+                    </div>
+                ) : null}
+
+                <div className="mt-4 flex flex-wrap gap-2 justify-end">
+                    <Button type="button" variant="secondary" onClick={props.onUseTheirs} disabled={props.isPending || deleted}>
+                        Use theirs
+                    </Button>
+                    {props.merged !== null && !deleted ? (
+                        <Button type="button" variant="secondary" onClick={props.onUseMerged} disabled={props.isPending}>
+                            Apply my edits to theirs
+                        </Button>
+                    ) : null}
+                    <Button type="button" variant="destructive" onClick={props.onKeepMine} disabled={props.isPending}>
+                        {props.isPending ? 'Saving…' : deleted ? 'Recreate with mine' : 'Overwrite with mine'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react'
+import type { GitBranch } from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+type GitBranchDialogProps = {
+    open: boolean
+    branches: GitBranch[]
+    isLoading: boolean
+    loadError: string | null
+    onClose: () => void
+    onSwitch: (name: string) => Promise<void>
+    onCreate: (name: string) => Promise<void>
+}
+
+export function GitBranchDialog(props: GitBranchDialogProps) {
+    const [name, setName] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [isPending, setIsPending] = useState(false)
+
+    useEffect(() => {
+        if (props.open) {
+            setName('')
+            setError(null)
+        }
+    }, [props.open])
+
+    const run = async (action: () => Promise<void>) => {
+        setIsPending(true)
+        setError(null)
+        try {
+            await action()
+            props.onClose()
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Git command failed')
+        } finally {
+            setIsPending(false)
+        }
+    }
+
+    const trimmed = name.trim()
+
+    return (
+        <Dialog open={props.open} onOpenChange={(open) => !open && props.onClose()}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Branches</DialogTitle>
+                    <DialogDescription className="mt-2">
+                        Switching keeps uncommitted changes; git refuses if they would be overwritten.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="mt-3 max-h-64 overflow-y-auto rounded-md border border-[var(--app-border)]">
+                    {props.isLoading ? (
+                        <div className="p-3 text-sm text-[var(--app-hint)]">Loading branches…</div>
+                    ) : props.loadError ? (
+                        <div className="p-3 text-sm text-[var(--app-hint)]">{props.loadError}</div>
+                    ) : props.branches.length === 0 ? (
+                        <div className="p-3 text-sm text-[var(--app-hint)]">No branches yet.</div>
+                    ) : props.branches.map((branch) => (
+                        <button
+                            key={branch.name}
+                            type="button"
+                            disabled={branch.current || isPending}
+                            onClick={() => void run(() => props.onSwitch(branch.name))}
+                            className="flex w-full items-center gap-2 border-b border-[var(--app-divider)] px-3 py-2 text-left text-sm last:border-b-0 hover:bg-[var(--app-subtle-bg)] disabled:hover:bg-transparent"
+                        >
+                            <span className={`min-w-0 flex-1 truncate font-mono ${branch.current ? 'font-semibold' : ''}`}>
+                                {branch.current ? '● ' : ''}{branch.name}
+                            </span>
+                            {branch.ahead ? <span className="text-xs text-[var(--app-hint)]">↑{branch.ahead}</span> : null}
+                            {branch.behind ? <span className="text-xs text-[var(--app-hint)]">↓{branch.behind}</span> : null}
+                            {branch.upstreamGone ? <span className="text-xs text-[var(--app-hint)]">gone</span> : null}
+                        </button>
+                    ))}
+                </div>
+                <form
+                    onSubmit={(event) => {
+                        event.preventDefault()
+                        if (trimmed) void run(() => props.onCreate(trimmed))
+                    }}
+                    className="mt-3 flex gap-2"
+                >
+                    <input
+                        value={name}
+                        onChange={(event) => setName(event.target.value)}
+                        placeholder="new-branch-name"
+                        autoCapitalize="none"
+                        autoCorrect="off"
+                        spellCheck={false}
+                        className="min-w-0 flex-1 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] px-3 py-2 font-mono text-sm text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)]"
+                    />
+                    <Button type="submit" disabled={isPending || !trimmed}>
+                        Create
+                    </Button>
+                </form>
+                {error ? (
+                    <div className="mt-3 whitespace-pre-wrap rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                        {error}
+                    </div>
+                ) : null}
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react'
+import type { ApiClient } from '@/api/client'
+import { Button } from '@/components/ui/button'
+import { makeClientSideId } from '@/lib/messages'
+import { COMMIT_DRAFT_PROMPT, extractCommitDraft } from './commitDraft'
+
+type GitCommitPanelProps = {
+    api: ApiClient | null
+    sessionId: string
+    stagedCount: number
+    // The agent is mid-turn; drafting waits for the turn to finish
+    thinking: boolean
+    isPending: boolean
+    onCommit: (message: string, amend: boolean) => Promise<void>
+}
+
+type DraftRequest = {
+    localId: string
+    started: boolean
+}
+
+export function GitCommitPanel(props: GitCommitPanelProps) {
+    const { api, sessionId, thinking } = props
+    const [message, setMessage] = useState('')
+    const [amend, setAmend] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [draftRequest, setDraftRequest] = useState<DraftRequest | null>(null)
+
+    useEffect(() => {
+        if (!draftRequest || !api) return
+        if (thinking) {
+            if (!draftRequest.started) {
+                setDraftRequest({ ...draftRequest, started: true })
+            }
+            return
+        }
+        if (!draftRequest.started) return
+
+        // The turn that answered the request is over; read its reply
+        let cancelled = false
+        api.getMessages(sessionId, { limit: 50 })
+            .then((response) => {
+                if (cancelled) return
+                const draft = extractCommitDraft(response.messages, draftRequest.localId)
+                if (draft) {
+                    setMessage(draft)
+                } else {
+                    setError('The agent did not reply with a commit message.')
+                }
+            })
+            .catch((e) => {
+                if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to read the reply')
+            })
+            .finally(() => {
+                if (!cancelled) setDraftRequest(null)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [api, draftRequest, sessionId, thinking])
+
+    const handleDraft = async () => {
+        if (!api || draftRequest) return
+        const localId = makeClientSideId('commit-draft')
+        setError(null)
+        setDraftRequest({ localId, started: false })
+        try {
+            await api.sendMessage(sessionId, COMMIT_DRAFT_PROMPT, localId)
+        } catch (e) {
+            setDraftRequest(null)
+            setError(e instanceof Error ? e.message : 'Failed to ask the agent')
+        }
+    }
+
+    const trimmed = message.trim()
+    const canCommit = !props.isPending && !draftRequest && (amend || (trimmed.length > 0 && props.stagedCount > 0))
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault()
+        if (!canCommit) return
+        setError(null)
+        try {
+            await props.onCommit(trimmed, amend)
+            setMessage('')
+            setAmend(false)
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Commit failed')
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2 px-3 py-2 border-b border-[var(--app-divider)]">
+            <textarea
+                value={message}
+                onChange={(event) => setMessage(event.target.value)}
+                placeholder={amend ? 'Leave empty to keep the previous message' : 'Commit message'}
+                rows={message.includes('\n') ? 4 : 2}
+                disabled={Boolean(draftRequest)}
+                className="w-full resize-y rounded-md border border-[var(--app-border)] bg-[var(--app-bg)] px-2 py-1.5 text-sm text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)]"
+                onKeyDown={(event) => {
+                    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+                        event.preventDefault()
+                        void handleSubmit(event)
+                    }
+                }}
+            />
+            {error ? (
+                <div className="whitespace-pre-wrap rounded-md bg-red-50 p-2 text-xs text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                    {error}
+                </div>
+            ) : null}
+            <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1.5 text-xs text-[var(--app-hint)]">
+                    <input type="checkbox" checked={amend} onChange={(event) => setAmend(event.target.checked)} />
+                    Amend last commit
+                </label>
+                <div className="flex-1" />
+                <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => void handleDraft()}
+                    disabled={Boolean(draftRequest) || props.stagedCount === 0}
+                    title="Ask the session's agent to draft a message for the staged changes"
+                >
+                    {draftRequest ? 'Drafting…' : 'Draft with agent'}
+                </Button>
+                <Button type="submit" size="sm" disabled={!canCommit}>
+                    {props.isPending ? 'Working…' : amend ? 'Amend' : 'Commit'}
+                </Button>
+            </div>
+        </form>
+    )
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+type NewFileDialogProps = {
+    open: boolean
+    initialPath?: string
+    onClose: () => void
+    // Resolves to an error message, or null once the file exists
+    onCreate: (path: string) => Promise<string | null>
+}
+
+export function NewFileDialog(props: NewFileDialogProps) {
+    const [path, setPath] = useState(props.initialPath ?? '')
+    const [error, setError] = useState<string | null>(null)
+    const [isPending, setIsPending] = useState(false)
+
+    useEffect(() => {
+        if (props.open) {
+            setPath(props.initialPath ?? '')
+            setError(null)
+        }
+    }, [props.open, props.initialPath])
+
+    const trimmed = path.trim().replace(/^\.?\/+/, '')
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault()
+        if (!trimmed || trimmed.endsWith('/')) {
+            setError('Enter a file name')
+            return
+        }
+        setIsPending(true)
+        try {
+            const message = await props.onCreate(trimmed)
+            setError(message)
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to create file')
+        } finally {
+            setIsPending(false)
+        }
+    }
+
+    return (
+        <Dialog open={props.open} onOpenChange={(open) => !open && props.onClose()}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>New file</DialogTitle>
+                    <DialogDescription className="mt-2">
+                        Path relative to the session directory. Missing folders are created.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="mt-3 flex flex-col gap-3">
+                    <input
+                        value={path}
+                        onChange={(event) => setPath(event.target.value)}
+                        placeholder="src/notes.md"
+                        autoFocus
+                        autoCapitalize="none"
+                        autoCorrect="off"
+                        spellCheck={false}
+                        className="w-full rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] px-3 py-2 font-mono text-sm text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)]"
+                    />
+                    {error ? (
+                        <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                            {error}
+                        </div>
+                    ) : null}
+                    <div className="flex gap-2 justify-end">
+                        <Button type="button" variant="secondary" onClick={props.onClose} disabled={isPending}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isPending || !trimmed}>
+                            {isPending ? 'Creating…' : 'Create'}
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import type { DecryptedMessage } from '@/types/api'
+import { extractCommitDraft } from './commitDraft'
+
+function userMessage(seq: number, text: string, localId: string | null): DecryptedMessage {
+    return { id: `m${seq}`, seq, localId, createdAt: seq, content: { role: 'user', content: { type: 'text', text } } }
+}
+
+function agentMessage(seq: number, text: string): DecryptedMessage {
+    return {
+        id: `m${seq}`,
+        seq,
+        localId: null,
+        createdAt: seq,
+        content: { role: 'agent', content: { type: 'codex', data: { type: 'message', message: text } } }
+    }
+}
+
+describe('extractCommitDraft', () => {
+    it('returns the last agent reply after the request', () => {
+        const messages = [
+            agentMessage(1, 'Earlier reply'),
+            userMessage(2, 'Write a commit message', 'draft-1'),
+            agentMessage(3, 'Looking at the staged diff.'),
+            agentMessage(4, '```\nFix login redirect\n\nKeep the return path.\n```')
+        ]
+        expect(extractCommitDraft(messages, 'draft-1')).toBe('Fix login redirect\n\nKeep the return path.')
+    })
+
+    it('waits for the request and a reply', () => {
+        expect(extractCommitDraft([agentMessage(1, 'Earlier reply')], 'draft-1')).toBeNull()
+        expect(extractCommitDraft([userMessage(1, 'Write a commit message', 'draft-1')], 'draft-1')).toBeNull()
+    })
+})
@@ -0,0 +1,40 @@
+import type { DecryptedMessage } from '@/types/api'
+import { normalizeDecryptedMessage } from '@/chat/normalize'
+import { mergeMessages } from '@/lib/messages'
+
+export const COMMIT_DRAFT_PROMPT = [
+    'Write a git commit message for the currently staged changes (`git diff --cached`).',
+    'Reply with only the commit message: a short summary line, then optionally a blank line and a body.',
+    'Do not run `git commit` yourself.'
+].join(' ')
+
+function stripCodeFence(text: string): string {
+    const fenced = /^```[^\n]*\n([\s\S]*?)\n```$/.exec(text)
+    return fenced ? fenced[1].trim() : text
+}
+
+/**
+ * The agent's last text reply after the draft request with this localId,
+ * or null while it has not answered.
+ */
+export function extractCommitDraft(messages: DecryptedMessage[], localId: string): string | null {
+    const sorted = mergeMessages([], messages)
+    const requestIndex = sorted.findIndex((message) => message.localId === localId)
+    if (requestIndex === -1) {
+        return null
+    }
+
+    let draft: string | null = null
+    for (const message of sorted.slice(requestIndex + 1)) {
+        const normalized = normalizeDecryptedMessage(message)
+        if (!normalized || normalized.role !== 'agent' || normalized.isSidechain) {
+            continue
+        }
+        for (const content of normalized.content) {
+            if (content.type === 'text' && content.text.trim()) {
+                draft = content.text.trim()
+            }
+        }
+    }
+    return draft === null ? null : stripCodeFence(draft)
+}
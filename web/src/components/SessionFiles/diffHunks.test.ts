@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { splitDiffHunks } from './diffHunks'
+
+const diff = [
+    'diff --git a/notes.md b/notes.md',
+    'index 1111111..2222222 100644',
+    '--- a/notes.md',
+    '+++ b/notes.md',
+    '@@ -1,2 +1,2 @@',
+    '-one',
+    '+ONE',
+    ' two',
+    '@@ -9,2 +9,2 @@',
+    ' nine',
+    '-ten',
+    '+TEN',
+    '\\ No newline at end of file',
+    ''
+].join('\n')
+
+describe('splitDiffHunks', () => {
+    it('builds a standalone patch for each hunk', () => {
+        const parsed = splitDiffHunks(diff)
+        expect(parsed.headerLines).toHaveLength(4)
+        expect(parsed.hunks.map((hunk) => hunk.header)).toEqual(['@@ -1,2 +1,2 @@', '@@ -9,2 +9,2 @@'])
+        expect(parsed.hunks[1].patch).toBe([
+            'diff --git a/notes.md b/notes.md',
+            'index 1111111..2222222 100644',
+            '--- a/notes.md',
+            '+++ b/notes.md',
+            '@@ -9,2 +9,2 @@',
+            ' nine',
+            '-ten',
+            '+TEN',
+            '\\ No newline at end of file',
+            ''
+        ].join('\n'))
+    })
+
+    it('leaves binary diffs without patches', () => {
+        const parsed = splitDiffHunks('diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n')
+        expect(parsed.hunks).toEqual([])
+        expect(parsed.headerLines).toHaveLength(2)
+    })
+})
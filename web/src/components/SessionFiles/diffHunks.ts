@@ -0,0 +1,45 @@
+export type DiffHunk = {
+    // The "@@ -a,b +c,d @@" line
+    header: string
+    lines: string[]
+    // File header plus this hunk alone, ready for `git apply`
+    patch: string
+}
+
+export type ParsedFileDiff = {
+    headerLines: string[]
+    hunks: DiffHunk[]
+}
+
+/**
+ * Splits a single-file unified diff from `git diff` into hunks that can be
+ * staged, unstaged or discarded one at a time.
+ */
+export function splitDiffHunks(diff: string): ParsedFileDiff {
+    const lines = diff.split('\n')
+    if (lines[lines.length - 1] === '') {
+        lines.pop()
+    }
+
+    const headerLines: string[] = []
+    const hunks: Array<{ header: string; lines: string[] }> = []
+    for (const line of lines) {
+        if (line.startsWith('@@')) {
+            hunks.push({ header: line, lines: [] })
+        } else if (hunks.length === 0) {
+            headerLines.push(line)
+        } else {
+            hunks[hunks.length - 1].lines.push(line)
+        }
+    }
+
+    // Binary and mode-only diffs have no ---/+++ headers and cannot be applied by hunk
+    const applicable = headerLines.some((line) => line.startsWith('+++ '))
+    return {
+        headerLines,
+        hunks: hunks.map((hunk) => ({
+            ...hunk,
+            patch: applicable ? [...headerLines, hunk.header, ...hunk.lines, ''].join('\n') : ''
+        }))
+    }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { mergeFileEdits } from './fileMerge'
+
+const base = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', ''].join('\n')
+
+function replaceLine(text: string, from: string, to: string): string {
+    return text.split('\n').map((line) => (line === from ? to : line)).join('\n')
+}
+
+describe('mergeFileEdits', () => {
+    it('applies my edits on top of unrelated changes', () => {
+        const mine = replaceLine(base, 'two', 'TWO')
+        const theirs = replaceLine(base, 'nine', 'NINE')
+        expect(mergeFileEdits(base, mine, theirs)).toBe(replaceLine(mine, 'nine', 'NINE'))
+    })
+
+    it('returns null when both sides changed the same lines', () => {
+        const mine = replaceLine(base, 'five', 'mine')
+        const theirs = replaceLine(base, 'five', 'theirs')
+        expect(mergeFileEdits(base, mine, theirs)).toBeNull()
+    })
+
+    it('short-circuits when only one side changed', () => {
+        const changed = replaceLine(base, 'one', 'ONE')
+        expect(mergeFileEdits(base, base, changed)).toBe(changed)
+        expect(mergeFileEdits(base, changed, base)).toBe(changed)
+        expect(mergeFileEdits(base, changed, changed)).toBe(changed)
+    })
+})
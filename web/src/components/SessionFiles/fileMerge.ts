@@ -0,0 +1,19 @@
+import { applyPatch, structuredPatch } from 'diff'
+
+/**
+ * Replays the edits made between base and mine on top of theirs, the version
+ * that was saved in the meantime. Returns null when a hunk no longer applies,
+ * i.e. both sides changed the same lines and someone has to choose.
+ */
+export function mergeFileEdits(base: string, mine: string, theirs: string): string | null {
+    if (mine === base || mine === theirs) {
+        return theirs
+    }
+    if (theirs === base) {
+        return mine
+    }
+
+    const patch = structuredPatch('file', 'file', base, mine, '', '', { context: 2 })
+    const merged = applyPatch(theirs, patch)
+    return merged === false ? null : merged
+}
@@ -6,7 +6,9 @@ import { useSessionActions } from '@/hooks/mutations/useSessionActions'
 import { useForkSession } from '@/hooks/mutations/useForkSession'
 import { SessionActionMenu } from '@/components/SessionActionMenu'
 import { RenameSessionDialog } from '@/components/RenameSessionDialog'
+import { SessionUsageSummary } from '@/components/Usage/SessionUsageSummary'
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+import { useToast } from '@/lib/toast-context'
 import { useTranslation } from '@/lib/use-translation'
 
 function getSessionTitle(session: Session): string {
@@ -88,6 +90,8 @@ export function SessionHeader(props: {
         session.metadata?.flavor ?? null
     )
     const { forkSession, isPending: isForking } = useForkSession(api, session.id)
+    const { addToast } = useToast()
+    const [isExporting, setIsExporting] = useState(false)
 
     const handleFork = async () => {
         try {
@@ -99,6 +103,31 @@ export function SessionHeader(props: {
         }
     }
 
+    // Downloads the self-contained HTML transcript
+    const handleExport = async () => {
+        if (!api) return
+        setIsExporting(true)
+        try {
+            const { blob, filename } = await api.exportSession(session.id, 'html')
+            const url = URL.createObjectURL(blob)
+            const link = document.createElement('a')
+            link.href = url
+            link.download = filename
+            link.click()
+            setTimeout(() => URL.revokeObjectURL(url), 0)
+            setMenuOpen(false)
+        } catch (error) {
+            addToast({
+                title: t('session.action.exportFailed'),
+                body: error instanceof Error ? error.message : '',
+                sessionId: session.id,
+                url: ''
+            })
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
     const handleNewSession = () => {
         setMenuOpen(false)
         onNewSession?.()
@@ -163,6 +192,7 @@ export function SessionHeader(props: {
                             {worktreeBranch ? (
                                 <span>{t('session.item.worktree')}: {worktreeBranch}</span>
                             ) : null}
+                            <SessionUsageSummary api={api} sessionId={session.id} thinking={session.thinking} />
                         </div>
                     </div>
 
@@ -203,6 +233,8 @@ export function SessionHeader(props: {
                 onFork={handleFork}
                 isForking={isForking}
                 onNewSession={onNewSession ? handleNewSession : undefined}
+                onExport={api ? handleExport : undefined}
+                isExporting={isExporting}
                 anchorPoint={menuAnchorPoint}
                 menuId={menuId}
             />
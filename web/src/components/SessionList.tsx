@@ -1,4 +1,5 @@
 import { useEffect, useMemo, useState } from 'react'
+import { hasUserRole } from '@hapi/protocol'
 import type { SessionSummary } from '@/types/api'
 import type { ApiClient } from '@/api/client'
 import { useLongPress } from '@/hooks/useLongPress'
@@ -6,10 +7,13 @@ import { usePlatform } from '@/hooks/usePlatform'
 import { useSessionActions } from '@/hooks/mutations/useSessionActions'
 import { useResumeSession } from '@/hooks/mutations/useResumeSession'
 import { useForkSession } from '@/hooks/mutations/useForkSession'
+import { useHandoffSession } from '@/hooks/mutations/useHandoffSession'
 import { SessionActionMenu } from '@/components/SessionActionMenu'
 import { RenameSessionDialog } from '@/components/RenameSessionDialog'
+import { HandoffSessionDialog } from '@/components/HandoffSessionDialog'
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { useTranslation } from '@/lib/use-translation'
+import { useAppContext } from '@/lib/app-context'
 
 type SessionGroup = {
     directory: string
@@ -180,6 +184,8 @@ function SessionItem(props: {
     const [renameOpen, setRenameOpen] = useState(false)
     const [archiveOpen, setArchiveOpen] = useState(false)
     const [deleteOpen, setDeleteOpen] = useState(false)
+    const [handoffOpen, setHandoffOpen] = useState(false)
+    const { role } = useAppContext()
 
     const { archiveSession, renameSession, deleteSession, isPending } = useSessionActions(
         api,
@@ -189,6 +195,7 @@ function SessionItem(props: {
 
     const { resumeSession, isPending: isResuming } = useResumeSession(api, s.id)
     const { forkSession, isPending: isForking } = useForkSession(api, s.id)
+    const { handoffSession, isPending: isHandingOff } = useHandoffSession(api, s.id)
 
     const handleFork = async () => {
         try {
@@ -214,6 +221,15 @@ function SessionItem(props: {
         }
     }
 
+    const handleHandoff = async (machineId: string, directory: string | undefined) => {
+        const newSessionId = await handoffSession({ machineId, directory })
+        if (onResumeSuccess) {
+            onResumeSuccess(newSessionId)
+        } else {
+            onSelect(newSessionId)
+        }
+    }
+
     const longPressHandlers = useLongPress({
         onLongPress: (point) => {
             haptic.impact('medium')
@@ -306,6 +322,7 @@ function SessionItem(props: {
                 onDelete={() => setDeleteOpen(true)}
                 onResume={!s.active ? handleResume : undefined}
                 isResuming={isResuming}
+                onHandoff={!s.active && hasUserRole(role, 'admin') ? () => setHandoffOpen(true) : undefined}
                 onFork={handleFork}
                 isForking={isForking}
                 onNewSession={onNewSession}
@@ -320,6 +337,16 @@ function SessionItem(props: {
                 isPending={isPending}
             />
 
+            <HandoffSessionDialog
+                isOpen={handoffOpen}
+                onClose={() => setHandoffOpen(false)}
+                api={api}
+                currentMachineId={s.metadata?.machineId ?? null}
+                currentPath={s.metadata?.path ?? null}
+                onHandoff={handleHandoff}
+                isPending={isHandingOff}
+            />
+
             <ConfirmDialog
                 isOpen={archiveOpen}
                 onClose={() => setArchiveOpen(false)}
@@ -0,0 +1,301 @@
+import { useState } from 'react'
+import { getPermissionModeLabel, getPermissionModesForFlavor, toAcpAgentFlavor } from '@hapi/protocol'
+import type {
+    Machine,
+    PermissionMode,
+    SessionTemplate,
+    SessionTemplateAttachmentInput,
+    SessionTemplateInput,
+    SessionType
+} from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { fileToBase64 } from '@/lib/attachmentAdapter'
+import { useTranslation } from '@/lib/use-translation'
+
+type TemplateAgent = SessionTemplate['agent']
+
+type SessionTemplateEditorProps = {
+    template: SessionTemplate | null
+    machines: Machine[]
+    onSave: (input: SessionTemplateInput) => Promise<void>
+    onCancel: () => void
+    isPending: boolean
+}
+
+const BUILTIN_AGENTS: TemplateAgent[] = ['claude', 'codex', 'gemini', 'opencode']
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+function getMachineTitle(machine: Machine): string {
+    if (machine.metadata?.displayName) return machine.metadata.displayName
+    if (machine.metadata?.host) return machine.metadata.host
+    return machine.id.slice(0, 8)
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function Field(props: { label: string; hint?: string; children: React.ReactNode }) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-sm text-[var(--app-fg)]">{props.label}</span>
+            {props.children}
+            {props.hint ? <span className="text-xs text-[var(--app-hint)]">{props.hint}</span> : null}
+        </label>
+    )
+}
+
+export function SessionTemplateEditor(props: SessionTemplateEditorProps) {
+    const { t } = useTranslation()
+    const { template } = props
+    const [name, setName] = useState(template?.name ?? '')
+    const [machineId, setMachineId] = useState(template?.machineId ?? props.machines[0]?.id ?? '')
+    const [directory, setDirectory] = useState(template?.directory ?? '')
+    const [agent, setAgent] = useState<TemplateAgent>(template?.agent ?? 'claude')
+    const [model, setModel] = useState(template?.model ?? '')
+    const [permissionMode, setPermissionMode] = useState<PermissionMode | ''>(template?.permissionMode ?? '')
+    const [sessionType, setSessionType] = useState<SessionType>(template?.sessionType ?? 'simple')
+    const [worktreeNamePattern, setWorktreeNamePattern] = useState(template?.worktreeNamePattern ?? '{name}-{date}')
+    const [initialPrompt, setInitialPrompt] = useState(template?.initialPrompt ?? '')
+    // null keeps the stored attachments; a list replaces them
+    const [attachments, setAttachments] = useState<SessionTemplateAttachmentInput[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const hasCurrentMachine = props.machines.some((machine) => machine.id === machineId)
+    // ACP agents come from the selected machine's settings
+    const acpAgents = props.machines.find((machine) => machine.id === machineId)?.metadata?.acpAgents ?? []
+    const agentOptions: { value: TemplateAgent; label: string }[] = [
+        ...BUILTIN_AGENTS.map((value) => ({ value, label: value })),
+        ...acpAgents.map((acpAgent) => ({ value: toAcpAgentFlavor(acpAgent.name), label: acpAgent.displayName ?? acpAgent.name }))
+    ]
+    const hasCurrentAgent = agentOptions.some((option) => option.value === agent)
+    const permissionModes = getPermissionModesForFlavor(agent)
+    const listedAttachments = attachments
+        ?? template?.attachments.map(({ filename, size }) => ({ filename, size }))
+        ?? []
+
+    const handleAgentChange = (value: TemplateAgent) => {
+        setAgent(value)
+        if (permissionMode && !getPermissionModesForFlavor(value).includes(permissionMode)) {
+            setPermissionMode('')
+        }
+    }
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files || files.length === 0) return
+        const selected = Array.from(files)
+        if (selected.some((file) => file.size > MAX_ATTACHMENT_BYTES)) {
+            setError(t('templates.error.attachmentTooLarge'))
+            return
+        }
+        try {
+            const added = await Promise.all(selected.map(async (file) => ({
+                filename: file.name,
+                mimeType: file.type || 'application/octet-stream',
+                content: await fileToBase64(file)
+            })))
+            setAttachments((current) => [...(current ?? []), ...added])
+            setError(null)
+        } catch {
+            setError(t('templates.error.attachmentRead'))
+        }
+    }
+
+    const buildInput = (): SessionTemplateInput | null => {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+            setError(t('templates.error.nameRequired'))
+            return null
+        }
+        if (!machineId || !directory.trim()) {
+            setError(t('templates.error.spawnRequired'))
+            return null
+        }
+        if (listedAttachments.length > 0 && !initialPrompt.trim()) {
+            setError(t('templates.error.promptRequiredForAttachments'))
+            return null
+        }
+        setError(null)
+        return {
+            name: trimmedName,
+            machineId,
+            directory: directory.trim(),
+            agent,
+            model: model.trim() || null,
+            permissionMode: permissionMode || null,
+            sessionType,
+            worktreeNamePattern: sessionType === 'worktree' ? worktreeNamePattern.trim() || null : null,
+            initialPrompt: initialPrompt.trim() ? initialPrompt : null,
+            ...(attachments ? { attachments } : {})
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const input = buildInput()
+        if (!input) return
+        try {
+            await props.onSave(input)
+        } catch (err) {
+            const message = err instanceof Error ? err.message : ''
+            setError(message.includes('already exists')
+                ? t('templates.error.duplicateName')
+                : t('templates.error.save'))
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 px-3 py-3">
+            <Field label={t('templates.field.name')}>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                    maxLength={255}
+                />
+            </Field>
+
+            <Field label={t('templates.field.machine')}>
+                <select
+                    value={machineId}
+                    onChange={(e) => setMachineId(e.target.value)}
+                    className={inputClassName}
+                >
+                    {!hasCurrentMachine ? (
+                        <option value={machineId}>{machineId ? machineId.slice(0, 8) : '—'}</option>
+                    ) : null}
+                    {props.machines.map((machine) => (
+                        <option key={machine.id} value={machine.id}>
+                            {getMachineTitle(machine)}
+                        </option>
+                    ))}
+                </select>
+            </Field>
+
+            <Field label={t('templates.field.directory')}>
+                <input
+                    type="text"
+                    value={directory}
+                    onChange={(e) => setDirectory(e.target.value)}
+                    placeholder="/path/to/project"
+                    className={`${inputClassName} font-mono`}
+                />
+            </Field>
+
+            <Field label={t('templates.field.agent')}>
+                <select
+                    value={agent}
+                    onChange={(e) => handleAgentChange(e.target.value as TemplateAgent)}
+                    className={inputClassName}
+                >
+                    {!hasCurrentAgent ? <option value={agent}>{agent}</option> : null}
+                    {agentOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </Field>
+
+            <Field label={t('templates.field.model')} hint={t('templates.hint.model')}>
+                <input
+                    type="text"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                    className={`${inputClassName} font-mono`}
+                />
+            </Field>
+
+            <Field label={t('templates.field.permissionMode')}>
+                <select
+                    value={permissionMode}
+                    onChange={(e) => setPermissionMode(e.target.value as PermissionMode | '')}
+                    className={inputClassName}
+                >
+                    <option value="">{t('templates.permissionMode.agentDefault')}</option>
+                    {permissionModes.map((mode) => (
+                        <option key={mode} value={mode}>{getPermissionModeLabel(mode)}</option>
+                    ))}
+                </select>
+            </Field>
+
+            <Field label={t('templates.field.sessionType')}>
+                <select
+                    value={sessionType}
+                    onChange={(e) => setSessionType(e.target.value as SessionType)}
+                    className={inputClassName}
+                >
+                    <option value="simple">{t('newSession.type.simple')}</option>
+                    <option value="worktree">{t('newSession.type.worktree')}</option>
+                </select>
+            </Field>
+
+            {sessionType === 'worktree' ? (
+                <Field label={t('templates.field.worktreeNamePattern')} hint={t('templates.hint.worktreeNamePattern')}>
+                    <input
+                        type="text"
+                        value={worktreeNamePattern}
+                        onChange={(e) => setWorktreeNamePattern(e.target.value)}
+                        className={`${inputClassName} font-mono`}
+                    />
+                </Field>
+            ) : null}
+
+            <Field label={t('templates.field.initialPrompt')}>
+                <textarea
+                    value={initialPrompt}
+                    onChange={(e) => setInitialPrompt(e.target.value)}
+                    rows={4}
+                    className={inputClassName}
+                />
+            </Field>
+
+            <div className="flex flex-col gap-1">
+                <span className="text-sm text-[var(--app-fg)]">{t('templates.field.attachments')}</span>
+                {listedAttachments.map((attachment, index) => (
+                    <div key={`${attachment.filename}-${index}`} className="flex items-center gap-2 text-xs text-[var(--app-hint)]">
+                        <span className="truncate text-[var(--app-fg)]">{attachment.filename}</span>
+                        {'size' in attachment ? <span>{formatSize(attachment.size)}</span> : null}
+                    </div>
+                ))}
+                <div className="flex items-center gap-2">
+                    <input
+                        type="file"
+                        multiple
+                        aria-label={t('templates.field.attachments')}
+                        onChange={(e) => {
+                            void handleFiles(e.target.files)
+                            e.target.value = ''
+                        }}
+                        className="text-sm"
+                    />
+                    {listedAttachments.length > 0 ? (
+                        <Button type="button" size="sm" variant="outline" onClick={() => setAttachments([])}>
+                            {t('templates.attachments.clear')}
+                        </Button>
+                    ) : null}
+                </div>
+                <span className="text-xs text-[var(--app-hint)]">{t('templates.hint.attachments')}</span>
+            </div>
+
+            {error ? (
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                    {error}
+                </div>
+            ) : null}
+
+            <div className="flex gap-2 justify-end">
+                <Button type="button" variant="secondary" onClick={props.onCancel} disabled={props.isPending}>
+                    {t('button.cancel')}
+                </Button>
+                <Button type="submit" disabled={props.isPending || !name.trim()}>
+                    {t('button.save')}
+                </Button>
+            </div>
+        </form>
+    )
+}
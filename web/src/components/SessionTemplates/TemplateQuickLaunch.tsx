@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import type { ApiClient } from '@/api/client'
+import type { SessionTemplate } from '@/types/api'
+import { useSessionTemplates } from '@/hooks/queries/useSessionTemplates'
+import { useSessionTemplateActions } from '@/hooks/mutations/useSessionTemplateActions'
+import { useToast } from '@/lib/toast-context'
+import { useTranslation } from '@/lib/use-translation'
+
+/**
+ * One-tap launch buttons for the namespace's session templates, shown above
+ * the session list. Renders nothing when there are no templates.
+ */
+export function TemplateQuickLaunch(props: {
+    api: ApiClient | null
+    onLaunched: (sessionId: string) => void
+}) {
+    const { t } = useTranslation()
+    const { addToast } = useToast()
+    const { templates } = useSessionTemplates(props.api)
+    const actions = useSessionTemplateActions(props.api)
+    const [launchingId, setLaunchingId] = useState<string | null>(null)
+
+    if (templates.length === 0) {
+        return null
+    }
+
+    const handleLaunch = async (template: SessionTemplate) => {
+        setLaunchingId(template.id)
+        try {
+            const result = await actions.launchTemplate(template)
+            if (result.type === 'error') {
+                addToast({ title: t('templates.launch.failed', { name: template.name }), body: result.message, sessionId: '', url: '' })
+                return
+            }
+            if (result.warning) {
+                addToast({ title: t('templates.launch.warning', { name: template.name }), body: result.warning, sessionId: result.sessionId, url: '' })
+            }
+            props.onLaunched(result.sessionId)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : ''
+            addToast({ title: t('templates.launch.failed', { name: template.name }), body: message, sessionId: '', url: '' })
+        } finally {
+            setLaunchingId(null)
+        }
+    }
+
+    return (
+        <div className="mx-auto w-full max-w-content px-3 pb-2">
+            <div className="flex items-center gap-2 overflow-x-auto">
+                <span className="shrink-0 text-xs text-[var(--app-hint)]">{t('templates.launch.label')}</span>
+                {templates.map((template) => (
+                    <button
+                        key={template.id}
+                        type="button"
+                        disabled={actions.isLaunchPending}
+                        onClick={() => void handleLaunch(template)}
+                        title={`${template.agent} · ${template.directory}`}
+                        className="shrink-0 rounded-full border border-[var(--app-border)] px-3 py-1 text-xs text-[var(--app-fg)] transition-colors hover:bg-[var(--app-subtle-bg)] disabled:opacity-50"
+                    >
+                        {launchingId === template.id ? t('templates.launch.launching') : template.name}
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,189 @@
+import { useMemo, type ReactNode } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import { useAppContext } from '@/lib/app-context'
+import type { StructuralDiffResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+import { useTranslation } from '@/lib/use-translation'
+import { cn } from '@/lib/utils'
+import {
+    buildStructuralDiffRows,
+    parseDifftasticJson,
+    type StructuralDiffCell,
+    type StructuralDiffRow,
+    type StructuralDiffSegment
+} from './difftastic'
+
+function segmentClassName(segment: StructuralDiffSegment, side: 'lhs' | 'rhs'): string | undefined {
+    return cn(
+        segment.changed && (side === 'lhs'
+            ? 'rounded-sm bg-[var(--app-diff-removed-bg)] text-[var(--app-diff-removed-text)]'
+            : 'rounded-sm bg-[var(--app-diff-added-bg)] text-[var(--app-diff-added-text)]'),
+        segment.highlight === 'keyword' && 'font-semibold',
+        segment.highlight === 'comment' && 'italic'
+    ) || undefined
+}
+
+function DiffCell(props: { cell: StructuralDiffCell | null; side: 'lhs' | 'rhs'; changed: boolean }) {
+    if (!props.cell) {
+        return (
+            <>
+                <div className="bg-[var(--app-subtle-bg)]" />
+                <div className="bg-[var(--app-subtle-bg)]" />
+            </>
+        )
+    }
+
+    const novel = props.changed && props.cell.segments.every((segment) => segment.changed || !segment.text.trim())
+    return (
+        <>
+            <div className="select-none px-1.5 text-right text-[var(--app-hint)]">{props.cell.lineNumber}</div>
+            <div
+                className={cn(
+                    'whitespace-pre-wrap break-all pr-2',
+                    novel && (props.side === 'lhs' ? 'bg-[var(--app-diff-removed-bg)]' : 'bg-[var(--app-diff-added-bg)]')
+                )}
+            >
+                {props.cell.segments.map((segment, index) => (
+                    <span key={index} className={segmentClassName(segment, props.side)}>
+                        {segment.text}
+                    </span>
+                ))}
+            </div>
+        </>
+    )
+}
+
+export function StructuralDiffTable(props: { rows: StructuralDiffRow[] }) {
+    const { t } = useTranslation()
+    if (props.rows.length === 0) {
+        return <div className="p-3 text-xs text-[var(--app-hint)]">{t('diff.structural.empty')}</div>
+    }
+
+    return (
+        <div className="grid grid-cols-[auto_minmax(0,1fr)_auto_minmax(0,1fr)] overflow-x-auto font-mono text-xs">
+            {props.rows.map((row, index) => row.type === 'collapsed' ? (
+                <div
+                    key={`collapsed-${index}`}
+                    className="col-span-4 bg-[var(--app-subtle-bg)] px-3 py-0.5 text-center text-[var(--app-hint)]"
+                >
+                    ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+                </div>
+            ) : (
+                <div key={`line-${index}`} className="contents">
+                    <DiffCell cell={row.lhs} side="lhs" changed={row.changed} />
+                    <DiffCell cell={row.rhs} side="rhs" changed={row.changed} />
+                </div>
+            ))}
+        </div>
+    )
+}
+
+function StructuralDiffResult(props: {
+    result: StructuralDiffResponse | undefined
+    isLoading: boolean
+    error: unknown
+    oldText: string | undefined
+    newText: string | undefined
+    fallback: ReactNode
+}) {
+    const { t } = useTranslation()
+    const { result, oldText, newText } = props
+
+    const rows = useMemo(() => {
+        if (!result?.success || !result.stdout || oldText === undefined || newText === undefined) return null
+        const file = parseDifftasticJson(result.stdout)
+        return file ? buildStructuralDiffRows(file, oldText, newText) : null
+    }, [newText, oldText, result])
+
+    if (props.isLoading) {
+        return <div className="p-3 text-xs text-[var(--app-hint)]">{t('diff.structural.loading')}</div>
+    }
+
+    if (!rows) {
+        const error = props.error instanceof Error
+            ? props.error.message
+            : result?.error ?? 'unexpected difftastic output'
+        return (
+            <div className="flex flex-col gap-2">
+                <div className="rounded-md bg-amber-500/10 p-2 text-xs text-[var(--app-hint)]">
+                    {t('diff.structural.unavailable', { error })}
+                </div>
+                {props.fallback}
+            </div>
+        )
+    }
+
+    return (
+        <div className="overflow-hidden rounded-md border border-[var(--app-border)] bg-[var(--app-bg)]">
+            <StructuralDiffTable rows={rows} />
+        </div>
+    )
+}
+
+/**
+ * Structural diff of a changed file in the session's working tree; shows the
+ * fallback (the line diff) when difftastic cannot run.
+ */
+export function FileStructuralDiff(props: {
+    api: ApiClient | null
+    sessionId: string
+    path: string
+    staged?: boolean
+    fallback: ReactNode
+}) {
+    const { api, sessionId, path, staged } = props
+    const query = useQuery({
+        queryKey: queryKeys.structuralFileDiff(sessionId, path, staged),
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getStructuralFileDiff(sessionId, path, staged)
+        },
+        enabled: Boolean(api),
+        staleTime: 30_000
+    })
+
+    return (
+        <StructuralDiffResult
+            result={query.data}
+            isLoading={query.isLoading}
+            error={query.error}
+            oldText={query.data?.oldContent}
+            newText={query.data?.newContent}
+            fallback={props.fallback}
+        />
+    )
+}
+
+/**
+ * Structural diff of two texts, such as the old and new strings of an edit
+ */
+export function TextStructuralDiff(props: {
+    sessionId: string
+    fileName: string
+    oldText: string
+    newText: string
+    fallback: ReactNode
+}) {
+    const { api } = useAppContext()
+    const { sessionId, fileName, oldText, newText } = props
+    const query = useQuery({
+        queryKey: queryKeys.structuralTextDiff(sessionId, fileName, oldText, newText),
+        queryFn: async () => await api.getStructuralTextDiff(sessionId, fileName, oldText, newText),
+        // Tool call inputs never change
+        staleTime: Infinity
+    })
+
+    return (
+        <StructuralDiffResult
+            result={query.data}
+            isLoading={query.isLoading}
+            error={query.error}
+            oldText={oldText}
+            newText={newText}
+            fallback={props.fallback}
+        />
+    )
+}
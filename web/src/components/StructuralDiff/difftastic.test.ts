@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { buildStructuralDiffRows, parseDifftasticJson } from './difftastic'
+
+const oldText = ['function add(a, b) {', '    return a + b', '}', '', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', ''].join('\n')
+const newText = ['function add(a, b, c) {', '    return a + b', '}', '', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', ''].join('\n')
+
+const output = JSON.stringify({
+    language: 'JavaScript',
+    path: 'math.js',
+    status: 'changed',
+    chunks: [
+        [
+            {
+                lhs: { line_number: 0, changes: [] },
+                rhs: { line_number: 0, changes: [{ start: 17, end: 18, content: ',', highlight: 'delimiter' }, { start: 20, end: 21, content: 'c', highlight: 'normal' }] }
+            }
+        ],
+        [
+            { rhs: { line_number: 11, changes: [{ start: 0, end: 5, content: 'eight', highlight: 'normal' }] } }
+        ]
+    ]
+})
+
+describe('parseDifftasticJson', () => {
+    it('accepts a single file or the first of a list', () => {
+        expect(parseDifftasticJson(output)?.language).toBe('JavaScript')
+        expect(parseDifftasticJson(`[${output}]`)?.path).toBe('math.js')
+        expect(parseDifftasticJson('not json')).toBeNull()
+        expect(parseDifftasticJson('{"chunks": 1, "status": "changed"}')).toBeNull()
+    })
+})
+
+describe('buildStructuralDiffRows', () => {
+    it('pairs lines, marks novel tokens and collapses unchanged runs', () => {
+        const file = parseDifftasticJson(output)!
+        const rows = buildStructuralDiffRows(file, oldText, newText, 1)
+
+        expect(rows[0]).toMatchObject({ type: 'line', changed: true })
+        const first = rows[0].type === 'line' ? rows[0] : null
+        expect(first?.lhs?.segments).toEqual([{ text: 'function add(a, b) {', changed: false }])
+        expect(first?.rhs?.segments).toEqual([
+            { text: 'function add(a, b', changed: false },
+            { text: ',', changed: true, highlight: 'delimiter' },
+            { text: ' ', changed: false },
+            { text: 'c', changed: true, highlight: 'normal' },
+            { text: ') {', changed: false }
+        ])
+
+        expect(rows[1]).toMatchObject({ type: 'line', changed: false, lhs: { lineNumber: 2 }, rhs: { lineNumber: 2 } })
+        expect(rows[2]).toEqual({ type: 'collapsed', count: 8 })
+        expect(rows[3]).toMatchObject({ type: 'line', changed: false, lhs: { lineNumber: 11 }, rhs: { lineNumber: 11 } })
+        expect(rows[4]).toMatchObject({ type: 'line', changed: true, lhs: null, rhs: { lineNumber: 12 } })
+        expect(rows).toHaveLength(5)
+    })
+
+    it('returns no rows when nothing changed', () => {
+        expect(buildStructuralDiffRows({ language: 'Text', path: 'a', status: 'unchanged' }, 'a\n', 'a\n')).toEqual([])
+    })
+})
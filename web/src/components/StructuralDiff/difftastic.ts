@@ -0,0 +1,211 @@
+import { isObject } from '@hapi/protocol'
+
+// Shape of `difft --display=json` (DFT_UNSTABLE) for one file
+export type DifftasticChange = {
+    start: number
+    end: number
+    content: string
+    highlight: string
+}
+
+export type DifftasticSide = {
+    // 0-based
+    line_number: number
+    // The novel tokens on this line
+    changes: DifftasticChange[]
+}
+
+export type DifftasticLine = {
+    lhs?: DifftasticSide
+    rhs?: DifftasticSide
+}
+
+export type DifftasticFile = {
+    language: string
+    path: string
+    status: 'unchanged' | 'changed' | 'created' | 'deleted'
+    chunks?: DifftasticLine[][]
+    // Newer releases list every line pairing, unchanged ones included
+    aligned_lines?: Array<[number | null, number | null]>
+}
+
+export type StructuralDiffSegment = {
+    text: string
+    changed: boolean
+    highlight?: string
+}
+
+export type StructuralDiffCell = {
+    // 1-based, for display
+    lineNumber: number
+    segments: StructuralDiffSegment[]
+}
+
+export type StructuralDiffRow =
+    | { type: 'line'; lhs: StructuralDiffCell | null; rhs: StructuralDiffCell | null; changed: boolean }
+    | { type: 'collapsed'; count: number }
+
+export function parseDifftasticJson(stdout: string): DifftasticFile | null {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(stdout)
+    } catch {
+        return null
+    }
+    // Directory diffs print an array; the RPC always compares one file
+    const file = Array.isArray(parsed) ? parsed[0] : parsed
+    if (!isObject(file) || typeof file.status !== 'string') {
+        return null
+    }
+    if (file.chunks !== undefined && !Array.isArray(file.chunks)) {
+        return null
+    }
+    return file as DifftasticFile
+}
+
+function splitLines(text: string): string[] {
+    if (!text) return []
+    const lines = text.split('\n')
+    if (lines[lines.length - 1] === '') {
+        lines.pop()
+    }
+    return lines
+}
+
+// Offsets are byte-based in some releases; fall back to the occurrence nearest the offset
+function locateChange(text: string, change: DifftasticChange, from: number): [number, number] | null {
+    if (text.slice(change.start, change.end) === change.content) {
+        return [change.start, change.end]
+    }
+    if (!change.content) {
+        return null
+    }
+    let best = -1
+    for (let index = text.indexOf(change.content, from); index !== -1; index = text.indexOf(change.content, index + 1)) {
+        if (best === -1 || Math.abs(index - change.start) < Math.abs(best - change.start)) {
+            best = index
+        }
+    }
+    return best === -1 ? null : [best, best + change.content.length]
+}
+
+function buildCell(lines: string[], lineNumber: number, changes: DifftasticChange[] | undefined): StructuralDiffCell {
+    const text = lines[lineNumber] ?? ''
+    const segments: StructuralDiffSegment[] = []
+    let cursor = 0
+    const sorted = [...(changes ?? [])].sort((a, b) => a.start - b.start)
+    for (const change of sorted) {
+        const range = locateChange(text, change, cursor)
+        if (!range || range[0] < cursor) continue
+        if (range[0] > cursor) {
+            segments.push({ text: text.slice(cursor, range[0]), changed: false })
+        }
+        segments.push({ text: text.slice(range[0], range[1]), changed: true, highlight: change.highlight })
+        cursor = range[1]
+    }
+    if (cursor < text.length || segments.length === 0) {
+        segments.push({ text: text.slice(cursor), changed: false })
+    }
+    return { lineNumber: lineNumber + 1, segments }
+}
+
+/**
+ * Pairs old and new lines. Lines difftastic does not mention are unchanged and
+ * advance both sides together.
+ */
+function alignLines(file: DifftasticFile, oldCount: number, newCount: number): Array<[number | null, number | null]> {
+    if (Array.isArray(file.aligned_lines)) {
+        return file.aligned_lines
+    }
+
+    const pairs: Array<[number | null, number | null]> = []
+    let left = 0
+    let right = 0
+    const entries = (file.chunks ?? []).flat()
+    for (const entry of entries) {
+        const lhs = entry.lhs && entry.lhs.line_number >= left ? entry.lhs.line_number : undefined
+        const rhs = entry.rhs && entry.rhs.line_number >= right ? entry.rhs.line_number : undefined
+        if (lhs === undefined && rhs === undefined) continue
+
+        while ((lhs === undefined || left < lhs) && (rhs === undefined || right < rhs)
+            && left < oldCount && right < newCount) {
+            pairs.push([left++, right++])
+        }
+        while (lhs !== undefined && left < lhs) {
+            pairs.push([left++, null])
+        }
+        while (rhs !== undefined && right < rhs) {
+            pairs.push([null, right++])
+        }
+
+        pairs.push([lhs ?? null, rhs ?? null])
+        if (lhs !== undefined) left = lhs + 1
+        if (rhs !== undefined) right = rhs + 1
+    }
+    while (left < oldCount || right < newCount) {
+        pairs.push([left < oldCount ? left++ : null, right < newCount ? right++ : null])
+    }
+    return pairs
+}
+
+/**
+ * Side-by-side rows for a difftastic result, keeping `context` unchanged
+ * lines around each change and collapsing the rest.
+ */
+export function buildStructuralDiffRows(
+    file: DifftasticFile,
+    oldText: string,
+    newText: string,
+    context: number = 3
+): StructuralDiffRow[] {
+    const oldLines = splitLines(oldText)
+    const newLines = splitLines(newText)
+
+    const lhsChanges = new Map<number, DifftasticChange[]>()
+    const rhsChanges = new Map<number, DifftasticChange[]>()
+    for (const entry of (file.chunks ?? []).flat()) {
+        if (entry.lhs) lhsChanges.set(entry.lhs.line_number, entry.lhs.changes)
+        if (entry.rhs) rhsChanges.set(entry.rhs.line_number, entry.rhs.changes)
+    }
+
+    const rows = alignLines(file, oldLines.length, newLines.length).map(([lhs, rhs]) => {
+        const lhsNovel = lhs !== null && (lhsChanges.get(lhs)?.length ?? 0) > 0
+        const rhsNovel = rhs !== null && (rhsChanges.get(rhs)?.length ?? 0) > 0
+        return {
+            type: 'line' as const,
+            lhs: lhs === null ? null : buildCell(oldLines, lhs, lhsChanges.get(lhs)),
+            rhs: rhs === null ? null : buildCell(newLines, rhs, rhsChanges.get(rhs)),
+            changed: lhsNovel || rhsNovel || lhs === null || rhs === null
+        }
+    })
+
+    const changedIndexes = rows.flatMap((row, index) => (row.changed ? [index] : []))
+    if (changedIndexes.length === 0) {
+        return []
+    }
+
+    const visible = new Array<boolean>(rows.length).fill(false)
+    for (const index of changedIndexes) {
+        for (let i = Math.max(0, index - context); i <= Math.min(rows.length - 1, index + context); i++) {
+            visible[i] = true
+        }
+    }
+
+    const result: StructuralDiffRow[] = []
+    let hidden = 0
+    rows.forEach((row, index) => {
+        if (visible[index]) {
+            if (hidden > 0) {
+                result.push({ type: 'collapsed', count: hidden })
+                hidden = 0
+            }
+            result.push(row)
+        } else {
+            hidden += 1
+        }
+    })
+    if (hidden > 0) {
+        result.push({ type: 'collapsed', count: hidden })
+    }
+    return result
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const STORAGE_KEY = 'hapi-diff-structural'
+const listeners = new Set<(value: boolean) => void>()
+
+function readPreference(): boolean {
+    try {
+        return localStorage.getItem(STORAGE_KEY) === 'true'
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Whether diffs render structurally, shared by the file viewer and every tool card
+ */
+export function useStructuralDiffPreference(): [boolean, (value: boolean) => void] {
+    const [enabled, setEnabled] = useState(readPreference)
+
+    useEffect(() => {
+        listeners.add(setEnabled)
+        return () => {
+            listeners.delete(setEnabled)
+        }
+    }, [])
+
+    const update = useCallback((value: boolean) => {
+        try {
+            localStorage.setItem(STORAGE_KEY, value ? 'true' : 'false')
+        } catch {
+            // Private mode; keep the choice for this page only
+        }
+        for (const listener of listeners) {
+            listener(value)
+        }
+    }, [])
+
+    return [enabled, update]
+}
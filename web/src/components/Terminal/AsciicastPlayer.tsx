@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Terminal } from '@xterm/xterm'
+import '@xterm/xterm/css/xterm.css'
+import { getFontProvider } from '@/lib/terminalFont'
+import { countEventsAt, parseResize, type Asciicast } from './asciicast'
+import { resolveThemeColors } from './TerminalView'
+
+const SPEEDS = [0.5, 1, 2, 4]
+
+function formatTime(seconds: number): string {
+    const whole = Math.floor(seconds)
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+/**
+ * Replays a recording into a read-only xterm. Seeking backwards resets the
+ * screen and re-applies every event up to the new position.
+ */
+export function AsciicastPlayer(props: { cast: Asciicast }) {
+    const { cast } = props
+    const containerRef = useRef<HTMLDivElement | null>(null)
+    const terminalRef = useRef<Terminal | null>(null)
+    // Events already written to the screen
+    const appliedRef = useRef(0)
+    const [position, setPosition] = useState(0)
+    const [playing, setPlaying] = useState(false)
+    const [speed, setSpeed] = useState(1)
+
+    useEffect(() => {
+        const container = containerRef.current
+        if (!container) return
+        const { background, foreground, selectionBackground } = resolveThemeColors()
+        const terminal = new Terminal({
+            cols: cast.width,
+            rows: cast.height,
+            disableStdin: true,
+            cursorBlink: false,
+            fontFamily: getFontProvider().getFontFamily(),
+            fontSize: 12,
+            theme: { background, foreground, cursor: foreground, selectionBackground },
+            convertEol: false
+        })
+        terminal.open(container)
+        terminalRef.current = terminal
+        appliedRef.current = 0
+        return () => {
+            terminal.dispose()
+            terminalRef.current = null
+        }
+    }, [cast])
+
+    const renderTo = useCallback((time: number) => {
+        const terminal = terminalRef.current
+        if (!terminal) return
+        const target = countEventsAt(cast.events, time)
+        if (target < appliedRef.current) {
+            terminal.reset()
+            terminal.resize(cast.width, cast.height)
+            appliedRef.current = 0
+        }
+        for (let index = appliedRef.current; index < target; index += 1) {
+            const event = cast.events[index]
+            if (event.code === 'o') {
+                terminal.write(event.data)
+            } else if (event.code === 'r') {
+                const size = parseResize(event.data)
+                if (size) {
+                    terminal.resize(size.cols, size.rows)
+                }
+            }
+        }
+        appliedRef.current = target
+    }, [cast])
+
+    useEffect(() => {
+        renderTo(position)
+    }, [position, renderTo])
+
+    useEffect(() => {
+        if (!playing) return
+        let frame = 0
+        let last = performance.now()
+        const tick = (now: number) => {
+            const elapsed = ((now - last) / 1000) * speed
+            last = now
+            setPosition((current) => Math.min(cast.duration, current + elapsed))
+            frame = requestAnimationFrame(tick)
+        }
+        frame = requestAnimationFrame(tick)
+        return () => cancelAnimationFrame(frame)
+    }, [playing, speed, cast.duration])
+
+    useEffect(() => {
+        if (playing && position >= cast.duration) {
+            setPlaying(false)
+        }
+    }, [playing, position, cast.duration])
+
+    const togglePlaying = () => {
+        if (!playing && position >= cast.duration) {
+            setPosition(0)
+        }
+        setPlaying((value) => !value)
+    }
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="overflow-auto rounded-md bg-[var(--app-bg)] p-2">
+                <div ref={containerRef} className="w-max" />
+            </div>
+            <div className="flex items-center gap-2 text-xs text-[var(--app-hint)]">
+                <button
+                    type="button"
+                    onClick={togglePlaying}
+                    className="w-14 rounded bg-[var(--app-button)] px-2 py-1 text-[var(--app-button-text)]"
+                >
+                    {playing ? 'Pause' : 'Play'}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={cast.duration || 0}
+                    step={0.05}
+                    value={position}
+                    onChange={(e) => setPosition(Number(e.target.value))}
+                    aria-label="Seek"
+                    className="min-w-0 flex-1"
+                />
+                <span className="shrink-0 tabular-nums">
+                    {formatTime(position)} / {formatTime(cast.duration)}
+                </span>
+                <select
+                    value={speed}
+                    onChange={(e) => setSpeed(Number(e.target.value))}
+                    aria-label="Playback speed"
+                    className="rounded border border-[var(--app-border)] bg-[var(--app-bg)] px-1 py-1 text-[var(--app-fg)]"
+                >
+                    {SPEEDS.map((value) => (
+                        <option key={value} value={value}>{value}×</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    )
+}
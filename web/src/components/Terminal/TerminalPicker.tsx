@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react'
+import type { ApiClient } from '@/api/client'
+import type { TerminalSummary } from '@/types/api'
+import { useSessionTerminals } from '@/hooks/queries/useSessionTerminals'
+
+function ListIcon() {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+        >
+            <line x1="8" y1="6" x2="21" y2="6" />
+            <line x1="8" y1="12" x2="21" y2="12" />
+            <line x1="8" y1="18" x2="21" y2="18" />
+            <line x1="3" y1="6" x2="3.01" y2="6" />
+            <line x1="3" y1="12" x2="3.01" y2="12" />
+            <line x1="3" y1="18" x2="3.01" y2="18" />
+        </svg>
+    )
+}
+
+function formatAge(timestamp: number): string {
+    const minutes = Math.max(0, Math.round((Date.now() - timestamp) / 60_000))
+    if (minutes < 1) return 'just now'
+    if (minutes < 60) return `${minutes}m ago`
+    const hours = Math.round(minutes / 60)
+    return hours < 24 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`
+}
+
+function TerminalRow(props: {
+    terminal: TerminalSummary
+    index: number
+    current: boolean
+    onSelect: (watch: boolean) => void
+}) {
+    const { terminal } = props
+    return (
+        <div className="flex items-center gap-2 px-3 py-2">
+            <div className="min-w-0 flex-1">
+                <div className="truncate text-sm">
+                    Terminal {props.index + 1}
+                    {props.current ? <span className="ml-1 text-xs text-[var(--app-hint)]">(this one)</span> : null}
+                </div>
+                <div className="truncate text-xs text-[var(--app-hint)]">
+                    {terminal.cols}×{terminal.rows} · started {formatAge(terminal.createdAt)} · active {formatAge(terminal.lastActivityAt)}
+                </div>
+            </div>
+            {props.current ? null : (
+                <>
+                    <button
+                        type="button"
+                        onClick={() => props.onSelect(true)}
+                        className="rounded px-2 py-1 text-xs text-[var(--app-link)] hover:bg-[var(--app-subtle-bg)]"
+                    >
+                        Watch
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => props.onSelect(false)}
+                        className="rounded bg-[var(--app-button)] px-2 py-1 text-xs text-[var(--app-button-text)]"
+                    >
+                        Attach
+                    </button>
+                </>
+            )}
+        </div>
+    )
+}
+
+/**
+ * Lists the shells still running in the session so one can be reattached
+ * (or watched read-only) after the page that opened it went away.
+ */
+export function TerminalPicker(props: {
+    api: ApiClient | null
+    sessionId: string
+    currentTerminalId: string
+    disabled: boolean
+    onSelect: (terminalId: string, watch: boolean) => void
+    onNew: () => void
+}) {
+    const [open, setOpen] = useState(false)
+    const { terminals, error, isLoading, refetch } = useSessionTerminals(props.api, props.sessionId, open)
+
+    useEffect(() => {
+        if (open) {
+            void refetch()
+        }
+    }, [open, refetch])
+
+    const choose = (action: () => void) => {
+        setOpen(false)
+        action()
+    }
+
+    return (
+        <div className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen((value) => !value)}
+                disabled={props.disabled}
+                aria-expanded={open}
+                aria-label="Running terminals"
+                title="Running terminals"
+                className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)] disabled:opacity-50"
+            >
+                <ListIcon />
+            </button>
+            {open ? (
+                <div className="absolute right-0 top-full z-20 mt-1 w-80 overflow-hidden rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] shadow-lg">
+                    <div className="max-h-80 divide-y divide-[var(--app-divider)] overflow-y-auto">
+                        {isLoading ? (
+                            <div className="px-3 py-2 text-xs text-[var(--app-hint)]">Loading terminals…</div>
+                        ) : error ? (
+                            <div className="px-3 py-2 text-xs text-[var(--app-hint)]">{error}</div>
+                        ) : terminals.length === 0 ? (
+                            <div className="px-3 py-2 text-xs text-[var(--app-hint)]">No running terminals.</div>
+                        ) : terminals.map((terminal, index) => (
+                            <TerminalRow
+                                key={terminal.terminalId}
+                                terminal={terminal}
+                                index={index}
+                                current={terminal.terminalId === props.currentTerminalId}
+                                onSelect={(watch) => choose(() => props.onSelect(terminal.terminalId, watch))}
+                            />
+                        ))}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => choose(props.onNew)}
+                        className="w-full border-t border-[var(--app-border)] px-3 py-2 text-left text-sm text-[var(--app-link)] hover:bg-[var(--app-subtle-bg)]"
+                    >
+                        New terminal
+                    </button>
+                </div>
+            ) : null}
+        </div>
+    )
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react'
+import type { ApiClient } from '@/api/client'
+import type { TerminalRecordingSummary } from '@/types/api'
+import type { TerminalRecordingState } from '@/hooks/useTerminalSocket'
+import { useTerminalRecordings } from '@/hooks/queries/useTerminalRecordings'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { AsciicastPlayer } from './AsciicastPlayer'
+import { parseAsciicast, type Asciicast } from './asciicast'
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function RecordingRow(props: {
+    recording: TerminalRecordingSummary
+    busy: boolean
+    onPlay: () => void
+    onDownload: () => void
+}) {
+    const { recording } = props
+    return (
+        <div className="flex items-center gap-2 px-3 py-2">
+            <div className="min-w-0 flex-1">
+                <div className="truncate text-sm">
+                    {new Date(recording.startedAt).toLocaleString()}
+                    {recording.active ? <span className="ml-1 text-xs text-red-500">(recording)</span> : null}
+                </div>
+                <div className="truncate text-xs text-[var(--app-hint)]">
+                    {formatSize(recording.size)}
+                    {recording.input ? ' · includes input' : ''}
+                </div>
+            </div>
+            <button
+                type="button"
+                onClick={props.onPlay}
+                disabled={props.busy}
+                className="rounded px-2 py-1 text-xs text-[var(--app-link)] hover:bg-[var(--app-subtle-bg)] disabled:opacity-50"
+            >
+                Play
+            </button>
+            <button
+                type="button"
+                onClick={props.onDownload}
+                disabled={props.busy}
+                className="rounded px-2 py-1 text-xs text-[var(--app-link)] hover:bg-[var(--app-subtle-bg)] disabled:opacity-50"
+            >
+                Download
+            </button>
+        </div>
+    )
+}
+
+/**
+ * Starts and stops recording the current terminal (controller only) and lists
+ * the session's recordings for playback or download as asciicast files.
+ */
+export function TerminalRecordings(props: {
+    api: ApiClient | null
+    sessionId: string
+    recording: TerminalRecordingState | null
+    recordingError: string | null
+    canRecord: boolean
+    // Recordings of an ended session stay listed; only new ones need it running
+    sessionActive: boolean
+    onSetRecording: (options: { input: boolean } | null) => void
+}) {
+    const [open, setOpen] = useState(false)
+    const [includeInput, setIncludeInput] = useState(false)
+    const [busyId, setBusyId] = useState<string | null>(null)
+    const [actionError, setActionError] = useState<string | null>(null)
+    const [playing, setPlaying] = useState<{ recordingId: string; cast: Asciicast } | null>(null)
+    const { recordings, error, isLoading, refetch } = useTerminalRecordings(props.api, props.sessionId, open)
+
+    useEffect(() => {
+        if (open) {
+            void refetch()
+        }
+    }, [open, refetch])
+
+    // A recording that just stopped should show up with its final size
+    useEffect(() => {
+        if (open) {
+            void refetch()
+        }
+    }, [props.recording?.recordingId, open, refetch])
+
+    const fetchRecording = async (recordingId: string): Promise<Blob | null> => {
+        if (!props.api) return null
+        setBusyId(recordingId)
+        setActionError(null)
+        try {
+            return await props.api.downloadTerminalRecording(props.sessionId, recordingId)
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : 'Failed to load recording.')
+            return null
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handlePlay = async (recordingId: string) => {
+        const blob = await fetchRecording(recordingId)
+        if (!blob) return
+        const cast = parseAsciicast(await blob.text())
+        if (!cast) {
+            setActionError('Recording is empty or unreadable.')
+            return
+        }
+        setOpen(false)
+        setPlaying({ recordingId, cast })
+    }
+
+    const handleDownload = async (recordingId: string) => {
+        const blob = await fetchRecording(recordingId)
+        if (!blob) return
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `${recordingId}.cast`
+        link.click()
+        setTimeout(() => URL.revokeObjectURL(url), 0)
+    }
+
+    const isRecording = props.recording !== null
+
+    return (
+        <div className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen((value) => !value)}
+                aria-expanded={open}
+                aria-label="Recordings"
+                title={isRecording ? 'Recording' : 'Recordings'}
+                className="flex h-8 items-center gap-1.5 rounded-full px-2 text-xs text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)] disabled:opacity-50"
+            >
+                <span className={`h-2.5 w-2.5 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'border border-current'}`} />
+                {isRecording ? 'REC' : 'Rec'}
+            </button>
+            {open ? (
+                <div className="absolute right-0 top-full z-20 mt-1 w-80 overflow-hidden rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] shadow-lg">
+                    <div className="flex flex-col gap-2 border-b border-[var(--app-border)] px-3 py-2 text-xs">
+                        {isRecording ? (
+                            <>
+                                <div className="text-[var(--app-hint)]">
+                                    Recording output{props.recording?.input ? ' and input' : ''}.
+                                </div>
+                                {props.canRecord ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => props.onSetRecording(null)}
+                                        className="self-start rounded bg-[var(--app-button)] px-2 py-1 text-[var(--app-button-text)]"
+                                    >
+                                        Stop recording
+                                    </button>
+                                ) : null}
+                            </>
+                        ) : props.canRecord ? (
+                            <>
+                                <label className="flex items-center gap-2 text-[var(--app-hint)]">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeInput}
+                                        onChange={(e) => setIncludeInput(e.target.checked)}
+                                    />
+                                    Also record keystrokes
+                                </label>
+                                <button
+                                    type="button"
+                                    onClick={() => props.onSetRecording({ input: includeInput })}
+                                    className="self-start rounded bg-[var(--app-button)] px-2 py-1 text-[var(--app-button-text)]"
+                                >
+                                    Start recording
+                                </button>
+                                <div className="text-[var(--app-hint)]">Secrets from the shell environment are redacted.</div>
+                            </>
+                        ) : props.sessionActive ? (
+                            <div className="text-[var(--app-hint)]">Only the controlling viewer can record.</div>
+                        ) : (
+                            <div className="text-[var(--app-hint)]">The session has ended; its recordings can still be played.</div>
+                        )}
+                        {props.recordingError ? <div className="text-red-600">{props.recordingError}</div> : null}
+                    </div>
+                    <div className="max-h-72 divide-y divide-[var(--app-divider)] overflow-y-auto">
+                        {isLoading ? (
+                            <div className="px-3 py-2 text-xs text-[var(--app-hint)]">Loading recordings…</div>
+                        ) : error ? (
+                            <div className="px-3 py-2 text-xs text-[var(--app-hint)]">{error}</div>
+                        ) : recordings.length === 0 ? (
+                            <div className="px-3 py-2 text-xs text-[var(--app-hint)]">No recordings yet.</div>
+                        ) : recordings.map((recording) => (
+                            <RecordingRow
+                                key={recording.recordingId}
+                                recording={recording}
+                                busy={busyId !== null}
+                                onPlay={() => void handlePlay(recording.recordingId)}
+                                onDownload={() => void handleDownload(recording.recordingId)}
+                            />
+                        ))}
+                    </div>
+                    {actionError ? (
+                        <div className="border-t border-[var(--app-border)] px-3 py-2 text-xs text-red-600">{actionError}</div>
+                    ) : null}
+                </div>
+            ) : null}
+
+            <Dialog open={playing !== null} onOpenChange={(value) => !value && setPlaying(null)}>
+                <DialogContent className="max-w-4xl">
+                    <DialogHeader>
+                        <DialogTitle>{playing?.cast.title ?? 'Recording'}</DialogTitle>
+                    </DialogHeader>
+                    {playing ? <AsciicastPlayer key={playing.recordingId} cast={playing.cast} /> : null}
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
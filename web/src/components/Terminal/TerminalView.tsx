@@ -6,7 +6,7 @@ import { CanvasAddon } from '@xterm/addon-canvas'
 import '@xterm/xterm/css/xterm.css'
 import { ensureBuiltinFontLoaded, getFontProvider } from '@/lib/terminalFont'
 
-function resolveThemeColors(): { background: string; foreground: string; selectionBackground: string } {
+export function resolveThemeColors(): { background: string; foreground: string; selectionBackground: string } {
     const styles = getComputedStyle(document.documentElement)
     const background = styles.getPropertyValue('--app-bg').trim() || '#000000'
     const foreground = styles.getPropertyValue('--app-fg').trim() || '#ffffff'
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { countEventsAt, parseAsciicast, parseResize } from './asciicast'
+
+const cast = [
+    JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1700000000, title: 'Terminal abc' }),
+    JSON.stringify([0.5, 'o', '$ ls\r\n']),
+    JSON.stringify([0.75, 'i', 'ls\r']),
+    JSON.stringify([1.25, 'r', '100x30']),
+    '[2.0, "o", "trunc',
+    ''
+].join('\n')
+
+describe('parseAsciicast', () => {
+    it('reads the header and skips malformed events', () => {
+        const parsed = parseAsciicast(cast)
+        expect(parsed).toMatchObject({ width: 80, height: 24, title: 'Terminal abc', duration: 1.25 })
+        expect(parsed?.events.map((event) => event.code)).toEqual(['o', 'i', 'r'])
+    })
+
+    it('rejects files that are not asciicast v2', () => {
+        expect(parseAsciicast('{"version":1,"width":80,"height":24}')).toBeNull()
+        expect(parseAsciicast('not json')).toBeNull()
+    })
+})
+
+describe('countEventsAt', () => {
+    it('counts events up to and including the given time', () => {
+        const events = parseAsciicast(cast)!.events
+        expect(countEventsAt(events, 0)).toBe(0)
+        expect(countEventsAt(events, 0.75)).toBe(2)
+        expect(countEventsAt(events, 10)).toBe(3)
+    })
+})
+
+describe('parseResize', () => {
+    it('parses COLSxROWS', () => {
+        expect(parseResize('100x30')).toEqual({ cols: 100, rows: 30 })
+        expect(parseResize('0x30')).toBeNull()
+    })
+})
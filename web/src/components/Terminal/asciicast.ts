@@ -0,0 +1,86 @@
+export type AsciicastEvent = {
+    time: number
+    code: 'o' | 'i' | 'r' | 'm'
+    data: string
+}
+
+export type Asciicast = {
+    width: number
+    height: number
+    title: string | null
+    events: AsciicastEvent[]
+    duration: number
+}
+
+const EVENT_CODES = new Set(['o', 'i', 'r', 'm'])
+
+/**
+ * Parses an asciicast v2 file: a JSON header line followed by one
+ * [time, code, data] array per line. Malformed event lines are skipped so a
+ * recording cut off mid-write still plays.
+ */
+export function parseAsciicast(text: string): Asciicast | null {
+    const lines = text.split('\n')
+    let header: { version?: unknown; width?: unknown; height?: unknown; title?: unknown }
+    try {
+        header = JSON.parse(lines[0] ?? '')
+    } catch {
+        return null
+    }
+    if (!header || header.version !== 2 || typeof header.width !== 'number' || typeof header.height !== 'number') {
+        return null
+    }
+
+    const events: AsciicastEvent[] = []
+    for (const line of lines.slice(1)) {
+        if (!line.trim()) {
+            continue
+        }
+        try {
+            const parsed = JSON.parse(line) as unknown
+            if (
+                Array.isArray(parsed)
+                && typeof parsed[0] === 'number'
+                && EVENT_CODES.has(parsed[1])
+                && typeof parsed[2] === 'string'
+            ) {
+                events.push({ time: parsed[0], code: parsed[1], data: parsed[2] })
+            }
+        } catch {
+            continue
+        }
+    }
+
+    return {
+        width: header.width,
+        height: header.height,
+        title: typeof header.title === 'string' ? header.title : null,
+        events,
+        duration: events.length > 0 ? events[events.length - 1].time : 0
+    }
+}
+
+// Number of events that have happened by the given time
+export function countEventsAt(events: AsciicastEvent[], time: number): number {
+    let low = 0
+    let high = events.length
+    while (low < high) {
+        const mid = (low + high) >> 1
+        if (events[mid].time <= time) {
+            low = mid + 1
+        } else {
+            high = mid
+        }
+    }
+    return low
+}
+
+export function parseResize(data: string): { cols: number; rows: number } | null {
+    const match = /^(\d+)x(\d+)$/.exec(data)
+    if (!match) {
+        return null
+    }
+    const cols = Number(match[1])
+    const rows = Number(match[2])
+    return cols > 0 && rows > 0 ? { cols, rows } : null
+}
@@ -119,7 +119,7 @@ function renderTaskSummary(block: ToolCallBlock, metadata: SessionMetadataSummar
     )
 }
 
-function renderEditInput(input: unknown): ReactNode | null {
+function renderEditInput(input: unknown, sessionId: string): ReactNode | null {
     if (!isObject(input)) return null
     const filePath = getInputStringAny(input, ['file_path', 'path']) ?? undefined
     const oldString = getInputString(input, 'old_string')
@@ -131,6 +131,7 @@ function renderEditInput(input: unknown): ReactNode | null {
             oldString={oldString}
             newString={newString}
             filePath={filePath}
+            sessionId={sessionId}
         />
     )
 }
@@ -142,7 +143,7 @@ function renderExitPlanModeInput(input: unknown): ReactNode | null {
     return <MarkdownRenderer content={plan} />
 }
 
-function renderToolInput(block: ToolCallBlock): ReactNode {
+function renderToolInput(block: ToolCallBlock, sessionId: string): ReactNode {
     const toolName = block.tool.name
     const input = block.tool.input
 
@@ -151,7 +152,7 @@ function renderToolInput(block: ToolCallBlock): ReactNode {
     }
 
     if (toolName === 'Edit') {
-        const diff = renderEditInput(input)
+        const diff = renderEditInput(input, sessionId)
         if (diff) return diff
     }
 
@@ -168,7 +169,7 @@ function renderToolInput(block: ToolCallBlock): ReactNode {
                     if (oldString === null || newString === null) return null
                     return (
                         <div key={idx}>
-                            <DiffView oldString={oldString} newString={newString} filePath={filePath} />
+                            <DiffView oldString={oldString} newString={newString} filePath={filePath} sessionId={sessionId} />
                         </div>
                     )
                 })
@@ -387,15 +388,15 @@ function ToolCardInner(props: ToolCardProps) {
                                             {isQuestionToolWithAnswers ? t('tool.questionsAnswers') : t('tool.input')}
                                         </div>
                                         {FullToolView ? (
-                                            <FullToolView block={props.block} metadata={props.metadata} />
+                                            <FullToolView block={props.block} metadata={props.metadata} sessionId={props.sessionId} />
                                         ) : (
-                                            renderToolInput(props.block)
+                                            renderToolInput(props.block, props.sessionId)
                                         )}
                                     </div>
                                     {!isQuestionToolWithAnswers && (
                                         <div>
                                             <div className="mb-1 text-xs font-medium text-[var(--app-hint)]">{t('tool.result')}</div>
-                                            <ResultToolView block={props.block} metadata={props.metadata} />
+                                            <ResultToolView block={props.block} metadata={props.metadata} sessionId={props.sessionId} />
                                         </div>
                                     )}
                                 </div>
@@ -416,17 +417,17 @@ function ToolCardInner(props: ToolCardProps) {
                     {showInline ? (
                         CompactToolView ? (
                             <div className="mt-3">
-                                <CompactToolView block={props.block} metadata={props.metadata} />
+                                <CompactToolView block={props.block} metadata={props.metadata} sessionId={props.sessionId} />
                             </div>
                         ) : (
                             <div className="mt-3 flex flex-col gap-3">
                                 <div>
                                     <div className="mb-1 text-xs font-medium text-[var(--app-hint)]">{t('tool.input')}</div>
-                                    {renderToolInput(props.block)}
+                                    {renderToolInput(props.block, props.sessionId)}
                                 </div>
                                 <div>
                                     <div className="mb-1 text-xs font-medium text-[var(--app-hint)]">{t('tool.result')}</div>
-                                    <ResultToolView block={props.block} metadata={props.metadata} />
+                                    <ResultToolView block={props.block} metadata={props.metadata} sessionId={props.sessionId} />
                                 </div>
                             </div>
                         )
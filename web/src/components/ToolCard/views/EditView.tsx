@@ -9,12 +9,15 @@ export function EditView(props: ToolViewProps) {
     const oldString = typeof input.old_string === 'string' ? input.old_string : null
     const newString = typeof input.new_string === 'string' ? input.new_string : null
     if (oldString === null || newString === null) return null
+    const filePath = typeof input.file_path === 'string' ? input.file_path : undefined
 
     return (
         <DiffView
             oldString={oldString}
             newString={newString}
             variant="inline"
+            sessionId={props.sessionId}
+            languagePath={filePath}
         />
     )
 }
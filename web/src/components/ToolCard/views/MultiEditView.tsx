@@ -6,6 +6,10 @@ type Edit = { old_string: string; new_string: string }
 
 const MAX_COMPACT_EDITS = 3
 
+function getFilePath(input: unknown): string | undefined {
+    return isObject(input) && typeof input.file_path === 'string' ? input.file_path : undefined
+}
+
 function extractEdits(input: unknown): Edit[] {
     if (!isObject(input) || !Array.isArray(input.edits)) return []
     return input.edits
@@ -20,6 +24,7 @@ function extractEdits(input: unknown): Edit[] {
 export function MultiEditView(props: ToolViewProps) {
     const edits = extractEdits(props.block.tool.input)
     if (edits.length === 0) return null
+    const filePath = getFilePath(props.block.tool.input)
 
     return (
         <div className="flex flex-col gap-2">
@@ -28,6 +33,8 @@ export function MultiEditView(props: ToolViewProps) {
                     key={idx}
                     oldString={edit.old_string}
                     newString={edit.new_string}
+                    sessionId={props.sessionId}
+                    languagePath={filePath}
                 />
             ))}
             {edits.length > MAX_COMPACT_EDITS ? (
@@ -42,6 +49,7 @@ export function MultiEditView(props: ToolViewProps) {
 export function MultiEditFullView(props: ToolViewProps) {
     const edits = extractEdits(props.block.tool.input)
     if (edits.length === 0) return null
+    const filePath = getFilePath(props.block.tool.input)
 
     return (
         <div className="flex flex-col gap-2">
@@ -51,6 +59,8 @@ export function MultiEditFullView(props: ToolViewProps) {
                     oldString={edit.old_string}
                     newString={edit.new_string}
                     variant="inline"
+                    sessionId={props.sessionId}
+                    languagePath={filePath}
                 />
             ))}
         </div>
@@ -14,6 +14,7 @@ import { WriteView } from '@/components/ToolCard/views/WriteView'
 export type ToolViewProps = {
     block: ToolCallBlock
     metadata: SessionMetadataSummary | null
+    sessionId?: string
 }
 
 export type ToolViewComponent = ComponentType<ToolViewProps>
@@ -0,0 +1,262 @@
+import { useState } from 'react'
+import { USAGE_BUDGET_ACTIONS, USAGE_BUDGET_PERIODS, USAGE_BUDGET_SCOPES } from '@hapi/protocol'
+import type {
+    Machine,
+    SessionSummary,
+    UsageBudget,
+    UsageBudgetAction,
+    UsageBudgetInput,
+    UsageBudgetPeriod,
+    UsageBudgetScope
+} from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { useTranslation } from '@/lib/use-translation'
+
+type BudgetEditorProps = {
+    budget: UsageBudget | null
+    sessions: SessionSummary[]
+    machines: Machine[]
+    onSave: (input: UsageBudgetInput) => Promise<void>
+    onCancel: () => void
+    isPending: boolean
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+function getSessionTitle(session: SessionSummary): string {
+    if (session.metadata?.name) {
+        return session.metadata.name
+    }
+    if (session.metadata?.path) {
+        const parts = session.metadata.path.split('/').filter(Boolean)
+        return parts.length > 0 ? parts[parts.length - 1] : session.id.slice(0, 8)
+    }
+    return session.id.slice(0, 8)
+}
+
+function getMachineTitle(machine: Machine): string {
+    if (machine.metadata?.displayName) return machine.metadata.displayName
+    if (machine.metadata?.host) return machine.metadata.host
+    return machine.id.slice(0, 8)
+}
+
+function Field(props: { label: string; hint?: string; children: React.ReactNode }) {
+    return (
+        <label className="flex flex-col gap-1">
+            <span className="text-sm text-[var(--app-fg)]">{props.label}</span>
+            {props.children}
+            {props.hint ? <span className="text-xs text-[var(--app-hint)]">{props.hint}</span> : null}
+        </label>
+    )
+}
+
+// Empty input means no limit; anything else must be a positive number
+function parseLimit(value: string, integer: boolean): number | null | undefined {
+    const trimmed = value.trim()
+    if (!trimmed) {
+        return null
+    }
+    const parsed = Number(trimmed)
+    if (!Number.isFinite(parsed) || parsed <= 0 || (integer && !Number.isInteger(parsed))) {
+        return undefined
+    }
+    return parsed
+}
+
+export function BudgetEditor(props: BudgetEditorProps) {
+    const { t } = useTranslation()
+    const { budget } = props
+    const [name, setName] = useState(budget?.name ?? '')
+    const [scope, setScope] = useState<UsageBudgetScope>(budget?.scope ?? 'namespace')
+    const [sessionId, setSessionId] = useState(budget?.scope === 'session' ? budget.scopeId ?? '' : props.sessions[0]?.id ?? '')
+    const [machineId, setMachineId] = useState(budget?.scope === 'machine' ? budget.scopeId ?? '' : props.machines[0]?.id ?? '')
+    const [period, setPeriod] = useState<UsageBudgetPeriod>(budget?.period ?? 'day')
+    const [limitUsd, setLimitUsd] = useState(budget?.limitUsd != null ? `${budget.limitUsd}` : '')
+    const [limitTokens, setLimitTokens] = useState(budget?.limitTokens != null ? `${budget.limitTokens}` : '')
+    const [action, setAction] = useState<UsageBudgetAction>(budget?.action ?? 'warn')
+    const [enabled, setEnabled] = useState(budget?.enabled ?? true)
+    const [error, setError] = useState<string | null>(null)
+
+    // Keep the current target selectable even if it is no longer listed (offline machine, archived session)
+    const hasCurrentSession = props.sessions.some((session) => session.id === sessionId)
+    const hasCurrentMachine = props.machines.some((machine) => machine.id === machineId)
+
+    const buildInput = (): UsageBudgetInput | null => {
+        const trimmedName = name.trim()
+        if (!trimmedName) {
+            setError(t('usage.budgets.error.nameRequired'))
+            return null
+        }
+        const usd = parseLimit(limitUsd, false)
+        const tokens = parseLimit(limitTokens, true)
+        if (usd === undefined || tokens === undefined) {
+            setError(t('usage.budgets.error.invalidLimit'))
+            return null
+        }
+        if (usd === null && tokens === null) {
+            setError(t('usage.budgets.error.limitRequired'))
+            return null
+        }
+        const scopeId = scope === 'session' ? sessionId : scope === 'machine' ? machineId : null
+        if (scope !== 'namespace' && !scopeId) {
+            setError(t('usage.budgets.error.targetRequired'))
+            return null
+        }
+        setError(null)
+        return {
+            name: trimmedName,
+            enabled,
+            scope,
+            scopeId,
+            period,
+            limitUsd: usd,
+            limitTokens: tokens,
+            action
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const input = buildInput()
+        if (!input) return
+        try {
+            await props.onSave(input)
+        } catch {
+            setError(t('usage.budgets.error.save'))
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 px-3 py-3">
+            <Field label={t('usage.budgets.field.name')}>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                    maxLength={255}
+                />
+            </Field>
+
+            <Field label={t('usage.budgets.field.scope')}>
+                <select
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value as UsageBudgetScope)}
+                    className={inputClassName}
+                >
+                    {USAGE_BUDGET_SCOPES.map((value) => (
+                        <option key={value} value={value}>{t(`usage.budgets.scope.${value}`)}</option>
+                    ))}
+                </select>
+            </Field>
+
+            {scope === 'session' ? (
+                <Field label={t('usage.budgets.field.session')}>
+                    <select
+                        value={sessionId}
+                        onChange={(e) => setSessionId(e.target.value)}
+                        className={inputClassName}
+                    >
+                        {!hasCurrentSession ? (
+                            <option value={sessionId}>{sessionId ? sessionId.slice(0, 8) : '—'}</option>
+                        ) : null}
+                        {props.sessions.map((session) => (
+                            <option key={session.id} value={session.id}>
+                                {getSessionTitle(session)}
+                            </option>
+                        ))}
+                    </select>
+                </Field>
+            ) : null}
+
+            {scope === 'machine' ? (
+                <Field label={t('usage.budgets.field.machine')}>
+                    <select
+                        value={machineId}
+                        onChange={(e) => setMachineId(e.target.value)}
+                        className={inputClassName}
+                    >
+                        {!hasCurrentMachine ? (
+                            <option value={machineId}>{machineId ? machineId.slice(0, 8) : '—'}</option>
+                        ) : null}
+                        {props.machines.map((machine) => (
+                            <option key={machine.id} value={machine.id}>
+                                {getMachineTitle(machine)}
+                            </option>
+                        ))}
+                    </select>
+                </Field>
+            ) : null}
+
+            <Field label={t('usage.budgets.field.period')}>
+                <select
+                    value={period}
+                    onChange={(e) => setPeriod(e.target.value as UsageBudgetPeriod)}
+                    className={inputClassName}
+                >
+                    {USAGE_BUDGET_PERIODS.map((value) => (
+                        <option key={value} value={value}>{t(`usage.budgets.period.${value}`)}</option>
+                    ))}
+                </select>
+            </Field>
+
+            <Field label={t('usage.budgets.field.limitUsd')} hint={t('usage.budgets.hint.limits')}>
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    value={limitUsd}
+                    onChange={(e) => setLimitUsd(e.target.value)}
+                    placeholder="5.00"
+                    className={inputClassName}
+                />
+            </Field>
+
+            <Field label={t('usage.budgets.field.limitTokens')}>
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    value={limitTokens}
+                    onChange={(e) => setLimitTokens(e.target.value)}
+                    placeholder="1000000"
+                    className={inputClassName}
+                />
+            </Field>
+
+            <Field label={t('usage.budgets.field.action')} hint={t(`usage.budgets.hint.action.${action}`)}>
+                <select
+                    value={action}
+                    onChange={(e) => setAction(e.target.value as UsageBudgetAction)}
+                    className={inputClassName}
+                >
+                    {USAGE_BUDGET_ACTIONS.map((value) => (
+                        <option key={value} value={value}>{t(`usage.budgets.action.${value}`)}</option>
+                    ))}
+                </select>
+            </Field>
+
+            <label className="flex items-center gap-2 text-sm text-[var(--app-fg)]">
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                />
+                {t('usage.budgets.field.enabled')}
+            </label>
+
+            {error ? (
+                <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                    {error}
+                </div>
+            ) : null}
+
+            <div className="flex gap-2 justify-end">
+                <Button type="button" variant="secondary" onClick={props.onCancel} disabled={props.isPending}>
+                    {t('button.cancel')}
+                </Button>
+                <Button type="submit" disabled={props.isPending || !name.trim()}>
+                    {t('button.save')}
+                </Button>
+            </div>
+        </form>
+    )
+}
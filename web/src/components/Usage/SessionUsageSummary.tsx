@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import type { ApiClient } from '@/api/client'
+import { useSessionUsage } from '@/hooks/queries/useSessionUsage'
+import { useTranslation } from '@/lib/use-translation'
+import { formatTokenCount, formatUsd, getBillableTokens } from './usageFormat'
+
+/**
+ * Cost and token line for the session header; expands to a per-model
+ * breakdown and the budgets that apply to the session.
+ */
+export function SessionUsageSummary(props: { api: ApiClient | null; sessionId: string; thinking: boolean }) {
+    const { t } = useTranslation()
+    const { usage, refetch } = useSessionUsage(props.api, props.sessionId)
+    const [open, setOpen] = useState(false)
+
+    // Usage is reported at the end of each turn
+    useEffect(() => {
+        if (!props.thinking) {
+            void refetch()
+        }
+    }, [props.thinking, refetch])
+
+    if (!usage || usage.totals.turns === 0) {
+        return null
+    }
+
+    const exceeded = usage.budgets.some((status) => status.exceeded)
+
+    return (
+        <span className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen((value) => !value)}
+                aria-expanded={open}
+                className={`hover:underline ${exceeded ? 'text-red-600' : ''}`}
+                title={t('usage.session.title')}
+            >
+                {formatUsd(usage.totals.costUsd)} · {t('usage.tokens', { count: formatTokenCount(getBillableTokens(usage.totals)) })}
+            </button>
+            {open ? (
+                <div className="absolute left-0 top-full z-20 mt-1 w-72 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] p-3 text-xs text-[var(--app-fg)] shadow-lg">
+                    <div className="mb-2 font-semibold">{t('usage.session.title')}</div>
+                    <div className="flex flex-col gap-1">
+                        {usage.byModel.map((row) => (
+                            <div key={`${row.flavor}:${row.model}`} className="flex items-center justify-between gap-2">
+                                <span className="truncate">{row.model ?? row.flavor ?? t('usage.unknownModel')}</span>
+                                <span className="shrink-0 text-[var(--app-hint)]">
+                                    {formatUsd(row.costUsd)} · {formatTokenCount(getBillableTokens(row))}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="mt-2 text-[var(--app-hint)]">
+                        {t('usage.session.cache', {
+                            read: formatTokenCount(usage.totals.cacheReadTokens),
+                            write: formatTokenCount(usage.totals.cacheCreationTokens)
+                        })}
+                    </div>
+                    {usage.budgets.length > 0 ? (
+                        <div className="mt-2 flex flex-col gap-1 border-t border-[var(--app-divider)] pt-2">
+                            {usage.budgets.map((status) => (
+                                <div
+                                    key={status.budget.id}
+                                    className={`flex items-center justify-between gap-2 ${status.exceeded ? 'text-red-600' : ''}`}
+                                >
+                                    <span className="truncate">{status.budget.name}</span>
+                                    <span className="shrink-0">
+                                        {status.budget.limitUsd !== null
+                                            ? `${formatUsd(status.usedUsd)} / ${formatUsd(status.budget.limitUsd)}`
+                                            : `${formatTokenCount(status.usedTokens)} / ${formatTokenCount(status.budget.limitTokens ?? 0)}`}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    ) : null}
+                </div>
+            ) : null}
+        </span>
+    )
+}
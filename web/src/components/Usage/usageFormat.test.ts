@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { formatTokenCount, formatUsd } from './usageFormat'
+
+describe('formatTokenCount', () => {
+    it('abbreviates thousands and millions', () => {
+        expect(formatTokenCount(950)).toBe('950')
+        expect(formatTokenCount(12_400)).toBe('12.4k')
+        expect(formatTokenCount(20_000)).toBe('20k')
+        expect(formatTokenCount(345_678)).toBe('346k')
+        expect(formatTokenCount(3_200_000)).toBe('3.2M')
+    })
+})
+
+describe('formatUsd', () => {
+    it('rounds to cents and marks tiny amounts', () => {
+        expect(formatUsd(0)).toBe('$0.00')
+        expect(formatUsd(0.004)).toBe('<$0.01')
+        expect(formatUsd(12.346)).toBe('$12.35')
+    })
+})
@@ -0,0 +1,28 @@
+import type { UsageTotals } from '@/types/api'
+
+export function formatUsd(value: number): string {
+    if (value > 0 && value < 0.01) {
+        return '<$0.01'
+    }
+    return `$${value.toFixed(2)}`
+}
+
+// 950 -> "950", 12_400 -> "12.4k", 3_200_000 -> "3.2M"
+export function formatTokenCount(value: number): string {
+    if (value < 1000) {
+        return `${value}`
+    }
+    if (value < 1_000_000) {
+        return `${trimDecimal(value / 1000)}k`
+    }
+    return `${trimDecimal(value / 1_000_000)}M`
+}
+
+// Budgets count input and output tokens; cache traffic is shown separately
+export function getBillableTokens(totals: Pick<UsageTotals, 'inputTokens' | 'outputTokens'>): number {
+    return totals.inputTokens + totals.outputTokens
+}
+
+function trimDecimal(value: number): string {
+    return value >= 100 ? value.toFixed(0) : value.toFixed(1).replace(/\.0$/, '')
+}
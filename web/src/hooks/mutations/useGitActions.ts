@@ -0,0 +1,64 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { GitCommandResponse, GitPatchMode } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+// Git explains most failures (rejected push, hook output, conflicts) on stderr
+function getGitError(result: GitCommandResponse): string {
+    return result.stderr?.trim() || result.error || 'Git command failed'
+}
+
+export function useGitActions(api: ApiClient | null, sessionId: string | null): {
+    stage: (paths: string[]) => Promise<void>
+    unstage: (paths: string[]) => Promise<void>
+    discard: (paths: string[], untrackedPaths: string[]) => Promise<void>
+    applyPatch: (patch: string, mode: GitPatchMode) => Promise<void>
+    commit: (message: string, amend: boolean) => Promise<void>
+    createBranch: (name: string) => Promise<void>
+    switchBranch: (name: string) => Promise<void>
+    push: (setUpstream: boolean) => Promise<void>
+    pull: () => Promise<void>
+    fetch: () => Promise<void>
+    isPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const invalidateGit = async () => {
+        if (!sessionId) return
+        await Promise.all([
+            queryClient.invalidateQueries({ queryKey: queryKeys.gitStatus(sessionId) }),
+            queryClient.invalidateQueries({ queryKey: queryKeys.gitBranches(sessionId) }),
+            queryClient.invalidateQueries({ queryKey: ['git-file-diff', sessionId] }),
+            queryClient.invalidateQueries({ queryKey: ['structural-file-diff', sessionId] }),
+            queryClient.invalidateQueries({ queryKey: ['session-file', sessionId] }),
+        ])
+    }
+
+    const mutation = useMutation({
+        mutationFn: async (run: (api: ApiClient, sessionId: string) => Promise<GitCommandResponse>) => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+            const result = await run(api, sessionId)
+            if (!result.success) {
+                throw new Error(getGitError(result))
+            }
+        },
+        // Failed pulls and discards can still have changed the tree
+        onSettled: () => void invalidateGit(),
+    })
+
+    return {
+        stage: (paths) => mutation.mutateAsync((api, id) => api.stageGitPaths(id, paths)),
+        unstage: (paths) => mutation.mutateAsync((api, id) => api.unstageGitPaths(id, paths)),
+        discard: (paths, untrackedPaths) => mutation.mutateAsync((api, id) => api.discardGitChanges(id, paths, untrackedPaths)),
+        applyPatch: (patch, mode) => mutation.mutateAsync((api, id) => api.applyGitPatch(id, patch, mode)),
+        commit: (message, amend) => mutation.mutateAsync((api, id) => api.commitGit(id, message, amend)),
+        createBranch: (name) => mutation.mutateAsync((api, id) => api.createGitBranch(id, name)),
+        switchBranch: (name) => mutation.mutateAsync((api, id) => api.switchGitBranch(id, name)),
+        push: (setUpstream) => mutation.mutateAsync((api, id) => api.pushGit(id, setUpstream)),
+        pull: () => mutation.mutateAsync((api, id) => api.pullGit(id)),
+        fetch: () => mutation.mutateAsync((api, id) => api.fetchGit(id)),
+        isPending: mutation.isPending,
+    }
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import { queryKeys } from '@/lib/query-keys'
+
+type HandoffSessionInput = {
+    machineId: string
+    directory?: string
+}
+
+export function useHandoffSession(
+    api: ApiClient | null,
+    sessionId: string | null
+): {
+    handoffSession: (input: HandoffSessionInput) => Promise<string>
+    isPending: boolean
+    error: Error | null
+} {
+    const queryClient = useQueryClient()
+
+    const mutation = useMutation({
+        mutationFn: async (input: HandoffSessionInput) => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+            return await api.handoffSession(sessionId, input.machineId, input.directory)
+        },
+        onSuccess: async (newSessionId) => {
+            await queryClient.invalidateQueries({ queryKey: queryKeys.sessions })
+            if (newSessionId !== sessionId) {
+                await queryClient.invalidateQueries({ queryKey: queryKeys.session(newSessionId) })
+            }
+            if (sessionId) {
+                await queryClient.invalidateQueries({ queryKey: queryKeys.session(sessionId) })
+            }
+        },
+    })
+
+    return {
+        handoffSession: mutation.mutateAsync,
+        isPending: mutation.isPending,
+        error: mutation.error,
+    }
+}
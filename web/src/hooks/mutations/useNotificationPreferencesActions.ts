@@ -0,0 +1,28 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { NotificationPreferences, NotificationPreferencesResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useNotificationPreferencesActions(api: ApiClient | null): {
+    savePreferences: (preferences: NotificationPreferences) => Promise<NotificationPreferencesResponse>
+    isPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const saveMutation = useMutation({
+        mutationFn: async (preferences: NotificationPreferences) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.updateNotificationPreferences(preferences)
+        },
+        onSuccess: (response) => {
+            queryClient.setQueryData(queryKeys.notificationPreferences, response)
+        },
+    })
+
+    return {
+        savePreferences: saveMutation.mutateAsync,
+        isPending: saveMutation.isPending,
+    }
+}
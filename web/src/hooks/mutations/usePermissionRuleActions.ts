@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { PermissionRule, PermissionRuleDryRunResponse, PermissionRuleInput } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function usePermissionRuleActions(api: ApiClient | null): {
+    createRule: (input: PermissionRuleInput) => Promise<PermissionRule>
+    updateRule: (ruleId: string, input: PermissionRuleInput) => Promise<PermissionRule>
+    deleteRule: (ruleId: string) => Promise<void>
+    dryRun: (input: PermissionRuleInput) => Promise<PermissionRuleDryRunResponse>
+    isPending: boolean
+    isDryRunPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const invalidateRules = async () => {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.permissionRules })
+    }
+
+    const createMutation = useMutation({
+        mutationFn: async (input: PermissionRuleInput) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.createPermissionRule(input)
+            return response.rule
+        },
+        onSuccess: () => void invalidateRules(),
+    })
+
+    const updateMutation = useMutation({
+        mutationFn: async (args: { ruleId: string; input: PermissionRuleInput }) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.updatePermissionRule(args.ruleId, args.input)
+            return response.rule
+        },
+        onSuccess: () => void invalidateRules(),
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: async (ruleId: string) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            await api.deletePermissionRule(ruleId)
+        },
+        onSuccess: () => void invalidateRules(),
+    })
+
+    const dryRunMutation = useMutation({
+        mutationFn: async (input: PermissionRuleInput) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.dryRunPermissionRule(input)
+        },
+    })
+
+    return {
+        createRule: createMutation.mutateAsync,
+        updateRule: (ruleId, input) => updateMutation.mutateAsync({ ruleId, input }),
+        deleteRule: deleteMutation.mutateAsync,
+        dryRun: dryRunMutation.mutateAsync,
+        isPending: createMutation.isPending
+            || updateMutation.isPending
+            || deleteMutation.isPending,
+        isDryRunPending: dryRunMutation.isPending,
+    }
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { QueueCommandResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useQueueActions(api: ApiClient | null, sessionId: string | null): {
+    editPrompt: (promptId: string, text: string) => Promise<void>
+    deletePrompt: (promptId: string) => Promise<void>
+    reorderPrompts: (ids: string[]) => Promise<void>
+    sendPromptNow: (promptId: string) => Promise<void>
+    setMerge: (merge: boolean) => Promise<void>
+    isPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const mutation = useMutation({
+        mutationFn: async (run: (api: ApiClient, sessionId: string) => Promise<QueueCommandResponse>) => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+            const result = await run(api, sessionId)
+            if (!result.success) {
+                throw new Error(result.error || 'Queue update failed')
+            }
+        },
+        // The queue also arrives with session updates; refetch in case one was missed
+        onSettled: () => {
+            if (!sessionId) return
+            void queryClient.invalidateQueries({ queryKey: queryKeys.session(sessionId) })
+        },
+    })
+
+    return {
+        editPrompt: (promptId, text) => mutation.mutateAsync((api, id) => api.editQueuedPrompt(id, promptId, text)),
+        deletePrompt: (promptId) => mutation.mutateAsync((api, id) => api.deleteQueuedPrompt(id, promptId)),
+        reorderPrompts: (ids) => mutation.mutateAsync((api, id) => api.reorderQueuedPrompts(id, ids)),
+        sendPromptNow: (promptId) => mutation.mutateAsync((api, id) => api.sendQueuedPromptNow(id, promptId)),
+        setMerge: (merge) => mutation.mutateAsync((api, id) => api.setQueueMerge(id, merge)),
+        isPending: mutation.isPending,
+    }
+}
@@ -0,0 +1,76 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { Schedule, ScheduleInput, ScheduleRun } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useScheduleActions(api: ApiClient | null): {
+    createSchedule: (input: ScheduleInput) => Promise<Schedule>
+    updateSchedule: (scheduleId: string, input: ScheduleInput) => Promise<Schedule>
+    deleteSchedule: (scheduleId: string) => Promise<void>
+    runSchedule: (scheduleId: string) => Promise<ScheduleRun>
+    isPending: boolean
+    isRunPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const invalidateSchedules = async () => {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.schedules })
+    }
+
+    const createMutation = useMutation({
+        mutationFn: async (input: ScheduleInput) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.createSchedule(input)
+            return response.schedule
+        },
+        onSuccess: () => void invalidateSchedules(),
+    })
+
+    const updateMutation = useMutation({
+        mutationFn: async (args: { scheduleId: string; input: ScheduleInput }) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.updateSchedule(args.scheduleId, args.input)
+            return response.schedule
+        },
+        onSuccess: () => void invalidateSchedules(),
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: async (scheduleId: string) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            await api.deleteSchedule(scheduleId)
+        },
+        onSuccess: () => void invalidateSchedules(),
+    })
+
+    const runMutation = useMutation({
+        mutationFn: async (scheduleId: string) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.runSchedule(scheduleId)
+            return response.run
+        },
+        onSettled: (_data, _error, scheduleId) => {
+            void invalidateSchedules()
+            void queryClient.invalidateQueries({ queryKey: queryKeys.scheduleRuns(scheduleId) })
+        },
+    })
+
+    return {
+        createSchedule: createMutation.mutateAsync,
+        updateSchedule: (scheduleId, input) => updateMutation.mutateAsync({ scheduleId, input }),
+        deleteSchedule: deleteMutation.mutateAsync,
+        runSchedule: runMutation.mutateAsync,
+        isPending: createMutation.isPending
+            || updateMutation.isPending
+            || deleteMutation.isPending,
+        isRunPending: runMutation.isPending,
+    }
+}
@@ -1,7 +1,7 @@
 import { useMutation } from '@tanstack/react-query'
 import { useRef, useState } from 'react'
 import type { ApiClient } from '@/api/client'
-import type { AttachmentMetadata, DecryptedMessage } from '@/types/api'
+import type { AttachmentMetadata, AuditOrigin, DecryptedMessage } from '@/types/api'
 import { makeClientSideId } from '@/lib/messages'
 import {
     appendOptimisticMessage,
@@ -16,6 +16,7 @@ type SendMessageInput = {
     localId: string
     createdAt: number
     attachments?: AttachmentMetadata[]
+    origin?: AuditOrigin
 }
 
 type BlockedReason = 'no-api' | 'no-session' | 'pending'
@@ -45,7 +46,7 @@ export function useSendMessage(
     sessionId: string | null,
     options?: UseSendMessageOptions
 ): {
-    sendMessage: (text: string, attachments?: AttachmentMetadata[]) => void
+    sendMessage: (text: string, attachments?: AttachmentMetadata[], origin?: AuditOrigin) => void
     retryMessage: (localId: string) => void
     isSending: boolean
 } {
@@ -58,7 +59,8 @@ export function useSendMessage(
             if (!api) {
                 throw new Error('API unavailable')
             }
-            await api.sendMessage(input.sessionId, input.text, input.localId, input.attachments)
+            const client = input.origin ? api.withOrigin(input.origin) : api
+            await client.sendMessage(input.sessionId, input.text, input.localId, input.attachments)
         },
         onMutate: async (input) => {
             const optimisticMessage: DecryptedMessage = {
@@ -90,7 +92,7 @@ export function useSendMessage(
         },
     })
 
-    const sendMessage = (text: string, attachments?: AttachmentMetadata[]) => {
+    const sendMessage = (text: string, attachments?: AttachmentMetadata[], origin?: AuditOrigin) => {
         if (!api) {
             options?.onBlocked?.('no-api')
             haptic.notification('error')
@@ -133,6 +135,7 @@ export function useSendMessage(
                 localId,
                 createdAt,
                 attachments,
+                origin,
             })
         })()
     }
@@ -6,6 +6,12 @@ import { queryKeys } from '@/lib/query-keys'
 import { clearMessageWindow } from '@/lib/message-window-store'
 import { isKnownFlavor } from '@/lib/agentFlavorUtils'
 
+export type ModelSelection = {
+    model: ModelMode
+    // undefined leaves the current effort, null resets it to the model default
+    reasoningEffort?: string | null
+}
+
 export function useSessionActions(
     api: ApiClient | null,
     sessionId: string | null,
@@ -15,7 +21,7 @@ export function useSessionActions(
     archiveSession: () => Promise<void>
     switchSession: () => Promise<void>
     setPermissionMode: (mode: PermissionMode) => Promise<void>
-    setModelMode: (mode: ModelMode) => Promise<void>
+    setModelMode: (selection: ModelSelection) => Promise<void>
     renameSession: (name: string) => Promise<void>
     deleteSession: () => Promise<void>
     isPending: boolean
@@ -72,11 +78,11 @@ export function useSessionActions(
     })
 
     const modelMutation = useMutation({
-        mutationFn: async (mode: ModelMode) => {
+        mutationFn: async ({ model, reasoningEffort }: ModelSelection) => {
             if (!api || !sessionId) {
                 throw new Error('Session unavailable')
             }
-            await api.setModelMode(sessionId, mode)
+            await api.setModelMode(sessionId, model, reasoningEffort)
         },
         onSuccess: () => void invalidateSession(),
     })
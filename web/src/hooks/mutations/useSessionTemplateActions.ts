@@ -0,0 +1,76 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { SessionTemplate, SessionTemplateInput, SpawnResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useSessionTemplateActions(api: ApiClient | null): {
+    createTemplate: (input: SessionTemplateInput) => Promise<SessionTemplate>
+    updateTemplate: (templateId: string, input: SessionTemplateInput) => Promise<SessionTemplate>
+    deleteTemplate: (templateId: string) => Promise<void>
+    launchTemplate: (template: SessionTemplate) => Promise<SpawnResponse>
+    isPending: boolean
+    isLaunchPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const invalidateTemplates = async () => {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.sessionTemplates })
+    }
+
+    const createMutation = useMutation({
+        mutationFn: async (input: SessionTemplateInput) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.createSessionTemplate(input)
+            return response.template
+        },
+        onSuccess: () => void invalidateTemplates(),
+    })
+
+    const updateMutation = useMutation({
+        mutationFn: async (args: { templateId: string; input: SessionTemplateInput }) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.updateSessionTemplate(args.templateId, args.input)
+            return response.template
+        },
+        onSuccess: () => void invalidateTemplates(),
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: async (templateId: string) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            await api.deleteSessionTemplate(templateId)
+        },
+        onSuccess: () => void invalidateTemplates(),
+    })
+
+    const launchMutation = useMutation({
+        mutationFn: async (template: SessionTemplate) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.spawnSessionFromTemplate(template.machineId, template.id)
+        },
+        onSuccess: (result) => {
+            if (result.type === 'success') {
+                void queryClient.invalidateQueries({ queryKey: queryKeys.sessions })
+            }
+        },
+    })
+
+    return {
+        createTemplate: createMutation.mutateAsync,
+        updateTemplate: (templateId, input) => updateMutation.mutateAsync({ templateId, input }),
+        deleteTemplate: deleteMutation.mutateAsync,
+        launchTemplate: launchMutation.mutateAsync,
+        isPending: createMutation.isPending
+            || updateMutation.isPending
+            || deleteMutation.isPending,
+        isLaunchPending: launchMutation.isPending,
+    }
+}
@@ -1,12 +1,12 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import type { ApiClient } from '@/api/client'
-import type { SpawnResponse } from '@/types/api'
+import type { SpawnAgent, SpawnResponse } from '@/types/api'
 import { queryKeys } from '@/lib/query-keys'
 
 type SpawnInput = {
     machineId: string
     directory: string
-    agent?: 'claude' | 'codex' | 'gemini' | 'opencode'
+    agent?: SpawnAgent
     model?: string
     yolo?: boolean
     sessionType?: 'simple' | 'worktree'
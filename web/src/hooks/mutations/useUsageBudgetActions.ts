@@ -0,0 +1,58 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { UsageBudgetInput, UsageBudgetStatus } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useUsageBudgetActions(api: ApiClient | null): {
+    createBudget: (input: UsageBudgetInput) => Promise<UsageBudgetStatus>
+    updateBudget: (budgetId: string, input: UsageBudgetInput) => Promise<UsageBudgetStatus>
+    deleteBudget: (budgetId: string) => Promise<void>
+    isPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const invalidateBudgets = async () => {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.usageBudgets })
+    }
+
+    const createMutation = useMutation({
+        mutationFn: async (input: UsageBudgetInput) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.createUsageBudget(input)
+            return response.budget
+        },
+        onSuccess: () => void invalidateBudgets(),
+    })
+
+    const updateMutation = useMutation({
+        mutationFn: async (args: { budgetId: string; input: UsageBudgetInput }) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.updateUsageBudget(args.budgetId, args.input)
+            return response.budget
+        },
+        onSuccess: () => void invalidateBudgets(),
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: async (budgetId: string) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            await api.deleteUsageBudget(budgetId)
+        },
+        onSuccess: () => void invalidateBudgets(),
+    })
+
+    return {
+        createBudget: createMutation.mutateAsync,
+        updateBudget: (budgetId, input) => updateMutation.mutateAsync({ budgetId, input }),
+        deleteBudget: deleteMutation.mutateAsync,
+        isPending: createMutation.isPending
+            || updateMutation.isPending
+            || deleteMutation.isPending,
+    }
+}
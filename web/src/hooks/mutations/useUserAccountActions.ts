@@ -0,0 +1,70 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { CreateUserAccountResponse, UserAccount, UserAccountInput, UserRole } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useUserAccountActions(api: ApiClient | null): {
+    createUser: (input: UserAccountInput) => Promise<CreateUserAccountResponse>
+    updateRole: (userId: number, role: UserRole) => Promise<UserAccount>
+    regenerateToken: (userId: number) => Promise<string>
+    deleteUser: (userId: number) => Promise<void>
+    isPending: boolean
+} {
+    const queryClient = useQueryClient()
+
+    const invalidateUsers = async () => {
+        await queryClient.invalidateQueries({ queryKey: queryKeys.userAccounts })
+    }
+
+    const createMutation = useMutation({
+        mutationFn: async (input: UserAccountInput) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.createUserAccount(input)
+        },
+        onSuccess: () => void invalidateUsers(),
+    })
+
+    const updateMutation = useMutation({
+        mutationFn: async (args: { userId: number; role: UserRole }) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.updateUserRole(args.userId, args.role)
+            return response.user
+        },
+        onSuccess: () => void invalidateUsers(),
+    })
+
+    const regenerateMutation = useMutation({
+        mutationFn: async (userId: number) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            const response = await api.regenerateUserToken(userId)
+            return response.token
+        },
+    })
+
+    const deleteMutation = useMutation({
+        mutationFn: async (userId: number) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            await api.deleteUserAccount(userId)
+        },
+        onSuccess: () => void invalidateUsers(),
+    })
+
+    return {
+        createUser: createMutation.mutateAsync,
+        updateRole: (userId, role) => updateMutation.mutateAsync({ userId, role }),
+        regenerateToken: regenerateMutation.mutateAsync,
+        deleteUser: deleteMutation.mutateAsync,
+        isPending: createMutation.isPending
+            || updateMutation.isPending
+            || regenerateMutation.isPending
+            || deleteMutation.isPending,
+    }
+}
@@ -0,0 +1,48 @@
+import { useInfiniteQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { AuditEvent, AuditEventFilters } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+const PAGE_SIZE = 100
+
+export function useAuditEvents(
+    api: ApiClient | null,
+    filters: AuditEventFilters
+): {
+    events: AuditEvent[]
+    isLoading: boolean
+    error: string | null
+    hasMore: boolean
+    isLoadingMore: boolean
+    loadMore: () => void
+} {
+    const query = useInfiniteQuery({
+        queryKey: queryKeys.auditEvents(filters),
+        queryFn: async ({ pageParam }) => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getAuditEvents({ ...filters, before: pageParam })
+        },
+        initialPageParam: undefined as number | undefined,
+        // Events are newest first; the next page starts below the oldest id seen
+        getNextPageParam: (lastPage) => {
+            if (lastPage.events.length < PAGE_SIZE) {
+                return undefined
+            }
+            return lastPage.events[lastPage.events.length - 1]?.id
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        events: query.data?.pages.flatMap((page) => page.events) ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load audit log' : null,
+        hasMore: query.hasNextPage,
+        isLoadingMore: query.isFetchingNextPage,
+        loadMore: () => {
+            void query.fetchNextPage()
+        },
+    }
+}
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { GitBranch } from '@/types/api'
+import { parseBranchList } from '@/lib/gitParsers'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useGitBranches(api: ApiClient | null, sessionId: string | null, enabled: boolean = true): {
+    branches: GitBranch[]
+    error: string | null
+    isLoading: boolean
+    refetch: () => Promise<unknown>
+} {
+    const resolvedSessionId = sessionId ?? 'unknown'
+    const query = useQuery({
+        queryKey: queryKeys.gitBranches(resolvedSessionId),
+        queryFn: async () => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+
+            const result = await api.getGitBranches(sessionId)
+            if (!result.success) {
+                throw new Error(result.error ?? result.stderr ?? 'Branches unavailable')
+            }
+            return parseBranchList(result.stdout ?? '')
+        },
+        enabled: enabled && Boolean(api && sessionId),
+    })
+
+    return {
+        branches: query.data ?? [],
+        error: query.error instanceof Error ? query.error.message : null,
+        isLoading: query.isLoading,
+        refetch: query.refetch
+    }
+}
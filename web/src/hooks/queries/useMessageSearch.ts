@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { MessageSearchFilters, MessageSearchResult } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useMessageSearch(
+    api: ApiClient | null,
+    query: string,
+    filters: MessageSearchFilters
+): {
+    results: MessageSearchResult[]
+    error: string | null
+    isLoading: boolean
+    isFetching: boolean
+} {
+    const trimmed = query.trim()
+
+    const result = useQuery({
+        queryKey: queryKeys.messageSearch(trimmed, filters),
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.searchMessages(trimmed, filters)
+        },
+        enabled: Boolean(api) && trimmed.length > 0,
+    })
+
+    return {
+        results: result.data?.results ?? [],
+        error: result.error instanceof Error ? result.error.message : result.error ? 'Search failed' : null,
+        isLoading: result.isLoading,
+        isFetching: result.isFetching,
+    }
+}
@@ -33,6 +33,7 @@ export function useMessages(api: ApiClient | null, sessionId: string | null): {
     isLoading: boolean
     isLoadingMore: boolean
     hasMore: boolean
+    oldestSeq: number | null
     pendingCount: number
     messagesVersion: number
     loadMore: () => Promise<unknown>
@@ -102,6 +103,7 @@ export function useMessages(api: ApiClient | null, sessionId: string | null): {
         isLoading: state.isLoading,
         isLoadingMore: state.isLoadingMore,
         hasMore: state.hasMore,
+        oldestSeq: state.oldestSeq,
         pendingCount: state.pendingCount,
         messagesVersion: state.messagesVersion,
         loadMore,
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { ModelCatalog, SpawnAgent } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useModelCatalog(
+    api: ApiClient | null,
+    machineId: string | null,
+    agent: SpawnAgent,
+    enabled: boolean = true
+): {
+    catalog: ModelCatalog | null
+    isLoading: boolean
+} {
+    const query = useQuery({
+        queryKey: queryKeys.machineModels(machineId ?? 'unknown', agent),
+        queryFn: async () => {
+            if (!api || !machineId) {
+                throw new Error('Machine unavailable')
+            }
+            return await api.getMachineModels(machineId, agent)
+        },
+        enabled: Boolean(api && machineId && enabled),
+        staleTime: 5 * 60 * 1000,
+        retry: false,
+    })
+
+    return {
+        catalog: query.data?.catalog ?? null,
+        isLoading: query.isLoading,
+    }
+}
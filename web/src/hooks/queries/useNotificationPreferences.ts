@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { NotificationPreferencesResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useNotificationPreferences(api: ApiClient | null): {
+    data: NotificationPreferencesResponse | null
+    isLoading: boolean
+    error: string | null
+} {
+    const query = useQuery({
+        queryKey: queryKeys.notificationPreferences,
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getNotificationPreferences()
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        data: query.data ?? null,
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load notification preferences' : null,
+    }
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { PermissionRule } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function usePermissionRules(api: ApiClient | null): {
+    rules: PermissionRule[]
+    isLoading: boolean
+    error: string | null
+    refetch: () => Promise<unknown>
+} {
+    const query = useQuery({
+        queryKey: queryKeys.permissionRules,
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getPermissionRules()
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        rules: query.data?.rules ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load permission rules' : null,
+        refetch: query.refetch,
+    }
+}
@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { ScheduleRun } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useScheduleRuns(api: ApiClient | null, scheduleId: string | null): {
+    runs: ScheduleRun[]
+    isLoading: boolean
+    error: string | null
+} {
+    const query = useQuery({
+        queryKey: queryKeys.scheduleRuns(scheduleId ?? ''),
+        queryFn: async () => {
+            if (!api || !scheduleId) {
+                throw new Error('API unavailable')
+            }
+            return await api.getScheduleRuns(scheduleId)
+        },
+        enabled: Boolean(api && scheduleId),
+    })
+
+    return {
+        runs: query.data?.runs ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load schedule runs' : null,
+    }
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { Schedule } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useSchedules(api: ApiClient | null): {
+    schedules: Schedule[]
+    isLoading: boolean
+    error: string | null
+    refetch: () => Promise<unknown>
+} {
+    const query = useQuery({
+        queryKey: queryKeys.schedules,
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getSchedules()
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        schedules: query.data?.schedules ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load schedules' : null,
+        refetch: query.refetch,
+    }
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { SessionTemplate } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useSessionTemplates(api: ApiClient | null): {
+    templates: SessionTemplate[]
+    isLoading: boolean
+    error: string | null
+    refetch: () => Promise<unknown>
+} {
+    const query = useQuery({
+        queryKey: queryKeys.sessionTemplates,
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getSessionTemplates()
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        templates: query.data?.templates ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load templates' : null,
+        refetch: query.refetch,
+    }
+}
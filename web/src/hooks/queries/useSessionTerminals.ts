@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { TerminalSummary } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useSessionTerminals(api: ApiClient | null, sessionId: string | null, enabled: boolean = true): {
+    terminals: TerminalSummary[]
+    error: string | null
+    isLoading: boolean
+    refetch: () => Promise<unknown>
+} {
+    const resolvedSessionId = sessionId ?? 'unknown'
+    const query = useQuery({
+        queryKey: queryKeys.sessionTerminals(resolvedSessionId),
+        queryFn: async () => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+
+            const result = await api.getSessionTerminals(sessionId)
+            if (!result.success) {
+                throw new Error(result.error ?? 'Terminals unavailable')
+            }
+            return result.terminals ?? []
+        },
+        enabled: enabled && Boolean(api && sessionId),
+    })
+
+    return {
+        terminals: query.data ?? [],
+        error: query.error instanceof Error ? query.error.message : null,
+        isLoading: query.isLoading,
+        refetch: query.refetch
+    }
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { SessionUsageResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useSessionUsage(api: ApiClient | null, sessionId: string | null): {
+    usage: SessionUsageResponse | null
+    isLoading: boolean
+    error: string | null
+    refetch: () => Promise<unknown>
+} {
+    const query = useQuery({
+        queryKey: queryKeys.sessionUsage(sessionId ?? ''),
+        queryFn: async () => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+            return await api.getSessionUsage(sessionId)
+        },
+        enabled: Boolean(api && sessionId),
+    })
+
+    return {
+        usage: query.data ?? null,
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load usage' : null,
+        refetch: query.refetch,
+    }
+}
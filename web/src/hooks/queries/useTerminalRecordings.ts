@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { TerminalRecordingSummary } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useTerminalRecordings(api: ApiClient | null, sessionId: string | null, enabled: boolean = true): {
+    recordings: TerminalRecordingSummary[]
+    error: string | null
+    isLoading: boolean
+    refetch: () => Promise<unknown>
+} {
+    const resolvedSessionId = sessionId ?? 'unknown'
+    const query = useQuery({
+        queryKey: queryKeys.terminalRecordings(resolvedSessionId),
+        queryFn: async () => {
+            if (!api || !sessionId) {
+                throw new Error('Session unavailable')
+            }
+
+            const result = await api.getTerminalRecordings(sessionId)
+            if (!result.success) {
+                throw new Error(result.error ?? 'Recordings unavailable')
+            }
+            return result.recordings ?? []
+        },
+        enabled: enabled && Boolean(api && sessionId),
+    })
+
+    return {
+        recordings: query.data ?? [],
+        error: query.error instanceof Error ? query.error.message : null,
+        isLoading: query.isLoading,
+        refetch: query.refetch
+    }
+}
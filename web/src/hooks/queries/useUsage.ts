@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { UsageFilters, UsageResponse } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useUsage(api: ApiClient | null, filters: UsageFilters): {
+    usage: UsageResponse | null
+    isLoading: boolean
+    error: string | null
+} {
+    const query = useQuery({
+        queryKey: queryKeys.usage(filters),
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getUsage(filters)
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        usage: query.data ?? null,
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load usage' : null,
+    }
+}
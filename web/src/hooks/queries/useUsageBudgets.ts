@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { UsageBudgetStatus } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useUsageBudgets(api: ApiClient | null): {
+    budgets: UsageBudgetStatus[]
+    isLoading: boolean
+    error: string | null
+} {
+    const query = useQuery({
+        queryKey: queryKeys.usageBudgets,
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getUsageBudgets()
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        budgets: query.data?.budgets ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load budgets' : null,
+    }
+}
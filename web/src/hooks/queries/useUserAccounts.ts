@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ApiClient } from '@/api/client'
+import type { UserAccount } from '@/types/api'
+import { queryKeys } from '@/lib/query-keys'
+
+export function useUserAccounts(api: ApiClient | null): {
+    users: UserAccount[]
+    isLoading: boolean
+    error: string | null
+    refetch: () => Promise<unknown>
+} {
+    const query = useQuery({
+        queryKey: queryKeys.userAccounts,
+        queryFn: async () => {
+            if (!api) {
+                throw new Error('API unavailable')
+            }
+            return await api.getUserAccounts()
+        },
+        enabled: Boolean(api),
+    })
+
+    return {
+        users: query.data?.users ?? [],
+        isLoading: query.isLoading,
+        error: query.error instanceof Error ? query.error.message : query.error ? 'Failed to load users' : null,
+        refetch: query.refetch,
+    }
+}
@@ -7,15 +7,37 @@ type TerminalConnectionState =
     | { status: 'connected' }
     | { status: 'error'; error: string }
 
+export type TerminalViewerMode = 'control' | 'watch'
+
 type UseTerminalSocketOptions = {
     baseUrl: string
     token: string
     sessionId: string
     terminalId: string
+    // 'create' starts a new shell; the others attach to a running one
+    mode: 'create' | TerminalViewerMode
 }
 
 type TerminalReadyPayload = {
     terminalId: string
+    mode?: TerminalViewerMode
+}
+
+export type TerminalRecordingState = {
+    recordingId: string
+    input: boolean
+}
+
+type TerminalReplayPayload = {
+    terminalId: string
+    data: string
+    recording?: TerminalRecordingState | null
+}
+
+type TerminalRecordingPayload = {
+    terminalId: string
+    recording: TerminalRecordingState | null
+    error?: string
 }
 
 type TerminalOutputPayload = {
@@ -36,28 +58,43 @@ type TerminalErrorPayload = {
 
 export function useTerminalSocket(options: UseTerminalSocketOptions): {
     state: TerminalConnectionState
+    mode: TerminalViewerMode | null
+    recording: TerminalRecordingState | null
+    recordingError: string | null
     connect: (cols: number, rows: number) => void
     write: (data: string) => void
     resize: (cols: number, rows: number) => void
+    takeControl: () => void
+    setRecording: (options: { input: boolean } | null) => void
+    close: () => void
     disconnect: () => void
     onOutput: (handler: (data: string) => void) => void
+    onReplay: (handler: (data: string) => void) => void
     onExit: (handler: (code: number | null, signal: string | null) => void) => void
 } {
     const [state, setState] = useState<TerminalConnectionState>({ status: 'idle' })
+    const [mode, setMode] = useState<TerminalViewerMode | null>(null)
+    const [recording, setRecordingState] = useState<TerminalRecordingState | null>(null)
+    const [recordingError, setRecordingError] = useState<string | null>(null)
     const socketRef = useRef<Socket | null>(null)
     const outputHandlerRef = useRef<(data: string) => void>(() => {})
+    const replayHandlerRef = useRef<(data: string) => void>(() => {})
     const exitHandlerRef = useRef<(code: number | null, signal: string | null) => void>(() => {})
     const sessionIdRef = useRef(options.sessionId)
     const terminalIdRef = useRef(options.terminalId)
     const tokenRef = useRef(options.token)
     const baseUrlRef = useRef(options.baseUrl)
     const lastSizeRef = useRef<{ cols: number; rows: number } | null>(null)
+    // Once the shell exists, reconnects reattach to it instead of creating another
+    const requestedModeRef = useRef(options.mode)
+    const modeRef = useRef<TerminalViewerMode | null>(null)
 
     useEffect(() => {
         sessionIdRef.current = options.sessionId
         terminalIdRef.current = options.terminalId
         baseUrlRef.current = options.baseUrl
-    }, [options.sessionId, options.terminalId, options.baseUrl])
+        requestedModeRef.current = options.mode
+    }, [options.sessionId, options.terminalId, options.baseUrl, options.mode])
 
     useEffect(() => {
         tokenRef.current = options.token
@@ -80,14 +117,28 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
 
     const isCurrentTerminal = useCallback((terminalId: string) => terminalId === terminalIdRef.current, [])
 
+    const emitAttach = useCallback((socket: Socket, attachMode: TerminalViewerMode, size: { cols: number; rows: number }) => {
+        socket.emit('terminal:attach', {
+            sessionId: sessionIdRef.current,
+            terminalId: terminalIdRef.current,
+            mode: attachMode,
+            ...(attachMode === 'control' ? size : {})
+        })
+    }, [])
+
     const emitCreate = useCallback((socket: Socket, size: { cols: number; rows: number }) => {
+        const requested = modeRef.current ?? requestedModeRef.current
+        if (requested !== 'create') {
+            emitAttach(socket, requested, size)
+            return
+        }
         socket.emit('terminal:create', {
             sessionId: sessionIdRef.current,
             terminalId: terminalIdRef.current,
             cols: size.cols,
             rows: size.rows
         })
-    }, [])
+    }, [emitAttach])
 
     const setErrorState = useCallback((message: string) => {
         setState({ status: 'error', error: message })
@@ -140,9 +191,28 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
             if (!isCurrentTerminal(payload.terminalId)) {
                 return
             }
+            const nextMode = payload.mode ?? 'control'
+            modeRef.current = nextMode
+            setMode(nextMode)
             setState({ status: 'connected' })
         })
 
+        socket.on('terminal:replay', (payload: TerminalReplayPayload) => {
+            if (!isCurrentTerminal(payload.terminalId)) {
+                return
+            }
+            setRecordingState(payload.recording ?? null)
+            replayHandlerRef.current(payload.data)
+        })
+
+        socket.on('terminal:recording', (payload: TerminalRecordingPayload) => {
+            if (!isCurrentTerminal(payload.terminalId)) {
+                return
+            }
+            setRecordingState(payload.recording)
+            setRecordingError(payload.error ?? null)
+        })
+
         socket.on('terminal:output', (payload: TerminalOutputPayload) => {
             if (!isCurrentTerminal(payload.terminalId)) {
                 return
@@ -155,6 +225,10 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
                 return
             }
             exitHandlerRef.current(payload.code, payload.signal)
+            // The shell is gone; connecting again starts over
+            modeRef.current = null
+            setMode(null)
+            setRecordingState(null)
             setErrorState('Terminal exited.')
         })
 
@@ -183,7 +257,7 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
 
     const write = useCallback((data: string) => {
         const socket = socketRef.current
-        if (!socket || !socket.connected) {
+        if (!socket || !socket.connected || modeRef.current !== 'control') {
             return
         }
         socket.emit('terminal:write', { terminalId: terminalIdRef.current, data })
@@ -192,12 +266,41 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
     const resize = useCallback((cols: number, rows: number) => {
         lastSizeRef.current = { cols, rows }
         const socket = socketRef.current
-        if (!socket || !socket.connected) {
+        if (!socket || !socket.connected || modeRef.current !== 'control') {
             return
         }
         socket.emit('terminal:resize', { terminalId: terminalIdRef.current, cols, rows })
     }, [])
 
+    const takeControl = useCallback(() => {
+        const socket = socketRef.current
+        const size = lastSizeRef.current
+        if (!socket || !socket.connected || !size) {
+            return
+        }
+        setState({ status: 'connecting' })
+        emitAttach(socket, 'control', size)
+    }, [emitAttach])
+
+    // null stops recording; only the controller is allowed to change it
+    const setRecording = useCallback((recordingOptions: { input: boolean } | null) => {
+        const socket = socketRef.current
+        if (!socket || !socket.connected || modeRef.current !== 'control') {
+            return
+        }
+        setRecordingError(null)
+        socket.emit('terminal:record', { terminalId: terminalIdRef.current, recording: recordingOptions })
+    }, [])
+
+    // Stops the shell for every viewer; disconnecting only detaches this one
+    const close = useCallback(() => {
+        const socket = socketRef.current
+        if (!socket || !socket.connected) {
+            return
+        }
+        socket.emit('terminal:close', { terminalId: terminalIdRef.current })
+    }, [])
+
     const disconnect = useCallback(() => {
         const socket = socketRef.current
         if (!socket) {
@@ -206,6 +309,8 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
         socket.removeAllListeners()
         socket.disconnect()
         socketRef.current = null
+        setMode(null)
+        setRecordingState(null)
         setState({ status: 'idle' })
     }, [])
 
@@ -213,17 +318,28 @@ export function useTerminalSocket(options: UseTerminalSocketOptions): {
         outputHandlerRef.current = handler
     }, [])
 
+    const onReplay = useCallback((handler: (data: string) => void) => {
+        replayHandlerRef.current = handler
+    }, [])
+
     const onExit = useCallback((handler: (code: number | null, signal: string | null) => void) => {
         exitHandlerRef.current = handler
     }, [])
 
     return {
         state,
+        mode,
+        recording,
+        recordingError,
         connect,
         write,
         resize,
+        takeControl,
+        setRecording,
+        close,
         disconnect,
         onOutput,
+        onReplay,
         onExit
     }
 }
@@ -1,5 +1,8 @@
+import { isAcpAgentFlavor } from '@hapi/protocol'
+
+// ACP agents declared in CLI settings use the same permission flow as Gemini and OpenCode
 export function isCodexFamilyFlavor(flavor?: string | null): boolean {
-    return flavor === 'codex' || flavor === 'gemini' || flavor === 'opencode'
+    return flavor === 'codex' || flavor === 'gemini' || flavor === 'opencode' || isAcpAgentFlavor(flavor)
 }
 
 export function isClaudeFlavor(flavor?: string | null): boolean {
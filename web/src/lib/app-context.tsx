@@ -1,10 +1,13 @@
 import { createContext, useContext, type ReactNode } from 'react'
 import type { ApiClient } from '@/api/client'
+import type { UserRole } from '@/types/api'
 
 type AppContextValue = {
     api: ApiClient
     token: string
     baseUrl: string
+    // UI hint only; the hub enforces roles on every request
+    role: UserRole
 }
 
 const AppContext = createContext<AppContextValue | null>(null)
@@ -151,7 +151,7 @@ export function createAttachmentAdapter(api: ApiClient, sessionId: string): Atta
     }
 }
 
-async function fileToBase64(file: File): Promise<string> {
+export async function fileToBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
         const reader = new FileReader()
         reader.onload = () => {
@@ -1,4 +1,4 @@
-import type { GitFileStatus, GitStatusFiles } from '@/types/api'
+import type { GitBranch, GitFileStatus, GitStatusFiles } from '@/types/api'
 
 export type GitFileEntryV2 = {
     path: string
@@ -272,11 +272,39 @@ export function buildGitStatusFiles(
         stagedFiles,
         unstagedFiles,
         branch: branchName,
+        upstream: statusSummary.branch.upstream ?? null,
+        ahead: statusSummary.branch.ahead ?? 0,
+        behind: statusSummary.branch.behind ?? 0,
         totalStaged: stagedFiles.length,
         totalUnstaged: unstagedFiles.length
     }
 }
 
+const BRANCH_TRACK_AHEAD_REGEX = /ahead (\d+)/
+const BRANCH_TRACK_BEHIND_REGEX = /behind (\d+)/
+
+/**
+ * Parses `git for-each-ref` output in the `git-branches` RPC format:
+ * HEAD marker, name, upstream and track, tab-separated.
+ */
+export function parseBranchList(output: string): GitBranch[] {
+    const branches: GitBranch[] = []
+    for (const line of output.split('\n')) {
+        if (!line.trim()) continue
+        const [head, name, upstream, track] = line.split('\t')
+        if (!name) continue
+        branches.push({
+            name,
+            current: head === '*',
+            upstream: upstream || null,
+            ahead: parseInt(BRANCH_TRACK_AHEAD_REGEX.exec(track ?? '')?.[1] ?? '0', 10),
+            behind: parseInt(BRANCH_TRACK_BEHIND_REGEX.exec(track ?? '')?.[1] ?? '0', 10),
+            upstreamGone: track === 'gone'
+        })
+    }
+    return branches
+}
+
 function parseOrdinaryChange(matches: string[]): GitFileEntryV2 | null {
     if (!matches[1] || !matches[2] || !matches[9]) return null
     return {
@@ -67,12 +67,24 @@ export default {
   'session.action.resume': 'Resume',
   'session.action.resuming': 'Resuming…',
   'session.action.resumeFailed': 'Failed to resume session',
+  'session.action.handoff': 'Move to machine…',
   'session.action.fork': 'Fork (with history)',
   'session.action.forking': 'Forking…',
   'session.action.forkFailed': 'Failed to fork session',
   'session.action.newSession': 'New (without history)',
+  'session.action.export': 'Export transcript',
+  'session.action.exporting': 'Exporting…',
+  'session.action.exportFailed': 'Failed to export transcript',
 
   // Dialogs
+  'dialog.handoff.title': 'Move Session',
+  'dialog.handoff.description': 'Copies the conversation to another machine and resumes it there. The original session stays on this machine.',
+  'dialog.handoff.machine': 'Target machine',
+  'dialog.handoff.directory': 'Directory on the target machine',
+  'dialog.handoff.noMachines': 'No other machines online',
+  'dialog.handoff.confirm': 'Move',
+  'dialog.handoff.moving': 'Moving…',
+  'dialog.handoff.error': 'Failed to move session',
   'dialog.rename.title': 'Rename Session',
   'dialog.rename.placeholder': 'Session name',
   'dialog.rename.save': 'Save',
@@ -164,6 +176,11 @@ export default {
   // Diff view
   'diff.title': 'Diff',
   'diff.view': 'View',
+  'diff.structural': 'Structural',
+  'diff.structural.title': 'Toggle syntax-aware side-by-side diff',
+  'diff.structural.loading': 'Loading structural diff…',
+  'diff.structural.unavailable': 'Structural diff unavailable: {error}',
+  'diff.structural.empty': 'No structural changes (only formatting or whitespace differs).',
 
   // Tool card
   'tool.askQuestion': 'Other',
@@ -220,6 +237,19 @@ export default {
   'composer.stop': 'Stop',
   'composer.voice': 'Voice assistant',
 
+  // Queued prompts
+  'queue.title': '{n} queued',
+  'queue.merge': 'Merge into one turn',
+  'queue.moveUp': 'Move up',
+  'queue.moveDown': 'Move down',
+  'queue.edit': 'Edit',
+  'queue.delete': 'Delete',
+  'queue.sendNow': 'Send now',
+  'queue.sendNowHint': 'Interrupt the current turn and send this prompt next',
+  'queue.save': 'Save',
+  'queue.cancel': 'Cancel',
+  'queue.error': 'Failed to update the queue',
+
   // Voice assistant
   'voice.connecting': 'Connecting...',
   'voice.active': 'Active',
@@ -271,11 +301,273 @@ export default {
   'settings.about.appVersion': 'App Version',
   'settings.about.protocolVersion': 'Protocol Version',
 
+  // Search
+  'search.title': 'Search',
+  'search.placeholder': 'Search messages across sessions',
+  'search.submit': 'Search',
+  'search.hint': 'Search user prompts, assistant replies and tool output.',
+  'search.empty': 'No matching messages',
+  'search.filters.show': 'Show filters',
+  'search.filters.hide': 'Hide filters',
+  'search.filters.machine': 'Machine',
+  'search.filters.anyMachine': 'Any machine',
+  'search.filters.flavor': 'Agent',
+  'search.filters.anyFlavor': 'Any agent',
+  'search.filters.path': 'Project path contains…',
+  'search.filters.from': 'From',
+  'search.filters.to': 'To',
+
+  // Permission rules
+  'settings.permissions.title': 'Permissions',
+  'settings.permissions.rules': 'Auto-approval Rules',
+  'permissionRules.title': 'Auto-approval Rules',
+  'permissionRules.description': 'Rules are checked in priority order when an agent asks for permission. The first matching rule approves, denies, or escalates the request to you.',
+  'permissionRules.add': 'Add rule',
+  'permissionRules.empty': 'No rules yet. Every permission request is escalated to you.',
+  'permissionRules.delete': 'Delete',
+  'permissionRules.deleteConfirm': 'Delete rule "{name}"?',
+  'permissionRules.action.approve': 'Approve',
+  'permissionRules.action.deny': 'Deny',
+  'permissionRules.action.escalate': 'Ask me',
+  'permissionRules.field.name': 'Name',
+  'permissionRules.field.action': 'Action',
+  'permissionRules.field.priority': 'Priority',
+  'permissionRules.field.tool': 'Tool',
+  'permissionRules.field.command': 'Command pattern',
+  'permissionRules.field.paths': 'Paths',
+  'permissionRules.field.flavors': 'Agents',
+  'permissionRules.field.session': 'Session ID',
+  'permissionRules.field.enabled': 'Enabled',
+  'permissionRules.hint.tool': 'Glob matched against the tool name, e.g. Bash or mcp__*',
+  'permissionRules.hint.command': 'Regular expression matched against shell commands',
+  'permissionRules.hint.paths': 'One glob per line, relative to the session directory',
+  'permissionRules.hint.flavors': 'Comma-separated, e.g. claude, codex. Leave empty for all agents',
+  'permissionRules.hint.session': 'Leave empty to apply to every session',
+  'permissionRules.error.nameRequired': 'Name is required',
+  'permissionRules.error.invalidCommand': 'Command pattern is not a valid regular expression',
+  'permissionRules.error.save': 'Failed to save rule. Please try again.',
+  'permissionRules.error.dryRun': 'Dry run failed. Please try again.',
+  'permissionRules.dryRun.button': 'Dry run',
+  'permissionRules.dryRun.running': 'Running…',
+  'permissionRules.dryRun.summary': 'Matches {n} past request(s)',
+  'permissionRules.status.pending': 'Pending',
+  'permissionRules.status.approved': 'Approved',
+  'permissionRules.status.denied': 'Denied',
+  'permissionRules.status.canceled': 'Canceled',
+
+  // Schedules
+  'settings.automation.title': 'Automation',
+  'settings.automation.schedules': 'Scheduled Prompts',
+  'settings.automation.templates': 'Session Templates',
+  'schedules.title': 'Scheduled Prompts',
+  'schedules.description': 'Send a prompt on a cron schedule, either to an existing session (resuming it if needed) or to a freshly spawned one. Times use the hub\'s time zone.',
+  'schedules.add': 'Add schedule',
+  'schedules.empty': 'No schedules yet.',
+  'schedules.delete': 'Delete',
+  'schedules.deleteConfirm': 'Delete schedule "{name}"? Its run history is deleted too.',
+  'schedules.runNow': 'Run now',
+  'schedules.nextRun': 'Next run {time}',
+  'schedules.paused': 'Paused',
+  'schedules.field.name': 'Name',
+  'schedules.field.cron': 'Cron expression',
+  'schedules.field.prompt': 'Prompt',
+  'schedules.field.target': 'Target',
+  'schedules.field.session': 'Session',
+  'schedules.field.machine': 'Machine',
+  'schedules.field.directory': 'Directory',
+  'schedules.field.agent': 'Agent',
+  'schedules.field.yolo': 'Skip permission prompts (yolo)',
+  'schedules.field.missedRunPolicy': 'When a run is missed',
+  'schedules.field.enabled': 'Enabled',
+  'schedules.target.session': 'Existing session',
+  'schedules.target.spawn': 'New session',
+  'schedules.missedRunPolicy.skip': 'Skip it',
+  'schedules.missedRunPolicy.run-once': 'Run once when back online',
+  'schedules.hint.cron': 'minute hour day-of-month month day-of-week, e.g. 0 9 * * 1-5 for weekdays at 9:00',
+  'schedules.hint.session': 'Inactive sessions are resumed before the prompt is sent',
+  'schedules.hint.missedRunPolicy.skip': 'Runs due while the machine or hub is offline are recorded as missed',
+  'schedules.hint.missedRunPolicy.run-once': 'Runs due while the machine is offline fire once when it reconnects',
+  'schedules.error.nameRequired': 'Name is required',
+  'schedules.error.promptRequired': 'Prompt is required',
+  'schedules.error.sessionRequired': 'Choose a session',
+  'schedules.error.spawnRequired': 'Choose a machine and enter a directory',
+  'schedules.error.invalidCron': 'Cron expression is invalid or never fires',
+  'schedules.error.save': 'Failed to save schedule. Please try again.',
+  'schedules.error.run': 'Failed to start the schedule. It may already be running.',
+  'schedules.history.title': 'History',
+  'schedules.history.empty': 'No runs yet.',
+  'schedules.history.manual': 'manual',
+  'schedules.status.succeeded': 'Succeeded',
+  'schedules.status.failed': 'Failed',
+  'schedules.status.missed': 'Missed',
+
+  // Session templates
+  'templates.title': 'Session Templates',
+  'templates.description': 'Save a machine, directory, agent and setup as a named template, then start sessions from it in one tap here, above the session list, from Telegram (/templates) or with hapi spawn --template <name>.',
+  'templates.add': 'Add template',
+  'templates.empty': 'No templates yet.',
+  'templates.launch': 'Launch',
+  'templates.delete': 'Delete',
+  'templates.deleteConfirm': 'Delete template "{name}"? Sessions started from it are kept.',
+  'templates.field.name': 'Name',
+  'templates.field.machine': 'Machine',
+  'templates.field.directory': 'Directory',
+  'templates.field.agent': 'Agent',
+  'templates.field.model': 'Model',
+  'templates.field.permissionMode': 'Permission mode',
+  'templates.field.sessionType': 'Session type',
+  'templates.field.worktreeNamePattern': 'Worktree name',
+  'templates.field.initialPrompt': 'Initial prompt',
+  'templates.field.attachments': 'Attachments',
+  'templates.permissionMode.agentDefault': 'Agent default',
+  'templates.attachments.clear': 'Remove all',
+  'templates.hint.model': 'Leave empty for the agent\'s default model',
+  'templates.hint.worktreeNamePattern': '{name} template name, {date} YYYYMMDD, {time} HHMM, {random} 4 hex digits',
+  'templates.hint.attachments': 'Sent with the initial prompt. Up to 5 MB each.',
+  'templates.launch.label': 'Templates',
+  'templates.launch.launching': 'Launching…',
+  'templates.launch.failed': 'Failed to launch {name}',
+  'templates.launch.warning': '{name} launched with a warning',
+  'templates.error.nameRequired': 'Name is required',
+  'templates.error.spawnRequired': 'Choose a machine and enter a directory',
+  'templates.error.promptRequiredForAttachments': 'Attachments need an initial prompt to be sent with',
+  'templates.error.attachmentTooLarge': 'Attachments are limited to 5 MB each',
+  'templates.error.attachmentRead': 'Failed to read the file',
+  'templates.error.duplicateName': 'A template with this name already exists',
+  'templates.error.save': 'Failed to save template. Please try again.',
+  'templates.error.launch': 'Failed to launch the template. Please try again.',
+
+  // Usage
+  'settings.usage.title': 'Usage',
+  'settings.usage.dashboard': 'Usage & Budgets',
+  'usage.title': 'Usage & Budgets',
+  'usage.range': 'Time range',
+  'usage.range.days': 'Last {n} days',
+  'usage.totals.cost': 'Cost',
+  'usage.totals.tokens': 'Tokens',
+  'usage.totals.turns': 'Turns',
+  'usage.tokens': '{count} tokens',
+  'usage.byModel': 'By model',
+  'usage.daily': 'By day',
+  'usage.empty': 'No usage recorded in this range.',
+  'usage.unknownModel': 'Unknown model',
+  'usage.session.title': 'Session usage',
+  'usage.session.cache': 'Cache: {read} read, {write} written',
+  'usage.budgets.title': 'Budgets',
+  'usage.budgets.description': 'Get notified when spend reaches a limit, or pause new prompts until the period resets. Tokens count input and output; cost is only known for agents that report it.',
+  'usage.budgets.add': 'Add budget',
+  'usage.budgets.empty': 'No budgets yet.',
+  'usage.budgets.delete': 'Delete',
+  'usage.budgets.deleteConfirm': 'Delete the budget "{name}"?',
+  'usage.budgets.exceeded': 'Exceeded',
+  'usage.budgets.field.name': 'Name',
+  'usage.budgets.field.scope': 'Applies to',
+  'usage.budgets.field.session': 'Session',
+  'usage.budgets.field.machine': 'Machine',
+  'usage.budgets.field.period': 'Period',
+  'usage.budgets.field.limitUsd': 'Cost limit (USD)',
+  'usage.budgets.field.limitTokens': 'Token limit',
+  'usage.budgets.field.action': 'When exceeded',
+  'usage.budgets.field.enabled': 'Enabled',
+  'usage.budgets.hint.limits': 'Set either limit or both; leave a field empty for no limit.',
+  'usage.budgets.hint.action.warn': 'Sends a notification once per period.',
+  'usage.budgets.hint.action.pause': 'Notifies, stops the current turn and rejects new prompts until the period resets.',
+  'usage.budgets.scope.namespace': 'Everything',
+  'usage.budgets.scope.machine': 'One machine',
+  'usage.budgets.scope.session': 'One session',
+  'usage.budgets.period.day': 'Daily',
+  'usage.budgets.period.month': 'Monthly',
+  'usage.budgets.period.total': 'All time',
+  'usage.budgets.action.warn': 'Warn',
+  'usage.budgets.action.pause': 'Pause',
+  'usage.budgets.error.nameRequired': 'Name is required',
+  'usage.budgets.error.invalidLimit': 'Limits must be positive numbers; token limits must be whole numbers',
+  'usage.budgets.error.limitRequired': 'Set a cost or token limit',
+  'usage.budgets.error.targetRequired': 'Choose a machine or session',
+  'usage.budgets.error.save': 'Failed to save budget',
+  'settings.notifications.title': 'Notifications',
+  'settings.notifications.preferences': 'Notification preferences',
+  'notifications.title': 'Notifications',
+  'notifications.description': 'These preferences apply to you only, on web push and Telegram.',
+  'notifications.delivery': 'Delivery',
+  'notifications.permissionsOnly': 'Only notify on permission requests',
+  'notifications.digest': 'Ready notifications',
+  'notifications.digest.off': 'Send each one',
+  'notifications.digest.minutes': 'Digest every {n} minutes',
+  'notifications.digest.hours': 'Digest every {n} hours',
+  'notifications.quietHours': 'Quiet hours',
+  'notifications.quietHours.enabled': 'Pause all notifications during quiet hours',
+  'notifications.quietHours.start': 'From',
+  'notifications.quietHours.end': 'Until',
+  'notifications.quietHours.timeZone': 'Time zone',
+  'notifications.channels': 'Channels',
+  'notifications.channels.description': 'Choose where each kind of notification is sent.',
+  'notifications.channel.push': 'Web push',
+  'notifications.channel.telegram': 'Telegram',
+  'notifications.event.ready': 'Ready for input',
+  'notifications.event.permission-request': 'Permission requests',
+  'notifications.event.budget-exceeded': 'Budget exceeded',
+  'notifications.mutedSessions': 'Muted sessions',
+  'notifications.mutedSessions.add': 'Mute a session…',
+  'notifications.mutedDirectories': 'Muted directories',
+  'notifications.mutedDirectories.hint': 'Sessions in these directories, or below them, are muted.',
+  'notifications.mutedDirectories.placeholder': '/path/to/project',
+  'notifications.mute.add': 'Add',
+  'notifications.mute.remove': 'Unmute',
+  'notifications.empty': 'None',
+  'notifications.saved': 'Saved',
+  'notifications.error.save': 'Failed to save notification preferences',
+
+  // Users
+  'settings.users.title': 'Team',
+  'settings.users.manage': 'Users & Access Tokens',
+  'users.title': 'Users & Access Tokens',
+  'users.description': 'Issue a personal access token for each teammate. Viewers can read sessions, operators can also send messages and answer permission requests, and admins can spawn or delete sessions and manage machines and users.',
+  'users.field.name': 'Name',
+  'users.field.role': 'Role',
+  'users.role.viewer': 'Viewer',
+  'users.role.operator': 'Operator',
+  'users.role.admin': 'Admin',
+  'users.platform.token': 'Access token',
+  'users.platform.telegram': 'Telegram user',
+  'users.issue': 'Issue token',
+  'users.regenerate': 'New token',
+  'users.revoke': 'Revoke',
+  'users.revokeConfirm': 'Revoke access for "{name}"? They will be signed out immediately.',
+  'users.empty': 'No users yet. Only the CLI_API_TOKEN can sign in.',
+  'users.token.issued': 'Access token for {name}',
+  'users.token.once': 'Copy it now. The token is not shown again.',
+  'users.token.copy': 'Copy',
+  'users.token.copied': 'Copied',
+  'users.token.dismiss': 'Done',
+  'users.error.generic': 'Request failed. Please try again.',
+
+  // Audit log
+  'settings.users.audit': 'Audit Log',
+  'audit.title': 'Audit Log',
+  'audit.description': 'Every action taken through the hub, newest first. Message and upload contents are stored as a SHA-256 digest only.',
+  'audit.filter.action': 'Action or prefix, e.g. session',
+  'audit.filter.session': 'Session ID',
+  'audit.filter.origin': 'Origin',
+  'audit.filter.anyOrigin': 'Any origin',
+  'audit.filter.from': 'From',
+  'audit.filter.to': 'To',
+  'audit.origin.web': 'Web',
+  'audit.origin.telegram': 'Telegram',
+  'audit.origin.voice': 'Voice',
+  'audit.origin.push': 'Push notification',
+  'audit.empty': 'No matching events.',
+  'audit.loadMore': 'Load more',
+  'audit.digest': 'Digest',
+
   // Misc
   'misc.noMachines': 'No machines available',
   'misc.machine': 'Machine',
   'misc.permissionMode': 'Permission Mode',
   'misc.model': 'Model',
+  'misc.reasoningEffort': 'Reasoning Effort',
+  'misc.reasoningEffortDefault': 'Model default',
+  'misc.reasoningEffortDefaultValue': 'Model default ({effort})',
   'misc.loading': 'Loading…',
   'misc.loadOlder': 'Load older',
   'misc.newMessage': '{n} new message{s}',
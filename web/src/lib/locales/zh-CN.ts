@@ -67,12 +67,24 @@ export default {
   'session.action.resume': '恢复',
   'session.action.resuming': '恢复中…',
   'session.action.resumeFailed': '恢复会话失败',
+  'session.action.handoff': '移动到其他机器…',
   'session.action.fork': 'Fork（继承历史）',
   'session.action.forking': 'Fork中…',
   'session.action.forkFailed': 'Fork会话失败',
   'session.action.newSession': 'New（不继承历史）',
+  'session.action.export': '导出对话记录',
+  'session.action.exporting': '导出中…',
+  'session.action.exportFailed': '导出对话记录失败',
 
   // Dialogs
+  'dialog.handoff.title': '移动会话',
+  'dialog.handoff.description': '将对话复制到另一台机器并在那里恢复。原会话仍保留在当前机器上。',
+  'dialog.handoff.machine': '目标机器',
+  'dialog.handoff.directory': '目标机器上的目录',
+  'dialog.handoff.noMachines': '没有其他在线机器',
+  'dialog.handoff.confirm': '移动',
+  'dialog.handoff.moving': '移动中…',
+  'dialog.handoff.error': '移动会话失败',
   'dialog.rename.title': '重命名会话',
   'dialog.rename.placeholder': '会话名称',
   'dialog.rename.save': '保存',
@@ -166,6 +178,11 @@ export default {
   // Diff view
   'diff.title': '差异',
   'diff.view': '查看',
+  'diff.structural': '结构化',
+  'diff.structural.title': '切换语法感知的并排差异',
+  'diff.structural.loading': '正在加载结构化差异…',
+  'diff.structural.unavailable': '结构化差异不可用：{error}',
+  'diff.structural.empty': '没有结构性变化（仅格式或空白不同）。',
 
   // Tool card
   'tool.askQuestion': '其他',
@@ -222,6 +239,19 @@ export default {
   'composer.stop': '停止',
   'composer.voice': '语音助手',
 
+  // Queued prompts
+  'queue.title': '{n} 条排队中',
+  'queue.merge': '合并为一轮',
+  'queue.moveUp': '上移',
+  'queue.moveDown': '下移',
+  'queue.edit': '编辑',
+  'queue.delete': '删除',
+  'queue.sendNow': '立即发送',
+  'queue.sendNowHint': '中断当前轮次并接着发送此消息',
+  'queue.save': '保存',
+  'queue.cancel': '取消',
+  'queue.error': '更新队列失败',
+
   // Voice assistant
   'voice.connecting': '连接中...',
   'voice.active': '活跃',
@@ -273,11 +303,273 @@ export default {
   'settings.about.appVersion': '应用版本',
   'settings.about.protocolVersion': '协议版本',
 
+  // Search
+  'search.title': '搜索',
+  'search.placeholder': '搜索所有会话中的消息',
+  'search.submit': '搜索',
+  'search.hint': '可搜索用户提问、助手回复和工具输出。',
+  'search.empty': '没有匹配的消息',
+  'search.filters.show': '显示筛选',
+  'search.filters.hide': '隐藏筛选',
+  'search.filters.machine': '机器',
+  'search.filters.anyMachine': '任意机器',
+  'search.filters.flavor': '代理',
+  'search.filters.anyFlavor': '任意代理',
+  'search.filters.path': '项目路径包含…',
+  'search.filters.from': '开始日期',
+  'search.filters.to': '结束日期',
+
+  // Permission rules
+  'settings.permissions.title': '权限',
+  'settings.permissions.rules': '自动审批规则',
+  'permissionRules.title': '自动审批规则',
+  'permissionRules.description': '当智能体请求权限时，按优先级依次检查规则。第一条匹配的规则会批准、拒绝或将请求交给你处理。',
+  'permissionRules.add': '添加规则',
+  'permissionRules.empty': '暂无规则，所有权限请求都会交给你处理。',
+  'permissionRules.delete': '删除',
+  'permissionRules.deleteConfirm': '删除规则 "{name}"？',
+  'permissionRules.action.approve': '批准',
+  'permissionRules.action.deny': '拒绝',
+  'permissionRules.action.escalate': '询问我',
+  'permissionRules.field.name': '名称',
+  'permissionRules.field.action': '操作',
+  'permissionRules.field.priority': '优先级',
+  'permissionRules.field.tool': '工具',
+  'permissionRules.field.command': '命令匹配',
+  'permissionRules.field.paths': '路径',
+  'permissionRules.field.flavors': '智能体',
+  'permissionRules.field.session': '会话 ID',
+  'permissionRules.field.enabled': '启用',
+  'permissionRules.hint.tool': '匹配工具名的通配符，例如 Bash 或 mcp__*',
+  'permissionRules.hint.command': '匹配 shell 命令的正则表达式',
+  'permissionRules.hint.paths': '每行一个通配符，相对于会话目录',
+  'permissionRules.hint.flavors': '用逗号分隔，例如 claude, codex。留空表示所有智能体',
+  'permissionRules.hint.session': '留空表示应用于所有会话',
+  'permissionRules.error.nameRequired': '名称不能为空',
+  'permissionRules.error.invalidCommand': '命令匹配不是有效的正则表达式',
+  'permissionRules.error.save': '保存规则失败，请重试。',
+  'permissionRules.error.dryRun': '试运行失败，请重试。',
+  'permissionRules.dryRun.button': '试运行',
+  'permissionRules.dryRun.running': '运行中…',
+  'permissionRules.dryRun.summary': '匹配 {n} 个历史请求',
+  'permissionRules.status.pending': '等待中',
+  'permissionRules.status.approved': '已批准',
+  'permissionRules.status.denied': '已拒绝',
+  'permissionRules.status.canceled': '已取消',
+
+  // Schedules
+  'settings.automation.title': '自动化',
+  'settings.automation.schedules': '定时提示',
+  'settings.automation.templates': '会话模板',
+  'schedules.title': '定时提示',
+  'schedules.description': '按 cron 计划发送提示，可以发送到已有会话（必要时自动恢复），也可以发送到新创建的会话。时间使用 hub 所在时区。',
+  'schedules.add': '添加计划',
+  'schedules.empty': '暂无计划。',
+  'schedules.delete': '删除',
+  'schedules.deleteConfirm': '删除计划"{name}"？其运行记录也会被删除。',
+  'schedules.runNow': '立即运行',
+  'schedules.nextRun': '下次运行 {time}',
+  'schedules.paused': '已暂停',
+  'schedules.field.name': '名称',
+  'schedules.field.cron': 'Cron 表达式',
+  'schedules.field.prompt': '提示',
+  'schedules.field.target': '目标',
+  'schedules.field.session': '会话',
+  'schedules.field.machine': '机器',
+  'schedules.field.directory': '目录',
+  'schedules.field.agent': '代理',
+  'schedules.field.yolo': '跳过权限确认（yolo）',
+  'schedules.field.missedRunPolicy': '错过运行时',
+  'schedules.field.enabled': '启用',
+  'schedules.target.session': '已有会话',
+  'schedules.target.spawn': '新会话',
+  'schedules.missedRunPolicy.skip': '跳过',
+  'schedules.missedRunPolicy.run-once': '恢复在线后运行一次',
+  'schedules.hint.cron': '分 时 日 月 星期，例如 0 9 * * 1-5 表示工作日 9:00',
+  'schedules.hint.session': '非活动会话会在发送提示前恢复',
+  'schedules.hint.missedRunPolicy.skip': '机器或 hub 离线期间到期的运行记为已错过',
+  'schedules.hint.missedRunPolicy.run-once': '机器离线期间到期的运行会在其重新连接后运行一次',
+  'schedules.error.nameRequired': '名称不能为空',
+  'schedules.error.promptRequired': '提示不能为空',
+  'schedules.error.sessionRequired': '请选择会话',
+  'schedules.error.spawnRequired': '请选择机器并输入目录',
+  'schedules.error.invalidCron': 'Cron 表达式无效或永远不会触发',
+  'schedules.error.save': '保存计划失败，请重试。',
+  'schedules.error.run': '启动计划失败，它可能正在运行。',
+  'schedules.history.title': '记录',
+  'schedules.history.empty': '暂无运行记录。',
+  'schedules.history.manual': '手动',
+  'schedules.status.succeeded': '成功',
+  'schedules.status.failed': '失败',
+  'schedules.status.missed': '已错过',
+
+  // Session templates
+  'templates.title': '会话模板',
+  'templates.description': '将机器、目录、代理和初始设置保存为命名模板，之后可在此处、会话列表上方、Telegram（/templates）或通过 hapi spawn --template <名称> 一键启动会话。',
+  'templates.add': '添加模板',
+  'templates.empty': '暂无模板。',
+  'templates.launch': '启动',
+  'templates.delete': '删除',
+  'templates.deleteConfirm': '删除模板"{name}"？由其启动的会话将保留。',
+  'templates.field.name': '名称',
+  'templates.field.machine': '机器',
+  'templates.field.directory': '目录',
+  'templates.field.agent': '代理',
+  'templates.field.model': '模型',
+  'templates.field.permissionMode': '权限模式',
+  'templates.field.sessionType': '会话类型',
+  'templates.field.worktreeNamePattern': 'Worktree 名称',
+  'templates.field.initialPrompt': '初始提示',
+  'templates.field.attachments': '附件',
+  'templates.permissionMode.agentDefault': '代理默认',
+  'templates.attachments.clear': '全部移除',
+  'templates.hint.model': '留空则使用代理的默认模型',
+  'templates.hint.worktreeNamePattern': '{name} 模板名称，{date} 年月日，{time} 时分，{random} 4 位十六进制',
+  'templates.hint.attachments': '随初始提示发送，每个最大 5 MB。',
+  'templates.launch.label': '模板',
+  'templates.launch.launching': '启动中…',
+  'templates.launch.failed': '启动 {name} 失败',
+  'templates.launch.warning': '{name} 已启动，但有警告',
+  'templates.error.nameRequired': '名称为必填项',
+  'templates.error.spawnRequired': '请选择机器并输入目录',
+  'templates.error.promptRequiredForAttachments': '附件需要随初始提示发送',
+  'templates.error.attachmentTooLarge': '每个附件最大 5 MB',
+  'templates.error.attachmentRead': '读取文件失败',
+  'templates.error.duplicateName': '已存在同名模板',
+  'templates.error.save': '保存模板失败，请重试。',
+  'templates.error.launch': '启动模板失败，请重试。',
+
+  // Usage
+  'settings.usage.title': '用量',
+  'settings.usage.dashboard': '用量与预算',
+  'usage.title': '用量与预算',
+  'usage.range': '时间范围',
+  'usage.range.days': '最近 {n} 天',
+  'usage.totals.cost': '费用',
+  'usage.totals.tokens': 'Token',
+  'usage.totals.turns': '轮次',
+  'usage.tokens': '{count} tokens',
+  'usage.byModel': '按模型',
+  'usage.daily': '按天',
+  'usage.empty': '此时间范围内没有用量记录。',
+  'usage.unknownModel': '未知模型',
+  'usage.session.title': '会话用量',
+  'usage.session.cache': '缓存：读取 {read}，写入 {write}',
+  'usage.budgets.title': '预算',
+  'usage.budgets.description': '在花费达到上限时收到通知，或暂停新的提示直到周期重置。Token 统计输入和输出；只有上报费用的代理才有费用数据。',
+  'usage.budgets.add': '添加预算',
+  'usage.budgets.empty': '暂无预算。',
+  'usage.budgets.delete': '删除',
+  'usage.budgets.deleteConfirm': '删除预算「{name}」？',
+  'usage.budgets.exceeded': '已超出',
+  'usage.budgets.field.name': '名称',
+  'usage.budgets.field.scope': '适用范围',
+  'usage.budgets.field.session': '会话',
+  'usage.budgets.field.machine': '机器',
+  'usage.budgets.field.period': '周期',
+  'usage.budgets.field.limitUsd': '费用上限（美元）',
+  'usage.budgets.field.limitTokens': 'Token 上限',
+  'usage.budgets.field.action': '超出时',
+  'usage.budgets.field.enabled': '启用',
+  'usage.budgets.hint.limits': '可设置任一上限或同时设置；留空表示不限制。',
+  'usage.budgets.hint.action.warn': '每个周期发送一次通知。',
+  'usage.budgets.hint.action.pause': '发送通知、停止当前轮次，并在周期重置前拒绝新的提示。',
+  'usage.budgets.scope.namespace': '全部',
+  'usage.budgets.scope.machine': '单台机器',
+  'usage.budgets.scope.session': '单个会话',
+  'usage.budgets.period.day': '每天',
+  'usage.budgets.period.month': '每月',
+  'usage.budgets.period.total': '累计',
+  'usage.budgets.action.warn': '提醒',
+  'usage.budgets.action.pause': '暂停',
+  'usage.budgets.error.nameRequired': '名称不能为空',
+  'usage.budgets.error.invalidLimit': '上限必须为正数，Token 上限必须为整数',
+  'usage.budgets.error.limitRequired': '请设置费用或 Token 上限',
+  'usage.budgets.error.targetRequired': '请选择机器或会话',
+  'usage.budgets.error.save': '保存预算失败',
+  'settings.notifications.title': '通知',
+  'settings.notifications.preferences': '通知偏好',
+  'notifications.title': '通知',
+  'notifications.description': '这些偏好仅对你生效，适用于网页推送和 Telegram。',
+  'notifications.delivery': '发送方式',
+  'notifications.permissionsOnly': '仅在权限请求时通知',
+  'notifications.digest': '就绪通知',
+  'notifications.digest.off': '逐条发送',
+  'notifications.digest.minutes': '每 {n} 分钟汇总一次',
+  'notifications.digest.hours': '每 {n} 小时汇总一次',
+  'notifications.quietHours': '免打扰时段',
+  'notifications.quietHours.enabled': '免打扰时段内暂停所有通知',
+  'notifications.quietHours.start': '开始',
+  'notifications.quietHours.end': '结束',
+  'notifications.quietHours.timeZone': '时区',
+  'notifications.channels': '渠道',
+  'notifications.channels.description': '选择每类通知的发送渠道。',
+  'notifications.channel.push': '网页推送',
+  'notifications.channel.telegram': 'Telegram',
+  'notifications.event.ready': '等待输入',
+  'notifications.event.permission-request': '权限请求',
+  'notifications.event.budget-exceeded': '超出预算',
+  'notifications.mutedSessions': '已静音的会话',
+  'notifications.mutedSessions.add': '静音一个会话…',
+  'notifications.mutedDirectories': '已静音的目录',
+  'notifications.mutedDirectories.hint': '位于这些目录及其子目录中的会话将被静音。',
+  'notifications.mutedDirectories.placeholder': '/path/to/project',
+  'notifications.mute.add': '添加',
+  'notifications.mute.remove': '取消静音',
+  'notifications.empty': '无',
+  'notifications.saved': '已保存',
+  'notifications.error.save': '保存通知偏好失败',
+
+  // Users
+  'settings.users.title': '团队',
+  'settings.users.manage': '用户与访问令牌',
+  'users.title': '用户与访问令牌',
+  'users.description': '为每位成员签发个人访问令牌。查看者可以阅读会话，操作者还可以发送消息和处理权限请求，管理员可以创建或删除会话并管理机器和用户。',
+  'users.field.name': '名称',
+  'users.field.role': '角色',
+  'users.role.viewer': '查看者',
+  'users.role.operator': '操作者',
+  'users.role.admin': '管理员',
+  'users.platform.token': '访问令牌',
+  'users.platform.telegram': 'Telegram 用户',
+  'users.issue': '签发令牌',
+  'users.regenerate': '新令牌',
+  'users.revoke': '撤销',
+  'users.revokeConfirm': '撤销“{name}”的访问权限？对方会立即被登出。',
+  'users.empty': '暂无用户。目前只能使用 CLI_API_TOKEN 登录。',
+  'users.token.issued': '{name} 的访问令牌',
+  'users.token.once': '请立即复制，令牌不会再次显示。',
+  'users.token.copy': '复制',
+  'users.token.copied': '已复制',
+  'users.token.dismiss': '完成',
+  'users.error.generic': '请求失败，请重试。',
+
+  // Audit log
+  'settings.users.audit': '审计日志',
+  'audit.title': '审计日志',
+  'audit.description': '通过 hub 执行的所有操作，按时间倒序排列。消息和上传内容仅保存 SHA-256 摘要。',
+  'audit.filter.action': '操作或前缀，例如 session',
+  'audit.filter.session': '会话 ID',
+  'audit.filter.origin': '来源',
+  'audit.filter.anyOrigin': '任意来源',
+  'audit.filter.from': '开始',
+  'audit.filter.to': '结束',
+  'audit.origin.web': '网页',
+  'audit.origin.telegram': 'Telegram',
+  'audit.origin.voice': '语音',
+  'audit.origin.push': '推送通知',
+  'audit.empty': '没有匹配的事件。',
+  'audit.loadMore': '加载更多',
+  'audit.digest': '摘要',
+
   // Misc
   'misc.noMachines': '无可用机器',
   'misc.machine': '机器',
   'misc.permissionMode': '权限模式',
   'misc.model': '模型',
+  'misc.reasoningEffort': '推理强度',
+  'misc.reasoningEffortDefault': '模型默认',
+  'misc.reasoningEffortDefaultValue': '模型默认（{effort}）',
   'misc.loading': '加载中…',
   'misc.loadOlder': '加载更早的',
   'misc.newMessage': '{n} 条新消息',
@@ -1,9 +1,15 @@
+import type { AuditEventFilters, MessageSearchFilters, UsageFilters } from '@/types/api'
+
 export const queryKeys = {
     sessions: ['sessions'] as const,
     session: (sessionId: string) => ['session', sessionId] as const,
     messages: (sessionId: string) => ['messages', sessionId] as const,
     machines: ['machines'] as const,
+    machineModels: (machineId: string, agent: string) => ['machine-models', machineId, agent] as const,
     gitStatus: (sessionId: string) => ['git-status', sessionId] as const,
+    gitBranches: (sessionId: string) => ['git-branches', sessionId] as const,
+    sessionTerminals: (sessionId: string) => ['session-terminals', sessionId] as const,
+    terminalRecordings: (sessionId: string) => ['terminal-recordings', sessionId] as const,
     sessionFiles: (sessionId: string, query: string) => ['session-files', sessionId, query] as const,
     sessionDirectory: (sessionId: string, path: string) => ['session-directory', sessionId, path] as const,
     sessionFile: (sessionId: string, path: string) => ['session-file', sessionId, path] as const,
@@ -13,6 +19,30 @@ export const queryKeys = {
         path,
         staged ? 'staged' : 'unstaged'
     ] as const,
+    structuralFileDiff: (sessionId: string, path: string, staged?: boolean) => [
+        'structural-file-diff',
+        sessionId,
+        path,
+        staged ? 'staged' : 'unstaged'
+    ] as const,
+    structuralTextDiff: (sessionId: string, fileName: string, oldText: string, newText: string) => [
+        'structural-text-diff',
+        sessionId,
+        fileName,
+        oldText,
+        newText
+    ] as const,
     slashCommands: (sessionId: string) => ['slash-commands', sessionId] as const,
     skills: (sessionId: string) => ['skills', sessionId] as const,
+    permissionRules: ['permission-rules'] as const,
+    schedules: ['schedules'] as const,
+    scheduleRuns: (scheduleId: string) => ['schedule-runs', scheduleId] as const,
+    sessionTemplates: ['session-templates'] as const,
+    usage: (filters: UsageFilters) => ['usage', filters] as const,
+    sessionUsage: (sessionId: string) => ['session-usage', sessionId] as const,
+    usageBudgets: ['usage-budgets'] as const,
+    notificationPreferences: ['notification-preferences'] as const,
+    userAccounts: ['user-accounts'] as const,
+    auditEvents: (filters: AuditEventFilters) => ['audit-events', filters] as const,
+    messageSearch: (query: string, filters: MessageSearchFilters) => ['message-search', query, filters] as const,
 }
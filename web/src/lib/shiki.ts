@@ -110,6 +110,26 @@ function resolveLanguage(lang: string | undefined): string {
     return langAlias[lower] ?? lower
 }
 
+function renderHighlighted(highlighter: HighlighterCore, code: string, lang: string): ReactNode | null {
+    // Skip highlighting for unsupported languages (graceful fallback to plain text)
+    if (lang === 'text' || !highlighter.getLoadedLanguages().includes(lang)) {
+        return null
+    }
+
+    const hast = highlighter.codeToHast(code, {
+        lang,
+        themes: SHIKI_THEMES,
+        defaultColor: false,
+        structure: 'inline',
+    })
+
+    return toJsxRuntime(hast, {
+        jsx,
+        jsxs,
+        Fragment,
+    }) as ReactNode
+}
+
 /**
  * Custom hook for syntax highlighting with our minimal Shiki bundle
  */
@@ -127,29 +147,7 @@ export function useShikiHighlighter(
             const highlighter = await getHighlighter()
             if (cancelled) return
 
-            const loadedLangs = highlighter.getLoadedLanguages()
-
-            // Skip highlighting for unsupported languages (graceful fallback to plain text)
-            if (lang === 'text' || !loadedLangs.includes(lang)) {
-                setHighlighted(null)
-                return
-            }
-
-            const hast = highlighter.codeToHast(code, {
-                lang,
-                themes: SHIKI_THEMES,
-                defaultColor: false,
-                structure: 'inline',
-            })
-
-            if (cancelled) return
-
-            const rendered = toJsxRuntime(hast, {
-                jsx,
-                jsxs,
-                Fragment,
-            })
-            setHighlighted(rendered as ReactNode)
+            setHighlighted(renderHighlighted(highlighter, code, lang))
         }
 
         // Debounce highlighting
@@ -162,3 +160,31 @@ export function useShikiHighlighter(
 
     return highlighted
 }
+
+/**
+ * Highlights synchronously once the highlighter has loaded, so the result
+ * always matches `code`. For editors that overlay a textarea on the output,
+ * where a debounced, stale rendering would misalign the caret.
+ */
+export function useLiveShikiHighlighter(
+    code: string,
+    language: string | undefined
+): ReactNode | null {
+    const [highlighter, setHighlighter] = useState<HighlighterCore | null>(null)
+    const lang = useMemo(() => resolveLanguage(language), [language])
+
+    useEffect(() => {
+        let cancelled = false
+        void getHighlighter().then((loaded) => {
+            if (!cancelled) setHighlighter(loaded)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [])
+
+    return useMemo(
+        () => (highlighter ? renderHighlighted(highlighter, code, lang) : null),
+        [highlighter, code, lang]
+    )
+}
@@ -1,5 +1,6 @@
-import { useCallback } from 'react'
+import { useCallback, useEffect } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
+import { hasUserRole } from '@hapi/protocol'
 import {
     Navigate,
     Outlet,
@@ -16,6 +17,7 @@ import { App } from '@/App'
 import { SessionChat } from '@/components/SessionChat'
 import { SessionList } from '@/components/SessionList'
 import { NewSession } from '@/components/NewSession'
+import { TemplateQuickLaunch } from '@/components/SessionTemplates/TemplateQuickLaunch'
 import { LoadingState } from '@/components/LoadingState'
 import { useAppContext } from '@/lib/app-context'
 import { useAppGoBack } from '@/hooks/useAppGoBack'
@@ -35,6 +37,14 @@ import FilesPage from '@/routes/sessions/files'
 import FilePage from '@/routes/sessions/file'
 import TerminalPage from '@/routes/sessions/terminal'
 import SettingsPage from '@/routes/settings'
+import PermissionRulesPage from '@/routes/settings/permissionRules'
+import UsersPage from '@/routes/settings/users'
+import AuditLogPage from '@/routes/settings/audit'
+import SchedulesPage from '@/routes/settings/schedules'
+import SessionTemplatesPage from '@/routes/settings/templates'
+import UsagePage from '@/routes/settings/usage'
+import NotificationSettingsPage from '@/routes/settings/notifications'
+import SearchPage from '@/routes/search'
 
 function BackIcon(props: { className?: string }) {
     return (
@@ -75,6 +85,26 @@ function PlusIcon(props: { className?: string }) {
     )
 }
 
+function SearchIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <circle cx="11" cy="11" r="8" />
+            <line x1="21" y1="21" x2="16.65" y2="16.65" />
+        </svg>
+    )
+}
+
 function SettingsIcon(props: { className?: string }) {
     return (
         <svg
@@ -96,7 +126,7 @@ function SettingsIcon(props: { className?: string }) {
 }
 
 function SessionsPage() {
-    const { api } = useAppContext()
+    const { api, role } = useAppContext()
     const navigate = useNavigate()
     const pathname = useLocation({ select: location => location.pathname })
     const matchRoute = useMatchRoute()
@@ -125,20 +155,30 @@ function SessionsPage() {
                         <div className="flex items-center gap-2">
                             <button
                                 type="button"
-                                onClick={() => navigate({ to: '/settings' })}
+                                onClick={() => navigate({ to: '/search' })}
                                 className="p-1.5 rounded-full text-[var(--app-hint)] hover:text-[var(--app-fg)] hover:bg-[var(--app-subtle-bg)] transition-colors"
-                                title={t('settings.title')}
+                                title={t('search.title')}
                             >
-                                <SettingsIcon className="h-5 w-5" />
+                                <SearchIcon className="h-5 w-5" />
                             </button>
                             <button
                                 type="button"
-                                onClick={() => navigate({ to: '/sessions/new' })}
-                                className="session-list-new-button p-1.5 rounded-full text-[var(--app-link)] transition-colors"
-                                title={t('sessions.new')}
+                                onClick={() => navigate({ to: '/settings' })}
+                                className="p-1.5 rounded-full text-[var(--app-hint)] hover:text-[var(--app-fg)] hover:bg-[var(--app-subtle-bg)] transition-colors"
+                                title={t('settings.title')}
                             >
-                                <PlusIcon className="h-5 w-5" />
+                                <SettingsIcon className="h-5 w-5" />
                             </button>
+                            {hasUserRole(role, 'admin') ? (
+                                <button
+                                    type="button"
+                                    onClick={() => navigate({ to: '/sessions/new' })}
+                                    className="session-list-new-button p-1.5 rounded-full text-[var(--app-link)] transition-colors"
+                                    title={t('sessions.new')}
+                                >
+                                    <PlusIcon className="h-5 w-5" />
+                                </button>
+                            ) : null}
                         </div>
                     </div>
                 </div>
@@ -149,6 +189,15 @@ function SessionsPage() {
                             <div className="text-sm text-red-600">{error}</div>
                         </div>
                     ) : null}
+                    {hasUserRole(role, 'admin') ? (
+                        <TemplateQuickLaunch
+                            api={api}
+                            onLaunched={(sessionId) => navigate({
+                                to: '/sessions/$sessionId',
+                                params: { sessionId },
+                            })}
+                        />
+                    ) : null}
                     <SessionList
                         sessions={sessions}
                         selectedSessionId={selectedSessionId}
@@ -180,13 +229,14 @@ function SessionsIndexPage() {
 }
 
 function SessionPage() {
-    const { api } = useAppContext()
+    const { api, role } = useAppContext()
     const { t } = useTranslation()
     const goBack = useAppGoBack()
     const navigate = useNavigate()
     const queryClient = useQueryClient()
     const { addToast } = useToast()
     const { sessionId } = useParams({ from: '/sessions/$sessionId' })
+    const { seq: targetSeq } = useSearch({ from: '/sessions/$sessionId' })
     const {
         session,
         refetch: refetchSession,
@@ -197,6 +247,7 @@ function SessionPage() {
         isLoading: messagesLoading,
         isLoadingMore: messagesLoadingMore,
         hasMore: messagesHasMore,
+        oldestSeq: messagesOldestSeq,
         loadMore: loadMoreMessages,
         refetch: refetchMessages,
         pendingCount,
@@ -282,6 +333,17 @@ function SessionPage() {
         return await getSlashSuggestions(query)
     }, [getSkillSuggestions, getSlashSuggestions])
 
+    // Page back through history until the message a search result points at is loaded
+    useEffect(() => {
+        if (targetSeq === undefined || messagesLoading || messagesLoadingMore || !messagesHasMore) {
+            return
+        }
+        if (messagesOldestSeq !== null && messagesOldestSeq <= targetSeq) {
+            return
+        }
+        void loadMoreMessages()
+    }, [targetSeq, messagesLoading, messagesLoadingMore, messagesHasMore, messagesOldestSeq, loadMoreMessages])
+
     const refreshSelectedSession = useCallback(() => {
         void refetchSession()
         void refetchMessages()
@@ -315,6 +377,8 @@ function SessionPage() {
             onAtBottomChange={setAtBottom}
             onRetryMessage={retryMessage}
             autocompleteSuggestions={getAutocompleteSuggestions}
+            targetSeq={targetSeq}
+            readOnly={!hasUserRole(role, 'operator')}
         />
     )
 }
@@ -411,6 +475,14 @@ const sessionsIndexRoute = createRoute({
 const sessionDetailRoute = createRoute({
     getParentRoute: () => sessionsRoute,
     path: '$sessionId',
+    validateSearch: (search: Record<string, unknown>): { seq?: number } => {
+        const seq = typeof search.seq === 'number'
+            ? search.seq
+            : typeof search.seq === 'string'
+                ? Number.parseInt(search.seq, 10)
+                : NaN
+        return Number.isInteger(seq) ? { seq } : {}
+    },
     component: SessionDetailRoute,
 })
 
@@ -430,9 +502,23 @@ const sessionFilesRoute = createRoute({
     component: FilesPage,
 })
 
+type SessionTerminalSearch = {
+    // A running terminal to reattach to; without it the page starts a new one
+    terminal?: string
+    watch?: boolean
+}
+
 const sessionTerminalRoute = createRoute({
     getParentRoute: () => sessionDetailRoute,
     path: 'terminal',
+    validateSearch: (search: Record<string, unknown>): SessionTerminalSearch => {
+        const terminal = typeof search.terminal === 'string' && search.terminal ? search.terminal : undefined
+        const watch = search.watch === true || search.watch === 'true'
+        return {
+            ...(terminal ? { terminal } : {}),
+            ...(terminal && watch ? { watch: true } : {})
+        }
+    },
     component: TerminalPage,
 })
 
@@ -440,6 +526,8 @@ type SessionFileSearch = {
     path: string
     staged?: boolean
     tab?: 'changes' | 'directories'
+    // Open straight into the editor, e.g. after creating the file
+    edit?: boolean
 }
 
 const sessionFileRoute = createRoute({
@@ -467,6 +555,9 @@ const sessionFileRoute = createRoute({
         if (tab !== undefined) {
             result.tab = tab
         }
+        if (search.edit === true || search.edit === 'true') {
+            result.edit = true
+        }
         return result
     },
     component: FilePage,
@@ -488,6 +579,58 @@ const settingsRoute = createRoute({
     component: SettingsPage,
 })
 
+const permissionRulesRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/permission-rules',
+    component: PermissionRulesPage,
+})
+
+const schedulesRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/schedules',
+    component: SchedulesPage,
+})
+
+const sessionTemplatesRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/templates',
+    component: SessionTemplatesPage,
+})
+
+const usageRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/usage',
+    component: UsagePage,
+})
+
+const notificationSettingsRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/notifications',
+    component: NotificationSettingsPage,
+})
+
+const usersRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/users',
+    component: UsersPage,
+})
+
+const auditLogRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/settings/audit',
+    component: AuditLogPage,
+})
+
+const searchRoute = createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/search',
+    validateSearch: (search: Record<string, unknown>): { q?: string } => {
+        const q = typeof search.q === 'string' ? search.q : undefined
+        return q ? { q } : {}
+    },
+    component: SearchPage,
+})
+
 export const routeTree = rootRoute.addChildren([
     indexRoute,
     sessionsRoute.addChildren([
@@ -500,6 +643,14 @@ export const routeTree = rootRoute.addChildren([
         ]),
     ]),
     settingsRoute,
+    permissionRulesRoute,
+    schedulesRoute,
+    sessionTemplatesRoute,
+    usageRoute,
+    notificationSettingsRoute,
+    usersRoute,
+    auditLogRoute,
+    searchRoute,
 ])
 
 type RouterHistory = Parameters<typeof createRouter>[0]['history']
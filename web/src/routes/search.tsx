@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react'
+import { useNavigate, useSearch } from '@tanstack/react-router'
+import type { Machine, MessageSearchFilters, MessageSearchResult } from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useMachines } from '@/hooks/queries/useMachines'
+import { useMessageSearch } from '@/hooks/queries/useMessageSearch'
+import { useTranslation } from '@/lib/use-translation'
+
+const FLAVORS = ['claude', 'codex', 'gemini', 'opencode'] as const
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+function getMachineTitle(machine: Machine): string {
+    if (machine.metadata?.displayName) return machine.metadata.displayName
+    if (machine.metadata?.host) return machine.metadata.host
+    return machine.id.slice(0, 8)
+}
+
+// Date inputs yield local calendar days; the range covers both days entirely
+function parseDay(value: string, endOfDay: boolean): number | undefined {
+    if (!value) return undefined
+    const [year, month, day] = value.split('-').map((part) => Number.parseInt(part, 10))
+    if (!year || !month || !day) return undefined
+    const date = endOfDay
+        ? new Date(year, month - 1, day, 23, 59, 59, 999)
+        : new Date(year, month - 1, day)
+    return date.getTime()
+}
+
+function SearchResultItem(props: { result: MessageSearchResult; onSelect: () => void }) {
+    const { result } = props
+    const title = result.sessionName ?? result.sessionPath ?? result.sessionId.slice(0, 8)
+
+    return (
+        <button
+            type="button"
+            onClick={props.onSelect}
+            className="flex w-full flex-col gap-1 px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+        >
+            <span className="flex items-center justify-between gap-2">
+                <span className="truncate text-sm font-medium text-[var(--app-fg)]">{title}</span>
+                <span className="shrink-0 text-xs text-[var(--app-hint)]">
+                    {new Date(result.createdAt).toLocaleString()}
+                </span>
+            </span>
+            <span className="line-clamp-3 break-words text-sm text-[var(--app-hint)]">
+                {result.snippet.map((segment, index) => segment.highlight ? (
+                    <mark key={index} className="rounded bg-amber-300/40 px-0.5 text-[var(--app-fg)]">
+                        {segment.text}
+                    </mark>
+                ) : (
+                    <span key={index}>{segment.text}</span>
+                ))}
+            </span>
+            {result.sessionPath && result.sessionName ? (
+                <span className="truncate font-mono text-xs text-[var(--app-hint)]">{result.sessionPath}</span>
+            ) : null}
+        </button>
+    )
+}
+
+export default function SearchPage() {
+    const { t } = useTranslation()
+    const { api } = useAppContext()
+    const goBack = useAppGoBack()
+    const navigate = useNavigate()
+    const { q: initialQuery } = useSearch({ from: '/search' })
+    const { machines } = useMachines(api, true)
+
+    const [input, setInput] = useState(initialQuery ?? '')
+    const [query, setQuery] = useState(initialQuery ?? '')
+    const [showFilters, setShowFilters] = useState(false)
+    const [machineId, setMachineId] = useState('')
+    const [flavor, setFlavor] = useState('')
+    const [path, setPath] = useState('')
+    const [fromDay, setFromDay] = useState('')
+    const [toDay, setToDay] = useState('')
+
+    const filters = useMemo<MessageSearchFilters>(() => ({
+        machineId: machineId || undefined,
+        flavor: flavor || undefined,
+        path: path.trim() || undefined,
+        from: parseDay(fromDay, false),
+        to: parseDay(toDay, true)
+    }), [machineId, flavor, path, fromDay, toDay])
+
+    const { results, error, isLoading } = useMessageSearch(api, query, filters)
+    const hasQuery = query.trim().length > 0
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        const next = input.trim()
+        setQuery(next)
+        navigate({ to: '/search', search: next ? { q: next } : {}, replace: true })
+    }
+
+    const handleSelect = (result: MessageSearchResult) => {
+        navigate({
+            to: '/sessions/$sessionId',
+            params: { sessionId: result.sessionId },
+            search: { seq: result.seq }
+        })
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('search.title')}</div>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-2 px-3 py-3">
+                        <div className="flex gap-2">
+                            <input
+                                type="search"
+                                value={input}
+                                onChange={(e) => setInput(e.target.value)}
+                                placeholder={t('search.placeholder')}
+                                className={inputClassName}
+                                maxLength={500}
+                                autoFocus
+                            />
+                            <Button type="submit" disabled={!input.trim()}>
+                                {t('search.submit')}
+                            </Button>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => setShowFilters((value) => !value)}
+                            className="w-fit text-xs text-[var(--app-link)]"
+                        >
+                            {showFilters ? t('search.filters.hide') : t('search.filters.show')}
+                        </button>
+                        {showFilters ? (
+                            <div className="grid grid-cols-2 gap-2 text-sm">
+                                <select
+                                    value={machineId}
+                                    onChange={(e) => setMachineId(e.target.value)}
+                                    aria-label={t('search.filters.machine')}
+                                    className={inputClassName}
+                                >
+                                    <option value="">{t('search.filters.anyMachine')}</option>
+                                    {machines.map((machine) => (
+                                        <option key={machine.id} value={machine.id}>
+                                            {getMachineTitle(machine)}
+                                        </option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={flavor}
+                                    onChange={(e) => setFlavor(e.target.value)}
+                                    aria-label={t('search.filters.flavor')}
+                                    className={inputClassName}
+                                >
+                                    <option value="">{t('search.filters.anyFlavor')}</option>
+                                    {FLAVORS.map((value) => (
+                                        <option key={value} value={value}>{value}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="text"
+                                    value={path}
+                                    onChange={(e) => setPath(e.target.value)}
+                                    placeholder={t('search.filters.path')}
+                                    className={`${inputClassName} col-span-2 font-mono`}
+                                />
+                                <label className="flex flex-col gap-1 text-xs text-[var(--app-hint)]">
+                                    {t('search.filters.from')}
+                                    <input
+                                        type="date"
+                                        value={fromDay}
+                                        onChange={(e) => setFromDay(e.target.value)}
+                                        className={inputClassName}
+                                    />
+                                </label>
+                                <label className="flex flex-col gap-1 text-xs text-[var(--app-hint)]">
+                                    {t('search.filters.to')}
+                                    <input
+                                        type="date"
+                                        value={toDay}
+                                        onChange={(e) => setToDay(e.target.value)}
+                                        className={inputClassName}
+                                    />
+                                </label>
+                            </div>
+                        ) : null}
+                    </form>
+
+                    {error ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error}</div>
+                    ) : null}
+
+                    {!hasQuery ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('search.hint')}</div>
+                    ) : isLoading ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : results.length === 0 && !error ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('search.empty')}</div>
+                    ) : (
+                        <div className="divide-y divide-[var(--app-divider)] border-t border-[var(--app-divider)]">
+                            {results.map((result) => (
+                                <SearchResultItem
+                                    key={result.messageId}
+                                    result={result}
+                                    onSelect={() => handleSelect(result)}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
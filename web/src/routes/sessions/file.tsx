@@ -1,15 +1,24 @@
-import { useEffect, useMemo, useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useParams, useSearch } from '@tanstack/react-router'
-import type { GitCommandResponse } from '@/types/api'
+import type { FileReadResponse, GitCommandResponse } from '@/types/api'
 import { FileIcon } from '@/components/FileIcon'
 import { CopyIcon, CheckIcon } from '@/components/icons'
+import { CodeEditor } from '@/components/SessionFiles/CodeEditor'
+import { splitDiffHunks, type DiffHunk } from '@/components/SessionFiles/diffHunks'
+import { FileConflictDialog } from '@/components/SessionFiles/FileConflictDialog'
+import { mergeFileEdits } from '@/components/SessionFiles/fileMerge'
+import { FileStructuralDiff } from '@/components/StructuralDiff/StructuralDiffView'
+import { useStructuralDiffPreference } from '@/components/StructuralDiff/useStructuralDiffPreference'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { useAppContext } from '@/lib/app-context'
 import { useAppGoBack } from '@/hooks/useAppGoBack'
 import { useCopyToClipboard } from '@/hooks/useCopyToClipboard'
+import { useGitActions } from '@/hooks/mutations/useGitActions'
+import { useSession } from '@/hooks/queries/useSession'
 import { queryKeys } from '@/lib/query-keys'
 import { langAlias, useShikiHighlighter } from '@/lib/shiki'
-import { decodeBase64 } from '@/lib/utils'
+import { decodeBase64, encodeBase64 } from '@/lib/utils'
 
 function decodePath(value: string): string {
     if (!value) return ''
@@ -36,41 +45,68 @@ function BackIcon(props: { className?: string }) {
     )
 }
 
-function DiffDisplay(props: { diffContent: string }) {
-    const lines = props.diffContent.split('\n')
+function DiffLine(props: { line: string }) {
+    const { line } = props
+    const isAdd = line.startsWith('+') && !line.startsWith('+++')
+    const isRemove = line.startsWith('-') && !line.startsWith('---')
+    const isHeader = line.startsWith('+++') || line.startsWith('---')
+
+    const className = [
+        'whitespace-pre-wrap px-3 py-0.5 text-xs font-mono',
+        isAdd ? 'bg-[var(--app-diff-added-bg)] text-[var(--app-diff-added-text)]' : '',
+        isRemove ? 'bg-[var(--app-diff-removed-bg)] text-[var(--app-diff-removed-text)]' : '',
+        isHeader ? 'text-[var(--app-hint)] font-semibold' : ''
+    ].filter(Boolean).join(' ')
+
+    const style = isAdd
+        ? { borderLeft: '2px solid var(--app-git-staged-color)' }
+        : isRemove
+            ? { borderLeft: '2px solid var(--app-git-deleted-color)' }
+            : undefined
+
+    return (
+        <div className={className} style={style}>
+            {line || ' '}
+        </div>
+    )
+}
+
+function DiffDisplay(props: { diffContent: string; renderHunkActions?: (hunk: DiffHunk) => ReactNode }) {
+    const parsed = useMemo(() => splitDiffHunks(props.diffContent), [props.diffContent])
 
     return (
         <div className="overflow-hidden rounded-md border border-[var(--app-border)] bg-[var(--app-bg)]">
-            {lines.map((line, index) => {
-                const isAdd = line.startsWith('+') && !line.startsWith('+++')
-                const isRemove = line.startsWith('-') && !line.startsWith('---')
-                const isHunk = line.startsWith('@@')
-                const isHeader = line.startsWith('+++') || line.startsWith('---')
-
-                const className = [
-                    'whitespace-pre-wrap px-3 py-0.5 text-xs font-mono',
-                    isAdd ? 'bg-[var(--app-diff-added-bg)] text-[var(--app-diff-added-text)]' : '',
-                    isRemove ? 'bg-[var(--app-diff-removed-bg)] text-[var(--app-diff-removed-text)]' : '',
-                    isHunk ? 'bg-[var(--app-subtle-bg)] text-[var(--app-hint)] font-semibold' : '',
-                    isHeader ? 'text-[var(--app-hint)] font-semibold' : ''
-                ].filter(Boolean).join(' ')
-
-                const style = isAdd
-                    ? { borderLeft: '2px solid var(--app-git-staged-color)' }
-                    : isRemove
-                        ? { borderLeft: '2px solid var(--app-git-deleted-color)' }
-                        : undefined
-
-                return (
-                    <div key={`${index}-${line}`} className={className} style={style}>
-                        {line || ' '}
+            {parsed.headerLines.map((line, index) => (
+                <DiffLine key={`header-${index}`} line={line} />
+            ))}
+            {parsed.hunks.map((hunk, hunkIndex) => (
+                <div key={`hunk-${hunkIndex}-${hunk.header}`}>
+                    <div className="flex items-center gap-2 bg-[var(--app-subtle-bg)] px-3 py-0.5 text-xs font-mono font-semibold text-[var(--app-hint)]">
+                        <span className="min-w-0 flex-1 whitespace-pre-wrap">{hunk.header}</span>
+                        {hunk.patch && props.renderHunkActions ? props.renderHunkActions(hunk) : null}
                     </div>
-                )
-            })}
+                    {hunk.lines.map((line, index) => (
+                        <DiffLine key={`${index}-${line}`} line={line} />
+                    ))}
+                </div>
+            ))}
         </div>
     )
 }
 
+function HunkActionButton(props: { label: string; onClick: () => void; disabled: boolean }) {
+    return (
+        <button
+            type="button"
+            onClick={props.onClick}
+            disabled={props.disabled}
+            className="shrink-0 rounded px-1.5 py-0.5 font-sans text-[11px] font-semibold text-[var(--app-hint)] hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)] disabled:opacity-50"
+        >
+            {props.label}
+        </button>
+    )
+}
+
 function FileContentSkeleton() {
     const widths = ['w-full', 'w-11/12', 'w-5/6', 'w-3/4', 'w-2/3', 'w-4/5']
 
@@ -132,6 +168,17 @@ function isBinaryContent(content: string): boolean {
     return nonPrintable / content.length > 0.1
 }
 
+type EditBase = {
+    content: string
+    // null when the file is missing and saving recreates it
+    hash: string | null
+}
+
+type SaveConflict = {
+    theirs: string | null
+    hash: string | null
+}
+
 function extractCommandError(result: GitCommandResponse | undefined): string | null {
     if (!result) return null
     if (result.success) return null
@@ -140,10 +187,12 @@ function extractCommandError(result: GitCommandResponse | undefined): string | n
 
 export default function FilePage() {
     const { api } = useAppContext()
+    const queryClient = useQueryClient()
     const { copied, copy } = useCopyToClipboard()
     const goBack = useAppGoBack()
     const { sessionId } = useParams({ from: '/sessions/$sessionId/file' })
     const search = useSearch({ from: '/sessions/$sessionId/file' })
+    const { session } = useSession(api, sessionId)
     const encodedPath = typeof search.path === 'string' ? search.path : ''
     const staged = search.staged
     const [showDiff, setShowDiff] = useState<boolean>(() => {
@@ -204,6 +253,7 @@ export default function FilePage() {
     const highlighted = useShikiHighlighter(decodedContent, language)
 
     const [displayMode, setDisplayMode] = useState<'diff' | 'file'>(() => (showDiff ? 'diff' : 'file'))
+    const [structural, setStructural] = useStructuralDiffPreference()
     const [hasUserSelectedDisplayMode, setHasUserSelectedDisplayMode] = useState(false)
 
     const setDisplayModeUser = (mode: 'diff' | 'file') => {
@@ -233,6 +283,129 @@ export default function FilePage() {
         }
     }, [diffSuccess, diffFailed, diffContent, hasUserSelectedDisplayMode, imageDataUrl, showDiff])
 
+    const [editBase, setEditBase] = useState<EditBase | null>(null)
+    const [draft, setDraft] = useState('')
+    const [saving, setSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+    const [conflict, setConflict] = useState<SaveConflict | null>(null)
+    const [discardOpen, setDiscardOpen] = useState(false)
+    const [discardHunk, setDiscardHunk] = useState<DiffHunk | null>(null)
+    const [hunkError, setHunkError] = useState<string | null>(null)
+    const gitActions = useGitActions(api, sessionId)
+    const autoEditRef = useRef(false)
+
+    const editing = editBase !== null
+    const dirty = editing && draft !== editBase.content
+    const fileHash = fileContentResult?.success ? fileContentResult.hash : undefined
+    // Older CLIs do not report a hash, and without one a save cannot detect conflicts
+    const canEdit = Boolean(session?.active && fileHash && !binaryFile && !imageDataUrl)
+
+    const startEditing = () => {
+        if (!fileHash) return
+        setEditBase({ content: decodedContent, hash: fileHash })
+        setDraft(decodedContent)
+        setSaveError(null)
+    }
+
+    const stopEditing = () => {
+        setEditBase(null)
+        setConflict(null)
+        setSaveError(null)
+    }
+
+    useEffect(() => {
+        if (search.edit && canEdit && !autoEditRef.current) {
+            autoEditRef.current = true
+            startEditing()
+        }
+    }, [canEdit, search.edit])
+
+    const saveDraft = async (content: string, expectedHash: string | null) => {
+        if (!api) return
+        setSaving(true)
+        setSaveError(null)
+        try {
+            const result = await api.writeSessionFile(sessionId, filePath, encodeBase64(content), expectedHash)
+            if (result.success && result.hash) {
+                queryClient.setQueryData<FileReadResponse>(queryKeys.sessionFile(sessionId, filePath), {
+                    success: true,
+                    content: encodeBase64(content),
+                    hash: result.hash
+                })
+                void queryClient.invalidateQueries({ queryKey: queryKeys.gitFileDiff(sessionId, filePath, staged) })
+                void queryClient.invalidateQueries({ queryKey: queryKeys.structuralFileDiff(sessionId, filePath, staged) })
+                void queryClient.invalidateQueries({ queryKey: queryKeys.gitStatus(sessionId) })
+                stopEditing()
+                return
+            }
+            if (result.conflict) {
+                if (result.currentHash === null) {
+                    setConflict({ theirs: null, hash: null })
+                    return
+                }
+                const current = await api.readSessionFile(sessionId, filePath)
+                if (!current.success || !current.hash) {
+                    setSaveError(current.error ?? 'Failed to read the changed file')
+                    return
+                }
+                setConflict({ theirs: decodeBase64(current.content ?? '').text, hash: current.hash })
+                return
+            }
+            setSaveError(result.error ?? 'Failed to save file')
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : 'Failed to save file')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleSave = () => {
+        if (!editBase || saving || !dirty) return
+        void saveDraft(draft, editBase.hash)
+    }
+
+    const handleCancelEditing = () => {
+        if (dirty) {
+            setDiscardOpen(true)
+            return
+        }
+        stopEditing()
+    }
+
+    const mergedDraft = useMemo(() => {
+        if (!editBase || !conflict || conflict.theirs === null) return null
+        return mergeFileEdits(editBase.content, draft, conflict.theirs)
+    }, [conflict, draft, editBase])
+
+    // Both resolutions keep the editor open on the new base so the result can be reviewed before saving
+    const rebaseDraft = (content: string) => {
+        if (!conflict || conflict.theirs === null) return
+        setEditBase({ content: conflict.theirs, hash: conflict.hash })
+        setDraft(content)
+        setConflict(null)
+    }
+
+    const applyHunk = async (hunk: DiffHunk, mode: 'stage' | 'unstage') => {
+        setHunkError(null)
+        try {
+            await gitActions.applyPatch(hunk.patch, mode)
+        } catch (error) {
+            setHunkError(error instanceof Error ? error.message : 'Git command failed')
+        }
+    }
+
+    // Hunks of the staged diff can only be unstaged; unstaged ones can be staged or dropped
+    const renderHunkActions = session?.active
+        ? (hunk: DiffHunk) => staged ? (
+            <HunkActionButton label="Unstage" onClick={() => void applyHunk(hunk, 'unstage')} disabled={gitActions.isPending} />
+        ) : (
+            <>
+                <HunkActionButton label="Discard" onClick={() => setDiscardHunk(hunk)} disabled={gitActions.isPending} />
+                <HunkActionButton label="Stage" onClick={() => void applyHunk(hunk, 'stage')} disabled={gitActions.isPending} />
+            </>
+        )
+        : undefined
+
     const loading = diffQuery.isLoading || fileQuery.isLoading
     const fileError = fileContentResult && !fileContentResult.success
         ? (fileContentResult.error ?? 'Failed to read file')
@@ -252,7 +425,7 @@ export default function FilePage() {
                         <BackIcon />
                     </button>
                     <div className="min-w-0 flex-1">
-                        <div className="truncate font-semibold">{fileName}</div>
+                        <div className="truncate font-semibold">{dirty ? `${fileName} •` : fileName}</div>
                         <div className="truncate text-xs text-[var(--app-hint)]">{filePath || 'Unknown path'}</div>
                     </div>
                 </div>
@@ -262,6 +435,36 @@ export default function FilePage() {
                 <div className="mx-auto w-full max-w-content px-3 py-2 flex items-center gap-2 border-b border-[var(--app-divider)]">
                     <FileIcon fileName={fileName} size={20} />
                     <span className="min-w-0 flex-1 truncate text-xs text-[var(--app-hint)]">{filePath}</span>
+                    {editing ? (
+                        <>
+                            <button
+                                type="button"
+                                onClick={handleCancelEditing}
+                                disabled={saving}
+                                className="shrink-0 rounded px-2 py-1 text-[11px] font-semibold bg-[var(--app-subtle-bg)] text-[var(--app-hint)] hover:text-[var(--app-fg)] transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleSave}
+                                disabled={saving || !dirty}
+                                className="shrink-0 rounded px-2 py-1 text-[11px] font-semibold bg-[var(--app-button)] text-[var(--app-button-text)] transition-opacity disabled:opacity-50"
+                                title="Save (Ctrl+S)"
+                            >
+                                {saving ? 'Saving…' : 'Save'}
+                            </button>
+                        </>
+                    ) : canEdit ? (
+                        <button
+                            type="button"
+                            onClick={startEditing}
+                            className="shrink-0 rounded px-2 py-1 text-[11px] font-semibold bg-[var(--app-subtle-bg)] text-[var(--app-hint)] hover:text-[var(--app-fg)] transition-colors"
+                            title="Edit file"
+                        >
+                            Edit
+                        </button>
+                    ) : null}
                     <button
                         type="button"
                         onClick={() => setShowDiff((v) => !v)}
@@ -284,7 +487,7 @@ export default function FilePage() {
                 </div>
             </div>
 
-            {showDiff && diffContent ? (
+            {showDiff && diffContent && !editing ? (
                 <div className="bg-[var(--app-bg)]">
                     <div className="mx-auto w-full max-w-content px-3 py-2 flex items-center gap-2 border-b border-[var(--app-divider)]">
                         <button
@@ -301,6 +504,17 @@ export default function FilePage() {
                         >
                             File
                         </button>
+                        {displayMode === 'diff' ? (
+                            <button
+                                type="button"
+                                onClick={() => setStructural(!structural)}
+                                aria-pressed={structural}
+                                title="Syntax-aware side-by-side diff (difftastic)"
+                                className={`ml-auto rounded px-3 py-1 text-xs font-semibold ${structural ? 'bg-[var(--app-button)] text-[var(--app-button-text)] opacity-80' : 'bg-[var(--app-subtle-bg)] text-[var(--app-hint)]'}`}
+                            >
+                                Structural
+                            </button>
+                        ) : null}
                     </div>
                 </div>
             ) : null}
@@ -312,14 +526,40 @@ export default function FilePage() {
                             {diffErrorMessage}
                         </div>
                     ) : null}
-                    {missingPath ? (
+                    {hunkError ? (
+                        <div className="mb-3 whitespace-pre-wrap rounded-md bg-red-50 p-2 text-xs text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                            {hunkError}
+                        </div>
+                    ) : null}
+                    {saveError ? (
+                        <div className="mb-3 rounded-md bg-red-50 p-2 text-xs text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                            {saveError}
+                        </div>
+                    ) : null}
+                    {editing ? (
+                        <CodeEditor
+                            value={draft}
+                            language={language}
+                            onChange={setDraft}
+                            onSave={handleSave}
+                            disabled={saving}
+                        />
+                    ) : missingPath ? (
                         <div className="text-sm text-[var(--app-hint)]">No file path provided.</div>
                     ) : loading ? (
                         <FileContentSkeleton />
                     ) : fileError ? (
                         <div className="text-sm text-[var(--app-hint)]">{fileError}</div>
+                    ) : showDiff && displayMode === 'diff' && diffContent && structural ? (
+                        <FileStructuralDiff
+                            api={api}
+                            sessionId={sessionId}
+                            path={filePath}
+                            staged={staged}
+                            fallback={<DiffDisplay diffContent={diffContent} renderHunkActions={renderHunkActions} />}
+                        />
                     ) : showDiff && displayMode === 'diff' && diffContent ? (
-                        <DiffDisplay diffContent={diffContent} />
+                        <DiffDisplay diffContent={diffContent} renderHunkActions={renderHunkActions} />
                     ) : showDiff && displayMode === 'diff' && diffError ? (
                         <div className="text-sm text-[var(--app-hint)]">{diffError}</div>
                     ) : displayMode === 'file' ? (
@@ -355,6 +595,50 @@ export default function FilePage() {
                     )}
                 </div>
             </div>
+
+            <FileConflictDialog
+                open={conflict !== null}
+                filePath={filePath}
+                mine={draft}
+                theirs={conflict?.theirs ?? null}
+                merged={mergedDraft}
+                isPending={saving}
+                error={saveError}
+                onKeepMine={() => {
+                    if (conflict) void saveDraft(draft, conflict.hash)
+                }}
+                onUseTheirs={() => rebaseDraft(conflict?.theirs ?? '')}
+                onUseMerged={() => {
+                    if (mergedDraft !== null) rebaseDraft(mergedDraft)
+                }}
+                onClose={() => setConflict(null)}
+            />
+
+            <ConfirmDialog
+                isOpen={discardOpen}
+                onClose={() => setDiscardOpen(false)}
+                title="Discard changes?"
+                description={`Your unsaved edits to ${fileName} will be lost.`}
+                confirmLabel="Discard"
+                confirmingLabel="Discarding…"
+                onConfirm={async () => stopEditing()}
+                isPending={false}
+                destructive
+            />
+
+            <ConfirmDialog
+                isOpen={discardHunk !== null}
+                onClose={() => setDiscardHunk(null)}
+                title="Discard this change?"
+                description={`The lines in ${discardHunk?.header ?? 'this hunk'} go back to the staged or committed version. It cannot be undone.`}
+                confirmLabel="Discard"
+                confirmingLabel="Discarding…"
+                onConfirm={async () => {
+                    if (discardHunk) await gitActions.applyPatch(discardHunk.patch, 'discard')
+                }}
+                isPending={gitActions.isPending}
+                destructive
+            />
         </div>
     )
 }
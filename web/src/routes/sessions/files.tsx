@@ -1,10 +1,16 @@
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react'
 import { useNavigate, useParams, useSearch } from '@tanstack/react-router'
 import type { FileSearchItem, GitFileStatus } from '@/types/api'
 import { FileIcon } from '@/components/FileIcon'
 import { DirectoryTree } from '@/components/SessionFiles/DirectoryTree'
+import { GitBranchDialog } from '@/components/SessionFiles/GitBranchDialog'
+import { GitCommitPanel } from '@/components/SessionFiles/GitCommitPanel'
+import { NewFileDialog } from '@/components/SessionFiles/NewFileDialog'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { useAppContext } from '@/lib/app-context'
 import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useGitActions } from '@/hooks/mutations/useGitActions'
+import { useGitBranches } from '@/hooks/queries/useGitBranches'
 import { useGitStatusFiles } from '@/hooks/queries/useGitStatusFiles'
 import { useSession } from '@/hooks/queries/useSession'
 import { useSessionFileSearch } from '@/hooks/queries/useSessionFileSearch'
@@ -71,6 +77,65 @@ function SearchIcon(props: { className?: string }) {
     )
 }
 
+function PlusIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <line x1="12" y1="5" x2="12" y2="19" />
+            <line x1="5" y1="12" x2="19" y2="12" />
+        </svg>
+    )
+}
+
+function MinusIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <line x1="5" y1="12" x2="19" y2="12" />
+        </svg>
+    )
+}
+
+function UndoIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <path d="M3 7v6h6" />
+            <path d="M21 17a9 9 0 0 0-15-6.7L3 13" />
+        </svg>
+    )
+}
+
 function GitBranchIcon(props: { className?: string }) {
     return (
         <svg
@@ -155,32 +220,70 @@ function LineChanges(props: { added: number; removed: number }) {
     )
 }
 
+function RowActionButton(props: { title: string; onClick: () => void; disabled?: boolean; children: ReactNode }) {
+    return (
+        <button
+            type="button"
+            onClick={props.onClick}
+            disabled={props.disabled}
+            title={props.title}
+            aria-label={props.title}
+            className="flex h-7 w-7 items-center justify-center rounded text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)] disabled:opacity-50"
+        >
+            {props.children}
+        </button>
+    )
+}
+
 function GitFileRow(props: {
     file: GitFileStatus
     onOpen: () => void
     showDivider: boolean
+    actions?: ReactNode
 }) {
     const subtitle = props.file.filePath || 'project root'
 
     return (
-        <button
-            type="button"
-            onClick={props.onOpen}
-            className={`flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-[var(--app-subtle-bg)] transition-colors ${props.showDivider ? 'border-b border-[var(--app-divider)]' : ''}`}
-        >
-            <FileIcon fileName={props.file.fileName} size={22} />
-            <div className="min-w-0 flex-1">
-                <div className="truncate font-medium">{props.file.fileName}</div>
-                <div className="truncate text-xs text-[var(--app-hint)]">{subtitle}</div>
-            </div>
-            <div className="flex items-center gap-2">
-                <LineChanges added={props.file.linesAdded} removed={props.file.linesRemoved} />
-                <StatusBadge status={props.file.status} />
-            </div>
-        </button>
+        <div className={`flex items-center pr-2 hover:bg-[var(--app-subtle-bg)] transition-colors ${props.showDivider ? 'border-b border-[var(--app-divider)]' : ''}`}>
+            <button
+                type="button"
+                onClick={props.onOpen}
+                className="flex min-w-0 flex-1 items-center gap-3 px-3 py-2 text-left"
+            >
+                <FileIcon fileName={props.file.fileName} size={22} />
+                <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium">{props.file.fileName}</div>
+                    <div className="truncate text-xs text-[var(--app-hint)]">{subtitle}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <LineChanges added={props.file.linesAdded} removed={props.file.linesRemoved} />
+                    <StatusBadge status={props.file.status} />
+                </div>
+            </button>
+            {props.actions ? <div className="flex items-center gap-0.5">{props.actions}</div> : null}
+        </div>
     )
 }
 
+// Renames need both sides unstaged, or the old path stays deleted in the index
+function getFilePaths(files: GitFileStatus[]): string[] {
+    return files.flatMap((file) => (file.oldPath ? [file.fullPath, file.oldPath] : [file.fullPath]))
+}
+
+type DiscardTarget = {
+    label: string
+    paths: string[]
+    untrackedPaths: string[]
+}
+
+function getDiscardTarget(files: GitFileStatus[], label: string): DiscardTarget {
+    return {
+        label,
+        paths: files.filter((file) => file.status !== 'untracked').map((file) => file.fullPath),
+        untrackedPaths: files.filter((file) => file.status === 'untracked').map((file) => file.fullPath)
+    }
+}
+
 function SearchResultRow(props: {
     file: FileSearchItem
     onOpen: () => void
@@ -251,6 +354,11 @@ export default function FilesPage() {
         localStorage.setItem('hapi-files-show-diff', showDiff ? 'true' : 'false')
     }, [showDiff])
 
+    const [newFileOpen, setNewFileOpen] = useState(false)
+    const [branchDialogOpen, setBranchDialogOpen] = useState(false)
+    const [discardTarget, setDiscardTarget] = useState<DiscardTarget | null>(null)
+    const [gitActionError, setGitActionError] = useState<string | null>(null)
+
     const initialTab = search.tab === 'directories' ? 'directories' : 'changes'
     const [activeTab, setActiveTab] = useState<'changes' | 'directories'>(initialTab)
 
@@ -261,6 +369,19 @@ export default function FilesPage() {
         refetch: refetchGit
     } = useGitStatusFiles(api, sessionId)
 
+    const gitActions = useGitActions(api, sessionId)
+    const canChangeGit = Boolean(session?.active && gitStatus)
+    const branches = useGitBranches(api, sessionId, branchDialogOpen)
+
+    const runGitAction = useCallback(async (action: () => Promise<void>) => {
+        setGitActionError(null)
+        try {
+            await action()
+        } catch (error) {
+            setGitActionError(error instanceof Error ? error.message : 'Git command failed')
+        }
+    }, [])
+
     const shouldSearchFiles = Boolean(searchQuery)
         || showAllFiles
         || (gitStatus ? (gitStatus.totalStaged === 0 && gitStatus.totalUnstaged === 0) : Boolean(gitError))
@@ -285,6 +406,27 @@ export default function FilesPage() {
         })
     }, [activeTab, navigate, sessionId])
 
+    const handleCreateFile = useCallback(async (path: string): Promise<string | null> => {
+        if (!api) {
+            return 'Not connected'
+        }
+        const result = await api.writeSessionFile(sessionId, path, '', null)
+        if (!result.success) {
+            return result.conflict ? 'A file with this name already exists.' : (result.error ?? 'Failed to create file')
+        }
+        setNewFileOpen(false)
+        void queryClient.invalidateQueries({ queryKey: ['session-directory', sessionId] })
+        void queryClient.invalidateQueries({ queryKey: queryKeys.gitStatus(sessionId) })
+        navigate({
+            to: '/sessions/$sessionId/file',
+            params: { sessionId },
+            search: activeTab === 'directories'
+                ? { path: encodeBase64(path), tab: 'directories' as const, edit: true }
+                : { path: encodeBase64(path), edit: true }
+        })
+        return null
+    }, [activeTab, api, navigate, queryClient, sessionId])
+
     const branchLabel = gitStatus?.branch ?? 'detached'
     const subtitle = session?.metadata?.path ?? sessionId
     const showGitErrorBanner = Boolean(gitError)
@@ -344,6 +486,16 @@ export default function FilesPage() {
                         <div className="truncate font-semibold">Files</div>
                         <div className="truncate text-xs text-[var(--app-hint)]">{subtitle}</div>
                     </div>
+                    {session?.active ? (
+                        <button
+                            type="button"
+                            onClick={() => setNewFileOpen(true)}
+                            className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                            title="New file"
+                        >
+                            <PlusIcon />
+                        </button>
+                    ) : null}
                     <button
                         type="button"
                         onClick={handleRefresh}
@@ -426,17 +578,97 @@ export default function FilesPage() {
                     <div className="mx-auto w-full max-w-content px-3 py-2 border-b border-[var(--app-divider)]">
                         <div className="flex items-center gap-2 text-sm">
                             <GitBranchIcon className="text-[var(--app-hint)]" />
-                            <span className="font-semibold">{branchLabel}</span>
+                            {canChangeGit ? (
+                                <button
+                                    type="button"
+                                    onClick={() => setBranchDialogOpen(true)}
+                                    className="min-w-0 truncate font-semibold hover:underline"
+                                    title="Switch or create branch"
+                                >
+                                    {branchLabel}
+                                </button>
+                            ) : (
+                                <span className="min-w-0 truncate font-semibold">{branchLabel}</span>
+                            )}
+                            {gitStatus.upstream ? (
+                                <span className="shrink-0 text-xs text-[var(--app-hint)]" title={`Tracking ${gitStatus.upstream}`}>
+                                    ↑{gitStatus.ahead} ↓{gitStatus.behind}
+                                </span>
+                            ) : null}
+                            <div className="flex-1" />
+                            {canChangeGit && gitStatus.branch ? (
+                                gitStatus.upstream ? (
+                                    <>
+                                        <button
+                                            type="button"
+                                            onClick={() => void runGitAction(gitActions.fetch)}
+                                            disabled={gitActions.isPending}
+                                            className={toggleButtonClass(false)}
+                                            title={`Fetch from ${gitStatus.upstream}`}
+                                        >
+                                            Fetch
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => void runGitAction(gitActions.pull)}
+                                            disabled={gitActions.isPending || gitStatus.behind === 0}
+                                            className={toggleButtonClass(false)}
+                                            title="Fast-forward to the upstream"
+                                        >
+                                            Pull
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => void runGitAction(() => gitActions.push(false))}
+                                            disabled={gitActions.isPending || gitStatus.ahead === 0}
+                                            className={toggleButtonClass(false)}
+                                            title={`Push to ${gitStatus.upstream}`}
+                                        >
+                                            Push
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => void runGitAction(() => gitActions.push(true))}
+                                        disabled={gitActions.isPending}
+                                        className={toggleButtonClass(false)}
+                                        title="Push this branch to origin and track it"
+                                    >
+                                        Publish
+                                    </button>
+                                )
+                            ) : null}
                         </div>
                         <div className="text-xs text-[var(--app-hint)]">
                             {gitStatus.totalStaged} staged, {gitStatus.totalUnstaged} unstaged
                         </div>
                     </div>
+                    {canChangeGit ? (
+                        <div className="mx-auto w-full max-w-content">
+                            <GitCommitPanel
+                                api={api}
+                                sessionId={sessionId}
+                                stagedCount={gitStatus.totalStaged}
+                                thinking={session?.thinking ?? false}
+                                isPending={gitActions.isPending}
+                                onCommit={gitActions.commit}
+                            />
+                        </div>
+                    ) : null}
                 </div>
             ) : null}
 
             <div className="flex-1 overflow-y-auto">
                 <div className="mx-auto w-full max-w-content">
+                    {gitActionError && activeTab === 'changes' ? (
+                        <div className="flex items-start gap-2 border-b border-[var(--app-divider)] bg-red-500/10 px-3 py-2 text-xs text-red-600 dark:text-red-400">
+                            <span className="min-w-0 flex-1 whitespace-pre-wrap">{gitActionError}</span>
+                            <button type="button" onClick={() => setGitActionError(null)} className="shrink-0 underline">
+                                Dismiss
+                            </button>
+                        </div>
+                    ) : null}
                     {showGitErrorBanner && activeTab === 'changes' ? (
                         <div className="border-b border-[var(--app-divider)] bg-amber-500/10 px-3 py-2 text-xs text-[var(--app-hint)]">
                             {gitError}
@@ -476,8 +708,18 @@ export default function FilesPage() {
                         <div className="pb-4">
                             {gitStatus?.stagedFiles.length ? (
                                 <div>
-                                    <div className="border-b border-[var(--app-divider)] bg-[var(--app-bg)] px-3 py-2 text-xs font-semibold text-[var(--app-git-staged-color)]">
-                                        Staged Changes ({gitStatus.stagedFiles.length})
+                                    <div className="flex items-center border-b border-[var(--app-divider)] bg-[var(--app-bg)] px-3 py-2 text-xs font-semibold text-[var(--app-git-staged-color)]">
+                                        <span className="flex-1">Staged Changes ({gitStatus.stagedFiles.length})</span>
+                                        {canChangeGit ? (
+                                            <button
+                                                type="button"
+                                                onClick={() => void runGitAction(() => gitActions.unstage(getFilePaths(gitStatus.stagedFiles)))}
+                                                disabled={gitActions.isPending}
+                                                className="font-normal text-[var(--app-hint)] hover:text-[var(--app-fg)]"
+                                            >
+                                                Unstage all
+                                            </button>
+                                        ) : null}
                                     </div>
                                     {gitStatus.stagedFiles.map((file, index) => (
                                         <GitFileRow
@@ -485,6 +727,15 @@ export default function FilesPage() {
                                             file={file}
                                             onOpen={() => handleOpenFile(file.fullPath, file.isStaged)}
                                             showDivider={index < gitStatus.stagedFiles.length - 1 || gitStatus.unstagedFiles.length > 0}
+                                            actions={canChangeGit ? (
+                                                <RowActionButton
+                                                    title="Unstage"
+                                                    onClick={() => void runGitAction(() => gitActions.unstage(getFilePaths([file])))}
+                                                    disabled={gitActions.isPending}
+                                                >
+                                                    <MinusIcon />
+                                                </RowActionButton>
+                                            ) : null}
                                         />
                                     ))}
                                 </div>
@@ -492,8 +743,28 @@ export default function FilesPage() {
 
                             {gitStatus?.unstagedFiles.length ? (
                                 <div>
-                                    <div className="border-b border-[var(--app-divider)] bg-[var(--app-bg)] px-3 py-2 text-xs font-semibold text-[var(--app-git-unstaged-color)]">
-                                        Unstaged Changes ({gitStatus.unstagedFiles.length})
+                                    <div className="flex items-center gap-3 border-b border-[var(--app-divider)] bg-[var(--app-bg)] px-3 py-2 text-xs font-semibold text-[var(--app-git-unstaged-color)]">
+                                        <span className="flex-1">Unstaged Changes ({gitStatus.unstagedFiles.length})</span>
+                                        {canChangeGit ? (
+                                            <>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setDiscardTarget(getDiscardTarget(gitStatus.unstagedFiles, 'all unstaged changes'))}
+                                                    disabled={gitActions.isPending}
+                                                    className="font-normal text-[var(--app-hint)] hover:text-[var(--app-fg)]"
+                                                >
+                                                    Discard all
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => void runGitAction(() => gitActions.stage(getFilePaths(gitStatus.unstagedFiles)))}
+                                                    disabled={gitActions.isPending}
+                                                    className="font-normal text-[var(--app-hint)] hover:text-[var(--app-fg)]"
+                                                >
+                                                    Stage all
+                                                </button>
+                                            </>
+                                        ) : null}
                                     </div>
                                     {gitStatus.unstagedFiles.map((file, index) => (
                                         <GitFileRow
@@ -501,6 +772,24 @@ export default function FilesPage() {
                                             file={file}
                                             onOpen={() => handleOpenFile(file.fullPath, file.isStaged)}
                                             showDivider={index < gitStatus.unstagedFiles.length - 1}
+                                            actions={canChangeGit ? (
+                                                <>
+                                                    <RowActionButton
+                                                        title="Discard changes"
+                                                        onClick={() => setDiscardTarget(getDiscardTarget([file], file.fullPath))}
+                                                        disabled={gitActions.isPending}
+                                                    >
+                                                        <UndoIcon />
+                                                    </RowActionButton>
+                                                    <RowActionButton
+                                                        title="Stage"
+                                                        onClick={() => void runGitAction(() => gitActions.stage(getFilePaths([file])))}
+                                                        disabled={gitActions.isPending}
+                                                    >
+                                                        <PlusIcon className="h-4 w-4" />
+                                                    </RowActionButton>
+                                                </>
+                                            ) : null}
                                         />
                                     ))}
                                 </div>
@@ -549,6 +838,39 @@ export default function FilesPage() {
                     )}
                 </div>
             </div>
+
+            <NewFileDialog
+                open={newFileOpen}
+                onClose={() => setNewFileOpen(false)}
+                onCreate={handleCreateFile}
+            />
+
+            <GitBranchDialog
+                open={branchDialogOpen}
+                branches={branches.branches}
+                isLoading={branches.isLoading}
+                loadError={branches.error}
+                onClose={() => setBranchDialogOpen(false)}
+                onSwitch={gitActions.switchBranch}
+                onCreate={gitActions.createBranch}
+            />
+
+            <ConfirmDialog
+                isOpen={discardTarget !== null}
+                onClose={() => setDiscardTarget(null)}
+                title="Discard changes?"
+                description={discardTarget && discardTarget.untrackedPaths.length > 0
+                    ? `This reverts ${discardTarget.label} and deletes ${discardTarget.untrackedPaths.length} untracked file(s). It cannot be undone.`
+                    : `This reverts ${discardTarget?.label ?? 'these files'} to the staged or committed version. It cannot be undone.`}
+                confirmLabel="Discard"
+                confirmingLabel="Discarding…"
+                onConfirm={async () => {
+                    if (!discardTarget) return
+                    await gitActions.discard(discardTarget.paths, discardTarget.untrackedPaths)
+                }}
+                isPending={gitActions.isPending}
+                destructive
+            />
         </div>
     )
 }
@@ -1,14 +1,18 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import type { PointerEvent } from 'react'
-import { useParams } from '@tanstack/react-router'
+import { useNavigate, useParams, useSearch } from '@tanstack/react-router'
 import type { Terminal } from '@xterm/xterm'
 import { useAppContext } from '@/lib/app-context'
 import { useAppGoBack } from '@/hooks/useAppGoBack'
 import { useSession } from '@/hooks/queries/useSession'
-import { useTerminalSocket } from '@/hooks/useTerminalSocket'
+import { useTerminalSocket, type TerminalViewerMode } from '@/hooks/useTerminalSocket'
 import { useLongPress } from '@/hooks/useLongPress'
+import { TerminalPicker } from '@/components/Terminal/TerminalPicker'
+import { TerminalRecordings } from '@/components/Terminal/TerminalRecordings'
 import { TerminalView } from '@/components/Terminal/TerminalView'
 import { LoadingState } from '@/components/LoadingState'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+
 function BackIcon() {
     return (
         <svg
@@ -169,17 +173,74 @@ function QuickKeyButton(props: {
     )
 }
 
+function createTerminalId(): string {
+    if (typeof crypto?.randomUUID === 'function') {
+        return crypto.randomUUID()
+    }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`
+}
+
 export default function TerminalPage() {
     const { sessionId } = useParams({ from: '/sessions/$sessionId/terminal' })
+    const search = useSearch({ from: '/sessions/$sessionId/terminal' })
+    const navigate = useNavigate()
+    const [newTerminalId, setNewTerminalId] = useState(createTerminalId)
+    // Terminals started by this page keep 'create' mode so the screen is not remounted once their id lands in the URL
+    const startedRef = useRef(new Set<string>())
+    const terminalId = search.terminal ?? newTerminalId
+    const mode: 'create' | TerminalViewerMode = !search.terminal || startedRef.current.has(terminalId)
+        ? 'create'
+        : search.watch ? 'watch' : 'control'
+
+    const setSearch = useCallback((next: { terminal?: string; watch?: boolean }) => {
+        void navigate({
+            to: '/sessions/$sessionId/terminal',
+            params: { sessionId },
+            search: next,
+            replace: true
+        })
+    }, [navigate, sessionId])
+
+    const handleStarted = useCallback((id: string) => {
+        startedRef.current.add(id)
+        // Lets a reload reattach instead of starting yet another shell
+        setSearch({ terminal: id })
+    }, [setSearch])
+
+    const handleSelect = useCallback((id: string, watch: boolean) => {
+        setSearch(watch ? { terminal: id, watch: true } : { terminal: id })
+    }, [setSearch])
+
+    const handleNew = useCallback(() => {
+        setNewTerminalId(createTerminalId())
+        setSearch({})
+    }, [setSearch])
+
+    return (
+        <TerminalScreen
+            key={`${sessionId}:${terminalId}:${mode}`}
+            sessionId={sessionId}
+            terminalId={terminalId}
+            mode={mode}
+            onStarted={handleStarted}
+            onSelect={handleSelect}
+            onNew={handleNew}
+        />
+    )
+}
+
+function TerminalScreen(props: {
+    sessionId: string
+    terminalId: string
+    mode: 'create' | TerminalViewerMode
+    onStarted: (terminalId: string) => void
+    onSelect: (terminalId: string, watch: boolean) => void
+    onNew: () => void
+}) {
+    const { sessionId, terminalId } = props
     const { api, token, baseUrl } = useAppContext()
     const goBack = useAppGoBack()
     const { session } = useSession(api, sessionId)
-    const terminalId = useMemo(() => {
-        if (typeof crypto?.randomUUID === 'function') {
-            return crypto.randomUUID()
-        }
-        return `${Date.now()}-${Math.random().toString(16).slice(2)}`
-    }, [sessionId])
     const terminalRef = useRef<Terminal | null>(null)
     const inputDisposableRef = useRef<{ dispose: () => void } | null>(null)
     const connectOnceRef = useRef(false)
@@ -188,20 +249,29 @@ export default function TerminalPage() {
     const [exitInfo, setExitInfo] = useState<{ code: number | null; signal: string | null } | null>(null)
     const [ctrlActive, setCtrlActive] = useState(false)
     const [altActive, setAltActive] = useState(false)
+    const [closeOpen, setCloseOpen] = useState(false)
 
     const {
         state: terminalState,
+        mode: viewerMode,
+        recording,
+        recordingError,
         connect,
         write,
         resize,
+        takeControl,
+        setRecording,
+        close,
         disconnect,
         onOutput,
+        onReplay,
         onExit,
     } = useTerminalSocket({
         token,
         sessionId,
         terminalId,
-        baseUrl
+        baseUrl,
+        mode: props.mode
     })
 
     useEffect(() => {
@@ -210,6 +280,22 @@ export default function TerminalPage() {
         })
     }, [onOutput])
 
+    // Each attach replays the scrollback from the start, so drop what is on screen
+    useEffect(() => {
+        onReplay((data) => {
+            terminalRef.current?.reset()
+            terminalRef.current?.write(data)
+        })
+    }, [onReplay])
+
+    const { onStarted } = props
+    const startedMode = props.mode
+    useEffect(() => {
+        if (startedMode === 'create' && viewerMode === 'control') {
+            onStarted(terminalId)
+        }
+    }, [startedMode, viewerMode, terminalId, onStarted])
+
     useEffect(() => {
         onExit((code, signal) => {
             setExitInfo({ code, signal })
@@ -311,7 +397,7 @@ export default function TerminalPage() {
         }
     }, [terminalState.status])
 
-    const quickInputDisabled = !session?.active || terminalState.status !== 'connected'
+    const quickInputDisabled = !session?.active || terminalState.status !== 'connected' || viewerMode !== 'control'
     const handleQuickInput = useCallback(
         (sequence: string) => {
             if (quickInputDisabled) {
@@ -368,10 +454,52 @@ export default function TerminalPage() {
                         <div className="truncate font-semibold">Terminal</div>
                         <div className="truncate text-xs text-[var(--app-hint)]">{subtitle}</div>
                     </div>
+                    <TerminalPicker
+                        api={api}
+                        sessionId={sessionId}
+                        currentTerminalId={terminalId}
+                        disabled={!session.active}
+                        onSelect={props.onSelect}
+                        onNew={props.onNew}
+                    />
+                    <TerminalRecordings
+                        api={api}
+                        sessionId={sessionId}
+                        recording={recording}
+                        recordingError={recordingError}
+                        canRecord={viewerMode === 'control' && status === 'connected'}
+                        sessionActive={session.active}
+                        onSetRecording={setRecording}
+                    />
+                    {viewerMode === 'control' ? (
+                        <button
+                            type="button"
+                            onClick={() => setCloseOpen(true)}
+                            className="rounded px-2 py-1 text-xs text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                            title="Stop this shell for everyone"
+                        >
+                            Close
+                        </button>
+                    ) : null}
                     <ConnectionIndicator status={status} />
                 </div>
             </div>
 
+            {viewerMode === 'watch' && status === 'connected' ? (
+                <div className="mx-auto w-full max-w-content px-3 pt-3">
+                    <div className="flex items-center gap-2 rounded-md border border-[var(--app-border)] bg-[var(--app-subtle-bg)] p-3 text-xs text-[var(--app-hint)]">
+                        <span className="flex-1">Watching read-only. Another viewer controls this terminal.</span>
+                        <button
+                            type="button"
+                            onClick={takeControl}
+                            className="shrink-0 rounded bg-[var(--app-button)] px-2 py-1 text-[var(--app-button-text)]"
+                        >
+                            Take control
+                        </button>
+                    </div>
+                </div>
+            ) : null}
+
             {session.active ? null : (
                 <div className="px-3 pt-3">
                     <div className="mx-auto w-full max-w-content rounded-md bg-[var(--app-subtle-bg)] p-3 text-sm text-[var(--app-hint)]">
@@ -393,6 +521,11 @@ export default function TerminalPage() {
                     <div className="rounded-md border border-[var(--app-border)] bg-[var(--app-subtle-bg)] p-3 text-xs text-[var(--app-hint)]">
                         Terminal exited{exitInfo.code !== null ? ` with code ${exitInfo.code}` : ''}
                         {exitInfo.signal ? ` (${exitInfo.signal})` : ''}.
+                        {props.mode === 'create' ? null : (
+                            <button type="button" onClick={props.onNew} className="ml-2 text-[var(--app-link)]">
+                                New terminal
+                            </button>
+                        )}
                     </div>
                 </div>
             ) : null}
@@ -432,6 +565,21 @@ export default function TerminalPage() {
                     </div>
                 </div>
             </div>
+
+            <ConfirmDialog
+                isOpen={closeOpen}
+                onClose={() => setCloseOpen(false)}
+                title="Close terminal?"
+                description="The shell and anything still running in it will be stopped for every viewer."
+                confirmLabel="Close"
+                confirmingLabel="Closing…"
+                onConfirm={async () => {
+                    close()
+                    props.onNew()
+                }}
+                isPending={false}
+                destructive
+            />
         </div>
     )
 }
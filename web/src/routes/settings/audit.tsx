@@ -0,0 +1,216 @@
+import { useMemo, useState, type FormEvent } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { AUDIT_ORIGINS } from '@hapi/protocol'
+import type { AuditEvent, AuditEventFilters, AuditOrigin } from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useAuditEvents } from '@/hooks/queries/useAuditEvents'
+import { useTranslation } from '@/lib/use-translation'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+// Date inputs yield local calendar days; the range covers both days entirely
+function parseDay(value: string, endOfDay: boolean): number | undefined {
+    if (!value) return undefined
+    const [year, month, day] = value.split('-').map((part) => Number.parseInt(part, 10))
+    if (!year || !month || !day) return undefined
+    const date = endOfDay
+        ? new Date(year, month - 1, day, 23, 59, 59, 999)
+        : new Date(year, month - 1, day)
+    return date.getTime()
+}
+
+function AuditEventItem(props: { event: AuditEvent; onOpenSession: (sessionId: string) => void }) {
+    const { t } = useTranslation()
+    const { event } = props
+
+    return (
+        <div className="flex flex-col gap-1 px-3 py-3">
+            <div className="flex items-center justify-between gap-2">
+                <span className="truncate font-mono text-sm text-[var(--app-fg)]">{event.action}</span>
+                <span className="shrink-0 text-xs text-[var(--app-hint)]">
+                    {new Date(event.createdAt).toLocaleString()}
+                </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-2 text-xs text-[var(--app-hint)]">
+                <span className="text-[var(--app-fg)]">{event.actor}</span>
+                <span>{t(`audit.origin.${event.origin}`)}</span>
+                {event.sessionId ? (
+                    <button
+                        type="button"
+                        onClick={() => props.onOpenSession(event.sessionId!)}
+                        className="font-mono text-[var(--app-link)] hover:underline"
+                    >
+                        {event.sessionId.slice(0, 8)}
+                    </button>
+                ) : null}
+                {event.machineId ? <span className="font-mono">{event.machineId.slice(0, 8)}</span> : null}
+            </div>
+            {event.detail ? (
+                <div className="break-words text-sm text-[var(--app-fg)]">{event.detail}</div>
+            ) : null}
+            {event.payloadDigest ? (
+                <div className="truncate font-mono text-xs text-[var(--app-hint)]" title={event.payloadDigest}>
+                    {t('audit.digest')}: {event.payloadDigest}
+                </div>
+            ) : null}
+        </div>
+    )
+}
+
+export default function AuditLogPage() {
+    const { t } = useTranslation()
+    const { api } = useAppContext()
+    const goBack = useAppGoBack()
+    const navigate = useNavigate()
+
+    const [actionInput, setActionInput] = useState('')
+    const [sessionInput, setSessionInput] = useState('')
+    const [action, setAction] = useState('')
+    const [sessionId, setSessionId] = useState('')
+    const [origin, setOrigin] = useState<AuditOrigin | ''>('')
+    const [fromDay, setFromDay] = useState('')
+    const [toDay, setToDay] = useState('')
+
+    const filters = useMemo<AuditEventFilters>(() => ({
+        action: action || undefined,
+        sessionId: sessionId || undefined,
+        origin: origin || undefined,
+        from: parseDay(fromDay, false),
+        to: parseDay(toDay, true)
+    }), [action, sessionId, origin, fromDay, toDay])
+
+    const { events, isLoading, error, hasMore, isLoadingMore, loadMore } = useAuditEvents(api, filters)
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault()
+        setAction(actionInput.trim())
+        setSessionId(sessionInput.trim())
+    }
+
+    const handleOpenSession = (targetSessionId: string) => {
+        navigate({
+            to: '/sessions/$sessionId',
+            params: { sessionId: targetSessionId }
+        })
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('audit.title')}</div>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    <div className="px-3 py-3 text-sm text-[var(--app-hint)]">
+                        {t('audit.description')}
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2 border-y border-[var(--app-divider)] px-3 py-3">
+                        <input
+                            type="text"
+                            value={actionInput}
+                            onChange={(e) => setActionInput(e.target.value)}
+                            onBlur={() => setAction(actionInput.trim())}
+                            placeholder={t('audit.filter.action')}
+                            className={`${inputClassName} font-mono`}
+                        />
+                        <input
+                            type="text"
+                            value={sessionInput}
+                            onChange={(e) => setSessionInput(e.target.value)}
+                            onBlur={() => setSessionId(sessionInput.trim())}
+                            placeholder={t('audit.filter.session')}
+                            className={`${inputClassName} font-mono`}
+                        />
+                        <select
+                            value={origin}
+                            onChange={(e) => setOrigin(e.target.value as AuditOrigin | '')}
+                            aria-label={t('audit.filter.origin')}
+                            className={`${inputClassName} col-span-2`}
+                        >
+                            <option value="">{t('audit.filter.anyOrigin')}</option>
+                            {AUDIT_ORIGINS.map((value) => (
+                                <option key={value} value={value}>{t(`audit.origin.${value}`)}</option>
+                            ))}
+                        </select>
+                        <label className="flex flex-col gap-1 text-xs text-[var(--app-hint)]">
+                            {t('audit.filter.from')}
+                            <input
+                                type="date"
+                                value={fromDay}
+                                onChange={(e) => setFromDay(e.target.value)}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-[var(--app-hint)]">
+                            {t('audit.filter.to')}
+                            <input
+                                type="date"
+                                value={toDay}
+                                onChange={(e) => setToDay(e.target.value)}
+                                className={inputClassName}
+                            />
+                        </label>
+                        {/* Enter in a text field applies the filters */}
+                        <button type="submit" className="hidden" />
+                    </form>
+
+                    {error ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error}</div>
+                    ) : null}
+
+                    {isLoading ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : events.length === 0 ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('audit.empty')}</div>
+                    ) : (
+                        <div className="divide-y divide-[var(--app-divider)]">
+                            {events.map((event) => (
+                                <AuditEventItem key={event.id} event={event} onOpenSession={handleOpenSession} />
+                            ))}
+                        </div>
+                    )}
+
+                    {hasMore ? (
+                        <div className="px-3 py-3">
+                            <Button size="sm" variant="outline" disabled={isLoadingMore} onClick={loadMore}>
+                                {isLoadingMore ? t('misc.loading') : t('audit.loadMore')}
+                            </Button>
+                        </div>
+                    ) : null}
+                </div>
+            </div>
+        </div>
+    )
+}
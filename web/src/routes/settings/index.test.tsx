@@ -22,6 +22,11 @@ vi.mock('@/hooks/useFontScale', () => ({
     ],
 }))
 
+// Mock app context
+vi.mock('@/lib/app-context', () => ({
+    useAppContext: () => ({ role: 'admin' }),
+}))
+
 // Mock languages
 vi.mock('@/lib/languages', () => ({
     getElevenLabsSupportedLanguages: () => [
@@ -1,9 +1,11 @@
 import { useState, useRef, useEffect } from 'react'
+import { useNavigate } from '@tanstack/react-router'
 import { useTranslation, type Locale } from '@/lib/use-translation'
 import { useAppGoBack } from '@/hooks/useAppGoBack'
 import { getElevenLabsSupportedLanguages, getLanguageDisplayName, type Language } from '@/lib/languages'
 import { getFontScaleOptions, useFontScale, type FontScale } from '@/hooks/useFontScale'
-import { PROTOCOL_VERSION } from '@hapi/protocol'
+import { PROTOCOL_VERSION, hasUserRole } from '@hapi/protocol'
+import { useAppContext } from '@/lib/app-context'
 
 const locales: { value: Locale; nativeLabel: string }[] = [
     { value: 'en', nativeLabel: 'English' },
@@ -50,6 +52,25 @@ function CheckIcon(props: { className?: string }) {
     )
 }
 
+function ChevronRightIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="9 18 15 12 9 6" />
+        </svg>
+    )
+}
+
 function ChevronDownIcon(props: { className?: string }) {
     return (
         <svg
@@ -72,6 +93,8 @@ function ChevronDownIcon(props: { className?: string }) {
 export default function SettingsPage() {
     const { t, locale, setLocale } = useTranslation()
     const goBack = useAppGoBack()
+    const navigate = useNavigate()
+    const { role } = useAppContext()
     const [isOpen, setIsOpen] = useState(false)
     const [isFontOpen, setIsFontOpen] = useState(false)
     const [isVoiceOpen, setIsVoiceOpen] = useState(false)
@@ -337,6 +360,99 @@ export default function SettingsPage() {
                         </div>
                     </div>
 
+                    {/* Permissions section */}
+                    <div className="border-b border-[var(--app-divider)]">
+                        <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+                            {t('settings.permissions.title')}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => navigate({ to: '/settings/permission-rules' })}
+                            className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                        >
+                            <span className="text-[var(--app-fg)]">{t('settings.permissions.rules')}</span>
+                            <ChevronRightIcon className="text-[var(--app-hint)]" />
+                        </button>
+                    </div>
+
+                    {/* Automation section */}
+                    <div className="border-b border-[var(--app-divider)]">
+                        <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+                            {t('settings.automation.title')}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => navigate({ to: '/settings/schedules' })}
+                            className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                        >
+                            <span className="text-[var(--app-fg)]">{t('settings.automation.schedules')}</span>
+                            <ChevronRightIcon className="text-[var(--app-hint)]" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => navigate({ to: '/settings/templates' })}
+                            className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                        >
+                            <span className="text-[var(--app-fg)]">{t('settings.automation.templates')}</span>
+                            <ChevronRightIcon className="text-[var(--app-hint)]" />
+                        </button>
+                    </div>
+
+                    {/* Notifications section */}
+                    <div className="border-b border-[var(--app-divider)]">
+                        <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+                            {t('settings.notifications.title')}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => navigate({ to: '/settings/notifications' })}
+                            className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                        >
+                            <span className="text-[var(--app-fg)]">{t('settings.notifications.preferences')}</span>
+                            <ChevronRightIcon className="text-[var(--app-hint)]" />
+                        </button>
+                    </div>
+
+                    {/* Usage section */}
+                    <div className="border-b border-[var(--app-divider)]">
+                        <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+                            {t('settings.usage.title')}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => navigate({ to: '/settings/usage' })}
+                            className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                        >
+                            <span className="text-[var(--app-fg)]">{t('settings.usage.dashboard')}</span>
+                            <ChevronRightIcon className="text-[var(--app-hint)]" />
+                        </button>
+                    </div>
+
+                    {/* Users section */}
+                    {hasUserRole(role, 'admin') ? (
+                        <div className="border-b border-[var(--app-divider)]">
+                            <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+                                {t('settings.users.title')}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => navigate({ to: '/settings/users' })}
+                                className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                            >
+                                <span className="text-[var(--app-fg)]">{t('settings.users.manage')}</span>
+                                <ChevronRightIcon className="text-[var(--app-hint)]" />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => navigate({ to: '/settings/audit' })}
+                                className="flex w-full items-center justify-between px-3 py-3 text-left transition-colors hover:bg-[var(--app-subtle-bg)]"
+                            >
+                                <span className="text-[var(--app-fg)]">{t('settings.users.audit')}</span>
+                                <ChevronRightIcon className="text-[var(--app-hint)]" />
+                            </button>
+                        </div>
+                    ) : null}
+
                     {/* About section */}
                     <div className="border-b border-[var(--app-divider)]">
                         <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
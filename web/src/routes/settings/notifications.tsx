@@ -0,0 +1,401 @@
+import { useMemo, useState } from 'react'
+import type {
+    NotificationChannelId,
+    NotificationPreferences,
+    NotificationQuietHours,
+    SessionSummary,
+    WebhookEvent
+} from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useNotificationPreferences } from '@/hooks/queries/useNotificationPreferences'
+import { useNotificationPreferencesActions } from '@/hooks/mutations/useNotificationPreferencesActions'
+import { useSessions } from '@/hooks/queries/useSessions'
+import { useTranslation } from '@/lib/use-translation'
+
+// The events web push and Telegram deliver
+const CHANNEL_EVENTS: WebhookEvent[] = ['ready', 'permission-request', 'budget-exceeded']
+const DIGEST_MINUTES = [15, 30, 60, 240] as const
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+function SectionTitle(props: { children: React.ReactNode }) {
+    return (
+        <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+            {props.children}
+        </div>
+    )
+}
+
+function getSessionTitle(session: SessionSummary): string {
+    if (session.metadata?.name) {
+        return session.metadata.name
+    }
+    if (session.metadata?.path) {
+        const parts = session.metadata.path.split('/').filter(Boolean)
+        return parts.length > 0 ? parts[parts.length - 1] : session.id.slice(0, 8)
+    }
+    return session.id.slice(0, 8)
+}
+
+function getLocalTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+function getTimeZones(): string[] {
+    const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf
+    return supportedValuesOf ? supportedValuesOf('timeZone') : []
+}
+
+// An event without an entry goes to every channel, so a full selection is stored as no entry
+function setEventChannels(
+    channels: NotificationPreferences['channels'],
+    event: WebhookEvent,
+    selected: NotificationChannelId[],
+    available: NotificationChannelId[]
+): NotificationPreferences['channels'] {
+    const next = { ...channels }
+    if (available.every((channel) => selected.includes(channel))) {
+        delete next[event]
+    } else {
+        next[event] = selected
+    }
+    return next
+}
+
+function PreferencesForm(props: {
+    initial: NotificationPreferences
+    channels: NotificationChannelId[]
+    sessions: SessionSummary[]
+    onSave: (preferences: NotificationPreferences) => Promise<void>
+    isPending: boolean
+}) {
+    const { t } = useTranslation()
+    const [draft, setDraft] = useState<NotificationPreferences>(props.initial)
+    const [directory, setDirectory] = useState('')
+    const [status, setStatus] = useState<'saved' | 'error' | null>(null)
+    const timeZones = useMemo(() => getTimeZones(), [])
+
+    const update = (changes: Partial<NotificationPreferences>) => {
+        setDraft((current) => ({ ...current, ...changes }))
+        setStatus(null)
+    }
+
+    const updateQuietHours = (changes: Partial<NotificationQuietHours>) => {
+        if (draft.quietHours) {
+            update({ quietHours: { ...draft.quietHours, ...changes } })
+        }
+    }
+
+    const sessionsById = new Map(props.sessions.map((session) => [session.id, session]))
+    const unmutedSessions = props.sessions.filter((session) => !draft.mutedSessionIds.includes(session.id))
+
+    const addDirectory = () => {
+        const trimmed = directory.trim()
+        if (!trimmed || draft.mutedDirectories.includes(trimmed)) {
+            return
+        }
+        update({ mutedDirectories: [...draft.mutedDirectories, trimmed] })
+        setDirectory('')
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        try {
+            await props.onSave(draft)
+            setStatus('saved')
+        } catch {
+            setStatus('error')
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <div className="px-3 pb-3 text-sm text-[var(--app-hint)]">{t('notifications.description')}</div>
+
+            <div className="border-t border-[var(--app-divider)]">
+                <SectionTitle>{t('notifications.delivery')}</SectionTitle>
+                <div className="flex flex-col gap-3 px-3 pb-3">
+                    <label className="flex items-center gap-2 text-sm text-[var(--app-fg)]">
+                        <input
+                            type="checkbox"
+                            checked={draft.permissionsOnly}
+                            onChange={(e) => update({ permissionsOnly: e.target.checked })}
+                        />
+                        {t('notifications.permissionsOnly')}
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-sm text-[var(--app-fg)]">{t('notifications.digest')}</span>
+                        <select
+                            value={draft.digestMinutes ?? ''}
+                            disabled={draft.permissionsOnly}
+                            onChange={(e) => update({ digestMinutes: e.target.value ? Number(e.target.value) : null })}
+                            className={inputClassName}
+                        >
+                            <option value="">{t('notifications.digest.off')}</option>
+                            {DIGEST_MINUTES.map((minutes) => (
+                                <option key={minutes} value={minutes}>
+                                    {minutes < 60
+                                        ? t('notifications.digest.minutes', { n: minutes })
+                                        : t('notifications.digest.hours', { n: minutes / 60 })}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            <div className="border-t border-[var(--app-divider)]">
+                <SectionTitle>{t('notifications.quietHours')}</SectionTitle>
+                <div className="flex flex-col gap-3 px-3 pb-3">
+                    <label className="flex items-center gap-2 text-sm text-[var(--app-fg)]">
+                        <input
+                            type="checkbox"
+                            checked={draft.quietHours !== null}
+                            onChange={(e) => update({
+                                quietHours: e.target.checked
+                                    ? { start: '22:00', end: '08:00', timeZone: getLocalTimeZone() }
+                                    : null
+                            })}
+                        />
+                        {t('notifications.quietHours.enabled')}
+                    </label>
+                    {draft.quietHours ? (
+                        <>
+                            <div className="grid grid-cols-2 gap-2">
+                                <label className="flex flex-col gap-1">
+                                    <span className="text-sm text-[var(--app-fg)]">{t('notifications.quietHours.start')}</span>
+                                    <input
+                                        type="time"
+                                        required
+                                        value={draft.quietHours.start}
+                                        onChange={(e) => updateQuietHours({ start: e.target.value })}
+                                        className={inputClassName}
+                                    />
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    <span className="text-sm text-[var(--app-fg)]">{t('notifications.quietHours.end')}</span>
+                                    <input
+                                        type="time"
+                                        required
+                                        value={draft.quietHours.end}
+                                        onChange={(e) => updateQuietHours({ end: e.target.value })}
+                                        className={inputClassName}
+                                    />
+                                </label>
+                            </div>
+                            <label className="flex flex-col gap-1">
+                                <span className="text-sm text-[var(--app-fg)]">{t('notifications.quietHours.timeZone')}</span>
+                                <input
+                                    type="text"
+                                    required
+                                    list="notification-time-zones"
+                                    value={draft.quietHours.timeZone}
+                                    onChange={(e) => updateQuietHours({ timeZone: e.target.value })}
+                                    className={inputClassName}
+                                />
+                                <datalist id="notification-time-zones">
+                                    {timeZones.map((zone) => <option key={zone} value={zone} />)}
+                                </datalist>
+                            </label>
+                        </>
+                    ) : null}
+                </div>
+            </div>
+
+            {props.channels.length > 1 ? (
+                <div className="border-t border-[var(--app-divider)]">
+                    <SectionTitle>{t('notifications.channels')}</SectionTitle>
+                    <div className="px-3 pb-2 text-sm text-[var(--app-hint)]">{t('notifications.channels.description')}</div>
+                    <div className="flex flex-col gap-2 px-3 pb-3 text-sm">
+                        {CHANNEL_EVENTS.map((event) => {
+                            const selected = draft.channels[event] ?? props.channels
+                            return (
+                                <div key={event} className="flex flex-wrap items-center justify-between gap-2">
+                                    <span className="text-[var(--app-fg)]">{t(`notifications.event.${event}`)}</span>
+                                    <span className="flex gap-3">
+                                        {props.channels.map((channel) => (
+                                            <label key={channel} className="flex items-center gap-1 text-[var(--app-hint)]">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.includes(channel)}
+                                                    onChange={(e) => {
+                                                        const next = e.target.checked
+                                                            ? [...selected, channel]
+                                                            : selected.filter((value) => value !== channel)
+                                                        update({ channels: setEventChannels(draft.channels, event, next, props.channels) })
+                                                    }}
+                                                />
+                                                {t(`notifications.channel.${channel}`)}
+                                            </label>
+                                        ))}
+                                    </span>
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+            ) : null}
+
+            <div className="border-t border-[var(--app-divider)]">
+                <SectionTitle>{t('notifications.mutedSessions')}</SectionTitle>
+                <div className="flex flex-col gap-2 px-3 pb-3 text-sm">
+                    {draft.mutedSessionIds.length === 0 ? (
+                        <div className="text-[var(--app-hint)]">{t('notifications.empty')}</div>
+                    ) : draft.mutedSessionIds.map((sessionId) => {
+                        const session = sessionsById.get(sessionId)
+                        return (
+                            <div key={sessionId} className="flex items-center justify-between gap-2">
+                                <span className="min-w-0 truncate text-[var(--app-fg)]">
+                                    {session ? getSessionTitle(session) : sessionId.slice(0, 8)}
+                                </span>
+                                <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => update({ mutedSessionIds: draft.mutedSessionIds.filter((id) => id !== sessionId) })}
+                                >
+                                    {t('notifications.mute.remove')}
+                                </Button>
+                            </div>
+                        )
+                    })}
+                    {unmutedSessions.length > 0 ? (
+                        <select
+                            value=""
+                            onChange={(e) => {
+                                if (e.target.value) {
+                                    update({ mutedSessionIds: [...draft.mutedSessionIds, e.target.value] })
+                                }
+                            }}
+                            className={inputClassName}
+                            aria-label={t('notifications.mutedSessions.add')}
+                        >
+                            <option value="">{t('notifications.mutedSessions.add')}</option>
+                            {unmutedSessions.map((session) => (
+                                <option key={session.id} value={session.id}>{getSessionTitle(session)}</option>
+                            ))}
+                        </select>
+                    ) : null}
+                </div>
+            </div>
+
+            <div className="border-t border-[var(--app-divider)]">
+                <SectionTitle>{t('notifications.mutedDirectories')}</SectionTitle>
+                <div className="flex flex-col gap-2 px-3 pb-3 text-sm">
+                    {draft.mutedDirectories.length === 0 ? (
+                        <div className="text-[var(--app-hint)]">{t('notifications.empty')}</div>
+                    ) : draft.mutedDirectories.map((path) => (
+                        <div key={path} className="flex items-center justify-between gap-2">
+                            <span className="min-w-0 truncate font-mono text-[var(--app-fg)]">{path}</span>
+                            <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                onClick={() => update({ mutedDirectories: draft.mutedDirectories.filter((value) => value !== path) })}
+                            >
+                                {t('notifications.mute.remove')}
+                            </Button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={directory}
+                            onChange={(e) => setDirectory(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault()
+                                    addDirectory()
+                                }
+                            }}
+                            placeholder={t('notifications.mutedDirectories.placeholder')}
+                            className={inputClassName}
+                        />
+                        <Button type="button" variant="secondary" onClick={addDirectory} disabled={!directory.trim()}>
+                            {t('notifications.mute.add')}
+                        </Button>
+                    </div>
+                    <span className="text-xs text-[var(--app-hint)]">{t('notifications.mutedDirectories.hint')}</span>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-3 border-t border-[var(--app-divider)] px-3 py-3">
+                {status === 'saved' ? (
+                    <span className="text-sm text-[var(--app-hint)]">{t('notifications.saved')}</span>
+                ) : status === 'error' ? (
+                    <span className="text-sm text-red-600">{t('notifications.error.save')}</span>
+                ) : null}
+                <Button type="submit" disabled={props.isPending}>
+                    {t('button.save')}
+                </Button>
+            </div>
+        </form>
+    )
+}
+
+export default function NotificationSettingsPage() {
+    const { t } = useTranslation()
+    const { api } = useAppContext()
+    const goBack = useAppGoBack()
+    const { data, isLoading, error } = useNotificationPreferences(api)
+    const { sessions } = useSessions(api)
+    const actions = useNotificationPreferencesActions(api)
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('notifications.title')}</div>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content pt-3">
+                    {error ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error}</div>
+                    ) : isLoading || !data ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : (
+                        <PreferencesForm
+                            initial={data.preferences}
+                            channels={data.channels}
+                            sessions={sessions}
+                            onSave={async (preferences) => {
+                                await actions.savePreferences(preferences)
+                            }}
+                            isPending={actions.isPending}
+                        />
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import type { PermissionRule, PermissionRuleInput } from '@/types/api'
+import { PermissionRuleEditor } from '@/components/PermissionRules/PermissionRuleEditor'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { usePermissionRules } from '@/hooks/queries/usePermissionRules'
+import { usePermissionRuleActions } from '@/hooks/mutations/usePermissionRuleActions'
+import { useTranslation } from '@/lib/use-translation'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+function toRuleInput(rule: PermissionRule, overrides: Partial<PermissionRuleInput> = {}): PermissionRuleInput {
+    return {
+        name: rule.name,
+        action: rule.action,
+        enabled: rule.enabled,
+        priority: rule.priority,
+        sessionId: rule.sessionId,
+        toolPattern: rule.toolPattern,
+        commandPattern: rule.commandPattern,
+        pathPatterns: rule.pathPatterns,
+        flavors: rule.flavors,
+        ...overrides
+    }
+}
+
+function describeRule(rule: PermissionRule): string {
+    const parts: string[] = []
+    if (rule.toolPattern) parts.push(rule.toolPattern)
+    if (rule.commandPattern) parts.push(`/${rule.commandPattern}/`)
+    if (rule.pathPatterns.length > 0) parts.push(rule.pathPatterns.join(', '))
+    if (rule.flavors.length > 0) parts.push(`[${rule.flavors.join(', ')}]`)
+    return parts.length > 0 ? parts.join(' · ') : '*'
+}
+
+const actionClassNames: Record<PermissionRule['action'], string> = {
+    approve: 'text-emerald-600',
+    deny: 'text-red-600',
+    escalate: 'text-amber-600'
+}
+
+export default function PermissionRulesPage() {
+    const { t } = useTranslation()
+    const { api } = useAppContext()
+    const goBack = useAppGoBack()
+    const { rules, isLoading, error } = usePermissionRules(api)
+    const actions = usePermissionRuleActions(api)
+    // null = closed, 'new' = creating, otherwise the rule being edited
+    const [editing, setEditing] = useState<PermissionRule | 'new' | null>(null)
+    const [deleting, setDeleting] = useState<PermissionRule | null>(null)
+
+    const handleSave = async (input: PermissionRuleInput) => {
+        if (editing && editing !== 'new') {
+            await actions.updateRule(editing.id, input)
+        } else {
+            await actions.createRule(input)
+        }
+        setEditing(null)
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('permissionRules.title')}</div>
+                    {editing === null ? (
+                        <Button size="sm" onClick={() => setEditing('new')}>
+                            {t('permissionRules.add')}
+                        </Button>
+                    ) : null}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    <div className="px-3 py-3 text-sm text-[var(--app-hint)]">
+                        {t('permissionRules.description')}
+                    </div>
+
+                    {editing !== null ? (
+                        <div className="border-y border-[var(--app-divider)]">
+                            <PermissionRuleEditor
+                                key={editing === 'new' ? 'new' : editing.id}
+                                rule={editing === 'new' ? null : editing}
+                                onSave={handleSave}
+                                onDryRun={actions.dryRun}
+                                onCancel={() => setEditing(null)}
+                                isPending={actions.isPending}
+                                isDryRunPending={actions.isDryRunPending}
+                            />
+                        </div>
+                    ) : null}
+
+                    {error ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error}</div>
+                    ) : null}
+
+                    {isLoading ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : rules.length === 0 && editing === null ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('permissionRules.empty')}</div>
+                    ) : (
+                        <div className="divide-y divide-[var(--app-divider)]">
+                            {rules.map((rule) => (
+                                <div key={rule.id} className="flex items-center gap-3 px-3 py-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        aria-label={t('permissionRules.field.enabled')}
+                                        disabled={actions.isPending}
+                                        onChange={(e) => {
+                                            void actions.updateRule(rule.id, toRuleInput(rule, { enabled: e.target.checked }))
+                                        }}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setEditing(rule)}
+                                        className="flex min-w-0 flex-1 flex-col text-left"
+                                    >
+                                        <span className="flex items-center gap-2">
+                                            <span className="truncate text-[var(--app-fg)]">{rule.name}</span>
+                                            <span className={`text-xs font-medium ${actionClassNames[rule.action]}`}>
+                                                {t(`permissionRules.action.${rule.action}`)}
+                                            </span>
+                                        </span>
+                                        <span className="truncate font-mono text-xs text-[var(--app-hint)]">
+                                            {describeRule(rule)}
+                                        </span>
+                                    </button>
+                                    <Button size="sm" variant="outline" onClick={() => setDeleting(rule)}>
+                                        {t('permissionRules.delete')}
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <ConfirmDialog
+                isOpen={deleting !== null}
+                onClose={() => setDeleting(null)}
+                title={t('permissionRules.delete')}
+                description={t('permissionRules.deleteConfirm', { name: deleting?.name ?? '' })}
+                confirmLabel={t('permissionRules.delete')}
+                confirmingLabel={t('dialog.delete.confirming')}
+                onConfirm={async () => {
+                    if (deleting) {
+                        await actions.deleteRule(deleting.id)
+                    }
+                }}
+                isPending={actions.isPending}
+                destructive
+            />
+        </div>
+    )
+}
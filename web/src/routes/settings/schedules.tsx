@@ -0,0 +1,265 @@
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { hasUserRole } from '@hapi/protocol'
+import type { Schedule, ScheduleInput, ScheduleRun } from '@/types/api'
+import { ScheduleEditor } from '@/components/Schedules/ScheduleEditor'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useMachines } from '@/hooks/queries/useMachines'
+import { useScheduleRuns } from '@/hooks/queries/useScheduleRuns'
+import { useSchedules } from '@/hooks/queries/useSchedules'
+import { useSessions } from '@/hooks/queries/useSessions'
+import { useScheduleActions } from '@/hooks/mutations/useScheduleActions'
+import { useTranslation } from '@/lib/use-translation'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+function toScheduleInput(schedule: Schedule, overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+    return {
+        name: schedule.name,
+        cron: schedule.cron,
+        enabled: schedule.enabled,
+        target: schedule.target,
+        prompt: schedule.prompt,
+        sessionId: schedule.sessionId,
+        machineId: schedule.machineId,
+        directory: schedule.directory,
+        agent: schedule.agent,
+        yolo: schedule.yolo,
+        missedRunPolicy: schedule.missedRunPolicy,
+        ...overrides
+    }
+}
+
+const runStatusClassNames: Record<ScheduleRun['status'], string> = {
+    succeeded: 'text-emerald-600',
+    failed: 'text-red-600',
+    missed: 'text-amber-600'
+}
+
+function ScheduleRunHistory(props: { scheduleId: string; onOpenSession: (sessionId: string) => void }) {
+    const { t } = useTranslation()
+    const { api } = useAppContext()
+    const { runs, isLoading, error } = useScheduleRuns(api, props.scheduleId)
+
+    if (error) {
+        return <div className="px-3 pb-3 text-sm text-red-600">{error}</div>
+    }
+    if (isLoading) {
+        return <div className="px-3 pb-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+    }
+    if (runs.length === 0) {
+        return <div className="px-3 pb-3 text-sm text-[var(--app-hint)]">{t('schedules.history.empty')}</div>
+    }
+
+    return (
+        <div className="flex flex-col gap-1 px-3 pb-3">
+            {runs.map((run) => (
+                <div key={run.id} className="flex flex-wrap items-center gap-x-2 text-xs text-[var(--app-hint)]">
+                    <span>{new Date(run.startedAt).toLocaleString()}</span>
+                    <span className={`font-medium ${runStatusClassNames[run.status]}`}>
+                        {t(`schedules.status.${run.status}`)}
+                    </span>
+                    {run.manual ? <span>{t('schedules.history.manual')}</span> : null}
+                    {run.sessionId ? (
+                        <button
+                            type="button"
+                            onClick={() => props.onOpenSession(run.sessionId!)}
+                            className="font-mono text-[var(--app-link)] hover:underline"
+                        >
+                            {run.sessionId.slice(0, 8)}
+                        </button>
+                    ) : null}
+                    {run.error ? <span className="w-full break-words text-red-600">{run.error}</span> : null}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+export default function SchedulesPage() {
+    const { t } = useTranslation()
+    const { api, role } = useAppContext()
+    const goBack = useAppGoBack()
+    const navigate = useNavigate()
+    const canSpawn = hasUserRole(role, 'admin')
+    const { schedules, isLoading, error } = useSchedules(api)
+    const { sessions } = useSessions(api)
+    const { machines } = useMachines(api, canSpawn)
+    const actions = useScheduleActions(api)
+    // null = closed, 'new' = creating, otherwise the schedule being edited
+    const [editing, setEditing] = useState<Schedule | 'new' | null>(null)
+    const [deleting, setDeleting] = useState<Schedule | null>(null)
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+    const [actionError, setActionError] = useState<string | null>(null)
+
+    const handleSave = async (input: ScheduleInput) => {
+        if (editing && editing !== 'new') {
+            await actions.updateSchedule(editing.id, input)
+        } else {
+            await actions.createSchedule(input)
+        }
+        setEditing(null)
+    }
+
+    const handleRun = async (schedule: Schedule) => {
+        setActionError(null)
+        try {
+            await actions.runSchedule(schedule.id)
+            setExpandedId(schedule.id)
+        } catch {
+            setActionError(t('schedules.error.run'))
+        }
+    }
+
+    const handleOpenSession = (sessionId: string) => {
+        navigate({
+            to: '/sessions/$sessionId',
+            params: { sessionId }
+        })
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('schedules.title')}</div>
+                    {editing === null ? (
+                        <Button size="sm" onClick={() => setEditing('new')}>
+                            {t('schedules.add')}
+                        </Button>
+                    ) : null}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    <div className="px-3 py-3 text-sm text-[var(--app-hint)]">
+                        {t('schedules.description')}
+                    </div>
+
+                    {editing !== null ? (
+                        <div className="border-y border-[var(--app-divider)]">
+                            <ScheduleEditor
+                                key={editing === 'new' ? 'new' : editing.id}
+                                schedule={editing === 'new' ? null : editing}
+                                sessions={sessions}
+                                machines={machines}
+                                canSpawn={canSpawn}
+                                onSave={handleSave}
+                                onCancel={() => setEditing(null)}
+                                isPending={actions.isPending}
+                            />
+                        </div>
+                    ) : null}
+
+                    {error || actionError ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error ?? actionError}</div>
+                    ) : null}
+
+                    {isLoading ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : schedules.length === 0 && editing === null ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('schedules.empty')}</div>
+                    ) : (
+                        <div className="divide-y divide-[var(--app-divider)]">
+                            {schedules.map((schedule) => (
+                                <div key={schedule.id}>
+                                    <div className="flex items-center gap-3 px-3 py-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={schedule.enabled}
+                                            aria-label={t('schedules.field.enabled')}
+                                            disabled={actions.isPending}
+                                            onChange={(e) => {
+                                                void actions.updateSchedule(schedule.id, toScheduleInput(schedule, { enabled: e.target.checked }))
+                                            }}
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setEditing(schedule)}
+                                            className="flex min-w-0 flex-1 flex-col text-left"
+                                        >
+                                            <span className="flex items-center gap-2">
+                                                <span className="truncate text-[var(--app-fg)]">{schedule.name}</span>
+                                                <span className="font-mono text-xs text-[var(--app-hint)]">{schedule.cron}</span>
+                                            </span>
+                                            <span className="truncate text-xs text-[var(--app-hint)]">
+                                                {schedule.nextRunAt
+                                                    ? t('schedules.nextRun', { time: new Date(schedule.nextRunAt).toLocaleString() })
+                                                    : t('schedules.paused')}
+                                            </span>
+                                        </button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            disabled={actions.isRunPending}
+                                            onClick={() => void handleRun(schedule)}
+                                        >
+                                            {t('schedules.runNow')}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                                        >
+                                            {t('schedules.history.title')}
+                                        </Button>
+                                        <Button size="sm" variant="outline" onClick={() => setDeleting(schedule)}>
+                                            {t('schedules.delete')}
+                                        </Button>
+                                    </div>
+                                    {expandedId === schedule.id ? (
+                                        <ScheduleRunHistory scheduleId={schedule.id} onOpenSession={handleOpenSession} />
+                                    ) : null}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <ConfirmDialog
+                isOpen={deleting !== null}
+                onClose={() => setDeleting(null)}
+                title={t('schedules.delete')}
+                description={t('schedules.deleteConfirm', { name: deleting?.name ?? '' })}
+                confirmLabel={t('schedules.delete')}
+                confirmingLabel={t('dialog.delete.confirming')}
+                onConfirm={async () => {
+                    if (deleting) {
+                        await actions.deleteSchedule(deleting.id)
+                    }
+                }}
+                isPending={actions.isPending}
+                destructive
+            />
+        </div>
+    )
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { hasUserRole } from '@hapi/protocol'
+import type { SessionTemplate, SessionTemplateInput } from '@/types/api'
+import { SessionTemplateEditor } from '@/components/SessionTemplates/SessionTemplateEditor'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useMachines } from '@/hooks/queries/useMachines'
+import { useSessionTemplates } from '@/hooks/queries/useSessionTemplates'
+import { useSessionTemplateActions } from '@/hooks/mutations/useSessionTemplateActions'
+import { useTranslation } from '@/lib/use-translation'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+export default function SessionTemplatesPage() {
+    const { t } = useTranslation()
+    const { api, role } = useAppContext()
+    const goBack = useAppGoBack()
+    const navigate = useNavigate()
+    // Templates spawn sessions, which is admin-only on the hub
+    const canManage = hasUserRole(role, 'admin')
+    const { templates, isLoading, error } = useSessionTemplates(api)
+    const { machines } = useMachines(api, canManage)
+    const actions = useSessionTemplateActions(api)
+    // null = closed, 'new' = creating, otherwise the template being edited
+    const [editing, setEditing] = useState<SessionTemplate | 'new' | null>(null)
+    const [deleting, setDeleting] = useState<SessionTemplate | null>(null)
+    const [actionError, setActionError] = useState<string | null>(null)
+
+    const handleSave = async (input: SessionTemplateInput) => {
+        if (editing && editing !== 'new') {
+            await actions.updateTemplate(editing.id, input)
+        } else {
+            await actions.createTemplate(input)
+        }
+        setEditing(null)
+    }
+
+    const handleLaunch = async (template: SessionTemplate) => {
+        setActionError(null)
+        try {
+            const result = await actions.launchTemplate(template)
+            if (result.type === 'error') {
+                setActionError(result.message)
+                return
+            }
+            navigate({
+                to: '/sessions/$sessionId',
+                params: { sessionId: result.sessionId }
+            })
+        } catch {
+            setActionError(t('templates.error.launch'))
+        }
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('templates.title')}</div>
+                    {canManage && editing === null ? (
+                        <Button size="sm" onClick={() => setEditing('new')}>
+                            {t('templates.add')}
+                        </Button>
+                    ) : null}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    <div className="px-3 py-3 text-sm text-[var(--app-hint)]">
+                        {t('templates.description')}
+                    </div>
+
+                    {editing !== null ? (
+                        <div className="border-y border-[var(--app-divider)]">
+                            <SessionTemplateEditor
+                                key={editing === 'new' ? 'new' : editing.id}
+                                template={editing === 'new' ? null : editing}
+                                machines={machines}
+                                onSave={handleSave}
+                                onCancel={() => setEditing(null)}
+                                isPending={actions.isPending}
+                            />
+                        </div>
+                    ) : null}
+
+                    {error || actionError ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error ?? actionError}</div>
+                    ) : null}
+
+                    {isLoading ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : templates.length === 0 && editing === null ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('templates.empty')}</div>
+                    ) : (
+                        <div className="divide-y divide-[var(--app-divider)]">
+                            {templates.map((template) => (
+                                <div key={template.id} className="flex items-center gap-3 px-3 py-3">
+                                    <button
+                                        type="button"
+                                        disabled={!canManage}
+                                        onClick={() => setEditing(template)}
+                                        className="flex min-w-0 flex-1 flex-col text-left"
+                                    >
+                                        <span className="flex items-center gap-2">
+                                            <span className="truncate text-[var(--app-fg)]">{template.name}</span>
+                                            <span className="text-xs text-[var(--app-hint)]">{template.agent}</span>
+                                        </span>
+                                        <span className="truncate font-mono text-xs text-[var(--app-hint)]">
+                                            {template.directory}
+                                        </span>
+                                    </button>
+                                    {canManage ? (
+                                        <>
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                disabled={actions.isLaunchPending}
+                                                onClick={() => void handleLaunch(template)}
+                                            >
+                                                {t('templates.launch')}
+                                            </Button>
+                                            <Button size="sm" variant="outline" onClick={() => setDeleting(template)}>
+                                                {t('templates.delete')}
+                                            </Button>
+                                        </>
+                                    ) : null}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <ConfirmDialog
+                isOpen={deleting !== null}
+                onClose={() => setDeleting(null)}
+                title={t('templates.delete')}
+                description={t('templates.deleteConfirm', { name: deleting?.name ?? '' })}
+                confirmLabel={t('templates.delete')}
+                confirmingLabel={t('dialog.delete.confirming')}
+                onConfirm={async () => {
+                    if (deleting) {
+                        await actions.deleteTemplate(deleting.id)
+                    }
+                }}
+                isPending={actions.isPending}
+                destructive
+            />
+        </div>
+    )
+}
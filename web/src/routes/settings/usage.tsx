@@ -0,0 +1,319 @@
+import { useMemo, useState } from 'react'
+import { hasUserRole } from '@hapi/protocol'
+import type { UsageBudget, UsageBudgetInput, UsageBudgetStatus, UsageDailyTotal } from '@/types/api'
+import { BudgetEditor } from '@/components/Usage/BudgetEditor'
+import { formatTokenCount, formatUsd, getBillableTokens } from '@/components/Usage/usageFormat'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useMachines } from '@/hooks/queries/useMachines'
+import { useSessions } from '@/hooks/queries/useSessions'
+import { useUsage } from '@/hooks/queries/useUsage'
+import { useUsageBudgets } from '@/hooks/queries/useUsageBudgets'
+import { useUsageBudgetActions } from '@/hooks/mutations/useUsageBudgetActions'
+import { useTranslation } from '@/lib/use-translation'
+
+const RANGE_DAYS = [7, 30, 90] as const
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+function toBudgetInput(budget: UsageBudget, overrides: Partial<UsageBudgetInput> = {}): UsageBudgetInput {
+    return {
+        name: budget.name,
+        enabled: budget.enabled,
+        scope: budget.scope,
+        scopeId: budget.scopeId,
+        period: budget.period,
+        limitTokens: budget.limitTokens,
+        limitUsd: budget.limitUsd,
+        action: budget.action,
+        ...overrides
+    }
+}
+
+// The hub returns one row per day, flavor and model; the table shows one row per day
+function groupByDay(rows: UsageDailyTotal[]): Array<{ day: string; costUsd: number; tokens: number; models: UsageDailyTotal[] }> {
+    const days = new Map<string, { day: string; costUsd: number; tokens: number; models: UsageDailyTotal[] }>()
+    for (const row of rows) {
+        const entry = days.get(row.day) ?? { day: row.day, costUsd: 0, tokens: 0, models: [] }
+        entry.costUsd += row.costUsd
+        entry.tokens += getBillableTokens(row)
+        entry.models.push(row)
+        days.set(row.day, entry)
+    }
+    return [...days.values()]
+}
+
+function SectionTitle(props: { children: React.ReactNode }) {
+    return (
+        <div className="px-3 py-2 text-xs font-semibold text-[var(--app-hint)] uppercase tracking-wide">
+            {props.children}
+        </div>
+    )
+}
+
+function BudgetProgress(props: { status: UsageBudgetStatus }) {
+    const { budget, usedUsd, usedTokens, exceeded } = props.status
+    const ratio = Math.max(
+        budget.limitUsd ? usedUsd / budget.limitUsd : 0,
+        budget.limitTokens ? usedTokens / budget.limitTokens : 0
+    )
+    return (
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-[var(--app-subtle-bg)]">
+            <div
+                className={`h-full ${exceeded ? 'bg-red-600' : 'bg-[var(--app-button)]'}`}
+                style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+            />
+        </div>
+    )
+}
+
+export default function UsagePage() {
+    const { t } = useTranslation()
+    const { api, role } = useAppContext()
+    const goBack = useAppGoBack()
+    const isAdmin = hasUserRole(role, 'admin')
+    const [rangeDays, setRangeDays] = useState<number>(30)
+    // Rounded to the hour so the query key stays stable between renders
+    const filters = useMemo(() => {
+        const to = Math.ceil(Date.now() / (60 * 60 * 1000)) * 60 * 60 * 1000
+        return { from: to - rangeDays * DAY_MS, to }
+    }, [rangeDays])
+    const { usage, isLoading, error } = useUsage(api, filters)
+    const { budgets, error: budgetsError } = useUsageBudgets(api)
+    const { sessions } = useSessions(api)
+    const { machines } = useMachines(api, isAdmin)
+    const actions = useUsageBudgetActions(api)
+    // null = closed, 'new' = creating, otherwise the budget being edited
+    const [editing, setEditing] = useState<UsageBudget | 'new' | null>(null)
+    const [deleting, setDeleting] = useState<UsageBudget | null>(null)
+
+    const days = useMemo(() => groupByDay(usage?.daily ?? []), [usage])
+
+    const handleSave = async (input: UsageBudgetInput) => {
+        if (editing && editing !== 'new') {
+            await actions.updateBudget(editing.id, input)
+        } else {
+            await actions.createBudget(input)
+        }
+        setEditing(null)
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('usage.title')}</div>
+                    <select
+                        value={rangeDays}
+                        onChange={(e) => setRangeDays(Number(e.target.value))}
+                        className="rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] px-2 py-1 text-sm text-[var(--app-fg)]"
+                        aria-label={t('usage.range')}
+                    >
+                        {RANGE_DAYS.map((value) => (
+                            <option key={value} value={value}>{t('usage.range.days', { n: value })}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    {error ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{error}</div>
+                    ) : isLoading || !usage ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-3 gap-2 px-3 py-3">
+                                <div className="flex flex-col">
+                                    <span className="text-xs text-[var(--app-hint)]">{t('usage.totals.cost')}</span>
+                                    <span className="text-lg font-semibold">{formatUsd(usage.totals.costUsd)}</span>
+                                </div>
+                                <div className="flex flex-col">
+                                    <span className="text-xs text-[var(--app-hint)]">{t('usage.totals.tokens')}</span>
+                                    <span className="text-lg font-semibold">{formatTokenCount(getBillableTokens(usage.totals))}</span>
+                                </div>
+                                <div className="flex flex-col">
+                                    <span className="text-xs text-[var(--app-hint)]">{t('usage.totals.turns')}</span>
+                                    <span className="text-lg font-semibold">{usage.totals.turns}</span>
+                                </div>
+                            </div>
+
+                            <div className="border-t border-[var(--app-divider)]">
+                                <SectionTitle>{t('usage.byModel')}</SectionTitle>
+                                {usage.byModel.length === 0 ? (
+                                    <div className="px-3 pb-3 text-sm text-[var(--app-hint)]">{t('usage.empty')}</div>
+                                ) : (
+                                    <div className="flex flex-col gap-1 px-3 pb-3 text-sm">
+                                        {usage.byModel.map((row) => (
+                                            <div key={`${row.flavor}:${row.model}`} className="flex items-center justify-between gap-2">
+                                                <span className="min-w-0 truncate">
+                                                    {row.model ?? t('usage.unknownModel')}
+                                                    <span className="ml-2 text-xs text-[var(--app-hint)]">{row.flavor ?? ''}</span>
+                                                </span>
+                                                <span className="shrink-0 text-[var(--app-hint)]">
+                                                    {formatUsd(row.costUsd)} · {t('usage.tokens', { count: formatTokenCount(getBillableTokens(row)) })}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="border-t border-[var(--app-divider)]">
+                                <SectionTitle>{t('usage.daily')}</SectionTitle>
+                                {days.length === 0 ? (
+                                    <div className="px-3 pb-3 text-sm text-[var(--app-hint)]">{t('usage.empty')}</div>
+                                ) : (
+                                    <div className="flex flex-col px-3 pb-3 text-sm">
+                                        {days.map((day) => (
+                                            <details key={day.day} className="py-1">
+                                                <summary className="flex cursor-pointer items-center justify-between gap-2">
+                                                    <span className="font-mono">{day.day}</span>
+                                                    <span className="text-[var(--app-hint)]">
+                                                        {formatUsd(day.costUsd)} · {t('usage.tokens', { count: formatTokenCount(day.tokens) })}
+                                                    </span>
+                                                </summary>
+                                                <div className="flex flex-col gap-0.5 pl-3 pt-1 text-xs text-[var(--app-hint)]">
+                                                    {day.models.map((row) => (
+                                                        <div key={`${row.flavor}:${row.model}`} className="flex justify-between gap-2">
+                                                            <span className="truncate">{row.model ?? row.flavor ?? t('usage.unknownModel')}</span>
+                                                            <span>{formatUsd(row.costUsd)} · {formatTokenCount(getBillableTokens(row))}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </details>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    <div className="border-t border-[var(--app-divider)]">
+                        <div className="flex items-center justify-between pr-3">
+                            <SectionTitle>{t('usage.budgets.title')}</SectionTitle>
+                            {isAdmin && editing === null ? (
+                                <Button size="sm" onClick={() => setEditing('new')}>
+                                    {t('usage.budgets.add')}
+                                </Button>
+                            ) : null}
+                        </div>
+                        <div className="px-3 pb-2 text-sm text-[var(--app-hint)]">{t('usage.budgets.description')}</div>
+
+                        {editing !== null ? (
+                            <div className="border-y border-[var(--app-divider)]">
+                                <BudgetEditor
+                                    key={editing === 'new' ? 'new' : editing.id}
+                                    budget={editing === 'new' ? null : editing}
+                                    sessions={sessions}
+                                    machines={machines}
+                                    onSave={handleSave}
+                                    onCancel={() => setEditing(null)}
+                                    isPending={actions.isPending}
+                                />
+                            </div>
+                        ) : null}
+
+                        {budgetsError ? (
+                            <div className="px-3 py-3 text-sm text-red-600">{budgetsError}</div>
+                        ) : budgets.length === 0 && editing === null ? (
+                            <div className="px-3 pb-3 text-sm text-[var(--app-hint)]">{t('usage.budgets.empty')}</div>
+                        ) : (
+                            <div className="divide-y divide-[var(--app-divider)]">
+                                {budgets.map((status) => (
+                                    <div key={status.budget.id} className="flex items-center gap-3 px-3 py-3">
+                                        {isAdmin ? (
+                                            <input
+                                                type="checkbox"
+                                                checked={status.budget.enabled}
+                                                aria-label={t('usage.budgets.field.enabled')}
+                                                disabled={actions.isPending}
+                                                onChange={(e) => {
+                                                    void actions.updateBudget(status.budget.id, toBudgetInput(status.budget, { enabled: e.target.checked }))
+                                                }}
+                                            />
+                                        ) : null}
+                                        <button
+                                            type="button"
+                                            disabled={!isAdmin}
+                                            onClick={() => setEditing(status.budget)}
+                                            className="flex min-w-0 flex-1 flex-col gap-1 text-left"
+                                        >
+                                            <span className="flex items-center gap-2">
+                                                <span className="truncate text-[var(--app-fg)]">{status.budget.name}</span>
+                                                <span className="text-xs text-[var(--app-hint)]">
+                                                    {t(`usage.budgets.period.${status.budget.period}`)} · {t(`usage.budgets.action.${status.budget.action}`)}
+                                                </span>
+                                            </span>
+                                            <BudgetProgress status={status} />
+                                            <span className={`text-xs ${status.exceeded ? 'text-red-600' : 'text-[var(--app-hint)]'}`}>
+                                                {[
+                                                    status.budget.limitUsd !== null
+                                                        ? `${formatUsd(status.usedUsd)} / ${formatUsd(status.budget.limitUsd)}`
+                                                        : null,
+                                                    status.budget.limitTokens !== null
+                                                        ? `${formatTokenCount(status.usedTokens)} / ${formatTokenCount(status.budget.limitTokens)}`
+                                                        : null
+                                                ].filter(Boolean).join(' · ')}
+                                                {status.exceeded ? ` · ${t('usage.budgets.exceeded')}` : ''}
+                                            </span>
+                                        </button>
+                                        {isAdmin ? (
+                                            <Button size="sm" variant="outline" onClick={() => setDeleting(status.budget)}>
+                                                {t('usage.budgets.delete')}
+                                            </Button>
+                                        ) : null}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <ConfirmDialog
+                isOpen={deleting !== null}
+                onClose={() => setDeleting(null)}
+                title={t('usage.budgets.delete')}
+                description={t('usage.budgets.deleteConfirm', { name: deleting?.name ?? '' })}
+                confirmLabel={t('usage.budgets.delete')}
+                confirmingLabel={t('dialog.delete.confirming')}
+                onConfirm={async () => {
+                    if (deleting) {
+                        await actions.deleteBudget(deleting.id)
+                    }
+                }}
+                isPending={actions.isPending}
+                destructive
+            />
+        </div>
+    )
+}
@@ -0,0 +1,221 @@
+import { useState, type FormEvent } from 'react'
+import { USER_ROLES } from '@hapi/protocol'
+import type { UserAccount, UserRole } from '@/types/api'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
+import { useAppContext } from '@/lib/app-context'
+import { useAppGoBack } from '@/hooks/useAppGoBack'
+import { useCopyToClipboard } from '@/hooks/useCopyToClipboard'
+import { useUserAccounts } from '@/hooks/queries/useUserAccounts'
+import { useUserAccountActions } from '@/hooks/mutations/useUserAccountActions'
+import { useTranslation } from '@/lib/use-translation'
+
+function BackIcon(props: { className?: string }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={props.className}
+        >
+            <polyline points="15 18 9 12 15 6" />
+        </svg>
+    )
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-bg)] text-[var(--app-fg)] placeholder:text-[var(--app-hint)] focus:outline-none focus:ring-2 focus:ring-[var(--app-button)] focus:border-transparent'
+const selectClassName = 'rounded-md border border-[var(--app-border)] bg-[var(--app-bg)] px-2 py-1 text-sm text-[var(--app-fg)]'
+
+function IssuedToken(props: { name: string; token: string; onDismiss: () => void }) {
+    const { t } = useTranslation()
+    const { copied, copy } = useCopyToClipboard()
+
+    return (
+        <div className="mx-3 my-3 flex flex-col gap-2 rounded-lg border border-[var(--app-border)] bg-[var(--app-subtle-bg)] p-3">
+            <div className="text-sm text-[var(--app-fg)]">{t('users.token.issued', { name: props.name })}</div>
+            <code className="break-all rounded-md bg-[var(--app-bg)] px-2 py-1 font-mono text-xs text-[var(--app-fg)]">
+                {props.token}
+            </code>
+            <div className="text-xs text-[var(--app-hint)]">{t('users.token.once')}</div>
+            <div className="flex gap-2">
+                <Button size="sm" onClick={() => void copy(props.token)}>
+                    {copied ? t('users.token.copied') : t('users.token.copy')}
+                </Button>
+                <Button size="sm" variant="outline" onClick={props.onDismiss}>
+                    {t('users.token.dismiss')}
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+function describeUser(user: UserAccount, t: (key: string) => string): string {
+    if (user.name) return user.name
+    return user.platform === 'telegram' ? t('users.platform.telegram') : `#${user.id}`
+}
+
+export default function UsersPage() {
+    const { t } = useTranslation()
+    const { api } = useAppContext()
+    const goBack = useAppGoBack()
+    const { users, isLoading, error } = useUserAccounts(api)
+    const actions = useUserAccountActions(api)
+    const [name, setName] = useState('')
+    const [role, setRole] = useState<UserRole>('viewer')
+    const [issued, setIssued] = useState<{ name: string; token: string } | null>(null)
+    const [revoking, setRevoking] = useState<UserAccount | null>(null)
+    const [actionError, setActionError] = useState<string | null>(null)
+
+    const runAction = async (action: () => Promise<void>) => {
+        setActionError(null)
+        try {
+            await action()
+        } catch (e) {
+            setActionError(e instanceof Error ? e.message : t('users.error.generic'))
+        }
+    }
+
+    const handleCreate = (event: FormEvent) => {
+        event.preventDefault()
+        const trimmedName = name.trim()
+        if (!trimmedName) return
+        void runAction(async () => {
+            const response = await actions.createUser({ name: trimmedName, role })
+            setIssued({ name: trimmedName, token: response.token })
+            setName('')
+        })
+    }
+
+    const handleRegenerate = (user: UserAccount) => {
+        void runAction(async () => {
+            const token = await actions.regenerateToken(user.id)
+            setIssued({ name: describeUser(user, t), token })
+        })
+    }
+
+    return (
+        <div className="flex h-full flex-col">
+            <div className="bg-[var(--app-bg)] pt-[env(safe-area-inset-top)]">
+                <div className="mx-auto w-full max-w-content flex items-center gap-2 p-3 border-b border-[var(--app-border)]">
+                    <button
+                        type="button"
+                        onClick={goBack}
+                        className="flex h-8 w-8 items-center justify-center rounded-full text-[var(--app-hint)] transition-colors hover:bg-[var(--app-secondary-bg)] hover:text-[var(--app-fg)]"
+                    >
+                        <BackIcon />
+                    </button>
+                    <div className="flex-1 font-semibold">{t('users.title')}</div>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                <div className="mx-auto w-full max-w-content">
+                    <div className="px-3 py-3 text-sm text-[var(--app-hint)]">
+                        {t('users.description')}
+                    </div>
+
+                    <form onSubmit={handleCreate} className="flex flex-col gap-2 border-y border-[var(--app-divider)] px-3 py-3">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder={t('users.field.name')}
+                            maxLength={100}
+                            className={inputClassName}
+                        />
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={role}
+                                onChange={(e) => setRole(e.target.value as UserRole)}
+                                aria-label={t('users.field.role')}
+                                className={selectClassName}
+                            >
+                                {USER_ROLES.map((option) => (
+                                    <option key={option} value={option}>{t(`users.role.${option}`)}</option>
+                                ))}
+                            </select>
+                            <Button type="submit" size="sm" disabled={!name.trim() || actions.isPending}>
+                                {t('users.issue')}
+                            </Button>
+                        </div>
+                    </form>
+
+                    {issued ? (
+                        <IssuedToken name={issued.name} token={issued.token} onDismiss={() => setIssued(null)} />
+                    ) : null}
+
+                    {error || actionError ? (
+                        <div className="px-3 py-3 text-sm text-red-600">{actionError ?? error}</div>
+                    ) : null}
+
+                    {isLoading ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('misc.loading')}</div>
+                    ) : users.length === 0 ? (
+                        <div className="px-3 py-3 text-sm text-[var(--app-hint)]">{t('users.empty')}</div>
+                    ) : (
+                        <div className="divide-y divide-[var(--app-divider)]">
+                            {users.map((user) => (
+                                <div key={user.id} className="flex items-center gap-3 px-3 py-3">
+                                    <div className="flex min-w-0 flex-1 flex-col">
+                                        <span className="truncate text-[var(--app-fg)]">{describeUser(user, t)}</span>
+                                        <span className="text-xs text-[var(--app-hint)]">
+                                            {t(`users.platform.${user.platform === 'telegram' ? 'telegram' : 'token'}`)}
+                                            {' · '}
+                                            {new Date(user.createdAt).toLocaleDateString()}
+                                        </span>
+                                    </div>
+                                    <select
+                                        value={user.role}
+                                        disabled={actions.isPending}
+                                        aria-label={t('users.field.role')}
+                                        onChange={(e) => {
+                                            const nextRole = e.target.value as UserRole
+                                            void runAction(async () => {
+                                                await actions.updateRole(user.id, nextRole)
+                                            })
+                                        }}
+                                        className={selectClassName}
+                                    >
+                                        {USER_ROLES.map((option) => (
+                                            <option key={option} value={option}>{t(`users.role.${option}`)}</option>
+                                        ))}
+                                    </select>
+                                    {user.platform === 'token' ? (
+                                        <Button size="sm" variant="outline" disabled={actions.isPending} onClick={() => handleRegenerate(user)}>
+                                            {t('users.regenerate')}
+                                        </Button>
+                                    ) : null}
+                                    <Button size="sm" variant="outline" onClick={() => setRevoking(user)}>
+                                        {t('users.revoke')}
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <ConfirmDialog
+                isOpen={revoking !== null}
+                onClose={() => setRevoking(null)}
+                title={t('users.revoke')}
+                description={t('users.revokeConfirm', { name: revoking ? describeUser(revoking, t) : '' })}
+                confirmLabel={t('users.revoke')}
+                confirmingLabel={t('dialog.delete.confirming')}
+                onConfirm={async () => {
+                    if (revoking) {
+                        await actions.deleteUser(revoking.id)
+                    }
+                }}
+                isPending={actions.isPending}
+                destructive
+            />
+        </div>
+    )
+}
@@ -8,6 +8,12 @@ declare const self: ServiceWorkerGlobalScope & {
     __WB_MANIFEST: Array<string | { url: string; revision?: string }>
 }
 
+type PushAction = {
+    action: string
+    title: string
+    token: string
+}
+
 type PushPayload = {
     title: string
     body?: string
@@ -18,9 +24,15 @@ type PushPayload = {
         type?: string
         sessionId?: string
         url?: string
+        tool?: string
+        summary?: string | null
+        actionUrl?: string
+        actions?: PushAction[]
     }
 }
 
+type NotificationData = NonNullable<PushPayload['data']>
+
 precacheAndRoute(self.__WB_MANIFEST)
 
 registerRoute(
@@ -104,20 +116,57 @@ self.addEventListener('push', (event) => {
     const data = payload.data
     const tag = payload.tag
 
+    // Action buttons are not in the DOM lib types yet; browsers without them ignore the field
+    const actions = data?.actionUrl
+        ? (data.actions ?? []).map(({ action, title }) => ({ action, title }))
+        : []
+
     event.waitUntil(
         self.registration.showNotification(title, {
             body,
             icon,
             badge,
             data,
-            tag
-        })
+            tag,
+            actions
+        } as NotificationOptions)
     )
 })
 
+// Answers a permission request without loading the app; falls back to opening it on failure
+async function runNotificationAction(data: NotificationData, action: PushAction): Promise<void> {
+    try {
+        const response = await fetch(data.actionUrl!, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({ token: action.token })
+        })
+        if (response.ok) {
+            return
+        }
+        const body = await response.json().catch(() => null) as { error?: string } | null
+        await self.registration.showNotification('Permission not answered', {
+            body: body?.error ?? `Request failed (${response.status}). Open HAPI to respond.`,
+            icon: '/pwa-192x192.png',
+            badge: '/pwa-64x64.png',
+            tag: `permission-${data.sessionId ?? ''}`,
+            data: { url: data.url }
+        })
+    } catch {
+        await self.clients.openWindow(data.url ?? '/')
+    }
+}
+
 self.addEventListener('notificationclick', (event) => {
     event.notification.close()
-    const data = event.notification.data as { url?: string } | undefined
+    const data = event.notification.data as NotificationData | undefined
+    const action = event.action
+        ? data?.actions?.find((candidate) => candidate.action === event.action)
+        : undefined
+    if (data?.actionUrl && action) {
+        event.waitUntil(runNotificationAction(data, action))
+        return
+    }
     const url = data?.url ?? '/'
     event.waitUntil(self.clients.openWindow(url))
 })
@@ -1,20 +1,73 @@
 import type {
+    AcpAgentInfo,
+    AuditAction,
+    AuditOrigin,
     DecryptedMessage as ProtocolDecryptedMessage,
+    ModelCatalog,
+    NotificationChannelId,
+    NotificationPreferences,
+    PermissionRule,
+    PermissionRuleDryRunMatch,
+    Schedule,
+    ScheduleRun,
     Session,
     SessionSummary,
+    SessionTemplate,
     SyncEvent as ProtocolSyncEvent,
+    TerminalRecordingSummary,
+    TerminalSummary,
+    UsageBudgetStatus,
+    UsageDailyTotal,
+    UsageTotals,
+    UserRole,
     WorktreeMetadata
 } from '@hapi/protocol/types'
 
 export type {
+    AcpAgentInfo,
     AgentState,
     AttachmentMetadata,
+    AuditAction,
+    AuditOrigin,
+    ModelCatalog,
     ModelMode,
+    NotificationChannelId,
+    NotificationPreferences,
+    NotificationQuietHours,
     PermissionMode,
+    PermissionRule,
+    PermissionRuleAction,
+    PermissionRuleDryRunMatch,
+    PermissionRuleInput,
+    QueuedPrompt,
+    Schedule,
+    ScheduleInput,
+    ScheduleMissedRunPolicy,
+    ScheduleRun,
+    ScheduleRunStatus,
+    ScheduleTarget,
     Session,
     SessionSummary,
     SessionSummaryMetadata,
+    SessionTemplate,
+    SessionTemplateAttachment,
+    SessionTemplateAttachmentInput,
+    SessionTemplateInput,
+    SessionType,
+    SpawnAgent,
+    TerminalRecordingSummary,
+    TerminalSummary,
     TodoItem,
+    UsageBudget,
+    UsageBudgetAction,
+    UsageBudgetInput,
+    UsageBudgetPeriod,
+    UsageBudgetScope,
+    UsageBudgetStatus,
+    UsageDailyTotal,
+    UsageTotals,
+    UserRole,
+    WebhookEvent,
     WorktreeMetadata
 } from '@hapi/protocol/types'
 
@@ -46,6 +99,8 @@ export type Machine = {
         platform: string
         happyCliVersion: string
         displayName?: string
+        // ACP agents declared in the machine's CLI settings
+        acpAgents?: AcpAgentInfo[]
     } | null
 }
 
@@ -56,6 +111,7 @@ export type AuthResponse = {
         username?: string
         firstName?: string
         lastName?: string
+        role?: UserRole
     }
 }
 
@@ -74,6 +130,9 @@ export type MessagesResponse = {
 export type MachinesResponse = { machines: Machine[] }
 export type MachinePathsExistsResponse = { exists: Record<string, boolean> }
 
+// Catalog of the machine's most recent session of an agent, null before one ran
+export type MachineModelsResponse = { catalog: ModelCatalog | null }
+
 export type DirectoryEntry = {
     name: string
     type: 'file' | 'directory' | 'other'
@@ -89,7 +148,7 @@ export type BrowseDirectoryResponse = {
 }
 
 export type SpawnResponse =
-    | { type: 'success'; sessionId: string }
+    | { type: 'success'; sessionId: string; warning?: string }
     | { type: 'error'; message: string }
 
 export type GitCommandResponse = {
@@ -100,6 +159,23 @@ export type GitCommandResponse = {
     error?: string
 }
 
+export type QueueCommandResponse = {
+    success: boolean
+    error?: string
+}
+
+export type StructuralDiffResponse = {
+    success: boolean
+    // difftastic --display=json output
+    stdout?: string
+    // Both sides of a file diff; text diffs already have them
+    oldContent?: string
+    newContent?: string
+    error?: string
+    // difftastic is not installed on the session's machine
+    unavailable?: boolean
+}
+
 export type FileSearchItem = {
     fileName: string
     filePath: string
@@ -122,7 +198,18 @@ export type ListDirectoryResponse = {
 export type FileReadResponse = {
     success: boolean
     content?: string
+    // sha256 of the file; older CLIs do not report it
+    hash?: string
+    error?: string
+}
+
+export type FileWriteResponse = {
+    success: boolean
+    hash?: string
     error?: string
+    // The file changed since it was read (or exists when creating); currentHash is null if it is gone
+    conflict?: boolean
+    currentHash?: string | null
 }
 
 export type UploadFileResponse = {
@@ -151,10 +238,26 @@ export type GitStatusFiles = {
     stagedFiles: GitFileStatus[]
     unstagedFiles: GitFileStatus[]
     branch: string | null
+    upstream: string | null
+    // Commits relative to the upstream as of the last fetch
+    ahead: number
+    behind: number
     totalStaged: number
     totalUnstaged: number
 }
 
+export type GitBranch = {
+    name: string
+    current: boolean
+    upstream: string | null
+    ahead: number
+    behind: number
+    // The upstream was deleted on the remote
+    upstreamGone: boolean
+}
+
+export type GitPatchMode = 'stage' | 'unstage' | 'discard'
+
 export type SlashCommand = {
     name: string
     description?: string
@@ -180,6 +283,18 @@ export type SkillsResponse = {
     error?: string
 }
 
+export type TerminalListResponse = {
+    success: boolean
+    terminals?: TerminalSummary[]
+    error?: string
+}
+
+export type TerminalRecordingsResponse = {
+    success: boolean
+    recordings?: TerminalRecordingSummary[]
+    error?: string
+}
+
 export type PushSubscriptionKeys = {
     p256dh: string
     auth: string
@@ -204,3 +319,122 @@ export type VisibilityPayload = {
 }
 
 export type SyncEvent = ProtocolSyncEvent
+
+export type PermissionRulesResponse = { rules: PermissionRule[] }
+export type PermissionRuleResponse = { rule: PermissionRule }
+export type PermissionRuleDryRunResponse = {
+    total: number
+    matches: PermissionRuleDryRunMatch[]
+}
+
+export type SchedulesResponse = { schedules: Schedule[] }
+export type ScheduleResponse = { schedule: Schedule }
+export type ScheduleRunsResponse = { runs: ScheduleRun[] }
+export type ScheduleRunResponse = { run: ScheduleRun }
+
+export type SessionTemplatesResponse = { templates: SessionTemplate[] }
+export type SessionTemplateResponse = { template: SessionTemplate }
+
+export type UsageModelTotal = UsageTotals & {
+    flavor: string | null
+    model: string | null
+}
+
+export type UsageFilters = {
+    from?: number
+    to?: number
+}
+
+export type UsageResponse = {
+    totals: UsageTotals
+    byModel: UsageModelTotal[]
+    daily: UsageDailyTotal[]
+}
+
+export type SessionUsageResponse = {
+    totals: UsageTotals
+    byModel: UsageModelTotal[]
+    budgets: UsageBudgetStatus[]
+}
+
+export type UsageBudgetsResponse = { budgets: UsageBudgetStatus[] }
+export type UsageBudgetResponse = { budget: UsageBudgetStatus }
+
+export type NotificationPreferencesResponse = {
+    preferences: NotificationPreferences
+    // null until the user first saves preferences
+    updatedAt: number | null
+    // Channels this hub delivers on
+    channels: NotificationChannelId[]
+}
+
+export type UserAccount = {
+    id: number
+    // 'token' for accounts issued from settings, 'telegram' for bound Telegram users
+    platform: string
+    name: string | null
+    role: UserRole
+    createdAt: number
+}
+
+export type UserAccountInput = {
+    name: string
+    role: UserRole
+}
+
+export type UserAccountsResponse = { users: UserAccount[] }
+export type UserAccountResponse = { user: UserAccount }
+export type CreateUserAccountResponse = { user: UserAccount; token: string }
+export type UserTokenResponse = { token: string }
+
+export type AuditEvent = {
+    id: number
+    actorUserId: number | null
+    // 'owner' for the CLI_API_TOKEN, otherwise the account name
+    actor: string
+    origin: AuditOrigin
+    action: AuditAction
+    sessionId: string | null
+    machineId: string | null
+    detail: string | null
+    payloadDigest: string | null
+    createdAt: number
+}
+
+export type AuditEventFilters = {
+    action?: string
+    origin?: AuditOrigin
+    sessionId?: string
+    from?: number
+    to?: number
+    before?: number
+}
+
+export type AuditEventsResponse = { events: AuditEvent[] }
+
+export type MessageSearchSnippetSegment = {
+    text: string
+    highlight: boolean
+}
+
+export type MessageSearchResult = {
+    messageId: string
+    sessionId: string
+    seq: number
+    createdAt: number
+    snippet: MessageSearchSnippetSegment[]
+    machineId: string | null
+    sessionName: string | null
+    sessionPath: string | null
+    flavor: string | null
+}
+
+export type MessageSearchFilters = {
+    machineId?: string
+    flavor?: string
+    path?: string
+    from?: number
+    to?: number
+}
+
+export type MessageSearchResponse = { results: MessageSearchResult[] }
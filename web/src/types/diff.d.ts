@@ -5,6 +5,33 @@ declare module 'diff' {
         removed?: boolean
     }
 
+    export type StructuredPatchHunk = {
+        oldStart: number
+        oldLines: number
+        newStart: number
+        newLines: number
+        lines: string[]
+    }
+
+    export type StructuredPatch = {
+        oldFileName: string
+        newFileName: string
+        oldHeader: string | undefined
+        newHeader: string | undefined
+        hunks: StructuredPatchHunk[]
+    }
+
     export function diffLines(oldStr: string, newStr: string): Change[]
-}
 
+    export function structuredPatch(
+        oldFileName: string,
+        newFileName: string,
+        oldStr: string,
+        newStr: string,
+        oldHeader?: string,
+        newHeader?: string,
+        options?: { context?: number }
+    ): StructuredPatch
+
+    export function applyPatch(source: string, patch: string | StructuredPatch): string | false
+}